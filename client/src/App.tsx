@@ -61,6 +61,10 @@ import OrdersImport from "./pages/orders-import";
 import Integrations from "./pages/integrations";
 import Settings from "./pages/settings";
 import EmailTemplates from "./pages/email-templates";
+import CustomerAutomations from "./pages/customer-automations";
+import AvailabilitySettings from "./pages/availability-settings";
+import RecurringOrders from "./pages/recurring-orders";
+import InvoiceTemplates from "./pages/invoice-templates";
 import TaxRates from "./pages/tax-rates";
 import NewOrder from "./pages/new-order";
 import ManageFeatures from "./pages/manage-features";
@@ -70,6 +74,7 @@ import StripePaymentProvider from "./pages/payment-settings/stripe";
 import SquarePaymentProvider from "./pages/payment-settings/square";
 import TippingSettings from "./pages/payment-settings/tipping";
 import PaymentSuccess from "./pages/payment-success";
+import CustomerPortal from "./pages/customer-portal";
 import TryTrial from "./pages/try-trial";
 import QuotesImport from "./pages/quotes-import";
 import QuoteImport from "./pages/quote-import";
@@ -93,6 +98,7 @@ function Router() {
         <Route path="/enquiry-form" component={EnquiryForm} />
         <Route path="/start-trial" component={StartTrial} />
         <Route path="/try-trial" component={TryTrial} />
+        <Route path="/portal/:token" component={CustomerPortal} />
         
         {/* Protected routes - require authentication */}
         <Route path="/dashboard">
@@ -120,6 +126,11 @@ function Router() {
             <DirectOrder />
           </ProtectedRoute>
         </Route>
+        <Route path="/orders/recurring">
+          <ProtectedRoute>
+            <RecurringOrders />
+          </ProtectedRoute>
+        </Route>
         <Route path="/orders/:id">
           <ProtectedRoute>
             <OrderDetails />
@@ -250,6 +261,21 @@ function Router() {
             <EmailTemplates />
           </ProtectedRoute>
         </Route>
+        <Route path="/settings/automations">
+          <ProtectedRoute>
+            <CustomerAutomations />
+          </ProtectedRoute>
+        </Route>
+        <Route path="/settings/availability">
+          <ProtectedRoute>
+            <AvailabilitySettings />
+          </ProtectedRoute>
+        </Route>
+        <Route path="/settings/invoice-templates">
+          <ProtectedRoute>
+            <InvoiceTemplates />
+          </ProtectedRoute>
+        </Route>
         <Route path="/tax-rates">
           <ProtectedRoute>
             <TaxRates />
@@ -0,0 +1,154 @@
+import React from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { InfoIcon, PaperclipIcon, RotateCwIcon } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  emailCategoryLabels,
+  emailOutboxStatusLabels,
+  type EmailOutboxDetail,
+  type EmailOutboxStatus,
+  type EmailOutboxSummary,
+} from "@shared/email-outbox";
+
+interface EmailHistoryProps {
+  // `/api/orders/:id/emails` or `/api/contacts/:id/emails`
+  url: string;
+}
+
+const statusClasses: Record<EmailOutboxStatus, string> = {
+  queued: "bg-gray-100 text-gray-700",
+  sending: "bg-blue-50 text-blue-700",
+  sent: "bg-green-50 text-green-700",
+  failed: "bg-red-50 text-red-700",
+};
+
+/**
+ * Lists the emails queued or sent for an order or contact, with what each
+ * one said and a retry for ones that failed
+ */
+export default function EmailHistory({ url }: EmailHistoryProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [viewingId, setViewingId] = React.useState<number | null>(null);
+
+  const { data: emails = [], isLoading } = useQuery<EmailOutboxSummary[]>({
+    queryKey: [url],
+    // Keep checking while anything is still waiting to be sent
+    refetchInterval: (query) =>
+      query.state.data?.some((email) => email.status === "queued" || email.status === "sending") ? 10000 : false,
+  });
+
+  const { data: viewing } = useQuery<EmailOutboxDetail>({
+    queryKey: [`/api/emails/${viewingId}`],
+    enabled: viewingId !== null,
+  });
+
+  const retry = async (email: EmailOutboxSummary) => {
+    try {
+      await apiRequest(`/api/emails/${email.id}/retry`, { method: "POST" });
+      queryClient.invalidateQueries({ queryKey: [url] });
+      toast({ title: "Email queued", description: `The email to ${email.toAddress} will be sent again` });
+    } catch (error) {
+      toast({ title: "Error", description: "Failed to retry email", variant: "destructive" });
+    }
+  };
+
+  if (isLoading) {
+    return <p className="text-gray-500 text-sm">Loading emails...</p>;
+  }
+
+  if (emails.length === 0) {
+    return (
+      <div className="flex flex-col items-center justify-center py-8 text-center">
+        <div className="text-gray-400 mb-2">
+          <InfoIcon className="h-5 w-5" />
+        </div>
+        <p className="text-gray-500 text-sm">No emails have been sent</p>
+      </div>
+    );
+  }
+
+  return (
+    <>
+      <ul className="divide-y divide-gray-100">
+        {emails.map((email) => (
+          <li key={email.id} className="py-3 flex items-start justify-between gap-4 text-sm">
+            <button type="button" className="text-left min-w-0" onClick={() => setViewingId(email.id)}>
+              <p className="font-medium truncate">{email.subject}</p>
+              <p className="text-gray-500">
+                {emailCategoryLabels[email.category]} to {email.toAddress} ·{" "}
+                {format(new Date(email.sentAt || email.createdAt), "EEE, dd MMM yyyy h:mm a")}
+                {email.attachments.length > 0 && (
+                  <span className="inline-flex items-center ml-2">
+                    <PaperclipIcon className="h-3 w-3 mr-1" />
+                    {email.attachments.length}
+                  </span>
+                )}
+              </p>
+              {email.lastError && email.status !== "sent" && (
+                <p className="text-red-600 text-xs mt-1">
+                  {email.status === "failed"
+                    ? `Failed after ${email.attempts} attempts: ${email.lastError}`
+                    : `Retrying ${format(new Date(email.nextAttemptAt), "h:mm a")}: ${email.lastError}`}
+                </p>
+              )}
+            </button>
+            <div className="flex items-center gap-2 shrink-0">
+              <Badge className={`px-2 py-0.5 text-xs rounded-md ${statusClasses[email.status]}`}>
+                {emailOutboxStatusLabels[email.status]}
+              </Badge>
+              {email.status === "failed" && (
+                <Button size="sm" variant="outline" className="h-7 px-2" onClick={() => retry(email)}>
+                  <RotateCwIcon className="h-3 w-3 mr-1" />
+                  Retry
+                </Button>
+              )}
+            </div>
+          </li>
+        ))}
+      </ul>
+
+      <Dialog open={viewingId !== null} onOpenChange={(open) => !open && setViewingId(null)}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>{viewing?.subject || "Email"}</DialogTitle>
+            <DialogDescription>
+              {viewing && `From ${viewing.fromName || viewing.fromAddress} to ${viewing.toAddress}`}
+            </DialogDescription>
+          </DialogHeader>
+          {viewing && (
+            <>
+              {viewing.htmlBody ? (
+                // Rendered in a sandboxed frame so the email's own styles and links stay contained
+                <iframe
+                  title="Email"
+                  sandbox=""
+                  srcDoc={viewing.htmlBody}
+                  className="w-full h-[50vh] rounded-md border"
+                />
+              ) : (
+                <pre className="max-h-[50vh] overflow-y-auto whitespace-pre-wrap rounded-md border p-4 text-sm">
+                  {viewing.textBody}
+                </pre>
+              )}
+              {viewing.attachments.length > 0 && (
+                <p className="text-sm text-gray-500">Attachments: {viewing.attachments.join(", ")}</p>
+              )}
+            </>
+          )}
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
@@ -0,0 +1,64 @@
+import React from "react";
+import { Button } from "@/components/ui/button";
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
+import {
+  emailItemPlaceholders,
+  emailPlaceholderGroups,
+  emailPlaceholders,
+  getEmailPlaceholders,
+  type AnyEmailTemplateType,
+} from "@shared/email-templates";
+
+/**
+ * The placeholders a template type can use, by group
+ */
+export default function PlaceholderReference({ type }: { type: AnyEmailTemplateType }) {
+  const placeholders = getEmailPlaceholders(type);
+  const groups = Object.keys(emailPlaceholderGroups) as (keyof typeof emailPlaceholderGroups)[];
+
+  return (
+    <Collapsible>
+      <CollapsibleTrigger asChild>
+        <Button variant="link" size="sm" className="px-0">
+          Available placeholders
+        </Button>
+      </CollapsibleTrigger>
+      <CollapsibleContent className="rounded-md border bg-gray-50 p-4 text-sm space-y-4">
+        {groups.map((group) => {
+          const names = placeholders.filter((name) => emailPlaceholders[name].group === group);
+          if (names.length === 0) return null;
+
+          return (
+            <div key={group}>
+              <p className="font-medium mb-1">{emailPlaceholderGroups[group]}</p>
+              <ul className="space-y-1">
+                {names.map((name) => (
+                  <li key={name}>
+                    <code className="text-xs bg-white border rounded px-1">{`{{${name}}}`}</code>{" "}
+                    <span className="text-gray-600">{emailPlaceholders[name].description}</span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          );
+        })}
+        {placeholders.includes("order.items") && (
+          <div>
+            <p className="font-medium mb-1">Inside {"{{#each order.items}}"} ... {"{{/each}}"}</p>
+            <ul className="space-y-1">
+              {(Object.keys(emailItemPlaceholders) as (keyof typeof emailItemPlaceholders)[]).map((name) => (
+                <li key={name}>
+                  <code className="text-xs bg-white border rounded px-1">{`{{${name}}}`}</code>{" "}
+                  <span className="text-gray-600">{emailItemPlaceholders[name].description}</span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+        <p className="text-gray-600">
+          Show text only when a value is set with {"{{#if payments.balance}}"} ... {"{{else}}"} ... {"{{/if}}"}.
+        </p>
+      </CollapsibleContent>
+    </Collapsible>
+  );
+}
@@ -0,0 +1,271 @@
+import React, { useEffect, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Download, Plus, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import {
+  accountingExportFormatLabels,
+  accountingExportFormats,
+  defaultAccountCodes,
+  type AccountCodes,
+  type AccountingExportFormat,
+} from "@shared/accounting-export";
+
+type AccountField = Exclude<keyof AccountCodes, "incomeCategories" | "expenseCategories" | "mileageRate">;
+
+const accountFields: { field: AccountField; label: string }[] = [
+  { field: "sales", label: "Sales" },
+  { field: "tips", label: "Tips" },
+  { field: "bank", label: "Bank" },
+  { field: "accountsReceivable", label: "Accounts receivable" },
+  { field: "accountsPayable", label: "Accounts payable" },
+  { field: "salesTax", label: "Sales tax" },
+  { field: "purchaseTax", label: "Purchase tax" },
+  { field: "expenses", label: "Expenses" },
+  { field: "mileage", label: "Mileage" },
+];
+
+const inputClassName = "bg-[#202330] border-gray-700 text-white";
+
+interface CategoryCodesProps {
+  title: string;
+  codes: Record<string, string>;
+  onChange: (codes: Record<string, string>) => void;
+}
+
+// Rows of category name to account code. Categories without a row use the
+// sales or expenses account.
+function CategoryCodes({ title, codes, onChange }: CategoryCodesProps) {
+  const [category, setCategory] = useState("");
+  const [code, setCode] = useState("");
+
+  const addCategory = () => {
+    if (!category.trim() || !code.trim()) return;
+    onChange({ ...codes, [category.trim()]: code.trim() });
+    setCategory("");
+    setCode("");
+  };
+
+  const removeCategory = (name: string) => {
+    const { [name]: _, ...rest } = codes;
+    onChange(rest);
+  };
+
+  return (
+    <div>
+      <h5 className="font-medium text-white mb-2">{title}</h5>
+      <div className="space-y-2">
+        {Object.entries(codes).map(([name, account]) => (
+          <div key={name} className="flex items-center gap-2">
+            <span className="flex-1 text-sm text-gray-300">{name}</span>
+            <Input
+              className={`${inputClassName} w-28`}
+              value={account}
+              onChange={(e) => onChange({ ...codes, [name]: e.target.value })}
+            />
+            <Button variant="ghost" size="icon" onClick={() => removeCategory(name)} className="text-gray-400 hover:bg-gray-800">
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+        ))}
+        <div className="flex items-center gap-2">
+          <Input
+            className={`${inputClassName} flex-1`}
+            placeholder="Category"
+            value={category}
+            onChange={(e) => setCategory(e.target.value)}
+          />
+          <Input
+            className={`${inputClassName} w-28`}
+            placeholder="Account"
+            value={code}
+            onChange={(e) => setCode(e.target.value)}
+          />
+          <Button variant="ghost" size="icon" onClick={addCategory} className="text-gray-400 hover:bg-gray-800">
+            <Plus className="h-4 w-4" />
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Download a date range of sales, receipts, refunds, expenses and mileage for
+ * QuickBooks, Sage or as a general journal, and set the account codes used
+ */
+export function AccountingExport() {
+  const { toast } = useToast();
+  const [format, setFormat] = useState<AccountingExportFormat>("journal-csv");
+  const [from, setFrom] = useState("");
+  const [to, setTo] = useState("");
+  const [isExporting, setIsExporting] = useState(false);
+  const [codes, setCodes] = useState<AccountCodes>(defaultAccountCodes);
+  const [showCodes, setShowCodes] = useState(false);
+
+  const { data: savedCodes } = useQuery<AccountCodes>({
+    queryKey: ["/api/settings/account-codes"],
+  });
+
+  useEffect(() => {
+    if (savedCodes) {
+      setCodes(savedCodes);
+    }
+  }, [savedCodes]);
+
+  const { mutate: saveCodes, isPending: isSaving } = useMutation({
+    mutationFn: async (accountCodes: AccountCodes) => {
+      return await apiRequest("/api/settings/account-codes", { method: "POST", body: accountCodes });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/settings/account-codes"] });
+      toast({
+        title: "Account codes saved",
+        description: "Your accounting exports will use these account codes.",
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Save failed",
+        description: "Every account code is required and the mileage rate must be a number.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleExport = async () => {
+    try {
+      setIsExporting(true);
+
+      const params = new URLSearchParams();
+      if (from) params.set("from", from);
+      if (to) params.set("to", to);
+
+      const response = await fetch(`/api/data/export/accounting/${format}?${params.toString()}`);
+
+      if (!response.ok) {
+        throw new Error(`Export failed with status: ${response.status}`);
+      }
+
+      // Use the filename the server chose, which has the right extension
+      const disposition = response.headers.get("Content-Disposition") || "";
+      const filename = disposition.match(/filename="(.+)"/)?.[1] || `bakegenie-${format}`;
+
+      const blob = await response.blob();
+      const url = window.URL.createObjectURL(blob);
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = filename;
+      link.click();
+
+      window.URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error("Accounting export error:", error);
+      toast({
+        title: "Export failed",
+        description: "There was an error exporting your accounts",
+        variant: "destructive",
+      });
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <div className="border border-gray-700 rounded-md p-4">
+      <h4 className="font-medium text-white">Accounting Export</h4>
+      <p className="text-sm text-gray-400 mb-4">
+        Sales, payments, refunds, expenses and mileage for your accountant or accounting software
+      </p>
+
+      <div className="grid gap-4 md:grid-cols-4 items-end">
+        <div className="md:col-span-2">
+          <Label className="text-gray-300">Format</Label>
+          <Select value={format} onValueChange={(value) => setFormat(value as AccountingExportFormat)}>
+            <SelectTrigger className={inputClassName}>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {accountingExportFormats.map((exportFormat) => (
+                <SelectItem key={exportFormat} value={exportFormat}>
+                  {accountingExportFormatLabels[exportFormat]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div>
+          <Label className="text-gray-300">From</Label>
+          <Input type="date" className={inputClassName} value={from} onChange={(e) => setFrom(e.target.value)} />
+        </div>
+        <div>
+          <Label className="text-gray-300">To</Label>
+          <Input type="date" className={inputClassName} value={to} onChange={(e) => setTo(e.target.value)} />
+        </div>
+      </div>
+
+      <div className="flex gap-2 mt-4">
+        <Button onClick={handleExport} disabled={isExporting}>
+          <Download className="h-4 w-4 mr-2" />
+          {isExporting ? "Exporting..." : "Download"}
+        </Button>
+        <Button
+          variant="outline"
+          onClick={() => setShowCodes(!showCodes)}
+          className="text-white border-gray-600 hover:bg-gray-800"
+        >
+          {showCodes ? "Hide account codes" : "Account codes"}
+        </Button>
+      </div>
+
+      {showCodes && (
+        <div className="mt-6 space-y-6">
+          <div className="grid gap-4 md:grid-cols-3">
+            {accountFields.map(({ field, label }) => (
+              <div key={field}>
+                <Label className="text-gray-300">{label}</Label>
+                <Input
+                  className={inputClassName}
+                  value={codes[field]}
+                  onChange={(e) => setCodes({ ...codes, [field]: e.target.value })}
+                />
+              </div>
+            ))}
+            <div>
+              <Label className="text-gray-300">Mileage rate (per mile)</Label>
+              <Input
+                type="number"
+                step="0.01"
+                min="0"
+                className={inputClassName}
+                value={codes.mileageRate}
+                onChange={(e) => setCodes({ ...codes, mileageRate: parseFloat(e.target.value) || 0 })}
+              />
+            </div>
+          </div>
+
+          <div className="grid gap-6 md:grid-cols-2">
+            <CategoryCodes
+              title="Income categories"
+              codes={codes.incomeCategories}
+              onChange={(incomeCategories) => setCodes({ ...codes, incomeCategories })}
+            />
+            <CategoryCodes
+              title="Expense categories"
+              codes={codes.expenseCategories}
+              onChange={(expenseCategories) => setCodes({ ...codes, expenseCategories })}
+            />
+          </div>
+
+          <Button onClick={() => saveCodes(codes)} disabled={isSaving}>
+            {isSaving ? "Saving..." : "Save account codes"}
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,7 +1,7 @@
 import React, { useState } from "react";
 import { Button } from "@/components/ui/button";
 import { Mail } from "lucide-react";
-import { useMutation } from "@tanstack/react-query";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
 
@@ -11,6 +11,7 @@ interface EmailInvoiceButtonProps {
 
 const EmailInvoiceButton: React.FC<EmailInvoiceButtonProps> = ({ orderId }) => {
   const { toast } = useToast();
+  const queryClient = useQueryClient();
   const [isLoading, setIsLoading] = useState(false);
 
   // Mutation for sending invoice email
@@ -26,12 +27,13 @@ const EmailInvoiceButton: React.FC<EmailInvoiceButtonProps> = ({ orderId }) => {
       
       if (!response.ok) {
         const error = await response.json();
-        throw new Error(error.message || "Failed to send invoice");
+        throw new Error(error.error || "Failed to send invoice");
       }
       
       return await response.json();
     },
     onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [`/api/invoices/${orderId}/issued`] });
       toast({
         title: "Invoice Sent",
         description: "The invoice has been emailed to the customer successfully.",
@@ -0,0 +1,64 @@
+import React from "react";
+import { useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { DownloadIcon, InfoIcon } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import type { IssuedDocument } from "@shared/schema";
+
+type IssuedInvoice = Omit<IssuedDocument, "pdfData">;
+
+interface IssuedInvoicesProps {
+  orderId: number;
+}
+
+/**
+ * Lists the copies of an order's invoice that have been issued, each of
+ * which downloads exactly as it was sent
+ */
+export default function IssuedInvoices({ orderId }: IssuedInvoicesProps) {
+  const { data: invoices = [], isLoading } = useQuery<IssuedInvoice[]>({
+    queryKey: [`/api/invoices/${orderId}/issued`],
+  });
+
+  if (isLoading) {
+    return <p className="text-gray-500 text-sm">Loading invoices...</p>;
+  }
+
+  if (invoices.length === 0) {
+    return (
+      <div className="flex flex-col items-center justify-center py-8 text-center">
+        <div className="text-gray-400 mb-2">
+          <InfoIcon className="h-5 w-5" />
+        </div>
+        <p className="text-gray-500 text-sm">No invoices have been issued</p>
+      </div>
+    );
+  }
+
+  return (
+    <ul className="divide-y divide-gray-100">
+      {invoices.map((invoice) => (
+        <li key={invoice.id} className="py-3 flex items-center justify-between gap-4 text-sm">
+          <div className="min-w-0">
+            <p className="font-medium">
+              Invoice #{invoice.documentNumber} · $ {parseFloat(invoice.total).toFixed(2)}
+            </p>
+            <p className="text-gray-500 truncate">
+              {format(new Date(invoice.createdAt), "EEE, dd MMM yyyy h:mm a")}
+              {invoice.sentTo && ` · sent to ${invoice.sentTo}`}
+            </p>
+          </div>
+          <Button
+            size="sm"
+            variant="outline"
+            className="h-7 px-2 shrink-0"
+            onClick={() => window.open(`/api/invoices/${orderId}/issued/${invoice.id}/pdf`, "_blank")}
+          >
+            <DownloadIcon className="h-3 w-3 mr-1" />
+            Download
+          </Button>
+        </li>
+      ))}
+    </ul>
+  );
+}
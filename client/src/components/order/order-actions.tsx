@@ -18,8 +18,10 @@ import {
 import { Label } from "@/components/ui/label";
 import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
+import { Checkbox } from "@/components/ui/checkbox";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
+import { describeAvailability } from "@shared/availability";
 import { useQueryClient } from "@tanstack/react-query";
 import { MoreVerticalIcon, CalendarRange, ClipboardCopy, FileText, ExternalLink, Copy, Download, MailIcon, CheckIcon, FileTextIcon } from "lucide-react";
 import EmailInvoiceButton from "./email-invoice-button";
@@ -36,6 +38,11 @@ const OrderActions: React.FC<OrderActionsProps> = ({ order, onEdit }) => {
   const [isEmailDialogOpen, setIsEmailDialogOpen] = React.useState(false);
   const [isCancelDialogOpen, setIsCancelDialogOpen] = React.useState(false);
   const [isDeleteDialogOpen, setIsDeleteDialogOpen] = React.useState(false);
+  const [isDuplicateDialogOpen, setIsDuplicateDialogOpen] = React.useState(false);
+  const [duplicateForm, setDuplicateForm] = React.useState({
+    eventDate: "",
+    includeScheduledPayments: false,
+  });
   const [emailForm, setEmailForm] = React.useState({
     to: order.contact?.email || "",
     cc: "",
@@ -77,13 +84,10 @@ const OrderActions: React.FC<OrderActionsProps> = ({ order, onEdit }) => {
     setIsSubmitting(true);
     
     try {
-      await apiRequest("PATCH", `/api/orders/${order.id}/status`, {
-        status: "Cancelled",
-      });
-      
-      // Add a log entry
-      await apiRequest("POST", `/api/orders/${order.id}/logs`, {
-        action: "Order Cancelled",
+      // The status change is logged against the order by the server
+      await apiRequest(`/api/orders/${order.id}/status`, {
+        method: "PATCH",
+        body: { status: "Cancelled" },
       });
       
       queryClient.invalidateQueries({ queryKey: [`/api/orders/${order.id}`] });
@@ -130,13 +134,9 @@ const OrderActions: React.FC<OrderActionsProps> = ({ order, onEdit }) => {
 
   const handleMarkAsReady = async () => {
     try {
-      await apiRequest("PATCH", `/api/orders/${order.id}/status`, {
-        status: "Ready",
-      });
-      
-      // Add a log entry
-      await apiRequest("POST", `/api/orders/${order.id}/logs`, {
-        action: "Order Marked as Ready",
+      await apiRequest(`/api/orders/${order.id}/status`, {
+        method: "PATCH",
+        body: { status: "Ready" },
       });
       
       queryClient.invalidateQueries({ queryKey: [`/api/orders/${order.id}`] });
@@ -154,44 +154,60 @@ const OrderActions: React.FC<OrderActionsProps> = ({ order, onEdit }) => {
     }
   };
 
-  const downloadOrderForm = () => {
-    toast({
-      title: "Coming Soon",
-      description: "This feature is coming soon.",
-    });
+  // Printable documents are rendered as PDFs on the server
+  const openDocument = (type: "order-form" | "delivery-note" | "job-sheet") => {
+    window.open(`/api/orders/${order.id}/documents/${type}`, "_blank");
   };
 
-  const downloadDeliveryNote = () => {
-    toast({
-      title: "Coming Soon",
-      description: "This feature is coming soon.",
-    });
-  };
+  const downloadOrderForm = () => openDocument("order-form");
 
-  const downloadJobSheet = () => {
-    toast({
-      title: "Coming Soon",
-      description: "This feature is coming soon.",
-    });
-  };
+  const downloadDeliveryNote = () => openDocument("delivery-note");
+
+  const downloadJobSheet = () => openDocument("job-sheet");
 
-  const openCustomerPortal = () => {
-    toast({
-      title: "Coming Soon",
-      description: "Customer portal functionality is coming soon.",
-    });
+  const downloadInvoice = () => window.open(`/api/invoices/${order.id}/pdf`, "_blank");
+
+  // Create a signed customer portal link, copy it and open it in a new tab
+  const openCustomerPortal = async () => {
+    try {
+      const { url } = await apiRequest(`/api/orders/${order.id}/portal-link`, { method: "POST", body: {} });
+      const portalUrl = `${window.location.origin}${url}`;
+
+      await navigator.clipboard?.writeText(portalUrl).catch(() => undefined);
+      window.open(portalUrl, "_blank");
+
+      queryClient.invalidateQueries({ queryKey: [`/api/orders/${order.id}/logs`] });
+      toast({
+        title: "Customer Portal Link Copied",
+        description: "Send this link to your customer so they can view and pay for their order.",
+      });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to create customer portal link. Please try again.",
+        variant: "destructive",
+      });
+    }
   };
 
-  const duplicateOrder = async () => {
+  const duplicateOrder = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSubmitting(true);
+    
     try {
-      const response = await apiRequest("POST", `/api/orders/${order.id}/duplicate`, {});
-      const newOrder = await response.json();
+      const { order: newOrder, availability } = await apiRequest(`/api/orders/${order.id}/duplicate`, {
+        method: "POST",
+        body: duplicateForm,
+      });
       
       queryClient.invalidateQueries({ queryKey: ["/api/orders"] });
       toast({
         title: "Order Duplicated",
-        description: "The order has been duplicated successfully.",
+        description: availability && availability.status !== "available"
+          ? `The order has been duplicated. ${describeAvailability(availability)}.`
+          : "The order has been duplicated successfully.",
       });
+      setIsDuplicateDialogOpen(false);
       
       // Navigate to the new order
       window.location.href = `/orders/${newOrder.id}`;
@@ -201,19 +217,16 @@ const OrderActions: React.FC<OrderActionsProps> = ({ order, onEdit }) => {
         description: "Failed to duplicate order. Please try again.",
         variant: "destructive",
       });
+    } finally {
+      setIsSubmitting(false);
     }
   };
 
   const handleConvertToOrder = async () => {
     try {
-      await apiRequest("PATCH", `/api/orders/${order.id}/status`, {
-        status: "Confirmed",
-      });
-      
-      // Add a log entry
-      await apiRequest("POST", `/api/orders/${order.id}/logs`, {
-        action: "Quote Converted to Order",
-        details: "Status changed from Quote to Confirmed"
+      await apiRequest(`/api/orders/${order.id}/status`, {
+        method: "PATCH",
+        body: { status: "Confirmed" },
       });
       
       queryClient.invalidateQueries({ queryKey: [`/api/orders/${order.id}`] });
@@ -266,13 +279,16 @@ const OrderActions: React.FC<OrderActionsProps> = ({ order, onEdit }) => {
             <DropdownMenuItem onClick={downloadJobSheet}>
               <FileText className="mr-2 h-4 w-4" /> Download Job Sheet
             </DropdownMenuItem>
+            <DropdownMenuItem onClick={downloadInvoice}>
+              <FileText className="mr-2 h-4 w-4" /> Download Invoice
+            </DropdownMenuItem>
             <DropdownMenuItem onClick={() => setIsEmailDialogOpen(true)}>
               <MailIcon className="mr-2 h-4 w-4" /> Email Order
             </DropdownMenuItem>
             <DropdownMenuItem onClick={openCustomerPortal}>
               <ExternalLink className="mr-2 h-4 w-4" /> Customer Portal
             </DropdownMenuItem>
-            <DropdownMenuItem onClick={duplicateOrder}>
+            <DropdownMenuItem onClick={() => setIsDuplicateDialogOpen(true)}>
               <Copy className="mr-2 h-4 w-4" /> Duplicate Order
             </DropdownMenuItem>
             <DropdownMenuSeparator />
@@ -397,6 +413,54 @@ const OrderActions: React.FC<OrderActionsProps> = ({ order, onEdit }) => {
         </DialogContent>
       </Dialog>
 
+      {/* Duplicate Order Dialog */}
+      <Dialog open={isDuplicateDialogOpen} onOpenChange={setIsDuplicateDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Duplicate Order</DialogTitle>
+            <DialogDescription>
+              Copy this order, its items and tasks to a new event date. Task and payment due dates move by the same amount.
+            </DialogDescription>
+          </DialogHeader>
+          <form onSubmit={duplicateOrder}>
+            <div className="grid gap-4 py-4">
+              <div className="grid gap-2">
+                <Label htmlFor="duplicateEventDate">New Event Date</Label>
+                <Input
+                  id="duplicateEventDate"
+                  type="date"
+                  required
+                  value={duplicateForm.eventDate}
+                  onChange={(e) => setDuplicateForm({ ...duplicateForm, eventDate: e.target.value })}
+                />
+              </div>
+              <div className="flex items-center space-x-2">
+                <Checkbox
+                  id="includeScheduledPayments"
+                  checked={duplicateForm.includeScheduledPayments}
+                  onCheckedChange={(checked) =>
+                    setDuplicateForm({ ...duplicateForm, includeScheduledPayments: checked === true })
+                  }
+                />
+                <Label htmlFor="includeScheduledPayments">Copy scheduled payments</Label>
+              </div>
+            </div>
+            <DialogFooter>
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => setIsDuplicateDialogOpen(false)}
+              >
+                Cancel
+              </Button>
+              <Button type="submit" disabled={isSubmitting || !duplicateForm.eventDate}>
+                {isSubmitting ? "Duplicating..." : "Duplicate Order"}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+
       {/* Delete Order Dialog */}
       <Dialog open={isDeleteDialogOpen} onOpenChange={setIsDeleteDialogOpen}>
         <DialogContent>
@@ -4,7 +4,7 @@ import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
 import { useToast } from "@/hooks/use-toast";
 import { useQuery } from "@tanstack/react-query";
-import { Product, Recipe, Contact } from "@shared/schema";
+import { Product, Recipe, Contact, TaxRate } from "@shared/schema";
 import { CustomerSearch } from "@/components/customer/customer-search";
 import ProductSelector from "./product-selector";
 import RecipeSelector from "./recipe-selector";
@@ -42,6 +42,8 @@ import { cn } from "@/lib/utils";
 import { queryCacheKey } from "@/lib/constants";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { insertOrderSchema, orderStatusTypes, deliveryTypes, eventTypes } from "@shared/schema";
+import { calculateOrderPricing } from "@shared/pricing";
+import { useSettings } from "@/contexts/settings-context";
 import { eventTypeColors } from "@/lib/constants";
 import { HexColorPicker } from "react-colorful";
 import { Badge } from "@/components/ui/badge";
@@ -70,6 +72,8 @@ const orderItemSchema = z.object({
   quantity: z.number().min(1, "Quantity is required"),
   price: z.number().min(0, "Price is required"),
   total: z.number(),
+  // Null uses the order's tax rate
+  taxRate: z.number().min(0).nullable().optional(),
   // Additional fields for product information
   imageUrl: z.string().optional().nullable(),
   productName: z.string().optional().nullable(),
@@ -147,6 +151,7 @@ const defaultValues: Partial<OrderFormValues> = {
 // OrderForm component
 export default function OrderForm({ onSubmit, initialValues }: { onSubmit: (data: OrderFormValues) => void, initialValues?: Partial<OrderFormValues> }) {
   const { toast } = useToast();
+  const { settings } = useSettings();
   const [isNewCustomer, setIsNewCustomer] = useState(false);
   const [isCustomEventDialogOpen, setIsCustomEventDialogOpen] = useState(false);
   const [customEventType, setCustomEventType] = useState("");
@@ -248,27 +253,42 @@ export default function OrderForm({ onSubmit, initialValues }: { onSubmit: (data
     name: "items",
   });
 
+  // Tax rates a line can be charged at
+  const { data: taxRates = [] } = useQuery<TaxRate[]>({
+    queryKey: ['/api/tax-rates'],
+  });
+  const activeTaxRates = taxRates.filter(rate => rate.active !== false);
+  
+  // New orders start with the user's default tax rate for the setup fee and
+  // lines without a rate of their own
+  useEffect(() => {
+    const defaultTaxRate = activeTaxRates.find(rate => rate.isDefault);
+    if (defaultTaxRate && !getValues("taxRate")) {
+      setValue("taxRate", defaultTaxRate.rate);
+    }
+  }, [taxRates]);
+  
   // Watch form values for calculations
   const items = watch("items");
-  const totalAmount = items?.reduce((sum, item) => sum + (item.total || 0), 0) || 0;
+  // Orders being edited keep the pricing they were created with
+  const pricesIncludeTax = initialValues?.pricesIncludeTax ?? settings.pricesIncludeTax ?? false;
+  
+  // Use the same pricing rules as the server so the totals shown match what is saved
+  const pricing = calculateOrderPricing({
+    items: (items || []).map(item => ({ quantity: item.quantity, unitPrice: item.price, taxRate: item.taxRate })),
+    discount: watch("discount"),
+    discountType: watch("discountType"),
+    setupFee: watch("setupFee"),
+    taxRate: watch("taxRate"),
+    pricesIncludeTax,
+  });
+  const totalAmount = pricing.subtotal;
   
   // Get discount from form
-  const getDiscountAmount = () => {
-    const discount = watch("discount") || 0;
-    const discountType = watch("discountType") || "%";
-    
-    if (discountType === "%") {
-      return totalAmount * (discount / 100);
-    } else {
-      return discount;
-    }
-  };
+  const getDiscountAmount = () => pricing.discountAmount;
   
-  // Calculate the final total after discount and setup fee
-  const getFinalTotal = () => {
-    const setupFee = parseFloat(watch("setupFee")?.toString() || "0");
-    return totalAmount - getDiscountAmount() + setupFee;
-  };
+  // Calculate the final total after discount, setup fee and tax
+  const getFinalTotal = () => pricing.total;
   
   // Calculate gross profit (simplified version)
   const getGrossProfit = () => {
@@ -322,6 +342,7 @@ export default function OrderForm({ onSubmit, initialValues }: { onSubmit: (data
       quantity: 1,
       price: 0,
       total: 0,
+      taxRate: null,
       productId: undefined,
       imageUrl: null,
       productName: null
@@ -353,6 +374,10 @@ export default function OrderForm({ onSubmit, initialValues }: { onSubmit: (data
     item.price = productPrice;
     item.imageUrl = product.imageUrl || null;
     
+    // Charge tax at the product's own rate
+    const productTaxRate = product.taxRate ? parseFloat(product.taxRate) : NaN;
+    item.taxRate = isNaN(productTaxRate) ? null : productTaxRate;
+    
     // Calculate the total
     item.total = item.quantity * item.price;
     
@@ -474,7 +499,9 @@ export default function OrderForm({ onSubmit, initialValues }: { onSubmit: (data
         items: data.items.map(item => ({
           description: item.description || 'Product',
           price: typeof item.price === 'number' ? item.price.toString() : (item.price || '0'),
+          unitPrice: typeof item.price === 'number' ? item.price.toString() : (item.price || '0'),
           quantity: item.quantity || 1,
+          taxRate: item.taxRate ?? null,
           name: item.productName || item.description || 'Product', // Required field
         }))
       };
@@ -1107,8 +1134,8 @@ export default function OrderForm({ onSubmit, initialValues }: { onSubmit: (data
                       />
                     </div>
                     
-                    {/* Bottom Row - Quantity, Price, Total */}
-                    <div className="col-span-4">
+                    {/* Bottom Row - Quantity, Price, Tax, Total */}
+                    <div className="col-span-3">
                       <Label className="text-xs mb-1 block">Quantity</Label>
                       <FormField
                         control={control}
@@ -1133,7 +1160,7 @@ export default function OrderForm({ onSubmit, initialValues }: { onSubmit: (data
                       />
                     </div>
                     
-                    <div className="col-span-4">
+                    <div className="col-span-3">
                       <Label className="text-xs mb-1 block">Price ($)</Label>
                       <FormField
                         control={control}
@@ -1159,7 +1186,36 @@ export default function OrderForm({ onSubmit, initialValues }: { onSubmit: (data
                       />
                     </div>
                     
-                    <div className="col-span-4">
+                    <div className="col-span-3">
+                      <Label className="text-xs mb-1 block">Tax</Label>
+                      <Select
+                        value={watch(`items.${index}.taxRate`)?.toString() ?? "default"}
+                        onValueChange={(value) => {
+                          setValue(`items.${index}.taxRate`, value === "default" ? null : parseFloat(value));
+                        }}
+                      >
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="default">Default ({parseFloat(watch("taxRate") || "0")}%)</SelectItem>
+                          {activeTaxRates.map((rate) => (
+                            <SelectItem key={rate.id} value={parseFloat(rate.rate).toString()}>
+                              {rate.name} ({parseFloat(rate.rate)}%)
+                            </SelectItem>
+                          ))}
+                          {/* A product's rate that isn't one of the user's named rates */}
+                          {watch(`items.${index}.taxRate`) != null &&
+                            !activeTaxRates.some((rate) => parseFloat(rate.rate) === watch(`items.${index}.taxRate`)) && (
+                            <SelectItem value={String(watch(`items.${index}.taxRate`))}>
+                              {watch(`items.${index}.taxRate`)}%
+                            </SelectItem>
+                          )}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    
+                    <div className="col-span-3">
                       <Label className="text-xs mb-1 block">Total</Label>
                       <FormField
                         control={control}
@@ -1192,7 +1248,7 @@ export default function OrderForm({ onSubmit, initialValues }: { onSubmit: (data
                 <div className="w-80 space-y-3">
                   {/* Subtotal */}
                   <div className="flex justify-between items-center">
-                    <span>Subtotal: (excl Tax)</span>
+                    <span>Subtotal: ({pricesIncludeTax ? "incl" : "excl"} Tax)</span>
                     <span className="font-medium">${totalAmount.toFixed(2)}</span>
                   </div>
                   
@@ -1268,9 +1324,17 @@ export default function OrderForm({ onSubmit, initialValues }: { onSubmit: (data
                         )}
                       />
                     </div>
-                    <span>${(parseFloat(watch("setupFee")?.toString() || "0")).toFixed(2)}</span>
+                    <span>${pricing.setupFee.toFixed(2)}</span>
                   </div>
                   
+                  {/* Tax */}
+                  {pricing.taxTotal > 0 && (
+                    <div className="flex justify-between items-center">
+                      <span>{pricesIncludeTax ? "Includes Tax:" : "Tax:"}</span>
+                      <span>${pricing.taxTotal.toFixed(2)}</span>
+                    </div>
+                  )}
+                  
                   {/* Total */}
                   <div className="flex justify-between items-center pt-3 border-t border-gray-200">
                     <span className="font-bold text-lg">Total:</span>
@@ -1362,7 +1426,9 @@ export default function OrderForm({ onSubmit, initialValues }: { onSubmit: (data
                     items: (data.items || []).map(item => ({
                       description: item.description || 'Product',
                       price: typeof item.price === 'number' ? item.price.toString() : (item.price || '0'),
+                      unitPrice: typeof item.price === 'number' ? item.price.toString() : (item.price || '0'),
                       quantity: item.quantity || 1,
+                      taxRate: item.taxRate ?? null,
                       name: item.productName || item.description || 'Product'
                     }))
                   };
@@ -0,0 +1,219 @@
+import React from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { FileTextIcon, InfoIcon } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { activeRefundStatuses, settledPaymentStatuses, type OrderLedger } from "@shared/payment-ledger";
+import type { Payment, Refund } from "@shared/schema";
+
+interface OrderPaymentsCardProps {
+  orderId: number;
+}
+
+type LedgerResponse = OrderLedger & { payments: Payment[]; refunds: Refund[] };
+
+const statusLabels: Record<string, string> = {
+  completed: "Completed",
+  succeeded: "Completed",
+  partially_refunded: "Partly Refunded",
+  refunded: "Refunded",
+  pending: "Pending",
+  failed: "Failed",
+  cancelled: "Cancelled",
+  disputed: "Disputed",
+  dispute_lost: "Dispute Lost",
+};
+
+// How much of a payment has not been refunded yet
+const refundableAmount = (payment: Payment, refunds: Refund[]) =>
+  parseFloat(payment.amount) -
+  refunds
+    .filter((refund) => refund.paymentId === payment.id && activeRefundStatuses.includes(refund.status))
+    .reduce((sum, refund) => sum + parseFloat(refund.amount), 0);
+
+/**
+ * Lists the payments taken on an order and the refunds given, with refunds
+ * made from here and a credit note for each
+ */
+export default function OrderPaymentsCard({ orderId }: OrderPaymentsCardProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [refunding, setRefunding] = React.useState<Payment | null>(null);
+  const [amount, setAmount] = React.useState("");
+  const [reason, setReason] = React.useState("");
+  const [isSaving, setIsSaving] = React.useState(false);
+
+  // Keyed under the order so it refreshes whenever the order does
+  const { data } = useQuery<LedgerResponse>({
+    queryKey: [`/api/orders/${orderId}`, "ledger"],
+    queryFn: () => apiRequest(`/api/orders/${orderId}/ledger`),
+  });
+
+  const payments = data?.payments || [];
+  const refunds = data?.refunds || [];
+  const maxRefund = refunding ? refundableAmount(refunding, refunds) : 0;
+
+  const openRefund = (payment: Payment) => {
+    setRefunding(payment);
+    setAmount(refundableAmount(payment, refunds).toFixed(2));
+    setReason("");
+  };
+
+  const submitRefund = async () => {
+    if (!refunding) return;
+
+    setIsSaving(true);
+    try {
+      await apiRequest(`/api/orders/${orderId}/payments/${refunding.id}/refunds`, {
+        method: "POST",
+        body: { amount: parseFloat(amount), reason: reason || undefined },
+      });
+      queryClient.invalidateQueries({ queryKey: [`/api/orders/${orderId}`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/orders/${orderId}/logs`] });
+      toast({ title: "Refund issued", description: `$ ${parseFloat(amount).toFixed(2)} has been refunded` });
+      setRefunding(null);
+    } catch (error) {
+      toast({ title: "Error", description: "Failed to refund payment", variant: "destructive" });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const amountValue = parseFloat(amount);
+  const isAmountValid = !isNaN(amountValue) && amountValue > 0 && amountValue <= maxRefund + 0.001;
+
+  return (
+    <div className="bg-white p-6 rounded-lg shadow-sm mt-6">
+      <h2 className="text-lg font-semibold mb-4">Payments & Refunds</h2>
+
+      {payments.length ? (
+        <table className="w-full">
+          <thead>
+            <tr className="border-b border-gray-200 text-left text-sm text-gray-500">
+              <th className="pb-2 font-medium">Date</th>
+              <th className="pb-2 font-medium">Method</th>
+              <th className="pb-2 font-medium text-right">Amount</th>
+              <th className="pb-2 font-medium text-right">Status</th>
+              <th className="pb-2"></th>
+            </tr>
+          </thead>
+          <tbody>
+            {payments.map((payment) => (
+              <tr key={payment.id} className="border-b border-gray-100 text-sm">
+                <td className="py-3">{format(new Date(payment.createdAt), "EEE, dd MMM yyyy")}</td>
+                <td className="py-3 capitalize">{payment.paymentMethod || payment.provider}</td>
+                <td className="py-3 text-right">$ {parseFloat(payment.amount).toFixed(2)}</td>
+                <td className="py-3 text-right">
+                  <Badge className="px-2 py-0.5 text-xs rounded-md bg-gray-100 text-gray-700">
+                    {statusLabels[payment.status] || payment.status}
+                  </Badge>
+                </td>
+                <td className="py-3 text-right">
+                  {settledPaymentStatuses.includes(payment.status) && refundableAmount(payment, refunds) > 0 && (
+                    <Button size="sm" variant="outline" className="h-7 px-2" onClick={() => openRefund(payment)}>
+                      Refund
+                    </Button>
+                  )}
+                </td>
+              </tr>
+            ))}
+            {refunds.map((refund) => (
+              <tr key={`refund-${refund.id}`} className="border-b border-gray-100 text-sm text-red-600">
+                <td className="py-3">{format(new Date(refund.createdAt), "EEE, dd MMM yyyy")}</td>
+                <td className="py-3">
+                  Refund · {refund.creditNoteNumber}
+                  {refund.reason && <span className="text-gray-500"> ({refund.reason})</span>}
+                </td>
+                <td className="py-3 text-right">- $ {parseFloat(refund.amount).toFixed(2)}</td>
+                <td className="py-3 text-right">
+                  <Badge className="px-2 py-0.5 text-xs rounded-md bg-red-50 text-red-700">
+                    {statusLabels[refund.status] || refund.status}
+                  </Badge>
+                </td>
+                <td className="py-3 text-right">
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    className="h-7 px-2"
+                    onClick={() => window.open(`/api/refunds/${refund.id}/credit-note`, "_blank")}
+                  >
+                    <FileTextIcon className="h-4 w-4 mr-1" />
+                    Credit Note
+                  </Button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      ) : (
+        <div className="flex flex-col items-center justify-center py-8 text-center">
+          <div className="text-gray-400 mb-2">
+            <InfoIcon className="h-5 w-5" />
+          </div>
+          <p className="text-gray-500 text-sm">No payments have been taken for this order</p>
+        </div>
+      )}
+
+      <Dialog open={!!refunding} onOpenChange={(open) => !open && setRefunding(null)}>
+        <DialogContent className="sm:max-w-[425px]">
+          <DialogHeader>
+            <DialogTitle>Refund Payment</DialogTitle>
+            <DialogDescription>
+              {refunding?.provider === "stripe" || refunding?.provider === "square"
+                ? `The refund will be sent to the customer through ${refunding.provider === "stripe" ? "Stripe" : "Square"}.`
+                : "Record money you have returned to the customer."}{" "}
+              A credit note is created for every refund.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="refund-amount">Amount (up to $ {maxRefund.toFixed(2)})</Label>
+              <Input
+                id="refund-amount"
+                type="number"
+                min="0.01"
+                step="0.01"
+                max={maxRefund.toFixed(2)}
+                value={amount}
+                onChange={(e) => setAmount(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="refund-reason">Reason</Label>
+              <Textarea
+                id="refund-reason"
+                placeholder="Shown on the credit note"
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+              />
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setRefunding(null)}>
+              Cancel
+            </Button>
+            <Button onClick={submitRefund} disabled={!isAmountValid || isSaving}>
+              {isSaving ? "Refunding..." : "Refund"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,312 @@
+import React from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { TrashIcon } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  generatePaymentPlan,
+  describePaymentPlan,
+  paymentPlanFrequencies,
+  paymentPlanSchema,
+  type PaymentPlan,
+  type PaymentPlanFrequency,
+} from "@shared/payment-plan";
+import type { PaymentPlanPreset } from "@shared/schema";
+
+interface PaymentPlanDialogProps {
+  orderId: number;
+  orderTotal: string | number;
+  eventDate: string;
+  // The plan the order's scheduled payments currently follow, if any
+  currentPlan?: PaymentPlan | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const frequencyLabels: Record<PaymentPlanFrequency, string> = {
+  weekly: "Weekly",
+  fortnightly: "Fortnightly",
+  monthly: "Monthly",
+};
+
+/**
+ * Sets up an order's scheduled payments from a deposit and balance or equal
+ * instalments, with named presets saved in settings
+ */
+export default function PaymentPlanDialog({
+  orderId,
+  orderTotal,
+  eventDate,
+  currentPlan,
+  open,
+  onOpenChange,
+}: PaymentPlanDialogProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const today = new Date().toISOString().split("T")[0];
+
+  const [type, setType] = React.useState<PaymentPlan["type"]>(currentPlan?.type || "deposit");
+  const [depositPercent, setDepositPercent] = React.useState(
+    currentPlan?.type === "deposit" ? String(currentPlan.depositPercent) : "50"
+  );
+  const [balanceDaysBefore, setBalanceDaysBefore] = React.useState(
+    currentPlan?.type === "deposit" ? String(currentPlan.balanceDaysBefore) : "7"
+  );
+  const [count, setCount] = React.useState(currentPlan?.type === "instalments" ? String(currentPlan.count) : "3");
+  const [frequency, setFrequency] = React.useState<PaymentPlanFrequency>(
+    currentPlan?.type === "instalments" ? currentPlan.frequency : "monthly"
+  );
+  const [startDate, setStartDate] = React.useState(currentPlan?.startDate || today);
+  const [presetName, setPresetName] = React.useState("");
+  const [isSaving, setIsSaving] = React.useState(false);
+
+  const { data: presets = [] } = useQuery<PaymentPlanPreset[]>({
+    queryKey: ["/api/settings/payment-plans"],
+    enabled: open,
+  });
+
+  const parsedPlan = paymentPlanSchema.safeParse(
+    type === "deposit"
+      ? { type, depositPercent, balanceDaysBefore, startDate }
+      : { type, count, frequency, startDate }
+  );
+  const plan = parsedPlan.success ? parsedPlan.data : null;
+  const preview = plan ? generatePaymentPlan(orderTotal, eventDate, plan, today) : [];
+
+  const loadPreset = (presetId: string) => {
+    const preset = presets.find((p) => String(p.id) === presetId);
+    const presetPlan = preset && paymentPlanSchema.safeParse(preset.plan);
+    if (!presetPlan?.success) return;
+
+    setType(presetPlan.data.type);
+    if (presetPlan.data.type === "deposit") {
+      setDepositPercent(String(presetPlan.data.depositPercent));
+      setBalanceDaysBefore(String(presetPlan.data.balanceDaysBefore));
+    } else {
+      setCount(String(presetPlan.data.count));
+      setFrequency(presetPlan.data.frequency);
+    }
+  };
+
+  const savePreset = async () => {
+    if (!plan || !presetName.trim()) return;
+
+    try {
+      await apiRequest("/api/settings/payment-plans", {
+        method: "POST",
+        body: { name: presetName.trim(), plan },
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/settings/payment-plans"] });
+      setPresetName("");
+      toast({ title: "Preset saved", description: `"${presetName.trim()}" can now be used on other orders` });
+    } catch (error) {
+      toast({ title: "Error", description: "Failed to save preset", variant: "destructive" });
+    }
+  };
+
+  const deletePreset = async (presetId: number) => {
+    try {
+      await apiRequest(`/api/settings/payment-plans/${presetId}`, { method: "DELETE" });
+      queryClient.invalidateQueries({ queryKey: ["/api/settings/payment-plans"] });
+    } catch (error) {
+      toast({ title: "Error", description: "Failed to delete preset", variant: "destructive" });
+    }
+  };
+
+  const applyPlan = async () => {
+    if (!plan) return;
+
+    setIsSaving(true);
+    try {
+      await apiRequest(`/api/orders/${orderId}/payment-plan`, {
+        method: "POST",
+        body: { plan },
+      });
+      queryClient.invalidateQueries({ queryKey: [`/api/orders/${orderId}`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/orders/${orderId}/logs`] });
+      toast({ title: "Payment plan applied", description: describePaymentPlan(plan) });
+      onOpenChange(false);
+    } catch (error) {
+      toast({ title: "Error", description: "Failed to apply payment plan", variant: "destructive" });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[520px]">
+        <DialogHeader>
+          <DialogTitle>Payment Plan</DialogTitle>
+          <DialogDescription>
+            Replaces this order's scheduled payments. They are updated automatically if the order total or event
+            date changes.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {presets.length > 0 && (
+            <div className="space-y-2">
+              <Label>Preset</Label>
+              <Select onValueChange={loadPreset}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Load a saved plan" />
+                </SelectTrigger>
+                <SelectContent>
+                  {presets.map((preset) => (
+                    <SelectItem key={preset.id} value={String(preset.id)}>
+                      {preset.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label>Plan Type</Label>
+            <Select value={type} onValueChange={(value) => setType(value as PaymentPlan["type"])}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="deposit">Deposit and balance</SelectItem>
+                <SelectItem value="instalments">Equal instalments</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          {type === "deposit" ? (
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="deposit-percent">Deposit (%)</Label>
+                <Input
+                  id="deposit-percent"
+                  type="number"
+                  min="0"
+                  max="100"
+                  value={depositPercent}
+                  onChange={(e) => setDepositPercent(e.target.value)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="balance-days">Balance due (days before event)</Label>
+                <Input
+                  id="balance-days"
+                  type="number"
+                  min="0"
+                  value={balanceDaysBefore}
+                  onChange={(e) => setBalanceDaysBefore(e.target.value)}
+                />
+              </div>
+            </div>
+          ) : (
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="instalment-count">Number of instalments</Label>
+                <Input
+                  id="instalment-count"
+                  type="number"
+                  min="1"
+                  max="52"
+                  value={count}
+                  onChange={(e) => setCount(e.target.value)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Frequency</Label>
+                <Select value={frequency} onValueChange={(value) => setFrequency(value as PaymentPlanFrequency)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {paymentPlanFrequencies.map((value) => (
+                      <SelectItem key={value} value={value}>
+                        {frequencyLabels[value]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label htmlFor="plan-start">{type === "deposit" ? "Deposit due" : "First instalment due"}</Label>
+            <Input id="plan-start" type="date" value={startDate} onChange={(e) => setStartDate(e.target.value)} />
+          </div>
+
+          <div className="rounded-md border border-gray-200">
+            {preview.length > 0 ? (
+              <table className="w-full text-sm">
+                <tbody>
+                  {preview.map((instalment, index) => (
+                    <tr key={index} className="border-b border-gray-100 last:border-0">
+                      <td className="px-3 py-2">{format(new Date(`${instalment.dueDate}T00:00:00`), "EEE, dd MMM yyyy")}</td>
+                      <td className="px-3 py-2 text-gray-600">{instalment.description}</td>
+                      <td className="px-3 py-2 text-right">$ {instalment.amount.toFixed(2)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            ) : (
+              <p className="p-3 text-sm text-gray-500">
+                {plan ? "The order total is zero, so there is nothing to schedule." : "Enter the plan details above."}
+              </p>
+            )}
+          </div>
+
+          <div className="flex items-end gap-2">
+            <div className="flex-1 space-y-2">
+              <Label htmlFor="preset-name">Save as preset</Label>
+              <Input
+                id="preset-name"
+                placeholder="e.g. 50% deposit"
+                value={presetName}
+                onChange={(e) => setPresetName(e.target.value)}
+              />
+            </div>
+            <Button variant="outline" onClick={savePreset} disabled={!plan || !presetName.trim()}>
+              Save
+            </Button>
+          </div>
+
+          {presets.length > 0 && (
+            <div className="space-y-1">
+              {presets.map((preset) => (
+                <div key={preset.id} className="flex items-center justify-between text-sm text-gray-600">
+                  <span>{preset.name}</span>
+                  <button className="text-gray-400 hover:text-red-600" onClick={() => deletePreset(preset.id)}>
+                    <TrashIcon className="h-4 w-4" />
+                  </button>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={applyPlan} disabled={!plan || isSaving}>
+            {isSaving ? "Applying..." : "Apply Plan"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -39,22 +39,37 @@ import {
 import { Separator } from '@/components/ui/separator';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { format } from 'date-fns';
+import {
+  emailPlaceholders,
+  getEmailPlaceholders,
+  upgradeLegacyPlaceholders,
+  validateEmailTemplate,
+} from '@shared/email-templates';
+
+// Reminder messages use the same placeholders as the other email templates
+const checkPlaceholders = (value: string | null | undefined, ctx: z.RefinementCtx) => {
+  const errors = value ? validateEmailTemplate("paymentReminder", upgradeLegacyPlaceholders(value)) : [];
+  if (errors.length > 0) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: errors[0] });
+  }
+};
 
 // Define schema for reminder schedule
 const reminderScheduleSchema = z.object({
   templateId: z.number().optional().nullable(),
   daysBefore: z.number().min(0).max(90).optional().nullable(),
   isOverdue: z.boolean().default(false),
-  customSubject: z.string().optional().nullable(),
-  customBody: z.string().optional().nullable(),
+  repeatDays: z.number().min(1).max(90).optional().nullable(),
+  customSubject: z.string().optional().nullable().superRefine(checkPlaceholders),
+  customBody: z.string().optional().nullable().superRefine(checkPlaceholders),
   isEnabled: z.boolean().default(true),
 });
 
 // Define schema for reminder template
 const reminderTemplateSchema = z.object({
   name: z.string().min(1, { message: "Template name is required" }),
-  subject: z.string().min(1, { message: "Subject is required" }),
-  body: z.string().min(1, { message: "Body content is required" }),
+  subject: z.string().min(1, { message: "Subject is required" }).superRefine(checkPlaceholders),
+  body: z.string().min(1, { message: "Body content is required" }).superRefine(checkPlaceholders),
   isDefault: z.boolean().default(false),
 });
 
@@ -142,6 +157,7 @@ export default function PaymentReminderSettings({
       templateId: null,
       daysBefore: 7, // Default to 7 days before
       isOverdue: false,
+      repeatDays: null,
       customSubject: null,
       customBody: null,
       isEnabled: true,
@@ -300,8 +316,9 @@ export default function PaymentReminderSettings({
       if (schedule) {
         scheduleForm.reset({
           templateId: schedule.templateId || null,
-          daysBefore: schedule.daysBefore || null,
+          daysBefore: schedule.daysBefore ?? null,
           isOverdue: schedule.isOverdue || false,
+          repeatDays: schedule.repeatDays || null,
           customSubject: schedule.customSubject || null,
           customBody: schedule.customBody || null,
           isEnabled: schedule.isEnabled,
@@ -359,7 +376,9 @@ export default function PaymentReminderSettings({
   };
   
   const renderScheduleDescription = (schedule: ReminderSchedule) => {
-    if (schedule.isOverdue) {
+    if (schedule.isOverdue && schedule.repeatDays) {
+      return `Sent after the due date is passed, then every ${schedule.repeatDays} days until paid`;
+    } else if (schedule.isOverdue) {
       return "Sent after the due date is passed";
     } else if (schedule.daysBefore === 1) {
       return "Sent 1 day before due date";
@@ -376,14 +395,15 @@ export default function PaymentReminderSettings({
     <FormDescription>
       Available placeholders:
       <ul className="list-disc pl-5 mt-1 text-xs">
-        <li>[ORDER_NUMBER] - The order number</li>
-        <li>[CUSTOMER_NAME] - Full customer name</li>
-        <li>[CUSTOMER_FIRST_NAME] - First name only</li>
-        <li>[AMOUNT_DUE] - The total amount due</li>
-        <li>[DUE_DATE] - The payment due date</li>
-        <li>[DAYS_REMAINING] - Days remaining until due date</li>
-        <li>[BUSINESS_NAME] - Your business name</li>
+        {getEmailPlaceholders("paymentReminder")
+          .filter((name) => name !== "order.items")
+          .map((name) => (
+            <li key={name}>{`{{${name}}}`} - {emailPlaceholders[name].description}</li>
+          ))}
       </ul>
+      <span className="text-xs">
+        Wrap optional text in {"{{#if payments.overdue}}"} ... {"{{/if}}"} to show it only when there is a value.
+      </span>
     </FormDescription>
   );
   
@@ -495,8 +515,10 @@ export default function PaymentReminderSettings({
                                       field.onChange(checked);
                                       if (checked) {
                                         scheduleForm.setValue('daysBefore', null);
+                                        scheduleForm.setValue('repeatDays', 7);
                                       } else {
                                         scheduleForm.setValue('daysBefore', 7);
+                                        scheduleForm.setValue('repeatDays', null);
                                       }
                                     }}
                                   />
@@ -506,6 +528,40 @@ export default function PaymentReminderSettings({
                           />
                         </div>
                         
+                        {scheduleForm.watch('isOverdue') && (
+                          <div>
+                            <FormField
+                              control={scheduleForm.control}
+                              name="repeatDays"
+                              render={({ field }) => (
+                                <FormItem>
+                                  <FormLabel>Repeat Every</FormLabel>
+                                  <FormControl>
+                                    <Select
+                                      value={field.value?.toString() || "0"}
+                                      onValueChange={(value) => field.onChange(parseInt(value) || null)}
+                                    >
+                                      <SelectTrigger>
+                                        <SelectValue placeholder="Select interval" />
+                                      </SelectTrigger>
+                                      <SelectContent>
+                                        <SelectItem value="0">Don't repeat</SelectItem>
+                                        <SelectItem value="3">Every 3 days</SelectItem>
+                                        <SelectItem value="7">Every 7 days</SelectItem>
+                                        <SelectItem value="14">Every 14 days</SelectItem>
+                                      </SelectContent>
+                                    </Select>
+                                  </FormControl>
+                                  <FormDescription>
+                                    Keep reminding until the order is paid
+                                  </FormDescription>
+                                  <FormMessage />
+                                </FormItem>
+                              )}
+                            />
+                          </div>
+                        )}
+                        
                         {!scheduleForm.watch('isOverdue') && (
                           <div>
                             <FormField
@@ -611,7 +667,7 @@ export default function PaymentReminderSettings({
                                   <FormLabel>Email Message</FormLabel>
                                   <FormControl>
                                     <Textarea
-                                      placeholder="e.g., Hi [CUSTOMER_FIRST_NAME], This is a friendly reminder that your payment of [AMOUNT_DUE] is due in [DAYS_REMAINING] days."
+                                      placeholder="e.g., Hi {{contact.firstName}}, This is a friendly reminder that your payment of {{payments.balance}} is due in {{payments.daysRemaining}} days."
                                       rows={5}
                                       {...field}
                                       value={field.value || ""}
@@ -846,7 +902,7 @@ export default function PaymentReminderSettings({
                               <FormLabel>Email Message</FormLabel>
                               <FormControl>
                                 <Textarea
-                                  placeholder="e.g., Hi [CUSTOMER_FIRST_NAME], This is a friendly reminder that your payment of [AMOUNT_DUE] is due in [DAYS_REMAINING] days."
+                                  placeholder="e.g., Hi {{contact.firstName}}, This is a friendly reminder that your payment of {{payments.balance}} is due in {{payments.daysRemaining}} days."
                                   rows={6}
                                   {...field}
                                 />
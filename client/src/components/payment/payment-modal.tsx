@@ -1,4 +1,5 @@
 import React, { useState, useEffect, Suspense } from 'react';
+import { useQuery } from '@tanstack/react-query';
 import { z } from 'zod';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
@@ -25,6 +26,8 @@ import {
 } from '@/components/ui/form';
 import { Input } from '@/components/ui/input';
 import { Wallet, Loader2 } from 'lucide-react';
+import TipSelector from './tip-selector';
+import type { TippingSettings, TipSelection } from '@shared/tipping';
 
 // Import Stripe payment form component with lazy loading
 const StripePaymentForm = React.lazy(() => import('./stripe-payment-form'));
@@ -62,8 +65,15 @@ export default function PaymentModal({
 }: PaymentModalProps) {
   const [clientSecret, setClientSecret] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(false);
+  const [tip, setTip] = useState<TipSelection | null>(null);
   const { toast } = useToast();
 
+  // Tipping settings, to offer a tip on top of the payment
+  const { data: tipping } = useQuery<TippingSettings>({
+    queryKey: ['/api/payment-settings/tipping'],
+    enabled: isOpen,
+  });
+
   // Form definition
   const form = useForm<PaymentFormValues>({
     resolver: zodResolver(paymentFormSchema),
@@ -90,21 +100,19 @@ export default function PaymentModal({
     setIsLoading(true);
     
     try {
-      const response = await apiRequest({ 
+      const { clientSecret } = await apiRequest('/api/payments/create-intent', { 
         method: 'POST', 
-        url: '/api/payments/create-intent', 
         body: {
           amount: data.amount,
           currency: 'aud', // Using AUD for Australian bakery
           metadata: {
             ...(orderId && { orderId: orderId.toString() }),
             ...(data.description && { description: data.description }),
-          }
+          },
+          ...(tip && { tip }),
         }
       });
       
-      const { clientSecret } = await response.json();
-      
       if (clientSecret) {
         setClientSecret(clientSecret);
       } else {
@@ -138,6 +146,7 @@ export default function PaymentModal({
   // Reset modal state when closed
   const handleClose = () => {
     setClientSecret(null);
+    setTip(null);
     onClose();
   };
 
@@ -192,6 +201,15 @@ export default function PaymentModal({
                 )}
               />
 
+              {tipping?.enabled && (
+                <TipSelector
+                  amount={form.watch('amount') || 0}
+                  settings={tipping}
+                  value={tip}
+                  onChange={setTip}
+                />
+              )}
+
               <DialogFooter>
                 <Button variant="outline" type="button" onClick={handleClose}>
                   Cancel
@@ -0,0 +1,94 @@
+import React from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { calculateTip, type TippingSettings, type TipSelection } from "@shared/tipping";
+
+interface TipSelectorProps {
+  // The amount being paid, which percentage tips are worked out from
+  amount: number;
+  settings: TippingSettings;
+  value: TipSelection | null;
+  onChange: (tip: TipSelection | null) => void;
+  formatMoney?: (amount: number) => string;
+}
+
+/**
+ * Buttons for the business's preset tip percentages, plus a custom amount
+ * when the business allows it
+ */
+export default function TipSelector({
+  amount,
+  settings,
+  value,
+  onChange,
+  formatMoney = (value) => `$${value.toFixed(2)}`,
+}: TipSelectorProps) {
+  const [isCustom, setIsCustom] = React.useState(!!value && "amount" in value);
+  const tipAmount = calculateTip(amount, value);
+
+  const isSelected = (percentage: number) => !isCustom && !!value && "percentage" in value && value.percentage === percentage;
+
+  return (
+    <div className="space-y-2">
+      <Label>Add a tip</Label>
+      <div className="flex flex-wrap gap-2">
+        <Button
+          type="button"
+          size="sm"
+          variant={!value && !isCustom ? "default" : "outline"}
+          onClick={() => {
+            setIsCustom(false);
+            onChange(null);
+          }}
+        >
+          No tip
+        </Button>
+        {settings.defaultPercentages.map((percentage) => (
+          <Button
+            key={percentage}
+            type="button"
+            size="sm"
+            variant={isSelected(percentage) ? "default" : "outline"}
+            onClick={() => {
+              setIsCustom(false);
+              onChange({ percentage });
+            }}
+          >
+            {percentage}%
+          </Button>
+        ))}
+        {settings.allowCustomTip && (
+          <Button
+            type="button"
+            size="sm"
+            variant={isCustom ? "default" : "outline"}
+            onClick={() => {
+              setIsCustom(true);
+              onChange({ amount: 0 });
+            }}
+          >
+            Custom
+          </Button>
+        )}
+      </div>
+
+      {isCustom && (
+        <Input
+          type="number"
+          min="0"
+          step="0.01"
+          max={amount}
+          placeholder="Tip amount"
+          onChange={(e) => onChange({ amount: parseFloat(e.target.value) || 0 })}
+        />
+      )}
+
+      {tipAmount > 0 && (
+        <p className="text-sm text-muted-foreground">
+          Tip {formatMoney(tipAmount)} · Total {formatMoney(amount + tipAmount)}
+        </p>
+      )}
+    </div>
+  );
+}
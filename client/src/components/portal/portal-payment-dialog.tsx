@@ -0,0 +1,258 @@
+import React from "react";
+import { Elements } from "@stripe/react-stripe-js";
+import { loadStripe } from "@stripe/stripe-js";
+import { Loader2 } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import TipSelector from "@/components/payment/tip-selector";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import type { TippingSettings, TipSelection } from "@shared/tipping";
+
+const StripePaymentForm = React.lazy(() => import("@/components/payment/stripe-payment-form"));
+
+const stripePublicKey = import.meta.env.VITE_STRIPE_PUBLIC_KEY;
+const stripePromise = stripePublicKey ? loadStripe(stripePublicKey) : null;
+
+const squareApplicationId = import.meta.env.VITE_SQUARE_APPLICATION_ID;
+const squareScriptUrl = import.meta.env.PROD
+  ? "https://web.squarecdn.com/v1/square.js"
+  : "https://sandbox.web.squarecdn.com/v1/square.js";
+
+export interface PortalPaymentProviders {
+  stripe: boolean;
+  square: { locationId: string } | null;
+}
+
+interface PortalPaymentDialogProps {
+  token: string;
+  isOpen: boolean;
+  onClose: () => void;
+  onPaid: () => void;
+  amount: number;
+  formatMoney: (amount: number) => string;
+  // Pay this scheduled payment, or the remaining balance when not set
+  scheduledPaymentId?: number;
+  providers: PortalPaymentProviders;
+  // The business's tipping settings, when tipping is enabled
+  tipping: TippingSettings | null;
+}
+
+/**
+ * Lets a customer pay a deposit or balance from the portal with whichever of
+ * Stripe or Square the business has connected, adding a tip if the business
+ * allows tipping
+ */
+export default function PortalPaymentDialog({
+  token,
+  isOpen,
+  onClose,
+  onPaid,
+  amount,
+  formatMoney,
+  scheduledPaymentId,
+  providers,
+  tipping,
+}: PortalPaymentDialogProps) {
+  const { toast } = useToast();
+  const [provider, setProvider] = React.useState<"stripe" | "square" | null>(null);
+  const [clientSecret, setClientSecret] = React.useState<string | null>(null);
+  const [isStarting, setIsStarting] = React.useState(false);
+  const [tip, setTip] = React.useState<TipSelection | null>(null);
+
+  const canUseStripe = providers.stripe && !!stripePromise;
+  const canUseSquare = !!providers.square && !!squareApplicationId;
+
+  React.useEffect(() => {
+    if (!isOpen) {
+      setProvider(null);
+      setClientSecret(null);
+      setTip(null);
+    }
+  }, [isOpen]);
+
+  const startStripePayment = async () => {
+    setIsStarting(true);
+    try {
+      const result = await apiRequest(`/api/portal/${token}/payments/stripe`, {
+        method: "POST",
+        body: { scheduledPaymentId, tip: tip || undefined },
+      });
+      setClientSecret(result.clientSecret);
+      setProvider("stripe");
+    } catch (error) {
+      toast({
+        title: "Payment Error",
+        description: "Could not start the payment. Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsStarting(false);
+    }
+  };
+
+  const confirmStripePayment = async (paymentIntentId: string) => {
+    try {
+      await apiRequest(`/api/portal/${token}/payments/stripe/confirm`, {
+        method: "POST",
+        body: { paymentIntentId },
+      });
+      onPaid();
+    } catch (error) {
+      toast({
+        title: "Payment Received",
+        description: "Your payment went through but we couldn't update your order. Please contact us.",
+        variant: "destructive",
+      });
+    }
+    onClose();
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-[500px]">
+        <DialogHeader>
+          <DialogTitle>Make a Payment</DialogTitle>
+          <DialogDescription>Amount due: {formatMoney(amount)}</DialogDescription>
+        </DialogHeader>
+
+        {!provider && (
+          <div className="space-y-3">
+            {tipping && (canUseStripe || canUseSquare) && (
+              <TipSelector amount={amount} settings={tipping} value={tip} onChange={setTip} formatMoney={formatMoney} />
+            )}
+            {!canUseStripe && !canUseSquare && (
+              <p className="text-sm text-muted-foreground">
+                Online payments aren't available for this order. Please contact us to arrange payment.
+              </p>
+            )}
+            {canUseStripe && (
+              <Button className="w-full" onClick={startStripePayment} disabled={isStarting}>
+                {isStarting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Pay by Card (Stripe)
+              </Button>
+            )}
+            {canUseSquare && (
+              <Button className="w-full" variant="outline" onClick={() => setProvider("square")} disabled={isStarting}>
+                Pay by Card (Square)
+              </Button>
+            )}
+          </div>
+        )}
+
+        {provider === "stripe" && clientSecret && (
+          <Elements stripe={stripePromise} options={{ clientSecret }}>
+            <React.Suspense fallback={<Loader2 className="mx-auto h-6 w-6 animate-spin" />}>
+              <StripePaymentForm onSuccess={confirmStripePayment} />
+            </React.Suspense>
+          </Elements>
+        )}
+
+        {provider === "square" && providers.square && (
+          <SquareCardForm
+            locationId={providers.square.locationId}
+            onToken={async (sourceId) => {
+              await apiRequest(`/api/portal/${token}/payments/square`, {
+                method: "POST",
+                body: { sourceId, scheduledPaymentId, tip: tip || undefined },
+              });
+              toast({
+                title: "Payment Successful",
+                description: "Your payment has been processed successfully.",
+              });
+              onPaid();
+              onClose();
+            }}
+          />
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+/**
+ * Card form using the Square Web Payments SDK, which is loaded on demand
+ */
+function SquareCardForm({ locationId, onToken }: { locationId: string; onToken: (sourceId: string) => Promise<void> }) {
+  const { toast } = useToast();
+  const containerId = "portal-square-card";
+  const cardRef = React.useRef<any>(null);
+  const [isReady, setIsReady] = React.useState(false);
+  const [isProcessing, setIsProcessing] = React.useState(false);
+
+  React.useEffect(() => {
+    let cancelled = false;
+
+    const loadScript = () =>
+      new Promise<void>((resolve, reject) => {
+        if ((window as any).Square) {
+          return resolve();
+        }
+        const script = document.createElement("script");
+        script.src = squareScriptUrl;
+        script.onload = () => resolve();
+        script.onerror = () => reject(new Error("Failed to load Square"));
+        document.body.appendChild(script);
+      });
+
+    loadScript()
+      .then(async () => {
+        const squarePayments = (window as any).Square.payments(squareApplicationId, locationId);
+        const card = await squarePayments.card();
+        if (cancelled) return;
+        await card.attach(`#${containerId}`);
+        cardRef.current = card;
+        setIsReady(true);
+      })
+      .catch((error) => {
+        console.error("Error loading Square card form:", error);
+        toast({
+          title: "Payment Error",
+          description: "Could not load the card form. Please try again.",
+          variant: "destructive",
+        });
+      });
+
+    return () => {
+      cancelled = true;
+      cardRef.current?.destroy?.();
+    };
+  }, [locationId]);
+
+  const handlePay = async () => {
+    if (!cardRef.current) return;
+
+    setIsProcessing(true);
+    try {
+      const result = await cardRef.current.tokenize();
+      if (result.status !== "OK") {
+        throw new Error(result.errors?.[0]?.message || "Card details are invalid");
+      }
+      await onToken(result.token);
+    } catch (error: any) {
+      toast({
+        title: "Payment Failed",
+        description: error.message || "An unexpected error occurred.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div id={containerId} />
+      <Button className="w-full" onClick={handlePay} disabled={!isReady || isProcessing}>
+        {isProcessing && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+        Pay Now
+      </Button>
+    </div>
+  );
+}
@@ -178,7 +178,7 @@ const ReportView: React.FC<ReportViewProps> = ({ reportId, dateRange, onBack })
       },
       "payments-by-period": {
         title: "Payments by Period",
-        description: "All payments received during the selected period"
+        description: "All payments received and refunds given during the selected period"
       },
       "expense-summary": {
         title: "Summary Expense Report",
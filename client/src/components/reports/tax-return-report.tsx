@@ -0,0 +1,297 @@
+import React, { useEffect, useMemo, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Skeleton } from "@/components/ui/skeleton";
+import { FormatCurrency } from "@/components/ui/format-currency";
+import { useSettings } from "@/contexts/settings-context";
+import { formatDate } from "@/lib/utils";
+import { ChevronDown, ChevronRight, DownloadIcon } from "lucide-react";
+import {
+  quarterRange,
+  recordsForBox,
+  taxReturnBases,
+  taxReturnBasisLabels,
+  taxReturnSchemeLabels,
+  taxReturnSchemes,
+  type TaxReturn,
+  type TaxReturnBasis,
+  type TaxReturnScheme,
+} from "@shared/tax-return";
+
+interface TaxReturnReportProps {
+  onBack: () => void;
+}
+
+// How many past quarters can be picked, including the current one
+const QUARTER_COUNT = 8;
+
+// The most recent quarters, newest first
+const getQuarters = () => {
+  const today = new Date();
+  let year = today.getFullYear();
+  let quarter = Math.floor(today.getMonth() / 3) + 1;
+
+  return Array.from({ length: QUARTER_COUNT }, () => {
+    const option = { value: `${year}-Q${quarter}`, label: `Q${quarter} ${year}`, ...quarterRange(year, quarter) };
+
+    quarter -= 1;
+    if (quarter === 0) {
+      quarter = 4;
+      year -= 1;
+    }
+
+    return option;
+  });
+};
+
+const recordTypeLabels = {
+  sale: "Sale",
+  refund: "Refund",
+  purchase: "Expense",
+};
+
+/**
+ * VAT/GST return for a quarter or any other period, with the boxes to copy
+ * into the return and the sales, refunds and expenses behind each box
+ */
+const TaxReturnReport: React.FC<TaxReturnReportProps> = ({ onBack }) => {
+  const { settings } = useSettings();
+  const quarters = useMemo(getQuarters, []);
+
+  // The last full quarter is usually the one being filed
+  const [period, setPeriod] = useState(quarters[1].value);
+  const [customFrom, setCustomFrom] = useState(quarters[1].from);
+  const [customTo, setCustomTo] = useState(quarters[1].to);
+  const [basis, setBasis] = useState<TaxReturnBasis>("accrual");
+  const [scheme, setScheme] = useState<TaxReturnScheme>(settings.taxTerminology === "GST" ? "au-bas" : "uk-vat");
+  const [openBox, setOpenBox] = useState<string | null>(null);
+
+  useEffect(() => {
+    setScheme(settings.taxTerminology === "GST" ? "au-bas" : "uk-vat");
+  }, [settings.taxTerminology]);
+
+  const selectedQuarter = quarters.find((quarter) => quarter.value === period);
+  const from = selectedQuarter ? selectedQuarter.from : customFrom;
+  const to = selectedQuarter ? selectedQuarter.to : customTo;
+  const params = new URLSearchParams({ from, to, basis, scheme }).toString();
+
+  const { data: taxReturn, isLoading, isError } = useQuery<TaxReturn>({
+    queryKey: [`/api/reports/tax-return?${params}`],
+    enabled: !!from && !!to && from <= to,
+  });
+
+  const handleDownload = (format: 'pdf' | 'csv') => {
+    window.open(`/api/reports/tax-return/download/${format}?${params}`, '_blank');
+  };
+
+  const boxes = taxReturn ? taxReturn.boxes[scheme] : [];
+
+  return (
+    <Card className="border shadow-sm mt-6">
+      <CardHeader className="flex flex-row items-center justify-between border-b p-4">
+        <div>
+          <CardTitle className="text-xl">{taxReturnSchemeLabels[scheme]}</CardTitle>
+          <p className="text-muted-foreground text-sm mt-1">
+            Tax charged on sales less tax paid on expenses. Click a box to see the records behind it.
+          </p>
+          <p className="text-xs text-muted-foreground mt-2">
+            {from ? formatDate(from) : ''}
+            {to ? ` - ${formatDate(to)}` : ''}
+          </p>
+        </div>
+        <div className="flex space-x-2">
+          <Button variant="outline" size="sm" onClick={() => handleDownload('csv')} disabled={!taxReturn}>
+            <DownloadIcon className="h-4 w-4 mr-2" /> CSV
+          </Button>
+          <Button variant="outline" size="sm" onClick={() => handleDownload('pdf')} disabled={!taxReturn}>
+            <DownloadIcon className="h-4 w-4 mr-2" /> PDF
+          </Button>
+          <Button variant="outline" size="sm" onClick={onBack}>
+            Back
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="p-4 space-y-6">
+        <div className="flex flex-wrap gap-4 items-end">
+          <div>
+            <Label>Period</Label>
+            <Select value={period} onValueChange={setPeriod}>
+              <SelectTrigger className="w-[160px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {quarters.map((quarter) => (
+                  <SelectItem key={quarter.value} value={quarter.value}>
+                    {quarter.label}
+                  </SelectItem>
+                ))}
+                <SelectItem value="custom">Custom period</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          {period === "custom" && (
+            <>
+              <div>
+                <Label>From</Label>
+                <Input type="date" value={customFrom} onChange={(e) => setCustomFrom(e.target.value)} />
+              </div>
+              <div>
+                <Label>To</Label>
+                <Input type="date" value={customTo} onChange={(e) => setCustomTo(e.target.value)} />
+              </div>
+            </>
+          )}
+          <div>
+            <Label>Basis</Label>
+            <Select value={basis} onValueChange={(value) => setBasis(value as TaxReturnBasis)}>
+              <SelectTrigger className="w-[220px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {taxReturnBases.map((option) => (
+                  <SelectItem key={option} value={option}>
+                    {taxReturnBasisLabels[option]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <Label>Return</Label>
+            <Select value={scheme} onValueChange={(value) => setScheme(value as TaxReturnScheme)}>
+              <SelectTrigger className="w-[180px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {taxReturnSchemes.map((option) => (
+                  <SelectItem key={option} value={option}>
+                    {taxReturnSchemeLabels[option]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        {from > to ? (
+          <p className="text-sm text-red-500">The period must end after it starts.</p>
+        ) : isLoading ? (
+          <div className="space-y-4">
+            <Skeleton className="h-8 w-full" />
+            <Skeleton className="h-8 w-full" />
+            <Skeleton className="h-8 w-full" />
+            <Skeleton className="h-8 w-full" />
+          </div>
+        ) : isError || !taxReturn ? (
+          <div className="text-center">
+            <p className="text-red-500">Failed to load report data. Please try again.</p>
+          </div>
+        ) : (
+          <>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div className="rounded-md border p-4">
+                <p className="text-sm text-muted-foreground">Output tax on sales</p>
+                <p className="text-2xl font-semibold"><FormatCurrency amount={taxReturn.outputTax} /></p>
+              </div>
+              <div className="rounded-md border p-4">
+                <p className="text-sm text-muted-foreground">Input tax on expenses</p>
+                <p className="text-2xl font-semibold"><FormatCurrency amount={taxReturn.inputTax} /></p>
+              </div>
+              <div className="rounded-md border p-4">
+                <p className="text-sm text-muted-foreground">
+                  {taxReturn.netPayable < 0 ? "Net to reclaim" : "Net payable"}
+                </p>
+                <p className="text-2xl font-semibold"><FormatCurrency amount={Math.abs(taxReturn.netPayable)} /></p>
+              </div>
+            </div>
+
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-16">Box</TableHead>
+                  <TableHead>Description</TableHead>
+                  <TableHead className="text-right">Amount</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {boxes.map((box) => {
+                  const isOpen = openBox === box.box;
+                  const records = isOpen ? recordsForBox(taxReturn.records, box) : [];
+
+                  return (
+                    <React.Fragment key={box.box}>
+                      <TableRow
+                        className={box.records ? "cursor-pointer" : undefined}
+                        onClick={() => box.records && setOpenBox(isOpen ? null : box.box)}
+                      >
+                        <TableCell className="font-medium">
+                          <span className="flex items-center gap-1">
+                            {box.records && (isOpen
+                              ? <ChevronDown className="h-4 w-4" />
+                              : <ChevronRight className="h-4 w-4" />)}
+                            {box.box}
+                          </span>
+                        </TableCell>
+                        <TableCell>{box.label}</TableCell>
+                        <TableCell className="text-right"><FormatCurrency amount={box.amount} /></TableCell>
+                      </TableRow>
+                      {isOpen && (
+                        <TableRow>
+                          <TableCell colSpan={3} className="bg-gray-50 p-0">
+                            {records.length === 0 ? (
+                              <p className="p-4 text-sm text-muted-foreground">No records in this period.</p>
+                            ) : (
+                              <Table>
+                                <TableHeader>
+                                  <TableRow>
+                                    <TableHead>Date</TableHead>
+                                    <TableHead>Type</TableHead>
+                                    <TableHead>Reference</TableHead>
+                                    <TableHead>Party</TableHead>
+                                    <TableHead>Description</TableHead>
+                                    <TableHead className="text-right">Net</TableHead>
+                                    <TableHead className="text-right">Tax</TableHead>
+                                    <TableHead className="text-right">Gross</TableHead>
+                                  </TableRow>
+                                </TableHeader>
+                                <TableBody>
+                                  {records.map((record) => (
+                                    <TableRow key={`${record.source}-${record.id}`}>
+                                      <TableCell>{formatDate(record.date)}</TableCell>
+                                      <TableCell>{recordTypeLabels[record.type]}</TableCell>
+                                      <TableCell>{record.reference}</TableCell>
+                                      <TableCell>{record.party || "-"}</TableCell>
+                                      <TableCell>{record.description}</TableCell>
+                                      <TableCell className="text-right"><FormatCurrency amount={record.net} /></TableCell>
+                                      <TableCell className="text-right"><FormatCurrency amount={record.tax} /></TableCell>
+                                      <TableCell className="text-right"><FormatCurrency amount={record.gross} /></TableCell>
+                                    </TableRow>
+                                  ))}
+                                </TableBody>
+                              </Table>
+                            )}
+                          </TableCell>
+                        </TableRow>
+                      )}
+                    </React.Fragment>
+                  );
+                })}
+              </TableBody>
+            </Table>
+
+            <p className="text-xs text-muted-foreground">
+              Other income is not included because it is recorded without tax.
+            </p>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default TaxReturnReport;
@@ -30,7 +30,6 @@ const emailSettingsSchema = z.object({
   secondaryEmailAddress: z.string().email("Please enter a valid email address").optional().or(z.literal("")),
   receiveUpcomingOrders: z.boolean().default(false),
   upcomingOrdersFrequency: z.enum(["daily", "weekly", "monthly"]).default("weekly"),
-  receivePaymentReminders: z.boolean().default(false),
   receiveMarketingEmails: z.boolean().default(false),
   receiveProductUpdates: z.boolean().default(false),
 });
@@ -51,7 +50,6 @@ export function EmailUpdatesSection() {
   // Email subscription settings
   const [receiveUpcomingOrders, setReceiveUpcomingOrders] = useState(settings?.receiveUpcomingOrders || false);
   const [upcomingOrdersFrequency, setUpcomingOrdersFrequency] = useState(settings?.upcomingOrdersFrequency || "weekly");
-  const [receivePaymentReminders, setReceivePaymentReminders] = useState(settings?.receivePaymentReminders || false);
   const [receiveMarketingEmails, setReceiveMarketingEmails] = useState(settings?.receiveMarketingEmails || false);
   const [receiveProductUpdates, setReceiveProductUpdates] = useState(settings?.receiveProductUpdates || false);
 
@@ -62,7 +60,6 @@ export function EmailUpdatesSection() {
       setSecondaryEmailAddress(settings.secondaryEmailAddress || "");
       setReceiveUpcomingOrders(settings.receiveUpcomingOrders || false);
       setUpcomingOrdersFrequency(settings.upcomingOrdersFrequency || "weekly");
-      setReceivePaymentReminders(settings.receivePaymentReminders || false);
       setReceiveMarketingEmails(settings.receiveMarketingEmails || false);
       setReceiveProductUpdates(settings.receiveProductUpdates || false);
     }
@@ -77,7 +74,6 @@ export function EmailUpdatesSection() {
       // Process each field individually to ensure proper typing
       Object.entries(data).forEach(([key, value]) => {
         if (key === 'receiveUpcomingOrders' || 
-            key === 'receivePaymentReminders' || 
             key === 'receiveMarketingEmails' || 
             key === 'receiveProductUpdates') {
           processedData[key] = Boolean(value);
@@ -161,14 +157,6 @@ export function EmailUpdatesSection() {
     }
   };
 
-  const handleTogglePaymentReminders = (checked: boolean) => {
-    setReceivePaymentReminders(checked);
-    const updateData: Partial<Settings> = { 
-      receivePaymentReminders: checked 
-    };
-    updateEmailSettings.mutate(updateData);
-  };
-
   const handleToggleMarketingEmails = (checked: boolean) => {
     setReceiveMarketingEmails(checked);
     const updateData: Partial<Settings> = { 
@@ -254,25 +242,6 @@ export function EmailUpdatesSection() {
               </div>
             </div>
             
-            {/* Payment Reminders */}
-            <div className="border rounded-lg p-4">
-              <div className="flex items-start space-x-3">
-                <Checkbox 
-                  id="payment-reminders" 
-                  checked={receivePaymentReminders}
-                  onCheckedChange={handleTogglePaymentReminders}
-                />
-                <div className="space-y-1">
-                  <Label htmlFor="payment-reminders" className="font-medium">
-                    Payment Reminders
-                  </Label>
-                  <p className="text-sm text-gray-500">
-                    Get notified when a customer payment is due or overdue.
-                  </p>
-                </div>
-              </div>
-            </div>
-            
             {/* Product Updates */}
             <div className="border rounded-lg p-4">
               <div className="flex items-start space-x-3">
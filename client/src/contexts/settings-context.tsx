@@ -11,10 +11,14 @@ export interface Settings {
   nextOrderNumber: number;
   // Document settings
   documentFontSize?: 'normal' | 'large';
+  invoiceTemplate?: string;
   // Tax settings
   taxEnabled?: boolean;
   useGst?: boolean;
   useTaxInvoice?: boolean;
+  taxTerminology?: 'GST' | 'VAT' | 'Tax';
+  taxInvoiceTitle?: string;
+  pricesIncludeTax?: boolean;
   // Email notification settings
   emailAddress?: string;
   secondaryEmailAddress?: string;
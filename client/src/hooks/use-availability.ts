@@ -0,0 +1,66 @@
+import React from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { format } from "date-fns";
+import type { DateAvailability } from "@shared/availability";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+
+export interface BlockDateRange {
+  startDate: string;
+  endDate: string;
+  reason: string;
+}
+
+const isAvailabilityQuery = (queryKey: readonly unknown[]) =>
+  String(queryKey[0]).startsWith("/api/availability");
+
+/**
+ * Blocked dates and daily capacity for the dates shown on a calendar
+ */
+export function useAvailability(from: Date, to: Date) {
+  const url = `/api/availability?from=${format(from, "yyyy-MM-dd")}&to=${format(to, "yyyy-MM-dd")}`;
+
+  const { data = [], isLoading } = useQuery<DateAvailability[]>({
+    queryKey: [url],
+  });
+
+  // Availability keyed by date (yyyy-MM-dd)
+  const availability = React.useMemo(() => {
+    const byDate: { [date: string]: DateAvailability } = {};
+    data.forEach(day => {
+      byDate[day.date] = day;
+    });
+    return byDate;
+  }, [data]);
+
+  // Blocked dates mapped to their reason
+  const blockedDates = React.useMemo(() => {
+    const blocked: { [date: string]: string } = {};
+    data.forEach(day => {
+      if (day.status === "blocked") {
+        blocked[day.date] = day.blockReasons.join(", ");
+      }
+    });
+    return blocked;
+  }, [data]);
+
+  // Save a blocked date range
+  const { mutateAsync: blockDate, isPending: isBlocking } = useMutation({
+    mutationFn: async (range: BlockDateRange) => {
+      return await apiRequest("/api/availability/blocked-dates", {
+        method: "POST",
+        body: range,
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ predicate: (query) => isAvailabilityQuery(query.queryKey) });
+    },
+  });
+
+  return {
+    availability,
+    blockedDates,
+    isLoading,
+    blockDate,
+    isBlocking,
+  };
+}
@@ -31,10 +31,13 @@ const AppLayout: React.FC<AppLayoutProps> = ({ children }) => {
   const publicRoutes = ["/", "/login", "/register", "/enquiry-form"];
   const isPublicRoute = publicRoutes.includes(location);
   
-  // Check if we're on the landing page or login/register pages
-  const isFullscreenPage = location === "/" || location === "/login" || location === "/register";
+  // Customer portal pages are opened by customers through a signed link
+  const isPortalPage = location.startsWith("/portal/");
   
-  // If on landing page or login/register pages, don't show the app layout with sidebar
+  // Check if we're on the landing page, login/register pages or the customer portal
+  const isFullscreenPage = location === "/" || location === "/login" || location === "/register" || isPortalPage;
+  
+  // If on landing page, login/register pages or the customer portal, don't show the app layout with sidebar
   if (isFullscreenPage) {
     return <div className="h-screen">{children}</div>;
   }
@@ -72,6 +72,8 @@ const notificationPrefsSchema = z.object({
   marketingTips: z.boolean().default(false),
   smsOrderConfirmations: z.boolean().default(false),
   smsDeliveryReminders: z.boolean().default(false),
+  smsPaymentReminders: z.boolean().default(false),
+  smsCountryCode: z.string().regex(/^\+?\d{0,4}$/, "Enter a calling code, e.g. +61").default(""),
 });
 
 type ProfileFormValues = z.infer<typeof profileFormSchema>;
@@ -94,7 +96,7 @@ const Account = () => {
   });
   
   // Fetch notification preferences
-  const { data: notificationPrefs, isLoading: isNotificationPrefsLoading } = useQuery({
+  const { data: notificationPrefs, isLoading: isNotificationPrefsLoading } = useQuery<Partial<NotificationPrefsValues>>({
     queryKey: ['/api/users/notification-preferences'],
     retry: 1,
   });
@@ -155,6 +157,8 @@ const Account = () => {
       marketingTips: false,
       smsOrderConfirmations: false,
       smsDeliveryReminders: false,
+      smsPaymentReminders: false,
+      smsCountryCode: "",
     },
   });
   
@@ -187,6 +191,8 @@ const Account = () => {
         marketingTips: notificationPrefs.marketingTips ?? false,
         smsOrderConfirmations: notificationPrefs.smsOrderConfirmations ?? false,
         smsDeliveryReminders: notificationPrefs.smsDeliveryReminders ?? false,
+        smsPaymentReminders: notificationPrefs.smsPaymentReminders ?? false,
+        smsCountryCode: notificationPrefs.smsCountryCode ? `+${notificationPrefs.smsCountryCode}` : "",
       });
     }
   }, [notificationPrefs, notificationForm]);
@@ -929,12 +935,15 @@ const Account = () => {
                     <Separator className="my-6" />
 
                     <div>
-                      <h3 className="text-lg font-medium mb-4">SMS Notifications</h3>
+                      <h3 className="text-lg font-medium mb-1">SMS Notifications</h3>
+                      <p className="text-sm text-muted-foreground mb-4">
+                        Texts are sent to customers who have agreed to receive them on their contact details
+                      </p>
                       <div className="space-y-4">
                         <div className="flex items-center justify-between">
                           <div>
                             <p className="font-medium">Order Confirmations</p>
-                            <p className="text-sm text-muted-foreground">Receive SMS when an order is confirmed</p>
+                            <p className="text-sm text-muted-foreground">Text the customer when their order is confirmed</p>
                           </div>
                           <FormField
                             control={notificationForm.control}
@@ -954,7 +963,7 @@ const Account = () => {
                         <div className="flex items-center justify-between">
                           <div>
                             <p className="font-medium">Delivery Reminders</p>
-                            <p className="text-sm text-muted-foreground">Get SMS reminders for upcoming deliveries</p>
+                            <p className="text-sm text-muted-foreground">Text the customer the day before their order is delivered or ready to collect</p>
                           </div>
                           <FormField
                             control={notificationForm.control}
@@ -971,6 +980,42 @@ const Account = () => {
                             )}
                           />
                         </div>
+                        <div className="flex items-center justify-between">
+                          <div>
+                            <p className="font-medium">Payment Reminders</p>
+                            <p className="text-sm text-muted-foreground">Text the customer the day before a payment is due</p>
+                          </div>
+                          <FormField
+                            control={notificationForm.control}
+                            name="smsPaymentReminders"
+                            render={({ field }) => (
+                              <FormItem className="flex items-center space-x-2">
+                                <FormControl>
+                                  <Switch
+                                    checked={field.value}
+                                    onCheckedChange={field.onChange}
+                                  />
+                                </FormControl>
+                              </FormItem>
+                            )}
+                          />
+                        </div>
+                        <FormField
+                          control={notificationForm.control}
+                          name="smsCountryCode"
+                          render={({ field }) => (
+                            <FormItem className="max-w-xs">
+                              <FormLabel>Country Calling Code</FormLabel>
+                              <FormControl>
+                                <Input placeholder="e.g. +61" {...field} />
+                              </FormControl>
+                              <p className="text-sm text-muted-foreground">
+                                Used for customer numbers entered without one. Leave blank to go by your currency.
+                              </p>
+                              <FormMessage />
+                            </FormItem>
+                          )}
+                        />
                       </div>
                     </div>
 
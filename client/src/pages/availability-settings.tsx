@@ -0,0 +1,294 @@
+import React, { useState, useEffect, useMemo } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { format, parseISO } from "date-fns";
+import { ChevronLeftIcon, Trash2Icon } from "lucide-react";
+import { Link } from "wouter";
+
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { weekdayNames } from "@shared/availability";
+import type { BlockedDate, DailyCapacity } from "@shared/schema";
+
+// Capacity limits as typed in, blank for no limit
+interface CapacityRow {
+  weekday: number;
+  maxOrders: string;
+  maxLaborHours: string;
+}
+
+const isAvailabilityQuery = (queryKey: readonly unknown[]) =>
+  String(queryKey[0]).startsWith("/api/availability");
+
+const formatDate = (date: string) => format(parseISO(date), "EEE d MMM yyyy");
+
+/**
+ * One row per day of the week, filled in from the saved limits
+ */
+function toRows(capacity: DailyCapacity[]): CapacityRow[] {
+  return weekdayNames.map((_, weekday) => {
+    const day = capacity.find((limit) => limit.weekday === weekday);
+    return {
+      weekday,
+      maxOrders: day?.maxOrders != null ? String(day.maxOrders) : "",
+      maxLaborHours: day?.maxLaborHours != null ? String(parseFloat(day.maxLaborHours)) : "",
+    };
+  });
+}
+
+/**
+ * What is wrong with a day's limits
+ */
+function getError(row: CapacityRow): string | null {
+  if (row.maxOrders.trim() && !/^\d+$/.test(row.maxOrders.trim())) {
+    return "Orders must be a whole number";
+  }
+  if (row.maxLaborHours.trim() && !(parseFloat(row.maxLaborHours) >= 0)) {
+    return "Hours must be a number of 0 or more";
+  }
+  return null;
+}
+
+export default function AvailabilitySettings() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: blocked = [], isLoading: isBlockedLoading } = useQuery<BlockedDate[]>({
+    queryKey: ["/api/availability/blocked-dates"],
+  });
+  const { data: capacity, isLoading: isCapacityLoading } = useQuery<DailyCapacity[]>({
+    queryKey: ["/api/availability/capacity"],
+  });
+
+  const [startDate, setStartDate] = useState("");
+  const [endDate, setEndDate] = useState("");
+  const [reason, setReason] = useState("");
+  const [rows, setRows] = useState<CapacityRow[]>(toRows([]));
+
+  useEffect(() => {
+    if (capacity) {
+      setRows(toRows(capacity));
+    }
+  }, [capacity]);
+
+  const errors = useMemo(() => rows.map(getError), [rows]);
+  const hasErrors = errors.some((error) => error !== null);
+  const hasChanges = !!capacity && JSON.stringify(rows) !== JSON.stringify(toRows(capacity));
+  const rangeError = startDate && endDate && endDate < startDate ? "End date must be on or after the start date" : null;
+
+  const update = (weekday: number, changes: Partial<CapacityRow>) =>
+    setRows(rows.map((row) => (row.weekday === weekday ? { ...row, ...changes } : row)));
+
+  const refreshAvailability = () =>
+    queryClient.invalidateQueries({ predicate: (query) => isAvailabilityQuery(query.queryKey) });
+
+  const showError = (message: string) => (error: any) => {
+    console.error(message, error);
+    toast({
+      title: "Error",
+      description: error?.message || "Something went wrong. Please try again.",
+      variant: "destructive",
+    });
+  };
+
+  const blockMutation = useMutation({
+    mutationFn: async () =>
+      await apiRequest("/api/availability/blocked-dates", {
+        method: "POST",
+        body: { startDate, endDate: endDate || startDate, reason: reason.trim() || null },
+      }),
+    onSuccess: () => {
+      setStartDate("");
+      setEndDate("");
+      setReason("");
+      refreshAvailability();
+      toast({
+        title: "Dates Blocked",
+        description: "No new orders can be taken on these dates.",
+      });
+    },
+    onError: showError("Error blocking dates:"),
+  });
+
+  const unblockMutation = useMutation({
+    mutationFn: async (id: number) =>
+      await apiRequest(`/api/availability/blocked-dates/${id}`, { method: "DELETE" }),
+    onSuccess: () => {
+      refreshAvailability();
+      toast({
+        title: "Dates Unblocked",
+        description: "Orders can be taken on these dates again.",
+      });
+    },
+    onError: showError("Error removing blocked dates:"),
+  });
+
+  const capacityMutation = useMutation({
+    mutationFn: async () =>
+      await apiRequest("/api/availability/capacity", {
+        method: "PUT",
+        body: rows
+          .filter((row) => row.maxOrders.trim() || row.maxLaborHours.trim())
+          .map((row) => ({
+            weekday: row.weekday,
+            maxOrders: row.maxOrders.trim() ? parseInt(row.maxOrders) : null,
+            maxLaborHours: row.maxLaborHours.trim() ? row.maxLaborHours.trim() : null,
+          })),
+      }),
+    onSuccess: () => {
+      refreshAvailability();
+      toast({
+        title: "Capacity Saved",
+        description: "Your daily capacity has been saved successfully.",
+      });
+    },
+    onError: showError("Error saving capacity:"),
+  });
+
+  return (
+    <div className="container mx-auto py-6 max-w-5xl">
+      <div className="flex items-center mb-4">
+        <Link href="/settings" className="mr-4">
+          <Button variant="ghost" size="icon">
+            <ChevronLeftIcon className="h-5 w-5" />
+          </Button>
+        </Link>
+        <div>
+          <h1 className="text-2xl font-bold">Availability</h1>
+          <p className="text-gray-500 text-sm">Dates you are not taking orders and how much work you can take on each day</p>
+        </div>
+      </div>
+
+      <Card className="mb-8">
+        <CardHeader>
+          <CardTitle>Blocked Dates</CardTitle>
+          <CardDescription>
+            Holidays and other days off. New orders and enquiries can't be booked for these dates.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          <div className="grid grid-cols-1 md:grid-cols-[1fr_1fr_2fr_auto] gap-4 items-end">
+            <div className="space-y-2">
+              <Label htmlFor="blocked-start">From</Label>
+              <Input id="blocked-start" type="date" value={startDate} onChange={(e) => setStartDate(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="blocked-end">To (optional)</Label>
+              <Input
+                id="blocked-end"
+                type="date"
+                min={startDate || undefined}
+                value={endDate}
+                onChange={(e) => setEndDate(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="blocked-reason">Reason</Label>
+              <Input
+                id="blocked-reason"
+                placeholder="e.g. Holiday"
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+              />
+            </div>
+            <Button
+              onClick={() => blockMutation.mutate()}
+              disabled={!startDate || !!rangeError || blockMutation.isPending}
+            >
+              {blockMutation.isPending ? "Blocking..." : "Block Dates"}
+            </Button>
+          </div>
+          {rangeError && <p className="text-sm text-red-500">{rangeError}</p>}
+
+          {isBlockedLoading ? (
+            <p className="text-sm text-gray-500">Loading blocked dates...</p>
+          ) : blocked.length === 0 ? (
+            <p className="text-sm text-gray-500">You have no blocked dates.</p>
+          ) : (
+            <div className="border rounded-md divide-y">
+              {blocked.map((range) => (
+                <div key={range.id} className="flex items-center justify-between p-4">
+                  <div>
+                    <p className="font-medium">
+                      {formatDate(range.startDate)}
+                      {range.endDate !== range.startDate && ` – ${formatDate(range.endDate)}`}
+                    </p>
+                    {range.reason && <p className="text-sm text-gray-500">{range.reason}</p>}
+                  </div>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => unblockMutation.mutate(range.id)}
+                    disabled={unblockMutation.isPending}
+                    aria-label="Remove blocked dates"
+                  >
+                    <Trash2Icon className="h-4 w-4 text-red-500" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card className="mb-10">
+        <CardHeader className="flex flex-row items-start justify-between space-y-0">
+          <div className="space-y-1.5">
+            <CardTitle>Daily Capacity</CardTitle>
+            <CardDescription>
+              The most orders and labour hours you can take on for each day of the week. Leave blank for no limit.
+            </CardDescription>
+          </div>
+          <Button
+            onClick={() => capacityMutation.mutate()}
+            disabled={!hasChanges || hasErrors || capacityMutation.isPending}
+          >
+            {capacityMutation.isPending ? "Saving..." : "Save Changes"}
+          </Button>
+        </CardHeader>
+        <CardContent>
+          {isCapacityLoading ? (
+            <p className="text-sm text-gray-500">Loading capacity...</p>
+          ) : (
+            <div className="space-y-3">
+              <div className="grid grid-cols-[8rem_1fr_1fr] gap-4 text-sm font-medium text-gray-600">
+                <span>Day</span>
+                <span>Max orders</span>
+                <span>Max labour hours</span>
+              </div>
+              {rows.map((row, index) => (
+                <div key={row.weekday}>
+                  <div className="grid grid-cols-[8rem_1fr_1fr] gap-4 items-center">
+                    <span className="capitalize">{weekdayNames[row.weekday]}</span>
+                    <Input
+                      type="number"
+                      min={0}
+                      step={1}
+                      placeholder="No limit"
+                      value={row.maxOrders}
+                      onChange={(e) => update(row.weekday, { maxOrders: e.target.value })}
+                      aria-label={`Max orders on ${weekdayNames[row.weekday]}`}
+                    />
+                    <Input
+                      type="number"
+                      min={0}
+                      step={0.5}
+                      placeholder="No limit"
+                      value={row.maxLaborHours}
+                      onChange={(e) => update(row.weekday, { maxLaborHours: e.target.value })}
+                      aria-label={`Max labour hours on ${weekdayNames[row.weekday]}`}
+                    />
+                  </div>
+                  {errors[index] && <p className="text-sm text-red-500 mt-1">{errors[index]}</p>}
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -13,6 +13,7 @@ import CalendarOrderDialog from "@/components/calendar/calendar-order-dialog";
 import { Badge } from "@/components/ui/badge";
 import { eventTypeColors } from "@/lib/constants";
 import { EventType, eventTypes } from "@shared/schema";
+import { useAvailability } from "@/hooks/use-availability";
 
 const CalendarStandalone = () => {
   const [_, navigate] = useLocation();
@@ -212,6 +213,10 @@ const CalendarStandalone = () => {
   
   const calendarGrid = generateCalendarGrid();
   
+  // Blocked dates and capacity for every day shown on the grid
+  const lastWeek = calendarGrid[calendarGrid.length - 1];
+  const { availability } = useAvailability(calendarGrid[0][0].date, lastWeek[lastWeek.length - 1].date);
+  
   // Get orders for a specific day
   const getOrdersForDay = (date: Date) => {
     return orders.filter(order => {
@@ -377,13 +382,15 @@ const CalendarStandalone = () => {
                     const dayOrders = getOrdersForDay(dayData.date);
                     const isCurrentDay = isToday(dayData.date);
                     const isSelected = isSelectedDate(dayData.date);
+                    const dayAvailability = availability[format(dayData.date, "yyyy-MM-dd")];
+                    const isUnavailable = dayAvailability && dayAvailability.status !== "available";
                     
                     return (
                       <div
                         key={`${weekIndex}-${dayIndex}`}
                         className={`border border-gray-200 p-2 h-32 overflow-y-auto relative cursor-pointer ${
                           dayData.currentMonth ? 'bg-white' : 'bg-gray-50'
-                        } ${isCurrentDay ? 'bg-blue-50' : ''} ${isSelected ? 'ring-2 ring-blue-500' : ''}`}
+                        } ${isCurrentDay ? 'bg-blue-50' : ''} ${isUnavailable ? 'bg-gray-100' : ''} ${isSelected ? 'ring-2 ring-blue-500' : ''}`}
                         onClick={() => handleDateSelect(dayData.date)}
                       >
                         {/* Day number */}
@@ -391,6 +398,18 @@ const CalendarStandalone = () => {
                           {formatDateNumber(dayData.day)}
                         </div>
                         
+                        {/* Blocked, closed or fully booked indicator */}
+                        {isUnavailable && (
+                          <div
+                            className={`absolute top-1 left-8 text-xs px-1 py-0.5 rounded ${
+                              dayAvailability.status === 'blocked' ? 'bg-red-100 text-red-700' : 'bg-gray-200 text-gray-600'
+                            }`}
+                            title={dayAvailability.blockReasons.join(', ')}
+                          >
+                            {dayAvailability.status === 'blocked' ? 'Blocked' : dayAvailability.status === 'full' ? 'Full' : 'Closed'}
+                          </div>
+                        )}
+                        
                         {/* Today indicator */}
                         {isCurrentDay && (
                           <div className="absolute top-1 right-1 bg-blue-500 text-white text-xs px-1 py-0.5 rounded">
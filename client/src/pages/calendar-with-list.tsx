@@ -11,6 +11,7 @@ import { useLocation } from "wouter";
 import { cn } from "@/lib/utils";
 import { eventTypes, type EventType } from "@shared/schema";
 import { eventTypeColors } from "@/lib/constants";
+import { useAvailability } from "@/hooks/use-availability";
 import OrderCard from "@/components/order/order-card";
 import { 
   Dialog, 
@@ -58,11 +59,11 @@ const CalendarWithList = () => {
   const [isActionDialogOpen, setIsActionDialogOpen] = React.useState(false);
   const [isBlockoutDialogOpen, setIsBlockoutDialogOpen] = React.useState(false);
   const [calendarEvents, setCalendarEvents] = React.useState<CalendarEvent[]>([]);
-  const [blockedDates, setBlockedDates] = React.useState<{[key: string]: string}>({});
   
   // Get the first and last day of the current month
   const firstDayOfMonth = startOfMonth(currentDate);
   const lastDayOfMonth = endOfMonth(currentDate);
+  const { availability, blockedDates, blockDate } = useAvailability(firstDayOfMonth, lastDayOfMonth);
   
   // Adjust first day of month to get correct day of week (0 = Monday in our grid)
   const adjustedFirstDayOfMonth = (firstDayOfMonth.getDay() || 7) - 1;
@@ -107,6 +108,12 @@ const CalendarWithList = () => {
     return dateStr in blockedDates;
   };
   
+  // Check if a date is fully booked or the business is closed
+  const isDateUnavailable = (day: Date) => {
+    const status = availability[format(day, "yyyy-MM-dd")]?.status;
+    return status === "full" || status === "closed";
+  };
+  
   // Sort orders by event date
   const sortedOrders = React.useMemo(() => {
     return [...orders].sort((a, b) => {
@@ -283,7 +290,8 @@ const CalendarWithList = () => {
                       "h-28 p-1 relative border-r border-b",
                       isSelected ? "bg-primary/10 border-primary" : 
                       isCurrentDay ? "bg-blue-50" : "bg-white hover:bg-gray-50",
-                      isDateBlocked(day) ? "bg-gray-50" : ""
+                      isDateBlocked(day) ? "bg-gray-50" : "",
+                      isDateUnavailable(day) ? "bg-gray-100" : ""
                     )}
                     onClick={() => {
                       setSelectedDate(day);
@@ -303,6 +311,12 @@ const CalendarWithList = () => {
                       </div>
                     )}
                     
+                    {isDateUnavailable(day) && (
+                      <div className="absolute bottom-1 left-1 text-[10px] font-medium text-gray-500 z-20">
+                        {availability[format(day, "yyyy-MM-dd")].status === "full" ? "Full" : "Closed"}
+                      </div>
+                    )}
+                    
                     {/* Orders container with horizontal scroll */}
                     <div className="h-[calc(100%-22px)] overflow-y-auto">
                       <div className="flex flex-col space-y-1">
@@ -532,18 +546,22 @@ const CalendarWithList = () => {
             </Button>
             <Button 
               variant="default" 
-              onClick={() => {
+              onClick={async () => {
                 if (selectedDate) {
                   const dateStr = format(selectedDate, "yyyy-MM-dd");
                   const reasonInput = document.getElementById('blockout-reason') as HTMLInputElement;
                   
-                  // Update blocked dates
-                  setBlockedDates(prev => ({
-                    ...prev,
-                    [dateStr]: reasonInput.value || "Blocked"
-                  }));
-                  
-                  setIsBlockoutDialogOpen(false);
+                  // Save the blocked date
+                  try {
+                    await blockDate({
+                      startDate: dateStr,
+                      endDate: dateStr,
+                      reason: reasonInput.value || "Blocked"
+                    });
+                    setIsBlockoutDialogOpen(false);
+                  } catch (error) {
+                    alert("Failed to block date. Please try again.");
+                  }
                 }
               }}
             >
@@ -13,6 +13,7 @@ import { cn } from "@/lib/utils";
 import { eventTypes, type EventType } from "@shared/schema";
 import { eventTypeColors } from "@/lib/constants";
 import SidebarDateDialog from "@/components/calendar/sidebar-date-dialog";
+import { useAvailability } from "@/hooks/use-availability";
 import { 
   Dialog, 
   DialogContent, 
@@ -89,7 +90,6 @@ const Calendar = () => {
   const [isBlockDateDialogOpen, setIsBlockDateDialogOpen] = React.useState(false);
   const [isNewEventDialogOpen, setIsNewEventDialogOpen] = React.useState(false);
   const [calendarEvents, setCalendarEvents] = React.useState<CalendarEvent[]>([]);
-  const [blockedDates, setBlockedDates] = React.useState<{[key: string]: string}>({});
   const [newEvent, setNewEvent] = React.useState<Partial<CalendarEvent>>({
     type: 'Admin',
     description: ''
@@ -98,6 +98,7 @@ const Calendar = () => {
   // Get the first and last day of the current month
   const firstDayOfMonth = startOfMonth(currentDate);
   const lastDayOfMonth = endOfMonth(currentDate);
+  const { availability, blockedDates, blockDate } = useAvailability(firstDayOfMonth, lastDayOfMonth);
   
   // Get all days in the current month
   const daysInMonth = eachDayOfInterval({
@@ -139,6 +140,12 @@ const Calendar = () => {
     return dateStr in blockedDates;
   };
   
+  // Check if a date is fully booked or the business is closed
+  const isDateUnavailable = (day: Date) => {
+    const status = availability[format(day, "yyyy-MM-dd")]?.status;
+    return status === "full" || status === "closed";
+  };
+  
   // Get calendar events for a specific day
   const getEventsForDay = (day: Date) => {
     return calendarEvents.filter(event => {
@@ -374,7 +381,8 @@ const Calendar = () => {
                     "h-28 p-1 rounded-md border relative",
                     isSelected ? "bg-primary/10 border-primary" : 
                     isCurrentDay ? "bg-blue-50 border-blue-200" : "bg-white hover:bg-gray-50 border-gray-200",
-                    isDateBlocked(day) ? "bg-gray-50" : ""
+                    isDateBlocked(day) ? "bg-gray-50" : "",
+                    isDateUnavailable(day) ? "bg-gray-100" : ""
                   )}
                   onClick={() => {
                     setSelectedDate(day);
@@ -394,6 +402,12 @@ const Calendar = () => {
                     </div>
                   )}
                   
+                  {isDateUnavailable(day) && (
+                    <div className="absolute bottom-1 right-1 text-[10px] font-medium text-gray-500 z-20">
+                      {availability[format(day, "yyyy-MM-dd")].status === "full" ? "Full" : "Closed"}
+                    </div>
+                  )}
+                  
                   <div className="h-[calc(100%-22px)] overflow-y-auto scrollbar-thin scrollbar-thumb-gray-300 scrollbar-track-transparent">
                     {/* Display orders */}
                     <div className="flex space-x-1 overflow-x-auto pb-1 scrollbar-thin scrollbar-thumb-gray-300 scrollbar-track-transparent">
@@ -567,7 +581,7 @@ Click OK to view full order details.
             </div>
             
             <Button 
-              onClick={() => {
+              onClick={async () => {
                 // Get the values from the inputs
                 const startDateInput = document.getElementById('blockout-start-date') as HTMLInputElement;
                 const endDateInput = document.getElementById('blockout-end-date') as HTMLInputElement;
@@ -578,23 +592,17 @@ Click OK to view full order details.
                 const reason = reasonInput.value;
                 
                 if (startDate && endDate) {
-                  // Block out all dates in the range
-                  const newBlockedDates = {...blockedDates};
-                  
-                  // Get all dates between start and end (inclusive)
-                  const datesInRange = eachDayOfInterval({
-                    start: startDate,
-                    end: endDate
-                  });
-                  
-                  // Add each date to the blockedDates object
-                  datesInRange.forEach(date => {
-                    const dateStr = format(date, "yyyy-MM-dd");
-                    newBlockedDates[dateStr] = reason;
-                  });
-                  
-                  // Update state with new blocked dates
-                  setBlockedDates(newBlockedDates);
+                  // Save the blocked range
+                  try {
+                    await blockDate({
+                      startDate: startDateInput.value,
+                      endDate: endDateInput.value,
+                      reason
+                    });
+                  } catch (error) {
+                    alert("Failed to block out dates. Please try again.");
+                    return;
+                  }
                   
                   const formattedStartDate = format(startDate, "MMMM d, yyyy");
                   const formattedEndDate = format(endDate, "MMMM d, yyyy");
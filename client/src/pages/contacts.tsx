@@ -32,6 +32,8 @@ import {
 } from "@/components/ui/form";
 import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
+import { Switch } from "@/components/ui/switch";
+import EmailHistory from "@/components/email/email-history";
 import { useToast } from "@/hooks/use-toast";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
@@ -91,6 +93,7 @@ const Contacts = () => {
       businessName: "",
       address: "",
       notes: "",
+      smsOptIn: false,
     },
   });
   
@@ -106,6 +109,7 @@ const Contacts = () => {
       businessName: "",
       address: "",
       notes: "",
+      smsOptIn: false,
     },
   });
 
@@ -191,6 +195,7 @@ const Contacts = () => {
       businessName: contact.businessName || "",
       address: contact.address || "",
       notes: contact.notes || "",
+      smsOptIn: contact.smsOptIn ?? false,
     });
     
     setIsEditContactDialogOpen(true);
@@ -505,6 +510,22 @@ const Contacts = () => {
                 />
               </div>
               
+              <FormField
+                control={form.control}
+                name="smsOptIn"
+                render={({ field }) => (
+                  <FormItem className="flex items-center justify-between rounded-md border p-3">
+                    <div>
+                      <FormLabel>Text message updates</FormLabel>
+                      <p className="text-sm text-gray-500">The customer agreed to be sent order updates and reminders by SMS</p>
+                    </div>
+                    <FormControl>
+                      <Switch checked={!!field.value} onCheckedChange={field.onChange} />
+                    </FormControl>
+                  </FormItem>
+                )}
+              />
+
               <FormField
                 control={form.control}
                 name="address"
@@ -585,6 +606,17 @@ const Contacts = () => {
                 )}
               </div>
               
+              {selectedContact.phone && (
+                <div>
+                  <h4 className="text-sm font-medium text-gray-500">Text messages</h4>
+                  <p className="text-gray-700">
+                    {selectedContact.smsOptIn
+                      ? `Opted in${selectedContact.smsOptInAt ? ` on ${new Date(selectedContact.smsOptInAt).toLocaleDateString()}` : ""}`
+                      : "Not opted in"}
+                  </p>
+                </div>
+              )}
+              
               {selectedContact.address && (
                 <div>
                   <h4 className="text-sm font-medium text-gray-500">Address</h4>
@@ -599,6 +631,13 @@ const Contacts = () => {
                 </div>
               )}
               
+              <div>
+                <h4 className="text-sm font-medium text-gray-500">Emails sent</h4>
+                <div className="max-h-64 overflow-y-auto">
+                  <EmailHistory url={`/api/contacts/${selectedContact.id}/emails`} />
+                </div>
+              </div>
+              
               <DialogFooter>
                 <Button
                   variant="outline"
@@ -706,6 +745,22 @@ const Contacts = () => {
                   />
                 </div>
                 
+                <FormField
+                  control={editForm.control}
+                  name="smsOptIn"
+                  render={({ field }) => (
+                    <FormItem className="flex items-center justify-between rounded-md border p-3">
+                      <div>
+                        <FormLabel>Text message updates</FormLabel>
+                        <p className="text-sm text-gray-500">The customer agreed to be sent order updates and reminders by SMS</p>
+                      </div>
+                      <FormControl>
+                        <Switch checked={!!field.value} onCheckedChange={field.onChange} />
+                      </FormControl>
+                    </FormItem>
+                  )}
+                />
+
                 <FormField
                   control={editForm.control}
                   name="address"
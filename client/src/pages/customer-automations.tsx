@@ -0,0 +1,255 @@
+import React, { useState, useEffect, useMemo } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { ChevronLeftIcon, EyeIcon } from "lucide-react";
+import { Link } from "wouter";
+
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import PlaceholderReference from "@/components/email/placeholder-reference";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { validateEmailTemplate } from "@shared/email-templates";
+import {
+  MAX_AUTOMATION_DAYS,
+  customerAutomationDescriptions,
+  customerAutomationLabels,
+  customerAutomationTiming,
+  type CustomerAutomationSettings,
+  type CustomerAutomationsResponse,
+  type CustomerAutomationType,
+} from "@shared/customer-automations";
+
+interface EmailPreview {
+  text: string;
+  html: string;
+  errors: string[];
+  sample: boolean;
+}
+
+const timingLabels = {
+  before: "days before the event",
+  after: "days after it is delivered",
+};
+
+/**
+ * What is wrong with an automation's subject, email and timing
+ */
+function getErrors(automation: CustomerAutomationSettings): string[] {
+  const errors: string[] = [];
+
+  if (!automation.subject.trim()) errors.push("Subject is required");
+  if (!automation.body.trim()) errors.push("Email is required");
+  if (!Number.isInteger(automation.days) || automation.days < 0 || automation.days > MAX_AUTOMATION_DAYS) {
+    errors.push(`Days must be a whole number from 0 to ${MAX_AUTOMATION_DAYS}`);
+  }
+
+  return [
+    ...errors,
+    ...validateEmailTemplate(automation.type, automation.subject).map((error) => `Subject: ${error}`),
+    ...validateEmailTemplate(automation.type, automation.body),
+  ];
+}
+
+export default function CustomerAutomations() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: saved, isLoading } = useQuery<CustomerAutomationsResponse>({
+    queryKey: ["/api/customer-automations"],
+  });
+
+  const [automations, setAutomations] = useState<CustomerAutomationSettings[]>([]);
+  const [reviewUrl, setReviewUrl] = useState("");
+  const [previewType, setPreviewType] = useState<CustomerAutomationType | null>(null);
+
+  useEffect(() => {
+    if (saved) {
+      setAutomations(saved.automations);
+      setReviewUrl(saved.reviewUrl || "");
+    }
+  }, [saved]);
+
+  const errors = useMemo(
+    () => Object.fromEntries(automations.map((automation) => [automation.type, getErrors(automation)])),
+    [automations]
+  );
+
+  const hasErrors = Object.values(errors).some((list) => list.length > 0);
+  const hasChanges = !!saved &&
+    (JSON.stringify(automations) !== JSON.stringify(saved.automations) || reviewUrl !== (saved.reviewUrl || ""));
+
+  const update = (type: CustomerAutomationType, changes: Partial<CustomerAutomationSettings>) =>
+    setAutomations(automations.map((automation) => (automation.type === type ? { ...automation, ...changes } : automation)));
+
+  const previewAutomation = automations.find((automation) => automation.type === previewType);
+  const { data: preview, isFetching: isPreviewLoading, isError: isPreviewError } = useQuery<EmailPreview>({
+    queryKey: ["/api/email-templates/preview", previewType, previewAutomation?.body],
+    queryFn: () =>
+      apiRequest("/api/email-templates/preview", {
+        method: "POST",
+        body: { type: previewType, template: previewAutomation?.body || "" },
+      }),
+    enabled: !!previewAutomation,
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: async () =>
+      await apiRequest("/api/customer-automations", {
+        method: "PUT",
+        body: { automations, reviewUrl: reviewUrl.trim() || null },
+      }),
+    onSuccess: (data: CustomerAutomationsResponse) => {
+      queryClient.setQueryData(["/api/customer-automations"], data);
+      toast({
+        title: "Automations Saved",
+        description: "Your customer automations have been saved successfully.",
+      });
+    },
+    onError: (error: any) => {
+      console.error("Error saving customer automations:", error);
+      toast({
+        title: "Error",
+        description: error?.message || "There was a problem saving your automations. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const saveButton = (
+    <Button onClick={() => saveMutation.mutate()} disabled={!hasChanges || hasErrors || saveMutation.isPending}>
+      {saveMutation.isPending ? "Saving..." : "Save Changes"}
+    </Button>
+  );
+
+  return (
+    <div className="container mx-auto py-6 max-w-5xl">
+      <div className="flex items-center mb-4">
+        <Link href="/settings" className="mr-4">
+          <Button variant="ghost" size="icon">
+            <ChevronLeftIcon className="h-5 w-5" />
+          </Button>
+        </Link>
+        <div>
+          <h1 className="text-2xl font-bold">Customer Automations</h1>
+          <p className="text-gray-500 text-sm">Emails sent to your customers automatically as their orders progress</p>
+        </div>
+      </div>
+
+      <div className="flex justify-between mb-8 items-center bg-gray-50 p-4 rounded-md border">
+        <p className="text-sm text-gray-600 max-w-2xl">
+          Each email is sent from your business email address to the customer on the order, once per order.
+          Reminders and thank you emails are sent each morning.
+        </p>
+        <div className="shrink-0 ml-4">{saveButton}</div>
+      </div>
+
+      {isLoading && <p className="text-sm text-gray-500">Loading automations...</p>}
+
+      {automations.map((automation) => {
+        const timing = customerAutomationTiming[automation.type];
+
+        return (
+          <Card key={automation.type} className="mb-8">
+            <CardHeader className="flex flex-row items-start justify-between space-y-0">
+              <div className="space-y-1.5">
+                <CardTitle>{customerAutomationLabels[automation.type]}</CardTitle>
+                <CardDescription>{customerAutomationDescriptions[automation.type]}</CardDescription>
+              </div>
+              <div className="flex items-center gap-4">
+                <Button variant="outline" size="sm" onClick={() => setPreviewType(automation.type)}>
+                  <EyeIcon className="h-4 w-4 mr-2" /> Preview
+                </Button>
+                <Switch
+                  checked={automation.enabled}
+                  onCheckedChange={(enabled) => update(automation.type, { enabled })}
+                  aria-label={`Send ${customerAutomationLabels[automation.type].toLowerCase()} emails`}
+                />
+              </div>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {timing && (
+                <div className="flex items-center gap-2 text-sm">
+                  <span>Send</span>
+                  <Input
+                    type="number"
+                    min={0}
+                    max={MAX_AUTOMATION_DAYS}
+                    className="w-20"
+                    value={Number.isNaN(automation.days) ? "" : automation.days}
+                    onChange={(e) => update(automation.type, { days: parseInt(e.target.value) })}
+                  />
+                  <span>{timingLabels[timing]}</span>
+                </div>
+              )}
+              {automation.type === "reviewRequest" && (
+                <div className="space-y-2">
+                  <Label htmlFor="review-url">Review link</Label>
+                  <Input
+                    id="review-url"
+                    placeholder="https://"
+                    value={reviewUrl}
+                    onChange={(e) => setReviewUrl(e.target.value)}
+                  />
+                  <p className="text-sm text-gray-500">
+                    Where customers can leave you a review, filled in for {"{{business.reviewLink}}"}
+                  </p>
+                </div>
+              )}
+              <div className="space-y-2">
+                <Label htmlFor={`${automation.type}-subject`}>Subject</Label>
+                <Input
+                  id={`${automation.type}-subject`}
+                  value={automation.subject}
+                  onChange={(e) => update(automation.type, { subject: e.target.value })}
+                />
+              </div>
+              <Textarea
+                className="min-h-[200px] font-mono text-sm"
+                value={automation.body}
+                onChange={(e) => update(automation.type, { body: e.target.value })}
+              />
+              {errors[automation.type]?.length > 0 && (
+                <ul className="text-sm text-red-500 space-y-1">
+                  {errors[automation.type].map((error) => (
+                    <li key={error}>{error}</li>
+                  ))}
+                </ul>
+              )}
+              <PlaceholderReference type={automation.type} />
+            </CardContent>
+          </Card>
+        );
+      })}
+
+      <div className="flex justify-end mb-10">{saveButton}</div>
+
+      <Dialog open={previewType !== null} onOpenChange={(open) => !open && setPreviewType(null)}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>{previewType ? customerAutomationLabels[previewType] : ""} Preview</DialogTitle>
+            <DialogDescription>
+              {preview?.sample
+                ? "You have no orders yet, so sample details are shown."
+                : "The email filled in with your latest order's details. No email is sent."}
+            </DialogDescription>
+          </DialogHeader>
+          {isPreviewError ? (
+            <p className="text-sm text-red-500">The preview could not be loaded. Please try again.</p>
+          ) : isPreviewLoading || !preview ? (
+            <p className="text-sm text-gray-500">Loading preview...</p>
+          ) : (
+            <div
+              className="max-h-[60vh] overflow-y-auto rounded-md border p-4 text-sm [&_p]:mb-3"
+              dangerouslySetInnerHTML={{ __html: preview.html }}
+            />
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,420 @@
+import React from "react";
+import { useQuery } from "@tanstack/react-query";
+import { useParams } from "wouter";
+import { Loader2, Upload, CheckCircle } from "lucide-react";
+import type { PricingBreakdown } from "@shared/pricing";
+import { paymentStateLabels, type LedgerInstalmentStatus, type PaymentState } from "@shared/payment-ledger";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { formatDate } from "@/lib/utils";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import PortalPaymentDialog, { type PortalPaymentProviders } from "@/components/portal/portal-payment-dialog";
+import type { TippingSettings } from "@shared/tipping";
+
+interface PortalView {
+  type: "order" | "quote";
+  expiresAt: string;
+  business: { name: string; email: string | null; phone: string | null; logoUrl: string | null };
+  currency: string;
+  terms: string | null;
+  termsAcceptedAt: string | null;
+  quote: { quoteNumber: string; status: string; expiryDate: string | null } | null;
+  order: { orderNumber: string; status: string } | null;
+  customer: { firstName: string; lastName: string } | null;
+  details: {
+    eventType: string;
+    eventDate: string;
+    theme: string | null;
+    deliveryType: string;
+    deliveryDetails: string | null;
+    deliveryTime: string | null;
+    notes: string | null;
+    imageUrls: string[];
+  };
+  items: { name: string; description: string | null; quantity: number; unitPrice: string; price: string }[];
+  pricing: PricingBreakdown;
+  scheduledPayments: LedgerInstalmentStatus[];
+  payments: { id: number; amount: string; provider: string; createdAt: string }[];
+  amountPaid: number;
+  balance: number | null;
+  paymentState: PaymentState | null;
+  paymentProviders: PortalPaymentProviders;
+  tipping: TippingSettings | null;
+}
+
+const closedQuoteStatuses = ["Accepted", "Declined", "Expired", "Cancelled"];
+
+/**
+ * Public customer portal for a single order or quote, reached through a
+ * signed link
+ */
+export default function CustomerPortal() {
+  const { token } = useParams<{ token: string }>();
+  const { toast } = useToast();
+  const portalUrl = `/api/portal/${token}`;
+  const [agreeToTerms, setAgreeToTerms] = React.useState(false);
+  const [isSubmitting, setIsSubmitting] = React.useState(false);
+  const [payment, setPayment] = React.useState<{ amount: number; scheduledPaymentId?: number } | null>(null);
+  const fileInputRef = React.useRef<HTMLInputElement>(null);
+
+  const { data: view, isLoading, error } = useQuery<PortalView>({
+    queryKey: [portalUrl],
+    refetchOnWindowFocus: false,
+  });
+
+  const formatMoney = (amount: number | string) =>
+    new Intl.NumberFormat("en-US", { style: "currency", currency: view?.currency || "USD" })
+      .format(typeof amount === "string" ? parseFloat(amount) : amount);
+
+  const refresh = () => queryClient.invalidateQueries({ queryKey: [portalUrl] });
+
+  // Run a portal action, showing a toast when it succeeds or fails
+  const runAction = async (action: () => Promise<unknown>, successTitle: string, successDescription: string) => {
+    setIsSubmitting(true);
+    try {
+      await action();
+      toast({ title: successTitle, description: successDescription });
+      refresh();
+    } catch (error: any) {
+      const message = String(error.message || "").replace(/^\d+: /, "");
+      let description = "Something went wrong. Please try again.";
+      try {
+        description = JSON.parse(message).error || description;
+      } catch {
+        // Not a JSON error body
+      }
+      toast({ title: "Error", description, variant: "destructive" });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const acceptTerms = () =>
+    runAction(
+      () => apiRequest(`${portalUrl}/terms`, { method: "POST" }),
+      "Terms Accepted",
+      "Thank you for accepting our terms."
+    );
+
+  const acceptQuote = () =>
+    runAction(
+      () => apiRequest(`${portalUrl}/accept`, { method: "POST", body: { acceptTerms: agreeToTerms } }),
+      "Quote Accepted",
+      "Thank you! Your order has been confirmed."
+    );
+
+  const declineQuote = () => {
+    if (!window.confirm("Are you sure you want to decline this quote?")) return;
+    runAction(
+      () => apiRequest(`${portalUrl}/decline`, { method: "POST" }),
+      "Quote Declined",
+      "We've let the business know."
+    );
+  };
+
+  const uploadImages = (files: FileList | null) => {
+    if (!files || files.length === 0) return;
+
+    const formData = new FormData();
+    Array.from(files).forEach((file) => formData.append("images", file));
+
+    runAction(
+      async () => {
+        const response = await fetch(`${portalUrl}/images`, { method: "POST", body: formData });
+        if (!response.ok) {
+          throw new Error(`${response.status}: ${await response.text()}`);
+        }
+      },
+      "Photos Uploaded",
+      "Your inspiration photos have been added."
+    );
+
+    if (fileInputRef.current) {
+      fileInputRef.current.value = "";
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex h-screen items-center justify-center">
+        <Loader2 className="h-8 w-8 animate-spin text-gray-400" />
+      </div>
+    );
+  }
+
+  if (error || !view) {
+    return (
+      <div className="flex h-screen items-center justify-center p-6">
+        <Card className="max-w-md">
+          <CardContent className="p-6 text-center">
+            <h1 className="text-xl font-semibold mb-2">Link unavailable</h1>
+            <p className="text-gray-500">
+              This link is invalid or has expired. Please contact the business for a new link.
+            </p>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  const isOpenQuote = !view.order && !!view.quote && !closedQuoteStatuses.includes(view.quote.status);
+  const needsTerms = !!view.terms && !view.termsAcceptedAt;
+  const title = view.order ? `Order #${view.order.orderNumber}` : `Quote #${view.quote?.quoteNumber}`;
+  const status = view.order?.status || view.quote?.status;
+
+  return (
+    <div className="min-h-screen bg-gray-50 py-8 px-4">
+      <div className="mx-auto max-w-3xl space-y-6">
+        {/* Business header */}
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-4">
+            {view.business.logoUrl && (
+              <img src={view.business.logoUrl} alt={view.business.name} className="h-14 w-auto object-contain" />
+            )}
+            <div>
+              <h1 className="text-2xl font-semibold text-gray-900">{view.business.name}</h1>
+              <p className="text-sm text-gray-500">
+                {[view.business.email, view.business.phone].filter(Boolean).join(" · ")}
+              </p>
+            </div>
+          </div>
+        </div>
+
+        {/* Summary */}
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between">
+            <CardTitle>{title}</CardTitle>
+            {status && <Badge variant="outline">{status}</Badge>}
+          </CardHeader>
+          <CardContent className="grid grid-cols-1 gap-3 text-sm sm:grid-cols-2">
+            {view.customer && (
+              <div><span className="text-gray-500">Customer:</span> {view.customer.firstName} {view.customer.lastName}</div>
+            )}
+            <div><span className="text-gray-500">Event:</span> {view.details.eventType}</div>
+            <div><span className="text-gray-500">Date:</span> {formatDate(view.details.eventDate)}</div>
+            {view.details.theme && <div><span className="text-gray-500">Theme:</span> {view.details.theme}</div>}
+            <div>
+              <span className="text-gray-500">{view.details.deliveryType}:</span>{" "}
+              {[view.details.deliveryTime, view.details.deliveryDetails].filter(Boolean).join(" – ") || "To be arranged"}
+            </div>
+            {view.quote?.expiryDate && isOpenQuote && (
+              <div><span className="text-gray-500">Quote valid until:</span> {formatDate(view.quote.expiryDate)}</div>
+            )}
+            {view.details.notes && <div className="sm:col-span-2 whitespace-pre-wrap">{view.details.notes}</div>}
+          </CardContent>
+        </Card>
+
+        {/* Items */}
+        <Card>
+          <CardHeader>
+            <CardTitle>Items</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Item</TableHead>
+                  <TableHead className="text-right">Qty</TableHead>
+                  <TableHead className="text-right">Price</TableHead>
+                  <TableHead className="text-right">Total</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {view.items.map((item, index) => (
+                  <TableRow key={index}>
+                    <TableCell>
+                      <div className="font-medium">{item.name}</div>
+                      {item.description && <div className="text-xs text-gray-500">{item.description}</div>}
+                    </TableCell>
+                    <TableCell className="text-right">{item.quantity}</TableCell>
+                    <TableCell className="text-right">{formatMoney(view.pricing.lines[index]?.unitPrice ?? item.unitPrice)}</TableCell>
+                    <TableCell className="text-right">{formatMoney(view.pricing.lines[index]?.lineTotal ?? item.price)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+            <div className="mt-4 ml-auto max-w-xs space-y-1 text-sm">
+              <div className="flex justify-between"><span>Subtotal</span><span>{formatMoney(view.pricing.subtotal)}</span></div>
+              {view.pricing.discountAmount > 0 && (
+                <div className="flex justify-between"><span>Discount</span><span>-{formatMoney(view.pricing.discountAmount)}</span></div>
+              )}
+              {view.pricing.setupFee > 0 && (
+                <div className="flex justify-between"><span>Setup / Delivery</span><span>{formatMoney(view.pricing.setupFee)}</span></div>
+              )}
+              {view.pricing.taxTotal > 0 && (
+                <div className="flex justify-between"><span>Tax</span><span>{formatMoney(view.pricing.taxTotal)}</span></div>
+              )}
+              <div className="flex justify-between border-t pt-1 font-semibold">
+                <span>Total</span><span>{formatMoney(view.pricing.total)}</span>
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+
+        {/* Terms */}
+        {view.terms && (
+          <Card>
+            <CardHeader>
+              <CardTitle>Terms &amp; Conditions</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="max-h-60 overflow-y-auto whitespace-pre-wrap rounded border bg-white p-3 text-sm text-gray-700">
+                {view.terms}
+              </div>
+              {view.termsAcceptedAt ? (
+                <p className="flex items-center gap-2 text-sm text-green-700">
+                  <CheckCircle className="h-4 w-4" /> Accepted on {formatDate(view.termsAcceptedAt)}
+                </p>
+              ) : isOpenQuote ? (
+                <label className="flex items-center gap-2 text-sm">
+                  <Checkbox checked={agreeToTerms} onCheckedChange={(checked) => setAgreeToTerms(checked === true)} />
+                  I have read and accept the terms &amp; conditions
+                </label>
+              ) : (
+                <Button onClick={acceptTerms} disabled={isSubmitting}>Accept Terms</Button>
+              )}
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Quote response */}
+        {isOpenQuote && (
+          <Card>
+            <CardContent className="flex flex-col gap-3 p-6 sm:flex-row sm:justify-end">
+              <Button variant="outline" onClick={declineQuote} disabled={isSubmitting}>
+                Decline Quote
+              </Button>
+              <Button
+                className="bg-green-600 hover:bg-green-700 text-white"
+                onClick={acceptQuote}
+                disabled={isSubmitting || (needsTerms && !agreeToTerms)}
+              >
+                Accept Quote
+              </Button>
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Payments */}
+        {view.order && (
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between">
+              <CardTitle>Payments</CardTitle>
+              {view.paymentState && <Badge variant="outline">{paymentStateLabels[view.paymentState]}</Badge>}
+            </CardHeader>
+            <CardContent className="space-y-4 text-sm">
+              {view.scheduledPayments.length > 0 && (
+                <div className="space-y-2">
+                  {view.scheduledPayments.map((scheduled) => (
+                    <div key={scheduled.id} className="flex items-center justify-between rounded border p-3">
+                      <div>
+                        <div className="font-medium">{scheduled.description || "Payment"}</div>
+                        <div className={scheduled.isOverdue ? "text-red-600" : "text-gray-500"}>
+                          {scheduled.isOverdue ? "Overdue since" : "Due"} {formatDate(scheduled.dueDate)}
+                        </div>
+                      </div>
+                      <div className="flex items-center gap-3">
+                        <span className="font-medium">{formatMoney(scheduled.amount)}</span>
+                        {scheduled.isPaid ? (
+                          <Badge variant="outline" className="text-green-700">Paid</Badge>
+                        ) : (
+                          <Button
+                            size="sm"
+                            onClick={() => setPayment({ amount: scheduled.amount, scheduledPaymentId: scheduled.id })}
+                          >
+                            Pay
+                          </Button>
+                        )}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              {view.payments.length > 0 && (
+                <div className="space-y-1">
+                  {view.payments.map((paid) => (
+                    <div key={paid.id} className="flex justify-between text-gray-600">
+                      <span>Paid {formatDate(paid.createdAt)}</span>
+                      <span>{formatMoney(paid.amount)}</span>
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              <div className="flex items-center justify-between border-t pt-3">
+                <div>
+                  <div className="text-gray-500">Paid {formatMoney(view.amountPaid)}</div>
+                  <div className="text-lg font-semibold">Balance {formatMoney(view.balance || 0)}</div>
+                </div>
+                {(view.balance || 0) > 0 && (
+                  <Button onClick={() => setPayment({ amount: view.balance || 0 })}>Pay Balance</Button>
+                )}
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Inspiration photos */}
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between">
+            <CardTitle>Photos</CardTitle>
+            <Button variant="outline" size="sm" onClick={() => fileInputRef.current?.click()} disabled={isSubmitting}>
+              <Upload className="mr-2 h-4 w-4" /> Upload Inspiration
+            </Button>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept="image/*"
+              multiple
+              className="hidden"
+              onChange={(e) => uploadImages(e.target.files)}
+            />
+          </CardHeader>
+          <CardContent>
+            {view.details.imageUrls.length === 0 ? (
+              <p className="text-sm text-gray-500">No photos yet. Upload any inspiration images for your order.</p>
+            ) : (
+              <div className="grid grid-cols-2 gap-3 sm:grid-cols-3">
+                {view.details.imageUrls.map((url) => (
+                  <a key={url} href={url} target="_blank" rel="noreferrer">
+                    <img src={url} alt="" className="h-32 w-full rounded object-cover" />
+                  </a>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        <p className="text-center text-xs text-gray-400">
+          This link expires on {formatDate(view.expiresAt)}.
+        </p>
+      </div>
+
+      {payment && (
+        <PortalPaymentDialog
+          token={token}
+          isOpen={!!payment}
+          onClose={() => setPayment(null)}
+          onPaid={refresh}
+          amount={payment.amount}
+          formatMoney={formatMoney}
+          scheduledPaymentId={payment.scheduledPaymentId}
+          providers={view.paymentProviders}
+          tipping={view.tipping}
+        />
+      )}
+    </div>
+  );
+}
@@ -2,9 +2,27 @@ import React from "react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { DollarSignIcon, FileTextIcon, Clock4Icon, ClipboardCheckIcon } from "lucide-react";
 import { useQuery } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { FormatCurrency } from "@/components/ui/format-currency";
+import { formatDate } from "@/lib/utils";
+import type { LedgerInstalmentStatus } from "@shared/payment-ledger";
+
+interface DashboardStats {
+  totalOrders: number;
+  totalRevenue: string;
+  upcomingOrders: number;
+  pendingTasks: number;
+  outstandingBalance: string;
+  overdueAmount: string;
+  scheduledPayments: (LedgerInstalmentStatus & {
+    orderId: number;
+    orderNumber: string;
+    customerName: string;
+  })[];
+}
 
 const Dashboard = () => {
-  const { data: stats, isLoading } = useQuery({
+  const { data: stats, isLoading } = useQuery<DashboardStats>({
     queryKey: ["/api/dashboard/stats"],
   });
 
@@ -70,7 +88,13 @@ const Dashboard = () => {
       {/* Scheduled Payments */}
       <Card className="bg-white border-gray-200">
         <CardHeader className="pb-4">
-          <CardTitle className="text-lg font-semibold text-gray-900">Scheduled Payments</CardTitle>
+          <div className="flex items-center justify-between">
+            <CardTitle className="text-lg font-semibold text-gray-900">Scheduled Payments</CardTitle>
+            <div className="text-sm text-gray-600 space-x-4">
+              <span>Outstanding: <FormatCurrency amount={stats?.outstandingBalance || 0} className="font-medium text-gray-900" /></span>
+              <span>Overdue: <FormatCurrency amount={stats?.overdueAmount || 0} className="font-medium text-red-600" /></span>
+            </div>
+          </div>
         </CardHeader>
         <CardContent>
           <div className="space-y-3">
@@ -80,18 +104,22 @@ const Dashboard = () => {
               <span>Due Date</span>
               <span>Value</span>
             </div>
-            <div className="grid grid-cols-4 gap-4 text-sm py-2">
-              <span className="text-gray-900">#24 · Emily Parker</span>
-              <span className="text-gray-600">Booking Fee</span>
-              <span className="text-gray-600">Sun, 25 May 2025</span>
-              <span className="text-gray-900">$50.00</span>
-            </div>
-            <div className="grid grid-cols-4 gap-4 text-sm py-2">
-              <span className="text-gray-900">#25 · Shane Frankiel</span>
-              <span className="text-gray-600">Booking Fee</span>
-              <span className="text-gray-600">Sun, 25 May 2025</span>
-              <span className="text-gray-900">$200.00</span>
-            </div>
+            {stats?.scheduledPayments?.length ? (
+              stats.scheduledPayments.map((payment) => (
+                <Link key={payment.id} href={`/orders/${payment.orderId}`}>
+                  <div className="grid grid-cols-4 gap-4 text-sm py-2 cursor-pointer hover:bg-gray-50">
+                    <span className="text-gray-900">#{payment.orderNumber} · {payment.customerName}</span>
+                    <span className="text-gray-600">{payment.description || "Payment"}</span>
+                    <span className={payment.isOverdue ? "text-red-600" : "text-gray-600"}>
+                      {formatDate(payment.dueDate)}{payment.isOverdue && " (Overdue)"}
+                    </span>
+                    <FormatCurrency amount={payment.amount} className="text-gray-900" />
+                  </div>
+                </Link>
+              ))
+            ) : (
+              <p className="text-sm text-gray-500 py-2">No payments due in the next 30 days</p>
+            )}
           </div>
         </CardContent>
       </Card>
@@ -140,8 +168,8 @@ const Dashboard = () => {
             <DollarSignIcon className="h-4 w-4 text-gray-600" />
           </CardHeader>
           <CardContent>
-            <div className="text-2xl font-bold text-gray-900">${stats?.totalRevenue || 0}</div>
-            <p className="text-xs text-gray-600">From completed orders</p>
+            <div className="text-2xl font-bold text-gray-900"><FormatCurrency amount={stats?.totalRevenue || 0} /></div>
+            <p className="text-xs text-gray-600">From payments received</p>
           </CardContent>
         </Card>
 
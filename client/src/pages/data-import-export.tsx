@@ -20,6 +20,7 @@ import {
 } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { useLocation } from "wouter";
+import { AccountingExport } from "@/components/export/accounting-export";
 
 export default function DataImportExport() {
   const [, setLocation] = useLocation();
@@ -663,6 +664,10 @@ export default function DataImportExport() {
                   </div>
                 </div>
               </div>
+
+              <div className="mt-6">
+                <AccountingExport />
+              </div>
             </div>
           </TabsContent>
         </Tabs>
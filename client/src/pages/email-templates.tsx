@@ -1,177 +1,118 @@
-import React, { useState, useEffect } from "react";
-import { useMutation } from "@tanstack/react-query";
-import { ChevronLeftIcon } from "lucide-react";
+import React, { useState, useEffect, useMemo } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { ChevronLeftIcon, EyeIcon } from "lucide-react";
 import { Link } from "wouter";
 
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Textarea } from "@/components/ui/textarea";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import PlaceholderReference from "@/components/email/placeholder-reference";
 import { useToast } from "@/hooks/use-toast";
 import { useSettings } from "@/contexts/settings-context";
-
-import { Separator } from "@/components/ui/separator";
 import { apiRequest } from "@/lib/queryClient";
-
-// Default template texts
-const defaultTemplates = {
-  quoteTemplate: `Hi
-
-Please find your quote attached.
-
-If you have any trouble viewing it, please contact us.
-
-Thanks again`,
-
-  invoiceTemplate: `Hi
-
-Please find your invoice attached.
-
-To make an online payment for your order, please click on the link below. If you have any trouble viewing it, please contact us.
-
-Thanks again`,
-
-  paymentReminderTemplate: `Hi
-
-This is a friendly reminder that there is a scheduled payment due for your order.
-
-I'd appreciate it if you could make the payment as soon as possible. If you have any questions or concerns please feel free to contact me.
-
-Thanks again`,
-
-  paymentReceiptTemplate: `Hi
-
-Please find your payment receipt attached.
-
-Thank you for your business. If you have any questions or concerns please feel free to contact me.
-
-Thanks again`,
-
-  enquiryMessageTemplate: `Hi
-
-We're reviewing your enquiry, and we'll contact you as soon as possible.
-
-Thank you for your business. If you have any questions or concerns please feel free to contact me.
-
-Thanks again`
+import type { OrderWithItems } from "@/types";
+import {
+  defaultEmailTemplates,
+  emailTemplateFields,
+  emailTemplateLabels,
+  emailTemplateTypes,
+  validateEmailTemplate,
+  type EmailTemplateType,
+} from "@shared/email-templates";
+
+type Templates = Record<EmailTemplateType, string>;
+
+interface EmailPreview {
+  text: string;
+  html: string;
+  errors: string[];
+  sample: boolean;
+}
+
+const templateDescriptions: Record<EmailTemplateType, string> = {
+  quote: "Add your default text to be used when sending out a quote.",
+  invoice: "Add your default text to be used when sending out an invoice.",
+  paymentReminder: "Add your default text to be used when sending out a scheduled payment reminder.",
+  paymentReceipt: "Add your default text to be used when sending out a payment receipt.",
+  enquiryMessage: "Add your default text to be used when sending a message reply for an enquiry.",
 };
 
+// The templates as last saved, with defaults for any the user hasn't written
+const getSavedTemplates = (settings: any): Templates =>
+  Object.fromEntries(
+    emailTemplateTypes.map((type) => [type, settings?.[emailTemplateFields[type]] || defaultEmailTemplates[type]])
+  ) as Templates;
+
 export default function EmailTemplates() {
   const { settings, refetchSettings } = useSettings() || { settings: {}, refetchSettings: async () => {} };
   const { toast } = useToast();
 
-  // Template states
-  const [quoteTemplate, setQuoteTemplate] = useState("");
-  const [invoiceTemplate, setInvoiceTemplate] = useState("");
-  const [paymentReminderTemplate, setPaymentReminderTemplate] = useState("");
-  const [paymentReceiptTemplate, setPaymentReceiptTemplate] = useState("");
-  const [enquiryMessageTemplate, setEnquiryMessageTemplate] = useState("");
-  
-  // Loading and change tracking
-  const [isLoading, setIsLoading] = useState(false);
-  const [hasChanges, setHasChanges] = useState(false);
+  const savedTemplates = useMemo(() => getSavedTemplates(settings), [settings]);
+  const [templates, setTemplates] = useState<Templates>(savedTemplates);
+
+  // Preview of the template being edited
+  const [previewType, setPreviewType] = useState<EmailTemplateType | null>(null);
+  const [previewOrderId, setPreviewOrderId] = useState("latest");
 
   // Force fetch fresh data when the component mounts
   useEffect(() => {
-    const fetchFreshData = async () => {
-      console.log("Fetching fresh email template data...");
-      if (refetchSettings) {
-        await refetchSettings();
-      }
-    };
-    
-    fetchFreshData();
+    if (refetchSettings) {
+      refetchSettings();
+    }
   }, []);
 
   // Initialize templates from settings or defaults
   useEffect(() => {
-    if (settings) {
-      console.log("Loading email templates from settings:", settings);
-      // Use bracket notation to access properties that might be using snake_case in the response
-      setQuoteTemplate(settings.quoteEmailTemplate || defaultTemplates.quoteTemplate);
-      setInvoiceTemplate(settings.invoiceEmailTemplate || defaultTemplates.invoiceTemplate);
-      setPaymentReminderTemplate(settings.paymentReminderTemplate || defaultTemplates.paymentReminderTemplate);
-      setPaymentReceiptTemplate(settings.paymentReceiptTemplate || defaultTemplates.paymentReceiptTemplate);
-      setEnquiryMessageTemplate(settings.enquiryMessageTemplate || defaultTemplates.enquiryMessageTemplate);
-    }
-  }, [settings]);
+    setTemplates(savedTemplates);
+  }, [savedTemplates]);
+
+  const errors = useMemo(
+    () => Object.fromEntries(
+      emailTemplateTypes.map((type) => [type, validateEmailTemplate(type, templates[type])])
+    ) as Record<EmailTemplateType, string[]>,
+    [templates]
+  );
 
-  // Track changes
-  useEffect(() => {
-    if (settings) {
-      // Check both camelCase and snake_case fields
-      const hasQuoteChanged = 
-        (settings.quote_email_template || settings.quoteEmailTemplate) !== quoteTemplate;
-      const hasInvoiceChanged = 
-        (settings.invoice_email_template || settings.invoiceEmailTemplate) !== invoiceTemplate;
-      const hasReminderChanged = 
-        (settings.payment_reminder_template || settings.paymentReminderTemplate) !== paymentReminderTemplate;
-      const hasReceiptChanged = 
-        (settings.payment_receipt_template || settings.paymentReceiptTemplate) !== paymentReceiptTemplate;
-      const hasEnquiryChanged = 
-        (settings.enquiry_message_template || settings.enquiryMessageTemplate) !== enquiryMessageTemplate;
-      
-      setHasChanges(
-        hasQuoteChanged || 
-        hasInvoiceChanged || 
-        hasReminderChanged || 
-        hasReceiptChanged || 
-        hasEnquiryChanged
-      );
-    }
-  }, [
-    settings, 
-    quoteTemplate, 
-    invoiceTemplate, 
-    paymentReminderTemplate, 
-    paymentReceiptTemplate, 
-    enquiryMessageTemplate
-  ]);
+  const hasChanges = emailTemplateTypes.some((type) => templates[type] !== savedTemplates[type]);
+  const hasErrors = emailTemplateTypes.some((type) => errors[type].length > 0);
 
-  // Mutation for saving changes
+  const { data: orders = [] } = useQuery<OrderWithItems[]>({
+    queryKey: ["/api/orders"],
+    enabled: previewType !== null,
+  });
+
+  const previewTemplate = previewType ? templates[previewType] : "";
+  const { data: preview, isFetching: isPreviewLoading, isError: isPreviewError } = useQuery<EmailPreview>({
+    queryKey: ["/api/email-templates/preview", previewType, previewTemplate, previewOrderId],
+    queryFn: () =>
+      apiRequest("/api/email-templates/preview", {
+        method: "POST",
+        body: {
+          type: previewType,
+          template: previewTemplate,
+          orderId: previewOrderId === "latest" ? null : Number(previewOrderId),
+        },
+      }),
+    enabled: previewType !== null,
+  });
 
+  // Mutation for saving changes
   const saveTemplatesMutation = useMutation({
-    mutationFn: async (data: any) => {
-      setIsLoading(true);
-      try {
-        // Now using our specialized templates endpoint
-        console.log('Saving email templates:', data);
-        const response = await fetch('/api/settings/templates', {
-          method: 'PATCH',
-          headers: {
-            'Content-Type': 'application/json',
-          },
-          body: JSON.stringify(data)
-        });
-        
-        if (!response.ok) {
-          throw new Error(`Failed to save templates: ${response.statusText}`);
-        }
-        
-        // Check if the response has content before trying to parse as JSON
-        const contentType = response.headers.get('content-type');
-        if (contentType && contentType.includes('application/json')) {
-          const result = await response.json();
-          setIsLoading(false);
-          return result;
-        } else {
-          // If not JSON or empty response, just return a success object
-          setIsLoading(false);
-          return { success: true };
-        }
-      } catch (error) {
-        setIsLoading(false);
-        throw error;
-      }
-    },
+    mutationFn: async (data: Templates) =>
+      await apiRequest("/api/settings/templates", {
+        method: "PATCH",
+        body: Object.fromEntries(emailTemplateTypes.map((type) => [emailTemplateFields[type], data[type]])),
+      }),
     onSuccess: () => {
       // Refetch settings to update context with latest data
       if (refetchSettings) {
         refetchSettings();
       }
-      setHasChanges(false);
       toast({
-        title: "Templates saved",
-        description: "Your email templates have been updated successfully.",
+        title: "Templates Saved",
+        description: "Your email templates have been saved successfully.",
       });
     },
     onError: (error) => {
@@ -185,55 +126,20 @@ export default function EmailTemplates() {
   });
 
   const handleSaveChanges = () => {
-    // Create a clean templates-only object for the API
-    const templateData = {
-      quoteEmailTemplate: quoteTemplate,
-      invoiceEmailTemplate: invoiceTemplate, 
-      paymentReminderTemplate: paymentReminderTemplate,
-      paymentReceiptTemplate: paymentReceiptTemplate,
-      enquiryMessageTemplate: enquiryMessageTemplate
-    };
-    
-    console.log('Saving email templates:', templateData);
-    
-    // Use direct fetch to the specialized endpoint to avoid ORM date issues
-    fetch('/api/settings/templates', {
-      method: 'PATCH',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify(templateData),
-    })
-      .then(response => {
-        if (!response.ok) {
-          throw new Error(`Server returned ${response.status}`);
-        }
-        // Check if the response has content before trying to parse as JSON
-        const contentType = response.headers.get('content-type');
-        if (contentType && contentType.includes('application/json')) {
-          return response.json();
-        } else {
-          // If not JSON or empty response, just return a success object
-          return { success: true };
-        }
-      })
-      .then(data => {
-        console.log('Templates saved successfully:', data);
-        toast({
-          title: "Templates Saved",
-          description: "Your email templates have been saved successfully.",
-        });
-      })
-      .catch(error => {
-        console.error('Error saving templates:', error);
-        toast({
-          title: "Error",
-          description: "There was a problem saving your email templates. Please try again.",
-          variant: "destructive",
-        });
+    if (hasErrors) {
+      toast({
+        title: "Check your templates",
+        description: "Fix the highlighted placeholders before saving.",
+        variant: "destructive",
       });
+      return;
+    }
+
+    saveTemplatesMutation.mutate(templates);
   };
 
+  const isLoading = saveTemplatesMutation.isPending;
+
   return (
     <div className="container mx-auto py-6 max-w-5xl">
       <div className="flex items-center mb-4">
@@ -251,130 +157,92 @@ export default function EmailTemplates() {
       <div className="flex justify-between mb-8 items-center bg-gray-50 p-4 rounded-md border">
         <p className="text-sm text-gray-600 max-w-2xl">
           These templates will be used as the default text when sending emails from the system.
-          You will be able to edit the content before sending each email.
+          Placeholders such as {"{{contact.firstName}}"} are filled in with the order, customer and
+          payment details when each email is sent.
         </p>
-        <Button 
-          onClick={handleSaveChanges} 
-          disabled={!hasChanges || isLoading}
+        <Button
+          onClick={handleSaveChanges}
+          disabled={!hasChanges || hasErrors || isLoading}
           className="shrink-0 ml-4"
         >
           {isLoading ? "Saving..." : "Save Changes"}
         </Button>
       </div>
 
-      {/* Quote Template */}
-      <Card className="mb-8">
-        <CardHeader>
-          <CardTitle>Quote Template</CardTitle>
-          <CardDescription>
-            Add your default text to be used when sending out a quote.
-          </CardDescription>
-        </CardHeader>
-        <CardContent>
-          <Textarea
-            className="min-h-[200px]"
-            placeholder="Enter your quote email template"
-            value={quoteTemplate}
-            onChange={(e) => setQuoteTemplate(e.target.value)}
-          />
-          <p className="text-sm text-gray-500 mt-2">
-            * You will be able to adjust the text before sending an email out.
-          </p>
-        </CardContent>
-      </Card>
-
-      {/* Invoice Template */}
-      <Card className="mb-8">
-        <CardHeader>
-          <CardTitle>Invoice Template</CardTitle>
-          <CardDescription>
-            Add your default text to be used when sending out an invoice.
-          </CardDescription>
-        </CardHeader>
-        <CardContent>
-          <Textarea
-            className="min-h-[200px]"
-            placeholder="Enter your invoice email template"
-            value={invoiceTemplate}
-            onChange={(e) => setInvoiceTemplate(e.target.value)}
-          />
-          <p className="text-sm text-gray-500 mt-2">
-            * You will be able to adjust the text before sending an email out.
-          </p>
-        </CardContent>
-      </Card>
-
-      {/* Payment Reminder Template */}
-      <Card className="mb-8">
-        <CardHeader>
-          <CardTitle>Payment Reminder Template</CardTitle>
-          <CardDescription>
-            Add your default text to be used when sending out a scheduled payment reminder.
-          </CardDescription>
-        </CardHeader>
-        <CardContent>
-          <Textarea
-            className="min-h-[200px]"
-            placeholder="Enter your payment reminder template"
-            value={paymentReminderTemplate}
-            onChange={(e) => setPaymentReminderTemplate(e.target.value)}
-          />
-          <p className="text-sm text-gray-500 mt-2">
-            * You will be able to adjust the text before sending an email out.
-          </p>
-        </CardContent>
-      </Card>
-
-      {/* Payment Receipt Template */}
-      <Card className="mb-8">
-        <CardHeader>
-          <CardTitle>Payment Receipt Template</CardTitle>
-          <CardDescription>
-            Add your default text to be used when sending out a payment receipt.
-          </CardDescription>
-        </CardHeader>
-        <CardContent>
-          <Textarea
-            className="min-h-[200px]"
-            placeholder="Enter your payment receipt template"
-            value={paymentReceiptTemplate}
-            onChange={(e) => setPaymentReceiptTemplate(e.target.value)}
-          />
-          <p className="text-sm text-gray-500 mt-2">
-            * You will be able to adjust the text before sending an email out.
-          </p>
-        </CardContent>
-      </Card>
-
-      {/* Enquiry Message Template */}
-      <Card className="mb-8">
-        <CardHeader>
-          <CardTitle>Enquiry Message Template</CardTitle>
-          <CardDescription>
-            Add your default text to be used when sending a message reply for an enquiry.
-          </CardDescription>
-        </CardHeader>
-        <CardContent>
-          <Textarea
-            className="min-h-[200px]"
-            placeholder="Enter your enquiry message template"
-            value={enquiryMessageTemplate}
-            onChange={(e) => setEnquiryMessageTemplate(e.target.value)}
-          />
-          <p className="text-sm text-gray-500 mt-2">
-            * You will be able to adjust the text before sending an email out.
-          </p>
-        </CardContent>
-      </Card>
+      {emailTemplateTypes.map((type) => (
+        <Card key={type} className="mb-8">
+          <CardHeader className="flex flex-row items-start justify-between space-y-0">
+            <div className="space-y-1.5">
+              <CardTitle>{emailTemplateLabels[type]} Template</CardTitle>
+              <CardDescription>{templateDescriptions[type]}</CardDescription>
+            </div>
+            <Button variant="outline" size="sm" onClick={() => setPreviewType(type)}>
+              <EyeIcon className="h-4 w-4 mr-2" /> Preview
+            </Button>
+          </CardHeader>
+          <CardContent>
+            <Textarea
+              className="min-h-[200px] font-mono text-sm"
+              placeholder={`Enter your ${emailTemplateLabels[type].toLowerCase()} email template`}
+              value={templates[type]}
+              onChange={(e) => setTemplates({ ...templates, [type]: e.target.value })}
+            />
+            {errors[type].length > 0 && (
+              <ul className="text-sm text-red-500 mt-2 space-y-1">
+                {errors[type].map((error) => (
+                  <li key={error}>{error}</li>
+                ))}
+              </ul>
+            )}
+            <PlaceholderReference type={type} />
+          </CardContent>
+        </Card>
+      ))}
 
       <div className="flex justify-end mb-10">
-        <Button 
-          onClick={handleSaveChanges} 
-          disabled={!hasChanges || isLoading}
+        <Button
+          onClick={handleSaveChanges}
+          disabled={!hasChanges || hasErrors || isLoading}
         >
           {isLoading ? "Saving..." : "Save Changes"}
         </Button>
       </div>
+
+      <Dialog open={previewType !== null} onOpenChange={(open) => !open && setPreviewType(null)}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>{previewType ? emailTemplateLabels[previewType] : ""} Email Preview</DialogTitle>
+            <DialogDescription>
+              {preview?.sample
+                ? "You have no orders yet, so sample details are shown."
+                : "The template filled in with an order's details. No email is sent."}
+            </DialogDescription>
+          </DialogHeader>
+          <Select value={previewOrderId} onValueChange={setPreviewOrderId}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="latest">Latest order</SelectItem>
+              {orders.map((order) => (
+                <SelectItem key={order.id} value={String(order.id)}>
+                  #{order.orderNumber} {order.eventType}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {isPreviewError ? (
+            <p className="text-sm text-red-500">The preview could not be loaded. Please try again.</p>
+          ) : isPreviewLoading || !preview ? (
+            <p className="text-sm text-gray-500">Loading preview...</p>
+          ) : (
+            <div
+              className="max-h-[60vh] overflow-y-auto rounded-md border p-4 text-sm [&_p]:mb-3"
+              dangerouslySetInnerHTML={{ __html: preview.html }}
+            />
+          )}
+        </DialogContent>
+      </Dialog>
     </div>
   );
-}
\ No newline at end of file
+}
@@ -0,0 +1,315 @@
+import React, { useEffect, useMemo, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { ArrowLeft, AlertTriangle } from "lucide-react";
+import { useLocation } from "wouter";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  blockPlaceholders,
+  defaultCustomTemplate,
+  inlinePlaceholders,
+  invoiceLayoutLabels,
+  invoiceLayouts,
+  validateInvoiceTemplate,
+  type InvoiceLayout,
+  type InvoiceTemplateSettings,
+} from "@shared/invoice-templates";
+
+// How long typing has to pause before the preview is redrawn
+const PREVIEW_DELAY = 600;
+
+export default function InvoiceTemplates() {
+  const [_, setLocation] = useLocation();
+  const { toast } = useToast();
+
+  const [layout, setLayout] = useState<InvoiceLayout>("classic");
+  const [customTemplate, setCustomTemplate] = useState(defaultCustomTemplate);
+  const [isEditing, setIsEditing] = useState(false);
+  const [previewUrl, setPreviewUrl] = useState<string | null>(null);
+  const [previewError, setPreviewError] = useState(false);
+
+  // Fetch the saved layout
+  const { data: savedSettings, isLoading } = useQuery<InvoiceTemplateSettings>({
+    queryKey: ['/api/settings/invoice-template'],
+  });
+
+  useEffect(() => {
+    if (savedSettings) {
+      setLayout(savedSettings.layout);
+      setCustomTemplate(savedSettings.customTemplate || defaultCustomTemplate);
+    }
+  }, [savedSettings]);
+
+  const errors = useMemo(
+    () => (layout === "custom" ? validateInvoiceTemplate(customTemplate) : []),
+    [layout, customTemplate]
+  );
+
+  // Redraw the preview once typing pauses, unless the template can't be used
+  useEffect(() => {
+    if (isLoading || errors.length > 0) return;
+
+    let url: string | null = null;
+    const controller = new AbortController();
+
+    const timer = setTimeout(async () => {
+      try {
+        const response = await fetch('/api/sample-invoice', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ layout, customTemplate: layout === "custom" ? customTemplate : null }),
+          credentials: 'include',
+          signal: controller.signal,
+        });
+
+        if (!response.ok) {
+          throw new Error(`Preview failed with status: ${response.status}`);
+        }
+
+        url = window.URL.createObjectURL(await response.blob());
+        setPreviewUrl(url);
+        setPreviewError(false);
+      } catch (error) {
+        if (!controller.signal.aborted) {
+          console.error('Error previewing invoice:', error);
+          setPreviewError(true);
+        }
+      }
+    }, PREVIEW_DELAY);
+
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+      if (url) window.URL.revokeObjectURL(url);
+    };
+  }, [layout, customTemplate, errors.length, isLoading]);
+
+  // Save the layout
+  const { mutate: saveSettings, isPending: isSaving } = useMutation({
+    mutationFn: async (settings: InvoiceTemplateSettings) => {
+      return await apiRequest('/api/settings/invoice-template', { method: 'PUT', body: settings });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/settings/invoice-template'] });
+      toast({
+        title: "Layout Saved",
+        description: "Your invoices and quotes will use this layout.",
+      });
+      setIsEditing(false);
+    },
+    onError: () => {
+      toast({
+        title: "Save Failed",
+        description: "There was a problem saving your invoice layout.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleSave = () => {
+    // Keep a working custom template when a built-in layout is chosen, so it
+    // isn't lost by switching back and forth
+    const keepTemplate = validateInvoiceTemplate(customTemplate).length === 0;
+
+    saveSettings({
+      layout,
+      customTemplate: keepTemplate ? customTemplate : null,
+    });
+  };
+
+  return (
+    <div className="h-full bg-gray-50">
+      {/* Header */}
+      <div className="flex items-center border-b bg-white p-3">
+        <Button
+          variant="ghost"
+          size="sm"
+          className="flex items-center gap-1"
+          onClick={() => setLocation("/settings")}
+        >
+          <ArrowLeft className="h-4 w-4" />
+          <span>Invoice Layout</span>
+        </Button>
+      </div>
+
+      {/* Content */}
+      <div className="container mx-auto py-8 px-4 max-w-6xl">
+        <div className="mb-8">
+          <h1 className="text-2xl font-bold mb-2">Invoice Layout</h1>
+          <p className="text-gray-600">
+            Choose how your invoices and quotes look, or write your own template.
+          </p>
+        </div>
+
+        {isLoading ? (
+          <Card>
+            <CardHeader>
+              <Skeleton className="h-8 w-3/4 mb-2" />
+              <Skeleton className="h-4 w-full" />
+            </CardHeader>
+            <CardContent>
+              <div className="space-y-4">
+                <Skeleton className="h-10 w-full" />
+                <Skeleton className="h-10 w-full" />
+                <Skeleton className="h-10 w-full" />
+              </div>
+            </CardContent>
+          </Card>
+        ) : (
+          <div className="grid gap-6 lg:grid-cols-2">
+            <div className="space-y-6">
+              <Card>
+                <CardHeader>
+                  <CardTitle>Layout</CardTitle>
+                  <CardDescription>
+                    Used for every invoice and quote you download or email
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <RadioGroup
+                    value={layout}
+                    onValueChange={(value) => {
+                      setLayout(value as InvoiceLayout);
+                      setIsEditing(true);
+                    }}
+                    className="grid grid-cols-2 gap-3"
+                  >
+                    {invoiceLayouts.map((option) => (
+                      <div key={option} className="flex items-center space-x-2 border rounded-md p-3">
+                        <RadioGroupItem value={option} id={`layout-${option}`} />
+                        <Label htmlFor={`layout-${option}`}>{invoiceLayoutLabels[option]}</Label>
+                      </div>
+                    ))}
+                  </RadioGroup>
+                </CardContent>
+              </Card>
+
+              {layout === "custom" && (
+                <Card>
+                  <CardHeader>
+                    <CardTitle>Custom Template</CardTitle>
+                    <CardDescription>
+                      Start a line with "# " or "## " for a heading and use "---" for a divider.
+                      Section placeholders must be on a line by themselves.
+                    </CardDescription>
+                  </CardHeader>
+                  <CardContent className="space-y-4">
+                    <Textarea
+                      value={customTemplate}
+                      onChange={(e) => {
+                        setCustomTemplate(e.target.value);
+                        setIsEditing(true);
+                      }}
+                      rows={20}
+                      className="font-mono text-sm"
+                      spellCheck={false}
+                    />
+
+                    {errors.length > 0 && (
+                      <div className="rounded-md border border-red-200 bg-red-50 p-3 text-sm text-red-700">
+                        <div className="flex items-center font-medium mb-1">
+                          <AlertTriangle className="h-4 w-4 mr-2" />
+                          This template can't be saved yet
+                        </div>
+                        <ul className="list-disc pl-6 space-y-1">
+                          {errors.map((error) => (
+                            <li key={error}>{error}</li>
+                          ))}
+                        </ul>
+                      </div>
+                    )}
+
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => {
+                        setCustomTemplate(defaultCustomTemplate);
+                        setIsEditing(true);
+                      }}
+                    >
+                      Reset to default template
+                    </Button>
+                  </CardContent>
+                </Card>
+              )}
+
+              {layout === "custom" && (
+                <Card>
+                  <CardHeader>
+                    <CardTitle>Placeholders</CardTitle>
+                    <CardDescription>
+                      Replaced with details from the order when the invoice or quote is made
+                    </CardDescription>
+                  </CardHeader>
+                  <CardContent className="space-y-4 text-sm">
+                    <div>
+                      <h4 className="font-medium mb-2">Sections</h4>
+                      <dl className="grid grid-cols-[auto_1fr] gap-x-4 gap-y-1">
+                        {Object.entries(blockPlaceholders).map(([name, description]) => (
+                          <React.Fragment key={name}>
+                            <dt className="font-mono text-primary">{`{{${name}}}`}</dt>
+                            <dd className="text-gray-600">{description}</dd>
+                          </React.Fragment>
+                        ))}
+                      </dl>
+                    </div>
+                    <div>
+                      <h4 className="font-medium mb-2">Details</h4>
+                      <dl className="grid grid-cols-[auto_1fr] gap-x-4 gap-y-1">
+                        {Object.entries(inlinePlaceholders).map(([name, description]) => (
+                          <React.Fragment key={name}>
+                            <dt className="font-mono text-primary">{`{{${name}}}`}</dt>
+                            <dd className="text-gray-600">{description}</dd>
+                          </React.Fragment>
+                        ))}
+                      </dl>
+                    </div>
+                  </CardContent>
+                </Card>
+              )}
+
+              <div className="flex justify-end">
+                <Button
+                  onClick={handleSave}
+                  disabled={!isEditing || isSaving || errors.length > 0}
+                >
+                  {isSaving ? "Saving..." : "Save Layout"}
+                </Button>
+              </div>
+            </div>
+
+            <Card className="lg:sticky lg:top-4 self-start">
+              <CardHeader>
+                <CardTitle>Preview</CardTitle>
+                <CardDescription>
+                  Drawn with your latest order, or an example order if you don't have one yet
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                {previewError ? (
+                  <div className="flex items-center justify-center h-[700px] text-sm text-gray-500">
+                    The preview couldn't be loaded.
+                  </div>
+                ) : previewUrl ? (
+                  <iframe
+                    src={previewUrl}
+                    title="Invoice Preview"
+                    className="w-full h-[700px] rounded-md border bg-white"
+                  />
+                ) : (
+                  <Skeleton className="h-[700px] w-full" />
+                )}
+              </CardContent>
+            </Card>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
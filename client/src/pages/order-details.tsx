@@ -15,6 +15,10 @@ import {
   X,
 } from "lucide-react";
 import PaymentButton from "@/components/payment/payment-button";
+import PaymentPlanDialog from "@/components/order/payment-plan-dialog";
+import OrderPaymentsCard from "@/components/order/order-payments-card";
+import EmailHistory from "@/components/email/email-history";
+import IssuedInvoices from "@/components/order/issued-invoices";
 import { FormatCurrency } from "@/components/ui/format-currency";
 import { format, parseISO } from "date-fns";
 import { Badge } from "@/components/ui/badge";
@@ -22,6 +26,8 @@ import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { useToast } from "@/hooks/use-toast";
+import { paymentStateLabels, type OrderLedger } from "@shared/payment-ledger";
+import { describePaymentPlan } from "@shared/payment-plan";
 import {
   Dialog,
   DialogContent,
@@ -646,6 +652,7 @@ const OrderDetails: React.FC = () => {
   // States for modals
   const [isPaymentModalOpen, setIsPaymentModalOpen] = useState(false);
   const [isScheduledPaymentModalOpen, setIsScheduledPaymentModalOpen] = useState(false);
+  const [isPaymentPlanModalOpen, setIsPaymentPlanModalOpen] = useState(false);
   const [isTaskModalOpen, setIsTaskModalOpen] = useState(false);
   const [isNoteModalOpen, setIsNoteModalOpen] = useState(false);
   const [isEmailModalOpen, setIsEmailModalOpen] = useState(false);
@@ -812,7 +819,7 @@ const OrderDetails: React.FC = () => {
   // Function to generate job sheet
   const generateJobSheet = async () => {
     try {
-      const response = await fetch(`/api/orders/${id}/jobsheet`, {
+      const response = await fetch(`/api/orders/${id}/documents/job-sheet`, {
         method: "GET",
       });
 
@@ -986,7 +993,11 @@ const OrderDetails: React.FC = () => {
 
   const totalAmount =
     subtotal - discountAmount + setupFee + deliveryFee + taxAmount;
-  const outstandingAmount = totalAmount - parseFloat(order.amount_paid || "0");
+  // Payments and scheduled instalments come from the order's payment ledger
+  const ledger: OrderLedger | undefined = order.ledger;
+  const outstandingAmount = ledger
+    ? ledger.balance
+    : totalAmount - parseFloat(order.amount_paid || "0");
 
   // Function to handle task toggle
   const handleTaskToggle = async (taskId: number, completed: boolean) => {
@@ -1110,9 +1121,26 @@ const OrderDetails: React.FC = () => {
             <div className="flex justify-between">
               <span className="text-gray-500">Status:</span>
               <Badge className="px-2 py-0.5 text-xs bg-blue-100 text-blue-700 rounded-md">
-                {order.status || "Partial"}
+                {order.status || "Quote"}
               </Badge>
             </div>
+            {ledger && (
+              <div className="flex justify-between">
+                <span className="text-gray-500">Payment:</span>
+                <Badge
+                  className={`px-2 py-0.5 text-xs rounded-md ${
+                    ledger.overdueAmount > 0
+                      ? "bg-red-100 text-red-700"
+                      : ledger.state === "paid"
+                        ? "bg-green-100 text-green-700"
+                        : "bg-gray-100 text-gray-700"
+                  }`}
+                >
+                  {paymentStateLabels[ledger.state]}
+                  {ledger.overdueAmount > 0 && " · Overdue"}
+                </Badge>
+              </div>
+            )}
           </div>
         </div>
 
@@ -1204,10 +1232,28 @@ const OrderDetails: React.FC = () => {
                 <span>Total:</span>
                 <span>$ {totalAmount.toFixed(2)}</span>
               </div>
+              {ledger && (
+                <div className="flex justify-between mt-2">
+                  <span className="text-gray-600">Amount Paid:</span>
+                  <span>$ {ledger.amountPaid.toFixed(2)}</span>
+                </div>
+              )}
+              {ledger && ledger.amountRefunded > 0 && (
+                <div className="flex justify-between mt-2">
+                  <span className="text-gray-600">Refunded:</span>
+                  <span>$ {ledger.amountRefunded.toFixed(2)}</span>
+                </div>
+              )}
               <div className="flex justify-between mt-2">
                 <span className="text-gray-600">Outstanding Amount:</span>
                 <span>$ {outstandingAmount.toFixed(2)}</span>
               </div>
+              {ledger && ledger.overdueAmount > 0 && (
+                <div className="flex justify-between mt-2 text-red-600">
+                  <span>Overdue:</span>
+                  <span>$ {ledger.overdueAmount.toFixed(2)}</span>
+                </div>
+              )}
 
               {/* Profit Section */}
               <div className="flex justify-between mt-4">
@@ -1283,24 +1329,92 @@ const OrderDetails: React.FC = () => {
       {/* Scheduled Payments Section */}
       <div className="bg-white p-6 rounded-lg shadow-sm mt-6">
         <div className="flex justify-between items-center mb-4">
-          <h2 className="text-lg font-semibold">Scheduled Payments</h2>
-          <Button
-            size="sm"
-            className="bg-blue-500 text-white hover:bg-blue-600 h-8 px-3"
-            onClick={() => setIsScheduledPaymentModalOpen(true)}
-          >
-            + Add
-          </Button>
+          <div>
+            <h2 className="text-lg font-semibold">Scheduled Payments</h2>
+            {order.payment_plan && (
+              <p className="text-xs text-gray-500">
+                Following payment plan: {describePaymentPlan(order.payment_plan)}
+              </p>
+            )}
+          </div>
+          <div className="space-x-2">
+            <Button
+              size="sm"
+              variant="outline"
+              className="h-8 px-3"
+              onClick={() => setIsPaymentPlanModalOpen(true)}
+            >
+              Payment Plan
+            </Button>
+            <Button
+              size="sm"
+              className="bg-blue-500 text-white hover:bg-blue-600 h-8 px-3"
+              onClick={() => setIsScheduledPaymentModalOpen(true)}
+            >
+              + Add
+            </Button>
+          </div>
         </div>
 
-        <div className="flex flex-col items-center justify-center py-8 text-center">
-          <div className="text-gray-400 mb-2">
-            <InfoIcon className="h-5 w-5" />
+        {ledger?.instalments.length ? (
+          <table className="w-full">
+            <thead>
+              <tr className="border-b border-gray-200 text-left text-sm text-gray-500">
+                <th className="pb-2 font-medium">Due Date</th>
+                <th className="pb-2 font-medium">Description</th>
+                <th className="pb-2 font-medium text-right">Amount</th>
+                <th className="pb-2 font-medium text-right">Status</th>
+              </tr>
+            </thead>
+            <tbody>
+              {ledger.instalments.map((instalment) => (
+                <tr key={instalment.id} className="border-b border-gray-100 text-sm">
+                  <td className="py-3">
+                    {format(new Date(`${instalment.dueDate}T00:00:00`), "EEE, dd MMM yyyy")}
+                  </td>
+                  <td className="py-3">{instalment.description || "Payment"}</td>
+                  <td className="py-3 text-right">$ {instalment.amount.toFixed(2)}</td>
+                  <td className="py-3 text-right">
+                    <Badge
+                      className={`px-2 py-0.5 text-xs rounded-md ${
+                        instalment.isPaid
+                          ? "bg-green-100 text-green-700"
+                          : instalment.isOverdue
+                            ? "bg-red-100 text-red-700"
+                            : "bg-gray-100 text-gray-700"
+                      }`}
+                    >
+                      {instalment.isPaid ? "Paid" : instalment.isOverdue ? "Overdue" : "Pending"}
+                    </Badge>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        ) : (
+          <div className="flex flex-col items-center justify-center py-8 text-center">
+            <div className="text-gray-400 mb-2">
+              <InfoIcon className="h-5 w-5" />
+            </div>
+            <p className="text-gray-500 text-sm">
+              You have no scheduled payments for this order
+            </p>
           </div>
-          <p className="text-gray-500 text-sm">
-            You have no scheduled payments for this order
-          </p>
-        </div>
+        )}
+      </div>
+
+      <OrderPaymentsCard orderId={parseInt(id || '0')} />
+
+      {/* Emails Sent */}
+      <div className="bg-white p-6 rounded-lg shadow-sm mt-6">
+        <h2 className="text-lg font-semibold mb-4">Emails Sent</h2>
+        <EmailHistory url={`/api/orders/${id}/emails`} />
+      </div>
+
+      {/* Issued Invoices */}
+      <div className="bg-white p-6 rounded-lg shadow-sm mt-6">
+        <h2 className="text-lg font-semibold mb-4">Issued Invoices</h2>
+        <IssuedInvoices orderId={parseInt(id || '0')} />
       </div>
 
       {/* General Information */}
@@ -1566,6 +1680,17 @@ const OrderDetails: React.FC = () => {
         onSubmit={handleAddScheduledPayment}
       />
 
+      {order.eventDate && (
+        <PaymentPlanDialog
+          orderId={parseInt(id || "0")}
+          orderTotal={order.total}
+          eventDate={order.eventDate}
+          currentPlan={order.payment_plan}
+          open={isPaymentPlanModalOpen}
+          onOpenChange={setIsPaymentPlanModalOpen}
+        />
+      )}
+
       <TaskModal
         open={isTaskModalOpen}
         onOpenChange={setIsTaskModalOpen}
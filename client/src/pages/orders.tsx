@@ -9,10 +9,13 @@ import {
   DialogTitle,
   DialogDescription,
 } from "@/components/ui/dialog";
-import { SearchIcon, PlusIcon, FilterIcon, ChevronLeftIcon, ChevronRightIcon } from "lucide-react";
+import { SearchIcon, PlusIcon, FilterIcon, ChevronLeftIcon, ChevronRightIcon, PrinterIcon, RepeatIcon } from "lucide-react";
 import OrderForm from "@/components/order/order-form";
 import { useToast } from "@/hooks/use-toast";
-import { queryClient } from "@/lib/queryClient";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { orderStatusTypes, type OrderStatus } from "@shared/schema";
+import { paymentStateLabels, type PaymentState } from "@shared/payment-ledger";
+import { useAvailability } from "@/hooks/use-availability";
 import { format, addMonths, subMonths, startOfMonth, endOfMonth, eachDayOfInterval, isSameMonth, isSameDay, isToday } from "date-fns";
 
 const Orders = () => {
@@ -30,6 +33,8 @@ const Orders = () => {
   const [selectedDate, setSelectedDate] = React.useState<Date | null>(
     preselectedDate ? new Date(preselectedDate) : null,
   );
+  const [selectedOrderIds, setSelectedOrderIds] = React.useState<number[]>([]);
+  const [bulkStatus, setBulkStatus] = React.useState<OrderStatus>("Confirmed");
 
   // Fetch orders
   const { data: rawOrders = [], isLoading } = useQuery({
@@ -53,9 +58,12 @@ const Orders = () => {
       status: order.status,
       deliveryType: order.delivery_type,
       deliveryTime: order.delivery_time,
-      total: order.total_amount,
-      totalAmount: order.total_amount,
+      total: order.total,
+      totalAmount: order.total,
       amountPaid: order.amount_paid,
+      balance: order.balance,
+      paymentState: order.payment_state as PaymentState | undefined,
+      overdueAmount: order.overdue_amount,
       notes: order.notes,
       createdAt: order.created_at,
       updatedAt: order.updated_at,
@@ -99,14 +107,25 @@ const Orders = () => {
     setIsSubmitting(true);
 
     try {
-      const response = await fetch("/api/orders-direct", {
+      const createOrder = (body: any) => fetch("/api/orders-direct", {
         method: "POST",
         headers: {
           "Content-Type": "application/json",
         },
-        body: JSON.stringify(data),
+        body: JSON.stringify(body),
       });
 
+      let response = await createOrder(data);
+
+      // The date is blocked or fully booked - let the user decide whether to book anyway
+      if (response.status === 409) {
+        const { error } = await response.json();
+        if (!window.confirm(`${error}. Create the order anyway?`)) {
+          return;
+        }
+        response = await createOrder({ ...data, overrideAvailability: true });
+      }
+
       if (!response.ok) {
         throw new Error("Failed to create order");
       }
@@ -136,11 +155,55 @@ const Orders = () => {
     }
   };
 
+  const toggleOrderSelection = (orderId: number) => {
+    setSelectedOrderIds(prev =>
+      prev.includes(orderId) ? prev.filter(id => id !== orderId) : [...prev, orderId]
+    );
+  };
+
+  const handleBulkStatusChange = async () => {
+    setIsSubmitting(true);
+
+    try {
+      const result = await apiRequest("/api/orders/bulk-status", {
+        method: "POST",
+        body: { orderIds: selectedOrderIds, status: bulkStatus },
+      });
+
+      await queryClient.invalidateQueries({ queryKey: ["/api/orders"] });
+
+      if (result.failed?.length > 0) {
+        toast({
+          title: "Some orders were not updated",
+          description: `${result.updated.length} updated, ${result.failed.length} could not be changed to ${bulkStatus}.`,
+          variant: "destructive",
+        });
+      } else {
+        toast({
+          title: "Orders updated",
+          description: `${result.updated.length} orders marked as ${bulkStatus}.`,
+        });
+      }
+
+      setSelectedOrderIds([]);
+    } catch (error) {
+      console.error("Error updating order statuses:", error);
+      toast({
+        title: "Error",
+        description: "Failed to update order statuses. Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
   // Calendar logic
   const today = new Date();
   const monthStart = startOfMonth(currentDate);
   const monthEnd = endOfMonth(currentDate);
   const calendarDays = eachDayOfInterval({ start: monthStart, end: monthEnd });
+  const { availability } = useAvailability(monthStart, monthEnd);
 
   // Get orders for calendar display
   const getOrdersForDate = (date: Date) => {
@@ -184,6 +247,27 @@ const Orders = () => {
               <span>Search</span>
             </Button>
             
+            <Button
+              variant="outline"
+              className="flex items-center space-x-2"
+              onClick={() => window.open(
+                `/api/orders/documents/job-sheets?from=${format(monthStart, "yyyy-MM-dd")}&to=${format(monthEnd, "yyyy-MM-dd")}`,
+                "_blank"
+              )}
+            >
+              <PrinterIcon className="h-4 w-4" />
+              <span>Job Sheets</span>
+            </Button>
+            
+            <Button
+              variant="outline"
+              className="flex items-center space-x-2"
+              onClick={() => navigate("/orders/recurring")}
+            >
+              <RepeatIcon className="h-4 w-4" />
+              <span>Recurring</span>
+            </Button>
+            
             <Button 
               onClick={() => setIsNewOrderDialogOpen(true)}
               className="bg-green-600 hover:bg-green-700 text-white flex items-center space-x-2"
@@ -258,13 +342,17 @@ const Orders = () => {
                 const dayOrders = getOrdersForDate(date);
                 const statusDot = getStatusDot(dayOrders);
                 const isCurrentDay = isToday(date);
+                const availabilityStatus = availability[format(date, "yyyy-MM-dd")]?.status;
                 
                 return (
                   <div
                     key={index}
                     className={`h-12 flex flex-col items-center justify-center text-sm cursor-pointer rounded-lg hover:bg-gray-50 relative ${
-                      isCurrentDay ? 'bg-blue-600 text-white font-medium' : 'text-gray-700'
+                      isCurrentDay ? 'bg-blue-600 text-white font-medium' :
+                      availabilityStatus === 'blocked' ? 'bg-red-50 text-red-400 line-through' :
+                      availabilityStatus === 'full' || availabilityStatus === 'closed' ? 'bg-gray-100 text-gray-400' : 'text-gray-700'
                     }`}
+                    title={availabilityStatus && availabilityStatus !== 'available' ? availabilityStatus : undefined}
                     onClick={() => handleDateSelect(date)}
                   >
                     <span>{format(date, "d")}</span>
@@ -297,6 +385,32 @@ const Orders = () => {
             </div>
           </div>
 
+          {/* Bulk status change for selected orders */}
+          {selectedOrderIds.length > 0 && (
+            <div className="px-6 py-3 border-t bg-blue-50 flex items-center justify-between">
+              <span className="text-sm font-medium text-gray-700">
+                {selectedOrderIds.length} selected
+              </span>
+              <div className="flex items-center space-x-2">
+                <select
+                  className="border rounded px-3 py-1 text-sm"
+                  value={bulkStatus}
+                  onChange={(e) => setBulkStatus(e.target.value as OrderStatus)}
+                >
+                  {orderStatusTypes.map(status => (
+                    <option key={status} value={status}>{status}</option>
+                  ))}
+                </select>
+                <Button size="sm" onClick={handleBulkStatusChange} disabled={isSubmitting}>
+                  Update Status
+                </Button>
+                <Button size="sm" variant="outline" onClick={() => setSelectedOrderIds([])}>
+                  Clear
+                </Button>
+              </div>
+            </div>
+          )}
+
           {/* Orders List */}
           <div className="border-t">
             {orders.length === 0 ? (
@@ -328,6 +442,14 @@ const Orders = () => {
                     >
                       <div className="flex justify-between items-center">
                         <div className="flex items-center space-x-3">
+                          <input
+                            type="checkbox"
+                            className="h-4 w-4"
+                            checked={selectedOrderIds.includes(order.id)}
+                            onClick={(e) => e.stopPropagation()}
+                            onChange={() => toggleOrderSelection(order.id)}
+                          />
+                          
                           {/* Order icon based on status */}
                           <div className={`w-8 h-8 rounded flex items-center justify-center text-xs font-medium ${
                             isQuote ? 'bg-orange-100 text-orange-600' : 
@@ -362,6 +484,15 @@ const Orders = () => {
                           }`}>
                             {order.status}
                           </div>
+                          {order.paymentState && !isQuote && !isCancelled && (
+                            <div className={`text-xs mt-1 ${
+                              order.overdueAmount > 0 ? 'text-red-600' :
+                              order.paymentState === 'paid' ? 'text-green-600' :
+                              'text-gray-500'
+                            }`}>
+                              {order.overdueAmount > 0 ? 'Payment Overdue' : paymentStateLabels[order.paymentState as PaymentState]}
+                            </div>
+                          )}
                           
                           {/* Action icons */}
                           <div className="flex items-center space-x-1 mt-1">
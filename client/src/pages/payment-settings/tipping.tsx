@@ -1,4 +1,4 @@
-import React, { useState } from "react";
+import React, { useEffect, useState } from "react";
 import { Button } from "@/components/ui/button";
 import { ArrowLeft, CheckIcon, InfoIcon } from "lucide-react";
 import { useLocation } from "wouter";
@@ -6,11 +6,12 @@ import { Input } from "@/components/ui/input";
 import { Switch } from "@/components/ui/switch";
 import { Label } from "@/components/ui/label";
 import { useMutation, useQuery } from "@tanstack/react-query";
-import { apiRequest } from "@/lib/queryClient";
+import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Skeleton } from "@/components/ui/skeleton";
 import { AlertTriangle } from "lucide-react";
+import type { TippingSettings as TippingSettingsData } from "@shared/tipping";
 
 export default function TippingSettings() {
   const [_, setLocation] = useLocation();
@@ -23,28 +24,25 @@ export default function TippingSettings() {
   const [isEditing, setIsEditing] = useState(false);
   
   // Fetch tipping settings
-  const { data: tippingSettings, isLoading } = useQuery({
+  const { data: tippingSettings, isLoading } = useQuery<TippingSettingsData>({
     queryKey: ['/api/payment-settings/tipping'],
-    queryFn: async () => {
-      const response = await apiRequest('GET', '/api/payment-settings/tipping');
-      return response.json();
-    },
-    onSuccess: (data) => {
-      if (data) {
-        setEnableTipping(data.enabled || false);
-        setDefaultTipPercentages(data.defaultPercentages || ["10", "15", "20"]);
-        setCustomTipAllowed(data.allowCustomTip !== false);
-      }
-    },
   });
   
+  useEffect(() => {
+    if (tippingSettings) {
+      setEnableTipping(tippingSettings.enabled || false);
+      setDefaultTipPercentages(tippingSettings.defaultPercentages.map(String));
+      setCustomTipAllowed(tippingSettings.allowCustomTip !== false);
+    }
+  }, [tippingSettings]);
+  
   // Update tipping settings
   const { mutate: updateSettings, isPending: isSaving } = useMutation({
-    mutationFn: async (settings: any) => {
-      const response = await apiRequest('POST', '/api/payment-settings/tipping', settings);
-      return response.json();
+    mutationFn: async (settings: TippingSettingsData) => {
+      return await apiRequest('/api/payment-settings/tipping', { method: 'POST', body: settings });
     },
     onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/payment-settings/tipping'] });
       toast({
         title: "Settings Updated",
         description: "Your tipping settings have been updated successfully.",
@@ -80,7 +78,7 @@ export default function TippingSettings() {
     // Save settings
     updateSettings({
       enabled: enableTipping,
-      defaultPercentages: validPercentages,
+      defaultPercentages: validPercentages.map(Number),
       allowCustomTip: customTipAllowed,
     });
   };
@@ -0,0 +1,669 @@
+import React, { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { format, parseISO } from "date-fns";
+import { ChevronLeftIcon, PencilIcon, PlusIcon, RefreshCwIcon, Trash2Icon } from "lucide-react";
+import { Link } from "wouter";
+
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { weekdayNames } from "@shared/availability";
+import {
+  deliveryTypes,
+  eventTypes,
+  recurringOrderFrequencies,
+  type Contact,
+  type Order,
+  type Product,
+  type RecurringOrder,
+  type RecurringOrderFrequency,
+  type RecurringOrderItem,
+} from "@shared/schema";
+
+type RecurringOrderSummary = RecurringOrder & {
+  contact: Pick<Contact, "id" | "firstName" | "lastName" | "businessName" | "email"> | null;
+};
+
+type RecurringOrderDetails = RecurringOrder & {
+  contact: Contact | null;
+  items: RecurringOrderItem[];
+  upcomingOrders: Order[];
+};
+
+// A line on the recurring order as typed in
+interface ItemForm {
+  productId: number | null;
+  name: string;
+  quantity: string;
+  unitPrice: string;
+}
+
+interface RecurringOrderForm {
+  name: string;
+  contactId: string;
+  eventType: string;
+  deliveryType: string;
+  deliveryTime: string;
+  frequency: RecurringOrderFrequency;
+  weekdays: number[];
+  dayOfMonth: string;
+  startDate: string;
+  endDate: string;
+  skipDates: string;
+  daysAhead: string;
+  notes: string;
+  items: ItemForm[];
+  applyToFutureOrders: boolean;
+}
+
+const frequencyLabels: Record<RecurringOrderFrequency, string> = {
+  weekly: "Weekly",
+  fortnightly: "Fortnightly",
+  monthly: "Monthly",
+};
+
+const emptyForm = (): RecurringOrderForm => ({
+  name: "",
+  contactId: "",
+  eventType: "Other",
+  deliveryType: "Delivery",
+  deliveryTime: "",
+  frequency: "weekly",
+  weekdays: [],
+  dayOfMonth: "",
+  startDate: format(new Date(), "yyyy-MM-dd"),
+  endDate: "",
+  skipDates: "",
+  daysAhead: "14",
+  notes: "",
+  items: [],
+  applyToFutureOrders: true,
+});
+
+const toForm = (recurring: RecurringOrderDetails): RecurringOrderForm => ({
+  name: recurring.name,
+  contactId: String(recurring.contactId),
+  eventType: recurring.eventType,
+  deliveryType: recurring.deliveryType,
+  deliveryTime: recurring.deliveryTime || "",
+  frequency: recurring.frequency as RecurringOrderFrequency,
+  weekdays: recurring.weekdays || [],
+  dayOfMonth: recurring.dayOfMonth ? String(recurring.dayOfMonth) : "",
+  startDate: recurring.startDate,
+  endDate: recurring.endDate || "",
+  skipDates: (recurring.skipDates || []).join(", "),
+  daysAhead: String(recurring.daysAhead),
+  notes: recurring.notes || "",
+  items: recurring.items.map((item) => ({
+    productId: item.productId,
+    name: item.name,
+    quantity: String(item.quantity),
+    unitPrice: item.unitPrice,
+  })),
+  applyToFutureOrders: true,
+});
+
+const contactName = (contact: RecurringOrderSummary["contact"]) =>
+  contact ? contact.businessName || `${contact.firstName} ${contact.lastName}`.trim() : "No customer";
+
+const formatDate = (date: string) => format(parseISO(date), "EEE d MMM yyyy");
+
+const dayName = (weekday: number) => weekdayNames[weekday].charAt(0).toUpperCase() + weekdayNames[weekday].slice(1);
+
+/**
+ * Plain description of when a recurring order falls, e.g. "Weekly on Monday, Thursday"
+ */
+function describeSchedule(recurring: RecurringOrder): string {
+  if (recurring.frequency === "monthly") {
+    return `Monthly on day ${recurring.dayOfMonth || parseISO(recurring.startDate).getDate()}`;
+  }
+
+  const weekdays = recurring.weekdays && recurring.weekdays.length > 0
+    ? recurring.weekdays
+    : [parseISO(recurring.startDate).getDay()];
+
+  return `${frequencyLabels[recurring.frequency as RecurringOrderFrequency]} on ${weekdays
+    .map(dayName)
+    .join(", ")}`;
+}
+
+/**
+ * What is wrong with the form, if anything
+ */
+function getErrors(form: RecurringOrderForm): string[] {
+  const errors: string[] = [];
+  const dates = form.skipDates.split(/[\s,]+/).filter(Boolean);
+
+  if (!form.name.trim()) errors.push("Name is required");
+  if (!form.contactId) errors.push("Choose a customer");
+  if (!form.startDate) errors.push("Start date is required");
+  if (form.endDate && form.endDate < form.startDate) errors.push("End date must be on or after the start date");
+  if (form.frequency === "monthly" && form.dayOfMonth && !(parseInt(form.dayOfMonth) >= 1 && parseInt(form.dayOfMonth) <= 31)) {
+    errors.push("Day of the month must be from 1 to 31");
+  }
+  if (!(parseInt(form.daysAhead) >= 1 && parseInt(form.daysAhead) <= 90)) {
+    errors.push("Orders must be generated 1 to 90 days ahead");
+  }
+  if (dates.some((date) => !/^\d{4}-\d{2}-\d{2}$/.test(date))) {
+    errors.push("Skip dates must be YYYY-MM-DD");
+  }
+  if (form.items.length === 0) errors.push("Add at least one item");
+  if (form.items.some((item) => !item.name.trim() || !(parseInt(item.quantity) > 0) || isNaN(parseFloat(item.unitPrice)))) {
+    errors.push("Every item needs a name, a quantity and a price");
+  }
+
+  return errors;
+}
+
+const toPayload = (form: RecurringOrderForm) => ({
+  name: form.name.trim(),
+  contactId: parseInt(form.contactId),
+  eventType: form.eventType,
+  deliveryType: form.deliveryType,
+  deliveryTime: form.deliveryTime || null,
+  frequency: form.frequency,
+  weekdays: form.frequency === "monthly" ? null : form.weekdays,
+  dayOfMonth: form.frequency === "monthly" && form.dayOfMonth ? parseInt(form.dayOfMonth) : null,
+  startDate: form.startDate,
+  endDate: form.endDate || null,
+  skipDates: form.skipDates.split(/[\s,]+/).filter(Boolean),
+  daysAhead: parseInt(form.daysAhead),
+  notes: form.notes || null,
+  items: form.items.map((item) => ({
+    productId: item.productId,
+    name: item.name.trim(),
+    quantity: parseInt(item.quantity),
+    unitPrice: item.unitPrice,
+  })),
+  applyToFutureOrders: form.applyToFutureOrders,
+});
+
+export default function RecurringOrders() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: recurringOrders = [], isLoading } = useQuery<RecurringOrderSummary[]>({
+    queryKey: ["/api/recurring-orders"],
+  });
+  const { data: contacts = [] } = useQuery<Contact[]>({
+    queryKey: ["/api/contacts"],
+  });
+  const { data: products = [] } = useQuery<Product[]>({
+    queryKey: ["/api/products"],
+  });
+
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [form, setForm] = useState<RecurringOrderForm>(emptyForm());
+
+  const { data: editing } = useQuery<RecurringOrderDetails>({
+    queryKey: [`/api/recurring-orders/${editingId}`],
+    enabled: editingId !== null,
+  });
+
+  const errors = getErrors(form);
+
+  const update = (changes: Partial<RecurringOrderForm>) => setForm({ ...form, ...changes });
+  const updateItem = (index: number, changes: Partial<ItemForm>) =>
+    update({ items: form.items.map((item, i) => (i === index ? { ...item, ...changes } : item)) });
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/recurring-orders"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/orders"] });
+    if (editingId !== null) {
+      queryClient.invalidateQueries({ queryKey: [`/api/recurring-orders/${editingId}`] });
+    }
+  };
+
+  const showError = (message: string) => (error: any) => {
+    console.error(message, error);
+    toast({
+      title: "Error",
+      description: error?.message || "Something went wrong. Please try again.",
+      variant: "destructive",
+    });
+  };
+
+  const openNew = () => {
+    setEditingId(null);
+    setForm(emptyForm());
+    setIsDialogOpen(true);
+  };
+
+  const openEdit = async (id: number) => {
+    setEditingId(id);
+    try {
+      const details = await queryClient.fetchQuery<RecurringOrderDetails>({ queryKey: [`/api/recurring-orders/${id}`] });
+      setForm(toForm(details));
+      setIsDialogOpen(true);
+    } catch (error) {
+      showError("Error loading recurring order:")(error);
+    }
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async () =>
+      await apiRequest(editingId !== null ? `/api/recurring-orders/${editingId}` : "/api/recurring-orders", {
+        method: editingId !== null ? "PUT" : "POST",
+        body: toPayload(form),
+      }),
+    onSuccess: (data: { generatedOrders?: unknown[] }) => {
+      refresh();
+      setIsDialogOpen(false);
+      const generated = data.generatedOrders?.length || 0;
+      toast({
+        title: "Recurring Order Saved",
+        description: generated > 0
+          ? `${generated} upcoming order${generated === 1 ? " has" : "s have"} been created.`
+          : "Your recurring order has been saved successfully.",
+      });
+    },
+    onError: showError("Error saving recurring order:"),
+  });
+
+  const activeMutation = useMutation({
+    mutationFn: async ({ id, isActive }: { id: number; isActive: boolean }) =>
+      await apiRequest(`/api/recurring-orders/${id}`, { method: "PUT", body: { isActive } }),
+    onSuccess: refresh,
+    onError: showError("Error updating recurring order:"),
+  });
+
+  const generateMutation = useMutation({
+    mutationFn: async (id: number) =>
+      await apiRequest(`/api/recurring-orders/${id}/generate`, { method: "POST" }),
+    onSuccess: (data: { generatedOrders: unknown[] }) => {
+      refresh();
+      toast({
+        title: "Orders Generated",
+        description: data.generatedOrders.length > 0
+          ? `${data.generatedOrders.length} order${data.generatedOrders.length === 1 ? " was" : "s were"} created.`
+          : "All upcoming orders have already been created.",
+      });
+    },
+    onError: showError("Error generating orders:"),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: number) =>
+      await apiRequest(`/api/recurring-orders/${id}`, { method: "DELETE" }),
+    onSuccess: () => {
+      refresh();
+      toast({
+        title: "Recurring Order Deleted",
+        description: "Orders already created from it have been kept.",
+      });
+    },
+    onError: showError("Error deleting recurring order:"),
+  });
+
+  const deleteRecurringOrder = (recurring: RecurringOrderSummary) => {
+    if (window.confirm(`Delete the recurring order "${recurring.name}"? Orders already created from it are kept.`)) {
+      deleteMutation.mutate(recurring.id);
+    }
+  };
+
+  return (
+    <div className="container mx-auto py-6 max-w-5xl">
+      <div className="flex items-center mb-4">
+        <Link href="/orders" className="mr-4">
+          <Button variant="ghost" size="icon">
+            <ChevronLeftIcon className="h-5 w-5" />
+          </Button>
+        </Link>
+        <div>
+          <h1 className="text-2xl font-bold">Recurring Orders</h1>
+          <p className="text-gray-500 text-sm">Standing orders that are turned into real orders ahead of each date</p>
+        </div>
+        <Button className="ml-auto" onClick={openNew}>
+          <PlusIcon className="h-4 w-4 mr-2" /> New Recurring Order
+        </Button>
+      </div>
+
+      {isLoading && <p className="text-sm text-gray-500">Loading recurring orders...</p>}
+
+      {!isLoading && recurringOrders.length === 0 && (
+        <Card>
+          <CardContent className="py-10 text-center text-sm text-gray-500">
+            You have no recurring orders. Set one up for customers who order the same thing on a regular schedule.
+          </CardContent>
+        </Card>
+      )}
+
+      {recurringOrders.map((recurring) => (
+        <Card key={recurring.id} className="mb-4">
+          <CardHeader className="flex flex-row items-start justify-between space-y-0">
+            <div className="space-y-1.5">
+              <CardTitle className="flex items-center gap-2">
+                {recurring.name}
+                {!recurring.isActive && <Badge variant="secondary">Paused</Badge>}
+              </CardTitle>
+              <CardDescription>
+                {contactName(recurring.contact)} · {describeSchedule(recurring)}
+                {" · "}from {formatDate(recurring.startDate)}
+                {recurring.endDate && ` to ${formatDate(recurring.endDate)}`}
+              </CardDescription>
+            </div>
+            <div className="flex items-center gap-2">
+              <Switch
+                checked={recurring.isActive !== false}
+                onCheckedChange={(isActive) => activeMutation.mutate({ id: recurring.id, isActive })}
+                aria-label={`Generate orders for ${recurring.name}`}
+              />
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => generateMutation.mutate(recurring.id)}
+                disabled={!recurring.isActive || generateMutation.isPending}
+              >
+                <RefreshCwIcon className="h-4 w-4 mr-2" /> Generate Now
+              </Button>
+              <Button variant="ghost" size="icon" onClick={() => openEdit(recurring.id)} aria-label="Edit recurring order">
+                <PencilIcon className="h-4 w-4" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => deleteRecurringOrder(recurring)}
+                disabled={deleteMutation.isPending}
+                aria-label="Delete recurring order"
+              >
+                <Trash2Icon className="h-4 w-4 text-red-500" />
+              </Button>
+            </div>
+          </CardHeader>
+          <CardContent className="text-sm text-gray-600">
+            Orders are created {recurring.daysAhead} days ahead
+            {recurring.skipDates && recurring.skipDates.length > 0 && `, except on ${recurring.skipDates.map(formatDate).join(", ")}`}.
+          </CardContent>
+        </Card>
+      ))}
+
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{editingId !== null ? "Edit Recurring Order" : "New Recurring Order"}</DialogTitle>
+            <DialogDescription>
+              Orders are created as quotes ahead of each date, ready to confirm with the customer.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="recurring-name">Name</Label>
+                <Input
+                  id="recurring-name"
+                  placeholder="e.g. Cafe weekly cupcakes"
+                  value={form.name}
+                  onChange={(e) => update({ name: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Customer</Label>
+                <Select value={form.contactId} onValueChange={(contactId) => update({ contactId })}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Choose a customer" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {contacts.map((contact) => (
+                      <SelectItem key={contact.id} value={String(contact.id)}>
+                        {contact.businessName || `${contact.firstName} ${contact.lastName}`.trim()}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Event Type</Label>
+                <Select value={form.eventType} onValueChange={(eventType) => update({ eventType })}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {eventTypes.map((eventType) => (
+                      <SelectItem key={eventType} value={eventType}>{eventType}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label>Delivery</Label>
+                  <Select value={form.deliveryType} onValueChange={(deliveryType) => update({ deliveryType })}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {deliveryTypes.map((deliveryType) => (
+                        <SelectItem key={deliveryType} value={deliveryType}>{deliveryType}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="recurring-time">Time</Label>
+                  <Input
+                    id="recurring-time"
+                    type="time"
+                    value={form.deliveryTime}
+                    onChange={(e) => update({ deliveryTime: e.target.value })}
+                  />
+                </div>
+              </div>
+            </div>
+
+            <div className="border rounded-md p-4 space-y-4">
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                <div className="space-y-2">
+                  <Label>Repeats</Label>
+                  <Select
+                    value={form.frequency}
+                    onValueChange={(frequency) => update({ frequency: frequency as RecurringOrderFrequency })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {recurringOrderFrequencies.map((frequency) => (
+                        <SelectItem key={frequency} value={frequency}>{frequencyLabels[frequency]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="recurring-start">Starts</Label>
+                  <Input
+                    id="recurring-start"
+                    type="date"
+                    value={form.startDate}
+                    onChange={(e) => update({ startDate: e.target.value })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="recurring-end">Ends (optional)</Label>
+                  <Input
+                    id="recurring-end"
+                    type="date"
+                    min={form.startDate || undefined}
+                    value={form.endDate}
+                    onChange={(e) => update({ endDate: e.target.value })}
+                  />
+                </div>
+              </div>
+
+              {form.frequency === "monthly" ? (
+                <div className="flex items-center gap-2 text-sm">
+                  <span>On day</span>
+                  <Input
+                    type="number"
+                    min={1}
+                    max={31}
+                    className="w-20"
+                    placeholder={form.startDate ? String(parseISO(form.startDate).getDate()) : ""}
+                    value={form.dayOfMonth}
+                    onChange={(e) => update({ dayOfMonth: e.target.value })}
+                  />
+                  <span>of each month</span>
+                </div>
+              ) : (
+                <div className="flex flex-wrap gap-4">
+                  {weekdayNames.map((name, weekday) => (
+                    <label key={name} className="flex items-center gap-2 text-sm">
+                      <Checkbox
+                        checked={form.weekdays.includes(weekday)}
+                        onCheckedChange={(checked) =>
+                          update({
+                            weekdays: checked
+                              ? [...form.weekdays, weekday].sort((a, b) => a - b)
+                              : form.weekdays.filter((day) => day !== weekday),
+                          })
+                        }
+                      />
+                      {dayName(weekday)}
+                    </label>
+                  ))}
+                </div>
+              )}
+
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="recurring-skip">Skip dates</Label>
+                  <Input
+                    id="recurring-skip"
+                    placeholder="YYYY-MM-DD, YYYY-MM-DD"
+                    value={form.skipDates}
+                    onChange={(e) => update({ skipDates: e.target.value })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="recurring-ahead">Create orders this many days ahead</Label>
+                  <Input
+                    id="recurring-ahead"
+                    type="number"
+                    min={1}
+                    max={90}
+                    value={form.daysAhead}
+                    onChange={(e) => update({ daysAhead: e.target.value })}
+                  />
+                </div>
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <Label>Items</Label>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => update({ items: [...form.items, { productId: null, name: "", quantity: "1", unitPrice: "0" }] })}
+                >
+                  <PlusIcon className="h-4 w-4 mr-2" /> Add Item
+                </Button>
+              </div>
+              {form.items.map((item, index) => (
+                <div key={index} className="grid grid-cols-[2fr_2fr_5rem_7rem_auto] gap-2 items-center">
+                  <Select
+                    value={item.productId ? String(item.productId) : ""}
+                    onValueChange={(value) => {
+                      const product = products.find((p) => p.id === parseInt(value));
+                      updateItem(index, {
+                        productId: product?.id || null,
+                        name: product?.name || item.name,
+                        unitPrice: product?.price || item.unitPrice,
+                      });
+                    }}
+                  >
+                    <SelectTrigger>
+                      <SelectValue placeholder="Product" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {products.map((product) => (
+                        <SelectItem key={product.id} value={String(product.id)}>{product.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Input
+                    placeholder="Name"
+                    value={item.name}
+                    onChange={(e) => updateItem(index, { name: e.target.value })}
+                  />
+                  <Input
+                    type="number"
+                    min={1}
+                    aria-label="Quantity"
+                    value={item.quantity}
+                    onChange={(e) => updateItem(index, { quantity: e.target.value })}
+                  />
+                  <Input
+                    type="number"
+                    min={0}
+                    step={0.01}
+                    aria-label="Unit price"
+                    value={item.unitPrice}
+                    onChange={(e) => updateItem(index, { unitPrice: e.target.value })}
+                  />
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => update({ items: form.items.filter((_, i) => i !== index) })}
+                    aria-label="Remove item"
+                  >
+                    <Trash2Icon className="h-4 w-4 text-red-500" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="recurring-notes">Notes</Label>
+              <Textarea id="recurring-notes" value={form.notes} onChange={(e) => update({ notes: e.target.value })} />
+            </div>
+
+            {editingId !== null && (
+              <div className="space-y-2">
+                <label className="flex items-center gap-2 text-sm">
+                  <Checkbox
+                    checked={form.applyToFutureOrders}
+                    onCheckedChange={(checked) => update({ applyToFutureOrders: checked === true })}
+                  />
+                  Update upcoming orders that haven't been confirmed yet
+                </label>
+                {editing && editing.upcomingOrders.length > 0 && (
+                  <p className="text-sm text-gray-500">
+                    Upcoming: {editing.upcomingOrders
+                      .map((order) => `#${order.orderNumber} on ${formatDate(order.eventDate)} (${order.status})`)
+                      .join(", ")}
+                  </p>
+                )}
+              </div>
+            )}
+
+            {errors.length > 0 && (
+              <ul className="text-sm text-red-500 space-y-1">
+                {errors.map((error) => (
+                  <li key={error}>{error}</li>
+                ))}
+              </ul>
+            )}
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsDialogOpen(false)}>Cancel</Button>
+            <Button onClick={() => saveMutation.mutate()} disabled={errors.length > 0 || saveMutation.isPending}>
+              {saveMutation.isPending ? "Saving..." : "Save"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -13,6 +13,7 @@ import { ChevronRight } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { DateRange } from "@/types";
 import ReportView from "@/components/reports/report-view";
+import TaxReturnReport from "@/components/reports/tax-return-report";
 import {
   CalendarIcon,
   FileTextIcon,
@@ -27,7 +28,8 @@ import {
   PieChartIcon,
   CreditCardIcon,
   CarIcon,
-  CheckSquareIcon
+  CheckSquareIcon,
+  LandmarkIcon
 } from "lucide-react";
 
 // Date range form schema
@@ -140,6 +142,13 @@ const reportTypes = [
     description: "Use this report to view all payments made for a period",
     category: "reports"
   },
+  {
+    id: "tax-return",
+    name: "VAT/GST Return",
+    icon: <LandmarkIcon className="h-5 w-5" />,
+    description: "Use this report to work out the tax to pay for a quarter or period",
+    category: "reports"
+  },
   {
     id: "expense-summary",
     name: "Summary Expense Report",
@@ -287,8 +296,11 @@ const Reports = () => {
     </div>
   );
 
-  // If a report is selected, show the date range form and report view
-  const showReportView = activeReport ? (
+  // If a report is selected, show the date range form and report view. The
+  // tax return picks its own period, as returns are filed by quarter.
+  const showReportView = activeReport === "tax-return" ? (
+    <TaxReturnReport onBack={() => setActiveReport(null)} />
+  ) : activeReport ? (
     <div className="space-y-6">
       {/* Date Range Selector */}
       <Card className="p-4 mt-6">
@@ -6,7 +6,7 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
-import { ChevronRightIcon, CreditCardIcon, CurrencyIcon, DollarSignIcon, FileTextIcon, SettingsIcon, MailIcon, CalendarIcon, GlobeIcon, TypeIcon, LayersIcon, ClockIcon, PenIcon, PercentIcon, MapPinIcon, NotebookIcon, ReceiptIcon, FolderIcon, PizzaIcon, BarChartIcon, RulerIcon, SearchIcon, XIcon, CheckIcon } from "lucide-react";
+import { ChevronRightIcon, CreditCardIcon, CurrencyIcon, DollarSignIcon, FileTextIcon, SettingsIcon, MailIcon, CalendarIcon, GlobeIcon, TypeIcon, LayersIcon, ClockIcon, PenIcon, PercentIcon, MapPinIcon, NotebookIcon, ReceiptIcon, FolderIcon, PizzaIcon, BarChartIcon, RulerIcon, SearchIcon, XIcon, CheckIcon, ZapIcon, CalendarOffIcon } from "lucide-react";
 import { Separator } from "@/components/ui/separator";
 import { useToast } from "@/hooks/use-toast";
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
@@ -15,6 +15,7 @@ import { cn } from "@/lib/utils";
 import { useSettings } from "@/contexts/settings-context";
 import { Link } from "wouter";
 import { EmailUpdatesSection } from "@/components/settings/email-updates-section";
+import { invoiceLayoutLabels, toInvoiceLayout } from "@shared/invoice-templates";
 
 const Settings = () => {
   const { toast } = useToast();
@@ -944,6 +945,28 @@ const Settings = () => {
                 </Link>
                 <Separator />
                 
+                <Link href="/settings/automations">
+                  <div className="flex items-center justify-between p-4 hover:bg-gray-50 cursor-pointer">
+                    <div className="flex items-center">
+                      <ZapIcon className="mr-3 h-5 w-5 text-primary-500" />
+                      <span>Customer Automations</span>
+                    </div>
+                    <ChevronRightIcon className="ml-2 h-5 w-5 text-gray-600" />
+                  </div>
+                </Link>
+                <Separator />
+                
+                <Link href="/settings/availability">
+                  <div className="flex items-center justify-between p-4 hover:bg-gray-50 cursor-pointer">
+                    <div className="flex items-center">
+                      <CalendarOffIcon className="mr-3 h-5 w-5 text-primary-500" />
+                      <span>Availability</span>
+                    </div>
+                    <ChevronRightIcon className="ml-2 h-5 w-5 text-gray-600" />
+                  </div>
+                </Link>
+                <Separator />
+                
                 <div className="flex items-center justify-between p-4 hover:bg-gray-50 cursor-pointer" onClick={handleNotImplemented}>
                   <div className="flex items-center">
                     <SettingsIcon className="mr-3 h-5 w-5 text-primary-500" />
@@ -1135,6 +1158,20 @@ const Settings = () => {
                 </div>
                 <Separator />
                 
+                <Link href="/settings/invoice-templates">
+                  <div className="flex items-center justify-between p-4 hover:bg-gray-50 cursor-pointer">
+                    <div className="flex items-center">
+                      <ReceiptIcon className="mr-3 h-5 w-5 text-primary-500" />
+                      <span>Invoice Layout</span>
+                    </div>
+                    <div className="flex items-center text-gray-600">
+                      <span>{invoiceLayoutLabels[toInvoiceLayout(settings.invoiceTemplate)]}</span>
+                      <ChevronRightIcon className="ml-2 h-5 w-5" />
+                    </div>
+                  </div>
+                </Link>
+                <Separator />
+                
                 <div className="flex items-center justify-between p-4 hover:bg-gray-50 cursor-pointer" onClick={() => setShowDocumentFontSizeDialog(true)}>
                   <div className="flex items-center">
                     <TypeIcon className="mr-3 h-5 w-5 text-primary-500" />
@@ -11,6 +11,7 @@ import SidebarDateDialog from "@/components/calendar/sidebar-date-dialog";
 import EventDialog, { CalendarEvent } from "@/components/calendar/event-dialog";
 import BlockDateDialog, { BlockDateInfo } from "@/components/calendar/block-date-dialog";
 import { useLocation } from "wouter";
+import { useAvailability } from "@/hooks/use-availability";
 
 const SidebarCalendar = () => {
   const [currentDate, setCurrentDate] = useState(new Date());
@@ -19,7 +20,7 @@ const SidebarCalendar = () => {
   const [isEventDialogOpen, setIsEventDialogOpen] = useState(false);
   const [isBlockDateDialogOpen, setIsBlockDateDialogOpen] = useState(false);
   const [calendarEvents, setCalendarEvents] = useState<CalendarEvent[]>([]);
-  const [blockedDates, setBlockedDates] = useState<{[key: string]: string}>({});
+  const { availability, blockedDates, blockDate } = useAvailability(startOfMonth(currentDate), endOfMonth(currentDate));
   
   // Fetch orders for the current month
   const { data: orders = [] } = useQuery<OrderWithItems[]>({
@@ -58,6 +59,12 @@ const SidebarCalendar = () => {
     return dateStr in blockedDates;
   };
   
+  // Check if a date is fully booked or the business is closed
+  const isDateUnavailable = (day: Date) => {
+    const status = availability[format(day, "yyyy-MM-dd")]?.status;
+    return status === "full" || status === "closed";
+  };
+  
   // Get events for a specific day
   const getEventsForDay = (day: Date) => {
     return calendarEvents.filter(event => {
@@ -80,28 +87,18 @@ const SidebarCalendar = () => {
   };
   
   // Handle blocking a date
-  const handleBlockDate = (blockInfo: BlockDateInfo) => {
-    // Create entries for each date in the range
-    const newBlockedDates = { ...blockedDates };
-    
+  const handleBlockDate = async (blockInfo: BlockDateInfo) => {
     const startDate = new Date(blockInfo.startDate);
     const endDate = new Date(blockInfo.endDate);
     
-    // Loop through each day in the range
-    const daysToBlock = eachDayOfInterval({
-      start: startDate,
-      end: endDate,
-    });
-    
-    daysToBlock.forEach(day => {
-      const dateStr = format(day, "yyyy-MM-dd");
-      newBlockedDates[dateStr] = blockInfo.reason;
-    });
-    
-    setBlockedDates(newBlockedDates);
-    
-    // Show a confirmation message
-    alert(`Date${startDate !== endDate ? 's' : ''} blocked from ${format(startDate, "MMM d, yyyy")} to ${format(endDate, "MMM d, yyyy")}`);
+    try {
+      await blockDate(blockInfo);
+      
+      // Show a confirmation message
+      alert(`Date${startDate !== endDate ? 's' : ''} blocked from ${format(startDate, "MMM d, yyyy")} to ${format(endDate, "MMM d, yyyy")}`);
+    } catch (error) {
+      alert("Failed to block date. Please try again.");
+    }
   };
   
   const handlePreviousMonth = () => {
@@ -148,6 +145,7 @@ const SidebarCalendar = () => {
           const dayEvents = getEventsForDay(day);
           const isCurrentDay = isToday(day);
           const isBlocked = isDateBlocked(day);
+          const isUnavailable = isDateUnavailable(day);
           
           return (
             <button
@@ -155,7 +153,8 @@ const SidebarCalendar = () => {
               className={cn(
                 "h-8 rounded-md text-sm relative flex items-center justify-center",
                 isCurrentDay ? "bg-blue-100 text-blue-800 font-bold" : 
-                isBlocked ? "bg-red-50 text-red-500" : "hover:bg-gray-100"
+                isBlocked ? "bg-red-50 text-red-500" :
+                isUnavailable ? "bg-gray-100 text-gray-400" : "hover:bg-gray-100"
               )}
               onClick={() => {
                 setSelectedDate(day);
@@ -34,6 +34,7 @@ const taxSettingsSchema = z.object({
   taxEnabled: z.boolean(),
   taxTerminology: z.enum(["GST", "VAT", "Tax"]),
   taxInvoiceTitle: z.string().min(1, "Invoice title is required"),
+  pricesIncludeTax: z.boolean(),
 });
 
 type TaxSettingsFormValues = z.infer<typeof taxSettingsSchema>;
@@ -67,6 +68,7 @@ export default function TaxRatesPage() {
       taxEnabled: settings?.taxEnabled || false,
       taxTerminology: settings?.taxTerminology || 'Tax',
       taxInvoiceTitle: settings?.taxInvoiceTitle || 'Tax Invoice',
+      pricesIncludeTax: settings?.pricesIncludeTax || false,
     },
   });
 
@@ -77,6 +79,7 @@ export default function TaxRatesPage() {
         taxEnabled: settings.taxEnabled || false,
         taxTerminology: settings.taxTerminology || 'Tax',
         taxInvoiceTitle: settings.taxInvoiceTitle || 'Tax Invoice',
+        pricesIncludeTax: settings.pricesIncludeTax || false,
       });
     }
   }, [settings, taxSettingsForm]);
@@ -166,6 +169,7 @@ export default function TaxRatesPage() {
           taxEnabled: data.taxEnabled,
           taxTerminology: data.taxTerminology,
           taxInvoiceTitle: data.taxInvoiceTitle,
+          pricesIncludeTax: data.pricesIncludeTax,
         },
       });
     },
@@ -246,6 +250,26 @@ export default function TaxRatesPage() {
                   />
                 </div>
                 
+                <FormField
+                  control={taxSettingsForm.control}
+                  name="pricesIncludeTax"
+                  render={({ field }) => (
+                    <FormItem className="flex items-center justify-between space-x-2 space-y-0">
+                      <div className="space-y-1">
+                        <FormLabel htmlFor="pricesIncludeTax">Prices Include Tax</FormLabel>
+                        <FormDescription>
+                          Tax is taken out of your prices instead of added on top. Existing orders and quotes keep the pricing they were created with.
+                        </FormDescription>
+                      </div>
+                      <Switch
+                        id="pricesIncludeTax"
+                        checked={field.value}
+                        onCheckedChange={field.onChange}
+                      />
+                    </FormItem>
+                  )}
+                />
+                
                 <Separator className="my-4" />
                 
                 <FormField
@@ -0,0 +1,53 @@
+import fs from 'fs';
+import path from 'path';
+import { FakeWebhookSender, type FakeWebhookProvider } from '../server/integrations/webhook-fake';
+
+/**
+ * Replay recorded Stripe or Square webhook events against a running app.
+ *
+ * Usage:
+ *   tsx scripts/replay-webhooks.ts <stripe|square> --payment <id> [--order <id>] [--url <baseUrl>] [--fresh]
+ *
+ * The events in scripts/webhook-fixtures are signed with STRIPE_WEBHOOK_SECRET
+ * or SQUARE_WEBHOOK_SIGNATURE_KEY, so the app must be running with the same
+ * values. Without --fresh the fixture event IDs are reused, so replaying a
+ * second time shows the duplicate handling.
+ */
+async function replayWebhooks() {
+  const args = process.argv.slice(2);
+  const provider = args[0] as FakeWebhookProvider;
+  const option = (name: string) => {
+    const index = args.indexOf(`--${name}`);
+    return index >= 0 ? args[index + 1] : undefined;
+  };
+
+  if (provider !== 'stripe' && provider !== 'square') {
+    console.error('Usage: tsx scripts/replay-webhooks.ts <stripe|square> --payment <id> [--order <id>] [--url <baseUrl>] [--fresh]');
+    process.exit(1);
+  }
+
+  const fixturePath = path.join(process.cwd(), 'scripts', 'webhook-fixtures', `${provider}.json`);
+  const events = JSON.parse(fs.readFileSync(fixturePath, 'utf8'));
+
+  const sender = new FakeWebhookSender({
+    baseUrl: option('url') || 'http://localhost:5000',
+    squareNotificationUrl: process.env.SQUARE_WEBHOOK_URL,
+  });
+
+  const results = await sender.replay(
+    provider,
+    events,
+    {
+      paymentId: option('payment') || `${provider === 'stripe' ? 'pi' : 'sq'}_fixture`,
+      orderId: option('order') || '1',
+    },
+    args.includes('--fresh')
+  );
+
+  for (const result of results) {
+    console.log(`${result.type} (${result.eventId}) -> ${result.status}`, result.body);
+  }
+}
+
+// Execute the replay
+replayWebhooks().catch(console.error);
@@ -1,6 +1,7 @@
 import { Request, Response } from "express";
+import { z } from "zod";
 import { db } from "../db";
-import { eq, and, between, gte, lte, like, sql } from "drizzle-orm";
+import { eq, and, between, gte, lte, like, sql, inArray } from "drizzle-orm";
 import { 
   orders, 
   orderItems, 
@@ -14,9 +15,13 @@ import {
   recipeIngredients,
   ingredients,
   payments,
+  refunds,
   productBundles,
   bundleItems
 } from "@shared/schema";
+import { settledPaymentStatuses } from "@shared/payment-ledger";
+import { taxReturnFormats, taxReturnQuerySchema } from "@shared/tax-return";
+import { taxReturnService } from "../services/tax-return";
 
 // Interface to define request with date range filters
 interface DateRangeRequest extends Request {
@@ -69,22 +74,37 @@ export const getQuoteListReport = async (req: DateRangeRequest, res: Response) =
   try {
     const { startDate, endDate } = getDateRange(req);
     
-    // Using direct SQL for better compatibility
+    // Quotes live in the quotes table; older quotes were stored as orders with status 'Quote'
     const result = await db.execute(sql`
-      SELECT 
-        o.id,
-        o.order_number as "quoteNumber",
-        o.created_at as "createdAt",
-        CONCAT(c.first_name, ' ', c.last_name) as "customerName",
-        o.event_type as "eventType",
-        o.status,
-        o.total
-      FROM orders o
-      LEFT JOIN contacts c ON o.contact_id = c.id
-      WHERE o.status = 'Quote'
-        AND o.created_at >= ${startDate.toISOString()}
-        AND o.created_at <= ${endDate.toISOString()}
-      ORDER BY o.created_at
+      SELECT * FROM (
+        SELECT 
+          q.id,
+          q.quote_number as "quoteNumber",
+          q.created_at as "createdAt",
+          CONCAT(c.first_name, ' ', c.last_name) as "customerName",
+          q.event_type as "eventType",
+          q.status,
+          q.total
+        FROM quotes q
+        LEFT JOIN contacts c ON q.contact_id = c.id
+        WHERE q.created_at >= ${startDate.toISOString()}
+          AND q.created_at <= ${endDate.toISOString()}
+        UNION ALL
+        SELECT 
+          o.id,
+          o.order_number as "quoteNumber",
+          o.created_at as "createdAt",
+          CONCAT(c.first_name, ' ', c.last_name) as "customerName",
+          o.event_type as "eventType",
+          o.status,
+          o.total
+        FROM orders o
+        LEFT JOIN contacts c ON o.contact_id = c.id
+        WHERE o.status = 'Quote'
+          AND o.created_at >= ${startDate.toISOString()}
+          AND o.created_at <= ${endDate.toISOString()}
+      ) quote_list
+      ORDER BY "createdAt"
     `);
     
     res.status(200).json(result.rows);
@@ -268,6 +288,24 @@ export const getIncomeStatementReport = async (req: DateRangeRequest, res: Respo
         AND date <= ${endDate.toISOString()}
     `);
     
+    // Using direct SQL to get tips, which are paid on top of order totals
+    const tipsResult = await db.execute(sql`
+      SELECT SUM(tip_amount) as "tips"
+      FROM payments
+      WHERE status IN ('completed', 'succeeded', 'partially_refunded', 'refunded')
+        AND created_at >= ${startDate.toISOString()}
+        AND created_at <= ${endDate.toISOString()}
+    `);
+    
+    // Using direct SQL to get refunds given, which count as negative income
+    const refundsResult = await db.execute(sql`
+      SELECT SUM(amount) as "refunds"
+      FROM refunds
+      WHERE status IN ('pending', 'completed')
+        AND created_at >= ${startDate.toISOString()}
+        AND created_at <= ${endDate.toISOString()}
+    `);
+    
     // Using direct SQL to get expenses
     const expensesResult = await db.execute(sql`
       SELECT SUM(amount) as "totalExpenses"
@@ -279,10 +317,12 @@ export const getIncomeStatementReport = async (req: DateRangeRequest, res: Respo
     // Extract values, handling null cases
     const orderIncome = Number(ordersResult.rows[0]?.orderIncome || 0);
     const additionalIncome = Number(additionalIncomeResult.rows[0]?.additionalIncome || 0);
+    const tips = Number(tipsResult.rows[0]?.tips || 0);
+    const refundTotal = Number(refundsResult.rows[0]?.refunds || 0);
     const totalExpenses = Number(expensesResult.rows[0]?.totalExpenses || 0);
     
     // Calculate total income and net profit
-    const totalIncome = orderIncome + additionalIncome;
+    const totalIncome = orderIncome + additionalIncome + tips - refundTotal;
     const netProfit = totalIncome - totalExpenses;
     
     // Format the income statement
@@ -294,6 +334,8 @@ export const getIncomeStatementReport = async (req: DateRangeRequest, res: Respo
       income: {
         orderIncome,
         additionalIncome,
+        tips,
+        refunds: -refundTotal,
         totalIncome
       },
       expenses: {
@@ -325,8 +367,8 @@ export const getOrderItemBreakdownReport = async (req: DateRangeRequest, res: Re
       itemName: orderItems.name,
       description: orderItems.description,
       quantity: orderItems.quantity,
-      price: orderItems.price,
-      total: sql`${orderItems.quantity} * ${orderItems.price}`,
+      price: orderItems.unitPrice,
+      total: sql`${orderItems.quantity} * ${orderItems.unitPrice}`,
       notes: orderItems.notes
     })
     .from(orderItems)
@@ -418,7 +460,7 @@ export const getPaymentsByPeriodReport = async (req: DateRangeRequest, res: Resp
       customerName: sql`CONCAT(${contacts.firstName}, ' ', ${contacts.lastName})`,
       amount: payments.amount,
       paymentMethod: payments.paymentMethod,
-      type: payments.type,
+      type: sql<string>`'Payment'`,
       notes: payments.notes
     })
     .from(payments)
@@ -432,13 +474,104 @@ export const getPaymentsByPeriodReport = async (req: DateRangeRequest, res: Resp
     )
     .orderBy(payments.createdAt);
     
-    res.status(200).json(paymentsList);
+    // Tips are listed on their own, apart from the payment they came with
+    const tipsList = await db.select({
+      id: payments.id,
+      date: payments.createdAt,
+      orderNumber: orders.orderNumber,
+      customerName: sql`CONCAT(${contacts.firstName}, ' ', ${contacts.lastName})`,
+      amount: sql<string>`${payments.tipAmount}`,
+      paymentMethod: payments.paymentMethod,
+      type: sql<string>`'Tip'`,
+      notes: payments.notes
+    })
+    .from(payments)
+    .leftJoin(orders, eq(payments.orderId, orders.id))
+    .leftJoin(contacts, eq(orders.contactId, contacts.id))
+    .where(
+      and(
+        sql`${payments.tipAmount} > 0`,
+        inArray(payments.status, settledPaymentStatuses),
+        gte(payments.createdAt, startDate),
+        lte(payments.createdAt, endDate)
+      )
+    );
+    
+    // Refunds are listed as negative payments
+    const refundsList = await db.select({
+      id: refunds.id,
+      date: refunds.createdAt,
+      orderNumber: orders.orderNumber,
+      customerName: sql`CONCAT(${contacts.firstName}, ' ', ${contacts.lastName})`,
+      amount: sql<string>`-${refunds.amount}`,
+      paymentMethod: payments.paymentMethod,
+      type: sql<string>`'Refund'`,
+      notes: sql<string>`CONCAT('Credit note ', ${refunds.creditNoteNumber}, COALESCE(' - ' || ${refunds.reason}, ''))`
+    })
+    .from(refunds)
+    .leftJoin(payments, eq(refunds.paymentId, payments.id))
+    .leftJoin(orders, eq(refunds.orderId, orders.id))
+    .leftJoin(contacts, eq(orders.contactId, contacts.id))
+    .where(
+      and(
+        sql`${refunds.status} IN ('pending', 'completed')`,
+        gte(refunds.createdAt, startDate),
+        lte(refunds.createdAt, endDate)
+      )
+    );
+    
+    const paymentsTipsAndRefunds = [...paymentsList, ...tipsList, ...refundsList]
+      .sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
+    
+    res.status(200).json(paymentsTipsAndRefunds);
   } catch (error) {
     console.error("Error fetching payments by period report:", error);
     res.status(500).json({ error: "Failed to generate payments by period report" });
   }
 };
 
+// VAT/GST Return Report
+export const getTaxReturnReport = async (req: Request, res: Response) => {
+  try {
+    const userId = req.session?.userId || 1;
+
+    const validation = taxReturnQuerySchema.safeParse(req.query);
+    if (!validation.success) {
+      return res.status(400).json({ error: "Invalid tax return period", details: validation.error.errors });
+    }
+
+    res.status(200).json(await taxReturnService.getReturn(userId, validation.data));
+  } catch (error) {
+    console.error("Error fetching tax return report:", error);
+    res.status(500).json({ error: "Failed to generate tax return report" });
+  }
+};
+
+export const downloadTaxReturnReport = async (req: Request, res: Response) => {
+  try {
+    const userId = req.session?.userId || 1;
+
+    const exportFormat = z.enum(taxReturnFormats).safeParse(req.params.format);
+    if (!exportFormat.success) {
+      return res.status(400).json({ error: `Unsupported download format: ${req.params.format}` });
+    }
+
+    const validation = taxReturnQuerySchema.safeParse(req.query);
+    if (!validation.success) {
+      return res.status(400).json({ error: "Invalid tax return period", details: validation.error.errors });
+    }
+
+    const { content, filename, contentType } = await taxReturnService.export(userId, validation.data, exportFormat.data);
+
+    res.setHeader("Content-Type", contentType);
+    res.setHeader("Content-Disposition", `attachment; filename="${filename}"`);
+    res.send(content);
+  } catch (error) {
+    console.error("Error downloading tax return report:", error);
+    res.status(500).json({ error: "Failed to download tax return report" });
+  }
+};
+
 // Expense Reports
 export const getExpenseSummaryReport = async (req: DateRangeRequest, res: Response) => {
   try {
@@ -4,11 +4,21 @@ import { setupVite, serveStatic, log } from "./vite";
 import fs from 'fs';
 import path from 'path';
 import { startEmailScheduler } from './services/email-scheduler';
+import { startRecurringOrderScheduler } from './services/recurring-order-scheduler';
+import { startEmailOutboxWorker } from './services/email-outbox-worker';
+import { startSmsScheduler } from './services/sms-scheduler';
+import { startCustomerAutomationScheduler } from './services/customer-automation-scheduler';
+import { startPaymentReminderScheduler } from './services/payment-reminder-scheduler';
 import session from 'express-session';
 import { storage } from './storage';
 
 const app = express();
-app.use(express.json());
+app.use(express.json({
+  // Keep the raw body so webhook signatures can be checked against it
+  verify: (req, _res, buf) => {
+    (req as Request & { rawBody?: Buffer }).rawBody = buf;
+  }
+}));
 app.use(express.urlencoded({ extended: false }));
 
 // Configure session middleware
@@ -135,5 +145,20 @@ app.use((req, res, next) => {
     } else {
       log('Email service not started - SENDGRID_API_KEY not found');
     }
+    
+    // Start generating orders from recurring orders
+    startRecurringOrderScheduler();
+    
+    // Start sending queued emails
+    startEmailOutboxWorker();
+    
+    // Start texting customers their reminders
+    startSmsScheduler();
+    
+    // Start emailing customers their reminders and thank yous
+    startCustomerAutomationScheduler();
+    
+    // Start sending the payment reminders scheduled on orders
+    startPaymentReminderScheduler();
   });
 })();
@@ -0,0 +1,33 @@
+import fs from 'fs/promises';
+import path from 'path';
+import nodemailer from 'nodemailer';
+import { toMailOptions } from './smtp';
+import type { EmailTransport, OutgoingEmail, TransportResult } from './types';
+
+/**
+ * Writes each email to a .eml file in EMAIL_FILE_DIR (./mailbox by default)
+ * instead of sending it, for development and tests. The files open in any
+ * mail client.
+ */
+export class FileEmailTransport implements EmailTransport {
+  readonly name = 'file';
+  readonly displayName = 'Local mailbox';
+
+  private readonly composer = nodemailer.createTransport({ streamTransport: true, buffer: true, newline: 'unix' });
+
+  constructor(private readonly directory = process.env.EMAIL_FILE_DIR || path.resolve('mailbox')) {}
+
+  isConfigured(): boolean {
+    return true;
+  }
+
+  async send(email: OutgoingEmail): Promise<TransportResult> {
+    const info = await this.composer.sendMail(toMailOptions(email));
+    const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
+
+    await fs.mkdir(this.directory, { recursive: true });
+    await fs.writeFile(path.join(this.directory, `${timestamp}-${email.outboxId}.eml`), info.message as Buffer);
+
+    return { messageId: info.messageId || null };
+  }
+}
@@ -0,0 +1,44 @@
+import type { EmailTransport } from './types';
+import { SendGridEmailTransport } from './sendgrid';
+import { SmtpEmailTransport } from './smtp';
+import { FileEmailTransport } from './file';
+
+export * from './types';
+export { FileEmailTransport } from './file';
+
+const transports = new Map<string, EmailTransport>();
+
+/**
+ * Add a transport, replacing any already registered under the same name
+ */
+export function registerEmailTransport(transport: EmailTransport): void {
+  transports.set(transport.name, transport);
+}
+
+export function getEmailTransports(): EmailTransport[] {
+  return Array.from(transports.values());
+}
+
+/**
+ * The transport emails are sent with: EMAIL_TRANSPORT when it is set,
+ * otherwise SendGrid or SMTP when they are configured, otherwise the local
+ * mailbox
+ */
+export function getEmailTransport(): EmailTransport {
+  const name = process.env.EMAIL_TRANSPORT;
+
+  if (name) {
+    const transport = transports.get(name);
+    if (!transport) {
+      throw new Error(`Unknown email transport: ${name}`);
+    }
+    return transport;
+  }
+
+  return getEmailTransports().find((transport) => transport.isConfigured()) || transports.get('file')!;
+}
+
+// Registered in the order they're preferred in
+registerEmailTransport(new SendGridEmailTransport());
+registerEmailTransport(new SmtpEmailTransport());
+registerEmailTransport(new FileEmailTransport());
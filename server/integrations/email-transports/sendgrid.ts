@@ -0,0 +1,46 @@
+import { MailService } from '@sendgrid/mail';
+import type { MailContent } from '@sendgrid/helpers/classes/mail';
+import type { EmailTransport, OutgoingEmail, TransportResult } from './types';
+
+/**
+ * Sends through the SendGrid API using SENDGRID_API_KEY
+ */
+export class SendGridEmailTransport implements EmailTransport {
+  readonly name = 'sendgrid';
+  readonly displayName = 'SendGrid';
+
+  private readonly mailService = new MailService();
+
+  isConfigured(): boolean {
+    return !!process.env.SENDGRID_API_KEY;
+  }
+
+  async send(email: OutgoingEmail): Promise<TransportResult> {
+    if (!process.env.SENDGRID_API_KEY) {
+      throw new Error('SendGrid API key is not configured');
+    }
+
+    this.mailService.setApiKey(process.env.SENDGRID_API_KEY);
+
+    const [response] = await this.mailService.send({
+      to: email.to,
+      cc: email.cc || undefined,
+      bcc: email.bcc || undefined,
+      from: { email: email.from, name: email.fromName || undefined },
+      subject: email.subject,
+      content: [
+        ...(email.text ? [{ type: 'text/plain', value: email.text }] : []),
+        ...(email.html ? [{ type: 'text/html', value: email.html }] : []),
+      ] as [MailContent, ...MailContent[]],
+      attachments: email.attachments.map((attachment) => ({
+        content: attachment.content,
+        filename: attachment.filename,
+        type: attachment.type,
+        disposition: 'attachment',
+      })),
+      customArgs: { outboxId: email.outboxId.toString() },
+    });
+
+    return { messageId: response.headers['x-message-id'] || null };
+  }
+}
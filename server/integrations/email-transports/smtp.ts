@@ -0,0 +1,69 @@
+import nodemailer from 'nodemailer';
+import type { EmailTransport, OutgoingEmail, TransportResult } from './types';
+
+/**
+ * Builds the message nodemailer sends, shared with the file transport so a
+ * file is exactly what would have been sent
+ */
+export function toMailOptions(email: OutgoingEmail): nodemailer.SendMailOptions {
+  return {
+    to: email.to,
+    cc: email.cc || undefined,
+    bcc: email.bcc || undefined,
+    from: email.fromName ? { name: email.fromName, address: email.from } : email.from,
+    subject: email.subject,
+    text: email.text || undefined,
+    html: email.html || undefined,
+    attachments: email.attachments.map((attachment) => ({
+      filename: attachment.filename,
+      contentType: attachment.type,
+      content: attachment.content,
+      encoding: 'base64',
+    })),
+    headers: { 'X-Outbox-Id': email.outboxId.toString() },
+  };
+}
+
+/**
+ * Sends through any SMTP server, set up with SMTP_HOST, SMTP_PORT,
+ * SMTP_SECURE, SMTP_USER and SMTP_PASSWORD
+ */
+export class SmtpEmailTransport implements EmailTransport {
+  readonly name = 'smtp';
+  readonly displayName = 'SMTP';
+
+  private transporter: nodemailer.Transporter | null = null;
+
+  isConfigured(): boolean {
+    return !!process.env.SMTP_HOST;
+  }
+
+  async send(email: OutgoingEmail): Promise<TransportResult> {
+    const info = await this.getTransporter().sendMail(toMailOptions(email));
+
+    if (info.rejected.length > 0) {
+      throw new Error(`The SMTP server rejected ${info.rejected.join(', ')}`);
+    }
+
+    return { messageId: info.messageId || null };
+  }
+
+  private getTransporter(): nodemailer.Transporter {
+    if (!process.env.SMTP_HOST) {
+      throw new Error('SMTP host is not configured');
+    }
+
+    if (!this.transporter) {
+      this.transporter = nodemailer.createTransport({
+        host: process.env.SMTP_HOST,
+        port: parseInt(process.env.SMTP_PORT || '587'),
+        secure: process.env.SMTP_SECURE === 'true',
+        auth: process.env.SMTP_USER
+          ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASSWORD }
+          : undefined,
+      });
+    }
+
+    return this.transporter;
+  }
+}
@@ -0,0 +1,36 @@
+import type { EmailAttachment } from '@shared/email-outbox';
+
+/**
+ * An email ready to hand to a transport, built from a row in the outbox
+ */
+export interface OutgoingEmail {
+  // Outbox ID, so the provider's copy can be traced back to it
+  outboxId: number;
+  to: string;
+  cc: string | null;
+  bcc: string | null;
+  from: string;
+  fromName: string | null;
+  subject: string;
+  text: string | null;
+  html: string | null;
+  attachments: EmailAttachment[];
+}
+
+export interface TransportResult {
+  // The provider's ID for the message, stored as email_outbox.provider_message_id
+  messageId: string | null;
+}
+
+/**
+ * A way of delivering email. Transports are registered under the name stored
+ * in `email_outbox.transport`. Failures are thrown, and the outbox retries
+ * them later.
+ */
+export interface EmailTransport {
+  readonly name: string;
+  readonly displayName: string;
+  // The app has the settings it needs to send with this transport
+  isConfigured(): boolean;
+  send(email: OutgoingEmail): Promise<TransportResult>;
+}
@@ -0,0 +1,155 @@
+import type {
+  PaymentProvider,
+  ChargeRequest,
+  ProviderCharge,
+  ProviderRefund,
+  ProviderConnectionStatus,
+} from './types';
+
+/**
+ * Card tokens that make the fake provider behave like a real one would for
+ * a problem card. Any other token, or none, is charged successfully.
+ */
+export const fakeCardTokens = {
+  declined: 'fake_declined',
+  pending: 'fake_pending',
+  refundDeclined: 'fake_refund_declined',
+} as const;
+
+interface FakeCharge extends ProviderCharge {
+  sourceId?: string;
+  refunded: number;
+}
+
+/**
+ * An in-memory provider for trying out payment flows without a network.
+ * IDs come from a counter, so the same steps always give the same results.
+ * It can stand in for Stripe or Square by being registered under their name.
+ */
+export class FakePaymentProvider implements PaymentProvider {
+  private charges = new Map<string, FakeCharge>();
+  private connectedUsers = new Set<number>();
+  private counter = 0;
+
+  constructor(
+    readonly name: string = 'fake',
+    readonly displayName: string = 'Test payments'
+  ) {}
+
+  async createCharge(request: ChargeRequest): Promise<ProviderCharge> {
+    const id = this.nextId('ch');
+
+    let status: ProviderCharge['status'] = request.capture === false ? 'authorized' : 'succeeded';
+    if (request.sourceId === fakeCardTokens.declined) {
+      status = 'failed';
+    } else if (request.sourceId === fakeCardTokens.pending) {
+      status = 'pending';
+    }
+
+    const charge: FakeCharge = {
+      id,
+      status,
+      amount: request.amount,
+      tipAmount: request.tipAmount || 0,
+      currency: request.currency.toUpperCase(),
+      clientSecret: `${id}_secret`,
+      metadata: { ...(request.orderId && { orderId: request.orderId.toString() }), ...request.metadata },
+      sourceId: request.sourceId,
+      refunded: 0,
+    };
+    this.charges.set(id, charge);
+
+    return this.toCharge(charge);
+  }
+
+  async capture(userId: number, chargeId: string, amount?: number): Promise<ProviderCharge> {
+    const charge = this.findCharge(chargeId);
+
+    if (charge.status !== 'authorized') {
+      throw new Error(`Charge ${chargeId} cannot be captured, it is ${charge.status}`);
+    }
+    if (amount !== undefined && amount > charge.amount) {
+      throw new Error('Cannot capture more than was authorized');
+    }
+
+    charge.status = 'succeeded';
+    charge.amount = amount ?? charge.amount;
+
+    return this.toCharge(charge);
+  }
+
+  async refund(userId: number, chargeId: string, amount: number): Promise<ProviderRefund> {
+    const charge = this.findCharge(chargeId);
+
+    if (charge.status !== 'succeeded') {
+      throw new Error(`Charge ${chargeId} cannot be refunded, it is ${charge.status}`);
+    }
+    if (amount <= 0 || amount > charge.amount + charge.tipAmount - charge.refunded + 0.001) {
+      throw new Error('Refund is more than is left on the charge');
+    }
+
+    const id = this.nextId('re');
+    if (charge.sourceId === fakeCardTokens.refundDeclined) {
+      return { id, status: 'failed', amount };
+    }
+
+    charge.refunded += amount;
+    return { id, status: 'completed', amount };
+  }
+
+  async getCharge(userId: number, chargeId: string): Promise<ProviderCharge> {
+    return this.toCharge(this.findCharge(chargeId));
+  }
+
+  async getConnectionStatus(userId: number): Promise<ProviderConnectionStatus> {
+    return { configured: true, connected: this.connectedUsers.has(userId) };
+  }
+
+  async connect(userId: number, redirectUri: string): Promise<string | null> {
+    // Go straight back as if the user had approved the connection
+    return `${redirectUri}?code=fake_code&state=${userId}`;
+  }
+
+  async completeConnection(code: string, state: string) {
+    const userId = parseInt(state);
+
+    if (code !== 'fake_code' || isNaN(userId)) {
+      return { success: false, error: 'Invalid code' };
+    }
+
+    this.connectedUsers.add(userId);
+    return { success: true };
+  }
+
+  async disconnect(userId: number): Promise<boolean> {
+    return this.connectedUsers.delete(userId);
+  }
+
+  /**
+   * Forget every charge and connection, and start the IDs again
+   */
+  reset(): void {
+    this.charges.clear();
+    this.connectedUsers.clear();
+    this.counter = 0;
+  }
+
+  private nextId(prefix: string): string {
+    this.counter += 1;
+    return `${this.name}_${prefix}_${this.counter.toString().padStart(6, '0')}`;
+  }
+
+  private findCharge(chargeId: string): FakeCharge {
+    const charge = this.charges.get(chargeId);
+
+    if (!charge) {
+      throw new Error(`Charge ${chargeId} not found`);
+    }
+
+    return charge;
+  }
+
+  private toCharge({ sourceId, refunded, ...charge }: FakeCharge): ProviderCharge {
+    return { ...charge, metadata: { ...charge.metadata } };
+  }
+}
@@ -0,0 +1,61 @@
+import { HttpError } from '../../utils/http-error';
+import type { PaymentProvider } from './types';
+import { StripePaymentProvider } from './stripe';
+import { SquarePaymentProvider } from './square';
+import { ManualPaymentProvider } from './manual';
+import { FakePaymentProvider } from './fake';
+
+export * from './types';
+export { FakePaymentProvider, fakeCardTokens } from './fake';
+
+const providers = new Map<string, PaymentProvider>();
+
+/**
+ * Add a provider, replacing any already registered under the same name
+ */
+export function registerPaymentProvider(provider: PaymentProvider): void {
+  providers.set(provider.name, provider);
+}
+
+/**
+ * Get the provider for a name stored in `integrations.provider` or
+ * `payments.provider`
+ */
+export function getPaymentProvider(name: string): PaymentProvider | undefined {
+  return providers.get(name);
+}
+
+/**
+ * Get a provider, throwing a 400 for names that aren't registered
+ */
+export function requirePaymentProvider(name: string): PaymentProvider {
+  const provider = providers.get(name);
+
+  if (!provider) {
+    throw new HttpError(400, `Unknown payment provider: ${name}`);
+  }
+
+  return provider;
+}
+
+export function getPaymentProviders(): PaymentProvider[] {
+  return Array.from(providers.values());
+}
+
+registerPaymentProvider(new ManualPaymentProvider());
+
+// The fake provider takes payments without charging anyone, so it is only
+// available in development or when fake providers are asked for
+if (process.env.PAYMENT_PROVIDERS === 'fake' || process.env.NODE_ENV !== 'production') {
+  registerPaymentProvider(new FakePaymentProvider());
+}
+
+// PAYMENT_PROVIDERS=fake swaps Stripe and Square for fake providers, so
+// every payment flow can be run end to end without a network
+if (process.env.PAYMENT_PROVIDERS === 'fake') {
+  registerPaymentProvider(new FakePaymentProvider('stripe', 'Stripe (test)'));
+  registerPaymentProvider(new FakePaymentProvider('square', 'Square (test)'));
+} else {
+  registerPaymentProvider(new StripePaymentProvider());
+  registerPaymentProvider(new SquarePaymentProvider());
+}
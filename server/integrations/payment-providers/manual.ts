@@ -0,0 +1,79 @@
+import { randomUUID } from 'crypto';
+import { db } from '../../db';
+import { payments } from '@shared/schema';
+import { eq, and } from 'drizzle-orm';
+import type {
+  PaymentProvider,
+  ChargeRequest,
+  ProviderCharge,
+  ProviderRefund,
+  ProviderConnectionStatus,
+} from './types';
+
+/**
+ * Cash, bank transfers and other payments taken outside the app. Nothing is
+ * sent anywhere: charges succeed straight away and the payments table is the
+ * only record of them.
+ */
+export class ManualPaymentProvider implements PaymentProvider {
+  readonly name = 'manual';
+  readonly displayName = 'Manual';
+
+  async createCharge(request: ChargeRequest): Promise<ProviderCharge> {
+    return {
+      id: `manual_${randomUUID()}`,
+      status: request.capture === false ? 'authorized' : 'succeeded',
+      amount: request.amount,
+      tipAmount: request.tipAmount || 0,
+      currency: request.currency,
+      clientSecret: null,
+      metadata: { ...(request.orderId && { orderId: request.orderId.toString() }), ...request.metadata },
+    };
+  }
+
+  async capture(userId: number, chargeId: string, amount?: number): Promise<ProviderCharge> {
+    const charge = await this.getCharge(userId, chargeId);
+    return { ...charge, status: 'succeeded', amount: amount ?? charge.amount };
+  }
+
+  async refund(userId: number, chargeId: string, amount: number): Promise<ProviderRefund> {
+    return { id: `manual_refund_${randomUUID()}`, status: 'completed', amount };
+  }
+
+  async getCharge(userId: number, chargeId: string): Promise<ProviderCharge> {
+    const [payment] = await db
+      .select()
+      .from(payments)
+      .where(and(eq(payments.paymentId, chargeId), eq(payments.userId, userId)));
+
+    if (!payment) {
+      throw new Error(`Manual payment ${chargeId} not found`);
+    }
+
+    return {
+      id: chargeId,
+      status: payment.status === 'pending' ? 'authorized' : payment.status === 'failed' ? 'failed' : 'succeeded',
+      amount: parseFloat(payment.amount),
+      tipAmount: parseFloat(payment.tipAmount || '0'),
+      currency: payment.currency || 'USD',
+      clientSecret: null,
+      metadata: { orderId: payment.orderId.toString() },
+    };
+  }
+
+  async getConnectionStatus(): Promise<ProviderConnectionStatus> {
+    return { configured: true, connected: true };
+  }
+
+  async connect(): Promise<string | null> {
+    return null;
+  }
+
+  async completeConnection() {
+    return { success: true };
+  }
+
+  async disconnect(): Promise<boolean> {
+    return true;
+  }
+}
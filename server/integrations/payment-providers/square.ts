@@ -0,0 +1,166 @@
+import { randomUUID } from 'crypto';
+import { db } from '../../db';
+import { integrations } from '@shared/schema';
+import { eq, and } from 'drizzle-orm';
+import { squareService } from '../../services/square';
+import type {
+  PaymentProvider,
+  ChargeRequest,
+  ProviderCharge,
+  ProviderChargeStatus,
+  ProviderRefund,
+  ProviderConnectionStatus,
+} from './types';
+
+const paymentStatuses: Record<string, ProviderChargeStatus> = {
+  APPROVED: 'authorized',
+  PENDING: 'pending',
+  COMPLETED: 'succeeded',
+  CANCELED: 'cancelled',
+  FAILED: 'failed',
+};
+
+const refundStatuses: Record<string, ProviderRefund['status']> = {
+  PENDING: 'pending',
+  COMPLETED: 'completed',
+  REJECTED: 'failed',
+  FAILED: 'failed',
+};
+
+// Square amounts are BigInts in the currency's smallest unit
+const toMoney = (amount: number, currency: string) => ({
+  amount: BigInt(Math.round(amount * 100)),
+  currency,
+});
+
+function toCharge(payment: any): ProviderCharge {
+  return {
+    id: payment.id,
+    status: paymentStatuses[payment.status] || 'pending',
+    amount: Number(payment.amountMoney?.amount || 0) / 100,
+    tipAmount: Number(payment.tipMoney?.amount || 0) / 100,
+    currency: payment.amountMoney?.currency || 'USD',
+    clientSecret: null,
+    metadata: payment.referenceId ? { orderId: payment.referenceId } : {},
+  };
+}
+
+/**
+ * Square payments. Charges are taken straight away from a card token made
+ * by the Square Web Payments SDK.
+ */
+export class SquarePaymentProvider implements PaymentProvider {
+  readonly name = 'square';
+  readonly displayName = 'Square';
+
+  async createCharge(request: ChargeRequest): Promise<ProviderCharge> {
+    if (!request.sourceId) {
+      throw new Error('A card token is needed to take a Square payment');
+    }
+
+    const client = await this.getClient(request.userId);
+    const locationId = await this.getLocationId(request.userId);
+    const tipAmount = request.tipAmount || 0;
+
+    const response = await client.paymentsApi.createPayment({
+      sourceId: request.sourceId,
+      idempotencyKey: randomUUID(),
+      amountMoney: toMoney(request.amount, request.currency),
+      ...(tipAmount > 0 && { tipMoney: toMoney(tipAmount, request.currency) }),
+      locationId,
+      ...(request.orderId && { referenceId: request.orderId.toString() }),
+      note: request.description || (request.orderId ? `Payment for order #${request.orderId}` : undefined),
+      autocomplete: request.capture !== false,
+    });
+
+    if (!response.result.payment) {
+      throw new Error('Payment failed');
+    }
+
+    return toCharge(response.result.payment);
+  }
+
+  async capture(userId: number, chargeId: string): Promise<ProviderCharge> {
+    // Square can only complete the full amount that was approved
+    const client = await this.getClient(userId);
+    const response = await client.paymentsApi.completePayment(chargeId, {});
+    return toCharge(response.result.payment);
+  }
+
+  async refund(userId: number, chargeId: string, amount: number, currency: string, reason?: string): Promise<ProviderRefund> {
+    const client = await this.getClient(userId);
+
+    const response = await client.refundsApi.refundPayment({
+      paymentId: chargeId,
+      idempotencyKey: randomUUID(),
+      amountMoney: toMoney(amount, currency),
+      reason,
+    });
+
+    if (!response.result.refund) {
+      throw new Error('Refund failed');
+    }
+
+    return {
+      id: response.result.refund.id,
+      status: refundStatuses[response.result.refund.status] || 'pending',
+      amount: Number(response.result.refund.amountMoney?.amount || 0) / 100,
+    };
+  }
+
+  async getCharge(userId: number, chargeId: string): Promise<ProviderCharge> {
+    const client = await this.getClient(userId);
+    const response = await client.paymentsApi.getPayment(chargeId);
+    return toCharge(response.result.payment);
+  }
+
+  async getConnectionStatus(userId: number): Promise<ProviderConnectionStatus> {
+    if (!process.env.SQUARE_APPLICATION_ID || !process.env.SQUARE_APPLICATION_SECRET) {
+      return { configured: false, connected: false };
+    }
+
+    return { configured: true, connected: await squareService.hasConnectedSquare(userId) };
+  }
+
+  async connect(userId: number): Promise<string | null> {
+    return squareService.getAuthUrl(userId);
+  }
+
+  async completeConnection(code: string, state: string) {
+    try {
+      return { success: await squareService.handleCallback(code, state) };
+    } catch (error: any) {
+      return { success: false, error: error.message };
+    }
+  }
+
+  async disconnect(userId: number): Promise<boolean> {
+    return await squareService.disconnectSquare(userId);
+  }
+
+  private async getClient(userId: number) {
+    const client = await squareService.getClientForUser(userId);
+
+    if (!client) {
+      throw new Error('User does not have an active Square integration');
+    }
+
+    return client;
+  }
+
+  private async getLocationId(userId: number): Promise<string> {
+    const [integration] = await db
+      .select()
+      .from(integrations)
+      .where(and(
+        eq(integrations.userId, userId),
+        eq(integrations.provider, 'square')
+      ));
+
+    if (!integration || !integration.locationId) {
+      throw new Error('No Square location found for this user');
+    }
+
+    return integration.locationId;
+  }
+}
@@ -0,0 +1,117 @@
+import type Stripe from 'stripe';
+import {
+  createPaymentIntent,
+  capturePaymentIntent,
+  retrievePaymentIntent,
+  createRefund,
+  splitTip,
+} from '../stripe';
+import { stripeService } from '../../services/stripe-service';
+import type {
+  PaymentProvider,
+  ChargeRequest,
+  ProviderCharge,
+  ProviderChargeStatus,
+  ProviderRefund,
+  ProviderConnectionStatus,
+} from './types';
+
+const intentStatuses: Record<Stripe.PaymentIntent.Status, ProviderChargeStatus> = {
+  requires_payment_method: 'requires_confirmation',
+  requires_confirmation: 'requires_confirmation',
+  requires_action: 'requires_confirmation',
+  processing: 'pending',
+  requires_capture: 'authorized',
+  succeeded: 'succeeded',
+  canceled: 'cancelled',
+};
+
+function toCharge(paymentIntent: Stripe.PaymentIntent): ProviderCharge {
+  const charged = paymentIntent.status === 'succeeded' ? paymentIntent.amount_received : paymentIntent.amount;
+  const { amount, tipAmount } = splitTip(paymentIntent, charged);
+
+  return {
+    id: paymentIntent.id,
+    status: intentStatuses[paymentIntent.status],
+    amount,
+    tipAmount,
+    currency: paymentIntent.currency.toUpperCase(),
+    clientSecret: paymentIntent.client_secret,
+    metadata: paymentIntent.metadata || {},
+  };
+}
+
+/**
+ * Stripe payments. Charges are payment intents that the client finishes with
+ * Stripe.js using the returned client secret.
+ */
+export class StripePaymentProvider implements PaymentProvider {
+  readonly name = 'stripe';
+  readonly displayName = 'Stripe';
+
+  async createCharge(request: ChargeRequest): Promise<ProviderCharge> {
+    const tipAmount = request.tipAmount || 0;
+
+    const paymentIntent = await createPaymentIntent(
+      Math.round((request.amount + tipAmount) * 100),
+      request.currency.toLowerCase(),
+      {
+        ...(request.orderId && { orderId: request.orderId.toString() }),
+        ...request.metadata,
+        ...(request.description && { description: request.description }),
+        // The tip is kept in the metadata so it can be split out again later
+        ...(tipAmount > 0 && { tipAmount: tipAmount.toFixed(2) }),
+      },
+      request.capture === false ? 'manual' : 'automatic'
+    );
+
+    return toCharge(paymentIntent);
+  }
+
+  async capture(userId: number, chargeId: string, amount?: number): Promise<ProviderCharge> {
+    const paymentIntent = await capturePaymentIntent(
+      chargeId,
+      amount !== undefined ? Math.round(amount * 100) : undefined
+    );
+    return toCharge(paymentIntent);
+  }
+
+  async refund(userId: number, chargeId: string, amount: number, currency: string, reason?: string): Promise<ProviderRefund> {
+    const refund = await createRefund(chargeId, Math.round(amount * 100), reason ? { reason } : {});
+    const statuses: Record<string, ProviderRefund['status']> = {
+      succeeded: 'completed',
+      failed: 'failed',
+      canceled: 'failed',
+    };
+
+    return {
+      id: refund.id,
+      status: statuses[refund.status || ''] || 'pending',
+      amount: refund.amount / 100,
+    };
+  }
+
+  async getCharge(userId: number, chargeId: string): Promise<ProviderCharge> {
+    return toCharge(await retrievePaymentIntent(chargeId));
+  }
+
+  async getConnectionStatus(userId: number): Promise<ProviderConnectionStatus> {
+    if (!stripeService.isConfigured()) {
+      return { configured: false, connected: false };
+    }
+
+    return { configured: true, connected: await stripeService.isUserConnected(userId) };
+  }
+
+  async connect(userId: number, redirectUri: string): Promise<string | null> {
+    return await stripeService.createOAuthLink(userId, redirectUri);
+  }
+
+  async completeConnection(code: string, state: string) {
+    return await stripeService.handleOAuthCallback(code, state);
+  }
+
+  async disconnect(userId: number): Promise<boolean> {
+    return await stripeService.disconnectAccount(userId);
+  }
+}
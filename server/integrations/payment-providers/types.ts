@@ -0,0 +1,103 @@
+/**
+ * Status of a charge as reported by a payment provider
+ * - requires_confirmation: waiting for the customer, e.g. to enter card details
+ * - authorized: approved but not captured yet
+ */
+export type ProviderChargeStatus =
+  | 'requires_confirmation'
+  | 'authorized'
+  | 'pending'
+  | 'succeeded'
+  | 'failed'
+  | 'cancelled';
+
+export type ProviderRefundStatus = 'pending' | 'completed' | 'failed';
+
+export interface ChargeRequest {
+  userId: number;
+  // Charges that aren't for an order are taken but never recorded
+  orderId?: number;
+  // Amount towards the order, in the currency's main unit
+  amount: number;
+  // Tip charged on top of the amount
+  tipAmount?: number;
+  currency: string;
+  // Card token from the provider's client-side SDK, for providers that charge
+  // straight away (Square)
+  sourceId?: string;
+  description?: string;
+  metadata?: Record<string, string>;
+  // Set to false to only authorize the charge and capture it later
+  capture?: boolean;
+}
+
+export interface ProviderCharge {
+  // The provider's ID for the charge, stored as payments.paymentId
+  id: string;
+  status: ProviderChargeStatus;
+  amount: number;
+  tipAmount: number;
+  currency: string;
+  // Secret the client uses to finish the payment, for providers that need it
+  clientSecret: string | null;
+  metadata: Record<string, string>;
+}
+
+export interface ProviderRefund {
+  id: string;
+  status: ProviderRefundStatus;
+  amount: number;
+}
+
+export interface ProviderConnectionStatus {
+  // The app has the credentials it needs for this provider
+  configured: boolean;
+  // The user has connected an account with this provider
+  connected: boolean;
+}
+
+/**
+ * A way of taking payments. Providers are registered under the name used
+ * for them in `integrations.provider` and `payments.provider`.
+ */
+export interface PaymentProvider {
+  readonly name: string;
+  readonly displayName: string;
+
+  /**
+   * Start a charge. Depending on the provider this either takes the payment
+   * straight away or returns a client secret for the client to finish it.
+   */
+  createCharge(request: ChargeRequest): Promise<ProviderCharge>;
+
+  /**
+   * Capture a charge that was only authorized, optionally for less than was
+   * authorized
+   */
+  capture(userId: number, chargeId: string, amount?: number): Promise<ProviderCharge>;
+
+  /**
+   * Refund all or part of a charge
+   */
+  refund(userId: number, chargeId: string, amount: number, currency: string, reason?: string): Promise<ProviderRefund>;
+
+  /**
+   * Fetch the current state of a charge
+   */
+  getCharge(userId: number, chargeId: string): Promise<ProviderCharge>;
+
+  getConnectionStatus(userId: number): Promise<ProviderConnectionStatus>;
+
+  /**
+   * Start connecting a user's account
+   * @returns The URL to send the user to, or null if there is nothing to connect
+   */
+  connect(userId: number, redirectUri: string): Promise<string | null>;
+
+  /**
+   * Finish connecting an account when the provider redirects back
+   */
+  completeConnection(code: string, state: string): Promise<{ success: boolean; error?: string }>;
+
+  disconnect(userId: number): Promise<boolean>;
+}
@@ -0,0 +1,41 @@
+import type { SmsProvider } from './types';
+import { TwilioSmsProvider } from './twilio';
+import { StubSmsProvider } from './stub';
+
+export * from './types';
+export { StubSmsProvider } from './stub';
+
+const providers = new Map<string, SmsProvider>();
+
+/**
+ * Add a provider, replacing any already registered under the same name
+ */
+export function registerSmsProvider(provider: SmsProvider): void {
+  providers.set(provider.name, provider);
+}
+
+export function getSmsProviders(): SmsProvider[] {
+  return Array.from(providers.values());
+}
+
+/**
+ * The provider text messages are sent with: SMS_PROVIDER when it is set,
+ * otherwise Twilio when it is configured, otherwise the stub
+ */
+export function getSmsProvider(): SmsProvider {
+  const name = process.env.SMS_PROVIDER;
+
+  if (name) {
+    const provider = providers.get(name);
+    if (!provider) {
+      throw new Error(`Unknown SMS provider: ${name}`);
+    }
+    return provider;
+  }
+
+  return getSmsProviders().find((provider) => provider.isConfigured()) || providers.get('stub')!;
+}
+
+// Registered in the order they're preferred in
+registerSmsProvider(new TwilioSmsProvider());
+registerSmsProvider(new StubSmsProvider());
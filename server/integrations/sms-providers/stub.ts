@@ -0,0 +1,36 @@
+import type { SmsProvider, SmsRequest, SmsResult } from './types';
+
+export interface StubSmsMessage extends SmsRequest {
+  id: string;
+  sentAt: Date;
+}
+
+/**
+ * Keeps messages in memory and writes them to the console instead of
+ * sending them, for trying out SMS offline. Numbers starting +1555 fail,
+ * like an unreachable number would.
+ */
+export class StubSmsProvider implements SmsProvider {
+  readonly name = 'stub';
+  readonly displayName = 'Test SMS';
+
+  readonly messages: StubSmsMessage[] = [];
+  private counter = 0;
+
+  isConfigured(): boolean {
+    return true;
+  }
+
+  async send(request: SmsRequest): Promise<SmsResult> {
+    if (request.to.startsWith('+1555')) {
+      throw new Error(`${request.to} is not reachable`);
+    }
+
+    this.counter += 1;
+    const message = { ...request, id: `stub_sms_${this.counter}`, sentAt: new Date() };
+    this.messages.push(message);
+    console.log(`[SMS to ${request.to}] ${request.body}`);
+
+    return { messageId: message.id };
+  }
+}
@@ -0,0 +1,42 @@
+import type { SmsProvider, SmsRequest, SmsResult } from './types';
+
+/**
+ * Sends through the Twilio Messages API using TWILIO_ACCOUNT_SID,
+ * TWILIO_AUTH_TOKEN and TWILIO_FROM_NUMBER (a number or messaging service SID)
+ */
+export class TwilioSmsProvider implements SmsProvider {
+  readonly name = 'twilio';
+  readonly displayName = 'Twilio';
+
+  isConfigured(): boolean {
+    return !!(process.env.TWILIO_ACCOUNT_SID && process.env.TWILIO_AUTH_TOKEN && process.env.TWILIO_FROM_NUMBER);
+  }
+
+  async send(request: SmsRequest): Promise<SmsResult> {
+    const { TWILIO_ACCOUNT_SID: accountSid, TWILIO_AUTH_TOKEN: authToken, TWILIO_FROM_NUMBER: from } = process.env;
+
+    if (!accountSid || !authToken || !from) {
+      throw new Error('Twilio is not configured');
+    }
+
+    const body = new URLSearchParams({ To: request.to, Body: request.body });
+    body.set(from.startsWith('MG') ? 'MessagingServiceSid' : 'From', from);
+
+    const response = await fetch(`https://api.twilio.com/2010-04-01/Accounts/${accountSid}/Messages.json`, {
+      method: 'POST',
+      headers: {
+        Authorization: `Basic ${Buffer.from(`${accountSid}:${authToken}`).toString('base64')}`,
+        'Content-Type': 'application/x-www-form-urlencoded',
+      },
+      body,
+    });
+
+    const result = await response.json().catch(() => ({}));
+
+    if (!response.ok) {
+      throw new Error(result.message || `Twilio returned ${response.status}`);
+    }
+
+    return { messageId: result.sid || null };
+  }
+}
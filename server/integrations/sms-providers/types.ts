@@ -0,0 +1,22 @@
+export interface SmsRequest {
+  // E.164
+  to: string;
+  body: string;
+}
+
+export interface SmsResult {
+  // The provider's ID for the message, stored as sms_messages.provider_message_id
+  messageId: string | null;
+}
+
+/**
+ * A way of sending text messages. Providers are registered under the name
+ * stored in `sms_messages.provider`. Failures are thrown.
+ */
+export interface SmsProvider {
+  readonly name: string;
+  readonly displayName: string;
+  // The app has the settings it needs to send with this provider
+  isConfigured(): boolean;
+  send(request: SmsRequest): Promise<SmsResult>;
+}
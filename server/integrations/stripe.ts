@@ -17,12 +17,14 @@ const stripe = process.env.STRIPE_SECRET_KEY
  * @param amount The amount to charge in the currency's smallest unit (e.g. cents for USD)
  * @param currency The currency code (default: USD)
  * @param metadata Additional metadata to attach to the payment intent
+ * @param captureMethod Use 'manual' to only authorize the payment and capture it later
  * @returns The created payment intent
  */
 export async function createPaymentIntent(
   amount: number,
   currency: string = 'aud',
-  metadata: Record<string, string> = {}
+  metadata: Record<string, string> = {},
+  captureMethod: 'automatic' | 'manual' = 'automatic'
 ) {
   if (!stripe) {
     throw new Error('Stripe is not initialized. Make sure STRIPE_SECRET_KEY is set.');
@@ -32,10 +34,27 @@ export async function createPaymentIntent(
     amount,
     currency,
     metadata,
+    capture_method: captureMethod,
     payment_method_types: ['card'],
   });
 }
 
+/**
+ * Captures a payment intent that was only authorized
+ * @param paymentIntentId The ID of the payment intent to capture
+ * @param amount The amount to capture in the currency's smallest unit (default: everything authorized)
+ * @returns The captured payment intent
+ */
+export async function capturePaymentIntent(paymentIntentId: string, amount?: number) {
+  if (!stripe) {
+    throw new Error('Stripe is not initialized. Make sure STRIPE_SECRET_KEY is set.');
+  }
+
+  return await stripe.paymentIntents.capture(paymentIntentId, {
+    ...(amount !== undefined && { amount_to_capture: amount }),
+  });
+}
+
 /**
  * Retrieves a payment intent by its ID
  * @param paymentIntentId The ID of the payment intent to retrieve
@@ -49,6 +68,45 @@ export async function retrievePaymentIntent(paymentIntentId: string) {
   return await stripe.paymentIntents.retrieve(paymentIntentId);
 }
 
+/**
+ * Splits what a payment intent charged into the payment itself and the tip
+ * added on top, which is kept in the intent's tipAmount metadata
+ * @param paymentIntent The payment intent
+ * @param charged The amount charged in the smallest currency unit (default: the intent's amount)
+ * @returns The payment amount and tip in the currency's main unit
+ */
+export function splitTip(paymentIntent: Stripe.PaymentIntent, charged: number = paymentIntent.amount) {
+  const tipAmount = parseFloat(paymentIntent.metadata?.tipAmount || '0') || 0;
+
+  return {
+    amount: Math.round(charged - tipAmount * 100) / 100,
+    tipAmount,
+  };
+}
+
+/**
+ * Refunds all or part of a payment intent
+ * @param paymentIntentId The ID of the payment intent to refund
+ * @param amount The amount to refund in the currency's smallest unit
+ * @param metadata Additional metadata to attach to the refund
+ * @returns The created refund
+ */
+export async function createRefund(
+  paymentIntentId: string,
+  amount: number,
+  metadata: Record<string, string> = {}
+) {
+  if (!stripe) {
+    throw new Error('Stripe is not initialized. Make sure STRIPE_SECRET_KEY is set.');
+  }
+
+  return await stripe.refunds.create({
+    payment_intent: paymentIntentId,
+    amount,
+    metadata,
+  });
+}
+
 /**
  * Creates a Stripe customer
  * @param email Customer's email address
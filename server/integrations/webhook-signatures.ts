@@ -0,0 +1,78 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+
+// How old a Stripe webhook timestamp can be before the event is refused
+const STRIPE_TOLERANCE_SECONDS = 300;
+
+function safeEqual(a: string, b: string): boolean {
+  const bufferA = Buffer.from(a);
+  const bufferB = Buffer.from(b);
+  return bufferA.length === bufferB.length && timingSafeEqual(bufferA, bufferB);
+}
+
+/**
+ * Build a Stripe-Signature header for a payload, as Stripe does when it
+ * sends a webhook
+ * @param payload The raw request body
+ * @param secret The webhook endpoint's signing secret
+ * @param timestamp Unix time in seconds the event was signed at
+ */
+export function signStripePayload(payload: string, secret: string, timestamp: number = Math.floor(Date.now() / 1000)): string {
+  const signature = createHmac('sha256', secret).update(`${timestamp}.${payload}`).digest('hex');
+  return `t=${timestamp},v1=${signature}`;
+}
+
+/**
+ * Check a Stripe-Signature header against the raw request body
+ * @param payload The raw request body
+ * @param header The Stripe-Signature header
+ * @param secret The webhook endpoint's signing secret
+ * @returns Whether the signature is valid and recent
+ */
+export function verifyStripeSignature(payload: string, header: string | undefined, secret: string): boolean {
+  if (!header) {
+    return false;
+  }
+
+  const parts = header.split(',').map((part) => part.split('='));
+  const timestamp = parseInt(parts.find(([key]) => key === 't')?.[1] || '');
+  const signatures = parts.filter(([key]) => key === 'v1').map(([, value]) => value);
+
+  if (isNaN(timestamp) || Math.abs(Date.now() / 1000 - timestamp) > STRIPE_TOLERANCE_SECONDS) {
+    return false;
+  }
+
+  const expected = createHmac('sha256', secret).update(`${timestamp}.${payload}`).digest('hex');
+  return signatures.some((signature) => safeEqual(signature, expected));
+}
+
+/**
+ * Build an x-square-hmacsha256-signature header for a payload, as Square
+ * does when it sends a webhook
+ * @param payload The raw request body
+ * @param signatureKey The webhook subscription's signature key
+ * @param notificationUrl The URL the webhook is sent to
+ */
+export function signSquarePayload(payload: string, signatureKey: string, notificationUrl: string): string {
+  return createHmac('sha256', signatureKey).update(notificationUrl + payload).digest('base64');
+}
+
+/**
+ * Check an x-square-hmacsha256-signature header against the raw request body
+ * @param payload The raw request body
+ * @param header The x-square-hmacsha256-signature header
+ * @param signatureKey The webhook subscription's signature key
+ * @param notificationUrl The URL the webhook subscription sends to
+ * @returns Whether the signature is valid
+ */
+export function verifySquareSignature(
+  payload: string,
+  header: string | undefined,
+  signatureKey: string,
+  notificationUrl: string
+): boolean {
+  if (!header) {
+    return false;
+  }
+
+  return safeEqual(header, signSquarePayload(payload, signatureKey, notificationUrl));
+}
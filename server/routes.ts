@@ -2,6 +2,7 @@ import type { Express } from "express";
 import { createServer, type Server } from "http";
 import { storage } from "./storage";
 import { pool } from "./db";
+import { paymentLedgerService, withLedger } from "./services/payment-ledger";
 import { router as dataRoutes } from "./routes/data-fixed";
 import { router as xeroRoutes } from "./routes/xero";
 import { router as uploadRoutes } from "./routes/upload";
@@ -10,6 +11,7 @@ import { router as invoicesRoutes } from "./routes/invoices";
 import { router as sampleInvoiceRoutes } from "./routes/sample-invoice";
 import { router as paymentRemindersRoutes } from "./routes/payment-reminders";
 import { router as reportRoutes } from "./routes/reports";
+import { router as dashboardRouter } from "./routes/dashboard";
 import { router as settingsRouter } from "./routes/settings";
 import { router as taxRatesRouter } from "./routes/tax-rates";
 import { router as featuresRouter } from "./routes/features";
@@ -20,11 +22,17 @@ import subscriptionRouter from "./routes/subscription";
 import integrationsRouter from "./routes/integrations";
 import ordersRouter, { registerOrdersDirectRoutes } from "./routes/orders-direct";
 import orderLogsRouter from "./routes/order-logs";
+import orderStatusRouter from "./routes/order-status";
+import orderDocumentsRouter from "./routes/order-documents";
+import portalRouter from "./routes/portal";
 import bakeDiaryImportRouter from "./routes/bake-diary-import";
 import ingredientsImportRouter from "./routes/ingredients-import";
 import ordersImportRouter from "./routes/orders-import";
 import { quotesImportRouter } from "./routes/quotes-import";
 import quotesImportHandler from "./routes/quotes-import-handler";
+import quotesRouter from "./routes/quotes";
+import recurringOrdersRouter from "./routes/recurring-orders";
+import availabilityRouter from "./routes/availability";
 import orderItemsImportRouter from "./routes/order-items-import";
 import ordersImportHandler from "./routes/orders-import-handler";
 import orderItemsImportHandler from "./routes/order-items-import-handler";
@@ -48,7 +56,16 @@ import mileageRouter from "./routes/mileage";
 import orderTasksRouter from "./routes/order-tasks";
 import orderNotesRouter from "./routes/order-notes";
 import scheduledPaymentsRouter from "./routes/scheduled-payments";
+import orderPaymentsRouter from "./routes/order-payments";
+import paymentPlansRouter from "./routes/payment-plans";
 import paymentsRouter from "./routes/payments";
+import webhooksRouter from "./routes/webhooks";
+import paymentSettingsRouter from "./routes/payment-settings";
+import accountingExportRouter from "./routes/accounting-export";
+import invoiceTemplatesRouter from "./routes/invoice-templates";
+import emailTemplatesRouter from "./routes/email-templates";
+import emailsRouter from "./routes/emails";
+import customerAutomationsRouter from "./routes/customer-automations";
 import { router as subscriptionPaymentRouter } from "./routes/subscription-payment";
 import subscriptionTrialRouter from "./routes/subscription-trial-fixed";
 
@@ -83,7 +100,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
       res.setHeader('Pragma', 'no-cache');
       res.setHeader('Expires', '0');
       
-      res.json(result.rows);
+      const ledgers = await paymentLedgerService.getLedgers(result.rows.map((row: any) => row.id));
+      
+      res.json(result.rows.map((row: any) => withLedger(row, ledgers.get(row.id))));
     } catch (error) {
       console.error("Error fetching orders:", error);
       res.status(500).json({ success: false, error: "Failed to fetch orders" });
@@ -113,12 +132,27 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Register sample invoice route for preview
   app.use('/api/sample-invoice', sampleInvoiceRoutes);
   
+  // Register invoice layout and custom template routes
+  app.use(invoiceTemplatesRouter);
+  
+  // Register email template preview route
+  app.use(emailTemplatesRouter);
+  
+  // Register email outbox routes (emails sent for orders and contacts)
+  app.use(emailsRouter);
+  
+  // Register customer automation routes (confirmation, reminder and thank you emails)
+  app.use(customerAutomationsRouter);
+  
   // Register payment reminders routes
   app.use('/api/reminders', paymentRemindersRoutes);
   
   // Register reports routes
   app.use('/api/reports', reportRoutes);
   
+  // Register dashboard routes
+  app.use('/api/dashboard', dashboardRouter);
+  
   // Register settings routes
   app.use('/api/settings', settingsRouter);
   
@@ -145,6 +179,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Register orders routes - IMPORTANT: Direct routes must come first to take precedence
   app.use(ordersRouter);
   
+  // Register order status workflow routes
+  app.use(orderStatusRouter);
+  
+  // Register printable order document routes (job sheets, order forms, delivery notes)
+  app.use(orderDocumentsRouter);
+  
+  // Register customer portal routes (public, token-protected)
+  app.use(portalRouter);
+  
   // Register order logs routes
   app.use(orderLogsRouter);
   
@@ -190,9 +233,24 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.use(orderNotesRouter);
   app.use(scheduledPaymentsRouter);
   
+  // Register order payment ledger routes
+  app.use(orderPaymentsRouter);
+  
+  // Register payment plan routes
+  app.use(paymentPlansRouter);
+  
   // Register payment processing routes
   app.use('/api/payments', paymentsRouter);
   
+  // Register payment provider webhook routes
+  app.use(webhooksRouter);
+  
+  // Register payment settings routes (tipping)
+  app.use(paymentSettingsRouter);
+  
+  // Register accounting export routes (QuickBooks, Sage, journals)
+  app.use(accountingExportRouter);
+  
   // Register subscription payment routes
   app.use('/api/subscription', subscriptionPaymentRouter);
   
@@ -231,6 +289,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.use(orderItemsImportHandler);
   app.use(quotesImportHandler);
   
+  // Register quotes routes (after the import handler so /api/quotes/import still matches)
+  app.use('/api/quotes', quotesRouter);
+  
+  // Register recurring (standing) order routes
+  app.use('/api/recurring-orders', recurringOrdersRouter);
+  
+  // Register availability routes (blocked dates and daily capacity)
+  app.use('/api/availability', availabilityRouter);
+  
 
 
   // use storage to perform CRUD operations on the storage interface
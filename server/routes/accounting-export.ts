@@ -0,0 +1,76 @@
+import { Router, Request, Response } from "express";
+import { z } from "zod";
+import { accountCodesSchema, accountingExportFormats } from "@shared/accounting-export";
+import { accountingExportService } from "../services/accounting-export";
+
+const router = Router();
+
+const isoDate = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Dates must be YYYY-MM-DD");
+
+const exportQuerySchema = z.object({
+  from: isoDate.optional(),
+  to: isoDate.optional(),
+});
+
+/**
+ * Download sales, receipts, expenses and mileage for a date range in an
+ * accounting package's import format
+ */
+router.get("/api/data/export/accounting/:format", async (req: Request, res: Response) => {
+  try {
+    const userId = req.session?.userId || 1;
+
+    const format = z.enum(accountingExportFormats).safeParse(req.params.format);
+    if (!format.success) {
+      return res.status(400).json({ error: `Unsupported export format: ${req.params.format}` });
+    }
+
+    const validation = exportQuerySchema.safeParse(req.query);
+    if (!validation.success) {
+      return res.status(400).json({ error: "Invalid date range", details: validation.error.errors });
+    }
+
+    const { content, filename, contentType } = await accountingExportService.export(userId, format.data, validation.data);
+
+    res.setHeader("Content-Type", contentType);
+    res.setHeader("Content-Disposition", `attachment; filename="${filename}"`);
+    res.send(content);
+  } catch (error) {
+    console.error("Error exporting accounting data:", error);
+    res.status(500).json({ error: "Failed to export accounting data" });
+  }
+});
+
+/**
+ * Get the account codes used by accounting exports
+ */
+router.get("/api/settings/account-codes", async (req: Request, res: Response) => {
+  try {
+    const userId = req.session?.userId || 1;
+    res.json(await accountingExportService.getAccountCodes(userId));
+  } catch (error) {
+    console.error("Error fetching account codes:", error);
+    res.status(500).json({ error: "Failed to fetch account codes" });
+  }
+});
+
+/**
+ * Save the account codes used by accounting exports
+ */
+router.post("/api/settings/account-codes", async (req: Request, res: Response) => {
+  try {
+    const userId = req.session?.userId || 1;
+
+    const validation = accountCodesSchema.safeParse(req.body);
+    if (!validation.success) {
+      return res.status(400).json({ error: "Invalid account codes", details: validation.error.errors });
+    }
+
+    res.json(await accountingExportService.updateAccountCodes(userId, validation.data));
+  } catch (error: any) {
+    console.error("Error saving account codes:", error);
+    res.status(error.status || 500).json({ error: error.status ? error.message : "Failed to save account codes" });
+  }
+});
+
+export default router;
@@ -0,0 +1,211 @@
+import { Router, Request, Response } from "express";
+import { db } from "../db";
+import { blockedDates, dailyCapacity, insertBlockedDateSchema } from "@shared/schema";
+import { describeAvailability } from "@shared/availability";
+import { eq, and, asc, notInArray } from "drizzle-orm";
+import { z } from "zod";
+import { availabilityService } from "../services/availability";
+
+const router = Router();
+
+const dateString = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Dates must be YYYY-MM-DD");
+
+const blockedDateInputSchema = insertBlockedDateSchema
+  .omit({ userId: true })
+  .extend({
+    startDate: dateString,
+    endDate: dateString.optional(),
+  });
+
+const capacityInputSchema = z.array(z.object({
+  weekday: z.number().int().min(0).max(6),
+  maxOrders: z.number().int().min(0).nullable(),
+  maxLaborHours: z.coerce.string().nullable(),
+}));
+
+/**
+ * Get the availability of each date in a range
+ */
+router.get("/", async (req: Request, res: Response) => {
+  try {
+    const userId = req.session?.userId || 1;
+    const { from, to } = req.query;
+
+    const range = z.object({ from: dateString, to: dateString }).safeParse({ from, to });
+    if (!range.success) {
+      return res.status(400).json({ error: "from and to dates (YYYY-MM-DD) are required" });
+    }
+
+    res.json(await availabilityService.getAvailability(userId, range.data.from, range.data.to));
+  } catch (error) {
+    console.error("Error fetching availability:", error);
+    res.status(500).json({ error: "Failed to fetch availability" });
+  }
+});
+
+/**
+ * Check whether another order can be taken on a date
+ */
+router.get("/check", async (req: Request, res: Response) => {
+  try {
+    const userId = req.session?.userId || 1;
+    const date = dateString.safeParse(req.query.date);
+
+    if (!date.success) {
+      return res.status(400).json({ error: "A date (YYYY-MM-DD) is required" });
+    }
+
+    const availability = await availabilityService.checkDate(userId, date.data, {
+      laborHours: parseFloat(req.query.laborHours as string) || 0,
+      excludeOrderId: req.query.excludeOrderId ? parseInt(req.query.excludeOrderId as string) : undefined,
+    });
+
+    res.json({ ...availability, message: describeAvailability(availability) });
+  } catch (error) {
+    console.error("Error checking availability:", error);
+    res.status(500).json({ error: "Failed to check availability" });
+  }
+});
+
+/**
+ * Get all blocked date ranges
+ */
+router.get("/blocked-dates", async (req: Request, res: Response) => {
+  try {
+    const userId = req.session?.userId || 1;
+
+    const result = await db
+      .select()
+      .from(blockedDates)
+      .where(eq(blockedDates.userId, userId))
+      .orderBy(asc(blockedDates.startDate));
+
+    res.json(result);
+  } catch (error) {
+    console.error("Error fetching blocked dates:", error);
+    res.status(500).json({ error: "Failed to fetch blocked dates" });
+  }
+});
+
+/**
+ * Block out a date range
+ */
+router.post("/blocked-dates", async (req: Request, res: Response) => {
+  try {
+    const userId = req.session?.userId || 1;
+
+    const validation = blockedDateInputSchema.safeParse(req.body);
+    if (!validation.success) {
+      return res.status(400).json({ error: "Invalid blocked date data", details: validation.error.errors });
+    }
+
+    const { startDate, endDate = startDate, reason } = validation.data;
+
+    if (endDate < startDate) {
+      return res.status(400).json({ error: "End date must be on or after the start date" });
+    }
+
+    const [blockedDate] = await db
+      .insert(blockedDates)
+      .values({ userId, startDate, endDate, reason })
+      .returning();
+
+    res.status(201).json(blockedDate);
+  } catch (error) {
+    console.error("Error creating blocked date:", error);
+    res.status(500).json({ error: "Failed to block date" });
+  }
+});
+
+/**
+ * Remove a blocked date range
+ */
+router.delete("/blocked-dates/:id", async (req: Request, res: Response) => {
+  try {
+    const blockedDateId = parseInt(req.params.id);
+    const userId = req.session?.userId || 1;
+
+    const [deleted] = await db
+      .delete(blockedDates)
+      .where(and(eq(blockedDates.id, blockedDateId), eq(blockedDates.userId, userId)))
+      .returning();
+
+    if (!deleted) {
+      return res.status(404).json({ error: "Blocked date not found" });
+    }
+
+    res.json({ success: true, message: "Blocked date removed successfully" });
+  } catch (error) {
+    console.error("Error deleting blocked date:", error);
+    res.status(500).json({ error: "Failed to remove blocked date" });
+  }
+});
+
+/**
+ * Get the capacity limits for each day of the week
+ */
+router.get("/capacity", async (req: Request, res: Response) => {
+  try {
+    const userId = req.session?.userId || 1;
+
+    const result = await db
+      .select()
+      .from(dailyCapacity)
+      .where(eq(dailyCapacity.userId, userId))
+      .orderBy(asc(dailyCapacity.weekday));
+
+    res.json(result);
+  } catch (error) {
+    console.error("Error fetching capacity:", error);
+    res.status(500).json({ error: "Failed to fetch capacity" });
+  }
+});
+
+/**
+ * Replace the capacity limits for each day of the week
+ */
+router.put("/capacity", async (req: Request, res: Response) => {
+  try {
+    const userId = req.session?.userId || 1;
+
+    const validation = capacityInputSchema.safeParse(req.body);
+    if (!validation.success) {
+      return res.status(400).json({ error: "Invalid capacity data", details: validation.error.errors });
+    }
+
+    const weekdays = validation.data.map((day) => day.weekday);
+
+    const result = await db.transaction(async (tx) => {
+      // Days left out have no limit
+      await tx
+        .delete(dailyCapacity)
+        .where(and(
+          eq(dailyCapacity.userId, userId),
+          weekdays.length > 0 ? notInArray(dailyCapacity.weekday, weekdays) : undefined
+        ));
+
+      for (const day of validation.data) {
+        await tx
+          .insert(dailyCapacity)
+          .values({ ...day, userId })
+          .onConflictDoUpdate({
+            target: [dailyCapacity.userId, dailyCapacity.weekday],
+            set: { maxOrders: day.maxOrders, maxLaborHours: day.maxLaborHours, updatedAt: new Date() },
+          });
+      }
+
+      return await tx
+        .select()
+        .from(dailyCapacity)
+        .where(eq(dailyCapacity.userId, userId))
+        .orderBy(asc(dailyCapacity.weekday));
+    });
+
+    res.json(result);
+  } catch (error) {
+    console.error("Error updating capacity:", error);
+    res.status(500).json({ error: "Failed to update capacity" });
+  }
+});
+
+export default router;
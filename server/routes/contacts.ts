@@ -22,6 +22,8 @@ router.get("/", async (req: Request, res: Response) => {
       phone: contacts.phone,
       address: contacts.address,
       notes: contacts.notes,
+      smsOptIn: contacts.smsOptIn,
+      smsOptInAt: contacts.smsOptInAt,
       createdAt: contacts.createdAt
     }).from(contacts).orderBy(contacts.lastName);
     
@@ -48,6 +50,8 @@ router.get("/:id", async (req: Request, res: Response) => {
       phone: contacts.phone,
       address: contacts.address,
       notes: contacts.notes,
+      smsOptIn: contacts.smsOptIn,
+      smsOptInAt: contacts.smsOptInAt,
       createdAt: contacts.createdAt
     }).from(contacts).where(eq(contacts.id, id));
     
@@ -86,8 +90,11 @@ router.post("/", async (req: Request, res: Response) => {
       });
     }
     
-    // Insert contact into database
-    const [newContact] = await db.insert(contacts).values(validateResult.data).returning();
+    // Insert contact into database, noting when they agreed to texts
+    const [newContact] = await db
+      .insert(contacts)
+      .values({ ...validateResult.data, smsOptInAt: validateResult.data.smsOptIn ? new Date() : null })
+      .returning();
     console.log("New contact created:", newContact);
     
     return res.status(201).json(newContact);
@@ -114,17 +121,26 @@ router.put("/:id", async (req: Request, res: Response) => {
       });
     }
     
+    const [existing] = await db
+      .select({ smsOptIn: contacts.smsOptIn, smsOptInAt: contacts.smsOptInAt })
+      .from(contacts)
+      .where(eq(contacts.id, id));
+    
+    if (!existing) {
+      return res.status(404).json({ message: "Contact not found" });
+    }
+    
+    // Keep when they first agreed to texts, and clear it if they opt out
+    const smsOptIn = validateResult.data.smsOptIn ?? existing.smsOptIn;
+    const smsOptInAt = smsOptIn ? existing.smsOptInAt || new Date() : null;
+    
     // Update contact in database
     const [updatedContact] = await db
       .update(contacts)
-      .set(validateResult.data)
+      .set({ ...validateResult.data, smsOptIn, smsOptInAt })
       .where(eq(contacts.id, id))
       .returning();
     
-    if (!updatedContact) {
-      return res.status(404).json({ message: "Contact not found" });
-    }
-    
     return res.status(200).json(updatedContact);
   } catch (error) {
     console.error("Error updating contact:", error);
@@ -0,0 +1,39 @@
+import { Router, Request, Response } from "express";
+import { customerAutomationsSchema } from "@shared/customer-automations";
+import { customerAutomationService } from "../services/customer-automations";
+
+const router = Router();
+
+/**
+ * Get the customer automations, with defaults for any not set up yet
+ */
+router.get("/api/customer-automations", async (req: Request, res: Response) => {
+  try {
+    const userId = req.session?.userId || 1;
+    res.json(await customerAutomationService.getAutomations(userId));
+  } catch (error: any) {
+    console.error("Error fetching customer automations:", error);
+    res.status(error.status || 500).json({ error: error.status ? error.message : "Failed to fetch customer automations" });
+  }
+});
+
+/**
+ * Save the customer automations and the review link
+ */
+router.put("/api/customer-automations", async (req: Request, res: Response) => {
+  try {
+    const userId = req.session?.userId || 1;
+
+    const validation = customerAutomationsSchema.safeParse(req.body);
+    if (!validation.success) {
+      return res.status(400).json({ error: "Invalid customer automations", details: validation.error.errors });
+    }
+
+    res.json(await customerAutomationService.saveAutomations(userId, validation.data));
+  } catch (error: any) {
+    console.error("Error saving customer automations:", error);
+    res.status(error.status || 500).json({ error: error.status ? error.message : "Failed to save customer automations" });
+  }
+});
+
+export default router;
@@ -0,0 +1,99 @@
+import { Router } from "express";
+import { db } from "../db";
+import { orders, contacts, tasks } from "@shared/schema";
+import { eq, and } from "drizzle-orm";
+import { normalizeOrderStatus } from "@shared/order-status";
+import { paymentLedgerService } from "../services/payment-ledger";
+
+export const router = Router();
+
+// How far ahead the dashboard looks for upcoming orders and scheduled payments
+const UPCOMING_ORDER_DAYS = 7;
+const UPCOMING_PAYMENT_DAYS = 30;
+
+const addDays = (date: string, days: number) => {
+  const result = new Date(`${date}T00:00:00Z`);
+  result.setUTCDate(result.getUTCDate() + days);
+  return result.toISOString().split("T")[0];
+};
+
+/**
+ * Get dashboard summary figures and the scheduled payments that are overdue
+ * or due soon
+ */
+router.get("/stats", async (req, res) => {
+  try {
+    const userId = req.session?.userId || 1;
+    const today = new Date().toISOString().split("T")[0];
+
+    const orderRows = await db
+      .select({
+        id: orders.id,
+        orderNumber: orders.orderNumber,
+        eventDate: orders.eventDate,
+        status: orders.status,
+        firstName: contacts.firstName,
+        lastName: contacts.lastName,
+      })
+      .from(orders)
+      .leftJoin(contacts, eq(orders.contactId, contacts.id))
+      .where(eq(orders.userId, userId));
+
+    // Quotes and cancelled orders are not owed anything
+    const activeOrders = orderRows.filter(
+      (order) => !["Quote", "Cancelled"].includes(normalizeOrderStatus(order.status))
+    );
+
+    const ledgers = await paymentLedgerService.getLedgers(orderRows.map((order) => order.id));
+
+    const pendingTasks = await db
+      .select({ id: tasks.id })
+      .from(tasks)
+      .where(and(eq(tasks.userId, userId), eq(tasks.completed, false)));
+
+    let totalRevenue = 0;
+    let outstandingBalance = 0;
+    let overdueAmount = 0;
+    const upcomingPayments = [];
+
+    for (const order of orderRows) {
+      totalRevenue += ledgers.get(order.id)?.amountPaid || 0;
+    }
+
+    for (const order of activeOrders) {
+      const ledger = ledgers.get(order.id);
+      if (!ledger) continue;
+
+      outstandingBalance += Math.max(ledger.balance, 0);
+      overdueAmount += ledger.overdueAmount;
+
+      for (const instalment of ledger.instalments) {
+        if (instalment.isPaid || instalment.dueDate > addDays(today, UPCOMING_PAYMENT_DAYS)) continue;
+
+        upcomingPayments.push({
+          ...instalment,
+          orderId: order.id,
+          orderNumber: order.orderNumber,
+          customerName: [order.firstName, order.lastName].filter(Boolean).join(" "),
+        });
+      }
+    }
+
+    upcomingPayments.sort((a, b) => a.dueDate.localeCompare(b.dueDate));
+
+    const upcomingEnd = addDays(today, UPCOMING_ORDER_DAYS);
+
+    res.json({
+      totalOrders: activeOrders.length,
+      totalRevenue: totalRevenue.toFixed(2),
+      upcomingOrders: activeOrders.filter((order) => order.eventDate >= today && order.eventDate <= upcomingEnd).length,
+      pendingTasks: pendingTasks.length,
+      outstandingBalance: outstandingBalance.toFixed(2),
+      overdueAmount: overdueAmount.toFixed(2),
+      scheduledPayments: upcomingPayments,
+    });
+  } catch (error) {
+    console.error("Error fetching dashboard stats:", error);
+    res.status(500).json({ error: "Failed to fetch dashboard stats" });
+  }
+});
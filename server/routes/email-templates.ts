@@ -0,0 +1,27 @@
+import { Router, Request, Response } from "express";
+import { emailTemplatePreviewSchema } from "@shared/email-templates";
+import { emailTemplateService } from "../services/email-templates";
+
+const router = Router();
+
+/**
+ * Fill in an email template as it is being edited, against the chosen order,
+ * the latest order or a sample one
+ */
+router.post("/api/email-templates/preview", async (req: Request, res: Response) => {
+  try {
+    const userId = req.session?.userId || 1;
+
+    const validation = emailTemplatePreviewSchema.safeParse(req.body);
+    if (!validation.success) {
+      return res.status(400).json({ error: "Invalid email template", details: validation.error.errors });
+    }
+
+    res.json(await emailTemplateService.preview(userId, validation.data));
+  } catch (error: any) {
+    console.error("Error previewing email template:", error);
+    res.status(error.status || 500).json({ error: error.status ? error.message : "Failed to preview email template" });
+  }
+});
+
+export default router;
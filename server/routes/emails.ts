@@ -0,0 +1,82 @@
+import { Router, Request, Response } from "express";
+import { emailOutboxService } from "../services/email-outbox";
+
+const router = Router();
+
+/**
+ * Emails queued or sent for an order
+ */
+router.get("/api/orders/:id/emails", async (req: Request, res: Response) => {
+  try {
+    const userId = req.session?.userId || 1;
+    const orderId = parseInt(req.params.id);
+
+    if (isNaN(orderId)) {
+      return res.status(400).json({ error: "Invalid order ID" });
+    }
+
+    res.json(await emailOutboxService.getOrderEmails(orderId, userId));
+  } catch (error: any) {
+    console.error("Error fetching order emails:", error);
+    res.status(error.status || 500).json({ error: error.status ? error.message : "Failed to fetch order emails" });
+  }
+});
+
+/**
+ * Emails queued or sent to a contact
+ */
+router.get("/api/contacts/:id/emails", async (req: Request, res: Response) => {
+  try {
+    const userId = req.session?.userId || 1;
+    const contactId = parseInt(req.params.id);
+
+    if (isNaN(contactId)) {
+      return res.status(400).json({ error: "Invalid contact ID" });
+    }
+
+    res.json(await emailOutboxService.getContactEmails(contactId, userId));
+  } catch (error: any) {
+    console.error("Error fetching contact emails:", error);
+    res.status(error.status || 500).json({ error: error.status ? error.message : "Failed to fetch contact emails" });
+  }
+});
+
+/**
+ * A single email with its body
+ */
+router.get("/api/emails/:id", async (req: Request, res: Response) => {
+  try {
+    const userId = req.session?.userId || 1;
+    const emailId = parseInt(req.params.id);
+
+    if (isNaN(emailId)) {
+      return res.status(400).json({ error: "Invalid email ID" });
+    }
+
+    res.json(await emailOutboxService.getEmail(emailId, userId));
+  } catch (error: any) {
+    console.error("Error fetching email:", error);
+    res.status(error.status || 500).json({ error: error.status ? error.message : "Failed to fetch email" });
+  }
+});
+
+/**
+ * Send a failed email again
+ */
+router.post("/api/emails/:id/retry", async (req: Request, res: Response) => {
+  try {
+    const userId = req.session?.userId || 1;
+    const emailId = parseInt(req.params.id);
+
+    if (isNaN(emailId)) {
+      return res.status(400).json({ error: "Invalid email ID" });
+    }
+
+    res.json(await emailOutboxService.retry(emailId, userId));
+  } catch (error: any) {
+    console.error("Error retrying email:", error);
+    res.status(error.status || 500).json({ error: error.status ? error.message : "Failed to retry email" });
+  }
+});
+
+export default router;
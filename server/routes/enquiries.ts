@@ -2,6 +2,8 @@ import { Router, Request, Response } from "express";
 import { db } from "../db";
 import { enquiries } from "@shared/schema";
 import { eq, sql, desc } from "drizzle-orm";
+import { describeAvailability, isDateString } from "@shared/availability";
+import { availabilityService } from "../services/availability";
 
 export const router = Router();
 
@@ -94,12 +96,27 @@ router.post("/", async (req: Request, res: Response) => {
       return res.status(400).json({ error: "Message is required" });
     }
     
+    // Refuse enquiries for dates that are blocked, closed or fully booked
+    const eventDate = req.body.eventDate ? String(req.body.eventDate).split("T")[0] : null;
+    if (eventDate && !isDateString(eventDate)) {
+      return res.status(400).json({ error: "Event date must be YYYY-MM-DD" });
+    }
+    if (eventDate) {
+      const availability = await availabilityService.checkDate(userId, eventDate);
+      if (availability.status !== "available") {
+        return res.status(409).json({ 
+          error: describeAvailability(availability),
+          availability
+        });
+      }
+    }
+    
     // Add required fields based on database constraints
     const simplifiedQuery = `
       INSERT INTO enquiries
-        (user_id, date, details, status, created_at, updated_at, event_type)
+        (user_id, date, details, status, created_at, updated_at, event_type, event_date)
       VALUES
-        ($1, $2, $3, $4, $5, $6, $7)
+        ($1, $2, $3, $4, $5, $6, $7, $8)
       RETURNING *
     `;
     
@@ -110,7 +127,8 @@ router.post("/", async (req: Request, res: Response) => {
       'New',
       now,
       now,
-      req.body.eventType || 'Other' // Make sure event_type is included
+      req.body.eventType || 'Other', // Make sure event_type is included
+      eventDate
     ];
     
     console.log("Executing simplified SQL query:", simplifiedQuery);
@@ -132,8 +150,8 @@ router.post("/", async (req: Request, res: Response) => {
     console.error("Error stack:", error.stack);
     console.error("------------------------------------");
     
-    res.status(500).json({ 
-      error: "Failed to create enquiry", 
+    res.status(error.status || 500).json({ 
+      error: error.status ? error.message : "Failed to create enquiry", 
       details: error.message
     });
   }
@@ -1,6 +1,5 @@
 import { Router, Request, Response } from 'express';
-import { stripeService } from '../services/stripe-service';
-import { squareService } from '../services/square-service';
+import { getPaymentProvider, type PaymentProvider } from '../integrations/payment-providers';
 
 const router = Router();
 
@@ -12,168 +11,105 @@ const isAuthenticated = (req: Request, res: Response, next: Function) => {
   return res.status(401).json({ error: 'Unauthorized' });
 };
 
-// Get Stripe connection status
-router.get('/stripe/status', isAuthenticated, async (req: Request, res: Response) => {
-  try {
-    if (!stripeService.isConfigured()) {
-      return res.status(200).json({ configured: false, connected: false });
-    }
+// Look up the payment provider named in the URL (stripe, square, ...).
+// Other names are left for routes further down to handle.
+router.param('provider', (req, res, next, name: string) => {
+  const provider = getPaymentProvider(name);
 
-    const isConnected = await stripeService.isUserConnected(req.user!.id);
-    return res.status(200).json({ configured: true, connected: isConnected });
-  } catch (error: any) {
-    console.error('Error getting Stripe status:', error);
-    return res.status(500).json({ error: error.message || 'Failed to get Stripe status' });
+  if (!provider) {
+    return next('route');
   }
-});
-
-// Generate OAuth URL for connecting with Stripe
-router.post('/stripe/connect', isAuthenticated, async (req: Request, res: Response) => {
-  try {
-    if (!stripeService.isConfigured()) {
-      return res.status(400).json({ error: 'Stripe is not configured' });
-    }
-
-    const { redirectUri } = req.body;
-    
-    if (!redirectUri) {
-      return res.status(400).json({ error: 'Redirect URI is required' });
-    }
 
-    const authUrl = await stripeService.createOAuthLink(req.user!.id, redirectUri);
-    return res.status(200).json({ authUrl });
-  } catch (error: any) {
-    console.error('Error creating Stripe OAuth link:', error);
-    return res.status(500).json({ error: error.message || 'Failed to create Stripe OAuth link' });
-  }
+  res.locals.provider = provider;
+  next();
 });
 
-// Callback endpoint for Stripe OAuth
-router.get('/stripe/callback', async (req: Request, res: Response) => {
-  try {
-    const { code, state } = req.query;
-    
-    if (!code || !state) {
-      return res.redirect('/payment-settings/stripe?error=invalid_request');
-    }
-
-    const result = await stripeService.handleOAuthCallback(
-      code as string,
-      state as string
-    );
-
-    if (result.success) {
-      return res.redirect('/payment-settings/stripe?success=true');
-    } else {
-      return res.redirect(`/payment-settings/stripe?error=${encodeURIComponent(result.error || 'unknown')}`);
-    }
-  } catch (error: any) {
-    console.error('Error handling Stripe callback:', error);
-    return res.redirect(`/payment-settings/stripe?error=${encodeURIComponent(error.message || 'unknown')}`);
-  }
-});
+// Get a provider's connection status
+router.get('/:provider/status', isAuthenticated, async (req: Request, res: Response) => {
+  const provider: PaymentProvider = res.locals.provider;
 
-// Disconnect Stripe account
-router.post('/stripe/disconnect', isAuthenticated, async (req: Request, res: Response) => {
   try {
-    if (!stripeService.isConfigured()) {
-      return res.status(400).json({ error: 'Stripe is not configured' });
-    }
-
-    const success = await stripeService.disconnectAccount(req.user!.id);
-    
-    if (success) {
-      return res.status(200).json({ success: true });
-    } else {
-      return res.status(404).json({ error: 'No Stripe account connected' });
-    }
+    const status = await provider.getConnectionStatus(req.user!.id);
+    return res.status(200).json(status);
   } catch (error: any) {
-    console.error('Error disconnecting Stripe account:', error);
-    return res.status(500).json({ error: error.message || 'Failed to disconnect Stripe account' });
+    console.error(`Error getting ${provider.displayName} status:`, error);
+    return res.status(500).json({ error: error.message || `Failed to get ${provider.displayName} status` });
   }
 });
 
-// SQUARE INTEGRATION ROUTES
+// Generate the OAuth URL for connecting with a provider
+router.post('/:provider/connect', isAuthenticated, async (req: Request, res: Response) => {
+  const provider: PaymentProvider = res.locals.provider;
 
-// Get Square connection status
-router.get('/square/status', isAuthenticated, async (req: Request, res: Response) => {
   try {
-    if (!squareService.isConfigured()) {
-      return res.status(200).json({ configured: false, connected: false });
-    }
-
-    const isConnected = await squareService.isUserConnected(req.user!.id);
-    return res.status(200).json({ configured: true, connected: isConnected });
-  } catch (error: any) {
-    console.error('Error getting Square status:', error);
-    return res.status(500).json({ error: error.message || 'Failed to get Square status' });
-  }
-});
-
-// Generate OAuth URL for connecting with Square
-router.post('/square/connect', isAuthenticated, async (req: Request, res: Response) => {
-  try {
-    if (!squareService.isConfigured()) {
-      return res.status(400).json({ error: 'Square is not configured' });
+    const { configured } = await provider.getConnectionStatus(req.user!.id);
+    if (!configured) {
+      return res.status(400).json({ error: `${provider.displayName} is not configured` });
     }
 
     const { redirectUri } = req.body;
-    
+
     if (!redirectUri) {
       return res.status(400).json({ error: 'Redirect URI is required' });
     }
 
-    const authUrl = await squareService.createOAuthLink(req.user!.id, redirectUri);
+    const authUrl = await provider.connect(req.user!.id, redirectUri);
     return res.status(200).json({ authUrl });
   } catch (error: any) {
-    console.error('Error creating Square OAuth link:', error);
-    return res.status(500).json({ error: error.message || 'Failed to create Square OAuth link' });
+    console.error(`Error creating ${provider.displayName} OAuth link:`, error);
+    return res.status(500).json({ error: error.message || `Failed to create ${provider.displayName} OAuth link` });
   }
 });
 
-// Callback endpoint for Square OAuth
-router.get('/square/callback', async (req: Request, res: Response) => {
+// Callback endpoint for a provider's OAuth
+router.get('/:provider/callback', async (req: Request, res: Response) => {
+  const provider: PaymentProvider = res.locals.provider;
+  const settingsUrl = `/payment-settings/${provider.name}`;
+
   try {
     const { code, state } = req.query;
-    
+
     if (!code || !state) {
-      return res.redirect('/payment-settings/square?error=invalid_request');
+      return res.redirect(`${settingsUrl}?error=invalid_request`);
     }
 
-    const result = await squareService.handleOAuthCallback(
+    const result = await provider.completeConnection(
       code as string,
       state as string
     );
 
     if (result.success) {
-      return res.redirect('/payment-settings/square?success=true');
+      return res.redirect(`${settingsUrl}?success=true`);
     } else {
-      return res.redirect(`/payment-settings/square?error=${encodeURIComponent(result.error || 'unknown')}`);
+      return res.redirect(`${settingsUrl}?error=${encodeURIComponent(result.error || 'unknown')}`);
     }
   } catch (error: any) {
-    console.error('Error handling Square callback:', error);
-    return res.redirect(`/payment-settings/square?error=${encodeURIComponent(error.message || 'unknown')}`);
+    console.error(`Error handling ${provider.displayName} callback:`, error);
+    return res.redirect(`${settingsUrl}?error=${encodeURIComponent(error.message || 'unknown')}`);
   }
 });
 
-// Disconnect Square account
-router.post('/square/disconnect', isAuthenticated, async (req: Request, res: Response) => {
+// Disconnect a provider account
+router.post('/:provider/disconnect', isAuthenticated, async (req: Request, res: Response) => {
+  const provider: PaymentProvider = res.locals.provider;
+
   try {
-    if (!squareService.isConfigured()) {
-      return res.status(400).json({ error: 'Square is not configured' });
+    const { configured } = await provider.getConnectionStatus(req.user!.id);
+    if (!configured) {
+      return res.status(400).json({ error: `${provider.displayName} is not configured` });
     }
 
-    const success = await squareService.disconnectAccount(req.user!.id);
-    
+    const success = await provider.disconnect(req.user!.id);
+
     if (success) {
       return res.status(200).json({ success: true });
     } else {
-      return res.status(404).json({ error: 'No Square account connected' });
+      return res.status(404).json({ error: `No ${provider.displayName} account connected` });
     }
   } catch (error: any) {
-    console.error('Error disconnecting Square account:', error);
-    return res.status(500).json({ error: error.message || 'Failed to disconnect Square account' });
+    console.error(`Error disconnecting ${provider.displayName} account:`, error);
+    return res.status(500).json({ error: error.message || `Failed to disconnect ${provider.displayName} account` });
   }
 });
 
-export default router;
\ No newline at end of file
+export default router;
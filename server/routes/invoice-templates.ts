@@ -0,0 +1,39 @@
+import { Router, Request, Response } from "express";
+import { invoiceTemplateSettingsSchema } from "@shared/invoice-templates";
+import { invoiceTemplateService } from "../services/invoice-templates";
+
+const router = Router();
+
+/**
+ * Get the invoice layout and custom template
+ */
+router.get("/api/settings/invoice-template", async (req: Request, res: Response) => {
+  try {
+    const userId = req.session?.userId || 1;
+    res.json(await invoiceTemplateService.getSettings(userId));
+  } catch (error) {
+    console.error("Error fetching invoice template:", error);
+    res.status(500).json({ error: "Failed to fetch invoice template" });
+  }
+});
+
+/**
+ * Save the invoice layout and custom template, once the template is valid
+ */
+router.put("/api/settings/invoice-template", async (req: Request, res: Response) => {
+  try {
+    const userId = req.session?.userId || 1;
+
+    const validation = invoiceTemplateSettingsSchema.safeParse(req.body);
+    if (!validation.success) {
+      return res.status(400).json({ error: "Invalid invoice template", details: validation.error.errors });
+    }
+
+    res.json(await invoiceTemplateService.updateSettings(userId, validation.data));
+  } catch (error: any) {
+    console.error("Error saving invoice template:", error);
+    res.status(error.status || 500).json({ error: error.status ? error.message : "Failed to save invoice template" });
+  }
+});
+
+export default router;
@@ -1,5 +1,6 @@
 import { Router, Request, Response } from "express";
 import { invoiceService } from "../services/invoice";
+import { orderDocumentService } from "../services/order-documents";
 
 const router = Router();
 export { router };
@@ -26,51 +27,88 @@ router.get("/:orderId", async (req: Request, res: Response) => {
 });
 
 /**
- * Download invoice as PDF for an order
+ * Download the invoice for an order as a PDF, as it stands now
  */
 router.get("/:orderId/pdf", async (req: Request, res: Response) => {
   try {
     const orderId = parseInt(req.params.orderId);
+    const userId = req.session?.userId || 1;
     
     if (isNaN(orderId)) {
       return res.status(400).json({ error: "Invalid order ID" });
     }
     
-    const { html } = await invoiceService.generateInvoiceHtml(orderId);
-    const pdfData = await invoiceService.htmlToPdf(html);
+    const { pdf, documentNumber } = await orderDocumentService.generateInvoice(orderId, userId);
     
     res.setHeader("Content-Type", "application/pdf");
-    res.setHeader("Content-Disposition", `attachment; filename="invoice-${orderId}.pdf"`);
-    
-    // In a real implementation, we would send actual PDF data
-    // For now, we're just sending base64 encoded HTML as a placeholder
-    res.send(Buffer.from(pdfData, 'base64'));
+    res.setHeader("Content-Disposition", `attachment; filename="invoice-${documentNumber}.pdf"`);
+    res.send(pdf);
   } catch (error: any) {
     console.error("Error generating PDF invoice:", error);
-    res.status(500).json({ error: error.message || "Failed to generate PDF invoice" });
+    res.status(error.status || 500).json({ error: error.status ? error.message : "Failed to generate PDF invoice" });
   }
 });
 
 /**
- * Send invoice via email
+ * Send invoice via email, archiving the copy that was sent
  */
 router.post("/:orderId/send", async (req: Request, res: Response) => {
   try {
     const orderId = parseInt(req.params.orderId);
+    const userId = req.session?.userId || 1;
     
     if (isNaN(orderId)) {
       return res.status(400).json({ error: "Invalid order ID" });
     }
     
-    const success = await invoiceService.sendInvoice(orderId);
+    const document = await invoiceService.sendInvoice(orderId, userId);
     
-    if (success) {
-      res.json({ success: true, message: "Invoice sent successfully" });
-    } else {
-      res.status(500).json({ error: "Failed to send invoice" });
-    }
+    res.json({ success: true, message: "Invoice sent successfully", document });
   } catch (error: any) {
     console.error("Error sending invoice:", error);
-    res.status(500).json({ error: error.message || "Failed to send invoice" });
+    res.status(error.status || 500).json({ error: error.status ? error.message : "Failed to send invoice" });
+  }
+});
+
+/**
+ * List the copies of an order's invoice that have been issued
+ */
+router.get("/:orderId/issued", async (req: Request, res: Response) => {
+  try {
+    const orderId = parseInt(req.params.orderId);
+    const userId = req.session?.userId || 1;
+    
+    if (isNaN(orderId)) {
+      return res.status(400).json({ error: "Invalid order ID" });
+    }
+    
+    res.json(await invoiceService.getIssuedDocuments("invoice", orderId, userId));
+  } catch (error) {
+    console.error("Error fetching issued invoices:", error);
+    res.status(500).json({ error: "Failed to fetch issued invoices" });
   }
-});
\ No newline at end of file
+});
+
+/**
+ * Download an issued invoice exactly as it was sent
+ */
+router.get("/:orderId/issued/:documentId/pdf", async (req: Request, res: Response) => {
+  try {
+    const orderId = parseInt(req.params.orderId);
+    const documentId = parseInt(req.params.documentId);
+    const userId = req.session?.userId || 1;
+    
+    if (isNaN(orderId) || isNaN(documentId)) {
+      return res.status(400).json({ error: "Invalid order or document ID" });
+    }
+    
+    const { document, pdf } = await invoiceService.getIssuedPdf("invoice", orderId, documentId, userId);
+    
+    res.setHeader("Content-Type", "application/pdf");
+    res.setHeader("Content-Disposition", `attachment; filename="invoice-${document.documentNumber}.pdf"`);
+    res.send(pdf);
+  } catch (error: any) {
+    console.error("Error fetching issued invoice:", error);
+    res.status(error.status || 500).json({ error: error.status ? error.message : "Failed to fetch issued invoice" });
+  }
+});
@@ -0,0 +1,88 @@
+import { Router, Request, Response } from "express";
+import { z } from "zod";
+import { orderDocumentService, orderDocumentTypes, type OrderDocumentType } from "../services/order-documents";
+
+const router = Router();
+
+const dateString = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Dates must be YYYY-MM-DD");
+
+/**
+ * Download the job sheets for all orders in a date range as a single PDF
+ */
+router.get("/api/orders/documents/job-sheets", async (req: Request, res: Response) => {
+  try {
+    const userId = req.session?.userId || 1;
+
+    const range = z.object({ from: dateString, to: dateString }).safeParse(req.query);
+    if (!range.success) {
+      return res.status(400).json({ error: "from and to dates (YYYY-MM-DD) are required" });
+    }
+
+    const { from, to } = range.data;
+    if (to < from) {
+      return res.status(400).json({ error: "The to date must be on or after the from date" });
+    }
+
+    const { pdf } = await orderDocumentService.generateJobSheets(userId, from, to);
+
+    res.setHeader("Content-Type", "application/pdf");
+    res.setHeader("Content-Disposition", `inline; filename="job-sheets-${from}-to-${to}.pdf"`);
+    res.send(pdf);
+  } catch (error) {
+    console.error("Error generating job sheets:", error);
+    res.status(500).json({ error: "Failed to generate job sheets" });
+  }
+});
+
+/**
+ * Download a job sheet, order form or delivery note for an order
+ */
+router.get("/api/orders/:id/documents/:type", async (req: Request, res: Response) => {
+  try {
+    const orderId = parseInt(req.params.id);
+    const userId = req.session?.userId || 1;
+    const type = req.params.type as OrderDocumentType;
+
+    if (isNaN(orderId)) {
+      return res.status(400).json({ error: "Invalid order ID" });
+    }
+
+    if (!orderDocumentTypes.includes(type)) {
+      return res.status(400).json({ error: `Document type must be one of: ${orderDocumentTypes.join(", ")}` });
+    }
+
+    const pdf = await orderDocumentService.generateDocument(type, orderId, userId);
+
+    res.setHeader("Content-Type", "application/pdf");
+    res.setHeader("Content-Disposition", `inline; filename="${type}-${orderId}.pdf"`);
+    res.send(pdf);
+  } catch (error: any) {
+    console.error("Error generating order document:", error);
+    res.status(error.status || 500).json({ error: error.status ? error.message : "Failed to generate document" });
+  }
+});
+
+/**
+ * Download the credit note for a refund
+ */
+router.get("/api/refunds/:id/credit-note", async (req: Request, res: Response) => {
+  try {
+    const refundId = parseInt(req.params.id);
+    const userId = req.session?.userId || 1;
+
+    if (isNaN(refundId)) {
+      return res.status(400).json({ error: "Invalid refund ID" });
+    }
+
+    const { pdf, creditNoteNumber } = await orderDocumentService.generateCreditNote(refundId, userId);
+
+    res.setHeader("Content-Type", "application/pdf");
+    res.setHeader("Content-Disposition", `inline; filename="credit-note-${creditNoteNumber}.pdf"`);
+    res.send(pdf);
+  } catch (error: any) {
+    console.error("Error generating credit note:", error);
+    res.status(error.status || 500).json({ error: error.status ? error.message : "Failed to generate credit note" });
+  }
+});
+
+export default router;
@@ -2,6 +2,7 @@ import { Router } from 'express';
 import { db } from '../db';
 import { orderItems, orders } from '@shared/schema';
 import { eq, SQL, sql } from 'drizzle-orm';
+import { priceLineItem, recalculateOrderTotal } from '../services/pricing';
 
 const router = Router();
 
@@ -86,6 +87,9 @@ router.post('/import', async (req, res) => {
       successDetails: [] as any[],
     };
     
+    // Orders that received items, so their totals can be recalculated afterwards
+    const importedOrderIds = new Set<number>();
+    
     // Process each record
     for (let index = 0; index < records.length; index++) {
       const record = records[index];
@@ -126,13 +130,18 @@ router.post('/import', async (req, res) => {
           quantity: columnMapping.quantity ? parseNumber(record[columnMapping.quantity]) : 1,
           notes: columnMapping.notes ? record[columnMapping.notes] : null,
         };
+        const { unitPrice, price } = priceLineItem({
+          quantity: itemData.quantity || 1,
+          unitPrice: itemData.sellPrice,
+        });
         
         // Insert the order item
         const [newOrderItem] = await db
           .insert(orderItems)
-          .values(itemData)
+          .values({ ...itemData, unitPrice, price })
           .returning();
         
+        importedOrderIds.add(orderId);
         results.successCount++;
         results.successDetails.push({
           orderId: orderId,
@@ -150,6 +159,11 @@ router.post('/import', async (req, res) => {
       }
     }
     
+    // Bring order totals in line with the imported items
+    for (const orderId of Array.from(importedOrderIds)) {
+      await recalculateOrderTotal(orderId);
+    }
+    
     // Generate response message
     let message = '';
     if (results.successCount > 0) {
@@ -0,0 +1,179 @@
+import { Router, Request, Response } from "express";
+import { z } from "zod";
+import { db } from "../db";
+import { orders, payments, settings } from "@shared/schema";
+import { eq, and, desc } from "drizzle-orm";
+import { paymentLedgerService } from "../services/payment-ledger";
+import { refundService } from "../services/refunds";
+import { providerPaymentService } from "../services/provider-payments";
+
+const router = Router();
+
+const paymentInputSchema = z.object({
+  amount: z.coerce.number().positive("Amount must be greater than 0"),
+  method: z.string().min(1).default("other"),
+  reference: z.string().optional(),
+  notes: z.string().optional(),
+  date: z.string().regex(/^(\d{4}-\d{2}-\d{2})?$/, "Date must be YYYY-MM-DD").optional(),
+  scheduledPaymentId: z.number().int().optional(),
+});
+
+const captureInputSchema = z.object({
+  // Leave out to capture everything that was authorized
+  amount: z.coerce.number().positive("Amount must be greater than 0").optional(),
+});
+
+const refundInputSchema = z.object({
+  // Leave out to refund everything not yet refunded
+  amount: z.coerce.number().positive("Amount must be greater than 0").optional(),
+  reason: z.string().optional(),
+});
+
+/**
+ * Get the payment ledger for an order: amount paid, balance, payment state,
+ * the status of each scheduled payment and the payments and refunds made
+ */
+router.get("/api/orders/:id/ledger", async (req: Request, res: Response) => {
+  try {
+    const orderId = parseInt(req.params.id);
+    const userId = req.session?.userId || 1;
+
+    const [order] = await db
+      .select({ id: orders.id })
+      .from(orders)
+      .where(and(eq(orders.id, orderId), eq(orders.userId, userId)));
+
+    if (!order) {
+      return res.status(404).json({ error: "Order not found" });
+    }
+
+    const ledger = await paymentLedgerService.getLedger(orderId);
+
+    const history = await db
+      .select()
+      .from(payments)
+      .where(eq(payments.orderId, orderId))
+      .orderBy(desc(payments.createdAt));
+
+    const refundHistory = await refundService.getRefunds(orderId);
+
+    res.json({ ...ledger, payments: history, refunds: refundHistory });
+  } catch (error) {
+    console.error("Error fetching payment ledger:", error);
+    res.status(500).json({ error: "Failed to fetch payment ledger" });
+  }
+});
+
+/**
+ * Record a manual payment (cash, bank transfer, etc.) against an order
+ */
+router.post("/api/orders/:id/payments", async (req: Request, res: Response) => {
+  try {
+    const orderId = parseInt(req.params.id);
+    const userId = req.session?.userId || 1;
+
+    const validation = paymentInputSchema.safeParse(req.body);
+    if (!validation.success) {
+      return res.status(400).json({ error: "Invalid payment data", details: validation.error.errors });
+    }
+
+    const [order] = await db
+      .select({ id: orders.id })
+      .from(orders)
+      .where(and(eq(orders.id, orderId), eq(orders.userId, userId)));
+
+    if (!order) {
+      return res.status(404).json({ error: "Order not found" });
+    }
+
+    const [userSettings] = await db
+      .select({ currency: settings.currency })
+      .from(settings)
+      .where(eq(settings.userId, userId));
+
+    const { amount, method, reference, notes, date, scheduledPaymentId } = validation.data;
+
+    const result = await paymentLedgerService.recordPayment(orderId, userId, {
+      amount,
+      provider: "manual",
+      paymentMethod: method,
+      currency: userSettings?.currency || "USD",
+      notes: [reference && `Ref: ${reference}`, notes].filter(Boolean).join(" - ") || null,
+      paidAt: date ? new Date(`${date}T12:00:00`) : undefined,
+      scheduledPaymentId,
+    });
+
+    res.status(201).json(result);
+  } catch (error: any) {
+    console.error("Error recording payment:", error);
+    res.status(error.status || 500).json({ error: error.status ? error.message : "Failed to record payment" });
+  }
+});
+
+/**
+ * Refund all or part of a payment on an order. Payments taken through a
+ * provider are refunded through it; other payments are just recorded.
+ */
+router.post("/api/orders/:id/payments/:paymentId/refunds", async (req: Request, res: Response) => {
+  try {
+    const orderId = parseInt(req.params.id);
+    const paymentId = parseInt(req.params.paymentId);
+    const userId = req.session?.userId || 1;
+
+    const validation = refundInputSchema.safeParse(req.body);
+    if (!validation.success) {
+      return res.status(400).json({ error: "Invalid refund data", details: validation.error.errors });
+    }
+
+    const [payment] = await db
+      .select({ id: payments.id })
+      .from(payments)
+      .where(and(eq(payments.id, paymentId), eq(payments.orderId, orderId)));
+
+    if (!payment) {
+      return res.status(404).json({ error: "Payment not found" });
+    }
+
+    const result = await refundService.refundPayment(paymentId, userId, validation.data);
+
+    res.status(201).json(result);
+  } catch (error: any) {
+    console.error("Error refunding payment:", error);
+    res.status(error.status || 500).json({ error: error.status ? error.message : "Failed to refund payment" });
+  }
+});
+
+/**
+ * Capture a payment that was only authorized when it was taken
+ */
+router.post("/api/orders/:id/payments/:paymentId/capture", async (req: Request, res: Response) => {
+  try {
+    const orderId = parseInt(req.params.id);
+    const paymentId = parseInt(req.params.paymentId);
+    const userId = req.session?.userId || 1;
+
+    const validation = captureInputSchema.safeParse(req.body);
+    if (!validation.success) {
+      return res.status(400).json({ error: "Invalid capture data", details: validation.error.errors });
+    }
+
+    const [payment] = await db
+      .select({ id: payments.id })
+      .from(payments)
+      .where(and(eq(payments.id, paymentId), eq(payments.orderId, orderId)));
+
+    if (!payment) {
+      return res.status(404).json({ error: "Payment not found" });
+    }
+
+    const captured = await providerPaymentService.capturePayment(paymentId, userId, validation.data.amount);
+    const ledger = await paymentLedgerService.getLedger(orderId);
+
+    res.json({ payment: captured, ledger });
+  } catch (error: any) {
+    console.error("Error capturing payment:", error);
+    res.status(error.status || 500).json({ error: error.status ? error.message : "Failed to capture payment" });
+  }
+});
+
+export default router;
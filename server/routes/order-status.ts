@@ -0,0 +1,60 @@
+import { Router, Request, Response } from "express";
+import { isOrderStatus } from "@shared/order-status";
+import { orderStatusService } from "../services/order-status";
+
+const router = Router();
+
+/**
+ * Change the status of several orders at once
+ */
+router.post("/api/orders/bulk-status", async (req: Request, res: Response) => {
+  try {
+    const userId = req.session?.userId || 1;
+    const { orderIds, status, note } = req.body;
+
+    if (!Array.isArray(orderIds) || orderIds.length === 0) {
+      return res.status(400).json({ error: "orderIds must be a non-empty array" });
+    }
+
+    if (!isOrderStatus(status)) {
+      return res.status(400).json({ error: "Invalid order status" });
+    }
+
+    const ids = orderIds.map((id: unknown) => Number(id)).filter((id: number) => Number.isInteger(id));
+
+    const result = await orderStatusService.changeStatuses(ids, userId, status, note);
+
+    res.json({ success: result.failed.length === 0, ...result });
+  } catch (error) {
+    console.error("Error updating order statuses:", error);
+    res.status(500).json({ error: "Failed to update order statuses" });
+  }
+});
+
+/**
+ * Change the status of an order
+ */
+router.patch("/api/orders/:id/status", async (req: Request, res: Response) => {
+  try {
+    const orderId = parseInt(req.params.id);
+    const userId = req.session?.userId || 1;
+    const { status, note } = req.body;
+
+    if (isNaN(orderId)) {
+      return res.status(400).json({ error: "Invalid order ID" });
+    }
+
+    if (!isOrderStatus(status)) {
+      return res.status(400).json({ error: "Invalid order status" });
+    }
+
+    const order = await orderStatusService.changeStatus(orderId, userId, status, note);
+
+    res.json({ success: true, order });
+  } catch (error: any) {
+    console.error("Error updating order status:", error);
+    res.status(error.status || 500).json({ error: error.status ? error.message : "Failed to update order status" });
+  }
+});
+
+export default router;
@@ -1,9 +1,39 @@
-import { Router } from "express";
-import { pool } from "../db";
-import { sql } from "drizzle-orm";
+import { Router, type Request } from "express";
+import { db, pool } from "../db";
+import { sql, eq, and } from "drizzle-orm";
+import { orders, orderItems } from "@shared/schema";
+import { calculateOrderPricing } from "@shared/pricing";
+import { getOrderPricing, getPricesIncludeTax, priceLineItem } from "../services/pricing";
+import { generateOrderNumber } from "../services/document-numbers";
+import { orderStatusService, type OrderStatusChange } from "../services/order-status";
+import { duplicateOrder } from "../services/order-duplicate";
+import { availabilityService } from "../services/availability";
+import { describeAvailability } from "@shared/availability";
+import { paymentLedgerService, withLedger } from "../services/payment-ledger";
+import { paymentPlanService } from "../services/payment-plans";
+import { paymentReminderService } from "../services/payment-reminders";
+import { isOrderStatus } from "@shared/order-status";
+import { HttpError } from "../utils/http-error";
 
 const router = Router();
 
+/**
+ * Check the requested event date against blocked dates and daily capacity.
+ * Orders on an unavailable date are refused unless `overrideAvailability`
+ * is set, in which case the availability is returned as a warning.
+ */
+async function checkOrderAvailability(req: Request) {
+  const userId = req.session?.userId || 1;
+  const eventDate = req.body.eventDate ?? req.body.event_date;
+  
+  if (!eventDate) {
+    return null;
+  }
+  
+  const items = Array.isArray(req.body.items) ? req.body.items : [];
+  return await availabilityService.checkOrder(userId, String(eventDate), items);
+}
+
 /**
  * Get all orders for the current user with contact information
  */
@@ -36,7 +66,9 @@ router.get("/api/orders", async (req, res) => {
     res.setHeader('Pragma', 'no-cache');
     res.setHeader('Expires', '0');
     
-    res.json(result.rows);
+    const ledgers = await paymentLedgerService.getLedgers(result.rows.map((row) => row.id));
+    
+    res.json(result.rows.map((row) => withLedger(row, ledgers.get(row.id))));
   } catch (error) {
     console.error("Error fetching orders:", error);
     res.status(500).json({ success: false, error: "Failed to fetch orders" });
@@ -69,9 +101,12 @@ router.get("/api/orders/:id", async (req, res) => {
       [orderId]
     );
     
+    const ledger = await paymentLedgerService.getLedger(orderId);
+    
     res.json({ 
-      ...orderResult.rows[0], 
-      items: itemsResult.rows 
+      ...withLedger(orderResult.rows[0], ledger), 
+      items: itemsResult.rows,
+      ledger
     });
   } catch (error) {
     console.error("Error fetching order:", error);
@@ -80,169 +115,238 @@ router.get("/api/orders/:id", async (req, res) => {
 });
 
 /**
- * Create a new order
+ * Preview the pricing breakdown for an order without saving it
+ */
+router.post("/api/orders/pricing", async (req, res) => {
+  try {
+    const userId = req.session?.userId || 1;
+    const { items = [], discount, discountType, setupFee, taxRate } = req.body;
+    
+    if (!Array.isArray(items)) {
+      return res.status(400).json({ success: false, error: "Items must be an array" });
+    }
+    
+    // Orders being edited keep the pricing they were created with
+    const pricesIncludeTax = typeof req.body.pricesIncludeTax === "boolean"
+      ? req.body.pricesIncludeTax
+      : await getPricesIncludeTax(userId);
+    
+    res.json(calculateOrderPricing({ items, discount, discountType, setupFee, taxRate, pricesIncludeTax }));
+  } catch (error) {
+    console.error("Error calculating order pricing:", error);
+    res.status(500).json({ success: false, error: "Failed to calculate order pricing" });
+  }
+});
+
+/**
+ * Get the pricing breakdown for a saved order
+ */
+router.get("/api/orders/:id/pricing", async (req, res) => {
+  try {
+    const orderId = parseInt(req.params.id);
+    const userId = req.session?.userId || 1;
+    
+    const result = await getOrderPricing(orderId);
+    
+    if (!result || result.order.userId !== userId) {
+      return res.status(404).json({ success: false, error: "Order not found" });
+    }
+    
+    res.json(result.pricing);
+  } catch (error) {
+    console.error("Error fetching order pricing:", error);
+    res.status(500).json({ success: false, error: "Failed to fetch order pricing" });
+  }
+});
+
+/**
+ * Duplicate an order to a new event date
+ */
+router.post("/api/orders/:id/duplicate", async (req, res) => {
+  try {
+    const orderId = parseInt(req.params.id);
+    const userId = req.session?.userId || 1;
+    const { eventDate, includeScheduledPayments } = req.body;
+    
+    if (isNaN(orderId)) {
+      return res.status(400).json({ success: false, error: "Invalid order ID" });
+    }
+    
+    if (typeof eventDate !== "string" || !/^\d{4}-\d{2}-\d{2}$/.test(eventDate) || isNaN(Date.parse(eventDate))) {
+      return res.status(400).json({ success: false, error: "A valid eventDate (YYYY-MM-DD) is required" });
+    }
+    
+    const order = await duplicateOrder(orderId, userId, {
+      eventDate,
+      includeScheduledPayments: includeScheduledPayments === true,
+    });
+    
+    // The copy is made whatever the date's availability, which is returned
+    // as a warning
+    const items = await db
+      .select({ productId: orderItems.productId, quantity: orderItems.quantity })
+      .from(orderItems)
+      .where(eq(orderItems.orderId, order.id));
+    const availability = await availabilityService.checkOrder(userId, eventDate, items, { excludeOrderId: order.id });
+    
+    res.status(201).json({ success: true, order, availability });
+  } catch (error: any) {
+    console.error("Error duplicating order:", error);
+    res.status(error.status || 500).json({ success: false, error: error.status ? error.message : "Failed to duplicate order" });
+  }
+});
+
+/**
+ * Create a new order. The total is always worked out from the items,
+ * discount, setup fee and tax rate rather than taken from the client.
  */
 router.post("/api/orders", async (req, res) => {
   try {
-    // Start a transaction
-    const client = await pool.connect();
+    const availability = await checkOrderAvailability(req);
     
-    try {
-      await client.query('BEGIN');
-      
-      // Get user ID from session
-      const userId = req.session?.userId || 1;
-      
-      // Log entire request body for debugging
-      console.log("Creating order with complete data:", JSON.stringify(req.body, null, 2));
-      
-      // Extract data from the request, mapping to our database column names
-      const {
-        contactId,
-        eventDate,
-        eventType,
-        status,
-        deliveryType,
-        deliveryAddress = '',
-        deliveryTime = '',
-        notes = '',
-        orderNumber,
-        total, // We're getting this from client as 'total'
-        deliveryFee = '0',
-        amountPaid = '0',
-        specialInstructions = '',
-        taxRate = '0',
-        items = []
-      } = req.body;
-      
-      // Validate required fields
-      if (!contactId) {
-        return res.status(400).json({ 
-          success: false, 
-          error: "Missing required field: contactId" 
-        });
-      }
-      
-      // Generate order number if not provided
-      const orderNum = orderNumber || `ORD-${Date.now().toString().substring(6)}`;
-      
-      // Convert total to string if needed
-      const totalAmount = typeof total === 'number' ? total.toString() : (total || '0');
-      
-      // Parse event date from ISO string to Date object (if needed)
-      const parsedEventDate = eventDate ? new Date(eventDate).toISOString().split('T')[0] : new Date().toISOString().split('T')[0];
-      
-      console.log("Using orderNum:", orderNum);
-      console.log("Using parsedEventDate:", parsedEventDate);
-      console.log("Using totalAmount:", totalAmount);
-      
-      // Insert the order - using all required fields based on the actual database schema
-      const insertOrderResult = await client.query(
-        `INSERT INTO orders (
+    if (availability && availability.status !== "available" && !req.body.overrideAvailability) {
+      return res.status(409).json({ 
+        success: false, 
+        error: describeAvailability(availability), 
+        availability 
+      });
+    }
+    
+    // Get user ID from session
+    const userId = req.session?.userId || 1;
+    
+    // Extract data from the request, mapping to our database column names
+    const {
+      contactId,
+      eventDate,
+      eventType,
+      status,
+      deliveryType,
+      deliveryAddress = '',
+      deliveryDetails,
+      deliveryTime = '',
+      notes = '',
+      orderNumber,
+      discount = '0',
+      discountType = '%',
+      setupFee = '0',
+      taxRate = '0',
+      items = []
+    } = req.body;
+    
+    // Validate required fields
+    if (!contactId) {
+      return res.status(400).json({ 
+        success: false, 
+        error: "Missing required field: contactId" 
+      });
+    }
+    
+    const initialStatus = status || 'Quote';
+    if (!isOrderStatus(initialStatus)) {
+      return res.status(400).json({ success: false, error: "Invalid order status" });
+    }
+    
+    // Generate order number if not provided
+    const orderNum = orderNumber || await generateOrderNumber(userId);
+    
+    // Parse event date from ISO string to Date object (if needed)
+    const parsedEventDate = eventDate ? new Date(eventDate).toISOString().split('T')[0] : new Date().toISOString().split('T')[0];
+    
+    const lineItems = Array.isArray(items) ? items : [];
+    const pricesIncludeTax = await getPricesIncludeTax(userId);
+    const pricing = calculateOrderPricing({ items: lineItems, discount, discountType, setupFee, taxRate, pricesIncludeTax });
+    
+    // Orders start as quotes and are moved on to the requested status through
+    // the status workflow in the same transaction
+    const { newOrder, statusChanges } = await db.transaction(async (tx) => {
+      const insertOrderResult = await tx.execute(
+        sql`INSERT INTO orders (
           user_id, contact_id, event_date, event_type, status, 
-          delivery_type, delivery_address, delivery_time, total_amount, notes, order_number,
-          title, delivery_fee, amount_paid, special_instructions, tax_rate
-        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16) RETURNING *`,
-        [
-          userId, 
-          contactId, 
-          parsedEventDate,
-          eventType || 'Birthday',
-          status || 'Quote',
-          deliveryType || 'Pickup',
-          deliveryAddress || '',
-          deliveryTime || '',
-          totalAmount, // This is now using the 'total' field from request
-          notes || '',
-          orderNum,
-          req.body.title || '', // Optional title field
-          deliveryFee, // Use the extracted value
-          amountPaid, // Use the extracted value
-          specialInstructions, // Use the extracted value
-          taxRate // Use the extracted value
-        ]
+          delivery_type, delivery_details, delivery_time, notes, order_number,
+          discount, discount_type, setup_fee, tax_rate, total, prices_include_tax
+        ) VALUES (
+          ${userId},
+          ${contactId},
+          ${parsedEventDate},
+          ${eventType || 'Birthday'},
+          'Quote',
+          ${deliveryType || 'Pickup'},
+          ${deliveryDetails ?? deliveryAddress},
+          ${deliveryTime || ''},
+          ${notes || ''},
+          ${orderNum},
+          ${pricing.discountValue.toFixed(2)},
+          ${pricing.discountType},
+          ${pricing.setupFee.toFixed(2)},
+          ${taxRate || '0'},
+          ${pricing.total.toFixed(2)},
+          ${pricesIncludeTax}
+        ) RETURNING *`
       );
       
-      const newOrder = insertOrderResult.rows[0];
-      console.log("Order created:", newOrder);
+      const newOrder = insertOrderResult.rows[0] as Record<string, any>;
       
-      // Insert order items if provided
-      if (items && Array.isArray(items)) {
-        console.log("Processing order items:", JSON.stringify(items, null, 2));
+      // Insert order items
+      for (const item of lineItems) {
+        const { unitPrice, price, taxRate: itemTaxRate } = priceLineItem(item);
         
-        for (const item of items) {
-          console.log("Processing item:", JSON.stringify(item, null, 2));
-          
-          try {
-            // Format values to match database expectations
-            const itemPrice = item.price ? item.price.toString() : '0';
-            const itemQuantity = item.quantity || 1;
-            const itemDescription = item.description || '';
-            const itemName = item.name || item.description || 'Product';
-            const itemType = item.type || 'Product';
-            const itemUnitPrice = item.unitPrice ? item.unitPrice.toString() : itemPrice;
-            
-            console.log("Inserting order item with values:", {
-              orderId: newOrder.id,
-              productId: item.productId,
-              description: itemDescription,
-              quantity: itemQuantity,
-              price: itemPrice,
-              name: itemName,
-              type: itemType,
-              unitPrice: itemUnitPrice
-            });
-            
-            await client.query(
-              `INSERT INTO order_items (
-                order_id, product_id, description, quantity, price, name, type, unit_price
-              ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8)`,
-              [
-                newOrder.id,
-                item.productId || null,
-                itemDescription,
-                itemQuantity,
-                itemPrice,
-                itemName,
-                itemType,
-                itemUnitPrice
-              ]
-            );
-            
-            console.log("Order item inserted successfully");
-          } catch (itemError) {
-            console.error("Error inserting order item:", itemError);
-            console.error("Problem item data:", JSON.stringify(item, null, 2));
-            throw itemError; // Re-throw to trigger transaction rollback
-          }
-        }
+        await tx.execute(
+          sql`INSERT INTO order_items (
+            order_id, product_id, description, quantity, price, name, type, unit_price, tax_rate
+          ) VALUES (
+            ${newOrder.id},
+            ${item.productId || null},
+            ${item.description || ''},
+            ${item.quantity || 1},
+            ${price},
+            ${item.name || item.description || 'Product'},
+            ${item.type || 'Product'},
+            ${unitPrice},
+            ${itemTaxRate}
+          )`
+        );
       }
       
-      await client.query('COMMIT');
-      
-      console.log("Transaction committed successfully. Order created with ID:", newOrder.id);
+      const statusChanges = await orderStatusService.applyInitialStatus(newOrder.id, userId, initialStatus, tx);
+      if (statusChanges.length === 0) {
+        return { newOrder, statusChanges };
+      }
       
-      res.status(201).json({ 
-        success: true, 
-        message: "Order created successfully",
-        order: newOrder,
-        id: newOrder.id
-      });
-    } catch (error) {
-      await client.query('ROLLBACK');
-      console.error("Transaction error:", error);
-      throw error;
-    } finally {
-      client.release();
+      const updatedResult = await tx.execute(sql`SELECT * FROM orders WHERE id = ${newOrder.id}`);
+      return { newOrder: updatedResult.rows[0] as Record<string, any>, statusChanges };
+    });
+    
+    console.log("Transaction committed successfully. Order created with ID:", newOrder.id);
+    
+    for (const change of statusChanges) {
+      await orderStatusService.runHandlers(change);
     }
-  } catch (error) {
+    
+    res.status(201).json({ 
+      success: true, 
+      message: "Order created successfully",
+      order: newOrder,
+      id: newOrder.id,
+      pricing,
+      availability
+    });
+  } catch (error: any) {
     console.error("Error creating order:", error);
-    res.status(500).json({ success: false, error: "Failed to create order", details: error.message });
+    res.status(error.status || 500).json({
+      success: false,
+      error: error.status ? error.message : "Failed to create order",
+      details: error.message
+    });
   }
 });
 
 /**
- * Update an existing order
+ * Update an existing order. A new event date is checked against blocked
+ * dates and capacity like a new order. The total is recalculated from the
+ * saved items after the update, and any status change goes through the
+ * status workflow in the same transaction, so an invalid change leaves the
+ * order untouched.
  */
 router.put("/api/orders/:id", async (req, res) => {
   try {
@@ -251,20 +355,51 @@ router.put("/api/orders/:id", async (req, res) => {
     // Get user ID from session
     const userId = req.session?.userId || 1;
     
-    // Start a transaction
-    const client = await pool.connect();
+    // Moving an order to another date is checked the same way as a new order
+    let availability = null;
+    if (req.body.event_date) {
+      const eventDate = String(req.body.event_date).split("T")[0];
+      const [existingOrder] = await db
+        .select({ eventDate: orders.eventDate })
+        .from(orders)
+        .where(and(eq(orders.id, orderId), eq(orders.userId, userId)));
+      
+      if (existingOrder && existingOrder.eventDate !== eventDate) {
+        const items = Array.isArray(req.body.items)
+          ? req.body.items
+          : await db
+              .select({ productId: orderItems.productId, quantity: orderItems.quantity })
+              .from(orderItems)
+              .where(eq(orderItems.orderId, orderId));
+        
+        availability = await availabilityService.checkOrder(userId, eventDate, items, { excludeOrderId: orderId });
+        
+        if (availability.status !== "available" && !req.body.overrideAvailability) {
+          return res.status(409).json({ 
+            success: false, 
+            error: describeAvailability(availability), 
+            availability 
+          });
+        }
+      }
+    }
     
-    try {
-      await client.query('BEGIN');
-      
+    const { updatedOrder, pricing, statusChange } = await db.transaction(async (tx) => {
       // Check if order exists and belongs to the user
-      const checkResult = await client.query(
-        'SELECT * FROM orders WHERE id = $1 AND user_id = $2',
-        [orderId, userId]
+      const checkResult = await tx.execute(
+        sql`SELECT * FROM orders WHERE id = ${orderId} AND user_id = ${userId} FOR UPDATE`
       );
       
       if (checkResult.rows.length === 0) {
-        return res.status(404).json({ success: false, error: "Order not found" });
+        throw new HttpError(404, "Order not found");
+      }
+      
+      // Status changes go through the workflow so they are checked and logged
+      const currentStatus = checkResult.rows[0].status as string;
+      const statusChanged = req.body.status !== undefined && req.body.status !== currentStatus;
+      
+      if (statusChanged && !isOrderStatus(req.body.status)) {
+        throw new HttpError(400, "Invalid order status");
       }
       
       // Update the order with only the fields that exist in the database
@@ -272,85 +407,120 @@ router.put("/api/orders/:id", async (req, res) => {
         contact_id,
         event_date,
         event_type,
-        status,
         delivery_type,
         delivery_address,
+        delivery_details,
         delivery_time,
         notes,
-        title,
-        total_amount
+        discount,
+        discount_type,
+        setup_fee,
+        tax_rate,
+        due_date
       } = req.body;
       
-      const updateResult = await client.query(
-        `UPDATE orders SET
-          contact_id = COALESCE($1, contact_id),
-          event_date = COALESCE($2, event_date),
-          event_type = COALESCE($3, event_type),
-          status = COALESCE($4, status),
-          delivery_type = COALESCE($5, delivery_type),
-          delivery_address = COALESCE($6, delivery_address),
-          delivery_time = COALESCE($7, delivery_time),
-          notes = COALESCE($8, notes),
-          title = COALESCE($9, title),
-          total_amount = COALESCE($10, total_amount),
+      await tx.execute(
+        sql`UPDATE orders SET
+          contact_id = COALESCE(${contact_id}, contact_id),
+          event_date = COALESCE(${event_date}, event_date),
+          event_type = COALESCE(${event_type}, event_type),
+          delivery_type = COALESCE(${delivery_type}, delivery_type),
+          delivery_details = COALESCE(${delivery_details ?? delivery_address}, delivery_details),
+          delivery_time = COALESCE(${delivery_time}, delivery_time),
+          notes = COALESCE(${notes}, notes),
+          discount = COALESCE(${discount}, discount),
+          discount_type = COALESCE(${discount_type}, discount_type),
+          setup_fee = COALESCE(${setup_fee}, setup_fee),
+          tax_rate = COALESCE(${tax_rate}, tax_rate),
+          due_date = COALESCE(${due_date}, due_date),
           updated_at = NOW()
-        WHERE id = $11 AND user_id = $12
-        RETURNING *`,
-        [
-          contact_id,
-          event_date,
-          event_type,
-          status,
-          delivery_type,
-          delivery_address,
-          delivery_time,
-          notes,
-          title,
-          total_amount,
-          orderId,
-          userId
-        ]
+        WHERE id = ${orderId} AND user_id = ${userId}`
       );
       
-      const updatedOrder = updateResult.rows[0];
-      
       // Update order items if provided
       if (req.body.items && Array.isArray(req.body.items)) {
         // Delete existing items
-        await client.query('DELETE FROM order_items WHERE order_id = $1', [orderId]);
+        await tx.execute(sql`DELETE FROM order_items WHERE order_id = ${orderId}`);
         
         // Insert new items
         for (const item of req.body.items) {
-          await client.query(
-            `INSERT INTO order_items (
-              order_id, product_id, description, quantity, price
-            ) VALUES ($1, $2, $3, $4, $5)`,
-            [
-              orderId,
-              item.product_id || null,
-              item.description || '',
-              item.quantity || 1,
-              item.price || '0'
-            ]
+          const { unitPrice, price, taxRate: itemTaxRate } = priceLineItem({
+            ...item,
+            taxRate: item.tax_rate ?? item.taxRate,
+          });
+          
+          await tx.execute(
+            sql`INSERT INTO order_items (
+              order_id, product_id, description, quantity, price, name, type, unit_price, tax_rate
+            ) VALUES (
+              ${orderId},
+              ${item.product_id ?? item.productId ?? null},
+              ${item.description || ''},
+              ${item.quantity || 1},
+              ${price},
+              ${item.name || item.description || 'Product'},
+              ${item.type || 'Product'},
+              ${unitPrice},
+              ${itemTaxRate}
+            )`
           );
         }
       }
       
-      await client.query('COMMIT');
-      
-      res.json({ 
-        success: true, 
-        order: updatedOrder 
+      // Recalculate the total from what is now stored
+      const orderResult = await tx.execute(sql`SELECT * FROM orders WHERE id = ${orderId}`);
+      const itemsResult = await tx.execute(
+        sql`SELECT quantity, unit_price AS "unitPrice", price, tax_rate AS "taxRate" FROM order_items WHERE order_id = ${orderId}`
+      );
+      const savedOrder = orderResult.rows[0] as Record<string, any>;
+      const pricing = calculateOrderPricing({
+        items: itemsResult.rows as any[],
+        discount: savedOrder.discount,
+        discountType: savedOrder.discount_type,
+        setupFee: savedOrder.setup_fee,
+        taxRate: savedOrder.tax_rate,
+        pricesIncludeTax: savedOrder.prices_include_tax,
       });
-    } catch (error) {
-      await client.query('ROLLBACK');
-      throw error;
-    } finally {
-      client.release();
+      
+      const updateResult = await tx.execute(
+        sql`UPDATE orders SET total = ${pricing.total.toFixed(2)} WHERE id = ${orderId} RETURNING *`
+      );
+      
+      let updatedOrder = updateResult.rows[0] as Record<string, any>;
+      
+      // Payment reminders are timed from the due date, so follow it when it moves
+      if (due_date) {
+        await paymentReminderService.rescheduleOrder(orderId, tx);
+      }
+      let statusChange: OrderStatusChange | null = null;
+      
+      if (statusChanged) {
+        statusChange = await orderStatusService.applyStatusChange(orderId, userId, req.body.status, undefined, tx);
+        updatedOrder = { ...updatedOrder, status: statusChange.order.status, updated_at: statusChange.order.updatedAt };
+      }
+      
+      return { updatedOrder, pricing, statusChange };
+    });
+    
+    // Regenerate scheduled payments if the total or event date has moved
+    await paymentPlanService.syncPlan(orderId);
+    
+    if (statusChange) {
+      await orderStatusService.runHandlers(statusChange);
     }
-  } catch (error) {
+    
+    res.json({ 
+      success: true, 
+      order: updatedOrder,
+      pricing,
+      availability
+    });
+  } catch (error: any) {
     console.error("Error updating order:", error);
-    res.status(500).json({ success: false, error: "Failed to update order" });
+    res.status(error.status || 500).json({ 
+      success: false, 
+      error: error.status ? error.message : "Failed to update order" 
+    });
   }
 });
 
@@ -416,88 +586,123 @@ router.post("/api/orders-direct", async (req, res) => {
     const userId = req.session?.userId || 1;
     console.log("Using userId:", userId);
     
-    // Start a transaction
-    console.log("Starting database transaction");
-    const client = await pool.connect();
+    const availability = await checkOrderAvailability(req);
     
-    try {
-      await client.query('BEGIN');
+    if (availability && availability.status !== "available" && !req.body.overrideAvailability) {
+      return res.status(409).json({ 
+        success: false, 
+        error: describeAvailability(availability), 
+        availability 
+      });
+    }
+    
+    const initialStatus = req.body.status || 'Quote';
+    if (!isOrderStatus(initialStatus)) {
+      return res.status(400).json({ success: false, error: "Invalid order status" });
+    }
+    
+    // The order, its items and any deposit are saved together, so a failure
+    // part way never leaves an order behind to be created again on retry.
+    // Orders start as quotes and are moved on to the requested status
+    // through the status workflow in the same transaction.
+    console.log("Starting database transaction");
+    const { newOrder, statusChanges } = await db.transaction(async (tx) => {
+      const lineItems = Array.isArray(req.body.items) ? req.body.items : [];
+      const pricesIncludeTax = await getPricesIncludeTax(userId);
+      const pricing = calculateOrderPricing({
+        items: lineItems,
+        discount: req.body.discount,
+        discountType: req.body.discountType,
+        setupFee: req.body.setupFee,
+        taxRate: req.body.taxRate,
+        pricesIncludeTax,
+      });
       
-      // Insert the order into the database
-      // Using the exact field names that match the database structure
-      console.log("Creating order with fields that match the database table structure");
-      const orderResult = await client.query(
-        `INSERT INTO orders (
+      // Insert the order into the database with the server-calculated total
+      const orderResult = await tx.execute(
+        sql`INSERT INTO orders (
           user_id, contact_id, order_number, event_type, event_date, 
-          status, delivery_type, delivery_address, delivery_time, 
-          delivery_fee, notes, special_instructions, tax_rate, 
-          amount_paid, total_amount
+          status, delivery_type, delivery_details, delivery_time, 
+          notes, discount, discount_type, setup_fee, tax_rate, total,
+          prices_include_tax
         ) VALUES (
-          $1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, 
-          $13, $14, $15
-        ) RETURNING *`,
-        [
-          userId,
-          req.body.contactId,
-          req.body.orderNumber,
-          req.body.eventType,
-          req.body.eventDate,
-          req.body.status,
-          req.body.deliveryType,
-          req.body.deliveryAddress,
-          req.body.deliveryTime,
-          req.body.deliveryFee,
-          req.body.notes,
-          req.body.specialInstructions,
-          req.body.taxRate,
-          req.body.amountPaid,
-          req.body.total_amount // Using the exact database field name
-        ]
+          ${userId},
+          ${req.body.contactId},
+          ${req.body.orderNumber || await generateOrderNumber(userId)},
+          ${req.body.eventType},
+          ${req.body.eventDate},
+          'Quote',
+          ${req.body.deliveryType},
+          ${req.body.deliveryAddress},
+          ${req.body.deliveryTime},
+          ${req.body.notes},
+          ${pricing.discountValue.toFixed(2)},
+          ${pricing.discountType},
+          ${pricing.setupFee.toFixed(2)},
+          ${req.body.taxRate || '0'},
+          ${pricing.total.toFixed(2)},
+          ${pricesIncludeTax}
+        ) RETURNING *`
       );
       
-      const newOrder = orderResult.rows[0];
+      const newOrder = orderResult.rows[0] as Record<string, any>;
       console.log("Order created:", newOrder);
       
-      // Insert order items if provided
-      if (req.body.items && Array.isArray(req.body.items)) {
-        for (const item of req.body.items) {
-          // Query the order_items table structure to see what columns it actually has
-          console.log(`Inserting order item for order: ${newOrder.id}`);
-          
-          // Insert only the columns that exist in the order_items table
-          await client.query(
-            `INSERT INTO order_items (
-              order_id, description, quantity, price, name
-            ) VALUES ($1, $2, $3, $4, $5)`,
-            [
-              newOrder.id,
-              item.description,
-              item.quantity,
-              item.price,
-              item.name
-            ]
-          );
-        }
+      // Insert order items
+      for (const item of lineItems) {
+        const { unitPrice, price, taxRate: itemTaxRate } = priceLineItem(item);
+        
+        await tx.execute(
+          sql`INSERT INTO order_items (
+            order_id, description, quantity, unit_price, price, name, type, tax_rate
+          ) VALUES (
+            ${newOrder.id},
+            ${item.description},
+            ${item.quantity},
+            ${unitPrice},
+            ${price},
+            ${item.name},
+            ${item.type || 'Product'},
+            ${itemTaxRate}
+          )`
+        );
       }
       
-      await client.query('COMMIT');
+      // Record any deposit taken when the order was created in the payment ledger
+      const amountPaid = parseFloat(req.body.amountPaid);
+      if (amountPaid > 0) {
+        await paymentLedgerService.recordPayment(
+          newOrder.id,
+          userId,
+          {
+            amount: amountPaid,
+            paymentMethod: req.body.paymentMethod || "other",
+            notes: "Recorded when the order was created",
+          },
+          tx
+        );
+      }
       
-      res.status(201).json({
-        success: true,
-        id: newOrder.id,
-        message: "Order created successfully"
-      });
-    } catch (error) {
-      await client.query('ROLLBACK');
-      throw error;
-    } finally {
-      client.release();
+      const statusChanges = await orderStatusService.applyInitialStatus(newOrder.id, userId, initialStatus, tx);
+      
+      return { newOrder, statusChanges };
+    });
+    
+    for (const change of statusChanges) {
+      await orderStatusService.runHandlers(change);
     }
-  } catch (error) {
+    
+    res.status(201).json({
+      success: true,
+      id: newOrder.id,
+      message: "Order created successfully",
+      availability
+    });
+  } catch (error: any) {
     console.error("Error creating order:", error);
-    res.status(500).json({ 
+    res.status(error.status || 500).json({ 
       success: false, 
-      error: "Failed to create order",
+      error: error.status ? error.message : "Failed to create order",
       message: error.message 
     });
   }
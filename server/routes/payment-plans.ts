@@ -0,0 +1,107 @@
+import { Router, Request, Response } from "express";
+import { z } from "zod";
+import { paymentPlanSchema } from "@shared/payment-plan";
+import { paymentPlanService } from "../services/payment-plans";
+
+const router = Router();
+
+const applyPlanSchema = z.union([
+  z.object({ presetId: z.coerce.number().int() }),
+  z.object({ plan: paymentPlanSchema }),
+]);
+
+const presetSchema = z.object({
+  name: z.string().min(1, "Name is required"),
+  plan: paymentPlanSchema,
+});
+
+/**
+ * Get the saved payment plan presets
+ */
+router.get("/api/settings/payment-plans", async (req: Request, res: Response) => {
+  try {
+    const userId = req.session?.userId || 1;
+    res.json(await paymentPlanService.getPresets(userId));
+  } catch (error) {
+    console.error("Error fetching payment plan presets:", error);
+    res.status(500).json({ error: "Failed to fetch payment plan presets" });
+  }
+});
+
+/**
+ * Save a payment plan as a named preset
+ */
+router.post("/api/settings/payment-plans", async (req: Request, res: Response) => {
+  try {
+    const userId = req.session?.userId || 1;
+
+    const validation = presetSchema.safeParse(req.body);
+    if (!validation.success) {
+      return res.status(400).json({ error: "Invalid payment plan data", details: validation.error.errors });
+    }
+
+    const preset = await paymentPlanService.createPreset(userId, validation.data.name, validation.data.plan);
+    res.status(201).json(preset);
+  } catch (error) {
+    console.error("Error creating payment plan preset:", error);
+    res.status(500).json({ error: "Failed to create payment plan preset" });
+  }
+});
+
+/**
+ * Delete a payment plan preset
+ */
+router.delete("/api/settings/payment-plans/:id", async (req: Request, res: Response) => {
+  try {
+    const userId = req.session?.userId || 1;
+    await paymentPlanService.deletePreset(userId, parseInt(req.params.id));
+    res.json({ success: true });
+  } catch (error: any) {
+    console.error("Error deleting payment plan preset:", error);
+    res.status(error.status || 500).json({ error: error.status ? error.message : "Failed to delete payment plan preset" });
+  }
+});
+
+/**
+ * Apply a payment plan, or a saved preset, to an order. This replaces the
+ * order's scheduled payments, which are regenerated whenever the order total
+ * or event date changes.
+ */
+router.post("/api/orders/:id/payment-plan", async (req: Request, res: Response) => {
+  try {
+    const orderId = parseInt(req.params.id);
+    const userId = req.session?.userId || 1;
+
+    const validation = applyPlanSchema.safeParse(req.body);
+    if (!validation.success) {
+      return res.status(400).json({ error: "Invalid payment plan data", details: validation.error.errors });
+    }
+
+    const plan = "presetId" in validation.data
+      ? await paymentPlanService.getPresetPlan(userId, validation.data.presetId)
+      : validation.data.plan;
+
+    res.json(await paymentPlanService.applyPlan(orderId, userId, plan));
+  } catch (error: any) {
+    console.error("Error applying payment plan:", error);
+    res.status(error.status || 500).json({ error: error.status ? error.message : "Failed to apply payment plan" });
+  }
+});
+
+/**
+ * Stop an order's scheduled payments following its payment plan
+ */
+router.delete("/api/orders/:id/payment-plan", async (req: Request, res: Response) => {
+  try {
+    const orderId = parseInt(req.params.id);
+    const userId = req.session?.userId || 1;
+
+    await paymentPlanService.removePlan(orderId, userId);
+    res.json({ success: true });
+  } catch (error: any) {
+    console.error("Error removing payment plan:", error);
+    res.status(error.status || 500).json({ error: error.status ? error.message : "Failed to remove payment plan" });
+  }
+});
+
+export default router;
@@ -5,10 +5,10 @@ import {
   reminderTemplates,
   reminderSchedules,
   reminderHistory,
-  orders,
-  contacts
+  orders
 } from "@shared/schema";
-import { emailService } from "../services/email";
+import { upgradeLegacyPlaceholders, validateEmailTemplate } from "@shared/email-templates";
+import { getNextSend, paymentReminderService } from "../services/payment-reminders";
 
 // Define auth request interface
 interface AuthRequest extends Express.Request {
@@ -20,6 +20,21 @@ interface AuthRequest extends Express.Request {
 
 export const router = Router();
 
+/**
+ * Problems with a reminder's subject and body. Old [ORDER_NUMBER] style
+ * tokens are accepted and upgraded when saved.
+ */
+function reminderTemplateErrors(subject?: string | null, body?: string | null): string[] {
+  const errors = (label: string, text?: string | null) =>
+    text
+      ? validateEmailTemplate("paymentReminder", upgradeLegacyPlaceholders(text)).map((error) => `${label}: ${error}`)
+      : [];
+
+  return [...errors("Subject", subject), ...errors("Body", body)];
+}
+
+const upgradeText = (text?: string | null) => (text ? upgradeLegacyPlaceholders(text) : null);
+
 /**
  * Get default reminder templates
  */
@@ -52,6 +67,11 @@ router.post("/templates", async (req: AuthRequest, res: Response) => {
       return res.status(400).json({ message: "Name, subject, and body are required" });
     }
     
+    const templateErrors = reminderTemplateErrors(subject, body);
+    if (templateErrors.length > 0) {
+      return res.status(400).json({ message: "Invalid reminder template", details: templateErrors });
+    }
+    
     // If setting this template as default, unset any existing default
     if (isDefault) {
       await db
@@ -68,8 +88,8 @@ router.post("/templates", async (req: AuthRequest, res: Response) => {
       .values({
         userId,
         name,
-        subject,
-        body,
+        subject: upgradeLegacyPlaceholders(subject),
+        body: upgradeLegacyPlaceholders(body),
         isDefault: isDefault || false
       })
       .returning();
@@ -95,6 +115,11 @@ router.put("/templates/:id", async (req: AuthRequest, res: Response) => {
       return res.status(400).json({ message: "Name, subject, and body are required" });
     }
     
+    const templateErrors = reminderTemplateErrors(subject, body);
+    if (templateErrors.length > 0) {
+      return res.status(400).json({ message: "Invalid reminder template", details: templateErrors });
+    }
+    
     // Check if template exists and belongs to user
     const existingTemplate = await db
       .select()
@@ -123,8 +148,8 @@ router.put("/templates/:id", async (req: AuthRequest, res: Response) => {
       .update(reminderTemplates)
       .set({
         name,
-        subject,
-        body,
+        subject: upgradeLegacyPlaceholders(subject),
+        body: upgradeLegacyPlaceholders(body),
         isDefault: isDefault || false,
         updatedAt: new Date()
       })
@@ -224,9 +249,15 @@ router.post("/order/:orderId", async (req: AuthRequest, res: Response) => {
       isOverdue, 
       customSubject, 
       customBody, 
-      isEnabled 
+      isEnabled,
+      repeatDays
     } = req.body;
     
+    const customErrors = reminderTemplateErrors(customSubject, customBody);
+    if (customErrors.length > 0) {
+      return res.status(400).json({ message: "Invalid reminder message", details: customErrors });
+    }
+    
     // Either daysBefore must be set or isOverdue must be true
     if ((daysBefore === null || daysBefore === undefined) && !isOverdue) {
       return res.status(400).json({ 
@@ -234,6 +265,10 @@ router.post("/order/:orderId", async (req: AuthRequest, res: Response) => {
       });
     }
     
+    if (repeatDays !== null && repeatDays !== undefined && (!Number.isInteger(repeatDays) || repeatDays < 1)) {
+      return res.status(400).json({ message: "repeatDays must be a whole number of days" });
+    }
+    
     // Make sure order exists and belongs to the user
     const orderExists = await db
       .select()
@@ -262,29 +297,14 @@ router.post("/order/:orderId", async (req: AuthRequest, res: Response) => {
       }
     }
     
-    // Calculate next send date based on the order due date and days before
-    let nextSend = null;
-    if (orderExists[0].dueDate && daysBefore !== null && daysBefore !== undefined) {
-      const dueDate = new Date(orderExists[0].dueDate);
-      nextSend = new Date(dueDate);
-      nextSend.setDate(dueDate.getDate() - daysBefore);
-      
-      // If the nextSend date is in the past, set to tomorrow
-      const tomorrow = new Date();
-      tomorrow.setDate(tomorrow.getDate() + 1);
-      if (nextSend < new Date()) {
-        nextSend = tomorrow;
-      }
-    } else if (isOverdue && orderExists[0].dueDate) {
-      // For overdue reminders, set next send to tomorrow if the due date is past
-      const dueDate = new Date(orderExists[0].dueDate);
-      const tomorrow = new Date();
-      tomorrow.setDate(tomorrow.getDate() + 1);
-      
-      if (dueDate < new Date()) {
-        nextSend = tomorrow;
-      }
-    }
+    const timing = {
+      daysBefore: isOverdue ? null : daysBefore ?? null,
+      isOverdue: isOverdue || false,
+      repeatDays: isOverdue && repeatDays ? repeatDays : null,
+    };
+    
+    // Calculate next send date based on the order due date and timing
+    const nextSend = getNextSend({ ...timing, lastSent: null }, orderExists[0].dueDate);
     
     const [schedule] = await db
       .insert(reminderSchedules)
@@ -292,10 +312,9 @@ router.post("/order/:orderId", async (req: AuthRequest, res: Response) => {
         orderId,
         userId,
         templateId: templateId || null,
-        daysBefore: daysBefore || null,
-        isOverdue: isOverdue || false,
-        customSubject: customSubject || null,
-        customBody: customBody || null,
+        ...timing,
+        customSubject: upgradeText(customSubject),
+        customBody: upgradeText(customBody),
         isEnabled: isEnabled !== false, // Default to true if not specified
         nextSend
       })
@@ -321,7 +340,8 @@ router.put("/:id", async (req: AuthRequest, res: Response) => {
       isOverdue, 
       customSubject, 
       customBody, 
-      isEnabled 
+      isEnabled,
+      repeatDays
     } = req.body;
     
     // Check if schedule exists and belongs to user
@@ -341,6 +361,11 @@ router.put("/:id", async (req: AuthRequest, res: Response) => {
       return res.status(404).json({ message: "Reminder schedule not found" });
     }
     
+    const customErrors = reminderTemplateErrors(customSubject, customBody);
+    if (customErrors.length > 0) {
+      return res.status(400).json({ message: "Invalid reminder message", details: customErrors });
+    }
+    
     // Either daysBefore must be set or isOverdue must be true
     if ((daysBefore === null || daysBefore === undefined) && !isOverdue) {
       return res.status(400).json({ 
@@ -348,6 +373,10 @@ router.put("/:id", async (req: AuthRequest, res: Response) => {
       });
     }
     
+    if (repeatDays !== null && repeatDays !== undefined && (!Number.isInteger(repeatDays) || repeatDays < 1)) {
+      return res.status(400).json({ message: "repeatDays must be a whole number of days" });
+    }
+    
     // If using a template, make sure it exists and belongs to the user
     if (templateId) {
       const templateExists = await db
@@ -363,40 +392,23 @@ router.put("/:id", async (req: AuthRequest, res: Response) => {
       }
     }
     
-    // Calculate next send date based on the order due date and days before
-    let nextSend = existingSchedule[0].schedule.nextSend;
-    const order = existingSchedule[0].order;
+    const { schedule, order } = existingSchedule[0];
+    const timing = {
+      daysBefore: isOverdue ? null : daysBefore ?? null,
+      isOverdue: isOverdue || false,
+      repeatDays: isOverdue && repeatDays ? repeatDays : null,
+    };
     
-    if (order.dueDate && daysBefore !== null && daysBefore !== undefined) {
-      const dueDate = new Date(order.dueDate);
-      nextSend = new Date(dueDate);
-      nextSend.setDate(dueDate.getDate() - daysBefore);
-      
-      // If the nextSend date is in the past, set to tomorrow
-      const tomorrow = new Date();
-      tomorrow.setDate(tomorrow.getDate() + 1);
-      if (nextSend < new Date()) {
-        nextSend = tomorrow;
-      }
-    } else if (isOverdue && order.dueDate) {
-      // For overdue reminders, set next send to tomorrow if the due date is past
-      const dueDate = new Date(order.dueDate);
-      const tomorrow = new Date();
-      tomorrow.setDate(tomorrow.getDate() + 1);
-      
-      if (dueDate < new Date()) {
-        nextSend = tomorrow;
-      }
-    }
+    // Calculate next send date based on the order due date, timing and what was already sent
+    const nextSend = getNextSend({ ...timing, lastSent: schedule.lastSent }, order.dueDate);
     
     const [updatedSchedule] = await db
       .update(reminderSchedules)
       .set({
         templateId: templateId || null,
-        daysBefore: daysBefore || null,
-        isOverdue: isOverdue || false,
-        customSubject: customSubject || null,
-        customBody: customBody || null,
+        ...timing,
+        customSubject: upgradeText(customSubject),
+        customBody: upgradeText(customBody),
         isEnabled: isEnabled !== false, // Default to true if not specified
         nextSend,
         updatedAt: new Date()
@@ -491,104 +503,15 @@ router.post("/send/:scheduleId", async (req: AuthRequest, res: Response) => {
     const userId = req.session.userId;
     const scheduleId = parseInt(req.params.scheduleId);
     
-    // Get schedule with order and contact information
-    const reminderData = await db
-      .select({
-        schedule: reminderSchedules,
-        order: orders,
-        template: reminderTemplates,
-        contact: contacts
-      })
-      .from(reminderSchedules)
-      .innerJoin(orders, eq(reminderSchedules.orderId, orders.id))
-      .leftJoin(reminderTemplates, eq(reminderSchedules.templateId, reminderTemplates.id))
-      .innerJoin(contacts, eq(orders.contactId, contacts.id))
-      .where(and(
-        eq(reminderSchedules.id, scheduleId),
-        eq(reminderSchedules.userId, userId)
-      ));
-    
-    if (reminderData.length === 0) {
-      return res.status(404).json({ message: "Reminder schedule not found" });
-    }
-    
-    const { schedule, order, template, contact } = reminderData[0];
-    
-    // Check if contact has email
-    if (!contact.email) {
-      return res.status(400).json({ message: "Customer doesn't have an email" });
-    }
-    
-    // Determine subject and body to use
-    let subject = schedule.customSubject || (template ? template.subject : null);
-    let body = schedule.customBody || (template ? template.body : null);
-    
-    if (!subject || !body) {
-      return res.status(400).json({ 
-        message: "Missing subject or body. Either set custom message or use a template" 
-      });
-    }
-    
-    // Replace placeholders in the templates
-    const placeholders = {
-      '[ORDER_NUMBER]': order.orderNumber,
-      '[CUSTOMER_NAME]': `${contact.firstName} ${contact.lastName}`,
-      '[CUSTOMER_FIRST_NAME]': contact.firstName,
-      '[AMOUNT_DUE]': order.total.toString(),
-      '[DUE_DATE]': order.dueDate ? new Date(order.dueDate).toLocaleDateString() : 'N/A',
-      '[DAYS_REMAINING]': order.dueDate ? 
-        Math.max(0, Math.ceil((new Date(order.dueDate).getTime() - new Date().getTime()) / (1000 * 60 * 60 * 24))).toString() 
-        : 'N/A',
-      '[BUSINESS_NAME]': 'Your Business Name' // TODO: Get from user settings
-    };
-    
-    Object.entries(placeholders).forEach(([placeholder, value]) => {
-      subject = subject.replace(new RegExp(placeholder, 'g'), value);
-      body = body.replace(new RegExp(placeholder, 'g'), value);
-    });
-    
-    // Send the email
-    const emailResult = await emailService.sendEmail({
-      to: contact.email,
-      from: 'noreply@bakegenie.com', // TODO: Use user's email
-      subject: subject,
-      html: body
-    });
-    
-    if (!emailResult) {
-      return res.status(500).json({ message: "Failed to send email" });
-    }
-    
-    // Record the reminder in history
-    const [reminderRecord] = await db
-      .insert(reminderHistory)
-      .values({
-        scheduleId,
-        orderId: order.id,
-        sentTo: contact.email,
-        subject,
-        body,
-        status: 'sent'
-      })
-      .returning();
-    
-    // Update the reminder schedule with last sent date
-    await db
-      .update(reminderSchedules)
-      .set({
-        lastSent: new Date(),
-        nextSend: null, // Clear next send since we just sent manually
-        updatedAt: new Date()
-      })
-      .where(eq(reminderSchedules.id, scheduleId));
+    const reminderRecord = await paymentReminderService.sendNow(scheduleId, userId);
     
     return res.status(200).json({ 
       message: "Reminder sent successfully",
       reminderRecord
     });
-  } catch (error) {
+  } catch (error: any) {
     console.error("Error sending reminder:", error);
-    return res.status(500).json({ message: "Error sending reminder" });
+    return res.status(error.status || 500).json({ message: error.status ? error.message : "Error sending reminder" });
   }
 });
 
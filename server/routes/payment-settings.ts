@@ -0,0 +1,39 @@
+import { Router, Request, Response } from "express";
+import { tippingSettingsSchema } from "@shared/tipping";
+import { tippingService } from "../services/tipping";
+
+const router = Router();
+
+/**
+ * Get the tipping settings
+ */
+router.get("/api/payment-settings/tipping", async (req: Request, res: Response) => {
+  try {
+    const userId = req.session?.userId || 1;
+    res.json(await tippingService.getSettings(userId));
+  } catch (error) {
+    console.error("Error fetching tipping settings:", error);
+    res.status(500).json({ error: "Failed to fetch tipping settings" });
+  }
+});
+
+/**
+ * Save the tipping settings
+ */
+router.post("/api/payment-settings/tipping", async (req: Request, res: Response) => {
+  try {
+    const userId = req.session?.userId || 1;
+
+    const validation = tippingSettingsSchema.safeParse(req.body);
+    if (!validation.success) {
+      return res.status(400).json({ error: "Invalid tipping settings", details: validation.error.errors });
+    }
+
+    res.json(await tippingService.updateSettings(userId, validation.data));
+  } catch (error: any) {
+    console.error("Error saving tipping settings:", error);
+    res.status(error.status || 500).json({ error: error.status ? error.message : "Failed to save tipping settings" });
+  }
+});
+
+export default router;
@@ -1,8 +1,10 @@
 import { Router } from 'express';
 import { db } from '../db';
-import { orders, payments } from '@shared/schema';
+import { payments } from '@shared/schema';
 import { eq } from 'drizzle-orm';
-import { createPaymentIntent, retrievePaymentIntent } from '../integrations/stripe';
+import { providerPaymentService } from '../services/provider-payments';
+import { tippingService } from '../services/tipping';
+import { tipSchema } from '@shared/tipping';
 import { z } from 'zod';
 
 const router = Router();
@@ -15,6 +17,8 @@ const createPaymentIntentSchema = z.object({
     orderId: z.string().optional(),
     description: z.string().optional(),
   }).optional(),
+  // Tip added on top of the amount, if the business allows tipping
+  tip: tipSchema.optional(),
 });
 
 // Create a payment intent
@@ -22,25 +26,36 @@ router.post('/create-intent', async (req, res) => {
   try {
     // Validate the request body
     const validatedData = createPaymentIntentSchema.parse(req.body);
+    const userId = req.session?.userId || 1;
     
-    // Convert amount to cents (Stripe uses smallest currency unit)
-    const amountInCents = Math.round(validatedData.amount * 100);
-    
-    // Create the payment intent
-    const paymentIntent = await createPaymentIntent(
-      amountInCents,
-      validatedData.currency,
-      validatedData.metadata || {}
+    const tipAmount = await tippingService.resolveTip(
+      userId,
+      validatedData.amount,
+      validatedData.tip
     );
     
+    const orderId = parseInt(validatedData.metadata?.orderId || '');
+    
+    // Start the charge, the client finishes it with the client secret
+    const { charge } = await providerPaymentService.chargeOrder('stripe', {
+      userId,
+      orderId: isNaN(orderId) ? undefined : orderId,
+      amount: validatedData.amount,
+      tipAmount,
+      currency: validatedData.currency,
+      description: validatedData.metadata?.description,
+    });
+    
     // Return the client secret to the client
     res.json({ 
-      clientSecret: paymentIntent.client_secret,
-      paymentIntentId: paymentIntent.id 
+      clientSecret: charge.clientSecret,
+      paymentIntentId: charge.id,
+      amount: validatedData.amount,
+      tipAmount,
     });
   } catch (error: any) {
     console.error('Error creating payment intent:', error);
-    res.status(400).json({ 
+    res.status(error.status || 400).json({ 
       message: 'Failed to create payment intent', 
       error: error.message 
     });
@@ -51,51 +66,34 @@ router.post('/create-intent', async (req, res) => {
 router.get('/status/:paymentIntentId', async (req, res) => {
   try {
     const { paymentIntentId } = req.params;
+    const userId = req.session?.userId || 1;
     
-    // Retrieve the payment intent from Stripe
-    const paymentIntent = await retrievePaymentIntent(paymentIntentId);
+    const charge = await providerPaymentService.getCharge('stripe', userId, paymentIntentId);
     
     // Update order payment status if this payment is linked to an order
-    if (
-      paymentIntent.status === 'succeeded' && 
-      paymentIntent.metadata?.orderId
-    ) {
-      const orderId = parseInt(paymentIntent.metadata.orderId);
+    if (charge.status === 'succeeded' && charge.metadata.orderId) {
+      const orderId = parseInt(charge.metadata.orderId);
       
       if (!isNaN(orderId)) {
-        // Record the payment in our database
-        const [payment] = await db.insert(payments).values({
-          orderId,
-          userId: req.user?.id || 1, // Fallback to default user if not authenticated
-          amount: paymentIntent.amount / 100, // Convert back from cents
-          paymentMethod: 'stripe',
-          paymentId: paymentIntentId,
-          status: paymentIntent.status,
-          metadata: paymentIntent.metadata || {},
-          paymentDate: new Date(),
-        }).returning();
-        
-        // Update order payment status if needed
-        await db.update(orders)
-          .set({ 
-            paymentStatus: 'paid',
-            updatedAt: new Date() 
-          })
-          .where(eq(orders.id, orderId));
+        // Record the payment against the order's ledger (only once per payment intent)
+        await providerPaymentService.recordCharge('stripe', charge, orderId, userId, {
+          notes: charge.metadata.description || null,
+        });
       }
     }
     
     // Return payment details
     res.json({
-      id: paymentIntent.id,
-      status: paymentIntent.status,
-      amount: paymentIntent.amount / 100, // Convert back from cents
-      currency: paymentIntent.currency,
-      metadata: paymentIntent.metadata,
+      id: charge.id,
+      status: charge.status,
+      amount: charge.amount + charge.tipAmount, // Total charged, including any tip
+      tipAmount: charge.tipAmount,
+      currency: charge.currency,
+      metadata: charge.metadata,
     });
   } catch (error: any) {
     console.error('Error retrieving payment status:', error);
-    res.status(400).json({ 
+    res.status(error.status || 400).json({ 
       message: 'Failed to retrieve payment status', 
       error: error.message 
     });
@@ -0,0 +1,236 @@
+import { Router, Request, Response, NextFunction } from "express";
+import fs from "fs";
+import { z } from "zod";
+import { tipSchema } from "@shared/tipping";
+import { customerPortalService, verifyPortalToken, DEFAULT_PORTAL_LINK_DAYS } from "../services/customer-portal";
+import { portalImageUpload } from "./upload";
+
+const router = Router();
+
+const linkSchema = z.object({
+  expiresInDays: z.number().int().min(1).max(365).default(DEFAULT_PORTAL_LINK_DAYS),
+});
+
+const paymentSchema = z.object({
+  scheduledPaymentId: z.number().int().optional(),
+  tip: tipSchema.optional(),
+});
+
+/**
+ * Send portal errors back with their status, hiding unexpected failures
+ */
+function sendError(res: Response, error: any, message: string) {
+  res.status(error.status || 500).json({ error: error.status ? error.message : message });
+}
+
+/**
+ * Turn away requests with an invalid or expired token before anything is
+ * uploaded
+ */
+function requirePortalToken(req: Request, res: Response, next: NextFunction) {
+  if (!verifyPortalToken(req.params.token)) {
+    return res.status(404).json({ error: "This link is invalid or has expired" });
+  }
+  next();
+}
+
+/**
+ * Delete uploaded files that weren't kept
+ */
+function removeFiles(files: Express.Multer.File[]) {
+  for (const file of files) {
+    fs.unlink(file.path, (error) => {
+      if (error) console.error(`Error removing upload ${file.path}:`, error);
+    });
+  }
+}
+
+/**
+ * Create a customer portal link for an order
+ */
+router.post("/api/orders/:id/portal-link", async (req: Request, res: Response) => {
+  try {
+    const orderId = parseInt(req.params.id);
+    const userId = req.session?.userId || 1;
+
+    if (isNaN(orderId)) {
+      return res.status(400).json({ error: "Invalid order ID" });
+    }
+
+    const validation = linkSchema.safeParse(req.body || {});
+    if (!validation.success) {
+      return res.status(400).json({ error: "Invalid portal link data", details: validation.error.errors });
+    }
+
+    res.status(201).json(await customerPortalService.createLink("order", orderId, userId, validation.data.expiresInDays));
+  } catch (error: any) {
+    console.error("Error creating portal link:", error);
+    sendError(res, error, "Failed to create portal link");
+  }
+});
+
+/**
+ * Create a customer portal link for a quote
+ */
+router.post("/api/quotes/:id/portal-link", async (req: Request, res: Response) => {
+  try {
+    const quoteId = parseInt(req.params.id);
+    const userId = req.session?.userId || 1;
+
+    if (isNaN(quoteId)) {
+      return res.status(400).json({ error: "Invalid quote ID" });
+    }
+
+    const validation = linkSchema.safeParse(req.body || {});
+    if (!validation.success) {
+      return res.status(400).json({ error: "Invalid portal link data", details: validation.error.errors });
+    }
+
+    res.status(201).json(await customerPortalService.createLink("quote", quoteId, userId, validation.data.expiresInDays));
+  } catch (error: any) {
+    console.error("Error creating portal link:", error);
+    sendError(res, error, "Failed to create portal link");
+  }
+});
+
+/**
+ * Public: get the order or quote behind a portal link
+ */
+router.get("/api/portal/:token", async (req: Request, res: Response) => {
+  try {
+    res.json(await customerPortalService.getView(req.params.token));
+  } catch (error: any) {
+    console.error("Error loading customer portal:", error);
+    sendError(res, error, "Failed to load portal");
+  }
+});
+
+/**
+ * Public: accept the business's terms
+ */
+router.post("/api/portal/:token/terms", async (req: Request, res: Response) => {
+  try {
+    const termsAcceptedAt = await customerPortalService.acceptTerms(req.params.token);
+    res.json({ success: true, termsAcceptedAt });
+  } catch (error: any) {
+    console.error("Error accepting terms:", error);
+    sendError(res, error, "Failed to accept terms");
+  }
+});
+
+/**
+ * Public: accept a quote
+ */
+router.post("/api/portal/:token/accept", async (req: Request, res: Response) => {
+  try {
+    const order = await customerPortalService.acceptQuote(req.params.token, req.body?.acceptTerms === true);
+    res.json({ success: true, orderNumber: order.orderNumber });
+  } catch (error: any) {
+    console.error("Error accepting quote from portal:", error);
+    sendError(res, error, "Failed to accept quote");
+  }
+});
+
+/**
+ * Public: decline a quote
+ */
+router.post("/api/portal/:token/decline", async (req: Request, res: Response) => {
+  try {
+    await customerPortalService.declineQuote(req.params.token);
+    res.json({ success: true });
+  } catch (error: any) {
+    console.error("Error declining quote from portal:", error);
+    sendError(res, error, "Failed to decline quote");
+  }
+});
+
+/**
+ * Public: upload inspiration photos
+ */
+router.post("/api/portal/:token/images", requirePortalToken, portalImageUpload.array("images", 10), async (req: Request, res: Response) => {
+  const files = (req.files as Express.Multer.File[]) || [];
+
+  try {
+    if (files.length === 0) {
+      return res.status(400).json({ error: "No image files provided" });
+    }
+
+    const imageUrls = await customerPortalService.addImages(
+      req.params.token,
+      files.map((file) => `/uploads/${file.filename}`)
+    );
+
+    res.status(201).json({ success: true, imageUrls });
+  } catch (error: any) {
+    removeFiles(files);
+    console.error("Error uploading portal images:", error);
+    sendError(res, error, "Failed to upload images");
+  }
+});
+
+/**
+ * Public: start a Stripe payment for a scheduled payment or the balance
+ */
+router.post("/api/portal/:token/payments/stripe", async (req: Request, res: Response) => {
+  try {
+    const validation = paymentSchema.safeParse(req.body || {});
+    if (!validation.success) {
+      return res.status(400).json({ error: "Invalid payment data", details: validation.error.errors });
+    }
+
+    res.json(
+      await customerPortalService.createStripePayment(
+        req.params.token,
+        validation.data.scheduledPaymentId,
+        validation.data.tip
+      )
+    );
+  } catch (error: any) {
+    console.error("Error creating portal payment:", error);
+    sendError(res, error, "Failed to start payment");
+  }
+});
+
+/**
+ * Public: record a completed Stripe payment
+ */
+router.post("/api/portal/:token/payments/stripe/confirm", async (req: Request, res: Response) => {
+  try {
+    const { paymentIntentId } = req.body || {};
+
+    if (typeof paymentIntentId !== "string" || !paymentIntentId) {
+      return res.status(400).json({ error: "paymentIntentId is required" });
+    }
+
+    const payment = await customerPortalService.confirmStripePayment(req.params.token, paymentIntentId);
+    res.json({ success: true, payment });
+  } catch (error: any) {
+    console.error("Error confirming portal payment:", error);
+    sendError(res, error, "Failed to confirm payment");
+  }
+});
+
+/**
+ * Public: pay a scheduled payment or the balance with Square
+ */
+router.post("/api/portal/:token/payments/square", async (req: Request, res: Response) => {
+  try {
+    const validation = paymentSchema.extend({ sourceId: z.string().min(1) }).safeParse(req.body || {});
+    if (!validation.success) {
+      return res.status(400).json({ error: "Invalid payment data", details: validation.error.errors });
+    }
+
+    const payment = await customerPortalService.paySquare(
+      req.params.token,
+      validation.data.sourceId,
+      validation.data.scheduledPaymentId,
+      validation.data.tip
+    );
+    res.json({ success: true, payment });
+  } catch (error: any) {
+    console.error("Error taking portal Square payment:", error);
+    sendError(res, error, "Failed to process payment");
+  }
+});
+
+export default router;
@@ -0,0 +1,336 @@
+import { Router, Request, Response } from "express";
+import { db } from "../db";
+import { quotes, quoteItems, contacts, insertQuoteSchema, insertQuoteItemSchema } from "@shared/schema";
+import { eq, and, desc } from "drizzle-orm";
+import { z } from "zod";
+import { generateQuoteNumber } from "../services/document-numbers";
+import { quoteService } from "../services/quotes";
+import { invoiceService } from "../services/invoice";
+import { orderDocumentService } from "../services/order-documents";
+import { getPricesIncludeTax, priceLineItem, recalculateQuoteTotal } from "../services/pricing";
+
+const router = Router();
+
+const quoteItemInputSchema = insertQuoteItemSchema.omit({ quoteId: true }).extend({
+  quantity: z.coerce.number().int().positive(),
+  unitPrice: z.coerce.string().optional(),
+  price: z.coerce.string().optional(),
+  taxRate: z.coerce.string().nullable().optional(),
+});
+
+const quoteInputSchema = insertQuoteSchema
+  .omit({ userId: true, quoteNumber: true, orderId: true })
+  .extend({
+    quoteNumber: z.string().optional(),
+    status: z.enum(["Draft", "Sent", "Declined", "Expired", "Cancelled"]).default("Draft"),
+    discount: z.coerce.string().optional(),
+    setupFee: z.coerce.string().optional(),
+    taxRate: z.coerce.string().optional(),
+    items: z.array(quoteItemInputSchema).default([]),
+  });
+
+/**
+ * Get all quotes for the current user with contact information
+ */
+router.get("/", async (req: Request, res: Response) => {
+  try {
+    const userId = req.session?.userId || 1;
+    const status = req.query.status as string | undefined;
+
+    const result = await db
+      .select({
+        quote: quotes,
+        contact: {
+          id: contacts.id,
+          firstName: contacts.firstName,
+          lastName: contacts.lastName,
+          email: contacts.email,
+          phone: contacts.phone,
+        },
+      })
+      .from(quotes)
+      .leftJoin(contacts, eq(quotes.contactId, contacts.id))
+      .where(status ? and(eq(quotes.userId, userId), eq(quotes.status, status)) : eq(quotes.userId, userId))
+      .orderBy(desc(quotes.createdAt));
+
+    res.json(result.map(({ quote, contact }) => ({ ...quote, contact })));
+  } catch (error) {
+    console.error("Error fetching quotes:", error);
+    res.status(500).json({ error: "Failed to fetch quotes" });
+  }
+});
+
+/**
+ * Get a specific quote with its items and contact
+ */
+router.get("/:id", async (req: Request, res: Response) => {
+  try {
+    const quoteId = parseInt(req.params.id);
+    const userId = req.session?.userId || 1;
+
+    if (isNaN(quoteId)) {
+      return res.status(400).json({ error: "Invalid quote ID" });
+    }
+
+    const [quote] = await db
+      .select()
+      .from(quotes)
+      .where(and(eq(quotes.id, quoteId), eq(quotes.userId, userId)));
+
+    if (!quote) {
+      return res.status(404).json({ error: "Quote not found" });
+    }
+
+    const [contact] = await db.select().from(contacts).where(eq(contacts.id, quote.contactId));
+    const items = await db.select().from(quoteItems).where(eq(quoteItems.quoteId, quoteId));
+
+    res.json({ ...quote, contact: contact || null, items });
+  } catch (error) {
+    console.error("Error fetching quote:", error);
+    res.status(500).json({ error: "Failed to fetch quote" });
+  }
+});
+
+/**
+ * Create a new quote with its items
+ */
+router.post("/", async (req: Request, res: Response) => {
+  try {
+    const userId = req.session?.userId || 1;
+
+    const validation = quoteInputSchema.safeParse(req.body);
+    if (!validation.success) {
+      return res.status(400).json({ error: "Invalid quote data", details: validation.error.errors });
+    }
+
+    const { items, ...quoteData } = validation.data;
+
+    const created = await db.transaction(async (tx) => {
+      const quoteNumber = quoteData.quoteNumber || (await generateQuoteNumber(userId, tx));
+      const pricesIncludeTax = quoteData.pricesIncludeTax ?? (await getPricesIncludeTax(userId, tx));
+
+      const [quote] = await tx
+        .insert(quotes)
+        .values({ ...quoteData, userId, quoteNumber, pricesIncludeTax, total: "0" })
+        .returning();
+
+      const insertedItems = items.length > 0
+        ? await tx
+            .insert(quoteItems)
+            .values(items.map((item) => ({ ...item, ...priceLineItem(item), quoteId: quote.id })))
+            .returning()
+        : [];
+
+      const pricing = await recalculateQuoteTotal(quote.id, tx);
+
+      return { ...quote, total: pricing!.total.toFixed(2), items: insertedItems, pricing };
+    });
+
+    res.status(201).json(created);
+  } catch (error) {
+    console.error("Error creating quote:", error);
+    res.status(500).json({ error: "Failed to create quote" });
+  }
+});
+
+/**
+ * Update a quote. When items are provided they replace the existing items.
+ */
+router.put("/:id", async (req: Request, res: Response) => {
+  try {
+    const quoteId = parseInt(req.params.id);
+    const userId = req.session?.userId || 1;
+
+    if (isNaN(quoteId)) {
+      return res.status(400).json({ error: "Invalid quote ID" });
+    }
+
+    const validation = quoteInputSchema.partial().safeParse(req.body);
+    if (!validation.success) {
+      return res.status(400).json({ error: "Invalid quote data", details: validation.error.errors });
+    }
+
+    const [existingQuote] = await db
+      .select()
+      .from(quotes)
+      .where(and(eq(quotes.id, quoteId), eq(quotes.userId, userId)));
+
+    if (!existingQuote) {
+      return res.status(404).json({ error: "Quote not found" });
+    }
+
+    if (existingQuote.status === "Accepted") {
+      return res.status(409).json({ error: "Accepted quotes cannot be edited" });
+    }
+
+    const { items, ...quoteData } = validation.data;
+
+    const updated = await db.transaction(async (tx) => {
+      const [quote] = await tx
+        .update(quotes)
+        .set({ ...quoteData, updatedAt: new Date() })
+        .where(eq(quotes.id, quoteId))
+        .returning();
+
+      if (items) {
+        await tx.delete(quoteItems).where(eq(quoteItems.quoteId, quoteId));
+        if (items.length > 0) {
+          await tx.insert(quoteItems).values(items.map((item) => ({ ...item, ...priceLineItem(item), quoteId })));
+        }
+      }
+
+      const pricing = await recalculateQuoteTotal(quoteId, tx);
+      const currentItems = await tx.select().from(quoteItems).where(eq(quoteItems.quoteId, quoteId));
+
+      return { ...quote, total: pricing!.total.toFixed(2), items: currentItems, pricing };
+    });
+
+    res.json(updated);
+  } catch (error) {
+    console.error("Error updating quote:", error);
+    res.status(500).json({ error: "Failed to update quote" });
+  }
+});
+
+/**
+ * Delete a quote and its items
+ */
+router.delete("/:id", async (req: Request, res: Response) => {
+  try {
+    const quoteId = parseInt(req.params.id);
+    const userId = req.session?.userId || 1;
+
+    if (isNaN(quoteId)) {
+      return res.status(400).json({ error: "Invalid quote ID" });
+    }
+
+    const [existingQuote] = await db
+      .select()
+      .from(quotes)
+      .where(and(eq(quotes.id, quoteId), eq(quotes.userId, userId)));
+
+    if (!existingQuote) {
+      return res.status(404).json({ error: "Quote not found" });
+    }
+
+    await db.transaction(async (tx) => {
+      await tx.delete(quoteItems).where(eq(quoteItems.quoteId, quoteId));
+      await tx.delete(quotes).where(eq(quotes.id, quoteId));
+    });
+
+    res.json({ success: true, message: "Quote deleted successfully" });
+  } catch (error) {
+    console.error("Error deleting quote:", error);
+    res.status(500).json({ error: "Failed to delete quote" });
+  }
+});
+
+/**
+ * Accept a quote and convert it into a new order
+ */
+router.post("/:id/accept", async (req: Request, res: Response) => {
+  try {
+    const quoteId = parseInt(req.params.id);
+    const userId = req.session?.userId || 1;
+
+    if (isNaN(quoteId)) {
+      return res.status(400).json({ error: "Invalid quote ID" });
+    }
+
+    const { quote, order, availability } = await quoteService.acceptQuote(quoteId, userId);
+
+    res.status(201).json({ success: true, quote, order, availability });
+  } catch (error: any) {
+    console.error("Error accepting quote:", error);
+    res.status(error.status || 500).json({ error: error.status ? error.message : "Failed to accept quote" });
+  }
+});
+
+/**
+ * Download a quote as a PDF, as it stands now
+ */
+router.get("/:id/pdf", async (req: Request, res: Response) => {
+  try {
+    const quoteId = parseInt(req.params.id);
+    const userId = req.session?.userId || 1;
+
+    if (isNaN(quoteId)) {
+      return res.status(400).json({ error: "Invalid quote ID" });
+    }
+
+    const { pdf, documentNumber } = await orderDocumentService.generateQuote(quoteId, userId);
+
+    res.setHeader("Content-Type", "application/pdf");
+    res.setHeader("Content-Disposition", `attachment; filename="quote-${documentNumber}.pdf"`);
+    res.send(pdf);
+  } catch (error: any) {
+    console.error("Error generating quote PDF:", error);
+    res.status(error.status || 500).json({ error: error.status ? error.message : "Failed to generate quote PDF" });
+  }
+});
+
+/**
+ * Email a quote to the customer, archiving the copy that was sent
+ */
+router.post("/:id/send", async (req: Request, res: Response) => {
+  try {
+    const quoteId = parseInt(req.params.id);
+    const userId = req.session?.userId || 1;
+
+    if (isNaN(quoteId)) {
+      return res.status(400).json({ error: "Invalid quote ID" });
+    }
+
+    const document = await invoiceService.sendQuote(quoteId, userId);
+
+    res.json({ success: true, message: "Quote sent successfully", document });
+  } catch (error: any) {
+    console.error("Error sending quote:", error);
+    res.status(error.status || 500).json({ error: error.status ? error.message : "Failed to send quote" });
+  }
+});
+
+/**
+ * List the copies of a quote that have been issued
+ */
+router.get("/:id/issued", async (req: Request, res: Response) => {
+  try {
+    const quoteId = parseInt(req.params.id);
+    const userId = req.session?.userId || 1;
+
+    if (isNaN(quoteId)) {
+      return res.status(400).json({ error: "Invalid quote ID" });
+    }
+
+    res.json(await invoiceService.getIssuedDocuments("quote", quoteId, userId));
+  } catch (error) {
+    console.error("Error fetching issued quotes:", error);
+    res.status(500).json({ error: "Failed to fetch issued quotes" });
+  }
+});
+
+/**
+ * Download an issued quote exactly as it was sent
+ */
+router.get("/:id/issued/:documentId/pdf", async (req: Request, res: Response) => {
+  try {
+    const quoteId = parseInt(req.params.id);
+    const documentId = parseInt(req.params.documentId);
+    const userId = req.session?.userId || 1;
+
+    if (isNaN(quoteId) || isNaN(documentId)) {
+      return res.status(400).json({ error: "Invalid quote or document ID" });
+    }
+
+    const { document, pdf } = await invoiceService.getIssuedPdf("quote", quoteId, documentId, userId);
+
+    res.setHeader("Content-Type", "application/pdf");
+    res.setHeader("Content-Disposition", `attachment; filename="quote-${document.documentNumber}.pdf"`);
+    res.send(pdf);
+  } catch (error: any) {
+    console.error("Error fetching issued quote:", error);
+    res.status(error.status || 500).json({ error: error.status ? error.message : "Failed to fetch issued quote" });
+  }
+});
+
+export default router;
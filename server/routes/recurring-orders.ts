@@ -0,0 +1,331 @@
+import { Router, Request, Response } from "express";
+import { db } from "../db";
+import {
+  recurringOrders,
+  recurringOrderItems,
+  orders,
+  contacts,
+  recurringOrderFrequencies,
+  insertRecurringOrderSchema,
+  insertRecurringOrderItemSchema,
+} from "@shared/schema";
+import { eq, and, desc, gte } from "drizzle-orm";
+import { z } from "zod";
+import { getOccurrences, recurringOrderService } from "../services/recurring-orders";
+import { getPricesIncludeTax } from "../services/pricing";
+import { orderStatusService } from "../services/order-status";
+
+const router = Router();
+
+const dateString = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Dates must be YYYY-MM-DD");
+
+const recurringOrderItemInputSchema = insertRecurringOrderItemSchema.omit({ recurringOrderId: true }).extend({
+  quantity: z.coerce.number().int().positive(),
+  unitPrice: z.coerce.string(),
+  taxRate: z.coerce.string().nullable().optional(),
+});
+
+const recurringOrderInputSchema = insertRecurringOrderSchema
+  .omit({ userId: true })
+  .extend({
+    frequency: z.enum(recurringOrderFrequencies),
+    weekdays: z.array(z.number().int().min(0).max(6)).nullish(),
+    dayOfMonth: z.number().int().min(1).max(31).nullish(),
+    startDate: dateString,
+    endDate: dateString.nullish(),
+    skipDates: z.array(dateString).nullish(),
+    daysAhead: z.number().int().min(1).max(90).optional(),
+    discount: z.coerce.string().optional(),
+    setupFee: z.coerce.string().optional(),
+    taxRate: z.coerce.string().optional(),
+    items: z.array(recurringOrderItemInputSchema).default([]),
+  });
+
+/**
+ * Get all recurring orders for the current user with contact information
+ */
+router.get("/", async (req: Request, res: Response) => {
+  try {
+    const userId = req.session?.userId || 1;
+
+    const result = await db
+      .select({
+        recurringOrder: recurringOrders,
+        contact: {
+          id: contacts.id,
+          firstName: contacts.firstName,
+          lastName: contacts.lastName,
+          businessName: contacts.businessName,
+          email: contacts.email,
+        },
+      })
+      .from(recurringOrders)
+      .leftJoin(contacts, eq(recurringOrders.contactId, contacts.id))
+      .where(eq(recurringOrders.userId, userId))
+      .orderBy(desc(recurringOrders.createdAt));
+
+    res.json(result.map(({ recurringOrder, contact }) => ({ ...recurringOrder, contact })));
+  } catch (error) {
+    console.error("Error fetching recurring orders:", error);
+    res.status(500).json({ error: "Failed to fetch recurring orders" });
+  }
+});
+
+/**
+ * Get a recurring order with its items and the orders generated from it
+ */
+router.get("/:id", async (req: Request, res: Response) => {
+  try {
+    const recurringOrderId = parseInt(req.params.id);
+    const userId = req.session?.userId || 1;
+
+    if (isNaN(recurringOrderId)) {
+      return res.status(400).json({ error: "Invalid recurring order ID" });
+    }
+
+    const [recurringOrder] = await db
+      .select()
+      .from(recurringOrders)
+      .where(and(eq(recurringOrders.id, recurringOrderId), eq(recurringOrders.userId, userId)));
+
+    if (!recurringOrder) {
+      return res.status(404).json({ error: "Recurring order not found" });
+    }
+
+    const [contact] = await db.select().from(contacts).where(eq(contacts.id, recurringOrder.contactId));
+    const items = await db
+      .select()
+      .from(recurringOrderItems)
+      .where(eq(recurringOrderItems.recurringOrderId, recurringOrderId));
+    const upcomingOrders = await db
+      .select()
+      .from(orders)
+      .where(and(
+        eq(orders.recurringOrderId, recurringOrderId),
+        gte(orders.eventDate, new Date().toISOString().split("T")[0])
+      ))
+      .orderBy(orders.eventDate);
+
+    res.json({ ...recurringOrder, contact: contact || null, items, upcomingOrders });
+  } catch (error) {
+    console.error("Error fetching recurring order:", error);
+    res.status(500).json({ error: "Failed to fetch recurring order" });
+  }
+});
+
+/**
+ * List the dates a recurring order will fall on over the next few weeks
+ */
+router.get("/:id/schedule", async (req: Request, res: Response) => {
+  try {
+    const recurringOrderId = parseInt(req.params.id);
+    const userId = req.session?.userId || 1;
+    const days = Math.min(parseInt(req.query.days as string) || 56, 366);
+
+    const [recurringOrder] = await db
+      .select()
+      .from(recurringOrders)
+      .where(and(eq(recurringOrders.id, recurringOrderId), eq(recurringOrders.userId, userId)));
+
+    if (!recurringOrder) {
+      return res.status(404).json({ error: "Recurring order not found" });
+    }
+
+    const from = new Date();
+    const to = new Date(from.getTime() + days * 24 * 60 * 60 * 1000);
+
+    res.json(getOccurrences(
+      recurringOrder,
+      from.toISOString().split("T")[0],
+      to.toISOString().split("T")[0]
+    ));
+  } catch (error) {
+    console.error("Error fetching recurring order schedule:", error);
+    res.status(500).json({ error: "Failed to fetch recurring order schedule" });
+  }
+});
+
+/**
+ * Create a recurring order with its items and generate any orders already
+ * within its look-ahead window
+ */
+router.post("/", async (req: Request, res: Response) => {
+  try {
+    const userId = req.session?.userId || 1;
+
+    const validation = recurringOrderInputSchema.safeParse(req.body);
+    if (!validation.success) {
+      return res.status(400).json({ error: "Invalid recurring order data", details: validation.error.errors });
+    }
+
+    const { items, ...recurringOrderData } = validation.data;
+
+    const created = await db.transaction(async (tx) => {
+      const pricesIncludeTax = recurringOrderData.pricesIncludeTax ?? (await getPricesIncludeTax(userId, tx));
+
+      const [recurringOrder] = await tx
+        .insert(recurringOrders)
+        .values({ ...recurringOrderData, userId, pricesIncludeTax })
+        .returning();
+
+      const insertedItems = items.length > 0
+        ? await tx
+            .insert(recurringOrderItems)
+            .values(items.map((item) => ({ ...item, recurringOrderId: recurringOrder.id })))
+            .returning()
+        : [];
+
+      return { ...recurringOrder, items: insertedItems };
+    });
+
+    const generatedOrders = await recurringOrderService.generateOrders(created.id);
+
+    res.status(201).json({ ...created, generatedOrders });
+  } catch (error) {
+    console.error("Error creating recurring order:", error);
+    res.status(500).json({ error: "Failed to create recurring order" });
+  }
+});
+
+/**
+ * Update a recurring order. When items are provided they replace the
+ * existing items. With `applyToFutureOrders`, generated orders that haven't
+ * been confirmed yet are updated to match.
+ */
+router.put("/:id", async (req: Request, res: Response) => {
+  try {
+    const recurringOrderId = parseInt(req.params.id);
+    const userId = req.session?.userId || 1;
+
+    if (isNaN(recurringOrderId)) {
+      return res.status(400).json({ error: "Invalid recurring order ID" });
+    }
+
+    const validation = recurringOrderInputSchema.partial().safeParse(req.body);
+    if (!validation.success) {
+      return res.status(400).json({ error: "Invalid recurring order data", details: validation.error.errors });
+    }
+
+    const [existing] = await db
+      .select()
+      .from(recurringOrders)
+      .where(and(eq(recurringOrders.id, recurringOrderId), eq(recurringOrders.userId, userId)));
+
+    if (!existing) {
+      return res.status(404).json({ error: "Recurring order not found" });
+    }
+
+    const { items, ...recurringOrderData } = validation.data;
+    const applyToFutureOrders = req.body.applyToFutureOrders === true;
+
+    const updated = await db.transaction(async (tx) => {
+      const [recurringOrder] = await tx
+        .update(recurringOrders)
+        .set({ ...recurringOrderData, updatedAt: new Date() })
+        .where(eq(recurringOrders.id, recurringOrderId))
+        .returning();
+
+      if (items) {
+        await tx.delete(recurringOrderItems).where(eq(recurringOrderItems.recurringOrderId, recurringOrderId));
+        if (items.length > 0) {
+          await tx.insert(recurringOrderItems).values(items.map((item) => ({ ...item, recurringOrderId })));
+        }
+      }
+
+      const futureOrders = applyToFutureOrders
+        ? await recurringOrderService.updateFutureOrders(recurringOrderId, tx)
+        : null;
+
+      const currentItems = await tx
+        .select()
+        .from(recurringOrderItems)
+        .where(eq(recurringOrderItems.recurringOrderId, recurringOrderId));
+
+      return { ...recurringOrder, items: currentItems, futureOrders };
+    });
+
+    // Side effects of cancelling orders, like turning off their payment
+    // reminders, run once the changes are saved
+    for (const change of updated.futureOrders?.statusChanges || []) {
+      await orderStatusService.runHandlers(change);
+    }
+
+    // Fill in any dates the new schedule adds within the look-ahead window
+    const generatedOrders = await recurringOrderService.generateOrders(recurringOrderId);
+
+    const { futureOrders, ...recurringOrder } = updated;
+
+    res.json({
+      ...recurringOrder,
+      futureOrders: futureOrders && { updated: futureOrders.updated, cancelled: futureOrders.cancelled },
+      generatedOrders,
+    });
+  } catch (error) {
+    console.error("Error updating recurring order:", error);
+    res.status(500).json({ error: "Failed to update recurring order" });
+  }
+});
+
+/**
+ * Generate any due orders for a recurring order now rather than waiting for
+ * the daily job
+ */
+router.post("/:id/generate", async (req: Request, res: Response) => {
+  try {
+    const recurringOrderId = parseInt(req.params.id);
+    const userId = req.session?.userId || 1;
+
+    const [recurringOrder] = await db
+      .select()
+      .from(recurringOrders)
+      .where(and(eq(recurringOrders.id, recurringOrderId), eq(recurringOrders.userId, userId)));
+
+    if (!recurringOrder) {
+      return res.status(404).json({ error: "Recurring order not found" });
+    }
+
+    const generatedOrders = await recurringOrderService.generateOrders(recurringOrderId);
+
+    res.json({ success: true, generatedOrders });
+  } catch (error) {
+    console.error("Error generating recurring orders:", error);
+    res.status(500).json({ error: "Failed to generate orders" });
+  }
+});
+
+/**
+ * Delete a recurring order and its items. Orders already generated from it
+ * are kept.
+ */
+router.delete("/:id", async (req: Request, res: Response) => {
+  try {
+    const recurringOrderId = parseInt(req.params.id);
+    const userId = req.session?.userId || 1;
+
+    if (isNaN(recurringOrderId)) {
+      return res.status(400).json({ error: "Invalid recurring order ID" });
+    }
+
+    const [existing] = await db
+      .select()
+      .from(recurringOrders)
+      .where(and(eq(recurringOrders.id, recurringOrderId), eq(recurringOrders.userId, userId)));
+
+    if (!existing) {
+      return res.status(404).json({ error: "Recurring order not found" });
+    }
+
+    await db.transaction(async (tx) => {
+      await tx.update(orders).set({ recurringOrderId: null }).where(eq(orders.recurringOrderId, recurringOrderId));
+      await tx.delete(recurringOrderItems).where(eq(recurringOrderItems.recurringOrderId, recurringOrderId));
+      await tx.delete(recurringOrders).where(eq(recurringOrders.id, recurringOrderId));
+    });
+
+    res.json({ success: true, message: "Recurring order deleted successfully" });
+  } catch (error) {
+    console.error("Error deleting recurring order:", error);
+    res.status(500).json({ error: "Failed to delete recurring order" });
+  }
+});
+
+export default router;
@@ -12,6 +12,8 @@ import {
   getBreakdownByOrderTypeReport,
   getBreakdownByEventTypeReport,
   getPaymentsByPeriodReport,
+  getTaxReturnReport,
+  downloadTaxReturnReport,
   getExpenseSummaryReport,
   getExpenseDetailedReport,
   getExpensesByCategoryReport,
@@ -41,6 +43,8 @@ router.get("/expenses-by-category", getExpensesByCategoryReport);
 router.get("/income-detailed", getIncomeDetailedReport);
 router.get("/income-by-category", getIncomeByCategoryReport);
 router.get("/payments-by-period", getPaymentsByPeriodReport);
+router.get("/tax-return", getTaxReturnReport);
+router.get("/tax-return/download/:format", downloadTaxReturnReport);
 
 // Analytics reports
 router.get("/orders-breakdown", getOrderItemBreakdownReport);
@@ -1,5 +1,7 @@
 import { Router, Request, Response } from "express";
 import { invoiceService } from "../services/invoice";
+import { orderDocumentService } from "../services/order-documents";
+import { invoiceTemplateSettingsSchema } from "@shared/invoice-templates";
 
 const router = Router();
 
@@ -104,4 +106,32 @@ router.get("/", async (req: Request, res: Response) => {
   }
 });
 
+/**
+ * Preview an invoice layout as a PDF before it is saved, using the latest
+ * order or a made-up one
+ */
+router.post("/", async (req: Request, res: Response) => {
+  try {
+    const userId = req.session?.userId || 1;
+
+    const validation = invoiceTemplateSettingsSchema.safeParse(req.body);
+    if (!validation.success) {
+      return res.status(400).json({ error: "Invalid invoice template", details: validation.error.errors });
+    }
+
+    const { layout, customTemplate } = validation.data;
+    const { pdf } = await orderDocumentService.generateSampleInvoice(userId, {
+      template: layout,
+      ...(customTemplate && { customTemplate }),
+    });
+
+    res.setHeader("Content-Type", "application/pdf");
+    res.setHeader("Content-Disposition", 'inline; filename="sample-invoice.pdf"');
+    res.send(pdf);
+  } catch (error) {
+    console.error("Error generating invoice preview:", error);
+    res.status(500).json({ error: "Failed to generate invoice preview" });
+  }
+});
+
 export { router };
\ No newline at end of file
@@ -1,7 +1,8 @@
 import { Router } from "express";
 import { db } from "../db";
-import { scheduledPayments } from "@shared/schema";
+import { orders, scheduledPayments } from "@shared/schema";
 import { eq, asc } from "drizzle-orm";
+import { paymentLedgerService } from "../services/payment-ledger";
 
 const router = Router();
 
@@ -44,6 +45,12 @@ router.post("/api/orders/:orderId/scheduled-payments", async (req, res) => {
     
     console.log("Scheduled payment created:", newPayment);
     
+    // Instalments added by hand mean the order no longer follows its payment plan
+    await db.update(orders).set({ paymentPlan: null }).where(eq(orders.id, orderId));
+    
+    // The new instalment may already be covered by payments taken
+    await paymentLedgerService.reconcileScheduledPayments(orderId);
+    
     res.status(201).json({
       success: true,
       payment: newPayment,
@@ -75,6 +82,12 @@ router.patch("/api/scheduled-payments/:paymentId", async (req, res) => {
       return res.status(404).json({ error: "Scheduled payment not found" });
     }
     
+    // Instalments changed by hand mean the order no longer follows its payment
+    // plan, so the changes aren't lost when the plan is next regenerated
+    if (["amount", "dueDate", "description", "paymentMethod"].some((field) => field in req.body)) {
+      await db.update(orders).set({ paymentPlan: null }).where(eq(orders.id, updatedPayment.orderId));
+    }
+    
     res.json({
       success: true,
       payment: updatedPayment,
@@ -93,7 +106,15 @@ router.delete("/api/scheduled-payments/:paymentId", async (req, res) => {
     const paymentId = parseInt(req.params.paymentId);
     
     // Delete the payment
-    await db.delete(scheduledPayments).where(eq(scheduledPayments.id, paymentId));
+    const [deletedPayment] = await db
+      .delete(scheduledPayments)
+      .where(eq(scheduledPayments.id, paymentId))
+      .returning();
+    
+    // Instalments removed by hand mean the order no longer follows its payment plan
+    if (deletedPayment) {
+      await db.update(orders).set({ paymentPlan: null }).where(eq(orders.id, deletedPayment.orderId));
+    }
     
     res.json({
       success: true,
@@ -2,82 +2,36 @@ import { Router, Request, Response } from "express";
 import { db } from "../db";
 import { settings } from "@shared/schema";
 import { eq } from "drizzle-orm";
+import { emailTemplatesSchema } from "@shared/email-templates";
+import { emailTemplateService } from "../services/email-templates";
 
 export const router = Router();
 
 // Specialized route just for email templates to avoid date issues
 router.patch("/templates", async (req: Request, res: Response) => {
-  // For demo purposes, assume user ID 1 
-  const userId = 1;
+  const userId = req.session?.userId || 1;
   try {
-    const { 
-      quoteEmailTemplate, 
-      invoiceEmailTemplate, 
-      paymentReminderTemplate, 
-      paymentReceiptTemplate, 
-      enquiryMessageTemplate 
-    } = req.body;
-    
+    const validation = emailTemplatesSchema.safeParse(req.body);
+
+    if (!validation.success) {
+      return res.status(400).json({
+        error: "Invalid email templates",
+        details: validation.error.errors
+      });
+    }
+
     // Check if we have any data to update
-    if (!quoteEmailTemplate && 
-        !invoiceEmailTemplate && 
-        !paymentReminderTemplate && 
-        !paymentReceiptTemplate && 
-        !enquiryMessageTemplate) {
+    if (Object.values(validation.data).every((template) => template === undefined)) {
       return res.status(400).json({ error: "No template data provided" });
     }
-      
-    // Get the current settings record first
-    const [currentSettings] = await db
-      .select()
-      .from(settings)
-      .where(eq(settings.userId, userId));
-      
-    if (!currentSettings) {
-      return res.status(404).json({ error: "Settings not found" });
-    }
-    
-    // Build update object with proper camelCase to snake_case conversion
-    // Only update fields that were provided in the request
-    const updateObject: any = {
-      updated_at: new Date()
-    };
-    
-    if (quoteEmailTemplate !== undefined) {
-      updateObject.quoteEmailTemplate = quoteEmailTemplate;
-    }
-    if (invoiceEmailTemplate !== undefined) {
-      updateObject.invoiceEmailTemplate = invoiceEmailTemplate;
-    }
-    if (paymentReminderTemplate !== undefined) {
-      updateObject.paymentReminderTemplate = paymentReminderTemplate;
-    }
-    if (paymentReceiptTemplate !== undefined) {
-      updateObject.paymentReceiptTemplate = paymentReceiptTemplate;
-    }
-    if (enquiryMessageTemplate !== undefined) {
-      updateObject.enquiryMessageTemplate = enquiryMessageTemplate;
-    }
-    
-    // Use field names that match the database schema
-    const result = await db
-      .update(settings)
-      .set({
-        quoteEmailTemplate: quoteEmailTemplate,
-        invoiceEmailTemplate: invoiceEmailTemplate,
-        paymentReminderTemplate: paymentReminderTemplate,
-        paymentReceiptTemplate: paymentReceiptTemplate,
-        enquiryMessageTemplate: enquiryMessageTemplate,
-        updatedAt: new Date()
-      })
-      .where(eq(settings.userId, userId))
-      .returning();
-    
+
+    const result = await emailTemplateService.saveTemplates(userId, validation.data);
+
     return res.json({ success: true, data: result });
-  } catch (error) {
+  } catch (error: any) {
     console.error("Error updating email templates:", error);
-    return res.status(500).json({ 
-      error: "Failed to update email templates", 
+    return res.status(error.status || 500).json({ 
+      error: error.status ? error.message : "Failed to update email templates", 
       details: error instanceof Error ? error.message : String(error) 
     });
   }
@@ -139,6 +93,10 @@ router.patch("/", async (req: Request, res: Response) => {
       currency,
       weekStartDay,
       languageCode,
+      taxEnabled,
+      taxTerminology,
+      taxInvoiceTitle,
+      pricesIncludeTax,
       // ...don't include dates or IDs
     } = req.body;
     
@@ -157,6 +115,12 @@ router.patch("/", async (req: Request, res: Response) => {
     if (weekStartDay !== undefined) updateData.week_start_day = weekStartDay;
     if (languageCode !== undefined) updateData.language_code = languageCode;
     
+    // Tax settings
+    if (taxEnabled !== undefined) updateData.taxEnabled = taxEnabled === true || taxEnabled === 'true';
+    if (taxTerminology !== undefined) updateData.taxTerminology = taxTerminology;
+    if (taxInvoiceTitle !== undefined) updateData.taxInvoiceTitle = taxInvoiceTitle;
+    if (pricesIncludeTax !== undefined) updateData.pricesIncludeTax = pricesIncludeTax === true || pricesIncludeTax === 'true';
+    
     // Always set the updated timestamp with proper snake_case column name
     updateData.updated_at = new Date();
 
@@ -1,5 +1,8 @@
 import { Router, Request, Response } from 'express';
 import { squareService } from '../services/square';
+import { tippingService } from '../services/tipping';
+import { providerPaymentService } from '../services/provider-payments';
+import { tipSchema } from '@shared/tipping';
 import { z } from 'zod';
 
 export const router = Router();
@@ -91,6 +94,7 @@ const paymentSchema = z.object({
   currency: z.string().default('USD'),
   sourceId: z.string(),
   note: z.string().optional(),
+  tip: tipSchema.optional(),
 });
 
 router.post('/payment', async (req: Request, res: Response) => {
@@ -103,19 +107,25 @@ router.post('/payment', async (req: Request, res: Response) => {
     }
     
     const paymentData = paymentSchema.parse(req.body);
-    
-    const result = await squareService.processPayment(
-      userId,
-      paymentData.orderId,
-      paymentData.amount,
-      paymentData.currency,
-      paymentData.sourceId,
-      paymentData.note
+    const tipAmount = await tippingService.resolveTip(userId, paymentData.amount, paymentData.tip);
+    
+    const { charge, payment } = await providerPaymentService.chargeOrder(
+      'square',
+      {
+        userId,
+        orderId: paymentData.orderId,
+        amount: paymentData.amount,
+        tipAmount,
+        currency: paymentData.currency,
+        sourceId: paymentData.sourceId,
+        description: paymentData.note,
+      },
+      { notes: paymentData.note }
     );
     
-    return res.json(result);
-  } catch (error) {
+    return res.json({ success: true, payment: charge, paymentRecord: payment });
+  } catch (error: any) {
     console.error('Error processing payment:', error);
-    return res.status(500).json({ error: 'Failed to process payment' });
+    return res.status(error.status || 500).json({ error: error.status ? error.message : 'Failed to process payment' });
   }
 });
\ No newline at end of file
@@ -22,8 +22,25 @@ const storage = multer.diskStorage({
   },
 });
 
+// Raster images only for customer uploads, as SVGs can carry scripts
+const portalImageTypes = /^(jpeg|jpg|png|gif|webp)$/;
+
+// Create multer upload instance for public portal photos
+export const portalImageUpload = multer({
+  storage: storage,
+  limits: {
+    fileSize: 5 * 1024 * 1024, // 5MB limit
+  },
+  fileFilter: (_req, file, cb) => {
+    const [kind, subtype] = file.mimetype.split("/");
+    const ext = path.extname(file.originalname || "").toLowerCase().slice(1);
+
+    cb(null, kind === "image" && portalImageTypes.test(subtype) && portalImageTypes.test(ext));
+  },
+});
+
 // Create multer upload instance with file size limit
-const upload = multer({
+export const upload = multer({
   storage: storage,
   limits: {
     fileSize: 5 * 1024 * 1024, // 5MB limit
@@ -241,7 +241,9 @@ router.get('/notification-preferences', async (req: Request, res: Response) => {
       newEnquiries: preferences.new_enquiries,
       marketingTips: preferences.marketing_tips,
       smsOrderConfirmations: preferences.sms_order_confirmations,
-      smsDeliveryReminders: preferences.sms_delivery_reminders
+      smsDeliveryReminders: preferences.sms_delivery_reminders,
+      smsPaymentReminders: preferences.sms_payment_reminders,
+      smsCountryCode: preferences.sms_country_code
     };
 
     res.json(preferencesForClient);
@@ -264,9 +266,14 @@ router.patch('/notification-preferences', async (req: Request, res: Response) =>
       newEnquiries,
       marketingTips,
       smsOrderConfirmations,
-      smsDeliveryReminders
+      smsDeliveryReminders,
+      smsPaymentReminders,
+      smsCountryCode
     } = req.body;
 
+    // Stored as the calling code's digits, e.g. "+61" is saved as "61"
+    const countryCode = typeof smsCountryCode === 'string' ? smsCountryCode.replace(/\D/g, '') || null : null;
+
     // Check if preferences exist
     const existingPrefsResult = await pool.query(`
       SELECT * FROM user_notification_preferences
@@ -287,8 +294,10 @@ router.patch('/notification-preferences', async (req: Request, res: Response) =>
           marketing_tips = $4,
           sms_order_confirmations = $5,
           sms_delivery_reminders = $6,
-          updated_at = $7
-        WHERE user_id = $8
+          sms_payment_reminders = $7,
+          sms_country_code = $8,
+          updated_at = $9
+        WHERE user_id = $10
         RETURNING *
       `, [
         orderUpdates,
@@ -297,6 +306,8 @@ router.patch('/notification-preferences', async (req: Request, res: Response) =>
         marketingTips,
         smsOrderConfirmations,
         smsDeliveryReminders,
+        smsPaymentReminders ?? false,
+        countryCode,
         new Date(),
         Number(req.session.userId)
       ]);
@@ -312,9 +323,11 @@ router.patch('/notification-preferences', async (req: Request, res: Response) =>
           new_enquiries, 
           marketing_tips, 
           sms_order_confirmations, 
-          sms_delivery_reminders
+          sms_delivery_reminders,
+          sms_payment_reminders,
+          sms_country_code
         ) 
-        VALUES ($1, $2, $3, $4, $5, $6, $7)
+        VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
         RETURNING *
       `, [
         Number(req.session.userId),
@@ -323,7 +336,9 @@ router.patch('/notification-preferences', async (req: Request, res: Response) =>
         newEnquiries,
         marketingTips,
         smsOrderConfirmations,
-        smsDeliveryReminders
+        smsDeliveryReminders,
+        smsPaymentReminders ?? false,
+        countryCode
       ]);
       
       updatedPreferences = insertResult.rows[0];
@@ -338,7 +353,9 @@ router.patch('/notification-preferences', async (req: Request, res: Response) =>
       newEnquiries: updatedPreferences.new_enquiries,
       marketingTips: updatedPreferences.marketing_tips,
       smsOrderConfirmations: updatedPreferences.sms_order_confirmations,
-      smsDeliveryReminders: updatedPreferences.sms_delivery_reminders
+      smsDeliveryReminders: updatedPreferences.sms_delivery_reminders,
+      smsPaymentReminders: updatedPreferences.sms_payment_reminders,
+      smsCountryCode: updatedPreferences.sms_country_code
     };
 
     res.json(preferencesForClient);
@@ -0,0 +1,69 @@
+import { Router, Request, Response } from 'express';
+import type Stripe from 'stripe';
+import { verifyStripeSignature, verifySquareSignature } from '../integrations/webhook-signatures';
+import { paymentWebhookService, type SquareWebhookEvent } from '../services/payment-webhooks';
+
+const router = Router();
+
+// The unparsed request body, kept by the JSON body parser for checking signatures
+const getRawBody = (req: Request) => (req as Request & { rawBody?: Buffer }).rawBody?.toString('utf8') || '';
+
+/**
+ * The URL Square sends webhooks to, which is part of what it signs
+ */
+export function getSquareNotificationUrl(): string {
+  return process.env.SQUARE_WEBHOOK_URL || `${process.env.APP_URL || 'http://localhost:5000'}/api/webhooks/square`;
+}
+
+/**
+ * Receive Stripe webhook events
+ */
+router.post('/api/webhooks/stripe', async (req: Request, res: Response) => {
+  const secret = process.env.STRIPE_WEBHOOK_SECRET;
+
+  if (!secret) {
+    console.error('STRIPE_WEBHOOK_SECRET is not set, refusing Stripe webhook');
+    return res.status(503).json({ error: 'Stripe webhooks are not configured' });
+  }
+
+  if (!verifyStripeSignature(getRawBody(req), req.header('stripe-signature'), secret)) {
+    return res.status(400).json({ error: 'Invalid signature' });
+  }
+
+  try {
+    const result = await paymentWebhookService.handleStripeEvent(req.body as Stripe.Event);
+    res.json({ received: true, ...result });
+  } catch (error) {
+    // A 500 makes Stripe send the event again later
+    console.error('Error processing Stripe webhook:', error);
+    res.status(500).json({ error: 'Failed to process webhook' });
+  }
+});
+
+/**
+ * Receive Square webhook events
+ */
+router.post('/api/webhooks/square', async (req: Request, res: Response) => {
+  const signatureKey = process.env.SQUARE_WEBHOOK_SIGNATURE_KEY;
+
+  if (!signatureKey) {
+    console.error('SQUARE_WEBHOOK_SIGNATURE_KEY is not set, refusing Square webhook');
+    return res.status(503).json({ error: 'Square webhooks are not configured' });
+  }
+
+  const signature = req.header('x-square-hmacsha256-signature');
+  if (!verifySquareSignature(getRawBody(req), signature, signatureKey, getSquareNotificationUrl())) {
+    return res.status(400).json({ error: 'Invalid signature' });
+  }
+
+  try {
+    const result = await paymentWebhookService.handleSquareEvent(req.body as SquareWebhookEvent);
+    res.json({ received: true, ...result });
+  } catch (error) {
+    // A 500 makes Square send the event again later
+    console.error('Error processing Square webhook:', error);
+    res.status(500).json({ error: 'Failed to process webhook' });
+  }
+});
+
+export default router;
@@ -45,7 +45,8 @@ router.get('/callback', async (req: Request, res: Response) => {
 });
 
 /**
- * Check Xero connection status
+ * Check Xero connection status, with the sync status of each type of record
+ * and the errors for records that failed to sync
  */
 router.get('/status', async (req: Request, res: Response) => {
   try {
@@ -54,7 +55,8 @@ router.get('/status', async (req: Request, res: Response) => {
     }
 
     const isConnected = await xeroService.hasConnectedXero(req.session.userId);
-    res.json({ connected: isConnected });
+    const syncStatus = await xeroService.getSyncStatus(req.session.userId);
+    res.json({ connected: isConnected, ...syncStatus });
   } catch (error) {
     console.error('Error checking Xero status:', error);
     res.status(500).json({ error: 'Failed to check Xero connection status' });
@@ -79,7 +81,7 @@ router.post('/disconnect', async (req: Request, res: Response) => {
 });
 
 /**
- * Sync orders to Xero
+ * Sync orders to Xero as invoices, with their customers, payments and refunds
  */
 router.post('/sync/orders', async (req: Request, res: Response) => {
   try {
@@ -87,8 +89,13 @@ router.post('/sync/orders', async (req: Request, res: Response) => {
       return res.status(401).json({ error: 'Unauthorized' });
     }
 
-    const success = await xeroService.syncOrdersToXero(req.session.userId);
-    res.json({ success });
+    const result = await xeroService.syncOrdersToXero(req.session.userId);
+    if (!result) {
+      return res.status(400).json({ error: 'Xero is not connected' });
+    }
+
+    const failed = Object.values(result).reduce((sum, summary) => sum + summary.failed, 0);
+    res.json({ success: failed === 0, ...result });
   } catch (error) {
     console.error('Error syncing orders to Xero:', error);
     res.status(500).json({ error: 'Failed to sync orders to Xero' });
@@ -104,8 +111,12 @@ router.post('/sync/contacts', async (req: Request, res: Response) => {
       return res.status(401).json({ error: 'Unauthorized' });
     }
 
-    const success = await xeroService.syncContactsToXero(req.session.userId);
-    res.json({ success });
+    const result = await xeroService.syncContactsToXero(req.session.userId);
+    if (!result) {
+      return res.status(400).json({ error: 'Xero is not connected' });
+    }
+
+    res.json({ success: result.failed === 0, contacts: result });
   } catch (error) {
     console.error('Error syncing contacts to Xero:', error);
     res.status(500).json({ error: 'Failed to sync contacts to Xero' });
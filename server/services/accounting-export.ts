@@ -0,0 +1,592 @@
+import { db } from "../db";
+import { contacts, expenses, income, mileage, orderItems, orders, payments, refunds, settings } from "@shared/schema";
+import {
+  accountCodesSchema,
+  defaultAccountCodes,
+  type AccountCodes,
+  type AccountingExportFormat,
+} from "@shared/accounting-export";
+import { activeRefundStatuses, settledPaymentStatuses } from "@shared/payment-ledger";
+import { calculateOrderPricing, roundMoney } from "@shared/pricing";
+import { eq, and, gte, lt, lte, inArray, notInArray } from "drizzle-orm";
+import { stringify } from "csv-stringify/sync";
+import { addDays, format } from "date-fns";
+import { HttpError } from "../utils/http-error";
+
+export interface AccountingExportRange {
+  // Inclusive dates, as YYYY-MM-DD
+  from?: string;
+  to?: string;
+}
+
+export interface AccountingLine {
+  account: string;
+  description: string;
+  net: number;
+  tax: number;
+  quantity?: number;
+  unitPrice?: number;
+}
+
+/**
+ * A sales invoice, credit note, money received or refunded, or a bill, in a
+ * form every export format can be written from
+ */
+export interface AccountingDocument {
+  kind: "invoice" | "creditNote" | "receipt" | "refund" | "bill";
+  source: "order" | "payment" | "refund" | "income" | "expense" | "mileage";
+  date: Date;
+  dueDate: Date | null;
+  reference: string;
+  party: string;
+  description: string;
+  // Where the document's total goes: receivables for invoices and credit
+  // notes, the bank for receipts and refunds and payables for bills
+  totalAccount: string;
+  taxAccount: string;
+  lines: AccountingLine[];
+}
+
+export interface JournalLine {
+  date: Date;
+  journal: string;
+  reference: string;
+  party: string;
+  description: string;
+  account: string;
+  // Positive for a debit, negative for a credit
+  amount: number;
+}
+
+const toNumber = (value: string | null | undefined) => parseFloat(value || "0") || 0;
+
+const journalNames: Record<AccountingDocument["kind"], string> = {
+  invoice: "Sales",
+  creditNote: "Sales",
+  receipt: "Receipts",
+  refund: "Receipts",
+  bill: "Purchases",
+};
+
+// Documents that take money back off a sale or purchase, so are posted the
+// other way round
+const reversedKinds: AccountingDocument["kind"][] = ["creditNote", "refund", "bill"];
+
+/**
+ * Service for exporting a date range of sales, receipts, refunds, expenses
+ * and mileage claims in formats accounting packages can import. Expenses and
+ * mileage claims are exported as bills, to be matched to their payments in
+ * the accounting package.
+ */
+export class AccountingExportService {
+  /**
+   * Get a user's account codes, with the defaults for anything not set
+   */
+  async getAccountCodes(userId: number): Promise<AccountCodes> {
+    const [userSettings] = await db
+      .select({ accountCodes: settings.accountCodes })
+      .from(settings)
+      .where(eq(settings.userId, userId));
+
+    const saved = accountCodesSchema.partial().safeParse(userSettings?.accountCodes || {});
+    return { ...defaultAccountCodes, ...(saved.success ? saved.data : {}) };
+  }
+
+  /**
+   * Save a user's account codes
+   */
+  async updateAccountCodes(userId: number, accountCodes: AccountCodes): Promise<AccountCodes> {
+    const [updated] = await db
+      .update(settings)
+      .set({ accountCodes, updatedAt: new Date() })
+      .where(eq(settings.userId, userId))
+      .returning({ id: settings.id });
+
+    if (!updated) {
+      throw new HttpError(404, "Settings not found");
+    }
+
+    return await this.getAccountCodes(userId);
+  }
+
+  /**
+   * Export a date range in one of the accounting formats
+   */
+  async export(
+    userId: number,
+    exportFormat: AccountingExportFormat,
+    range: AccountingExportRange
+  ): Promise<{ content: string; filename: string; contentType: string }> {
+    const documents = await this.getDocuments(userId, range);
+    const period = [range.from, range.to].filter(Boolean).join("-to-") || "all";
+    const filename = (extension: string) => `bakegenie-${exportFormat.replace(/-(csv|iif)$/, "")}-${period}.${extension}`;
+
+    switch (exportFormat) {
+      case "quickbooks-iif":
+        return { content: this.toQuickBooksIif(documents), filename: filename("iif"), contentType: "text/plain; charset=utf-8" };
+      case "quickbooks-invoices-csv":
+        return { content: this.toQuickBooksInvoicesCsv(documents), filename: filename("csv"), contentType: "text/csv; charset=utf-8" };
+      case "quickbooks-bills-csv":
+        return { content: this.toQuickBooksBillsCsv(documents), filename: filename("csv"), contentType: "text/csv; charset=utf-8" };
+      case "sage-csv":
+        return { content: this.toSageCsv(documents), filename: filename("csv"), contentType: "text/csv; charset=utf-8" };
+      case "journal-csv":
+        return { content: this.toJournalCsv(documents), filename: filename("csv"), contentType: "text/csv; charset=utf-8" };
+    }
+  }
+
+  /**
+   * Gather the orders, payments, refunds, other income, expenses and mileage
+   * claims in a date range as accounting documents, oldest first. Payments
+   * are received at their full amount and each refund is a credit note
+   * against the sale plus the money paid back.
+   */
+  async getDocuments(userId: number, range: AccountingExportRange): Promise<AccountingDocument[]> {
+    const codes = await this.getAccountCodes(userId);
+
+    // Timestamps are compared against the start of the day after `to`
+    const createdFrom = range.from ? new Date(`${range.from}T00:00:00`) : undefined;
+    const createdBefore = range.to ? addDays(new Date(`${range.to}T00:00:00`), 1) : undefined;
+
+    const orderRows = await db
+      .select({ order: orders, contact: contacts })
+      .from(orders)
+      .leftJoin(contacts, eq(orders.contactId, contacts.id))
+      .where(
+        and(
+          eq(orders.userId, userId),
+          notInArray(orders.status, ["Quote", "Draft", "Cancelled"]),
+          createdFrom ? gte(orders.createdAt, createdFrom) : undefined,
+          createdBefore ? lt(orders.createdAt, createdBefore) : undefined
+        )
+      );
+
+    const refundRows = await db
+      .select({ refund: refunds, order: orders, contact: contacts })
+      .from(refunds)
+      .innerJoin(orders, eq(refunds.orderId, orders.id))
+      .leftJoin(contacts, eq(orders.contactId, contacts.id))
+      .where(
+        and(
+          eq(refunds.userId, userId),
+          inArray(refunds.status, activeRefundStatuses),
+          createdFrom ? gte(refunds.createdAt, createdFrom) : undefined,
+          createdBefore ? lt(refunds.createdAt, createdBefore) : undefined
+        )
+      );
+
+    // Refunded orders can be from before the range, so their items are needed too
+    const pricedOrderIds = Array.from(
+      new Set([...orderRows.map(({ order }) => order.id), ...refundRows.map(({ order }) => order.id)])
+    );
+    const items = pricedOrderIds.length
+      ? await db.select().from(orderItems).where(inArray(orderItems.orderId, pricedOrderIds))
+      : [];
+
+    const priceOrder = (order: typeof orders.$inferSelect) =>
+      calculateOrderPricing({
+        items: items.filter((item) => item.orderId === order.id),
+        discount: order.discount,
+        discountType: order.discountType,
+        setupFee: order.setupFee,
+        taxRate: order.taxRate,
+        pricesIncludeTax: order.pricesIncludeTax,
+      });
+
+    const paymentRows = await db
+      .select({ payment: payments, order: orders, contact: contacts })
+      .from(payments)
+      .innerJoin(orders, eq(payments.orderId, orders.id))
+      .leftJoin(contacts, eq(orders.contactId, contacts.id))
+      .where(
+        and(
+          eq(payments.userId, userId),
+          inArray(payments.status, settledPaymentStatuses),
+          createdFrom ? gte(payments.createdAt, createdFrom) : undefined,
+          createdBefore ? lt(payments.createdAt, createdBefore) : undefined
+        )
+      );
+
+    const inRange = (column: typeof income.date | typeof expenses.date | typeof mileage.date) =>
+      and(range.from ? gte(column, range.from) : undefined, range.to ? lte(column, range.to) : undefined);
+
+    const incomeRows = await db.select().from(income).where(and(eq(income.userId, userId), inRange(income.date)));
+    const expenseRows = await db.select().from(expenses).where(and(eq(expenses.userId, userId), inRange(expenses.date)));
+    const mileageRows = await db.select().from(mileage).where(and(eq(mileage.userId, userId), inRange(mileage.date)));
+
+    const customerName = (contact: typeof contacts.$inferSelect | null) =>
+      contact ? contact.businessName || `${contact.firstName} ${contact.lastName}` : "Customer";
+
+    const documents: AccountingDocument[] = [];
+
+    for (const { order, contact } of orderRows) {
+      const orderLines = items.filter((item) => item.orderId === order.id);
+      const pricing = priceOrder(order);
+
+      const lines: AccountingLine[] = orderLines.map((item, index) => ({
+        account: codes.sales,
+        description: item.name,
+        net: pricing.lines[index].netAmount,
+        tax: pricing.lines[index].taxAmount,
+        quantity: pricing.lines[index].quantity,
+        unitPrice: pricing.lines[index].unitPrice,
+      }));
+
+      if (pricing.setupFee > 0) {
+        lines.push({ account: codes.sales, description: "Setup fee", net: pricing.setupFeeNet, tax: pricing.setupFeeTax });
+      }
+
+      documents.push({
+        kind: "invoice",
+        source: "order",
+        date: order.createdAt,
+        dueDate: new Date(`${order.dueDate || order.eventDate}T00:00:00`),
+        reference: order.orderNumber,
+        party: customerName(contact),
+        description: `${order.eventType} order ${order.orderNumber}`,
+        totalAccount: codes.accountsReceivable,
+        taxAccount: codes.salesTax,
+        lines,
+      });
+    }
+
+    for (const { payment, order, contact } of paymentRows) {
+      const lines: AccountingLine[] = [
+        { account: codes.accountsReceivable, description: `Payment for ${order.orderNumber}`, net: toNumber(payment.amount), tax: 0 },
+      ];
+
+      // Tips are income in their own right, not part of the invoice
+      const tip = toNumber(payment.tipAmount);
+      if (tip > 0) {
+        lines.push({ account: codes.tips, description: "Tip", net: tip, tax: 0 });
+      }
+
+      documents.push({
+        kind: "receipt",
+        source: "payment",
+        date: payment.createdAt,
+        dueDate: null,
+        reference: order.orderNumber,
+        party: customerName(contact),
+        description: `${payment.paymentMethod || payment.provider} payment for ${order.orderNumber}`,
+        totalAccount: codes.bank,
+        taxAccount: codes.salesTax,
+        lines,
+      });
+    }
+
+    for (const { refund, order, contact } of refundRows) {
+      const amount = toNumber(refund.amount);
+      const pricing = priceOrder(order);
+      // The refund carries the order's share of tax
+      const tax = pricing.total > 0 ? roundMoney((amount * pricing.taxTotal) / pricing.total) : 0;
+
+      documents.push({
+        kind: "creditNote",
+        source: "refund",
+        date: refund.createdAt,
+        dueDate: null,
+        reference: refund.creditNoteNumber,
+        party: customerName(contact),
+        description: `Credit note ${refund.creditNoteNumber} for ${order.orderNumber}`,
+        totalAccount: codes.accountsReceivable,
+        taxAccount: codes.salesTax,
+        lines: [{ account: codes.sales, description: refund.reason || `Refund for ${order.orderNumber}`, net: roundMoney(amount - tax), tax }],
+      });
+
+      documents.push({
+        kind: "refund",
+        source: "refund",
+        date: refund.createdAt,
+        dueDate: null,
+        reference: refund.creditNoteNumber,
+        party: customerName(contact),
+        description: `${refund.provider} refund for ${order.orderNumber}`,
+        totalAccount: codes.bank,
+        taxAccount: codes.salesTax,
+        lines: [{ account: codes.accountsReceivable, description: `Refund for ${order.orderNumber}`, net: amount, tax: 0 }],
+      });
+    }
+
+    for (const entry of incomeRows) {
+      documents.push({
+        kind: "receipt",
+        source: "income",
+        date: new Date(`${entry.date}T00:00:00`),
+        dueDate: null,
+        reference: `INC-${entry.id}`,
+        party: "",
+        description: entry.description || entry.category,
+        totalAccount: codes.bank,
+        taxAccount: codes.salesTax,
+        lines: [
+          {
+            account: codes.incomeCategories[entry.category] || codes.sales,
+            description: entry.description || entry.category,
+            net: toNumber(entry.amount),
+            tax: 0,
+          },
+        ],
+      });
+    }
+
+    for (const expense of expenseRows) {
+      // The amount is before VAT, which is recorded separately
+      documents.push({
+        kind: "bill",
+        source: "expense",
+        date: new Date(`${expense.date}T00:00:00`),
+        dueDate: new Date(`${expense.date}T00:00:00`),
+        reference: `EXP-${expense.id}`,
+        party: expense.supplier || expense.category,
+        description: expense.description || expense.category,
+        totalAccount: codes.accountsPayable,
+        taxAccount: codes.purchaseTax,
+        lines: [
+          {
+            account: codes.expenseCategories[expense.category] || codes.expenses,
+            description: expense.description || expense.category,
+            net: toNumber(expense.amount),
+            tax: toNumber(expense.vat),
+          },
+        ],
+      });
+    }
+
+    for (const trip of mileageRows) {
+      const miles = toNumber(trip.miles) * (trip.round_trip ? 2 : 1);
+      const description = `${trip.startLocation} to ${trip.endLocation}${trip.round_trip ? " and back" : ""}: ${trip.purpose} (${miles} mi)`;
+
+      documents.push({
+        kind: "bill",
+        source: "mileage",
+        date: new Date(`${trip.date}T00:00:00`),
+        dueDate: new Date(`${trip.date}T00:00:00`),
+        reference: `MIL-${trip.id}`,
+        party: "Mileage claims",
+        description,
+        totalAccount: codes.accountsPayable,
+        taxAccount: codes.purchaseTax,
+        lines: [{ account: codes.mileage, description, net: roundMoney(miles * codes.mileageRate), tax: 0 }],
+      });
+    }
+
+    return documents
+      .filter((document) => document.lines.some((line) => line.net !== 0 || line.tax !== 0))
+      .sort((a, b) => a.date.getTime() - b.date.getTime());
+  }
+
+  /**
+   * Turn documents into balanced double-entry journal lines. Invoices and
+   * receipts debit their total account and credit their lines; credit
+   * notes, refunds and bills are the other way round.
+   */
+  toJournal(documents: AccountingDocument[]): JournalLine[][] {
+    return documents.map((document) => {
+      const sign = reversedKinds.includes(document.kind) ? -1 : 1;
+      const entry = (account: string, amount: number, description = document.description): JournalLine => ({
+        date: document.date,
+        journal: journalNames[document.kind],
+        reference: document.reference,
+        party: document.party,
+        description,
+        account,
+        amount: roundMoney(amount),
+      });
+
+      const tax = roundMoney(document.lines.reduce((sum, line) => sum + line.tax, 0));
+      const total = roundMoney(document.lines.reduce((sum, line) => sum + line.net, 0) + tax);
+
+      return [
+        entry(document.totalAccount, sign * total),
+        ...document.lines.map((line) => entry(line.account, -sign * line.net, line.description)),
+        ...(tax !== 0 ? [entry(document.taxAccount, -sign * tax, "Tax")] : []),
+      ];
+    });
+  }
+
+  private toJournalCsv(documents: AccountingDocument[]): string {
+    const rows = this.toJournal(documents).flat().map((line) => ({
+      Date: format(line.date, "yyyy-MM-dd"),
+      Journal: line.journal,
+      Reference: line.reference,
+      Party: line.party,
+      Description: line.description,
+      Account: line.account,
+      Debit: line.amount > 0 ? line.amount.toFixed(2) : "",
+      Credit: line.amount < 0 ? (-line.amount).toFixed(2) : "",
+    }));
+
+    return stringify(rows, {
+      header: true,
+      columns: ["Date", "Journal", "Reference", "Party", "Description", "Account", "Debit", "Credit"],
+    });
+  }
+
+  /**
+   * QuickBooks Desktop import file: each transaction is a TRNS line for the
+   * total followed by SPL lines for the other side, with debits positive
+   */
+  private toQuickBooksIif(documents: AccountingDocument[]): string {
+    const clean = (value: string) => value.replace(/[\t\r\n]+/g, " ");
+    const types: Record<AccountingDocument["kind"], string> = {
+      invoice: "INVOICE",
+      creditNote: "CREDIT MEMO",
+      receipt: "PAYMENT",
+      refund: "CHECK",
+      bill: "BILL",
+    };
+
+    const lines = [
+      "!TRNS\tTRNSTYPE\tDATE\tACCNT\tNAME\tAMOUNT\tDOCNUM\tMEMO",
+      "!SPL\tTRNSTYPE\tDATE\tACCNT\tNAME\tAMOUNT\tDOCNUM\tMEMO",
+      "!ENDTRNS",
+    ];
+
+    this.toJournal(documents).forEach((journal, index) => {
+      const document = documents[index];
+      const type = document.source === "income" ? "DEPOSIT" : types[document.kind];
+      journal.forEach((line, lineIndex) => {
+        lines.push(
+          [
+            lineIndex === 0 ? "TRNS" : "SPL",
+            type,
+            format(line.date, "MM/dd/yyyy"),
+            clean(line.account),
+            clean(line.party),
+            line.amount.toFixed(2),
+            clean(line.reference),
+            clean(line.description),
+          ].join("\t")
+        );
+      });
+      lines.push("ENDTRNS");
+    });
+
+    return lines.join("\r\n") + "\r\n";
+  }
+
+  /**
+   * QuickBooks Online invoice import, one row per invoice line
+   */
+  private toQuickBooksInvoicesCsv(documents: AccountingDocument[]): string {
+    const rows = documents
+      .filter((document) => document.kind === "invoice")
+      .flatMap((document) =>
+        document.lines.map((line) => ({
+          InvoiceNo: document.reference,
+          Customer: document.party,
+          InvoiceDate: format(document.date, "MM/dd/yyyy"),
+          DueDate: format(document.dueDate || document.date, "MM/dd/yyyy"),
+          Memo: document.description,
+          "Item(Product/Service)": line.account,
+          ItemDescription: line.description,
+          ItemQuantity: line.quantity ?? 1,
+          ItemRate: (line.unitPrice ?? line.net).toFixed(2),
+          ItemAmount: line.net.toFixed(2),
+          ItemTaxAmount: line.tax.toFixed(2),
+        }))
+      );
+
+    return stringify(rows, {
+      header: true,
+      columns: [
+        "InvoiceNo",
+        "Customer",
+        "InvoiceDate",
+        "DueDate",
+        "Memo",
+        "Item(Product/Service)",
+        "ItemDescription",
+        "ItemQuantity",
+        "ItemRate",
+        "ItemAmount",
+        "ItemTaxAmount",
+      ],
+    });
+  }
+
+  /**
+   * QuickBooks Online bill import for expenses and mileage claims, one row
+   * per bill line
+   */
+  private toQuickBooksBillsCsv(documents: AccountingDocument[]): string {
+    const rows = documents
+      .filter((document) => document.kind === "bill")
+      .flatMap((document) =>
+        document.lines.map((line) => ({
+          BillNo: document.reference,
+          Supplier: document.party,
+          BillDate: format(document.date, "MM/dd/yyyy"),
+          DueDate: format(document.dueDate || document.date, "MM/dd/yyyy"),
+          Memo: document.description,
+          Account: line.account,
+          LineDescription: line.description,
+          LineAmount: line.net.toFixed(2),
+          LineTaxAmount: line.tax.toFixed(2),
+        }))
+      );
+
+    return stringify(rows, {
+      header: true,
+      columns: ["BillNo", "Supplier", "BillDate", "DueDate", "Memo", "Account", "LineDescription", "LineAmount", "LineTaxAmount"],
+    });
+  }
+
+  /**
+   * Sage audit trail import. Invoices are SI, credit notes SC, payments SA
+   * (on account), refunds SP (sales payment), other income BR (bank receipt)
+   * and bills PI. Account references are made
+   * from the customer or supplier name the way Sage makes them.
+   */
+  private toSageCsv(documents: AccountingDocument[]): string {
+    const accountReference = (name: string) => name.toUpperCase().replace(/[^A-Z0-9]/g, "").slice(0, 8) || "GENERAL";
+    const types: Record<AccountingDocument["kind"], string> = {
+      invoice: "SI",
+      creditNote: "SC",
+      receipt: "SA",
+      refund: "SP",
+      bill: "PI",
+    };
+
+    const rows = documents.flatMap((document) =>
+      document.lines.map((line, index) => {
+        // Tips on a payment aren't owed by the customer, so they're a bank
+        // receipt to the tips account rather than part of the payment on account
+        const isTip = document.source === "payment" && index > 0;
+        const isBankReceipt = document.source === "income" || isTip;
+
+        return {
+          Type: isBankReceipt ? "BR" : types[document.kind],
+          "Account Reference": isBankReceipt ? document.totalAccount : accountReference(document.party),
+          "Nominal A/C Ref": (document.source === "payment" && !isTip) || document.kind === "refund" ? document.totalAccount : line.account,
+          "Department Code": "",
+          Date: format(document.date, "dd/MM/yyyy"),
+          Reference: document.reference,
+          Details: line.description,
+          "Net Amount": line.net.toFixed(2),
+          "Tax Code": line.tax !== 0 ? "T1" : document.kind === "receipt" || document.kind === "refund" ? "T9" : "T0",
+          "Tax Amount": line.tax.toFixed(2),
+        };
+      })
+    );
+
+    return stringify(rows, {
+      header: true,
+      columns: [
+        "Type",
+        "Account Reference",
+        "Nominal A/C Ref",
+        "Department Code",
+        "Date",
+        "Reference",
+        "Details",
+        "Net Amount",
+        "Tax Code",
+        "Tax Amount",
+      ],
+    });
+  }
+}
+
+export const accountingExportService = new AccountingExportService();
@@ -0,0 +1,189 @@
+import { db, type DbExecutor } from "../db";
+import { blockedDates, dailyCapacity, orders, orderItems, products, settings } from "@shared/schema";
+import { isDateString, isOpenOnWeekday, type BusinessHours, type DateAvailability } from "@shared/availability";
+import { eq, and, gte, lte, ne, inArray, sql } from "drizzle-orm";
+import { HttpError } from "../utils/http-error";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface AvailabilityCheckOptions {
+  // Order being edited, so it isn't counted against its own date
+  excludeOrderId?: number;
+  // Labour hours the new order would add to the day
+  laborHours?: number;
+}
+
+function toDayNumber(date: string): number {
+  return Math.floor(Date.parse(`${date}T00:00:00Z`) / DAY_MS);
+}
+
+function fromDayNumber(day: number): string {
+  return new Date(day * DAY_MS).toISOString().split("T")[0];
+}
+
+/**
+ * Service for blocked dates and daily capacity
+ */
+export class AvailabilityService {
+  /**
+   * Work out the availability of every date between two dates (inclusive)
+   */
+  async getAvailability(
+    userId: number,
+    from: string,
+    to: string,
+    options: AvailabilityCheckOptions = {},
+    executor: DbExecutor = db
+  ): Promise<DateAvailability[]> {
+    const blocks = await executor
+      .select()
+      .from(blockedDates)
+      .where(and(eq(blockedDates.userId, userId), lte(blockedDates.startDate, to), gte(blockedDates.endDate, from)));
+
+    const capacity = await executor.select().from(dailyCapacity).where(eq(dailyCapacity.userId, userId));
+
+    const [userSettings] = await executor
+      .select({ businessHours: settings.businessHours })
+      .from(settings)
+      .where(eq(settings.userId, userId));
+    const businessHours = (userSettings?.businessHours || null) as BusinessHours | null;
+
+    const orderFilter = and(
+      eq(orders.userId, userId),
+      gte(orders.eventDate, from),
+      lte(orders.eventDate, to),
+      ne(orders.status, "Cancelled"),
+      options.excludeOrderId ? ne(orders.id, options.excludeOrderId) : undefined
+    );
+
+    const orderCounts = await executor
+      .select({ date: orders.eventDate, count: sql<number>`count(*)::int` })
+      .from(orders)
+      .where(orderFilter)
+      .groupBy(orders.eventDate);
+
+    const laborTotals = await executor
+      .select({
+        date: orders.eventDate,
+        hours: sql<string>`coalesce(sum(${orderItems.quantity} * coalesce(nullif(${products.laborHours}, '')::numeric, 0)), 0)`,
+      })
+      .from(orders)
+      .innerJoin(orderItems, eq(orderItems.orderId, orders.id))
+      .innerJoin(products, eq(orderItems.productId, products.id))
+      .where(orderFilter)
+      .groupBy(orders.eventDate);
+
+    const result: DateAvailability[] = [];
+
+    for (let day = toDayNumber(from); day <= toDayNumber(to); day++) {
+      const date = fromDayNumber(day);
+      const weekday = new Date(day * DAY_MS).getUTCDay();
+      const dayCapacity = capacity.find((row) => row.weekday === weekday);
+
+      const blockReasons = blocks
+        .filter((block) => block.startDate <= date && block.endDate >= date)
+        .map((block) => block.reason || "")
+        .filter((reason) => reason !== "");
+      const isBlocked = blocks.some((block) => block.startDate <= date && block.endDate >= date);
+
+      const orderCount = orderCounts.find((row) => row.date === date)?.count || 0;
+      const laborHours = parseFloat(laborTotals.find((row) => row.date === date)?.hours || "0");
+      const maxOrders = dayCapacity?.maxOrders ?? null;
+      const maxLaborHours = dayCapacity?.maxLaborHours ? parseFloat(dayCapacity.maxLaborHours) : null;
+
+      const isFull = (maxOrders !== null && orderCount >= maxOrders) ||
+        (maxLaborHours !== null && laborHours >= maxLaborHours);
+
+      result.push({
+        date,
+        status: isBlocked ? "blocked" : !isOpenOnWeekday(businessHours, weekday) ? "closed" : isFull ? "full" : "available",
+        blockReasons,
+        orderCount,
+        laborHours,
+        maxOrders,
+        maxLaborHours,
+      });
+    }
+
+    return result;
+  }
+
+  /**
+   * Check whether one more order fits on a date. A date is reported as full
+   * when the extra order would go over its order or labour hour limit.
+   */
+  async checkDate(
+    userId: number,
+    date: string,
+    options: AvailabilityCheckOptions = {},
+    executor: DbExecutor = db
+  ): Promise<DateAvailability> {
+    if (!isDateString(date)) {
+      throw new HttpError(400, "Dates must be YYYY-MM-DD");
+    }
+
+    const [availability] = await this.getAvailability(userId, date, date, options, executor);
+
+    if (availability.status !== "available") {
+      return availability;
+    }
+
+    const overOrders = availability.maxOrders !== null && availability.orderCount + 1 > availability.maxOrders;
+    const overHours = availability.maxLaborHours !== null &&
+      availability.laborHours + (options.laborHours || 0) > availability.maxLaborHours;
+
+    return overOrders || overHours ? { ...availability, status: "full" } : availability;
+  }
+
+  /**
+   * Check whether a new or rescheduled order with these lines fits on its
+   * event date
+   */
+  async checkOrder(
+    userId: number,
+    eventDate: string,
+    items: { productId?: number | string | null; product_id?: number | string | null; quantity: number | string }[],
+    options: AvailabilityCheckOptions = {},
+    executor: DbExecutor = db
+  ): Promise<DateAvailability> {
+    const laborHours = await this.getLaborHours(
+      items.map((item) => {
+        const productId = item.productId ?? item.product_id;
+        return { productId: productId ? Number(productId) : null, quantity: item.quantity };
+      }),
+      executor
+    );
+
+    return this.checkDate(userId, eventDate.split("T")[0], { ...options, laborHours }, executor);
+  }
+
+  /**
+   * Total labour hours for a set of order lines, based on each product's
+   * labour hours
+   */
+  async getLaborHours(
+    items: { productId?: number | null; quantity: number | string }[],
+    executor: DbExecutor = db
+  ): Promise<number> {
+    const productIds = items
+      .map((item) => item.productId)
+      .filter((id): id is number => typeof id === "number");
+
+    if (productIds.length === 0) {
+      return 0;
+    }
+
+    const rows = await executor
+      .select({ id: products.id, laborHours: products.laborHours })
+      .from(products)
+      .where(inArray(products.id, productIds));
+
+    return items.reduce((total, item) => {
+      const product = rows.find((row) => row.id === item.productId);
+      const quantity = typeof item.quantity === "number" ? item.quantity : parseFloat(item.quantity) || 0;
+      return total + quantity * (parseFloat(product?.laborHours || "0") || 0);
+    }, 0);
+  }
+}
+
+export const availabilityService = new AvailabilityService();
@@ -0,0 +1,44 @@
+import cron from 'node-cron';
+import { customerAutomationService } from './customer-automations';
+
+let scheduledTask: ReturnType<typeof cron.schedule> | null = null;
+
+/**
+ * Send the event reminders and thank you emails that are due
+ */
+async function runCustomerAutomationsJob() {
+  try {
+    console.log('Running customer automations job');
+    const count = await customerAutomationService.runScheduled();
+    console.log(`Queued ${count} customer automation emails`);
+  } catch (error) {
+    console.error('Error in customer automations job:', error);
+  }
+}
+
+/**
+ * Start the customer automations job. It runs once at startup so a restart
+ * never misses a day, then every day at 8am. Emails already sent are never
+ * sent again, however often it runs.
+ */
+export function startCustomerAutomationScheduler() {
+  console.log('Starting customer automation scheduler...');
+
+  try {
+    scheduledTask = cron.schedule('0 8 * * *', runCustomerAutomationsJob);
+    runCustomerAutomationsJob();
+  } catch (error) {
+    console.error('Error starting customer automation scheduler:', error);
+    scheduledTask = null;
+  }
+}
+
+/**
+ * Stop the customer automations job
+ */
+export function stopCustomerAutomationScheduler() {
+  if (scheduledTask) {
+    scheduledTask.stop();
+    scheduledTask = null;
+  }
+}
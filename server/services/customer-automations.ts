@@ -0,0 +1,303 @@
+import { db } from "../db";
+import {
+  contacts,
+  customerAutomations,
+  customerAutomationSends,
+  orderLogs,
+  orders,
+  settings,
+  type CustomerAutomation,
+  type Order,
+} from "@shared/schema";
+import {
+  customerAutomationLabels,
+  customerAutomationTypes,
+  defaultCustomerAutomations,
+  type CustomerAutomationSettings,
+  type CustomerAutomationsInput,
+  type CustomerAutomationsResponse,
+  type CustomerAutomationType,
+} from "@shared/customer-automations";
+import { eq, and, gte, lte, inArray, like } from "drizzle-orm";
+import { addDays, format } from "date-fns";
+import { logOrderAction } from "./order-log";
+import { emailTemplateService } from "./email-templates";
+import { emailOutboxService } from "./email-outbox";
+import { HttpError } from "../utils/http-error";
+
+// Orders that are still going ahead, so a reminder about them is wanted
+const UPCOMING_ORDER_STATUSES = ["Confirmed", "Paid", "Ready"];
+
+// How far back delivered orders are looked for, so turning the thank you
+// email on doesn't send it for every order ever delivered
+const REVIEW_LOOKBACK_DAYS = 7;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Service for customer automations: emails sent to customers when an order
+ * is confirmed, before its event and after it is delivered. Each email is
+ * claimed in customer_automation_sends before it is queued, so it is sent
+ * once however many times an automation runs.
+ */
+export class CustomerAutomationService {
+  /**
+   * Every automation, using the defaults for any the user hasn't set up
+   */
+  async getAutomations(userId: number): Promise<CustomerAutomationsResponse> {
+    const saved = await db.select().from(customerAutomations).where(eq(customerAutomations.userId, userId));
+    const [userSettings] = await db
+      .select({ reviewUrl: settings.reviewUrl })
+      .from(settings)
+      .where(eq(settings.userId, userId));
+
+    return {
+      automations: customerAutomationTypes.map((type) =>
+        toSettings(type, saved.find((automation) => automation.type === type))
+      ),
+      reviewUrl: userSettings?.reviewUrl || null,
+    };
+  }
+
+  /**
+   * Save the automations that were sent, and the review link
+   */
+  async saveAutomations(userId: number, input: CustomerAutomationsInput): Promise<CustomerAutomationsResponse> {
+    await db.transaction(async (tx) => {
+      const [saved] = await tx
+        .update(settings)
+        .set({ reviewUrl: input.reviewUrl || null, updatedAt: new Date() })
+        .where(eq(settings.userId, userId))
+        .returning({ id: settings.id });
+
+      if (!saved) {
+        throw new HttpError(404, "Settings not found");
+      }
+
+      for (const automation of input.automations) {
+        const values = {
+          enabled: automation.enabled,
+          days: automation.days,
+          subject: automation.subject,
+          body: automation.body,
+          updatedAt: new Date(),
+        };
+
+        await tx
+          .insert(customerAutomations)
+          .values({ userId, type: automation.type, ...values })
+          .onConflictDoUpdate({ target: [customerAutomations.userId, customerAutomations.type], set: values });
+      }
+    });
+
+    return await this.getAutomations(userId);
+  }
+
+  /**
+   * Email the customer that their order is confirmed, if the automation is on
+   */
+  async sendOrderConfirmation(order: Order, userId: number): Promise<boolean> {
+    const automation = await this.getAutomation(userId, "orderConfirmation");
+
+    if (!automation.enabled) {
+      return false;
+    }
+
+    return await this.send(automation, order, `orderConfirmation:${order.id}`);
+  }
+
+  /**
+   * Send the reminders and thank you emails that are due. Safe to run as
+   * often as needed. Returns how many emails were queued.
+   */
+  async runScheduled(now = new Date()): Promise<number> {
+    const enabled = await db
+      .select()
+      .from(customerAutomations)
+      .where(
+        and(
+          eq(customerAutomations.enabled, true),
+          inArray(customerAutomations.type, ["eventReminder", "reviewRequest"])
+        )
+      );
+
+    let sent = 0;
+
+    for (const row of enabled) {
+      const automation = toSettings(row.type as CustomerAutomationType, row);
+
+      try {
+        sent += automation.type === "eventReminder"
+          ? await this.sendEventReminders(row.userId, automation, now)
+          : await this.sendReviewRequests(row.userId, automation, now);
+      } catch (error) {
+        console.error(`Error running ${automation.type} automation for user ${row.userId}:`, error);
+      }
+    }
+
+    return sent;
+  }
+
+  /**
+   * Remind customers whose event is within the automation's days, including
+   * orders confirmed after the reminder would have gone. A moved event date
+   * gets a reminder of its own.
+   */
+  private async sendEventReminders(userId: number, automation: CustomerAutomationSettings, now: Date): Promise<number> {
+    const today = format(now, "yyyy-MM-dd");
+    const until = format(addDays(now, automation.days), "yyyy-MM-dd");
+
+    const upcoming = await db
+      .select()
+      .from(orders)
+      .where(
+        and(
+          eq(orders.userId, userId),
+          inArray(orders.status, UPCOMING_ORDER_STATUSES),
+          gte(orders.eventDate, today),
+          lte(orders.eventDate, until)
+        )
+      );
+
+    let sent = 0;
+    for (const order of upcoming) {
+      if (await this.send(automation, order, `eventReminder:${order.id}:${order.eventDate}`)) {
+        sent++;
+      }
+    }
+
+    return sent;
+  }
+
+  /**
+   * Thank customers whose order was delivered at least the automation's days
+   * ago, going by when it was marked as Delivered
+   */
+  private async sendReviewRequests(userId: number, automation: CustomerAutomationSettings, now: Date): Promise<number> {
+    const deliveredBefore = new Date(now.getTime() - automation.days * DAY_MS);
+    const deliveredAfter = new Date(deliveredBefore.getTime() - REVIEW_LOOKBACK_DAYS * DAY_MS);
+
+    const delivered = await db
+      .selectDistinctOn([orders.id], { order: orders })
+      .from(orders)
+      .innerJoin(orderLogs, eq(orderLogs.orderId, orders.id))
+      .where(
+        and(
+          eq(orders.userId, userId),
+          eq(orders.status, "Delivered"),
+          eq(orderLogs.action, "Status Changed"),
+          like(orderLogs.details, "%→ Delivered%"),
+          gte(orderLogs.createdAt, deliveredAfter),
+          lte(orderLogs.createdAt, deliveredBefore)
+        )
+      );
+
+    let sent = 0;
+    for (const { order } of delivered) {
+      if (await this.send(automation, order, `reviewRequest:${order.id}`)) {
+        sent++;
+      }
+    }
+
+    return sent;
+  }
+
+  /**
+   * Fill in an automation's email for an order and queue it, unless an email
+   * with the same key was already sent. The claim and the queued email are
+   * saved together, so a failure part way leaves neither.
+   */
+  private async send(automation: CustomerAutomationSettings, order: Order, key: string): Promise<boolean> {
+    const [claimed] = await db
+      .select({ id: customerAutomationSends.id })
+      .from(customerAutomationSends)
+      .where(eq(customerAutomationSends.key, key));
+
+    if (claimed) {
+      return false;
+    }
+
+    const [contact] = await db.select().from(contacts).where(eq(contacts.id, order.contactId));
+    const [userSettings] = await db.select().from(settings).where(eq(settings.userId, order.userId));
+
+    if (!contact?.email || !userSettings?.businessEmail) {
+      return false;
+    }
+
+    const email = await emailTemplateService.renderEmail(
+      order.userId,
+      { subject: automation.subject, body: automation.body },
+      { type: "order", orderId: order.id }
+    );
+
+    const queued = await db.transaction(async (tx) => {
+      const [send] = await tx
+        .insert(customerAutomationSends)
+        .values({ key, userId: order.userId, orderId: order.id, type: automation.type })
+        .onConflictDoNothing()
+        .returning();
+
+      if (!send) {
+        return false;
+      }
+
+      const message = await emailOutboxService.enqueue(
+        {
+          userId: order.userId,
+          orderId: order.id,
+          contactId: contact.id,
+          category: "order_update",
+          to: contact.email!,
+          from: userSettings.businessEmail!,
+          fromName: userSettings.businessName || "Bake Diary",
+          subject: email.subject,
+          text: email.text,
+          html: email.html,
+        },
+        tx
+      );
+
+      await tx
+        .update(customerAutomationSends)
+        .set({ emailId: message.id })
+        .where(eq(customerAutomationSends.id, send.id));
+
+      await logOrderAction(
+        order.id,
+        "Email Sent",
+        `${customerAutomationLabels[automation.type]} sent to ${contact.email}`,
+        order.userId,
+        tx
+      );
+
+      return true;
+    });
+
+    if (queued) {
+      // Sent now that it's committed, rather than on the outbox's next run
+      setImmediate(() => emailOutboxService.processDue());
+    }
+
+    return queued;
+  }
+
+  private async getAutomation(userId: number, type: CustomerAutomationType): Promise<CustomerAutomationSettings> {
+    const [row] = await db
+      .select()
+      .from(customerAutomations)
+      .where(and(eq(customerAutomations.userId, userId), eq(customerAutomations.type, type)));
+
+    return toSettings(type, row);
+  }
+}
+
+/**
+ * An automation as saved, or its defaults when the user hasn't set it up
+ */
+function toSettings(type: CustomerAutomationType, row: CustomerAutomation | undefined): CustomerAutomationSettings {
+  return row
+    ? { type, enabled: row.enabled, days: row.days, subject: row.subject, body: row.body }
+    : { type, ...defaultCustomerAutomations[type] };
+}
+
+export const customerAutomationService = new CustomerAutomationService();
@@ -0,0 +1,536 @@
+import crypto from "crypto";
+import { db } from "../db";
+import {
+  orders,
+  orderItems,
+  quotes,
+  quoteItems,
+  contacts,
+  settings,
+  scheduledPayments,
+  payments,
+  integrations,
+  type Order,
+  type Quote,
+  type Settings,
+} from "@shared/schema";
+import { calculateOrderPricing } from "@shared/pricing";
+import { settledPaymentStatuses } from "@shared/payment-ledger";
+import type { TipSelection } from "@shared/tipping";
+import { eq, and, asc, inArray } from "drizzle-orm";
+import { quoteService } from "./quotes";
+import { paymentLedgerService } from "./payment-ledger";
+import { providerPaymentService } from "./provider-payments";
+import { tippingService } from "./tipping";
+import { logOrderAction } from "./order-log";
+import { HttpError } from "../utils/http-error";
+
+export type PortalDocumentType = "order" | "quote";
+
+export interface PortalTokenPayload {
+  type: PortalDocumentType;
+  id: number;
+  userId: number;
+  // Expiry time in milliseconds since the epoch
+  exp: number;
+}
+
+type ScheduledPayment = typeof scheduledPayments.$inferSelect;
+
+export const DEFAULT_PORTAL_LINK_DAYS = 30;
+
+// Without a secret anyone could sign a token, so portal links are turned off
+const PORTAL_TOKEN_SECRET = process.env.PORTAL_TOKEN_SECRET || process.env.SESSION_SECRET || null;
+
+if (!PORTAL_TOKEN_SECRET) {
+  console.warn("Warning: PORTAL_TOKEN_SECRET is not set. Customer portal links will not work.");
+}
+
+function sign(payload: string, secret: string): string {
+  return crypto.createHmac("sha256", secret).update(payload).digest("base64url");
+}
+
+/**
+ * Create a signed token giving access to one order or quote until it expires
+ */
+export function createPortalToken(
+  type: PortalDocumentType,
+  id: number,
+  userId: number,
+  expiresInDays: number = DEFAULT_PORTAL_LINK_DAYS
+): { token: string; expiresAt: Date } {
+  if (!PORTAL_TOKEN_SECRET) {
+    throw new HttpError(503, "Customer portal links are not configured");
+  }
+
+  const expiresAt = new Date(Date.now() + expiresInDays * 24 * 60 * 60 * 1000);
+  const payload: PortalTokenPayload = { type, id, userId, exp: expiresAt.getTime() };
+  const encoded = Buffer.from(JSON.stringify(payload)).toString("base64url");
+
+  return { token: `${encoded}.${sign(encoded, PORTAL_TOKEN_SECRET)}`, expiresAt };
+}
+
+/**
+ * Check a portal token's signature and expiry, returning its payload if it
+ * is still valid
+ */
+export function verifyPortalToken(token: string): PortalTokenPayload | null {
+  const [encoded, signature] = token.split(".");
+
+  if (!PORTAL_TOKEN_SECRET || !encoded || !signature) {
+    return null;
+  }
+
+  const expected = Buffer.from(sign(encoded, PORTAL_TOKEN_SECRET));
+  const actual = Buffer.from(signature);
+
+  if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) {
+    return null;
+  }
+
+  try {
+    const payload = JSON.parse(Buffer.from(encoded, "base64url").toString()) as PortalTokenPayload;
+
+    if (payload.type !== "order" && payload.type !== "quote") {
+      return null;
+    }
+
+    return payload.exp > Date.now() ? payload : null;
+  } catch {
+    return null;
+  }
+}
+
+interface PortalContext {
+  payload: PortalTokenPayload;
+  quote: Quote | null;
+  // The order itself, or the order a quote was accepted into
+  order: Order | null;
+  settings: Settings | null;
+}
+
+/**
+ * Service behind the public customer portal. Customers reach an order or
+ * quote through a signed, expiring link, and every action they take there is
+ * recorded in the order's log.
+ */
+export class CustomerPortalService {
+  /**
+   * Create a portal link for an order or quote
+   */
+  async createLink(
+    type: PortalDocumentType,
+    id: number,
+    userId: number,
+    expiresInDays: number = DEFAULT_PORTAL_LINK_DAYS
+  ): Promise<{ token: string; url: string; expiresAt: Date }> {
+    const table = type === "order" ? orders : quotes;
+    const [record] = await db
+      .select({ id: table.id })
+      .from(table)
+      .where(and(eq(table.id, id), eq(table.userId, userId)));
+
+    if (!record) {
+      throw new HttpError(404, type === "order" ? "Order not found" : "Quote not found");
+    }
+
+    const { token, expiresAt } = createPortalToken(type, id, userId, expiresInDays);
+
+    if (type === "order") {
+      await logOrderAction(id, "Portal Link Created", `Expires ${expiresAt.toISOString().split("T")[0]}`, userId);
+    }
+
+    return { token, url: `/portal/${token}`, expiresAt };
+  }
+
+  /**
+   * Everything the customer can see through a portal link
+   */
+  async getView(token: string) {
+    const context = await this.resolve(token);
+    const { payload, quote, order } = context;
+    const source = order || quote!;
+
+    const items = order
+      ? await db.select().from(orderItems).where(eq(orderItems.orderId, order.id))
+      : await db.select().from(quoteItems).where(eq(quoteItems.quoteId, quote!.id));
+
+    const pricing = calculateOrderPricing({
+      items,
+      discount: source.discount,
+      discountType: source.discountType,
+      setupFee: source.setupFee,
+      taxRate: source.taxRate,
+      pricesIncludeTax: source.pricesIncludeTax,
+    });
+
+    const [contact] = await db
+      .select({ firstName: contacts.firstName, lastName: contacts.lastName })
+      .from(contacts)
+      .where(eq(contacts.id, source.contactId));
+
+    const paymentHistory = order
+      ? await db
+          .select({
+            id: payments.id,
+            amount: payments.amount,
+            provider: payments.provider,
+            status: payments.status,
+            createdAt: payments.createdAt,
+          })
+          .from(payments)
+          .where(and(eq(payments.orderId, order.id), inArray(payments.status, settledPaymentStatuses)))
+          .orderBy(asc(payments.createdAt))
+      : [];
+
+    const ledger = order ? await paymentLedgerService.getLedger(order.id) : null;
+
+    const [squareIntegration] = order
+      ? await db
+          .select({ locationId: integrations.locationId })
+          .from(integrations)
+          .where(and(
+            eq(integrations.userId, payload.userId),
+            eq(integrations.provider, "square"),
+            eq(integrations.isActive, true)
+          ))
+      : [];
+
+    const tipping = order ? await tippingService.getSettings(payload.userId) : null;
+
+    if (order) {
+      await logOrderAction(order.id, "Portal Viewed", null, payload.userId);
+    }
+
+    return {
+      type: payload.type,
+      expiresAt: new Date(payload.exp),
+      business: {
+        name: context.settings?.businessName || "Bake Diary",
+        email: context.settings?.businessEmail || null,
+        phone: context.settings?.businessPhone || null,
+        logoUrl: context.settings?.businessLogoUrl || null,
+      },
+      currency: context.settings?.currency || "USD",
+      terms: context.settings?.quoteFooter || null,
+      termsAcceptedAt: source.termsAcceptedAt,
+      quote: quote && {
+        quoteNumber: quote.quoteNumber,
+        status: quote.status,
+        expiryDate: quote.expiryDate,
+      },
+      order: order && {
+        orderNumber: order.orderNumber,
+        status: order.status,
+      },
+      customer: contact || null,
+      details: {
+        eventType: source.eventType,
+        eventDate: source.eventDate,
+        theme: source.theme,
+        deliveryType: source.deliveryType,
+        deliveryDetails: source.deliveryDetails,
+        deliveryTime: source.deliveryTime,
+        notes: source.notes,
+        imageUrls: source.imageUrls || [],
+      },
+      items: items.map((item) => ({
+        name: item.name,
+        description: item.description,
+        quantity: item.quantity,
+        unitPrice: item.unitPrice,
+        price: item.price,
+      })),
+      pricing,
+      scheduledPayments: ledger?.instalments || [],
+      payments: paymentHistory,
+      amountPaid: ledger?.amountPaid ?? 0,
+      balance: ledger?.balance ?? null,
+      paymentState: ledger?.state ?? null,
+      paymentProviders: {
+        stripe: !!order && !!process.env.STRIPE_SECRET_KEY,
+        square: squareIntegration?.locationId ? { locationId: squareIntegration.locationId } : null,
+      },
+      tipping: tipping?.enabled ? tipping : null,
+    };
+  }
+
+  /**
+   * Record that the customer has accepted the business's terms
+   */
+  async acceptTerms(token: string): Promise<Date> {
+    const { quote, order, payload } = await this.resolve(token);
+    const acceptedAt = new Date();
+
+    if (order) {
+      await db.update(orders).set({ termsAcceptedAt: acceptedAt }).where(eq(orders.id, order.id));
+      await logOrderAction(order.id, "Portal Terms Accepted", null, payload.userId);
+    }
+    if (quote) {
+      await db.update(quotes).set({ termsAcceptedAt: acceptedAt }).where(eq(quotes.id, quote.id));
+    }
+
+    return acceptedAt;
+  }
+
+  /**
+   * Accept a quote on the customer's behalf, turning it into an order. If the
+   * business has terms, they must have been accepted first.
+   */
+  async acceptQuote(token: string, acceptTerms: boolean): Promise<Order> {
+    const context = await this.resolve(token);
+    const quote = this.requireQuote(context);
+
+    if (context.settings?.quoteFooter && !quote.termsAcceptedAt && !acceptTerms) {
+      throw new HttpError(400, "Please accept the terms before accepting the quote");
+    }
+
+    if (!quote.termsAcceptedAt && acceptTerms) {
+      await db.update(quotes).set({ termsAcceptedAt: new Date() }).where(eq(quotes.id, quote.id));
+    }
+
+    // Customers can't book themselves onto a blocked or fully booked date
+    const { order } = await quoteService.acceptQuote(quote.id, context.payload.userId, { requireAvailability: true });
+
+    await logOrderAction(
+      order.id,
+      "Portal Quote Accepted",
+      `Quote #${quote.quoteNumber} accepted by the customer`,
+      context.payload.userId
+    );
+
+    return order;
+  }
+
+  /**
+   * Decline a quote on the customer's behalf
+   */
+  async declineQuote(token: string): Promise<Quote> {
+    const context = await this.resolve(token);
+    const quote = this.requireQuote(context);
+
+    return await quoteService.declineQuote(quote.id, context.payload.userId);
+  }
+
+  /**
+   * Add inspiration photos uploaded by the customer to the order or quote
+   */
+  async addImages(token: string, imageUrls: string[]): Promise<string[]> {
+    const { quote, order, payload } = await this.resolve(token);
+
+    if (order) {
+      const updated = [...(order.imageUrls || []), ...imageUrls];
+      await db.update(orders).set({ imageUrls: updated, updatedAt: new Date() }).where(eq(orders.id, order.id));
+      await logOrderAction(
+        order.id,
+        "Portal Photo Uploaded",
+        `${imageUrls.length} inspiration photo${imageUrls.length === 1 ? "" : "s"} uploaded`,
+        payload.userId
+      );
+      return updated;
+    }
+
+    const updated = [...(quote!.imageUrls || []), ...imageUrls];
+    await db.update(quotes).set({ imageUrls: updated, updatedAt: new Date() }).where(eq(quotes.id, quote!.id));
+    return updated;
+  }
+
+  /**
+   * Start a Stripe payment for a scheduled payment, or the order's remaining
+   * balance if no scheduled payment is given, with any tip charged on top
+   */
+  async createStripePayment(
+    token: string,
+    scheduledPaymentId?: number,
+    tip?: TipSelection
+  ): Promise<{ clientSecret: string | null; paymentIntentId: string; amount: number; tipAmount: number }> {
+    const context = await this.resolve(token);
+    const order = this.requireOrder(context);
+    const { amount, scheduledPayment } = await this.getAmountDue(order, scheduledPaymentId);
+    const tipAmount = await tippingService.resolveTip(context.payload.userId, amount, tip);
+
+    const { charge } = await providerPaymentService.chargeOrder("stripe", {
+      userId: context.payload.userId,
+      orderId: order.id,
+      amount,
+      tipAmount,
+      currency: context.settings?.currency || "USD",
+      metadata: {
+        ...(scheduledPayment && { scheduledPaymentId: scheduledPayment.id.toString() }),
+        source: "portal",
+      },
+    });
+
+    return { clientSecret: charge.clientSecret, paymentIntentId: charge.id, amount, tipAmount };
+  }
+
+  /**
+   * Record a Stripe payment once the customer has completed it. Confirming
+   * the same payment more than once only records it once.
+   */
+  async confirmStripePayment(token: string, paymentIntentId: string) {
+    const context = await this.resolve(token);
+    const order = this.requireOrder(context);
+
+    const charge = await providerPaymentService.getCharge("stripe", context.payload.userId, paymentIntentId);
+
+    if (charge.metadata.orderId !== order.id.toString()) {
+      throw new HttpError(400, "Payment does not belong to this order");
+    }
+
+    if (charge.status !== "succeeded") {
+      throw new HttpError(409, `Payment has not completed (${charge.status})`);
+    }
+
+    const scheduledPaymentId = parseInt(charge.metadata.scheduledPaymentId);
+
+    const { payment, created } = await providerPaymentService.recordCharge(
+      "stripe",
+      charge,
+      order.id,
+      context.payload.userId,
+      {
+        notes: "Paid through the customer portal",
+        scheduledPaymentId: isNaN(scheduledPaymentId) ? undefined : scheduledPaymentId,
+      }
+    );
+
+    if (created) {
+      await this.logPayment(order, charge.amount, charge.tipAmount, "Stripe", context.payload.userId);
+    }
+
+    return payment;
+  }
+
+  /**
+   * Take a Square payment using a card token from the Square Web Payments SDK,
+   * with any tip charged on top
+   */
+  async paySquare(token: string, sourceId: string, scheduledPaymentId?: number, tip?: TipSelection) {
+    const context = await this.resolve(token);
+    const order = this.requireOrder(context);
+    const { amount, scheduledPayment } = await this.getAmountDue(order, scheduledPaymentId);
+    const tipAmount = await tippingService.resolveTip(context.payload.userId, amount, tip);
+
+    const description = scheduledPayment?.description || `Payment for order #${order.orderNumber}`;
+    const { payment } = await providerPaymentService.chargeOrder(
+      "square",
+      {
+        userId: context.payload.userId,
+        orderId: order.id,
+        amount,
+        tipAmount,
+        currency: context.settings?.currency || "USD",
+        sourceId,
+        description,
+      },
+      { notes: description, scheduledPaymentId: scheduledPayment?.id }
+    );
+
+    await this.logPayment(order, amount, tipAmount, "Square", context.payload.userId);
+
+    return payment;
+  }
+
+  /**
+   * Load and check everything a portal token gives access to
+   */
+  private async resolve(token: string): Promise<PortalContext> {
+    const payload = verifyPortalToken(token);
+
+    if (!payload) {
+      throw new HttpError(404, "This link is invalid or has expired");
+    }
+
+    let quote: Quote | null = null;
+    let order: Order | null = null;
+
+    if (payload.type === "quote") {
+      [quote] = await db
+        .select()
+        .from(quotes)
+        .where(and(eq(quotes.id, payload.id), eq(quotes.userId, payload.userId)));
+
+      if (!quote) {
+        throw new HttpError(404, "This link is invalid or has expired");
+      }
+    }
+
+    const orderId = payload.type === "order" ? payload.id : quote?.orderId;
+
+    if (orderId) {
+      [order] = await db
+        .select()
+        .from(orders)
+        .where(and(eq(orders.id, orderId), eq(orders.userId, payload.userId)));
+
+      if (!order && payload.type === "order") {
+        throw new HttpError(404, "This link is invalid or has expired");
+      }
+    }
+
+    const [userSettings] = await db.select().from(settings).where(eq(settings.userId, payload.userId));
+
+    return { payload, quote: quote || null, order: order || null, settings: userSettings || null };
+  }
+
+  private requireQuote(context: PortalContext): Quote {
+    if (!context.quote) {
+      throw new HttpError(400, "This link is not for a quote");
+    }
+    return context.quote;
+  }
+
+  private requireOrder(context: PortalContext): Order {
+    if (!context.order) {
+      throw new HttpError(409, "Payments can only be made once the quote has been accepted");
+    }
+    return context.order;
+  }
+
+  /**
+   * Work out how much to charge: a pending scheduled payment, or whatever is
+   * left of the order total
+   */
+  private async getAmountDue(
+    order: Order,
+    scheduledPaymentId?: number
+  ): Promise<{ amount: number; scheduledPayment: ScheduledPayment | null }> {
+    if (scheduledPaymentId) {
+      const [scheduledPayment] = await db
+        .select()
+        .from(scheduledPayments)
+        .where(and(eq(scheduledPayments.id, scheduledPaymentId), eq(scheduledPayments.orderId, order.id)));
+
+      if (!scheduledPayment) {
+        throw new HttpError(404, "Scheduled payment not found");
+      }
+
+      const ledger = await paymentLedgerService.getLedger(order.id);
+
+      if (ledger?.instalments.find((instalment) => instalment.id === scheduledPayment.id)?.isPaid) {
+        throw new HttpError(409, "This payment has already been made");
+      }
+
+      return { amount: parseFloat(scheduledPayment.amount), scheduledPayment };
+    }
+
+    const balance = (await paymentLedgerService.getLedger(order.id))?.balance ?? 0;
+
+    if (balance <= 0) {
+      throw new HttpError(409, "This order has already been paid in full");
+    }
+
+    return { amount: balance, scheduledPayment: null };
+  }
+
+  /**
+   * Log a payment the customer made through the portal
+   */
+  private async logPayment(order: Order, amount: number, tipAmount: number, provider: string, userId: number): Promise<void> {
+    const tip = tipAmount > 0 ? ` plus ${tipAmount.toFixed(2)} tip` : "";
+    await logOrderAction(order.id, "Portal Payment", `${amount.toFixed(2)}${tip} paid by ${provider}`, userId);
+  }
+}
+
+export const customerPortalService = new CustomerPortalService();
@@ -0,0 +1,85 @@
+import fs from "fs";
+import path from "path";
+import type { Settings } from "@shared/schema";
+import { defaultCustomTemplate, toInvoiceLayout, type InvoiceLayout } from "@shared/invoice-templates";
+
+// Shape of `settings.invoiceColors`
+export interface InvoiceColors {
+  primary?: string;
+  secondary?: string;
+  text?: string;
+}
+
+export interface DocumentBranding {
+  businessName: string;
+  businessEmail: string | null;
+  businessPhone: string | null;
+  businessAddress: string | null;
+  // Local path to the logo image, if one has been uploaded
+  logoPath: string | null;
+  primaryColor: string;
+  secondaryColor: string;
+  textColor: string;
+  // Layout invoices and quotes are rendered with
+  template: InvoiceLayout;
+  customTemplate: string;
+  // "Invoice", or the tax invoice title where one is required
+  invoiceTitle: string;
+  // What tax is called on documents, e.g. VAT or GST
+  taxLabel: string;
+  invoiceFooter: string | null;
+  quoteFooter: string | null;
+}
+
+const DEFAULT_COLORS: Required<InvoiceColors> = {
+  primary: "#2563eb",
+  secondary: "#f3f4f6",
+  text: "#111827",
+};
+
+const HEX_COLOR = /^#[0-9a-f]{6}$/i;
+
+/**
+ * Work out the business details, colours and logo used on printed documents
+ * from the user's settings
+ */
+export function getDocumentBranding(userSettings: Settings | null | undefined): DocumentBranding {
+  const colors = (userSettings?.invoiceColors || {}) as InvoiceColors;
+  const color = (value: string | undefined, fallback: string) =>
+    value && HEX_COLOR.test(value) ? value : fallback;
+
+  return {
+    businessName: userSettings?.businessName || "Bake Diary",
+    businessEmail: userSettings?.businessEmail || null,
+    businessPhone: userSettings?.businessPhone || null,
+    businessAddress: userSettings?.businessAddress || null,
+    logoPath: resolveLogoPath(userSettings?.businessLogoUrl),
+    primaryColor: color(colors.primary, DEFAULT_COLORS.primary),
+    secondaryColor: color(colors.secondary, DEFAULT_COLORS.secondary),
+    textColor: color(colors.text, DEFAULT_COLORS.text),
+    template: toInvoiceLayout(userSettings?.invoiceTemplate),
+    customTemplate: userSettings?.customInvoiceTemplate || defaultCustomTemplate,
+    invoiceTitle: userSettings?.useTaxInvoice ? userSettings.taxInvoiceTitle || "Tax Invoice" : "Invoice",
+    taxLabel: userSettings?.taxTerminology || "Tax",
+    invoiceFooter: userSettings?.invoiceFooter || null,
+    quoteFooter: userSettings?.quoteFooter || userSettings?.invoiceFooter || null,
+  };
+}
+
+/**
+ * Map an uploaded logo URL (/uploads/...) to the file on disk. Only PNG and
+ * JPEG logos can be embedded in PDFs.
+ */
+function resolveLogoPath(logoUrl: string | null | undefined): string | null {
+  if (!logoUrl || !logoUrl.startsWith("/uploads/")) {
+    return null;
+  }
+
+  const filePath = path.join(process.cwd(), "uploads", path.basename(logoUrl));
+
+  if (!/\.(png|jpe?g)$/i.test(filePath) || !fs.existsSync(filePath)) {
+    return null;
+  }
+
+  return filePath;
+}
@@ -0,0 +1,58 @@
+import { db, type DbExecutor } from "../db";
+import { settings } from "@shared/schema";
+import { eq, sql } from "drizzle-orm";
+
+/**
+ * Allocate the next order number for a user, using the prefix and counter
+ * from their settings. Falls back to a timestamp-based number when the user
+ * has no settings record yet.
+ */
+export async function generateOrderNumber(userId: number, executor: DbExecutor = db): Promise<string> {
+  const [updated] = await executor
+    .update(settings)
+    .set({ nextOrderNumber: sql`COALESCE(${settings.nextOrderNumber}, 1) + 1` })
+    .where(eq(settings.userId, userId))
+    .returning({ next: settings.nextOrderNumber, prefix: settings.orderNumberPrefix });
+
+  if (!updated || updated.next === null) {
+    return `ORD-${Date.now().toString().substring(6)}`;
+  }
+
+  return `${updated.prefix || ""}${updated.next - 1}`;
+}
+
+/**
+ * Allocate the next quote number for a user, using the prefix and counter
+ * from their settings
+ */
+export async function generateQuoteNumber(userId: number, executor: DbExecutor = db): Promise<string> {
+  const [updated] = await executor
+    .update(settings)
+    .set({ nextQuoteNumber: sql`COALESCE(${settings.nextQuoteNumber}, 1) + 1` })
+    .where(eq(settings.userId, userId))
+    .returning({ next: settings.nextQuoteNumber, prefix: settings.quoteNumberPrefix });
+
+  if (!updated || updated.next === null) {
+    return `QUO-${Date.now().toString().substring(6)}`;
+  }
+
+  return `${updated.prefix || ""}${updated.next - 1}`;
+}
+
+/**
+ * Allocate the next credit note number for a user, using the prefix and
+ * counter from their settings
+ */
+export async function generateCreditNoteNumber(userId: number, executor: DbExecutor = db): Promise<string> {
+  const [updated] = await executor
+    .update(settings)
+    .set({ nextCreditNoteNumber: sql`COALESCE(${settings.nextCreditNoteNumber}, 1) + 1` })
+    .where(eq(settings.userId, userId))
+    .returning({ next: settings.nextCreditNoteNumber, prefix: settings.creditNoteNumberPrefix });
+
+  if (!updated || updated.next === null) {
+    return `CN-${Date.now().toString().substring(6)}`;
+  }
+
+  return `${updated.prefix ?? "CN-"}${updated.next - 1}`;
+}
@@ -0,0 +1,45 @@
+import cron from 'node-cron';
+import { emailOutboxService } from './email-outbox';
+import { getEmailTransport } from '../integrations/email-transports';
+
+let scheduledTask: ReturnType<typeof cron.schedule> | null = null;
+
+/**
+ * Send queued emails that are due, including retries
+ */
+async function runEmailOutboxJob() {
+  try {
+    const sent = await emailOutboxService.processDue();
+    if (sent > 0) {
+      console.log(`Sent ${sent} emails from the outbox`);
+    }
+  } catch (error) {
+    console.error('Error in email outbox job:', error);
+  }
+}
+
+/**
+ * Start the email outbox worker. Emails are sent as soon as they're queued;
+ * this runs every minute to pick up retries and anything queued before a
+ * restart.
+ */
+export function startEmailOutboxWorker() {
+  try {
+    console.log(`Starting email outbox worker (sending with ${getEmailTransport().displayName})...`);
+    scheduledTask = cron.schedule('* * * * *', runEmailOutboxJob);
+    runEmailOutboxJob();
+  } catch (error) {
+    console.error('Error starting email outbox worker:', error);
+    scheduledTask = null;
+  }
+}
+
+/**
+ * Stop the email outbox worker
+ */
+export function stopEmailOutboxWorker() {
+  if (scheduledTask) {
+    scheduledTask.stop();
+    scheduledTask = null;
+  }
+}
@@ -0,0 +1,321 @@
+import { db, type DbExecutor } from "../db";
+import { contacts, emailOutbox, orders, type EmailOutboxMessage } from "@shared/schema";
+import type {
+  EmailAttachment,
+  EmailCategory,
+  EmailOutboxDetail,
+  EmailOutboxStatus,
+  EmailOutboxSummary,
+} from "@shared/email-outbox";
+import { eq, and, desc, lte, lt, inArray } from "drizzle-orm";
+import { getEmailTransport } from "../integrations/email-transports";
+import { HttpError } from "../utils/http-error";
+
+// Attempts before an email is marked as failed, and the wait before the
+// first retry, doubled after each failure (1, 2, 4, 8 minutes...)
+export const MAX_EMAIL_ATTEMPTS = 6;
+const RETRY_BASE_DELAY_MS = 60 * 1000;
+
+// Emails claimed by a worker that died before finishing are retried after this
+const STALE_SENDING_MS = 10 * 60 * 1000;
+
+// Emails sent per run, so one run never holds the worker for long
+const BATCH_SIZE = 20;
+
+export interface QueuedEmail {
+  userId?: number | null;
+  orderId?: number | null;
+  contactId?: number | null;
+  category: EmailCategory;
+  to: string;
+  cc?: string | null;
+  bcc?: string | null;
+  from: string;
+  fromName?: string | null;
+  subject: string;
+  text?: string | null;
+  html?: string | null;
+  attachments?: EmailAttachment[];
+}
+
+/**
+ * How long to wait before trying again after a number of failed attempts
+ */
+export function retryDelay(attempts: number): number {
+  return RETRY_BASE_DELAY_MS * 2 ** Math.max(0, attempts - 1);
+}
+
+/**
+ * Service for the email outbox. Emails are queued and then sent by the
+ * worker with the configured transport, retrying failures with exponential
+ * backoff, so every email sent is recorded along with how it went.
+ */
+export class EmailOutboxService {
+  private running = false;
+  private rerun = false;
+
+  /**
+   * Queue an email and start sending it straight away, without waiting for it.
+   * An email queued in a transaction is sent once it commits, by the next run.
+   */
+  async enqueue(email: QueuedEmail, executor: DbExecutor = db): Promise<EmailOutboxMessage> {
+    const [message] = await executor
+      .insert(emailOutbox)
+      .values({
+        userId: email.userId ?? null,
+        orderId: email.orderId ?? null,
+        contactId: email.contactId ?? null,
+        category: email.category,
+        toAddress: email.to,
+        cc: email.cc || null,
+        bcc: email.bcc || null,
+        fromAddress: email.from,
+        fromName: email.fromName || null,
+        subject: email.subject,
+        textBody: email.text || null,
+        htmlBody: email.html || null,
+        attachments: email.attachments?.length ? email.attachments : null,
+      })
+      .returning();
+
+    setImmediate(() => this.processDue());
+
+    return message;
+  }
+
+  /**
+   * Send every email that is due. Runs one at a time; a call made while a run
+   * is going starts another run once it finishes.
+   */
+  async processDue(): Promise<number> {
+    if (this.running) {
+      this.rerun = true;
+      return 0;
+    }
+
+    this.running = true;
+    let sent = 0;
+
+    try {
+      do {
+        this.rerun = false;
+        await this.requeueStale();
+
+        const due = await db
+          .select({ id: emailOutbox.id })
+          .from(emailOutbox)
+          .where(and(eq(emailOutbox.status, "queued"), lte(emailOutbox.nextAttemptAt, new Date())))
+          .orderBy(emailOutbox.nextAttemptAt)
+          .limit(BATCH_SIZE);
+
+        for (const { id } of due) {
+          if (await this.deliver(id)) {
+            sent++;
+          }
+        }
+      } while (this.rerun);
+    } catch (error) {
+      console.error("Error processing email outbox:", error);
+    } finally {
+      this.running = false;
+    }
+
+    return sent;
+  }
+
+  /**
+   * Queue a failed email to be sent again straight away
+   */
+  async retry(id: number, userId: number): Promise<EmailOutboxDetail> {
+    const [message] = await db
+      .update(emailOutbox)
+      .set({ status: "queued", attempts: 0, nextAttemptAt: new Date(), updatedAt: new Date() })
+      .where(and(eq(emailOutbox.id, id), eq(emailOutbox.userId, userId), eq(emailOutbox.status, "failed")))
+      .returning();
+
+    if (!message) {
+      throw new HttpError(404, "Failed email not found");
+    }
+
+    setImmediate(() => this.processDue());
+
+    return toDetail(message);
+  }
+
+  async getEmail(id: number, userId: number): Promise<EmailOutboxDetail> {
+    const [message] = await db
+      .select()
+      .from(emailOutbox)
+      .where(and(eq(emailOutbox.id, id), eq(emailOutbox.userId, userId)));
+
+    if (!message) {
+      throw new HttpError(404, "Email not found");
+    }
+
+    return toDetail(message);
+  }
+
+  /**
+   * Emails queued or sent for an order, newest first
+   */
+  async getOrderEmails(orderId: number, userId: number): Promise<EmailOutboxSummary[]> {
+    const [order] = await db
+      .select({ id: orders.id })
+      .from(orders)
+      .where(and(eq(orders.id, orderId), eq(orders.userId, userId)));
+
+    if (!order) {
+      throw new HttpError(404, "Order not found");
+    }
+
+    const messages = await db
+      .select()
+      .from(emailOutbox)
+      .where(and(eq(emailOutbox.orderId, orderId), eq(emailOutbox.userId, userId)))
+      .orderBy(desc(emailOutbox.createdAt));
+
+    return messages.map(toSummary);
+  }
+
+  /**
+   * Emails queued or sent to a contact, newest first
+   */
+  async getContactEmails(contactId: number, userId: number): Promise<EmailOutboxSummary[]> {
+    const [contact] = await db
+      .select({ id: contacts.id })
+      .from(contacts)
+      .where(and(eq(contacts.id, contactId), eq(contacts.userId, userId)));
+
+    if (!contact) {
+      throw new HttpError(404, "Contact not found");
+    }
+
+    const messages = await db
+      .select()
+      .from(emailOutbox)
+      .where(and(eq(emailOutbox.contactId, contactId), eq(emailOutbox.userId, userId)))
+      .orderBy(desc(emailOutbox.createdAt));
+
+    return messages.map(toSummary);
+  }
+
+  /**
+   * Claim an email and send it. Another run that already claimed it is left
+   * to finish. Returns whether the email was sent.
+   */
+  private async deliver(id: number): Promise<boolean> {
+    const [message] = await db
+      .update(emailOutbox)
+      .set({ status: "sending", updatedAt: new Date() })
+      .where(and(eq(emailOutbox.id, id), eq(emailOutbox.status, "queued")))
+      .returning();
+
+    if (!message) {
+      return false;
+    }
+
+    const attempts = message.attempts + 1;
+
+    try {
+      const transport = getEmailTransport();
+      const result = await transport.send({
+        outboxId: message.id,
+        to: message.toAddress,
+        cc: message.cc,
+        bcc: message.bcc,
+        from: message.fromAddress,
+        fromName: message.fromName,
+        subject: message.subject,
+        text: message.textBody,
+        html: message.htmlBody,
+        attachments: (message.attachments as EmailAttachment[] | null) || [],
+      });
+
+      await db
+        .update(emailOutbox)
+        .set({
+          status: "sent",
+          attempts,
+          lastError: null,
+          transport: transport.name,
+          providerMessageId: result.messageId,
+          sentAt: new Date(),
+          updatedAt: new Date(),
+        })
+        .where(eq(emailOutbox.id, message.id));
+
+      return true;
+    } catch (error) {
+      const failed = attempts >= MAX_EMAIL_ATTEMPTS;
+      console.error(`Error sending email ${message.id} (attempt ${attempts}):`, error);
+
+      await db
+        .update(emailOutbox)
+        .set({
+          status: failed ? "failed" : "queued",
+          attempts,
+          lastError: error instanceof Error ? error.message : String(error),
+          nextAttemptAt: new Date(Date.now() + retryDelay(attempts)),
+          updatedAt: new Date(),
+        })
+        .where(eq(emailOutbox.id, message.id));
+
+      return false;
+    }
+  }
+
+  /**
+   * Put emails back in the queue that were claimed by a run that never
+   * finished, e.g. because the server restarted mid-send
+   */
+  private async requeueStale(): Promise<void> {
+    const stale = await db
+      .select({ id: emailOutbox.id })
+      .from(emailOutbox)
+      .where(
+        and(
+          eq(emailOutbox.status, "sending"),
+          lt(emailOutbox.updatedAt, new Date(Date.now() - STALE_SENDING_MS))
+        )
+      );
+
+    if (stale.length > 0) {
+      await db
+        .update(emailOutbox)
+        .set({ status: "queued", updatedAt: new Date() })
+        .where(inArray(emailOutbox.id, stale.map((message) => message.id)));
+    }
+  }
+}
+
+function toSummary(message: EmailOutboxMessage): EmailOutboxSummary {
+  return {
+    id: message.id,
+    orderId: message.orderId,
+    contactId: message.contactId,
+    category: message.category as EmailCategory,
+    toAddress: message.toAddress,
+    subject: message.subject,
+    status: message.status as EmailOutboxStatus,
+    attempts: message.attempts,
+    lastError: message.lastError,
+    nextAttemptAt: message.nextAttemptAt.toISOString(),
+    sentAt: message.sentAt ? message.sentAt.toISOString() : null,
+    createdAt: message.createdAt.toISOString(),
+    attachments: ((message.attachments as EmailAttachment[] | null) || []).map((attachment) => attachment.filename),
+  };
+}
+
+function toDetail(message: EmailOutboxMessage): EmailOutboxDetail {
+  return {
+    ...toSummary(message),
+    fromAddress: message.fromAddress,
+    fromName: message.fromName,
+    textBody: message.textBody,
+    htmlBody: message.htmlBody,
+    transport: message.transport,
+    providerMessageId: message.providerMessageId,
+  };
+}
+
+export const emailOutboxService = new EmailOutboxService();
@@ -2,7 +2,7 @@ import cron from 'node-cron';
 import { db } from '../db';
 import { users, settings as settingsTable } from '@shared/schema';
 import { eq } from 'drizzle-orm';
-import { sendUpcomingOrdersReport, sendPaymentReminders } from './email-service';
+import { sendUpcomingOrdersReport } from './email-service';
 
 // Scheduled tasks storage
 let scheduledTasks: { [key: string]: cron.ScheduledTask } = {};
@@ -58,20 +58,6 @@ export function startEmailScheduler() {
       console.error('Error setting up monthly reports schedule:', error);
     }
     
-    // Daily at 10am - Payment reminders
-    try {
-      scheduledTasks['paymentReminders'] = cron.schedule('0 10 * * *', async () => {
-        try {
-          console.log('Running payment reminders job');
-          await sendAllPaymentReminders();
-        } catch (error) {
-          console.error('Error in payment reminders job:', error);
-        }
-      });
-    } catch (error) {
-      console.error('Error setting up payment reminders schedule:', error);
-    }
-    
     console.log('Email scheduler started successfully');
   } catch (error) {
     console.error('Error starting email scheduler:', error);
@@ -120,25 +106,3 @@ async function sendReportsForFrequency(frequency: 'daily' | 'weekly' | 'monthly'
     console.error(`Error sending ${frequency} reports:`, error);
   }
 }
-
-/**
- * Send payment reminders to all applicable users
- */
-async function sendAllPaymentReminders() {
-  try {
-    // Get all users who have opted to receive payment reminders
-    const usersWithReminders = await db
-      .select()
-      .from(settingsTable)
-      .where(eq(settingsTable.receivePaymentReminders, true));
-    
-    console.log(`Found ${usersWithReminders.length} users to send payment reminders to`);
-    
-    // Send payment reminders to each user
-    for (const userSettings of usersWithReminders) {
-      await sendPaymentReminders(userSettings.userId);
-    }
-  } catch (error) {
-    console.error('Error sending payment reminders:', error);
-  }
-}
\ No newline at end of file
@@ -1,14 +1,9 @@
-import sgMail from '@sendgrid/mail';
 import { db } from '../db';
 import { users, orders } from '@shared/schema';
 import { eq, and, lt, gte } from 'drizzle-orm';
 import { addDays, format } from 'date-fns';
-
-if (!process.env.SENDGRID_API_KEY) {
-  console.error('SENDGRID_API_KEY environment variable not set');
-}
-
-sgMail.setApiKey(process.env.SENDGRID_API_KEY || '');
+import { emailService } from './email';
+import type { EmailCategory } from '@shared/email-outbox';
 
 export interface EmailData {
   to: string;
@@ -18,19 +13,16 @@ export interface EmailData {
   html: string;
   cc?: string;
   bcc?: string;
+  // The user the email is for, if it is about their account
+  userId?: number;
+  category?: EmailCategory;
 }
 
 /**
- * Send an email using SendGrid
+ * Queue an email in the outbox, which sends it and retries it if sending fails
  */
 export async function sendEmail(emailData: EmailData): Promise<boolean> {
-  try {
-    await sgMail.send(emailData);
-    return true;
-  } catch (error) {
-    console.error('Error sending email:', error);
-    return false;
-  }
+  return await emailService.sendEmail(emailData);
 }
 
 /**
@@ -54,6 +46,7 @@ export async function sendCancellationEmail(
     from: 'noreply@bakegenie.co',
     subject: 'Your BakeGenie Subscription Cancellation Confirmation',
     cc: 'support@bakegenie.co', // Send a copy to support
+    category: 'account' as const,
     html: `
       <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto; padding: 20px; border: 1px solid #e0e0e0; border-radius: 5px;">
         <div style="text-align: center; margin-bottom: 20px;">
@@ -126,6 +119,8 @@ export async function sendUpcomingOrdersReport(userId: number): Promise<boolean>
       to: user.email,
       from: 'noreply@bakegenie.co',
       subject: 'Your Upcoming Orders Report',
+      userId,
+      category: 'report' as const,
       html: `
         <div style="font-family: Arial, sans-serif; max-width: 800px; margin: 0 auto; padding: 20px; border: 1px solid #e0e0e0; border-radius: 5px;">
           <div style="text-align: center; margin-bottom: 20px;">
@@ -168,91 +163,3 @@ export async function sendUpcomingOrdersReport(userId: number): Promise<boolean>
     return false;
   }
 }
-
-/**
- * Send payment reminders for outstanding invoices
- */
-export async function sendPaymentReminders(userId: number): Promise<boolean> {
-  try {
-    // Get user information
-    const [user] = await db.select().from(users).where(eq(users.id, userId));
-    
-    if (!user || !user.email) {
-      console.error(`User ${userId} not found or has no email`);
-      return false;
-    }
-
-    // Get orders that need payment (status = Confirmed but not Paid)
-    const unpaidOrders = await db
-      .select()
-      .from(orders)
-      .where(
-        and(
-          eq(orders.userId, userId),
-          eq(orders.status, 'Confirmed')
-        )
-      );
-    
-    if (unpaidOrders.length === 0) {
-      // No unpaid orders, no need to send reminders
-      return true;
-    }
-    
-    // Format orders for display
-    const ordersList = unpaidOrders.map(order => {
-      const eventDate = order.eventDate instanceof Date 
-        ? format(order.eventDate, 'MMMM do, yyyy') 
-        : 'Date not available';
-      
-      return `
-        <tr>
-          <td style="padding: 8px; border-bottom: 1px solid #e0e0e0;">${order.orderNumber}</td>
-          <td style="padding: 8px; border-bottom: 1px solid #e0e0e0;">${order.customerName || 'N/A'}</td>
-          <td style="padding: 8px; border-bottom: 1px solid #e0e0e0;">${eventDate}</td>
-          <td style="padding: 8px; border-bottom: 1px solid #e0e0e0;">$${order.total}</td>
-        </tr>
-      `;
-    }).join('');
-    
-    const emailContent = {
-      to: user.email,
-      from: 'noreply@bakegenie.co',
-      subject: 'Payment Reminder for Your Orders',
-      html: `
-        <div style="font-family: Arial, sans-serif; max-width: 800px; margin: 0 auto; padding: 20px; border: 1px solid #e0e0e0; border-radius: 5px;">
-          <div style="text-align: center; margin-bottom: 20px;">
-            <h1 style="color: #ff6b6b;">BakeGenie</h1>
-          </div>
-          <div>
-            <h2>Payment Reminder</h2>
-            <p>Dear ${user.firstName},</p>
-            <p>This is a friendly reminder that you have the following orders awaiting payment:</p>
-            
-            <table style="width: 100%; border-collapse: collapse; margin-top: 20px;">
-              <thead>
-                <tr style="background-color: #f5f5f5;">
-                  <th style="padding: 10px; text-align: left; border-bottom: 2px solid #ddd;">Order #</th>
-                  <th style="padding: 10px; text-align: left; border-bottom: 2px solid #ddd;">Customer</th>
-                  <th style="padding: 10px; text-align: left; border-bottom: 2px solid #ddd;">Event Date</th>
-                  <th style="padding: 10px; text-align: left; border-bottom: 2px solid #ddd;">Amount</th>
-                </tr>
-              </thead>
-              <tbody>
-                ${ordersList}
-              </tbody>
-            </table>
-            
-            <p style="margin-top: 20px;">Please log in to your BakeGenie account to process these payments.</p>
-            <p>Warm regards,</p>
-            <p>The BakeGenie Team</p>
-          </div>
-        </div>
-      `
-    };
-
-    return await sendEmail(emailContent);
-  } catch (error) {
-    console.error('Error sending payment reminders:', error);
-    return false;
-  }
-}
\ No newline at end of file
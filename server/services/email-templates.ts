@@ -0,0 +1,445 @@
+import { db } from "../db";
+import {
+  contacts,
+  enquiries,
+  orders,
+  payments,
+  quoteItems,
+  quotes,
+  settings,
+  type Contact,
+  type Settings,
+} from "@shared/schema";
+import {
+  defaultEmailTemplates,
+  emailTemplateFields,
+  emailTemplateTypes,
+  renderEmailTemplate,
+  upgradeLegacyPlaceholders,
+  validateEmailTemplate,
+  type EmailTemplateData,
+  type EmailTemplatePreviewRequest,
+  type EmailTemplates,
+  type EmailTemplateType,
+} from "@shared/email-templates";
+import { calculateOrderPricing, type PricingBreakdown } from "@shared/pricing";
+import type { OrderLedger } from "@shared/payment-ledger";
+import { eq, and, desc } from "drizzle-orm";
+import { getOrderPricing } from "./pricing";
+import { paymentLedgerService } from "./payment-ledger";
+import { customerPortalService } from "./customer-portal";
+import { getDocumentBranding } from "./document-branding";
+import { HttpError } from "../utils/http-error";
+
+// What a template is filled in from
+export type EmailTemplateSource =
+  | { type: "order"; orderId: number; paymentId?: number }
+  | { type: "quote"; quoteId: number }
+  | { type: "enquiry"; enquiryId: number };
+
+export interface RenderedEmail {
+  text: string;
+  html: string;
+}
+
+export interface EmailTemplatePreview extends RenderedEmail {
+  errors: string[];
+  // True when no order exists yet and made-up values were used
+  sample: boolean;
+}
+
+interface ItemLine {
+  name: string;
+  description: string | null;
+}
+
+const toNumber = (value: string | null | undefined) => parseFloat(value || "0") || 0;
+
+/**
+ * Service for the user's email templates: loading them, saving them and
+ * filling them in for an order, quote or enquiry
+ */
+export class EmailTemplateService {
+  /**
+   * Every template, using the default where the user hasn't written one
+   */
+  async getTemplates(userId: number): Promise<Record<EmailTemplateType, string>> {
+    const [userSettings] = await db.select().from(settings).where(eq(settings.userId, userId));
+
+    return Object.fromEntries(
+      emailTemplateTypes.map((type) => [type, userSettings?.[emailTemplateFields[type]] || defaultEmailTemplates[type]])
+    ) as Record<EmailTemplateType, string>;
+  }
+
+  /**
+   * Save the templates that were sent. Blank templates are cleared, so the
+   * default is used again.
+   */
+  async saveTemplates(userId: number, templates: EmailTemplates): Promise<Record<EmailTemplateType, string>> {
+    const update: Partial<Record<keyof EmailTemplates, string | null>> = {};
+
+    for (const type of emailTemplateTypes) {
+      const field = emailTemplateFields[type];
+      if (templates[field] !== undefined) {
+        update[field] = templates[field]?.trim() ? templates[field]! : null;
+      }
+    }
+
+    const [saved] = await db
+      .update(settings)
+      .set({ ...update, updatedAt: new Date() })
+      .where(eq(settings.userId, userId))
+      .returning({ id: settings.id });
+
+    if (!saved) {
+      throw new HttpError(404, "Settings not found");
+    }
+
+    return await this.getTemplates(userId);
+  }
+
+  /**
+   * Fill in a template for an order, quote or enquiry. A portal link is only
+   * created when the template uses one.
+   */
+  async render(userId: number, template: string, source: EmailTemplateSource): Promise<RenderedEmail> {
+    const [text] = await this.fill(userId, [template], source);
+    return { text, html: emailTextToHtml(text) };
+  }
+
+  /**
+   * Fill in an email's subject and body together, so they share one portal link
+   */
+  async renderEmail(
+    userId: number,
+    email: { subject: string; body: string },
+    source: EmailTemplateSource
+  ): Promise<RenderedEmail & { subject: string }> {
+    const [subject, text] = await this.fill(userId, [email.subject, email.body], source);
+    return { subject: subject.replace(/\s+/g, " ").trim(), text, html: emailTextToHtml(text) };
+  }
+
+  /**
+   * Fill in the user's saved (or default) template of a type
+   */
+  async renderSaved(userId: number, type: EmailTemplateType, source: EmailTemplateSource): Promise<RenderedEmail> {
+    const templates = await this.getTemplates(userId);
+    return await this.render(userId, templates[type], source);
+  }
+
+  /**
+   * Fill in a template as it is being edited, using the chosen order, the
+   * latest order, or a made-up one. No portal link is created; a sample
+   * link is shown instead. Problems that would stop the template being
+   * saved are returned alongside.
+   */
+  async preview(userId: number, request: EmailTemplatePreviewRequest): Promise<EmailTemplatePreview> {
+    const [latest] = request.orderId
+      ? [{ id: request.orderId }]
+      : await db
+          .select({ id: orders.id })
+          .from(orders)
+          .where(eq(orders.userId, userId))
+          .orderBy(desc(orders.createdAt))
+          .limit(1);
+
+    const data = latest
+      ? await this.getOrderData(userId, latest.id, { withPortalLink: false })
+      : await this.getSampleData(userId);
+
+    if (latest) {
+      data.values["portal.link"] = portalUrl("preview");
+
+      // An order stands in for the quote or enquiry being previewed
+      data.values["order.validUntil"] = data.values["order.validUntil"] ?? data.values["order.dueDate"];
+      data.values["enquiry.eventType"] = data.values["order.eventType"];
+      data.values["enquiry.eventDate"] = data.values["order.eventDate"];
+    }
+
+    const template = upgradeLegacyPlaceholders(request.template);
+    const text = renderEmailTemplate(template, data);
+
+    return {
+      text,
+      html: emailTextToHtml(text),
+      errors: validateEmailTemplate(request.type, template),
+      sample: !latest,
+    };
+  }
+
+  private async fill(userId: number, templates: string[], source: EmailTemplateSource): Promise<string[]> {
+    const upgraded = templates.map(upgradeLegacyPlaceholders);
+    const withPortalLink = upgraded.some((template) => template.includes("portal.link"));
+
+    let data: EmailTemplateData;
+    switch (source.type) {
+      case "order":
+        data = await this.getOrderData(userId, source.orderId, { paymentId: source.paymentId, withPortalLink });
+        break;
+      case "quote":
+        data = await this.getQuoteData(userId, source.quoteId, withPortalLink);
+        break;
+      case "enquiry":
+        data = await this.getEnquiryData(userId, source.enquiryId);
+        break;
+    }
+
+    return upgraded.map((template) => renderEmailTemplate(template, data));
+  }
+
+  private async getOrderData(
+    userId: number,
+    orderId: number,
+    options: { paymentId?: number; withPortalLink: boolean }
+  ): Promise<EmailTemplateData> {
+    const result = await getOrderPricing(orderId);
+
+    if (!result || result.order.userId !== userId) {
+      throw new HttpError(404, "Order not found");
+    }
+
+    const { order, items, pricing } = result;
+    const [contact] = await db.select().from(contacts).where(eq(contacts.id, order.contactId));
+    const [userSettings] = await db.select().from(settings).where(eq(settings.userId, userId));
+    const ledger = await paymentLedgerService.getLedger(order.id);
+
+    // The payment a receipt is for, or the latest one
+    const [payment] = await db
+      .select()
+      .from(payments)
+      .where(
+        options.paymentId
+          ? and(eq(payments.id, options.paymentId), eq(payments.orderId, order.id))
+          : eq(payments.orderId, order.id)
+      )
+      .orderBy(desc(payments.createdAt))
+      .limit(1);
+
+    const data = this.baseData(userSettings, contact || null, items, pricing);
+    Object.assign(data.values, paymentValues(ledger, order.dueDate), {
+      "order.number": order.orderNumber,
+      "order.eventType": order.eventType,
+      "order.eventDate": formatDate(order.eventDate),
+      "order.deliveryType": order.deliveryType,
+      "order.deliveryTime": order.deliveryTime,
+      "order.deliveryDetails": order.deliveryDetails,
+      "order.total": toNumber(order.total),
+      "order.dueDate": order.dueDate ? formatDate(order.dueDate) : null,
+      "payments.receivedAmount": payment ? toNumber(payment.amount) : null,
+      "payments.receivedDate": payment ? formatDate(payment.createdAt.toISOString().split("T")[0]) : null,
+      "payments.receivedMethod": payment ? payment.paymentMethod || payment.provider : null,
+      "portal.link": options.withPortalLink
+        ? portalUrl((await customerPortalService.createLink("order", order.id, userId)).token)
+        : null,
+    });
+
+    return data;
+  }
+
+  private async getQuoteData(userId: number, quoteId: number, withPortalLink: boolean): Promise<EmailTemplateData> {
+    const [quote] = await db.select().from(quotes).where(and(eq(quotes.id, quoteId), eq(quotes.userId, userId)));
+
+    if (!quote) {
+      throw new HttpError(404, "Quote not found");
+    }
+
+    const items = await db.select().from(quoteItems).where(eq(quoteItems.quoteId, quote.id));
+    const [contact] = await db.select().from(contacts).where(eq(contacts.id, quote.contactId));
+    const [userSettings] = await db.select().from(settings).where(eq(settings.userId, userId));
+
+    const pricing = calculateOrderPricing({
+      items,
+      discount: quote.discount,
+      discountType: quote.discountType,
+      setupFee: quote.setupFee,
+      taxRate: quote.taxRate,
+      pricesIncludeTax: quote.pricesIncludeTax,
+    });
+
+    const data = this.baseData(userSettings, contact || null, items, pricing);
+    Object.assign(data.values, {
+      "order.number": quote.quoteNumber,
+      "order.eventType": quote.eventType,
+      "order.eventDate": formatDate(quote.eventDate),
+      "order.deliveryType": quote.deliveryType,
+      "order.deliveryTime": quote.deliveryTime,
+      "order.deliveryDetails": quote.deliveryDetails,
+      "order.total": toNumber(quote.total),
+      "order.validUntil": quote.expiryDate ? formatDate(quote.expiryDate) : null,
+      "portal.link": withPortalLink
+        ? portalUrl((await customerPortalService.createLink("quote", quote.id, userId)).token)
+        : null,
+    });
+
+    return data;
+  }
+
+  private async getEnquiryData(userId: number, enquiryId: number): Promise<EmailTemplateData> {
+    const [enquiry] = await db
+      .select()
+      .from(enquiries)
+      .where(and(eq(enquiries.id, enquiryId), eq(enquiries.userId, userId)));
+
+    if (!enquiry) {
+      throw new HttpError(404, "Enquiry not found");
+    }
+
+    const [contact] = enquiry.contactId
+      ? await db.select().from(contacts).where(eq(contacts.id, enquiry.contactId))
+      : [];
+    const [userSettings] = await db.select().from(settings).where(eq(settings.userId, userId));
+
+    const data = this.baseData(userSettings, contact || null, [], null);
+    Object.assign(data.values, {
+      "enquiry.eventType": enquiry.eventType,
+      "enquiry.eventDate": enquiry.eventDate ? formatDate(enquiry.eventDate) : null,
+    });
+
+    return data;
+  }
+
+  /**
+   * Values for a made-up order, for previews before the user has any orders
+   */
+  private async getSampleData(userId: number): Promise<EmailTemplateData> {
+    const [userSettings] = await db.select().from(settings).where(eq(settings.userId, userId));
+    const today = new Date().toISOString().split("T")[0];
+
+    const items = [
+      { name: "Two tier celebration cake", description: "Vanilla sponge, buttercream", quantity: 1, unitPrice: 180 },
+      { name: "Cupcakes", description: "Assorted flavours", quantity: 12, unitPrice: 3.5 },
+    ];
+    const pricing = calculateOrderPricing({ items, taxRate: 10 });
+    const contact = { firstName: "Sample", lastName: "Customer", businessName: null, email: "customer@example.com", phone: null };
+
+    const data = this.baseData(userSettings, contact as Contact, items, pricing);
+    Object.assign(data.values, {
+      "order.number": "SAMPLE-001",
+      "order.eventType": "Birthday",
+      "order.eventDate": formatDate(today),
+      "order.deliveryType": "Collection",
+      "order.deliveryTime": "10:00",
+      "order.deliveryDetails": "Collect from the shop",
+      "order.total": pricing.total,
+      "order.dueDate": formatDate(today),
+      "order.validUntil": formatDate(today),
+      "payments.amountPaid": 50,
+      "payments.balance": pricing.total - 50,
+      "payments.overdue": 0,
+      "payments.nextAmount": pricing.total - 50,
+      "payments.nextDueDate": formatDate(today),
+      "payments.daysRemaining": 0,
+      "payments.receivedAmount": 50,
+      "payments.receivedDate": formatDate(today),
+      "payments.receivedMethod": "Card",
+      "portal.link": portalUrl("preview"),
+      "enquiry.eventType": "Birthday",
+      "enquiry.eventDate": formatDate(today),
+    });
+
+    return data;
+  }
+
+  /**
+   * The customer, business and item values every source shares
+   */
+  private baseData(
+    userSettings: Settings | undefined,
+    contact: Contact | null,
+    items: ItemLine[],
+    pricing: PricingBreakdown | null
+  ): EmailTemplateData {
+    const branding = getDocumentBranding(userSettings);
+    const currency = userSettings?.currency || "USD";
+
+    return {
+      values: {
+        "contact.name": contact ? `${contact.firstName} ${contact.lastName}`.trim() : null,
+        "contact.firstName": contact?.firstName || null,
+        "contact.lastName": contact?.lastName || null,
+        "contact.business": contact?.businessName || null,
+        "contact.email": contact?.email || null,
+        "contact.phone": contact?.phone || null,
+        "business.name": branding.businessName,
+        "business.email": branding.businessEmail,
+        "business.phone": branding.businessPhone,
+        "business.address": branding.businessAddress,
+        "business.reviewLink": userSettings?.reviewUrl || null,
+      },
+      items: items.map((item, index) => ({
+        "item.name": item.name,
+        "item.description": item.description,
+        "item.quantity": pricing?.lines[index].quantity,
+        "item.unitPrice": pricing?.lines[index].unitPrice,
+        "item.total": pricing?.lines[index].lineTotal,
+      })),
+      formatMoney: (amount) => formatMoney(amount, currency),
+    };
+  }
+}
+
+function paymentValues(ledger: OrderLedger | null, dueDate: string | null): EmailTemplateData["values"] {
+  if (!ledger) {
+    return {};
+  }
+
+  const next = ledger.nextInstalment;
+  const due = next?.dueDate || dueDate;
+  const daysRemaining = due
+    ? Math.max(0, Math.ceil((new Date(`${due}T00:00:00`).getTime() - Date.now()) / (1000 * 60 * 60 * 24)))
+    : null;
+
+  return {
+    "payments.amountPaid": ledger.amountPaid,
+    "payments.balance": ledger.balance,
+    "payments.overdue": ledger.overdueAmount,
+    "payments.nextAmount": next ? next.amount : ledger.balance,
+    "payments.nextDueDate": due ? formatDate(due) : null,
+    "payments.daysRemaining": daysRemaining,
+  };
+}
+
+/**
+ * Turn a filled-in template into simple HTML: paragraphs at blank lines,
+ * line breaks within them and links made clickable
+ */
+export function emailTextToHtml(text: string): string {
+  const escape = (value: string) =>
+    value.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+
+  const paragraphs = text
+    .trim()
+    .split(/\n\s*\n/)
+    .map((paragraph) =>
+      escape(paragraph)
+        .replace(/https?:\/\/[^\s<]+/g, (url) => `<a href="${url}">${url}</a>`)
+        .replace(/\n/g, "<br>")
+    )
+    .map((paragraph) => `<p>${paragraph}</p>`)
+    .join("\n");
+
+  return `<div style="font-family: Arial, sans-serif; color: #333;">\n${paragraphs}\n</div>`;
+}
+
+function portalUrl(token: string): string {
+  return `${process.env.APP_URL || "http://localhost:5000"}/portal/${token}`;
+}
+
+function formatDate(date: string): string {
+  return new Date(`${date}T00:00:00`).toLocaleDateString("en-US", {
+    weekday: "long",
+    year: "numeric",
+    month: "long",
+    day: "numeric",
+  });
+}
+
+function formatMoney(amount: number, currency: string): string {
+  try {
+    return new Intl.NumberFormat("en-US", { style: "currency", currency }).format(amount);
+  } catch {
+    return amount.toFixed(2);
+  }
+}
+
+export const emailTemplateService = new EmailTemplateService();
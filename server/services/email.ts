@@ -1,13 +1,14 @@
-import { MailService } from '@sendgrid/mail';
 import { db } from "../db";
 import { settings } from "@shared/schema";
+import type { EmailCategory } from "@shared/email-outbox";
 import { eq } from "drizzle-orm";
+import { emailOutboxService } from "./email-outbox";
+import type { RenderedEmail } from "./email-templates";
 
-// Initialize SendGrid mail service
-const mailService = new MailService();
-
-interface EmailParams {
+export interface EmailParams {
   to: string;
+  cc?: string;
+  bcc?: string;
   from: string;
   fromName?: string;
   subject: string;
@@ -17,48 +18,106 @@ interface EmailParams {
     content: string;
     filename: string;
     type: string;
-    disposition: string;
+    disposition?: string;
   }[];
+  // Who the email is from and about, so it is listed on the order and contact
+  userId?: number | null;
+  orderId?: number | null;
+  contactId?: number | null;
+  category?: EmailCategory;
+}
+
+// The order and contact a document email is listed under
+export interface DocumentEmailOptions {
+  // The user's filled-in template, used instead of the standard message
+  message?: RenderedEmail;
+  orderId?: number | null;
+  contactId?: number | null;
 }
 
 /**
- * Email service for sending emails using SendGrid
+ * Email service for sending emails through the outbox
  */
 export class EmailService {
   /**
-   * Send an email using SendGrid
+   * Queue an email in the outbox, which sends it with the configured
+   * transport and retries it if sending fails. Returns false if it could not
+   * be queued.
    */
   async sendEmail(params: EmailParams): Promise<boolean> {
     try {
-      if (!process.env.SENDGRID_API_KEY) {
-        throw new Error('SendGrid API key is not configured');
-      }
-
-      mailService.setApiKey(process.env.SENDGRID_API_KEY);
-      
-      await mailService.send({
+      await emailOutboxService.enqueue({
+        userId: params.userId,
+        orderId: params.orderId,
+        contactId: params.contactId,
+        category: params.category || "other",
         to: params.to,
-        from: {
-          email: params.from,
-          name: params.fromName || undefined
-        },
+        cc: params.cc,
+        bcc: params.bcc,
+        from: params.from,
+        fromName: params.fromName,
         subject: params.subject,
         text: params.text,
         html: params.html,
-        attachments: params.attachments
+        attachments: params.attachments?.map(({ content, filename, type }) => ({ content, filename, type })),
       });
-      
+
       return true;
     } catch (error) {
-      console.error('Error sending email:', error);
+      console.error('Error queueing email:', error);
       return false;
     }
   }
 
   /**
-   * Send an invoice email to a customer
+   * Send an invoice email to a customer with the invoice PDF attached. The
+   * message is the user's filled-in invoice template, when given.
+   */
+  async sendInvoiceEmail(
+    userId: number,
+    contactEmail: string,
+    invoiceNumber: string,
+    invoicePdf: Buffer,
+    options: DocumentEmailOptions = {}
+  ): Promise<boolean> {
+    return await this.sendDocumentEmail(userId, contactEmail, options, {
+      category: "invoice",
+      title: `Invoice #${invoiceNumber}`,
+      message: 'Thank you for your order. Please find your invoice attached.',
+      filename: `Invoice-${invoiceNumber}.pdf`,
+      pdf: invoicePdf,
+    });
+  }
+
+  /**
+   * Send a quote email to a customer with the quote PDF attached. The
+   * message is the user's filled-in quote template, when given.
+   */
+  async sendQuoteEmail(
+    userId: number,
+    contactEmail: string,
+    quoteNumber: string,
+    quotePdf: Buffer,
+    options: DocumentEmailOptions = {}
+  ): Promise<boolean> {
+    return await this.sendDocumentEmail(userId, contactEmail, options, {
+      category: "quote",
+      title: `Quote #${quoteNumber}`,
+      message: 'Thank you for your enquiry. Please find your quote attached.',
+      filename: `Quote-${quoteNumber}.pdf`,
+      pdf: quotePdf,
+    });
+  }
+
+  /**
+   * Send a PDF document to a customer from the business email address
    */
-  async sendInvoiceEmail(userId: number, orderId: number, contactEmail: string, invoiceHtml: string, invoicePdf: string): Promise<boolean> {
+  private async sendDocumentEmail(
+    userId: number,
+    contactEmail: string,
+    options: DocumentEmailOptions,
+    document: { category: EmailCategory; title: string; message: string; filename: string; pdf: Buffer }
+  ): Promise<boolean> {
     try {
       // Get user settings to determine sender email
       const [userSettings] = await db.select().from(settings).where(eq(settings.userId, userId));
@@ -71,13 +130,15 @@ export class EmailService {
       const emailParams: EmailParams = {
         to: contactEmail,
         from: userSettings.businessEmail,
-        fromName: userSettings.businessName || 'BakeGenie Invoice',
-        subject: `Invoice for Order #${orderId}`,
+        fromName: userSettings.businessName || 'BakeGenie',
+        subject: document.title,
+        text: options.message?.text,
         html: `
           <div style="font-family: Arial, sans-serif; color: #333;">
-            <h2>Invoice for Order #${orderId}</h2>
-            <p>Thank you for your order. Please find your invoice attached.</p>
-            <p>If you have any questions, please don't hesitate to contact us.</p>
+            <h2>${document.title}</h2>
+            ${options.message ? options.message.html : `
+            <p>${document.message}</p>
+            <p>If you have any questions, please don't hesitate to contact us.</p>`}
             <div style="margin-top: 20px; padding-top: 20px; border-top: 1px solid #eee; font-size: 12px; color: #777;">
               ${userSettings.businessName ? `<p>${userSettings.businessName}</p>` : ''}
               ${userSettings.businessAddress ? `<p>${userSettings.businessAddress}</p>` : ''}
@@ -88,17 +149,21 @@ export class EmailService {
         `,
         attachments: [
           {
-            content: invoicePdf,
-            filename: `Invoice-${orderId}.pdf`,
+            content: document.pdf.toString('base64'),
+            filename: document.filename,
             type: 'application/pdf',
             disposition: 'attachment'
           }
-        ]
+        ],
+        userId,
+        orderId: options.orderId,
+        contactId: options.contactId,
+        category: document.category
       };
 
       return await this.sendEmail(emailParams);
     } catch (error) {
-      console.error('Error sending invoice email:', error);
+      console.error('Error sending document email:', error);
       return false;
     }
   }
@@ -0,0 +1,52 @@
+import { db } from "../db";
+import { settings } from "@shared/schema";
+import { toInvoiceLayout, type InvoiceTemplateSettings } from "@shared/invoice-templates";
+import { eq } from "drizzle-orm";
+import { HttpError } from "../utils/http-error";
+
+/**
+ * Service for the layout invoices and quotes are rendered with
+ */
+export class InvoiceTemplateService {
+  /**
+   * Get a user's invoice layout and custom template
+   */
+  async getSettings(userId: number): Promise<InvoiceTemplateSettings> {
+    const [userSettings] = await db
+      .select({
+        invoiceTemplate: settings.invoiceTemplate,
+        customInvoiceTemplate: settings.customInvoiceTemplate,
+      })
+      .from(settings)
+      .where(eq(settings.userId, userId));
+
+    return {
+      layout: toInvoiceLayout(userSettings?.invoiceTemplate),
+      customTemplate: userSettings?.customInvoiceTemplate ?? null,
+    };
+  }
+
+  /**
+   * Save a user's invoice layout and custom template. The template must
+   * already have been validated.
+   */
+  async updateSettings(userId: number, input: InvoiceTemplateSettings): Promise<InvoiceTemplateSettings> {
+    const [updated] = await db
+      .update(settings)
+      .set({
+        invoiceTemplate: input.layout,
+        customInvoiceTemplate: input.customTemplate,
+        updatedAt: new Date(),
+      })
+      .where(eq(settings.userId, userId))
+      .returning({ id: settings.id });
+
+    if (!updated) {
+      throw new HttpError(404, "Settings not found");
+    }
+
+    return await this.getSettings(userId);
+  }
+}
+
+export const invoiceTemplateService = new InvoiceTemplateService();
@@ -1,10 +1,20 @@
 import { db } from "../db";
-import { orders, orderItems, contacts, settings, products } from "@shared/schema";
+import { contacts, settings, products, quotes, issuedDocuments, type IssuedDocument } from "@shared/schema";
 import { emailService } from "./email";
-import { eq } from "drizzle-orm";
+import { emailTemplateService } from "./email-templates";
+import { getOrderPricing } from "./pricing";
+import { summariseTax } from "@shared/pricing";
+import { orderDocumentService, type SalesDocument, type SalesDocumentType } from "./order-documents";
+import { HttpError } from "../utils/http-error";
+import { eq, and, desc, getTableColumns } from "drizzle-orm";
+
+// Issued documents without their PDF, for listing
+export type IssuedDocumentSummary = Omit<IssuedDocument, "pdfData">;
+
+const { pdfData: _pdfData, ...summaryColumns } = getTableColumns(issuedDocuments);
 
 /**
- * Service for generating and sending invoices
+ * Service for generating, sending and archiving invoices and quotes
  */
 export class InvoiceService {
   /**
@@ -12,18 +22,16 @@ export class InvoiceService {
    */
   async generateInvoiceHtml(orderId: number): Promise<{ html: string; userId: number }> {
     try {
-      // Fetch order with items
-      const [order] = await db.select().from(orders).where(eq(orders.id, orderId));
+      // Fetch order with items and its pricing breakdown
+      const orderPricing = await getOrderPricing(orderId);
       
-      if (!order) {
+      if (!orderPricing) {
         throw new Error(`Order not found: ${orderId}`);
       }
       
+      const { order, items, pricing } = orderPricing;
       const userId = order.userId;
       
-      // Fetch order items
-      const items = await db.select().from(orderItems).where(eq(orderItems.orderId, orderId));
-      
       // Fetch associated products for images
       const productItems = await Promise.all(
         items.map(async (item) => {
@@ -51,12 +59,6 @@ export class InvoiceService {
       // Fetch user settings
       const [userSettings] = await db.select().from(settings).where(eq(settings.userId, userId));
       
-      // Calculate totals
-      const subtotal = productItems.reduce((sum, item) => sum + parseFloat(item.price) * item.quantity, 0);
-      const taxRate = order.taxRate ? parseFloat(order.taxRate) : 0;
-      const taxAmount = subtotal * (taxRate / 100);
-      const total = subtotal + taxAmount;
-      
       // Format date
       const orderDate = new Date(order.eventDate);
       const formattedDate = orderDate.toLocaleDateString('en-US', {
@@ -181,7 +183,7 @@ export class InvoiceService {
               </tr>
             </thead>
             <tbody>
-              ${productItems.map(item => `
+              ${productItems.map((item, index) => `
                 <tr>
                   <td>
                     <div style="display: flex; align-items: center;">
@@ -195,8 +197,8 @@ export class InvoiceService {
                     </div>
                   </td>
                   <td>${item.quantity}</td>
-                  <td>${userSettings?.currency || '$'}${parseFloat(item.price).toFixed(2)}</td>
-                  <td>${userSettings?.currency || '$'}${(parseFloat(item.price) * item.quantity).toFixed(2)}</td>
+                  <td>${userSettings?.currency || '$'}${pricing.lines[index].unitPrice.toFixed(2)}</td>
+                  <td>${userSettings?.currency || '$'}${pricing.lines[index].lineTotal.toFixed(2)}</td>
                 </tr>
               `).join('')}
             </tbody>
@@ -205,15 +207,26 @@ export class InvoiceService {
           <table class="totals">
             <tr>
               <td>Subtotal:</td>
-              <td>${userSettings?.currency || '$'}${subtotal.toFixed(2)}</td>
+              <td>${userSettings?.currency || '$'}${pricing.subtotal.toFixed(2)}</td>
             </tr>
+            ${pricing.discountAmount > 0 ? `
             <tr>
-              <td>Tax (${taxRate}%):</td>
-              <td>${userSettings?.currency || '$'}${taxAmount.toFixed(2)}</td>
-            </tr>
+              <td>Discount${pricing.discountType === '%' ? ` (${pricing.discountValue}%)` : ''}:</td>
+              <td>-${userSettings?.currency || '$'}${pricing.discountAmount.toFixed(2)}</td>
+            </tr>` : ''}
+            ${pricing.setupFee > 0 ? `
+            <tr>
+              <td>Setup / Delivery:</td>
+              <td>${userSettings?.currency || '$'}${pricing.setupFee.toFixed(2)}</td>
+            </tr>` : ''}
+            ${summariseTax(pricing).map((tax) => `
+            <tr>
+              <td>${pricing.pricesIncludeTax ? 'Includes ' : ''}Tax (${tax.rate}%):</td>
+              <td>${userSettings?.currency || '$'}${tax.taxAmount.toFixed(2)}</td>
+            </tr>`).join('')}
             <tr class="total">
               <td>Total:</td>
-              <td>${userSettings?.currency || '$'}${total.toFixed(2)}</td>
+              <td>${userSettings?.currency || '$'}${pricing.total.toFixed(2)}</td>
             </tr>
           </table>
           
@@ -232,52 +245,147 @@ export class InvoiceService {
   }
 
   /**
-   * Convert HTML to PDF (simplified - returns base64 encoded HTML as PDF data)
+   * Render an invoice or quote and archive it as issued
    */
-  async htmlToPdf(html: string): Promise<string> {
-    // In a real implementation, we would use a library like puppeteer or html-pdf
-    // For now, we'll just return the HTML as base64 to serve as a placeholder
-    // This should be replaced with actual PDF generation
-    const base64Html = Buffer.from(html).toString('base64');
-    return base64Html;
+  async issueDocument(
+    type: SalesDocumentType,
+    id: number,
+    userId: number,
+    sentTo: string | null = null
+  ): Promise<{ document: IssuedDocumentSummary; pdf: Buffer }> {
+    const rendered = await this.render(type, id, userId);
+    const document = await this.archive(type, id, userId, rendered, sentTo);
+    return { document, pdf: rendered.pdf };
   }
 
   /**
-   * Send an invoice to a customer for a specific order
+   * Email an order's invoice to its customer as a PDF and archive the copy
+   * that was sent
    */
-  async sendInvoice(orderId: number): Promise<boolean> {
-    try {
-      // Generate invoice HTML
-      const { html, userId } = await this.generateInvoiceHtml(orderId);
-      
-      // Convert to PDF
-      const pdfData = await this.htmlToPdf(html);
-      
-      // Get order and contact details
-      const [order] = await db.select().from(orders).where(eq(orders.id, orderId));
-      
-      if (!order) {
-        throw new Error(`Order not found: ${orderId}`);
-      }
-      
-      const [contact] = await db.select().from(contacts).where(eq(contacts.id, order.contactId));
-      
-      if (!contact || !contact.email) {
-        throw new Error(`Contact email not found for order: ${orderId}`);
-      }
-      
-      // Send email with invoice
-      return await emailService.sendInvoiceEmail(
-        userId,
-        orderId,
-        contact.email,
-        html,
-        pdfData
+  async sendInvoice(orderId: number, userId: number): Promise<IssuedDocumentSummary> {
+    return await this.send("invoice", orderId, userId);
+  }
+
+  /**
+   * Email a quote to its customer as a PDF, archive the copy that was sent
+   * and mark a draft quote as sent
+   */
+  async sendQuote(quoteId: number, userId: number): Promise<IssuedDocumentSummary> {
+    const document = await this.send("quote", quoteId, userId);
+
+    await db
+      .update(quotes)
+      .set({ status: "Sent", updatedAt: new Date() })
+      .where(and(eq(quotes.id, quoteId), eq(quotes.status, "Draft")));
+
+    return document;
+  }
+
+  /**
+   * Get the copies of an invoice or quote that have been issued, newest first
+   */
+  async getIssuedDocuments(type: SalesDocumentType, id: number, userId: number): Promise<IssuedDocumentSummary[]> {
+    return await db
+      .select(summaryColumns)
+      .from(issuedDocuments)
+      .where(
+        and(
+          eq(issuedDocuments.userId, userId),
+          eq(issuedDocuments.documentType, type),
+          eq(type === "invoice" ? issuedDocuments.orderId : issuedDocuments.quoteId, id)
+        )
+      )
+      .orderBy(desc(issuedDocuments.createdAt));
+  }
+
+  /**
+   * Get an issued invoice or quote's PDF exactly as it was issued
+   */
+  async getIssuedPdf(
+    type: SalesDocumentType,
+    id: number,
+    documentId: number,
+    userId: number
+  ): Promise<{ document: IssuedDocumentSummary; pdf: Buffer }> {
+    const [issued] = await db
+      .select()
+      .from(issuedDocuments)
+      .where(
+        and(
+          eq(issuedDocuments.id, documentId),
+          eq(issuedDocuments.userId, userId),
+          eq(issuedDocuments.documentType, type),
+          eq(type === "invoice" ? issuedDocuments.orderId : issuedDocuments.quoteId, id)
+        )
       );
-    } catch (error) {
-      console.error('Error sending invoice:', error);
-      return false;
+
+    if (!issued) {
+      throw new HttpError(404, "Issued document not found");
+    }
+
+    const { pdfData, ...document } = issued;
+    return { document, pdf: Buffer.from(pdfData, "base64") };
+  }
+
+  private async send(type: SalesDocumentType, id: number, userId: number): Promise<IssuedDocumentSummary> {
+    const rendered = await this.render(type, id, userId);
+
+    if (!rendered.contact?.email) {
+      throw new HttpError(400, "The customer has no email address");
     }
+
+    const message = await emailTemplateService.renderSaved(
+      userId,
+      type,
+      type === "invoice" ? { type: "order", orderId: id } : { type: "quote", quoteId: id }
+    );
+
+    const options = {
+      message,
+      orderId: type === "invoice" ? id : null,
+      contactId: rendered.contact.id,
+    };
+
+    const sent = type === "invoice"
+      ? await emailService.sendInvoiceEmail(userId, rendered.contact.email, rendered.documentNumber, rendered.pdf, options)
+      : await emailService.sendQuoteEmail(userId, rendered.contact.email, rendered.documentNumber, rendered.pdf, options);
+
+    if (!sent) {
+      throw new HttpError(502, `The ${type} email could not be sent`);
+    }
+
+    return await this.archive(type, id, userId, rendered, rendered.contact.email);
+  }
+
+  private async render(type: SalesDocumentType, id: number, userId: number): Promise<SalesDocument> {
+    return type === "invoice"
+      ? await orderDocumentService.generateInvoice(id, userId)
+      : await orderDocumentService.generateQuote(id, userId);
+  }
+
+  private async archive(
+    type: SalesDocumentType,
+    id: number,
+    userId: number,
+    rendered: SalesDocument,
+    sentTo: string | null
+  ): Promise<IssuedDocumentSummary> {
+    const [{ pdfData: _, ...document }] = await db
+      .insert(issuedDocuments)
+      .values({
+        userId,
+        documentType: type,
+        orderId: type === "invoice" ? id : null,
+        quoteId: type === "quote" ? id : null,
+        documentNumber: rendered.documentNumber,
+        total: rendered.total.toFixed(2),
+        template: rendered.template,
+        pdfData: rendered.pdf.toString("base64"),
+        sentTo,
+      })
+      .returning();
+
+    return document;
   }
 }
 
@@ -0,0 +1,1196 @@
+import PDFDocument from "pdfkit";
+import { db } from "../db";
+import {
+  orders,
+  contacts,
+  settings,
+  orderTasks,
+  payments,
+  refunds,
+  quotes,
+  quoteItems,
+  type Order,
+  type OrderItem,
+  type Contact,
+} from "@shared/schema";
+import { calculateOrderPricing, summariseTax, type PricingBreakdown } from "@shared/pricing";
+import type { OrderLedger } from "@shared/payment-ledger";
+import {
+  blockPlaceholders,
+  fillPlaceholders,
+  type BlockPlaceholder,
+  type InlinePlaceholder,
+  type InvoiceLayout,
+} from "@shared/invoice-templates";
+import { eq, and, gte, lte, ne, asc, desc } from "drizzle-orm";
+import { getOrderPricing, getPricesIncludeTax } from "./pricing";
+import { paymentLedgerService } from "./payment-ledger";
+import { getDocumentBranding, type DocumentBranding } from "./document-branding";
+import { HttpError } from "../utils/http-error";
+
+export const orderDocumentTypes = ["job-sheet", "order-form", "delivery-note"] as const;
+export type OrderDocumentType = typeof orderDocumentTypes[number];
+
+const documentTitles: Record<OrderDocumentType, string> = {
+  "job-sheet": "Job Sheet",
+  "order-form": "Order Form",
+  "delivery-note": "Delivery Note",
+};
+
+export type SalesDocumentType = "invoice" | "quote";
+
+/**
+ * A rendered invoice or quote, with the details it was issued with
+ */
+export interface SalesDocument {
+  pdf: Buffer;
+  documentNumber: string;
+  total: number;
+  template: InvoiceLayout;
+  contact: Contact | null;
+}
+
+/**
+ * Render with a layout other than the saved one, e.g. to preview a template
+ * before it is saved
+ */
+export interface SalesDocumentOptions {
+  template?: InvoiceLayout;
+  customTemplate?: string;
+}
+
+// Everything an invoice or quote layout draws
+interface SalesDocumentData {
+  type: SalesDocumentType;
+  title: string;
+  number: string;
+  date: string;
+  dueDate: string | null;
+  validUntil: string | null;
+  eventDate: string;
+  eventType: string;
+  contact: Contact | null;
+  items: DocumentItem[];
+  pricing: PricingBreakdown;
+  ledger: OrderLedger | null;
+  notes: string | null;
+  footer: string | null;
+}
+
+interface OrderDocumentData {
+  order: Order;
+  items: OrderItem[];
+  pricing: PricingBreakdown;
+  contact: Contact | null;
+  tasks: OrderTask[];
+}
+
+type OrderTask = typeof orderTasks.$inferSelect;
+type DocumentItem = Pick<OrderItem, "name" | "description" | "notes" | "quantity">;
+type Branding = DocumentBranding & { currency: string };
+type PdfDocument = InstanceType<typeof PDFDocument>;
+
+const PAGE_MARGIN = 50;
+
+// The compact layout is sized for 80mm receipt paper
+const RECEIPT_WIDTH = 226;
+const RECEIPT_MARGIN = 14;
+
+/**
+ * Service for rendering printable order documents (job sheets, order forms,
+ * delivery notes, invoices, quotes and credit notes) as PDFs
+ */
+export class OrderDocumentService {
+  /**
+   * Render a single document for an order
+   */
+  async generateDocument(type: OrderDocumentType, orderId: number, userId: number): Promise<Buffer> {
+    const data = await this.loadOrder(orderId);
+
+    if (!data || data.order.userId !== userId) {
+      throw new HttpError(404, "Order not found");
+    }
+
+    const branding = await this.loadBranding(userId);
+
+    return this.render((doc) => this.renderDocument(doc, type, data, branding));
+  }
+
+  /**
+   * Render the job sheets for every order with an event date in a range,
+   * one order per page
+   */
+  async generateJobSheets(userId: number, from: string, to: string): Promise<{ pdf: Buffer; count: number }> {
+    const orderRows = await db
+      .select({ id: orders.id })
+      .from(orders)
+      .where(and(
+        eq(orders.userId, userId),
+        gte(orders.eventDate, from),
+        lte(orders.eventDate, to),
+        ne(orders.status, "Cancelled")
+      ))
+      .orderBy(asc(orders.eventDate), asc(orders.deliveryTime));
+
+    const sheets: OrderDocumentData[] = [];
+    for (const row of orderRows) {
+      const data = await this.loadOrder(row.id);
+      if (data) {
+        sheets.push(data);
+      }
+    }
+
+    const branding = await this.loadBranding(userId);
+
+    const pdf = await this.render((doc) => {
+      if (sheets.length === 0) {
+        this.renderHeader(doc, "Job Sheets", branding);
+        doc.fontSize(11).fillColor(branding.textColor).text(`No orders between ${from} and ${to}.`);
+        return;
+      }
+
+      sheets.forEach((data, index) => {
+        if (index > 0) {
+          doc.addPage();
+        }
+        this.renderDocument(doc, "job-sheet", data, branding);
+      });
+    });
+
+    return { pdf, count: sheets.length };
+  }
+
+  /**
+   * Render the invoice for an order as it stands now, with what has been
+   * paid and the payment schedule
+   */
+  async generateInvoice(orderId: number, userId: number, options: SalesDocumentOptions = {}): Promise<SalesDocument> {
+    const data = await this.loadOrder(orderId);
+
+    if (!data || data.order.userId !== userId) {
+      throw new HttpError(404, "Order not found");
+    }
+
+    const { order, contact, items, pricing } = data;
+    const branding = { ...(await this.loadBranding(userId)), ...options };
+    const ledger = await paymentLedgerService.getLedger(orderId);
+
+    const pdf = await this.renderSalesDocument(
+      {
+        type: "invoice",
+        title: branding.invoiceTitle,
+        number: order.orderNumber,
+        date: new Date().toISOString().split("T")[0],
+        dueDate: order.dueDate,
+        validUntil: null,
+        eventDate: order.eventDate,
+        eventType: order.eventType,
+        contact,
+        items,
+        pricing,
+        ledger,
+        notes: order.notes,
+        footer: branding.invoiceFooter,
+      },
+      branding
+    );
+
+    return { pdf, documentNumber: order.orderNumber, total: pricing.total, template: branding.template, contact };
+  }
+
+  /**
+   * Render a quote
+   */
+  async generateQuote(quoteId: number, userId: number, options: SalesDocumentOptions = {}): Promise<SalesDocument> {
+    const [quote] = await db
+      .select()
+      .from(quotes)
+      .where(and(eq(quotes.id, quoteId), eq(quotes.userId, userId)));
+
+    if (!quote) {
+      throw new HttpError(404, "Quote not found");
+    }
+
+    const items = await db.select().from(quoteItems).where(eq(quoteItems.quoteId, quoteId));
+    const [contact] = await db.select().from(contacts).where(eq(contacts.id, quote.contactId));
+    const branding = { ...(await this.loadBranding(userId)), ...options };
+
+    const pricing = calculateOrderPricing({
+      items,
+      discount: quote.discount,
+      discountType: quote.discountType,
+      setupFee: quote.setupFee,
+      taxRate: quote.taxRate,
+      pricesIncludeTax: quote.pricesIncludeTax,
+    });
+
+    const pdf = await this.renderSalesDocument(
+      {
+        type: "quote",
+        title: "Quote",
+        number: quote.quoteNumber,
+        date: quote.createdAt.toISOString().split("T")[0],
+        dueDate: null,
+        validUntil: quote.expiryDate,
+        eventDate: quote.eventDate,
+        eventType: quote.eventType,
+        contact: contact || null,
+        items,
+        pricing,
+        ledger: null,
+        notes: quote.notes,
+        footer: branding.quoteFooter,
+      },
+      branding
+    );
+
+    return { pdf, documentNumber: quote.quoteNumber, total: pricing.total, template: branding.template, contact: contact || null };
+  }
+
+  /**
+   * Render an invoice to preview a layout: the user's latest order, or a
+   * made-up order if they don't have any yet
+   */
+  async generateSampleInvoice(userId: number, options: SalesDocumentOptions = {}): Promise<SalesDocument> {
+    const [latest] = await db
+      .select({ id: orders.id })
+      .from(orders)
+      .where(eq(orders.userId, userId))
+      .orderBy(desc(orders.createdAt))
+      .limit(1);
+
+    if (latest) {
+      return await this.generateInvoice(latest.id, userId, options);
+    }
+
+    const branding = { ...(await this.loadBranding(userId)), ...options };
+    const today = new Date().toISOString().split("T")[0];
+    const items: DocumentItem[] = [
+      { name: "Two tier celebration cake", description: "Vanilla sponge, buttercream", notes: null, quantity: 1 },
+      { name: "Cupcakes", description: "Assorted flavours", notes: null, quantity: 12 },
+    ];
+    const pricing = calculateOrderPricing({
+      items: [{ quantity: 1, unitPrice: 180 }, { quantity: 12, unitPrice: 3.5 }],
+      discount: 10,
+      discountType: "%",
+      setupFee: 25,
+      taxRate: 10,
+      pricesIncludeTax: await getPricesIncludeTax(userId),
+    });
+
+    const pdf = await this.renderSalesDocument(
+      {
+        type: "invoice",
+        title: branding.invoiceTitle,
+        number: "SAMPLE-001",
+        date: today,
+        dueDate: today,
+        validUntil: null,
+        eventDate: today,
+        eventType: "Birthday",
+        contact: {
+          firstName: "Sample",
+          lastName: "Customer",
+          businessName: null,
+          email: "customer@example.com",
+          phone: null,
+          address: "1 Example Street",
+        } as Contact,
+        items,
+        pricing,
+        ledger: null,
+        notes: null,
+        footer: branding.invoiceFooter,
+      },
+      branding
+    );
+
+    return { pdf, documentNumber: "SAMPLE-001", total: pricing.total, template: branding.template, contact: null };
+  }
+
+  /**
+   * Render the credit note for a refund
+   */
+  async generateCreditNote(refundId: number, userId: number): Promise<{ pdf: Buffer; creditNoteNumber: string }> {
+    const [refund] = await db
+      .select()
+      .from(refunds)
+      .where(and(eq(refunds.id, refundId), eq(refunds.userId, userId)));
+
+    if (!refund) {
+      throw new HttpError(404, "Refund not found");
+    }
+
+    const [payment] = await db.select().from(payments).where(eq(payments.id, refund.paymentId));
+    const [order] = await db.select().from(orders).where(eq(orders.id, refund.orderId));
+    const [contact] = order ? await db.select().from(contacts).where(eq(contacts.id, order.contactId)) : [];
+    const branding = await this.loadBranding(userId);
+    const currency = refund.currency || branding.currency;
+
+    const pdf = await this.render((doc) => {
+      this.renderHeader(doc, "Credit Note", branding);
+
+      const customerName = contact ? `${contact.firstName} ${contact.lastName}`.trim() : "";
+      const left: [string, string | null][] = [
+        ["Credit Note", refund.creditNoteNumber],
+        ["Date", formatDate(refund.createdAt.toISOString().split("T")[0])],
+        ["Order", order ? `#${order.orderNumber}` : null],
+        ["Refunded To", payment ? payment.paymentMethod || payment.provider : null],
+        ["Status", refund.status === "completed" ? null : refund.status],
+      ];
+      const right: [string, string | null][] = [
+        ["Customer", customerName],
+        ["Business", contact?.businessName || null],
+        ["Email", contact?.email || null],
+        ["Address", contact?.address || null],
+      ];
+
+      this.renderColumns(doc, left, right, branding);
+
+      const rows: [string, number][] = [];
+      if (payment) {
+        rows.push([`Payment of ${formatDate(payment.createdAt.toISOString().split("T")[0])}`, parseFloat(payment.amount)]);
+      }
+      rows.push(["Amount Credited", parseFloat(refund.amount)]);
+
+      this.renderAmounts(doc, rows, currency, branding);
+      this.renderNotes(doc, "Reason", refund.reason, branding);
+    });
+
+    return { pdf, creditNoteNumber: refund.creditNoteNumber };
+  }
+
+  private async loadOrder(orderId: number): Promise<OrderDocumentData | null> {
+    const result = await getOrderPricing(orderId);
+
+    if (!result) {
+      return null;
+    }
+
+    const [contact] = await db.select().from(contacts).where(eq(contacts.id, result.order.contactId));
+    const tasks = await db
+      .select()
+      .from(orderTasks)
+      .where(eq(orderTasks.orderId, orderId))
+      .orderBy(asc(orderTasks.dueDate));
+
+    return { ...result, contact: contact || null, tasks };
+  }
+
+  private async loadBranding(userId: number): Promise<Branding> {
+    const [userSettings] = await db.select().from(settings).where(eq(settings.userId, userId));
+    return { ...getDocumentBranding(userSettings), currency: userSettings?.currency || "USD" };
+  }
+
+  /**
+   * Collect a PDF drawn by `draw` into a buffer
+   */
+  private render(
+    draw: (doc: PdfDocument) => void,
+    page: { size: string | [number, number]; margin: number } = { size: "A4", margin: PAGE_MARGIN }
+  ): Promise<Buffer> {
+    return new Promise((resolve, reject) => {
+      const doc = new PDFDocument(page);
+      const chunks: Buffer[] = [];
+
+      doc.on("data", (chunk: Buffer) => chunks.push(chunk));
+      doc.on("end", () => resolve(Buffer.concat(chunks)));
+      doc.on("error", reject);
+
+      try {
+        draw(doc);
+        doc.end();
+      } catch (error) {
+        reject(error);
+      }
+    });
+  }
+
+  /**
+   * Draw an invoice or quote with the layout chosen in the branding
+   */
+  private renderSalesDocument(data: SalesDocumentData, branding: Branding): Promise<Buffer> {
+    switch (branding.template) {
+      case "compact":
+        return this.render((doc) => this.renderReceipt(doc, data, branding), {
+          size: [RECEIPT_WIDTH, 600],
+          margin: RECEIPT_MARGIN,
+        });
+      case "custom":
+        return this.render((doc) => this.renderCustomTemplate(doc, data, branding));
+      default:
+        return this.render((doc) => this.renderStandardLayout(doc, data, branding));
+    }
+  }
+
+  /**
+   * The classic, modern and minimal layouts, which differ in their header
+   * and colours
+   */
+  private renderStandardLayout(doc: PdfDocument, data: SalesDocumentData, branding: Branding): void {
+    // Minimal documents are black and white apart from hairlines
+    const styled: Branding = branding.template === "minimal"
+      ? { ...branding, primaryColor: branding.textColor, secondaryColor: "#e5e7eb" }
+      : branding;
+
+    if (branding.template === "modern") {
+      this.renderModernHeader(doc, data.title, styled);
+    } else if (branding.template === "minimal") {
+      this.renderMinimalHeader(doc, data.title, styled);
+    } else {
+      this.renderHeader(doc, data.title, styled);
+    }
+
+    this.renderColumns(doc, this.getSalesDocumentFields(data), this.getCustomerFields(data.contact), styled);
+    this.renderItems(doc, data, styled, true);
+    this.renderTotals(doc, data.pricing, styled, data.ledger);
+    this.renderTaxSummary(doc, data.pricing, styled);
+
+    this.renderSchedule(doc, data.ledger, styled);
+    this.renderNotes(doc, "Notes", data.notes, styled);
+    this.renderFooter(doc, data.footer, styled);
+  }
+
+  /**
+   * Draw the user's own template line by line: "# " and "## " lines are
+   * headings, "---" is a divider, block placeholders draw their section and
+   * other lines are text with the placeholders filled in. Lines whose
+   * placeholders all came out empty are left out.
+   */
+  private renderCustomTemplate(doc: PdfDocument, data: SalesDocumentData, branding: Branding): void {
+    const values = this.getPlaceholderValues(data, branding);
+    const width = doc.page.width - PAGE_MARGIN * 2;
+
+    for (const line of branding.customTemplate.split("\n")) {
+      const trimmed = line.trim();
+      const block = trimmed.match(/^\{\{\s*(\w+)\s*\}\}$/)?.[1];
+
+      if (block && block in blockPlaceholders) {
+        this.renderBlock(doc, block as BlockPlaceholder, data, branding);
+        continue;
+      }
+
+      if (trimmed === "---") {
+        this.ensureSpace(doc, 12);
+        const y = doc.y + 4;
+        doc.moveTo(PAGE_MARGIN, y).lineTo(PAGE_MARGIN + width, y).strokeColor(branding.secondaryColor).stroke();
+        doc.x = PAGE_MARGIN;
+        doc.y = y + 8;
+        continue;
+      }
+
+      if (!trimmed) {
+        doc.moveDown(0.5);
+        continue;
+      }
+
+      const heading = trimmed.match(/^(#{1,2})\s+(.*)$/);
+      const text = fillPlaceholders(heading ? heading[2] : line, values);
+
+      if (!text.trim()) {
+        continue;
+      }
+
+      if (heading) {
+        doc
+          .font("Helvetica-Bold")
+          .fontSize(heading[1].length === 1 ? 16 : 12)
+          .fillColor(branding.primaryColor)
+          .text(text, PAGE_MARGIN, doc.y, { width })
+          .font("Helvetica");
+      } else {
+        doc.fontSize(10).fillColor(branding.textColor).text(text, PAGE_MARGIN, doc.y, { width });
+      }
+    }
+  }
+
+  private renderBlock(doc: PdfDocument, block: BlockPlaceholder, data: SalesDocumentData, branding: Branding): void {
+    switch (block) {
+      case "logo":
+        if (branding.logoPath) {
+          try {
+            doc.image(branding.logoPath, PAGE_MARGIN, doc.y, { fit: [120, 60] });
+            doc.y += 65;
+          } catch (error) {
+            console.error("Error adding logo to document:", error);
+          }
+        }
+        break;
+      case "items":
+        doc.moveDown(0.5);
+        this.renderItems(doc, data, branding, true);
+        break;
+      case "totals":
+        this.renderTotals(doc, data.pricing, branding, data.ledger);
+        break;
+      case "tax":
+        this.renderTaxSummary(doc, data.pricing, branding);
+        break;
+      case "schedule":
+        this.renderSchedule(doc, data.ledger, branding);
+        break;
+      case "notes":
+        this.renderNotes(doc, "Notes", data.notes, branding);
+        break;
+      case "footer":
+        this.renderFooter(doc, data.footer, branding);
+        break;
+    }
+  }
+
+  /**
+   * The compact layout: a single narrow column, like a till receipt
+   */
+  private renderReceipt(doc: PdfDocument, data: SalesDocumentData, branding: Branding): void {
+    const width = doc.page.width - RECEIPT_MARGIN * 2;
+    const divider = () => {
+      const y = doc.y + 3;
+      doc
+        .moveTo(RECEIPT_MARGIN, y)
+        .lineTo(RECEIPT_MARGIN + width, y)
+        .dash(2, { space: 2 })
+        .strokeColor(branding.textColor)
+        .stroke()
+        .undash();
+      doc.y = y + 6;
+    };
+    const row = (label: string, value: string, bold = false) => {
+      if (doc.y + 12 > doc.page.height - RECEIPT_MARGIN) {
+        doc.addPage();
+      }
+      const y = doc.y;
+      doc
+        .font(bold ? "Helvetica-Bold" : "Helvetica")
+        .fontSize(8)
+        .fillColor(branding.textColor)
+        .text(label, RECEIPT_MARGIN, y, { width: width - 60 });
+      const labelBottom = doc.y;
+      doc.text(value, RECEIPT_MARGIN + width - 60, y, { width: 60, align: "right" });
+      doc.y = Math.max(labelBottom, doc.y);
+    };
+
+    const details = [branding.businessAddress, branding.businessPhone, branding.businessEmail]
+      .filter((line): line is string => !!line);
+
+    doc
+      .font("Helvetica-Bold")
+      .fontSize(11)
+      .fillColor(branding.textColor)
+      .text(branding.businessName, RECEIPT_MARGIN, RECEIPT_MARGIN, { width, align: "center" })
+      .font("Helvetica")
+      .fontSize(7)
+      .text(details.join("\n"), { width, align: "center" })
+      .moveDown(0.5)
+      .font("Helvetica-Bold")
+      .fontSize(9)
+      .text(`${data.title} ${data.number}`, { width, align: "center" })
+      .font("Helvetica")
+      .fontSize(7)
+      .text(formatShortDate(data.date), { width, align: "center" });
+
+    const customer = data.contact ? `${data.contact.firstName} ${data.contact.lastName}`.trim() : "";
+    if (customer) {
+      doc.text(customer, { width, align: "center" });
+    }
+
+    divider();
+
+    data.items.forEach((item, index) => {
+      row(`${item.quantity} x ${item.name}`, formatMoney(data.pricing.lines[index]?.lineTotal ?? 0, branding.currency));
+    });
+
+    divider();
+
+    const { pricing } = data;
+    row("Subtotal", formatMoney(pricing.subtotal, branding.currency));
+    if (pricing.discountAmount > 0) {
+      row("Discount", formatMoney(-pricing.discountAmount, branding.currency));
+    }
+    if (pricing.setupFee > 0) {
+      row("Setup / Delivery", formatMoney(pricing.setupFee, branding.currency));
+    }
+    for (const tax of summariseTax(pricing).filter((line) => line.taxAmount !== 0)) {
+      const label = `${branding.taxLabel} ${tax.rate}%`;
+      row(pricing.pricesIncludeTax ? `Incl. ${label}` : label, formatMoney(tax.taxAmount, branding.currency));
+    }
+    row("Total", formatMoney(pricing.total, branding.currency), true);
+
+    if (data.ledger && data.ledger.amountPaid !== 0) {
+      row("Paid", formatMoney(data.ledger.amountPaid, branding.currency));
+      row("Balance Due", formatMoney(data.ledger.balance, branding.currency), true);
+    }
+
+    if (data.footer) {
+      divider();
+      doc.font("Helvetica").fontSize(7).text(data.footer, RECEIPT_MARGIN, doc.y, { width, align: "center" });
+    }
+  }
+
+  private renderModernHeader(doc: PdfDocument, title: string, branding: DocumentBranding): void {
+    const pageWidth = doc.page.width - PAGE_MARGIN * 2;
+    const bandHeight = 100;
+    let nameX = PAGE_MARGIN;
+
+    doc.rect(0, 0, doc.page.width, bandHeight).fill(branding.primaryColor);
+
+    if (branding.logoPath) {
+      try {
+        doc.image(branding.logoPath, PAGE_MARGIN, 20, { fit: [60, 60] });
+        nameX += 70;
+      } catch (error) {
+        console.error("Error adding logo to document:", error);
+      }
+    }
+
+    doc
+      .fillColor("#ffffff")
+      .font("Helvetica-Bold")
+      .fontSize(24)
+      .text(title.toUpperCase(), PAGE_MARGIN, 36, { width: pageWidth, align: "right" })
+      .fontSize(14)
+      .text(branding.businessName, nameX, 42, { width: pageWidth / 2 })
+      .font("Helvetica");
+
+    const details = [branding.businessAddress, branding.businessPhone, branding.businessEmail]
+      .filter((line): line is string => !!line);
+
+    doc
+      .fontSize(9)
+      .fillColor(branding.textColor)
+      .text(details.join("  |  "), PAGE_MARGIN, bandHeight + 12, { width: pageWidth });
+
+    doc.x = PAGE_MARGIN;
+    doc.y = Math.max(doc.y, bandHeight + 12) + 20;
+  }
+
+  private renderMinimalHeader(doc: PdfDocument, title: string, branding: DocumentBranding): void {
+    const top = doc.y;
+    const pageWidth = doc.page.width - PAGE_MARGIN * 2;
+    const details = [branding.businessName, branding.businessAddress, branding.businessPhone, branding.businessEmail]
+      .filter((line): line is string => !!line);
+
+    doc
+      .fillColor(branding.textColor)
+      .font("Helvetica")
+      .fontSize(22)
+      .text(title, PAGE_MARGIN, top, { width: pageWidth / 2 })
+      .fontSize(9)
+      .text(details.join("\n"), PAGE_MARGIN + pageWidth / 2, top, { width: pageWidth / 2, align: "right" });
+
+    const ruleY = Math.max(doc.y, top + 30) + 10;
+    doc.moveTo(PAGE_MARGIN, ruleY).lineTo(PAGE_MARGIN + pageWidth, ruleY).strokeColor(branding.secondaryColor).stroke();
+
+    doc.x = PAGE_MARGIN;
+    doc.y = ruleY + 15;
+  }
+
+  private getSalesDocumentFields(data: SalesDocumentData): [string, string | null][] {
+    return [
+      [`${data.type === "quote" ? "Quote" : data.title} No.`, data.number],
+      ["Date", formatDate(data.date)],
+      ["Due Date", data.dueDate ? formatDate(data.dueDate) : null],
+      ["Valid Until", data.validUntil ? formatDate(data.validUntil) : null],
+      ["Event Date", formatDate(data.eventDate)],
+      ["Event Type", data.eventType],
+    ];
+  }
+
+  private getPlaceholderValues(data: SalesDocumentData, branding: Branding): Record<InlinePlaceholder, string | null> {
+    const { contact } = data;
+
+    return {
+      "document.title": data.title,
+      "document.number": data.number,
+      "document.date": formatDate(data.date),
+      "business.name": branding.businessName,
+      "business.email": branding.businessEmail,
+      "business.phone": branding.businessPhone,
+      "business.address": branding.businessAddress,
+      "order.eventDate": formatDate(data.eventDate),
+      "order.eventType": data.eventType,
+      "order.dueDate": data.dueDate ? formatDate(data.dueDate) : null,
+      "order.validUntil": data.validUntil ? formatDate(data.validUntil) : null,
+      "order.total": formatMoney(data.pricing.total, branding.currency),
+      "order.balance": data.ledger ? formatMoney(data.ledger.balance, branding.currency) : null,
+      "contact.name": contact ? `${contact.firstName} ${contact.lastName}`.trim() : null,
+      "contact.business": contact?.businessName || null,
+      "contact.email": contact?.email || null,
+      "contact.phone": contact?.phone || null,
+      "contact.address": contact?.address || null,
+    };
+  }
+
+  private renderDocument(
+    doc: PdfDocument,
+    type: OrderDocumentType,
+    data: OrderDocumentData,
+    branding: Branding
+  ): void {
+    this.renderHeader(doc, documentTitles[type], branding);
+    this.renderOrderDetails(doc, type, data, branding);
+
+    switch (type) {
+      case "job-sheet":
+        this.renderItems(doc, data, branding, false);
+        this.renderNotes(doc, "Job Sheet Notes", data.order.jobSheetNotes, branding);
+        this.renderNotes(doc, "Order Notes", data.order.notes, branding);
+        this.renderTasks(doc, data.tasks, branding);
+        break;
+      case "order-form":
+        this.renderItems(doc, data, branding, true);
+        this.renderTotals(doc, data.pricing, branding);
+        this.renderNotes(doc, "Notes", data.order.notes, branding);
+        break;
+      case "delivery-note":
+        this.renderItems(doc, data, branding, false);
+        this.renderNotes(doc, "Delivery Instructions", data.order.deliveryDetails, branding);
+        this.renderSignature(doc, branding);
+        break;
+    }
+  }
+
+  private renderHeader(doc: PdfDocument, title: string, branding: DocumentBranding): void {
+    const top = doc.y;
+    const pageWidth = doc.page.width - PAGE_MARGIN * 2;
+
+    if (branding.logoPath) {
+      try {
+        doc.image(branding.logoPath, PAGE_MARGIN, top, { fit: [120, 60] });
+      } catch (error) {
+        console.error("Error adding logo to document:", error);
+      }
+    }
+
+    const details = [branding.businessAddress, branding.businessPhone, branding.businessEmail]
+      .filter((line): line is string => !!line);
+
+    doc
+      .fillColor(branding.textColor)
+      .fontSize(14)
+      .font("Helvetica-Bold")
+      .text(branding.businessName, PAGE_MARGIN, top, { width: pageWidth, align: "right" })
+      .font("Helvetica")
+      .fontSize(9)
+      .text(details.join("\n"), { width: pageWidth, align: "right" });
+
+    const barTop = Math.max(doc.y, top + 60) + 10;
+
+    doc
+      .rect(PAGE_MARGIN, barTop, pageWidth, 28)
+      .fill(branding.primaryColor)
+      .fillColor("#ffffff")
+      .fontSize(16)
+      .font("Helvetica-Bold")
+      .text(title.toUpperCase(), PAGE_MARGIN + 10, barTop + 7, { width: pageWidth - 20 })
+      .font("Helvetica");
+
+    doc.x = PAGE_MARGIN;
+    doc.y = barTop + 40;
+  }
+
+  private renderOrderDetails(
+    doc: PdfDocument,
+    type: OrderDocumentType,
+    data: OrderDocumentData,
+    branding: DocumentBranding
+  ): void {
+    const { order, contact } = data;
+    const customerName = contact ? `${contact.firstName} ${contact.lastName}`.trim() : "";
+
+    const left: [string, string | null][] = [
+      ["Order", `#${order.orderNumber}`],
+      ["Event Date", formatDate(order.eventDate)],
+      ["Event Type", order.eventType],
+      ["Theme", order.theme],
+      ["Status", order.status],
+    ];
+    const right: [string, string | null][] = [
+      ["Customer", customerName],
+      ["Business", contact?.businessName || null],
+      ["Phone", contact?.phone || null],
+      ["Email", type === "delivery-note" ? null : contact?.email || null],
+      [order.deliveryType === "Pickup" ? "Pickup" : "Delivery", order.deliveryTime || order.deliveryType],
+      ["Address", order.deliveryType === "Pickup" ? null : order.deliveryDetails || contact?.address || null],
+    ];
+
+    this.renderColumns(doc, left, right, branding);
+  }
+
+  private getCustomerFields(contact: Contact | null): [string, string | null][] {
+    return [
+      ["Bill To", contact ? `${contact.firstName} ${contact.lastName}`.trim() : null],
+      ["Business", contact?.businessName || null],
+      ["Email", contact?.email || null],
+      ["Phone", contact?.phone || null],
+      ["Address", contact?.address || null],
+    ];
+  }
+
+  /**
+   * Render two columns of labelled fields side by side
+   */
+  private renderColumns(
+    doc: PdfDocument,
+    left: [string, string | null][],
+    right: [string, string | null][],
+    branding: DocumentBranding
+  ): void {
+    const top = doc.y;
+    const columnWidth = (doc.page.width - PAGE_MARGIN * 2) / 2 - 10;
+
+    this.renderFields(doc, left, PAGE_MARGIN, top, columnWidth, branding);
+    const leftBottom = doc.y;
+    this.renderFields(doc, right, PAGE_MARGIN + columnWidth + 20, top, columnWidth, branding);
+
+    doc.x = PAGE_MARGIN;
+    doc.y = Math.max(leftBottom, doc.y) + 15;
+  }
+
+  private renderFields(
+    doc: PdfDocument,
+    fields: [string, string | null][],
+    x: number,
+    y: number,
+    width: number,
+    branding: DocumentBranding
+  ): void {
+    doc.y = y;
+
+    for (const [label, value] of fields) {
+      if (!value) continue;
+
+      doc
+        .fontSize(10)
+        .font("Helvetica-Bold")
+        .fillColor(branding.primaryColor)
+        .text(`${label}: `, x, doc.y, { continued: true, width })
+        .font("Helvetica")
+        .fillColor(branding.textColor)
+        .text(value);
+    }
+  }
+
+  private renderItems(
+    doc: PdfDocument,
+    data: { items: DocumentItem[]; pricing: PricingBreakdown },
+    branding: Branding,
+    showPrices: boolean
+  ): void {
+    const pageWidth = doc.page.width - PAGE_MARGIN * 2;
+    // Each line's tax rate is only worth a column when the rates differ
+    const showTaxRates = showPrices && new Set(data.pricing.lines.map((line) => line.taxRate)).size > 1;
+    const columns = showTaxRates
+      ? [{ title: "Qty", width: 40 }, { title: "Item", width: pageWidth - 260 }, { title: "Unit Price", width: 80 }, { title: branding.taxLabel, width: 60 }, { title: "Total", width: 80 }]
+      : showPrices
+        ? [{ title: "Qty", width: 40 }, { title: "Item", width: pageWidth - 200 }, { title: "Unit Price", width: 80 }, { title: "Total", width: 80 }]
+        : [{ title: "Qty", width: 40 }, { title: "Item", width: pageWidth - 40 }];
+
+    this.ensureSpace(doc, 60);
+
+    const headerTop = doc.y;
+    doc.rect(PAGE_MARGIN, headerTop, pageWidth, 20).fill(branding.secondaryColor);
+    doc.fillColor(branding.textColor).fontSize(10).font("Helvetica-Bold");
+
+    let x = PAGE_MARGIN;
+    for (const column of columns) {
+      doc.text(column.title, x + 4, headerTop + 5, {
+        width: column.width - 8,
+        align: column.title === "Item" ? "left" : "right",
+      });
+      x += column.width;
+    }
+    doc.font("Helvetica");
+    doc.y = headerTop + 24;
+
+    data.items.forEach((item, index) => {
+      const description = [item.name, item.description, item.notes]
+        .filter((line, position, lines) => !!line && lines.indexOf(line) === position)
+        .join("\n");
+      const line = data.pricing.lines[index];
+      const values = showPrices
+        ? [String(item.quantity), description, formatMoney(line?.unitPrice ?? 0, branding.currency), formatMoney(line?.lineTotal ?? 0, branding.currency)]
+        : [String(item.quantity), description];
+      if (showTaxRates) {
+        values.splice(3, 0, `${line?.taxRate ?? 0}%`);
+      }
+
+      const rowHeight = doc.heightOfString(description, { width: columns[1].width - 8 }) + 8;
+      this.ensureSpace(doc, rowHeight);
+
+      const rowTop = doc.y;
+      let cellX = PAGE_MARGIN;
+      values.forEach((value, column) => {
+        doc.fontSize(10).fillColor(branding.textColor).text(value, cellX + 4, rowTop + 4, {
+          width: columns[column].width - 8,
+          align: column === 1 ? "left" : "right",
+        });
+        cellX += columns[column].width;
+      });
+
+      doc
+        .moveTo(PAGE_MARGIN, rowTop + rowHeight)
+        .lineTo(PAGE_MARGIN + pageWidth, rowTop + rowHeight)
+        .strokeColor(branding.secondaryColor)
+        .stroke();
+      doc.y = rowTop + rowHeight;
+    });
+
+    if (data.items.length === 0) {
+      doc.fontSize(10).fillColor(branding.textColor).text("No items", PAGE_MARGIN + 4, doc.y + 4);
+    }
+
+    doc.x = PAGE_MARGIN;
+    doc.y += 15;
+  }
+
+  /**
+   * Render the pricing breakdown. With a ledger, what has been paid and the
+   * balance due follow the total.
+   */
+  private renderTotals(doc: PdfDocument, pricing: PricingBreakdown, branding: Branding, ledger?: OrderLedger | null): void {
+    const rows: [string, number][] = [["Subtotal", pricing.subtotal]];
+
+    if (pricing.discountAmount > 0) {
+      rows.push([pricing.discountType === "%" ? `Discount (${pricing.discountValue}%)` : "Discount", -pricing.discountAmount]);
+    }
+    if (pricing.setupFee > 0) {
+      rows.push(["Setup / Delivery", pricing.setupFee]);
+    }
+    // Tax-inclusive prices already contain the tax, so it is shown but not
+    // added on
+    if (pricing.taxTotal > 0) {
+      rows.push([pricing.pricesIncludeTax ? `${branding.taxLabel} (included)` : branding.taxLabel, pricing.taxTotal]);
+    }
+    rows.push(["Total", pricing.total]);
+
+    if (ledger && ledger.amountPaid !== 0) {
+      rows.push(["Amount Paid", -ledger.amountPaid], ["Balance Due", ledger.balance]);
+    }
+
+    this.renderAmounts(doc, rows, branding.currency, branding);
+  }
+
+  /**
+   * Render right-aligned amount rows, with the last row as the total
+   */
+  private renderAmounts(doc: PdfDocument, rows: [string, number][], currency: string, branding: DocumentBranding): void {
+    this.ensureSpace(doc, rows.length * 16 + 10);
+
+    const labelX = doc.page.width - PAGE_MARGIN - 200;
+    rows.forEach(([label, amount], index) => {
+      const isTotal = index === rows.length - 1;
+      const y = doc.y;
+
+      doc
+        .font(isTotal ? "Helvetica-Bold" : "Helvetica")
+        .fontSize(isTotal ? 12 : 10)
+        .fillColor(isTotal ? branding.primaryColor : branding.textColor)
+        .text(label, labelX, y, { width: 110 })
+        .text(formatMoney(amount, currency), labelX + 110, y, { width: 90, align: "right" });
+    });
+
+    doc.font("Helvetica");
+    doc.x = PAGE_MARGIN;
+    doc.y += 15;
+  }
+
+  private renderNotes(doc: PdfDocument, title: string, notes: string | null, branding: DocumentBranding): void {
+    if (!notes) {
+      return;
+    }
+
+    this.ensureSpace(doc, 50);
+
+    doc
+      .fontSize(11)
+      .font("Helvetica-Bold")
+      .fillColor(branding.primaryColor)
+      .text(title, PAGE_MARGIN, doc.y)
+      .font("Helvetica")
+      .fontSize(10)
+      .fillColor(branding.textColor)
+      .text(notes, { width: doc.page.width - PAGE_MARGIN * 2 })
+      .moveDown();
+  }
+
+  /**
+   * Render the amounts taxed at each rate and the tax on them
+   */
+  private renderTaxSummary(doc: PdfDocument, pricing: PricingBreakdown, branding: Branding): void {
+    const summary = summariseTax(pricing);
+
+    if (pricing.taxTotal === 0 || summary.length === 0) {
+      return;
+    }
+
+    this.ensureSpace(doc, 40 + summary.length * 14);
+
+    const columns = [160, 100, 100];
+    const heading = [`${branding.taxLabel} Rate`, "Net", branding.taxLabel];
+
+    doc
+      .fontSize(11)
+      .font("Helvetica-Bold")
+      .fillColor(branding.primaryColor)
+      .text(`${branding.taxLabel} Summary`, PAGE_MARGIN, doc.y);
+
+    const rows = [heading, ...summary.map((line) => [
+      `${line.rate}%`,
+      formatMoney(line.netAmount, branding.currency),
+      formatMoney(line.taxAmount, branding.currency),
+    ])];
+
+    rows.forEach((values, index) => {
+      const y = doc.y;
+      let x = PAGE_MARGIN;
+      doc.font(index === 0 ? "Helvetica-Bold" : "Helvetica").fontSize(10).fillColor(branding.textColor);
+      values.forEach((value, column) => {
+        doc.text(value, x, y, { width: columns[column], align: column === 0 ? "left" : "right" });
+        x += columns[column];
+      });
+    });
+
+    doc.font("Helvetica");
+    doc.x = PAGE_MARGIN;
+    doc.moveDown();
+  }
+
+  /**
+   * Render the instalments still to be paid on an order
+   */
+  private renderSchedule(doc: PdfDocument, ledger: OrderLedger | null, branding: Branding): void {
+    const unpaid = ledger?.instalments.filter((instalment) => !instalment.isPaid) || [];
+
+    if (unpaid.length === 0) {
+      return;
+    }
+
+    this.ensureSpace(doc, 30 + unpaid.length * 14);
+
+    doc
+      .fontSize(11)
+      .font("Helvetica-Bold")
+      .fillColor(branding.primaryColor)
+      .text("Payment Schedule", PAGE_MARGIN, doc.y)
+      .font("Helvetica")
+      .fontSize(10)
+      .fillColor(branding.textColor);
+
+    for (const instalment of unpaid) {
+      const y = doc.y;
+      doc
+        .text(`${instalment.description || "Payment"} - due ${formatDate(instalment.dueDate)}`, PAGE_MARGIN, y, { width: 300 })
+        .text(formatMoney(instalment.amount, branding.currency), PAGE_MARGIN + 300, y, { width: 90, align: "right" });
+    }
+
+    doc.x = PAGE_MARGIN;
+    doc.moveDown();
+  }
+
+  private renderFooter(doc: PdfDocument, footer: string | null, branding: DocumentBranding): void {
+    if (!footer) {
+      return;
+    }
+
+    const width = doc.page.width - PAGE_MARGIN * 2;
+    this.ensureSpace(doc, doc.heightOfString(footer, { width }) + 30);
+
+    const y = doc.y + 10;
+    doc
+      .moveTo(PAGE_MARGIN, y)
+      .lineTo(PAGE_MARGIN + width, y)
+      .strokeColor(branding.secondaryColor)
+      .stroke()
+      .fontSize(9)
+      .fillColor(branding.textColor)
+      .text(footer, PAGE_MARGIN, y + 10, { width, align: "center" });
+
+    doc.x = PAGE_MARGIN;
+  }
+
+  private renderTasks(doc: PdfDocument, tasks: OrderTask[], branding: DocumentBranding): void {
+    if (tasks.length === 0) {
+      return;
+    }
+
+    this.ensureSpace(doc, 50);
+
+    doc
+      .fontSize(11)
+      .font("Helvetica-Bold")
+      .fillColor(branding.primaryColor)
+      .text("Tasks", PAGE_MARGIN, doc.y)
+      .font("Helvetica")
+      .fontSize(10)
+      .fillColor(branding.textColor);
+
+    for (const task of tasks) {
+      this.ensureSpace(doc, 16);
+      const y = doc.y;
+      doc.rect(PAGE_MARGIN, y + 1, 8, 8).strokeColor(branding.textColor).stroke();
+      if (task.completed) {
+        doc.moveTo(PAGE_MARGIN + 1, y + 5).lineTo(PAGE_MARGIN + 4, y + 8).lineTo(PAGE_MARGIN + 8, y + 1).stroke();
+      }
+      const due = task.dueDate ? ` (due ${formatDate(task.dueDate)})` : "";
+      doc.text(`${task.description}${due}`, PAGE_MARGIN + 14, y);
+    }
+
+    doc.x = PAGE_MARGIN;
+    doc.moveDown();
+  }
+
+  private renderSignature(doc: PdfDocument, branding: DocumentBranding): void {
+    this.ensureSpace(doc, 90);
+
+    const y = doc.y + 30;
+    const lineWidth = 200;
+
+    doc.strokeColor(branding.textColor);
+    doc.moveTo(PAGE_MARGIN, y).lineTo(PAGE_MARGIN + lineWidth, y).stroke();
+    doc.moveTo(PAGE_MARGIN + lineWidth + 50, y).lineTo(PAGE_MARGIN + lineWidth * 2 + 50, y).stroke();
+
+    doc
+      .fontSize(9)
+      .fillColor(branding.textColor)
+      .text("Received by (signature)", PAGE_MARGIN, y + 4, { width: lineWidth })
+      .text("Date / Time", PAGE_MARGIN + lineWidth + 50, y + 4, { width: lineWidth });
+
+    doc.x = PAGE_MARGIN;
+  }
+
+  /**
+   * Start a new page if there isn't room for the next block
+   */
+  private ensureSpace(doc: PdfDocument, height: number): void {
+    if (doc.y + height > doc.page.height - PAGE_MARGIN) {
+      doc.addPage();
+    }
+  }
+}
+
+function formatDate(date: string): string {
+  return new Date(`${date}T00:00:00`).toLocaleDateString("en-US", {
+    weekday: "short",
+    year: "numeric",
+    month: "long",
+    day: "numeric",
+  });
+}
+
+function formatShortDate(date: string): string {
+  return new Date(`${date}T00:00:00`).toLocaleDateString("en-US", {
+    year: "numeric",
+    month: "short",
+    day: "numeric",
+  });
+}
+
+function formatMoney(amount: number, currency: string): string {
+  try {
+    return new Intl.NumberFormat("en-US", { style: "currency", currency }).format(amount);
+  } catch {
+    return amount.toFixed(2);
+  }
+}
+
+export const orderDocumentService = new OrderDocumentService();
@@ -0,0 +1,119 @@
+import { db } from "../db";
+import { orders, orderItems, orderTasks, scheduledPayments, type Order } from "@shared/schema";
+import { eq, and } from "drizzle-orm";
+import { generateOrderNumber } from "./document-numbers";
+import { logOrderAction } from "./order-log";
+import { HttpError } from "../utils/http-error";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface DuplicateOrderOptions {
+  eventDate: string;
+  includeScheduledPayments?: boolean;
+}
+
+/**
+ * Shift a YYYY-MM-DD date by a number of days
+ */
+function shiftDate(date: string | null, days: number): string | null {
+  if (!date) {
+    return null;
+  }
+
+  const shifted = new Date(Date.parse(`${date}T00:00:00Z`) + days * DAY_MS);
+  return shifted.toISOString().split("T")[0];
+}
+
+/**
+ * Copy an order, its items and tasks (and optionally its scheduled payments)
+ * to a new event date. Due dates on the copy keep the same distance from the
+ * event date as they had on the original order.
+ */
+export async function duplicateOrder(orderId: number, userId: number, options: DuplicateOrderOptions): Promise<Order> {
+  return await db.transaction(async (tx) => {
+    const [source] = await tx
+      .select()
+      .from(orders)
+      .where(and(eq(orders.id, orderId), eq(orders.userId, userId)));
+
+    if (!source) {
+      throw new HttpError(404, "Order not found");
+    }
+
+    const offsetDays = Math.round(
+      (Date.parse(`${options.eventDate}T00:00:00Z`) - Date.parse(`${source.eventDate}T00:00:00Z`)) / DAY_MS
+    );
+
+    const orderNumber = await generateOrderNumber(userId, tx);
+
+    const [order] = await tx
+      .insert(orders)
+      .values({
+        userId,
+        orderNumber,
+        contactId: source.contactId,
+        eventType: source.eventType,
+        eventDate: options.eventDate,
+        dueDate: shiftDate(source.dueDate, offsetDays),
+        status: "Quote",
+        theme: source.theme,
+        deliveryType: source.deliveryType,
+        deliveryDetails: source.deliveryDetails,
+        deliveryTime: source.deliveryTime,
+        discount: source.discount,
+        discountType: source.discountType,
+        setupFee: source.setupFee,
+        taxRate: source.taxRate,
+        pricesIncludeTax: source.pricesIncludeTax,
+        total: source.total,
+        notes: source.notes,
+        jobSheetNotes: source.jobSheetNotes,
+        imageUrls: source.imageUrls,
+      })
+      .returning();
+
+    const items = await tx.select().from(orderItems).where(eq(orderItems.orderId, orderId));
+
+    if (items.length > 0) {
+      await tx.insert(orderItems).values(
+        items.map(({ id, orderId: _orderId, ...item }) => ({ ...item, orderId: order.id }))
+      );
+    }
+
+    const tasks = await tx.select().from(orderTasks).where(eq(orderTasks.orderId, orderId));
+
+    if (tasks.length > 0) {
+      await tx.insert(orderTasks).values(
+        tasks.map((task) => ({
+          orderId: order.id,
+          description: task.description,
+          dueDate: shiftDate(task.dueDate, offsetDays),
+          priority: task.priority,
+          completed: false,
+        }))
+      );
+    }
+
+    if (options.includeScheduledPayments) {
+      const payments = await tx.select().from(scheduledPayments).where(eq(scheduledPayments.orderId, orderId));
+
+      if (payments.length > 0) {
+        await tx.insert(scheduledPayments).values(
+          payments.map((payment) => ({
+            orderId: order.id,
+            amount: payment.amount,
+            dueDate: shiftDate(payment.dueDate, offsetDays)!,
+            paymentMethod: payment.paymentMethod,
+            description: payment.description,
+            status: "Pending",
+            reminderSent: false,
+          }))
+        );
+      }
+    }
+
+    await logOrderAction(order.id, "Order Duplicated", `Copied from order #${source.orderNumber}`, userId, tx);
+
+    return order;
+  });
+}
@@ -0,0 +1,20 @@
+import { db, type DbExecutor } from "../db";
+import { orderLogs, type OrderLog } from "@shared/schema";
+
+/**
+ * Write an entry to an order's activity log
+ */
+export async function logOrderAction(
+  orderId: number,
+  action: string,
+  details: string | null,
+  createdBy: number,
+  executor: DbExecutor = db
+): Promise<OrderLog> {
+  const [log] = await executor
+    .insert(orderLogs)
+    .values({ orderId, action, details, createdBy })
+    .returning();
+
+  return log;
+}
@@ -0,0 +1,241 @@
+import { db, type DbExecutor } from "../db";
+import {
+  orders,
+  reminderTemplates,
+  reminderSchedules,
+  type Order,
+  type OrderStatus,
+} from "@shared/schema";
+import { canTransitionOrderStatus, getOrderStatusPath, normalizeOrderStatus } from "@shared/order-status";
+import { eq, and } from "drizzle-orm";
+import { logOrderAction } from "./order-log";
+import { customerAutomationService } from "./customer-automations";
+import { smsService } from "./sms";
+import { getNextSend } from "./payment-reminders";
+import { HttpError } from "../utils/http-error";
+
+// Days before the payment due date that the default reminder is sent
+const DEFAULT_REMINDER_DAYS_BEFORE = 3;
+
+export interface OrderStatusChange {
+  order: Order;
+  previousStatus: OrderStatus;
+  status: OrderStatus;
+  userId: number;
+}
+
+export type OrderStatusHandler = (change: OrderStatusChange) => Promise<void>;
+
+export interface BulkStatusResult {
+  updated: Order[];
+  failed: { orderId: number; error: string }[];
+}
+
+/**
+ * Service for moving orders through the status workflow. Every change is
+ * checked against the allowed transitions, recorded in the order log and
+ * then passed to any side effect handlers registered for the new status.
+ */
+export class OrderStatusService {
+  private handlers = new Map<OrderStatus, OrderStatusHandler[]>();
+
+  /**
+   * Register a side effect to run after an order moves to a status
+   */
+  on(status: OrderStatus, handler: OrderStatusHandler): void {
+    const existing = this.handlers.get(status) || [];
+    this.handlers.set(status, [...existing, handler]);
+  }
+
+  /**
+   * Change the status of a single order
+   */
+  async changeStatus(orderId: number, userId: number, status: OrderStatus, note?: string): Promise<Order> {
+    const change = await db.transaction((tx) => this.applyStatusChange(orderId, userId, status, note, tx));
+
+    await this.runHandlers(change);
+
+    return change.order;
+  }
+
+  /**
+   * Check and save a status change as part of the caller's transaction,
+   * without its side effects. Pass the result to `runHandlers` once the
+   * transaction has committed.
+   */
+  async applyStatusChange(
+    orderId: number,
+    userId: number,
+    status: OrderStatus,
+    note: string | undefined,
+    executor: DbExecutor
+  ): Promise<OrderStatusChange> {
+    const [order] = await executor
+      .select()
+      .from(orders)
+      .where(and(eq(orders.id, orderId), eq(orders.userId, userId)));
+
+    if (!order) {
+      throw new HttpError(404, "Order not found");
+    }
+
+    const previousStatus = normalizeOrderStatus(order.status);
+
+    if (!canTransitionOrderStatus(order.status, status)) {
+      throw new HttpError(409, `Cannot change order status from ${previousStatus} to ${status}`);
+    }
+
+    const [updated] = await executor
+      .update(orders)
+      .set({ status, updatedAt: new Date() })
+      .where(eq(orders.id, orderId))
+      .returning();
+
+    const details = note
+      ? `${previousStatus} → ${status}: ${note}`
+      : `${previousStatus} → ${status}`;
+
+    await logOrderAction(orderId, "Status Changed", details, userId, executor);
+
+    return { order: updated, previousStatus, status, userId };
+  }
+
+  /**
+   * Move a newly created order from Quote to the status it was created with,
+   * one allowed step at a time, as part of the caller's transaction. Pass
+   * each change to `runHandlers` once the transaction has committed.
+   */
+  async applyInitialStatus(
+    orderId: number,
+    userId: number,
+    status: OrderStatus,
+    executor: DbExecutor
+  ): Promise<OrderStatusChange[]> {
+    const path = getOrderStatusPath("Quote", status);
+
+    if (!path) {
+      throw new HttpError(400, `Orders cannot be created as ${status}`);
+    }
+
+    const changes: OrderStatusChange[] = [];
+    for (const step of path) {
+      changes.push(await this.applyStatusChange(orderId, userId, step, undefined, executor));
+    }
+
+    return changes;
+  }
+
+  /**
+   * Change the status of several orders. Each order is checked on its own so
+   * one invalid transition doesn't stop the rest from being updated.
+   */
+  async changeStatuses(orderIds: number[], userId: number, status: OrderStatus, note?: string): Promise<BulkStatusResult> {
+    const result: BulkStatusResult = { updated: [], failed: [] };
+
+    for (const orderId of orderIds) {
+      try {
+        result.updated.push(await this.changeStatus(orderId, userId, status, note));
+      } catch (error) {
+        result.failed.push({
+          orderId,
+          error: error instanceof Error ? error.message : "Failed to update order status",
+        });
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Run side effects for a status change. The change has already been saved,
+   * so failures are logged rather than passed back to the caller.
+   */
+  async runHandlers(change: OrderStatusChange): Promise<void> {
+    for (const handler of this.handlers.get(change.status) || []) {
+      try {
+        await handler(change);
+      } catch (error) {
+        console.error(`Error running ${change.status} status handler for order ${change.order.id}:`, error);
+      }
+    }
+  }
+}
+
+/**
+ * Email the customer to let them know their order is confirmed, unless the
+ * user has turned the confirmation automation off
+ */
+async function sendConfirmationEmail({ order, userId }: OrderStatusChange): Promise<void> {
+  await customerAutomationService.sendOrderConfirmation(order, userId);
+}
+
+/**
+ * Text the customer that their order is confirmed, if they've opted in
+ */
+async function sendConfirmationSms({ order, userId }: OrderStatusChange): Promise<void> {
+  await smsService.sendOrderConfirmation(order, userId);
+}
+
+/**
+ * Set up a payment reminder from the user's default template when an order
+ * with a due date is confirmed and has no reminders yet
+ */
+async function scheduleDefaultReminder({ order, userId }: OrderStatusChange): Promise<void> {
+  if (!order.dueDate) {
+    return;
+  }
+
+  const existing = await db
+    .select()
+    .from(reminderSchedules)
+    .where(eq(reminderSchedules.orderId, order.id));
+
+  if (existing.length > 0) {
+    return;
+  }
+
+  const [template] = await db
+    .select()
+    .from(reminderTemplates)
+    .where(and(eq(reminderTemplates.userId, userId), eq(reminderTemplates.isDefault, true)));
+
+  if (!template) {
+    return;
+  }
+
+  const timing = { daysBefore: DEFAULT_REMINDER_DAYS_BEFORE, isOverdue: false, repeatDays: null, lastSent: null };
+  const nextSend = getNextSend(timing, order.dueDate);
+
+  // Nothing to remind about once the due date has passed
+  if (!nextSend) {
+    return;
+  }
+
+  await db.insert(reminderSchedules).values({
+    orderId: order.id,
+    userId,
+    templateId: template.id,
+    ...timing,
+    isEnabled: true,
+    nextSend,
+  });
+
+  await logOrderAction(order.id, "Reminder Scheduled", `Payment reminder "${template.name}" scheduled`, userId);
+}
+
+/**
+ * Stop sending payment reminders for a cancelled order
+ */
+async function disableReminders({ order }: OrderStatusChange): Promise<void> {
+  await db
+    .update(reminderSchedules)
+    .set({ isEnabled: false, updatedAt: new Date() })
+    .where(eq(reminderSchedules.orderId, order.id));
+}
+
+export const orderStatusService = new OrderStatusService();
+
+orderStatusService.on("Confirmed", sendConfirmationEmail);
+orderStatusService.on("Confirmed", sendConfirmationSms);
+orderStatusService.on("Confirmed", scheduleDefaultReminder);
+orderStatusService.on("Cancelled", disableReminders);
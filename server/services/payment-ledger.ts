@@ -0,0 +1,233 @@
+import { db, type DbExecutor } from "../db";
+import { orders, payments, refunds, scheduledPayments, type Payment } from "@shared/schema";
+import { calculateOrderLedger, type OrderLedger } from "@shared/payment-ledger";
+import { eq, and, inArray, asc } from "drizzle-orm";
+import { logOrderAction } from "./order-log";
+import { HttpError } from "../utils/http-error";
+
+export interface RecordPaymentInput {
+  amount: number;
+  provider?: string;
+  paymentMethod?: string | null;
+  // External payment ID, used to avoid recording the same payment twice
+  paymentId?: string | null;
+  currency?: string;
+  // Tip paid on top of the amount, which doesn't count towards the order
+  tipAmount?: number;
+  status?: string;
+  notes?: string | null;
+  // When the payment was made, if not now
+  paidAt?: Date;
+  // Instalment this payment is for, if known
+  scheduledPaymentId?: number;
+}
+
+/**
+ * Add the ledger figures to an order row from a raw SQL query, using the
+ * same snake_case naming as the row's own columns
+ */
+export function withLedger<T extends object>(row: T, ledger: OrderLedger | null | undefined) {
+  return {
+    ...row,
+    amount_paid: ledger?.amountPaid ?? 0,
+    balance: ledger?.balance ?? 0,
+    payment_state: ledger?.state ?? "unpaid",
+    overdue_amount: ledger?.overdueAmount ?? 0,
+  };
+}
+
+/**
+ * Service for working out what has been paid on orders and keeping their
+ * scheduled payments in step with the payments taken
+ */
+export class PaymentLedgerService {
+  /**
+   * Get the payment ledger for an order
+   */
+  async getLedger(orderId: number, executor: DbExecutor = db): Promise<OrderLedger | null> {
+    const ledgers = await this.getLedgers([orderId], executor);
+    return ledgers.get(orderId) || null;
+  }
+
+  /**
+   * Get the payment ledgers for several orders, keyed by order ID
+   */
+  async getLedgers(orderIds: number[], executor: DbExecutor = db): Promise<Map<number, OrderLedger>> {
+    const ledgers = new Map<number, OrderLedger>();
+
+    if (orderIds.length === 0) {
+      return ledgers;
+    }
+
+    const orderRows = await executor
+      .select({ id: orders.id, total: orders.total })
+      .from(orders)
+      .where(inArray(orders.id, orderIds));
+
+    const paymentRows = await executor
+      .select({ orderId: payments.orderId, amount: payments.amount, status: payments.status })
+      .from(payments)
+      .where(inArray(payments.orderId, orderIds));
+
+    const instalmentRows = await executor
+      .select()
+      .from(scheduledPayments)
+      .where(inArray(scheduledPayments.orderId, orderIds))
+      .orderBy(asc(scheduledPayments.dueDate));
+
+    const refundRows = await executor
+      .select({ orderId: refunds.orderId, amount: refunds.amount, status: refunds.status })
+      .from(refunds)
+      .where(inArray(refunds.orderId, orderIds));
+
+    for (const order of orderRows) {
+      ledgers.set(
+        order.id,
+        calculateOrderLedger(
+          order.total,
+          paymentRows.filter((payment) => payment.orderId === order.id),
+          instalmentRows.filter((instalment) => instalment.orderId === order.id),
+          refundRows.filter((refund) => refund.orderId === order.id)
+        )
+      );
+    }
+
+    return ledgers;
+  }
+
+  /**
+   * Record a payment against an order, mark the scheduled payments it covers
+   * as paid and log it. A payment with an external ID that has already been
+   * recorded, even by another request at the same time, is returned as-is
+   * with `created` false.
+   */
+  async recordPayment(
+    orderId: number,
+    userId: number,
+    input: RecordPaymentInput,
+    executor: DbExecutor = db
+  ): Promise<{ payment: Payment; ledger: OrderLedger; created: boolean }> {
+    return await executor.transaction(async (tx) => {
+      const [order] = await tx.select().from(orders).where(eq(orders.id, orderId));
+
+      if (!order) {
+        throw new HttpError(404, "Order not found");
+      }
+
+      const provider = input.provider || "manual";
+
+      const [payment] = await tx
+        .insert(payments)
+        .values({
+          orderId,
+          userId: order.userId,
+          amount: input.amount.toFixed(2),
+          currency: input.currency || "USD",
+          provider,
+          paymentId: input.paymentId || null,
+          status: input.status || "completed",
+          paymentMethod: input.paymentMethod || null,
+          tipAmount: (input.tipAmount || 0).toFixed(2),
+          notes: input.notes || null,
+          ...(input.paidAt && { createdAt: input.paidAt }),
+        })
+        .onConflictDoNothing({ target: [payments.provider, payments.paymentId] })
+        .returning();
+
+      if (!payment) {
+        const [existing] = await tx
+          .select()
+          .from(payments)
+          .where(and(eq(payments.provider, provider), eq(payments.paymentId, input.paymentId!)));
+
+        return { payment: existing, ledger: (await this.getLedger(orderId, tx))!, created: false };
+      }
+
+      if (input.scheduledPaymentId) {
+        await tx
+          .update(scheduledPayments)
+          .set({ status: "Paid" })
+          .where(and(eq(scheduledPayments.id, input.scheduledPaymentId), eq(scheduledPayments.orderId, orderId)));
+      }
+
+      const ledger = (await this.reconcileScheduledPayments(orderId, tx))!;
+
+      await logOrderAction(
+        orderId,
+        "Payment Added",
+        `${input.amount.toFixed(2)} by ${input.paymentMethod || input.provider || "manual"}` +
+          (input.tipAmount ? ` plus ${input.tipAmount.toFixed(2)} tip` : "") +
+          ` (balance ${ledger.balance.toFixed(2)})`,
+        userId,
+        tx
+      );
+
+      return { payment, ledger, created: true };
+    });
+  }
+
+  /**
+   * Change the status of a recorded payment, e.g. when a provider reports it
+   * has failed or been refunded, and log the change against the order
+   */
+  async updatePaymentStatus(
+    payment: Payment,
+    status: string,
+    reason: string,
+    executor: DbExecutor = db
+  ): Promise<OrderLedger | null> {
+    if (payment.status === status) {
+      return await this.getLedger(payment.orderId, executor);
+    }
+
+    await executor
+      .update(payments)
+      .set({ status, updatedAt: new Date() })
+      .where(eq(payments.id, payment.id));
+
+    const ledger = await this.reconcileScheduledPayments(payment.orderId, executor);
+
+    await logOrderAction(
+      payment.orderId,
+      "Payment Updated",
+      `${payment.provider} payment of ${payment.amount} ${payment.status} → ${status}: ${reason}` +
+        (ledger ? ` (balance ${ledger.balance.toFixed(2)})` : ""),
+      payment.userId,
+      executor
+    );
+
+    return ledger;
+  }
+
+  /**
+   * Mark scheduled payments that have been covered by payments as paid
+   */
+  async reconcileScheduledPayments(orderId: number, executor: DbExecutor = db): Promise<OrderLedger | null> {
+    const ledger = await this.getLedger(orderId, executor);
+
+    if (!ledger) {
+      return null;
+    }
+
+    const instalmentRows = await executor
+      .select({ id: scheduledPayments.id, status: scheduledPayments.status })
+      .from(scheduledPayments)
+      .where(eq(scheduledPayments.orderId, orderId));
+
+    const newlyPaid = ledger.instalments
+      .filter((instalment) => instalment.isPaid)
+      .map((instalment) => instalment.id)
+      .filter((id) => instalmentRows.find((row) => row.id === id)?.status !== "Paid");
+
+    if (newlyPaid.length > 0) {
+      await executor
+        .update(scheduledPayments)
+        .set({ status: "Paid" })
+        .where(inArray(scheduledPayments.id, newlyPaid));
+    }
+
+    return ledger;
+  }
+}
+
+export const paymentLedgerService = new PaymentLedgerService();
@@ -0,0 +1,198 @@
+import { db, type DbExecutor } from "../db";
+import { orders, scheduledPayments, paymentPlanPresets, type Order, type PaymentPlanPreset } from "@shared/schema";
+import {
+  generatePaymentPlan,
+  describePaymentPlan,
+  paymentPlanSchema,
+  type PaymentPlan,
+} from "@shared/payment-plan";
+import { eq, and, asc } from "drizzle-orm";
+import { paymentLedgerService } from "./payment-ledger";
+import { logOrderAction } from "./order-log";
+import { HttpError } from "../utils/http-error";
+
+/**
+ * Service for generating an order's scheduled payments from a payment plan
+ * and keeping them in step with the order total
+ */
+export class PaymentPlanService {
+  /**
+   * Apply a payment plan to an order, replacing its scheduled payments
+   */
+  async applyPlan(orderId: number, userId: number, plan: PaymentPlan) {
+    return await db.transaction(async (tx) => {
+      const order = await this.requireOrder(orderId, userId, tx);
+
+      // Fix the start date so regenerating the plan later gives the same dates
+      const savedPlan: PaymentPlan = { ...plan, startDate: plan.startDate || new Date().toISOString().split("T")[0] };
+
+      await tx
+        .update(orders)
+        .set({ paymentPlan: savedPlan, updatedAt: new Date() })
+        .where(eq(orders.id, orderId));
+
+      await this.replaceInstalments({ ...order, paymentPlan: savedPlan }, tx);
+      const ledger = await paymentLedgerService.reconcileScheduledPayments(orderId, tx);
+
+      await logOrderAction(orderId, "Payment Plan Applied", describePaymentPlan(savedPlan), userId, tx);
+
+      return { plan: savedPlan, ledger };
+    });
+  }
+
+  /**
+   * Stop regenerating an order's scheduled payments from its plan. The
+   * scheduled payments already created are kept.
+   */
+  async removePlan(orderId: number, userId: number): Promise<void> {
+    await this.requireOrder(orderId, userId);
+
+    await db
+      .update(orders)
+      .set({ paymentPlan: null, updatedAt: new Date() })
+      .where(eq(orders.id, orderId));
+
+    await logOrderAction(orderId, "Payment Plan Removed", null, userId);
+  }
+
+  /**
+   * Regenerate an order's scheduled payments from its plan if the order
+   * total or event date has changed since they were generated. Orders without
+   * a plan are left alone. Returns true if the scheduled payments changed.
+   */
+  async syncPlan(orderId: number, executor: DbExecutor = db): Promise<boolean> {
+    const [order] = await executor.select().from(orders).where(eq(orders.id, orderId));
+
+    if (!order?.paymentPlan) {
+      return false;
+    }
+
+    const changed = await this.replaceInstalments(order, executor);
+
+    if (changed) {
+      await paymentLedgerService.reconcileScheduledPayments(orderId, executor);
+      await logOrderAction(orderId, "Payment Plan Updated", `Scheduled payments regenerated for a total of ${order.total}`, order.userId, executor);
+    }
+
+    return changed !== null;
+  }
+
+  /**
+   * Get the payment plan presets saved in settings
+   */
+  async getPresets(userId: number): Promise<PaymentPlanPreset[]> {
+    return await db
+      .select()
+      .from(paymentPlanPresets)
+      .where(eq(paymentPlanPresets.userId, userId))
+      .orderBy(asc(paymentPlanPresets.name));
+  }
+
+  /**
+   * Save a payment plan as a named preset. Presets don't keep a start date,
+   * as that is set when the plan is applied to an order.
+   */
+  async createPreset(userId: number, name: string, plan: PaymentPlan): Promise<PaymentPlanPreset> {
+    const { startDate, ...presetPlan } = plan;
+
+    const [preset] = await db
+      .insert(paymentPlanPresets)
+      .values({ userId, name, plan: presetPlan })
+      .returning();
+
+    return preset;
+  }
+
+  /**
+   * Delete a payment plan preset
+   */
+  async deletePreset(userId: number, presetId: number): Promise<void> {
+    const [deleted] = await db
+      .delete(paymentPlanPresets)
+      .where(and(eq(paymentPlanPresets.id, presetId), eq(paymentPlanPresets.userId, userId)))
+      .returning();
+
+    if (!deleted) {
+      throw new HttpError(404, "Payment plan preset not found");
+    }
+  }
+
+  /**
+   * Get the plan saved in a preset
+   */
+  async getPresetPlan(userId: number, presetId: number): Promise<PaymentPlan> {
+    const [preset] = await db
+      .select()
+      .from(paymentPlanPresets)
+      .where(and(eq(paymentPlanPresets.id, presetId), eq(paymentPlanPresets.userId, userId)));
+
+    if (!preset) {
+      throw new HttpError(404, "Payment plan preset not found");
+    }
+
+    return paymentPlanSchema.parse(preset.plan);
+  }
+
+  /**
+   * Replace an order's scheduled payments with those generated from its
+   * plan, unless they already match. Payments already taken are applied to
+   * the new instalments when the ledger is reconciled afterwards. Returns the
+   * new instalments, or null if nothing changed.
+   */
+  private async replaceInstalments(order: Order, executor: DbExecutor) {
+    const planned = generatePaymentPlan(order.total, order.eventDate, paymentPlanSchema.parse(order.paymentPlan));
+
+    const existing = await executor
+      .select()
+      .from(scheduledPayments)
+      .where(eq(scheduledPayments.orderId, order.id))
+      .orderBy(asc(scheduledPayments.dueDate), asc(scheduledPayments.id));
+
+    const unchanged =
+      existing.length === planned.length &&
+      planned.every(
+        (instalment, index) =>
+          parseFloat(existing[index].amount) === instalment.amount &&
+          existing[index].dueDate === instalment.dueDate &&
+          existing[index].description === instalment.description
+      );
+
+    if (unchanged) {
+      return null;
+    }
+
+    await executor.delete(scheduledPayments).where(eq(scheduledPayments.orderId, order.id));
+
+    if (planned.length === 0) {
+      return [];
+    }
+
+    return await executor
+      .insert(scheduledPayments)
+      .values(
+        planned.map((instalment) => ({
+          orderId: order.id,
+          amount: instalment.amount.toFixed(2),
+          dueDate: instalment.dueDate,
+          description: instalment.description,
+          status: "Pending",
+        }))
+      )
+      .returning();
+  }
+
+  private async requireOrder(orderId: number, userId: number, executor: DbExecutor = db): Promise<Order> {
+    const [order] = await executor
+      .select()
+      .from(orders)
+      .where(and(eq(orders.id, orderId), eq(orders.userId, userId)));
+
+    if (!order) {
+      throw new HttpError(404, "Order not found");
+    }
+
+    return order;
+  }
+}
+
+export const paymentPlanService = new PaymentPlanService();
@@ -0,0 +1,43 @@
+import cron from 'node-cron';
+import { paymentReminderService } from './payment-reminders';
+
+let scheduledTask: ReturnType<typeof cron.schedule> | null = null;
+
+/**
+ * Send the payment reminders that are due
+ */
+async function runPaymentRemindersJob() {
+  try {
+    console.log('Running payment reminders job');
+    const count = await paymentReminderService.processDue();
+    console.log(`Sent ${count} payment reminders`);
+  } catch (error) {
+    console.error('Error in payment reminders job:', error);
+  }
+}
+
+/**
+ * Start the payment reminders job. It runs once at startup to catch up on
+ * reminders that came due while the server was down, then every hour.
+ */
+export function startPaymentReminderScheduler() {
+  console.log('Starting payment reminder scheduler...');
+
+  try {
+    scheduledTask = cron.schedule('0 * * * *', runPaymentRemindersJob);
+    runPaymentRemindersJob();
+  } catch (error) {
+    console.error('Error starting payment reminder scheduler:', error);
+    scheduledTask = null;
+  }
+}
+
+/**
+ * Stop the payment reminders job
+ */
+export function stopPaymentReminderScheduler() {
+  if (scheduledTask) {
+    scheduledTask.stop();
+    scheduledTask = null;
+  }
+}
@@ -0,0 +1,259 @@
+import { db, type DbExecutor } from "../db";
+import {
+  contacts,
+  orders,
+  reminderHistory,
+  reminderSchedules,
+  reminderTemplates,
+  settings,
+  type ReminderHistory,
+  type ReminderSchedule,
+} from "@shared/schema";
+import { eq, and, lte } from "drizzle-orm";
+import { addDays } from "date-fns";
+import { logOrderAction } from "./order-log";
+import { emailService } from "./email";
+import { emailTemplateService } from "./email-templates";
+import { paymentLedgerService } from "./payment-ledger";
+import { HttpError } from "../utils/http-error";
+
+// A reminder that could not be sent is tried again after this
+const RETRY_DELAY_MS = 60 * 60 * 1000;
+
+// Sender for users who haven't set a business email
+const FALLBACK_FROM_ADDRESS = "noreply@bakegenie.com";
+
+type ScheduleTiming = Pick<ReminderSchedule, "daysBefore" | "isOverdue" | "repeatDays" | "lastSent">;
+
+/**
+ * When a reminder should next be sent for a payment due date. A reminder
+ * before the due date is sent once; an overdue reminder is sent the day
+ * after the due date, then every `repeatDays` days. A time already passed
+ * is sent on the next run, and null means there is nothing more to send.
+ */
+export function getNextSend(schedule: ScheduleTiming, dueDate: string | null, now = new Date()): Date | null {
+  if (!dueDate) {
+    return null;
+  }
+
+  const due = new Date(`${dueDate}T00:00:00`);
+  let next: Date;
+
+  if (schedule.isOverdue) {
+    const first = addDays(due, 1);
+    if (!schedule.lastSent || schedule.lastSent < first) {
+      next = first;
+    } else if (schedule.repeatDays) {
+      next = addDays(schedule.lastSent, schedule.repeatDays);
+    } else {
+      return null;
+    }
+  } else {
+    // Nothing to remind about once the due date is over
+    if (schedule.daysBefore === null || addDays(due, 1) <= now) {
+      return null;
+    }
+
+    next = addDays(due, -schedule.daysBefore);
+    if (schedule.lastSent && schedule.lastSent >= next) {
+      return null;
+    }
+  }
+
+  return next < now ? now : next;
+}
+
+/**
+ * Service for sending the payment reminders scheduled on orders. Due
+ * reminders are sent to the customer from the schedule's template or custom
+ * message, recorded in the reminder history, and rescheduled. Reminders stop
+ * once the order is paid.
+ */
+export class PaymentReminderService {
+  /**
+   * Send every reminder whose next send time has come. Returns how many were sent.
+   */
+  async processDue(now = new Date()): Promise<number> {
+    const due = await db
+      .select()
+      .from(reminderSchedules)
+      .where(and(eq(reminderSchedules.isEnabled, true), lte(reminderSchedules.nextSend, now)));
+
+    let sent = 0;
+
+    for (const schedule of due) {
+      try {
+        if (await this.processSchedule(schedule, now)) {
+          sent++;
+        }
+      } catch (error) {
+        console.error(`Error sending payment reminder ${schedule.id}:`, error);
+      }
+    }
+
+    return sent;
+  }
+
+  /**
+   * Work out when an order's enabled reminders are next due after its due
+   * date has changed, counting from what was already sent
+   */
+  async rescheduleOrder(orderId: number, executor: DbExecutor = db): Promise<void> {
+    const [order] = await executor.select({ dueDate: orders.dueDate }).from(orders).where(eq(orders.id, orderId));
+    if (!order) {
+      return;
+    }
+
+    const schedules = await executor
+      .select()
+      .from(reminderSchedules)
+      .where(and(eq(reminderSchedules.orderId, orderId), eq(reminderSchedules.isEnabled, true)));
+
+    for (const schedule of schedules) {
+      await executor
+        .update(reminderSchedules)
+        .set({ nextSend: getNextSend(schedule, order.dueDate), updatedAt: new Date() })
+        .where(eq(reminderSchedules.id, schedule.id));
+    }
+  }
+
+  /**
+   * Send a reminder straight away, whenever it is next due
+   */
+  async sendNow(scheduleId: number, userId: number): Promise<ReminderHistory> {
+    return await this.deliver(scheduleId, userId, new Date());
+  }
+
+  /**
+   * Claim a due reminder and send it, unless the order no longer needs one.
+   * Claiming moves the next send time on first, so another run doesn't send
+   * it too, and a reminder that fails is tried again later.
+   */
+  private async processSchedule(schedule: ReminderSchedule, now: Date): Promise<boolean> {
+    const [claimed] = await db
+      .update(reminderSchedules)
+      .set({ nextSend: new Date(now.getTime() + RETRY_DELAY_MS), updatedAt: now })
+      .where(and(eq(reminderSchedules.id, schedule.id), eq(reminderSchedules.nextSend, schedule.nextSend!)))
+      .returning();
+
+    if (!claimed) {
+      return false;
+    }
+
+    const [order] = await db.select().from(orders).where(eq(orders.id, schedule.orderId));
+    const ledger = order ? await paymentLedgerService.getLedger(order.id) : null;
+
+    if (!order || order.status === "Cancelled" || !ledger || ledger.balance <= 0) {
+      await this.stop(schedule, "Payment reminders stopped as nothing is left to pay");
+      return false;
+    }
+
+    try {
+      await this.deliver(schedule.id, schedule.userId, now);
+      return true;
+    } catch (error: any) {
+      // A missing email or message needs the user to fix it, so waiting won't help
+      if (error.status === 400) {
+        await this.stop(schedule, `Payment reminder not sent: ${error.message}`);
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Fill in and send a reminder, record it in the history and work out when
+   * the next one is due
+   */
+  private async deliver(scheduleId: number, userId: number, now: Date): Promise<ReminderHistory> {
+    const [reminder] = await db
+      .select({
+        schedule: reminderSchedules,
+        order: orders,
+        template: reminderTemplates,
+        contact: contacts,
+      })
+      .from(reminderSchedules)
+      .innerJoin(orders, eq(reminderSchedules.orderId, orders.id))
+      .leftJoin(reminderTemplates, eq(reminderSchedules.templateId, reminderTemplates.id))
+      .innerJoin(contacts, eq(orders.contactId, contacts.id))
+      .where(and(eq(reminderSchedules.id, scheduleId), eq(reminderSchedules.userId, userId)));
+
+    if (!reminder) {
+      throw new HttpError(404, "Reminder schedule not found");
+    }
+
+    const { schedule, order, template, contact } = reminder;
+
+    if (!contact.email) {
+      throw new HttpError(400, "Customer doesn't have an email");
+    }
+
+    const subject = schedule.customSubject || template?.subject;
+    const body = schedule.customBody || template?.body;
+
+    if (!subject || !body) {
+      throw new HttpError(400, "Missing subject or body. Either set custom message or use a template");
+    }
+
+    // Fill in the order, payment and business details
+    const email = await emailTemplateService.renderEmail(userId, { subject, body }, { type: "order", orderId: order.id });
+    const [userSettings] = await db.select().from(settings).where(eq(settings.userId, userId));
+
+    const sent = await emailService.sendEmail({
+      to: contact.email,
+      from: userSettings?.businessEmail || FALLBACK_FROM_ADDRESS,
+      fromName: userSettings?.businessName || undefined,
+      userId,
+      orderId: order.id,
+      contactId: contact.id,
+      category: "payment_reminder",
+      subject: email.subject,
+      text: email.text,
+      html: email.html,
+    });
+
+    const [record] = await db
+      .insert(reminderHistory)
+      .values({
+        scheduleId,
+        orderId: order.id,
+        sentTo: contact.email,
+        subject: email.subject,
+        body: email.text,
+        status: sent ? "sent" : "failed",
+      })
+      .returning();
+
+    if (!sent) {
+      throw new HttpError(500, "Failed to send email");
+    }
+
+    await db
+      .update(reminderSchedules)
+      .set({
+        lastSent: now,
+        nextSend: getNextSend({ ...schedule, lastSent: now }, order.dueDate, now),
+        updatedAt: now,
+      })
+      .where(eq(reminderSchedules.id, scheduleId));
+
+    await logOrderAction(order.id, "Reminder Sent", `Payment reminder sent to ${contact.email}`, userId);
+
+    return record;
+  }
+
+  /**
+   * Turn a reminder off, noting why on the order
+   */
+  private async stop(schedule: ReminderSchedule, reason: string): Promise<void> {
+    await db
+      .update(reminderSchedules)
+      .set({ isEnabled: false, nextSend: null, updatedAt: new Date() })
+      .where(eq(reminderSchedules.id, schedule.id));
+
+    await logOrderAction(schedule.orderId, "Reminder Stopped", reason, schedule.userId);
+  }
+}
+
+export const paymentReminderService = new PaymentReminderService();
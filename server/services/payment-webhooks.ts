@@ -0,0 +1,357 @@
+import type Stripe from "stripe";
+import { db, type DbExecutor } from "../db";
+import { orders, payments, webhookEvents, type Payment } from "@shared/schema";
+import { eq } from "drizzle-orm";
+import { paymentLedgerService } from "./payment-ledger";
+import { splitTip } from "../integrations/stripe";
+import { refundService, type ProviderRefundInput } from "./refunds";
+
+export type WebhookProvider = "stripe" | "square";
+
+/**
+ * The parts of a Square webhook notification used here
+ */
+export interface SquareWebhookEvent {
+  event_id: string;
+  type: string;
+  merchant_id?: string;
+  created_at?: string;
+  data?: {
+    type?: string;
+    id?: string;
+    object?: Record<string, any>;
+  };
+}
+
+export interface WebhookResult {
+  // The event had already been received, so nothing was done
+  duplicate: boolean;
+  status: "processed" | "ignored";
+  message: string;
+}
+
+interface EventOutcome {
+  paymentId: string | null;
+  processed: boolean;
+  message: string;
+}
+
+// A payment only becomes completed from these statuses, so a late or
+// replayed success event can't undo a refund or dispute
+const completableStatuses = ["pending", "failed", "cancelled"];
+
+const processed = (paymentId: string, message: string): EventOutcome => ({ paymentId, processed: true, message });
+const ignored = (paymentId: string | null, message: string): EventOutcome => ({ paymentId, processed: false, message });
+
+/**
+ * Service for applying Stripe and Square webhook events to recorded
+ * payments. Each event is stored when it arrives, so an event delivered more
+ * than once is only applied the first time. Payment statuses set here:
+ * completed, failed, cancelled, disputed and dispute_lost. Refunds are
+ * recorded through the refund service, which sets the refunded statuses.
+ */
+export class PaymentWebhookService {
+  /**
+   * Apply a Stripe event that has already had its signature checked
+   */
+  async handleStripeEvent(event: Stripe.Event): Promise<WebhookResult> {
+    return await this.receive("stripe", event.id, event.type, event, (tx) => this.applyStripeEvent(event, tx));
+  }
+
+  /**
+   * Apply a Square event that has already had its signature checked
+   */
+  async handleSquareEvent(event: SquareWebhookEvent): Promise<WebhookResult> {
+    return await this.receive("square", event.event_id, event.type, event, (tx) => this.applySquareEvent(event, tx));
+  }
+
+  /**
+   * Store an event and apply it, unless it has been received before. Both
+   * happen in one transaction, so an event that fails part way can be
+   * delivered again by the provider.
+   */
+  private async receive(
+    provider: WebhookProvider,
+    eventId: string,
+    eventType: string,
+    payload: unknown,
+    apply: (tx: DbExecutor) => Promise<EventOutcome>
+  ): Promise<WebhookResult> {
+    return await db.transaction(async (tx) => {
+      const [event] = await tx
+        .insert(webhookEvents)
+        .values({ provider, eventId, eventType, payload })
+        .onConflictDoNothing()
+        .returning();
+
+      if (!event) {
+        return { duplicate: true, status: "ignored", message: "Event has already been received" };
+      }
+
+      const outcome = await apply(tx);
+      const status = outcome.processed ? "processed" : "ignored";
+
+      await tx
+        .update(webhookEvents)
+        .set({ status, paymentId: outcome.paymentId, processedAt: new Date() })
+        .where(eq(webhookEvents.id, event.id));
+
+      return { duplicate: false, status, message: outcome.message };
+    });
+  }
+
+  private async applyStripeEvent(event: Stripe.Event, tx: DbExecutor): Promise<EventOutcome> {
+    switch (event.type) {
+      case "payment_intent.succeeded": {
+        const intent = event.data.object;
+        const payment = await this.findPayment(intent.id, tx);
+
+        if (payment) {
+          return await this.completePayment(payment, "Stripe payment succeeded", tx);
+        }
+
+        // Payments started outside the app, or whose confirmation never
+        // reached us, are recorded against the order in their metadata
+        const orderId = parseInt(intent.metadata?.orderId || "");
+        if (isNaN(orderId)) {
+          return ignored(intent.id, "Payment is not linked to an order");
+        }
+
+        const [order] = await tx.select({ userId: orders.userId }).from(orders).where(eq(orders.id, orderId));
+        if (!order) {
+          return ignored(intent.id, `Order ${orderId} not found`);
+        }
+
+        const scheduledPaymentId = parseInt(intent.metadata?.scheduledPaymentId || "");
+        const { amount, tipAmount } = splitTip(intent, intent.amount_received);
+
+        await paymentLedgerService.recordPayment(
+          orderId,
+          order.userId,
+          {
+            amount,
+            tipAmount,
+            currency: intent.currency.toUpperCase(),
+            provider: "stripe",
+            paymentMethod: "card",
+            paymentId: intent.id,
+            notes: "Recorded from a Stripe webhook",
+            scheduledPaymentId: isNaN(scheduledPaymentId) ? undefined : scheduledPaymentId,
+          },
+          tx
+        );
+
+        return processed(intent.id, "Payment recorded");
+      }
+
+      case "payment_intent.payment_failed":
+      case "payment_intent.canceled": {
+        const intent = event.data.object;
+        const status = event.type === "payment_intent.canceled" ? "cancelled" : "failed";
+        const reason = intent.last_payment_error?.message || `Stripe payment ${status}`;
+        return await this.setStatus(intent.id, status, reason, tx);
+      }
+
+      case "refund.created":
+      case "refund.updated":
+      case "refund.failed":
+      case "charge.refund.updated": {
+        const refund = event.data.object;
+        const intentId = this.stripeIntentId(refund.payment_intent);
+        if (!intentId) {
+          return ignored(null, "Refund is not linked to a payment");
+        }
+
+        const statuses: Record<string, ProviderRefundInput["status"]> = {
+          pending: "pending",
+          requires_action: "pending",
+          succeeded: "completed",
+          failed: "failed",
+          canceled: "failed",
+        };
+
+        return await this.applyRefund(
+          intentId,
+          {
+            providerRefundId: refund.id,
+            amount: refund.amount / 100,
+            status: statuses[refund.status || "pending"] || "pending",
+            reason: refund.metadata?.reason || refund.reason,
+          },
+          tx
+        );
+      }
+
+      case "charge.dispute.created":
+      case "charge.dispute.closed": {
+        const dispute = event.data.object;
+        const intentId = this.stripeIntentId(dispute.payment_intent);
+        if (!intentId) {
+          return ignored(null, "Dispute is not linked to a payment");
+        }
+
+        if (event.type === "charge.dispute.created") {
+          return await this.setStatus(intentId, "disputed", `Customer disputed the payment (${dispute.reason})`, tx);
+        }
+
+        if (dispute.status === "won") {
+          return await this.setStatus(intentId, "completed", "Dispute won", tx);
+        }
+
+        if (dispute.status === "lost") {
+          return await this.setStatus(intentId, "dispute_lost", "Dispute lost", tx);
+        }
+
+        return ignored(intentId, `Dispute closed as ${dispute.status}`);
+      }
+
+      default:
+        return ignored(null, `Unhandled event type ${event.type}`);
+    }
+  }
+
+  private async applySquareEvent(event: SquareWebhookEvent, tx: DbExecutor): Promise<EventOutcome> {
+    const object = event.data?.object || {};
+
+    switch (event.type) {
+      case "payment.created":
+      case "payment.updated": {
+        const payment = object.payment;
+        if (!payment?.id) {
+          return ignored(null, "Event has no payment");
+        }
+
+        // Square updates the payment when it is refunded, but the refund
+        // itself comes through the refund events
+        if (Number(payment.refunded_money?.amount || 0) > 0) {
+          return ignored(payment.id, "Refunds are applied from refund events");
+        }
+
+        const statuses: Record<string, string> = {
+          COMPLETED: "completed",
+          FAILED: "failed",
+          CANCELED: "cancelled",
+        };
+        const status = statuses[payment.status];
+        if (!status) {
+          return ignored(payment.id, `Payment is ${payment.status}`);
+        }
+
+        const reason = `Square payment ${payment.status.toLowerCase()}`;
+        if (status === "completed") {
+          const recorded = await this.findPayment(payment.id, tx);
+          return recorded ? await this.completePayment(recorded, reason, tx) : ignored(payment.id, "Payment not found");
+        }
+
+        return await this.setStatus(payment.id, status, reason, tx);
+      }
+
+      case "refund.created":
+      case "refund.updated": {
+        const refund = object.refund;
+        if (!refund?.payment_id) {
+          return ignored(null, "Event has no refund");
+        }
+
+        const statuses: Record<string, ProviderRefundInput["status"]> = {
+          PENDING: "pending",
+          COMPLETED: "completed",
+          REJECTED: "failed",
+          FAILED: "failed",
+        };
+        const status = statuses[refund.status];
+        if (!status) {
+          return ignored(refund.payment_id, `Refund is ${refund.status}`);
+        }
+
+        return await this.applyRefund(
+          refund.payment_id,
+          {
+            providerRefundId: refund.id,
+            amount: Number(refund.amount_money?.amount || 0) / 100,
+            status,
+            reason: refund.reason,
+          },
+          tx
+        );
+      }
+
+      case "dispute.created":
+      case "dispute.state.updated":
+      case "dispute.state.changed": {
+        const dispute = object.dispute;
+        const paymentId = dispute?.disputed_payment?.payment_id;
+        if (!paymentId) {
+          return ignored(null, "Dispute is not linked to a payment");
+        }
+
+        if (dispute.state === "WON") {
+          return await this.setStatus(paymentId, "completed", "Dispute won", tx);
+        }
+
+        if (dispute.state === "LOST" || dispute.state === "ACCEPTED") {
+          return await this.setStatus(paymentId, "dispute_lost", `Dispute ${dispute.state.toLowerCase()}`, tx);
+        }
+
+        return await this.setStatus(paymentId, "disputed", `Customer disputed the payment (${dispute.reason || dispute.state})`, tx);
+      }
+
+      default:
+        return ignored(null, `Unhandled event type ${event.type}`);
+    }
+  }
+
+  /**
+   * Record a refund made with the provider, including refunds made from the
+   * provider's dashboard rather than the app
+   */
+  private async applyRefund(paymentId: string, input: ProviderRefundInput, tx: DbExecutor): Promise<EventOutcome> {
+    const payment = await this.findPayment(paymentId, tx);
+    if (!payment) {
+      return ignored(paymentId, "Payment not found");
+    }
+
+    const refund = await refundService.recordProviderRefund(payment, input, tx);
+    if (!refund) {
+      return ignored(paymentId, "Refund failed before it was recorded");
+    }
+
+    return processed(paymentId, `Refund ${refund.creditNoteNumber} is ${refund.status}`);
+  }
+
+  private async setStatus(paymentId: string, status: string, reason: string, tx: DbExecutor): Promise<EventOutcome> {
+    const payment = await this.findPayment(paymentId, tx);
+    if (!payment) {
+      return ignored(paymentId, "Payment not found");
+    }
+
+    await paymentLedgerService.updatePaymentStatus(payment, status, reason, tx);
+    return processed(paymentId, `Payment marked as ${status}`);
+  }
+
+  /**
+   * Mark a payment as completed when the provider reports it succeeded,
+   * unless it has moved on since, e.g. been refunded
+   */
+  private async completePayment(payment: Payment, reason: string, tx: DbExecutor): Promise<EventOutcome> {
+    const paymentId = payment.paymentId!;
+
+    if (!completableStatuses.includes(payment.status)) {
+      return ignored(paymentId, `Payment is already ${payment.status}`);
+    }
+
+    await paymentLedgerService.updatePaymentStatus(payment, "completed", reason, tx);
+    return processed(paymentId, "Payment marked as completed");
+  }
+
+  private async findPayment(paymentId: string, executor: DbExecutor): Promise<Payment | undefined> {
+    const [payment] = await executor.select().from(payments).where(eq(payments.paymentId, paymentId));
+    return payment;
+  }
+
+  private stripeIntentId(intent: string | Stripe.PaymentIntent | null): string | null {
+    return typeof intent === "string" ? intent : intent?.id || null;
+  }
+}
+
+export const paymentWebhookService = new PaymentWebhookService();
@@ -0,0 +1,116 @@
+import { db, type DbExecutor } from "../db";
+import { orders, orderItems, quotes, quoteItems, settings, type Order, type OrderItem } from "@shared/schema";
+import { calculateOrderPricing, roundMoney, type PricingBreakdown, type PricingLineInput } from "@shared/pricing";
+import { eq } from "drizzle-orm";
+import { paymentPlanService } from "./payment-plans";
+
+/**
+ * Normalise a line item's unit price, line total and tax rate into the
+ * decimal strings stored on order and quote items. A line without a tax rate
+ * uses the order's rate.
+ */
+export function priceLineItem(item: PricingLineInput): { unitPrice: string; price: string; taxRate: string | null } {
+  const quantity = typeof item.quantity === "number" ? item.quantity : parseFloat(item.quantity) || 0;
+  const unitPriceValue = item.unitPrice ?? item.price ?? 0;
+  const unitPrice = typeof unitPriceValue === "number" ? unitPriceValue : parseFloat(unitPriceValue) || 0;
+  const taxRate = item.taxRate === null || item.taxRate === undefined || item.taxRate === ""
+    ? null
+    : parseFloat(String(item.taxRate));
+
+  return {
+    unitPrice: roundMoney(unitPrice).toFixed(2),
+    price: roundMoney(unitPrice * quantity).toFixed(2),
+    taxRate: taxRate === null || isNaN(taxRate) ? null : taxRate.toFixed(2),
+  };
+}
+
+/**
+ * Whether a user enters prices including tax. New orders and quotes copy this
+ * so changing the setting doesn't change totals that were already given out.
+ */
+export async function getPricesIncludeTax(userId: number, executor: DbExecutor = db): Promise<boolean> {
+  const [userSettings] = await executor
+    .select({ pricesIncludeTax: settings.pricesIncludeTax })
+    .from(settings)
+    .where(eq(settings.userId, userId));
+
+  return userSettings?.pricesIncludeTax ?? false;
+}
+
+/**
+ * Work out the pricing breakdown for an order from its stored items
+ */
+export async function getOrderPricing(
+  orderId: number,
+  executor: DbExecutor = db
+): Promise<{ order: Order; items: OrderItem[]; pricing: PricingBreakdown } | null> {
+  const [order] = await executor.select().from(orders).where(eq(orders.id, orderId));
+
+  if (!order) {
+    return null;
+  }
+
+  const items = await executor.select().from(orderItems).where(eq(orderItems.orderId, orderId));
+
+  const pricing = calculateOrderPricing({
+    items,
+    discount: order.discount,
+    discountType: order.discountType,
+    setupFee: order.setupFee,
+    taxRate: order.taxRate,
+    pricesIncludeTax: order.pricesIncludeTax,
+  });
+
+  return { order, items, pricing };
+}
+
+/**
+ * Recalculate an order's stored total from its items, discount, setup fee
+ * and tax rates, regenerating its payment plan if it has one
+ */
+export async function recalculateOrderTotal(orderId: number, executor: DbExecutor = db): Promise<PricingBreakdown | null> {
+  const result = await getOrderPricing(orderId, executor);
+
+  if (!result) {
+    return null;
+  }
+
+  await executor
+    .update(orders)
+    .set({ total: result.pricing.total.toFixed(2), updatedAt: new Date() })
+    .where(eq(orders.id, orderId));
+
+  await paymentPlanService.syncPlan(orderId, executor);
+
+  return result.pricing;
+}
+
+/**
+ * Recalculate a quote's stored total from its items, discount, setup fee
+ * and tax rates
+ */
+export async function recalculateQuoteTotal(quoteId: number, executor: DbExecutor = db): Promise<PricingBreakdown | null> {
+  const [quote] = await executor.select().from(quotes).where(eq(quotes.id, quoteId));
+
+  if (!quote) {
+    return null;
+  }
+
+  const items = await executor.select().from(quoteItems).where(eq(quoteItems.quoteId, quoteId));
+
+  const pricing = calculateOrderPricing({
+    items,
+    discount: quote.discount,
+    discountType: quote.discountType,
+    setupFee: quote.setupFee,
+    taxRate: quote.taxRate,
+    pricesIncludeTax: quote.pricesIncludeTax,
+  });
+
+  await executor
+    .update(quotes)
+    .set({ total: pricing.total.toFixed(2), updatedAt: new Date() })
+    .where(eq(quotes.id, quoteId));
+
+  return pricing;
+}
@@ -0,0 +1,153 @@
+import { db } from "../db";
+import { payments, type Payment } from "@shared/schema";
+import { eq, and } from "drizzle-orm";
+import {
+  requirePaymentProvider,
+  type ChargeRequest,
+  type PaymentProvider,
+  type ProviderCharge,
+} from "../integrations/payment-providers";
+import { paymentLedgerService } from "./payment-ledger";
+import { HttpError } from "../utils/http-error";
+
+export interface RecordChargeOptions {
+  paymentMethod?: string;
+  notes?: string | null;
+  scheduledPaymentId?: number;
+}
+
+/**
+ * Service for taking payments through a payment provider and recording them
+ * against the order's ledger. Every flow that charges a customer goes
+ * through here, whichever provider it uses.
+ */
+export class ProviderPaymentService {
+  /**
+   * Charge a customer for an order. Charges the provider takes or authorizes
+   * straight away are recorded against the order; ones the client still has
+   * to finish are recorded when they're confirmed.
+   */
+  async chargeOrder(
+    providerName: string,
+    request: ChargeRequest,
+    options: RecordChargeOptions = {}
+  ): Promise<{ charge: ProviderCharge; payment: Payment | null }> {
+    const provider = requirePaymentProvider(providerName);
+    const charge = await this.callProvider(provider, "take the payment", () => provider.createCharge(request));
+
+    if (charge.status === "failed" || charge.status === "cancelled") {
+      throw new HttpError(402, "The payment was declined");
+    }
+
+    if (charge.status === "requires_confirmation" || !request.orderId) {
+      return { charge, payment: null };
+    }
+
+    const { payment } = await this.recordCharge(provider, charge, request.orderId, request.userId, options);
+    return { charge, payment };
+  }
+
+  /**
+   * Fetch a charge from its provider, e.g. once the client has finished it
+   */
+  async getCharge(providerName: string, userId: number, chargeId: string): Promise<ProviderCharge> {
+    const provider = requirePaymentProvider(providerName);
+    return await this.callProvider(provider, "fetch the payment", () => provider.getCharge(userId, chargeId));
+  }
+
+  /**
+   * Record a charge against an order. Authorized and pending charges are
+   * recorded as pending so they don't count towards the amount paid yet.
+   * A charge that has already been recorded is returned as-is, with
+   * `created` false.
+   */
+  async recordCharge(
+    provider: PaymentProvider | string,
+    charge: ProviderCharge,
+    orderId: number,
+    userId: number,
+    options: RecordChargeOptions = {}
+  ): Promise<{ payment: Payment; created: boolean }> {
+    const { payment, created } = await paymentLedgerService.recordPayment(orderId, userId, {
+      amount: charge.amount,
+      tipAmount: charge.tipAmount,
+      currency: charge.currency.toUpperCase(),
+      provider: typeof provider === "string" ? provider : provider.name,
+      paymentMethod: options.paymentMethod || "card",
+      paymentId: charge.id,
+      status: charge.status === "succeeded" ? "completed" : "pending",
+      notes: options.notes || null,
+      scheduledPaymentId: options.scheduledPaymentId,
+    });
+
+    return { payment, created };
+  }
+
+  /**
+   * Capture a payment that was only authorized, optionally for less than
+   * was authorized
+   */
+  async capturePayment(paymentId: number, userId: number, amount?: number): Promise<Payment> {
+    const [payment] = await db
+      .select()
+      .from(payments)
+      .where(and(eq(payments.id, paymentId), eq(payments.userId, userId)));
+
+    if (!payment) {
+      throw new HttpError(404, "Payment not found");
+    }
+
+    if (payment.status !== "pending" || !payment.paymentId) {
+      throw new HttpError(409, `A ${payment.status} payment cannot be captured`);
+    }
+
+    if (amount !== undefined && amount > parseFloat(payment.amount)) {
+      throw new HttpError(400, `Cannot capture more than ${payment.amount}`);
+    }
+
+    const provider = requirePaymentProvider(payment.provider);
+    const charge = await this.callProvider(provider, "capture the payment", () =>
+      provider.capture(userId, payment.paymentId!, amount)
+    );
+
+    if (charge.status !== "succeeded") {
+      throw new HttpError(502, `The payment is ${charge.status} after capturing it`);
+    }
+
+    // Capturing less than was authorized lowers the amount paid
+    if (charge.amount.toFixed(2) !== parseFloat(payment.amount).toFixed(2)) {
+      await db
+        .update(payments)
+        .set({ amount: charge.amount.toFixed(2), updatedAt: new Date() })
+        .where(eq(payments.id, payment.id));
+    }
+
+    await paymentLedgerService.updatePaymentStatus(
+      { ...payment, amount: charge.amount.toFixed(2) },
+      "completed",
+      "Captured"
+    );
+
+    const [updated] = await db.select().from(payments).where(eq(payments.id, payment.id));
+    return updated;
+  }
+
+  /**
+   * Call a provider, turning anything it throws into a 502 that says which
+   * provider turned the request down
+   */
+  private async callProvider<T>(provider: PaymentProvider, action: string, call: () => Promise<T>): Promise<T> {
+    try {
+      return await call();
+    } catch (error: any) {
+      if (error instanceof HttpError) {
+        throw error;
+      }
+
+      console.error(`Error calling ${provider.name} to ${action}:`, error);
+      throw new HttpError(502, `${provider.displayName} could not ${action}: ${error.message}`);
+    }
+  }
+}
+
+export const providerPaymentService = new ProviderPaymentService();
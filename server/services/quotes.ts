@@ -0,0 +1,158 @@
+import { db } from "../db";
+import { quotes, quoteItems, orders, orderItems, type Quote, type Order } from "@shared/schema";
+import { describeAvailability, type DateAvailability } from "@shared/availability";
+import { eq, and } from "drizzle-orm";
+import { generateOrderNumber } from "./document-numbers";
+import { logOrderAction } from "./order-log";
+import { orderStatusService } from "./order-status";
+import { availabilityService } from "./availability";
+import { HttpError } from "../utils/http-error";
+
+// Quotes in these states can no longer be accepted
+const closedQuoteStatuses = ["Accepted", "Declined", "Expired", "Cancelled"];
+
+export interface AcceptQuoteOptions {
+  // Refuse when the event date is blocked or full, rather than only
+  // returning its availability as a warning
+  requireAvailability?: boolean;
+}
+
+/**
+ * Service for working with quotes and converting them into orders
+ */
+export class QuoteService {
+  /**
+   * Accept a quote, copying it and its items into a new order that is then
+   * confirmed through the status workflow, so the confirmation email, text
+   * and payment reminder go out as for any other confirmed order. The quote
+   * and order are linked to each other and the conversion is recorded in the
+   * new order's log. The event date is checked against blocked dates and
+   * capacity like any new order.
+   */
+  async acceptQuote(
+    quoteId: number,
+    userId: number,
+    options: AcceptQuoteOptions = {}
+  ): Promise<{ quote: Quote; order: Order; availability: DateAvailability }> {
+    const { quote, change, availability } = await db.transaction(async (tx) => {
+      const [quote] = await tx
+        .select()
+        .from(quotes)
+        .where(and(eq(quotes.id, quoteId), eq(quotes.userId, userId)));
+
+      if (!quote) {
+        throw new HttpError(404, "Quote not found");
+      }
+
+      if (closedQuoteStatuses.includes(quote.status)) {
+        throw new HttpError(409, `Quote is already ${quote.status.toLowerCase()}`);
+      }
+
+      if (quote.expiryDate && quote.expiryDate < new Date().toISOString().split("T")[0]) {
+        throw new HttpError(409, "Quote has expired");
+      }
+
+      const items = await tx.select().from(quoteItems).where(eq(quoteItems.quoteId, quoteId));
+
+      const availability = await availabilityService.checkOrder(userId, quote.eventDate, items, {}, tx);
+      if (availability.status !== "available" && options.requireAvailability) {
+        throw new HttpError(409, describeAvailability(availability));
+      }
+
+      const orderNumber = await generateOrderNumber(userId, tx);
+
+      const [order] = await tx
+        .insert(orders)
+        .values({
+          userId,
+          orderNumber,
+          contactId: quote.contactId,
+          eventType: quote.eventType,
+          eventDate: quote.eventDate,
+          status: "Quote",
+          theme: quote.theme,
+          deliveryType: quote.deliveryType,
+          deliveryDetails: quote.deliveryDetails,
+          deliveryTime: quote.deliveryTime,
+          discount: quote.discount,
+          discountType: quote.discountType,
+          setupFee: quote.setupFee,
+          taxRate: quote.taxRate,
+          pricesIncludeTax: quote.pricesIncludeTax,
+          total: quote.total,
+          notes: quote.notes,
+          imageUrls: quote.imageUrls,
+          quoteId: quote.id,
+          termsAcceptedAt: quote.termsAcceptedAt,
+        })
+        .returning();
+
+      if (items.length > 0) {
+        await tx.insert(orderItems).values(
+          items.map((item) => ({
+            orderId: order.id,
+            productId: item.productId,
+            type: item.type,
+            name: item.name,
+            description: item.description,
+            quantity: item.quantity,
+            unitPrice: item.unitPrice,
+            price: item.price,
+            taxRate: item.taxRate,
+            notes: item.notes,
+          }))
+        );
+      }
+
+      const [acceptedQuote] = await tx
+        .update(quotes)
+        .set({ status: "Accepted", orderId: order.id, updatedAt: new Date() })
+        .where(eq(quotes.id, quoteId))
+        .returning();
+
+      await logOrderAction(
+        order.id,
+        "Quote Accepted",
+        `Created from quote #${quote.quoteNumber}`,
+        userId,
+        tx
+      );
+
+      const change = await orderStatusService.applyStatusChange(order.id, userId, "Confirmed", undefined, tx);
+
+      return { quote: acceptedQuote, change, availability };
+    });
+
+    await orderStatusService.runHandlers(change);
+
+    return { quote, order: change.order, availability };
+  }
+
+  /**
+   * Decline an open quote
+   */
+  async declineQuote(quoteId: number, userId: number): Promise<Quote> {
+    const [quote] = await db
+      .select()
+      .from(quotes)
+      .where(and(eq(quotes.id, quoteId), eq(quotes.userId, userId)));
+
+    if (!quote) {
+      throw new HttpError(404, "Quote not found");
+    }
+
+    if (closedQuoteStatuses.includes(quote.status)) {
+      throw new HttpError(409, `Quote is already ${quote.status.toLowerCase()}`);
+    }
+
+    const [declinedQuote] = await db
+      .update(quotes)
+      .set({ status: "Declined", updatedAt: new Date() })
+      .where(eq(quotes.id, quoteId))
+      .returning();
+
+    return declinedQuote;
+  }
+}
+
+export const quoteService = new QuoteService();
@@ -0,0 +1,43 @@
+import cron from 'node-cron';
+import { recurringOrderService } from './recurring-orders';
+
+let scheduledTask: ReturnType<typeof cron.schedule> | null = null;
+
+/**
+ * Generate upcoming orders from recurring orders
+ */
+async function runRecurringOrdersJob() {
+  try {
+    console.log('Running recurring orders job');
+    const count = await recurringOrderService.generateAllOrders();
+    console.log(`Generated ${count} orders from recurring orders`);
+  } catch (error) {
+    console.error('Error in recurring orders job:', error);
+  }
+}
+
+/**
+ * Start the recurring order job. It runs once at startup so a restart never
+ * misses a day, then every day at 5am.
+ */
+export function startRecurringOrderScheduler() {
+  console.log('Starting recurring order scheduler...');
+
+  try {
+    scheduledTask = cron.schedule('0 5 * * *', runRecurringOrdersJob);
+    runRecurringOrdersJob();
+  } catch (error) {
+    console.error('Error starting recurring order scheduler:', error);
+    scheduledTask = null;
+  }
+}
+
+/**
+ * Stop the recurring order job
+ */
+export function stopRecurringOrderScheduler() {
+  if (scheduledTask) {
+    scheduledTask.stop();
+    scheduledTask = null;
+  }
+}
@@ -0,0 +1,312 @@
+import { db, type DbExecutor } from "../db";
+import {
+  orders,
+  orderItems,
+  recurringOrders,
+  recurringOrderItems,
+  type Order,
+  type RecurringOrder,
+  type RecurringOrderItem,
+} from "@shared/schema";
+import { calculateOrderPricing } from "@shared/pricing";
+import { describeAvailability, type DateAvailability } from "@shared/availability";
+import { eq, and, gte, inArray } from "drizzle-orm";
+import { generateOrderNumber } from "./document-numbers";
+import { logOrderAction } from "./order-log";
+import { priceLineItem } from "./pricing";
+import { availabilityService } from "./availability";
+import { orderStatusService, type OrderStatusChange } from "./order-status";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Generated orders in these states haven't been confirmed with the customer,
+// so they can still be changed when the recurring order is edited
+const unconfirmedStatuses = ["Quote", "Draft"];
+
+// A generated order with the availability of its date when it was made
+export type GeneratedOrder = Order & { availability: DateAvailability };
+
+type RecurrenceRule = Pick<
+  RecurringOrder,
+  "frequency" | "weekdays" | "dayOfMonth" | "startDate" | "endDate" | "skipDates"
+>;
+
+function toDayNumber(date: string): number {
+  return Math.floor(Date.parse(`${date}T00:00:00Z`) / DAY_MS);
+}
+
+function fromDayNumber(day: number): string {
+  return new Date(day * DAY_MS).toISOString().split("T")[0];
+}
+
+/**
+ * Today's date as YYYY-MM-DD
+ */
+function today(): string {
+  return new Date().toISOString().split("T")[0];
+}
+
+/**
+ * Work out the dates a recurring order falls on between two dates (inclusive),
+ * leaving out skip dates and anything outside the start and end dates
+ */
+export function getOccurrences(rule: RecurrenceRule, from: string, to: string): string[] {
+  const startDay = toDayNumber(rule.startDate);
+  const firstDay = Math.max(toDayNumber(from), startDay);
+  const lastDay = rule.endDate ? Math.min(toDayNumber(to), toDayNumber(rule.endDate)) : toDayNumber(to);
+  const skipDates = rule.skipDates || [];
+
+  const startDate = new Date(startDay * DAY_MS);
+  const weekdays = rule.weekdays && rule.weekdays.length > 0 ? rule.weekdays : [startDate.getUTCDay()];
+  // Day number of the Sunday in the week the recurring order starts
+  const firstWeekStart = startDay - startDate.getUTCDay();
+
+  const occurrences: string[] = [];
+
+  for (let day = firstDay; day <= lastDay; day++) {
+    const date = new Date(day * DAY_MS);
+    let matches = false;
+
+    if (rule.frequency === "monthly") {
+      const daysInMonth = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 0)).getUTCDate();
+      const dayOfMonth = Math.min(rule.dayOfMonth || startDate.getUTCDate(), daysInMonth);
+      matches = date.getUTCDate() === dayOfMonth;
+    } else {
+      const week = Math.floor((day - firstWeekStart) / 7);
+      const inWeek = rule.frequency === "fortnightly" ? week % 2 === 0 : true;
+      matches = inWeek && weekdays.includes(date.getUTCDay());
+    }
+
+    const dateString = fromDayNumber(day);
+    if (matches && !skipDates.includes(dateString)) {
+      occurrences.push(dateString);
+    }
+  }
+
+  return occurrences;
+}
+
+/**
+ * Service for standing orders that are turned into real orders ahead of time
+ */
+export class RecurringOrderService {
+  /**
+   * Create any orders that fall within the look-ahead window of a recurring
+   * order and haven't been generated yet. Orders are still made on dates
+   * that are blocked or full, with a warning in their log and the date's
+   * availability returned for the baker to act on.
+   */
+  async generateOrders(recurringOrderId: number): Promise<GeneratedOrder[]> {
+    const [recurring] = await db.select().from(recurringOrders).where(eq(recurringOrders.id, recurringOrderId));
+
+    if (!recurring || !recurring.isActive) {
+      return [];
+    }
+
+    const from = today();
+    const to = fromDayNumber(toDayNumber(from) + recurring.daysAhead);
+    const dates = getOccurrences(recurring, from, to);
+
+    if (dates.length === 0) {
+      return [];
+    }
+
+    // Dates that already have an order, including ones that were cancelled,
+    // are never generated again
+    const existing = await db
+      .select({ eventDate: orders.eventDate })
+      .from(orders)
+      .where(and(eq(orders.recurringOrderId, recurringOrderId), inArray(orders.eventDate, dates)));
+    const existingDates = existing.map((order) => order.eventDate);
+
+    const items = await db
+      .select()
+      .from(recurringOrderItems)
+      .where(eq(recurringOrderItems.recurringOrderId, recurringOrderId));
+
+    const created: GeneratedOrder[] = [];
+
+    for (const eventDate of dates.filter((date) => !existingDates.includes(date))) {
+      const order = await db.transaction(async (tx) => {
+        // Runs that overlap wait here, then find the order the other one made
+        await tx.select({ id: recurringOrders.id }).from(recurringOrders).where(eq(recurringOrders.id, recurring.id)).for("update");
+
+        const [existingOrder] = await tx
+          .select({ id: orders.id })
+          .from(orders)
+          .where(and(eq(orders.recurringOrderId, recurring.id), eq(orders.eventDate, eventDate)));
+
+        if (existingOrder) {
+          return null;
+        }
+
+        const availability = await availabilityService.checkOrder(recurring.userId, eventDate, items, {}, tx);
+
+        const orderNumber = await generateOrderNumber(recurring.userId, tx);
+
+        const [order] = await tx
+          .insert(orders)
+          .values({
+            userId: recurring.userId,
+            orderNumber,
+            eventDate,
+            status: "Quote",
+            recurringOrderId: recurring.id,
+            ...this.getOrderDetails(recurring, items),
+          })
+          .onConflictDoNothing()
+          .returning();
+
+        if (!order) {
+          return null;
+        }
+
+        await this.insertItems(order.id, items, tx);
+
+        const warning = availability.status !== "available" ? ` (${describeAvailability(availability)})` : "";
+        await logOrderAction(order.id, "Order Generated", `Created from recurring order "${recurring.name}"${warning}`, recurring.userId, tx);
+
+        return { ...order, availability };
+      });
+
+      if (order) {
+        created.push(order);
+      }
+    }
+
+    return created;
+  }
+
+  /**
+   * Generate upcoming orders for every active recurring order
+   */
+  async generateAllOrders(): Promise<number> {
+    const active = await db.select().from(recurringOrders).where(eq(recurringOrders.isActive, true));
+    let count = 0;
+
+    for (const recurring of active) {
+      try {
+        const created = await this.generateOrders(recurring.id);
+        count += created.length;
+      } catch (error) {
+        console.error(`Error generating orders for recurring order ${recurring.id}:`, error);
+      }
+    }
+
+    return count;
+  }
+
+  /**
+   * Bring future generated orders that haven't been confirmed yet into line
+   * with the recurring order. Orders whose date is no longer part of the
+   * schedule are cancelled through the status workflow; pass the returned
+   * status changes to `orderStatusService.runHandlers` once the caller's
+   * transaction has committed. The rest get the current details and items.
+   */
+  async updateFutureOrders(
+    recurringOrderId: number,
+    executor: DbExecutor = db
+  ): Promise<{ updated: number; cancelled: number; statusChanges: OrderStatusChange[] }> {
+    const [recurring] = await executor.select().from(recurringOrders).where(eq(recurringOrders.id, recurringOrderId));
+
+    if (!recurring) {
+      return { updated: 0, cancelled: 0, statusChanges: [] };
+    }
+
+    const items = await executor
+      .select()
+      .from(recurringOrderItems)
+      .where(eq(recurringOrderItems.recurringOrderId, recurringOrderId));
+
+    const futureOrders = await executor
+      .select()
+      .from(orders)
+      .where(and(
+        eq(orders.recurringOrderId, recurringOrderId),
+        gte(orders.eventDate, today()),
+        inArray(orders.status, unconfirmedStatuses)
+      ));
+
+    const result = { updated: 0, cancelled: 0, statusChanges: [] as OrderStatusChange[] };
+
+    for (const order of futureOrders) {
+      const stillScheduled = recurring.isActive &&
+        getOccurrences(recurring, order.eventDate, order.eventDate).length > 0;
+
+      if (!stillScheduled) {
+        result.statusChanges.push(await orderStatusService.applyStatusChange(
+          order.id,
+          recurring.userId,
+          "Cancelled",
+          `no longer part of recurring order "${recurring.name}"`,
+          executor
+        ));
+        result.cancelled++;
+        continue;
+      }
+
+      await executor
+        .update(orders)
+        .set({ ...this.getOrderDetails(recurring, items), updatedAt: new Date() })
+        .where(eq(orders.id, order.id));
+
+      await executor.delete(orderItems).where(eq(orderItems.orderId, order.id));
+      await this.insertItems(order.id, items, executor);
+
+      await logOrderAction(order.id, "Order Updated", `Updated from recurring order "${recurring.name}"`, recurring.userId, executor);
+      result.updated++;
+    }
+
+    return result;
+  }
+
+  /**
+   * Order fields copied from a recurring order, with the total worked out
+   * from its items
+   */
+  private getOrderDetails(recurring: RecurringOrder, items: RecurringOrderItem[]) {
+    const pricing = calculateOrderPricing({
+      items,
+      discount: recurring.discount,
+      discountType: recurring.discountType,
+      setupFee: recurring.setupFee,
+      taxRate: recurring.taxRate,
+      pricesIncludeTax: recurring.pricesIncludeTax,
+    });
+
+    return {
+      contactId: recurring.contactId,
+      eventType: recurring.eventType,
+      deliveryType: recurring.deliveryType,
+      deliveryDetails: recurring.deliveryDetails,
+      deliveryTime: recurring.deliveryTime,
+      discount: recurring.discount,
+      discountType: recurring.discountType,
+      setupFee: recurring.setupFee,
+      taxRate: recurring.taxRate,
+      pricesIncludeTax: recurring.pricesIncludeTax,
+      notes: recurring.notes,
+      total: pricing.total.toFixed(2),
+    };
+  }
+
+  private async insertItems(orderId: number, items: RecurringOrderItem[], executor: DbExecutor): Promise<void> {
+    if (items.length === 0) {
+      return;
+    }
+
+    await executor.insert(orderItems).values(
+      items.map((item) => ({
+        orderId,
+        productId: item.productId,
+        type: item.type,
+        name: item.name,
+        description: item.description,
+        quantity: item.quantity,
+        ...priceLineItem(item),
+      }))
+    );
+  }
+}
+
+export const recurringOrderService = new RecurringOrderService();
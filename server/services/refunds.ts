@@ -0,0 +1,292 @@
+import { db, type DbExecutor } from "../db";
+import { payments, refunds, type Payment, type Refund } from "@shared/schema";
+import { activeRefundStatuses, settledPaymentStatuses, type OrderLedger } from "@shared/payment-ledger";
+import { roundMoney } from "@shared/pricing";
+import { eq, and, desc } from "drizzle-orm";
+import { getPaymentProvider, type ProviderRefund } from "../integrations/payment-providers";
+import { paymentLedgerService } from "./payment-ledger";
+import { generateCreditNoteNumber } from "./document-numbers";
+import { logOrderAction } from "./order-log";
+import { HttpError } from "../utils/http-error";
+
+export interface RefundInput {
+  // Amount to refund, defaults to everything not yet refunded
+  amount?: number;
+  reason?: string | null;
+}
+
+export interface ProviderRefundInput {
+  providerRefundId: string;
+  amount: number;
+  status: "pending" | "completed" | "failed";
+  reason?: string | null;
+}
+
+const toNumber = (value: string | null | undefined) => parseFloat(value || "0") || 0;
+
+/**
+ * Service for refunding payments. Payments taken through a provider are
+ * refunded through it, other payments are just recorded. Every refund gets
+ * a credit note number and is taken off the order's amount paid.
+ */
+export class RefundService {
+  /**
+   * Get the refunds given on an order, newest first
+   */
+  async getRefunds(orderId: number, executor: DbExecutor = db): Promise<Refund[]> {
+    return await executor
+      .select()
+      .from(refunds)
+      .where(eq(refunds.orderId, orderId))
+      .orderBy(desc(refunds.createdAt));
+  }
+
+  /**
+   * Get a refund, checking it belongs to the user
+   */
+  async getRefund(refundId: number, userId: number): Promise<Refund | undefined> {
+    const [refund] = await db
+      .select()
+      .from(refunds)
+      .where(and(eq(refunds.id, refundId), eq(refunds.userId, userId)));
+
+    return refund;
+  }
+
+  /**
+   * Refund all or part of a payment. The payment is locked until the refund
+   * is saved, so refunds on it are given one at a time and together can't
+   * come to more than was paid.
+   */
+  async refundPayment(
+    paymentId: number,
+    userId: number,
+    input: RefundInput
+  ): Promise<{ refund: Refund; ledger: OrderLedger | null }> {
+    return await db.transaction(async (tx) => {
+      const [payment] = await tx
+        .select()
+        .from(payments)
+        .where(and(eq(payments.id, paymentId), eq(payments.userId, userId)))
+        .for("update");
+
+      if (!payment) {
+        throw new HttpError(404, "Payment not found");
+      }
+
+      if (!settledPaymentStatuses.includes(payment.status)) {
+        throw new HttpError(409, `A ${payment.status} payment cannot be refunded`);
+      }
+
+      const refundable = await this.getRefundable(payment, tx);
+      const amount = roundMoney(input.amount ?? refundable);
+
+      if (amount <= 0 || amount > refundable) {
+        throw new HttpError(400, `Refund must be between 0.01 and ${refundable.toFixed(2)}`);
+      }
+
+      // The provider is called before anything is saved, so a refund it turns
+      // down is never recorded
+      const providerRefund = await this.refundWithProvider(payment, amount, input.reason || undefined);
+
+      const refund = await this.createRefund(
+        payment,
+        {
+          amount,
+          providerRefundId: providerRefund?.id || null,
+          status: providerRefund?.status || "completed",
+          reason: input.reason || null,
+        },
+        userId,
+        tx
+      );
+
+      return { refund, ledger: await paymentLedgerService.getLedger(payment.orderId, tx) };
+    });
+  }
+
+  /**
+   * Record a refund reported by a provider's webhook. A refund that has
+   * already been recorded only has its status updated.
+   * @returns The refund, or null if there was nothing to record
+   */
+  async recordProviderRefund(
+    payment: Payment,
+    input: ProviderRefundInput,
+    executor: DbExecutor = db
+  ): Promise<Refund | null> {
+    // Wait for any refund being given on the payment in the app, which may
+    // be this one
+    await executor.select({ id: payments.id }).from(payments).where(eq(payments.id, payment.id)).for("update");
+
+    const [existing] = await executor
+      .select()
+      .from(refunds)
+      .where(eq(refunds.providerRefundId, input.providerRefundId));
+
+    if (existing) {
+      if (existing.status === input.status) {
+        return existing;
+      }
+
+      const [updated] = await executor
+        .update(refunds)
+        .set({ status: input.status, updatedAt: new Date() })
+        .where(eq(refunds.id, existing.id))
+        .returning();
+
+      await this.updatePaymentStatus(payment, executor);
+      await logOrderAction(
+        payment.orderId,
+        "Refund Updated",
+        `Credit note ${existing.creditNoteNumber} ${existing.status} → ${input.status}`,
+        payment.userId,
+        executor
+      );
+
+      return updated;
+    }
+
+    if (input.status === "failed") {
+      return null;
+    }
+
+    return await this.createRefund(
+      payment,
+      { ...input, amount: roundMoney(input.amount) },
+      payment.userId,
+      executor
+    );
+  }
+
+  /**
+   * Save a refund with a new credit note number, update the payment's status
+   * and log it against the order. A provider refund that has already been
+   * recorded is returned as-is.
+   */
+  private async createRefund(
+    payment: Payment,
+    input: { amount: number; providerRefundId: string | null; status: string; reason?: string | null },
+    userId: number,
+    executor: DbExecutor
+  ): Promise<Refund> {
+    const creditNoteNumber = await generateCreditNoteNumber(payment.userId, executor);
+
+    const [refund] = await executor
+      .insert(refunds)
+      .values({
+        userId: payment.userId,
+        orderId: payment.orderId,
+        paymentId: payment.id,
+        creditNoteNumber,
+        amount: input.amount.toFixed(2),
+        currency: payment.currency,
+        provider: payment.provider,
+        providerRefundId: input.providerRefundId,
+        status: input.status,
+        reason: input.reason || null,
+      })
+      .onConflictDoNothing({ target: refunds.providerRefundId })
+      .returning();
+
+    if (!refund) {
+      const [existing] = await executor
+        .select()
+        .from(refunds)
+        .where(eq(refunds.providerRefundId, input.providerRefundId!));
+
+      return existing;
+    }
+
+    await this.updatePaymentStatus(payment, executor);
+
+    const ledger = await paymentLedgerService.getLedger(payment.orderId, executor);
+
+    await logOrderAction(
+      payment.orderId,
+      "Payment Refunded",
+      `${input.amount.toFixed(2)} of ${payment.provider} payment of ${payment.amount} refunded, credit note ${creditNoteNumber}` +
+        (input.reason ? `: ${input.reason}` : "") +
+        (ledger ? ` (balance ${ledger.balance.toFixed(2)})` : ""),
+      userId,
+      executor
+    );
+
+    return refund;
+  }
+
+  /**
+   * Mark a payment as partially or fully refunded, from the refunds given on it
+   */
+  private async updatePaymentStatus(payment: Payment, executor: DbExecutor): Promise<void> {
+    const [current] = await executor.select().from(payments).where(eq(payments.id, payment.id));
+
+    if (!current || !settledPaymentStatuses.includes(current.status)) {
+      return;
+    }
+
+    const refundable = await this.getRefundable(current, executor);
+    let status = "completed";
+    if (refundable <= 0) {
+      status = "refunded";
+    } else if (refundable < toNumber(current.amount)) {
+      status = "partially_refunded";
+    }
+
+    if (status !== current.status) {
+      await executor
+        .update(payments)
+        .set({ status, updatedAt: new Date() })
+        .where(eq(payments.id, current.id));
+    }
+  }
+
+  /**
+   * How much of a payment has not been refunded yet
+   */
+  private async getRefundable(payment: Payment, executor: DbExecutor): Promise<number> {
+    const given = await executor
+      .select({ amount: refunds.amount, status: refunds.status })
+      .from(refunds)
+      .where(eq(refunds.paymentId, payment.id));
+
+    const refunded = given
+      .filter((refund) => activeRefundStatuses.includes(refund.status))
+      .reduce((sum, refund) => sum + toNumber(refund.amount), 0);
+
+    return roundMoney(toNumber(payment.amount) - refunded);
+  }
+
+  /**
+   * Refund a payment through the provider that took it
+   * @returns The provider's refund, or null for payments that are only recorded
+   */
+  private async refundWithProvider(
+    payment: Payment,
+    amount: number,
+    reason?: string
+  ): Promise<{ id: string; status: "pending" | "completed" } | null> {
+    const provider = getPaymentProvider(payment.provider);
+
+    // Payments taken outside the app have nothing to send the refund to
+    if (!payment.paymentId || !provider || provider.name === "manual") {
+      return null;
+    }
+
+    let refund: ProviderRefund;
+    try {
+      refund = await provider.refund(payment.userId, payment.paymentId, amount, payment.currency || "USD", reason);
+    } catch (error: any) {
+      console.error(`Error refunding ${payment.provider} payment:`, error);
+      throw new HttpError(502, `${provider.displayName} refused the refund: ${error.message}`);
+    }
+
+    if (refund.status === "failed") {
+      throw new HttpError(502, `The refund was declined by ${provider.displayName}`);
+    }
+
+    return { id: refund.id, status: refund.status };
+  }
+}
+
+export const refundService = new RefundService();
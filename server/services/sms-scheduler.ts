@@ -0,0 +1,43 @@
+import cron from 'node-cron';
+import { smsService } from './sms';
+import { getSmsProvider } from '../integrations/sms-providers';
+
+let scheduledTask: ReturnType<typeof cron.schedule> | null = null;
+
+/**
+ * Text customers about tomorrow's deliveries, collections and payments
+ */
+async function runSmsRemindersJob() {
+  try {
+    console.log('Running SMS reminders job');
+    const deliveries = await smsService.sendDeliveryReminders();
+    const payments = await smsService.sendPaymentReminders();
+    console.log(`Sent ${deliveries} delivery and ${payments} payment SMS reminders`);
+  } catch (error) {
+    console.error('Error in SMS reminders job:', error);
+  }
+}
+
+/**
+ * Start the SMS reminders job, every day at 9am. Unlike the other jobs it
+ * doesn't run at startup, so a restart in the night doesn't text anyone.
+ */
+export function startSmsScheduler() {
+  try {
+    console.log(`Starting SMS scheduler (sending with ${getSmsProvider().displayName})...`);
+    scheduledTask = cron.schedule('0 9 * * *', runSmsRemindersJob);
+  } catch (error) {
+    console.error('Error starting SMS scheduler:', error);
+    scheduledTask = null;
+  }
+}
+
+/**
+ * Stop the SMS reminders job
+ */
+export function stopSmsScheduler() {
+  if (scheduledTask) {
+    scheduledTask.stop();
+    scheduledTask = null;
+  }
+}
@@ -0,0 +1,292 @@
+import { db } from "../db";
+import {
+  orders,
+  contacts,
+  settings,
+  scheduledPayments,
+  smsMessages,
+  userNotificationPreferences,
+  type Contact,
+  type Order,
+  type SmsMessage,
+} from "@shared/schema";
+import { getSmsCountryCode, normalisePhoneNumber, smsCategoryLabels, type SmsCategory } from "@shared/sms";
+import { eq, and, inArray, or } from "drizzle-orm";
+import { addDays, format } from "date-fns";
+import { logOrderAction } from "./order-log";
+import { paymentLedgerService } from "./payment-ledger";
+import { getSmsProvider } from "../integrations/sms-providers";
+
+// Orders that are going ahead, so reminders about them are worth sending
+const ACTIVE_ORDER_STATUSES = ["Confirmed", "Paid", "Ready", "Delivered"];
+
+interface SmsContext {
+  businessName: string;
+  currency: string;
+  countryCode: string | null;
+}
+
+interface OrderSms {
+  order: Order;
+  contact: Contact;
+  userId: number;
+  category: SmsCategory;
+  // Sent at most once per order, category and reference
+  reference: string;
+  body: string;
+  countryCode: string | null;
+}
+
+/**
+ * Service for texting customers about their orders. Messages only go to
+ * contacts who have opted in, for the kinds of message the baker has turned
+ * on in their notification preferences, and each one is recorded in
+ * sms_messages and the order log.
+ */
+export class SmsService {
+  /**
+   * Text the customer that their order is confirmed
+   */
+  async sendOrderConfirmation(order: Order, userId: number): Promise<SmsMessage | null> {
+    const preferences = await this.getPreferences(userId);
+    if (!preferences?.smsOrderConfirmations) {
+      return null;
+    }
+
+    const [contact] = await db.select().from(contacts).where(eq(contacts.id, order.contactId));
+    if (!contact) {
+      return null;
+    }
+
+    const context = await this.getContext(userId, preferences.smsCountryCode);
+
+    return this.send({
+      order,
+      contact,
+      userId,
+      category: "order_confirmation",
+      reference: order.eventDate,
+      countryCode: context.countryCode,
+      body: `Hi ${contact.firstName}, your order #${order.orderNumber} for ${formatDay(order.eventDate)} is confirmed. Thank you! - ${context.businessName}`,
+    });
+  }
+
+  /**
+   * Remind customers the day before their order is delivered or ready to
+   * collect. Returns how many messages were sent.
+   */
+  async sendDeliveryReminders(now = new Date()): Promise<number> {
+    const tomorrow = format(addDays(now, 1), "yyyy-MM-dd");
+
+    const due = await db
+      .select({ order: orders, contact: contacts })
+      .from(orders)
+      .innerJoin(contacts, eq(contacts.id, orders.contactId))
+      .innerJoin(userNotificationPreferences, eq(userNotificationPreferences.userId, orders.userId))
+      .where(
+        and(
+          eq(orders.eventDate, tomorrow),
+          inArray(orders.status, ACTIVE_ORDER_STATUSES),
+          eq(contacts.smsOptIn, true),
+          eq(userNotificationPreferences.smsDeliveryReminders, true)
+        )
+      );
+
+    let sent = 0;
+
+    for (const { order, contact } of due) {
+      const context = await this.getContext(order.userId);
+      const time = order.deliveryTime ? ` at ${order.deliveryTime}` : "";
+      const body = order.deliveryType === "Delivery"
+        ? `Hi ${contact.firstName}, a reminder that your order #${order.orderNumber} will be delivered tomorrow${time}. - ${context.businessName}`
+        : `Hi ${contact.firstName}, a reminder that your order #${order.orderNumber} is ready to collect tomorrow${time}. - ${context.businessName}`;
+
+      const message = await this.send({
+        order,
+        contact,
+        userId: order.userId,
+        category: "delivery_reminder",
+        reference: order.eventDate,
+        countryCode: context.countryCode,
+        body,
+      });
+
+      if (message?.status === "sent") {
+        sent++;
+      }
+    }
+
+    return sent;
+  }
+
+  /**
+   * Nudge customers the day before a payment is due, whether that's an
+   * instalment or the order's due date. Orders already paid are skipped.
+   * Returns how many messages were sent.
+   */
+  async sendPaymentReminders(now = new Date()): Promise<number> {
+    const tomorrow = format(addDays(now, 1), "yyyy-MM-dd");
+
+    const instalmentOrderIds = db
+      .select({ orderId: scheduledPayments.orderId })
+      .from(scheduledPayments)
+      .where(eq(scheduledPayments.dueDate, tomorrow));
+
+    const due = await db
+      .select({ order: orders, contact: contacts })
+      .from(orders)
+      .innerJoin(contacts, eq(contacts.id, orders.contactId))
+      .innerJoin(userNotificationPreferences, eq(userNotificationPreferences.userId, orders.userId))
+      .where(
+        and(
+          or(eq(orders.dueDate, tomorrow), inArray(orders.id, instalmentOrderIds)),
+          inArray(orders.status, ACTIVE_ORDER_STATUSES),
+          eq(contacts.smsOptIn, true),
+          eq(userNotificationPreferences.smsPaymentReminders, true)
+        )
+      );
+
+    let sent = 0;
+
+    for (const { order, contact } of due) {
+      const ledger = await paymentLedgerService.getLedger(order.id);
+      if (!ledger || ledger.balance <= 0) {
+        continue;
+      }
+
+      // An instalment due tomorrow is what's asked for, otherwise the balance
+      const instalment = ledger.instalments.find((item) => item.dueDate === tomorrow && !item.isPaid);
+      if (!instalment && order.dueDate !== tomorrow) {
+        continue;
+      }
+
+      const context = await this.getContext(order.userId);
+      const amount = formatMoney(instalment ? instalment.amount : ledger.balance, context.currency);
+
+      const message = await this.send({
+        order,
+        contact,
+        userId: order.userId,
+        category: "payment_reminder",
+        reference: tomorrow,
+        countryCode: context.countryCode,
+        body: `Hi ${contact.firstName}, a reminder that ${amount} for order #${order.orderNumber} is due tomorrow. - ${context.businessName}`,
+      });
+
+      if (message?.status === "sent") {
+        sent++;
+      }
+    }
+
+    return sent;
+  }
+
+  /**
+   * Send a message with the configured provider and record how it went.
+   * Returns null when nothing was sent because the customer hasn't opted in,
+   * has no usable number, or was already sent this message.
+   */
+  private async send(sms: OrderSms): Promise<SmsMessage | null> {
+    const { order, contact, userId, category, reference, body } = sms;
+
+    if (!contact.smsOptIn) {
+      return null;
+    }
+
+    const to = normalisePhoneNumber(contact.phone, sms.countryCode);
+    if (!to) {
+      return null;
+    }
+
+    const [existing] = await db
+      .select({ id: smsMessages.id })
+      .from(smsMessages)
+      .where(
+        and(
+          eq(smsMessages.orderId, order.id),
+          eq(smsMessages.category, category),
+          eq(smsMessages.reference, reference),
+          eq(smsMessages.status, "sent")
+        )
+      );
+
+    if (existing) {
+      return null;
+    }
+
+    const provider = getSmsProvider();
+    let providerMessageId: string | null = null;
+    let error: string | null = null;
+
+    try {
+      ({ messageId: providerMessageId } = await provider.send({ to, body }));
+    } catch (sendError) {
+      console.error(`Error sending SMS for order ${order.id}:`, sendError);
+      error = sendError instanceof Error ? sendError.message : String(sendError);
+    }
+
+    const [message] = await db
+      .insert(smsMessages)
+      .values({
+        userId,
+        orderId: order.id,
+        contactId: contact.id,
+        category,
+        reference,
+        toNumber: to,
+        body,
+        status: error ? "failed" : "sent",
+        provider: provider.name,
+        providerMessageId,
+        error,
+      })
+      .returning();
+
+    const label = smsCategoryLabels[category];
+    await logOrderAction(
+      order.id,
+      error ? "SMS Failed" : "SMS Sent",
+      error ? `${label} to ${to} failed: ${error}` : `${label} sent to ${to}`,
+      userId
+    );
+
+    return message;
+  }
+
+  private async getPreferences(userId: number) {
+    const [preferences] = await db
+      .select()
+      .from(userNotificationPreferences)
+      .where(eq(userNotificationPreferences.userId, userId));
+
+    return preferences;
+  }
+
+  private async getContext(userId: number, countryCode?: string | null): Promise<SmsContext> {
+    const [userSettings] = await db.select().from(settings).where(eq(settings.userId, userId));
+
+    if (countryCode === undefined) {
+      countryCode = (await this.getPreferences(userId))?.smsCountryCode;
+    }
+
+    return {
+      businessName: userSettings?.businessName || "Bake Diary",
+      currency: userSettings?.currency || "USD",
+      countryCode: getSmsCountryCode(countryCode, userSettings?.currency),
+    };
+  }
+}
+
+function formatDay(date: string): string {
+  return format(new Date(`${date}T00:00:00`), "EEE d MMM");
+}
+
+function formatMoney(amount: number, currency: string): string {
+  try {
+    return new Intl.NumberFormat("en-US", { style: "currency", currency }).format(amount);
+  } catch {
+    return amount.toFixed(2);
+  }
+}
+
+export const smsService = new SmsService();
@@ -2,11 +2,12 @@
 import { SquareClient, SquareEnvironment } from 'square';
 import { randomUUID } from 'crypto';
 import { db } from '../db';
-import { integrations, payments } from '@shared/schema';
+import { integrations } from '@shared/schema';
 import { eq, and } from 'drizzle-orm';
 
 /**
- * Square service for handling Square OAuth and payments
+ * Square service for handling Square OAuth. Payments are taken through
+ * the Square payment provider.
  */
 export class SquareService {
   private readonly SQUARE_APPLICATION_ID = process.env.SQUARE_APPLICATION_ID || '';
@@ -194,82 +195,6 @@ export class SquareService {
     }
   }
 
-  /**
-   * Process a payment for an order
-   */
-  async processPayment(userId: number, orderId: number, amount: number, currency: string, sourceId: string, note?: string): Promise<any> {
-    try {
-      const client = await this.getClientForUser(userId);
-      
-      if (!client) {
-        throw new Error('User does not have an active Square integration');
-      }
-      
-      // Get the location ID for this user
-      const [integration] = await db
-        .select()
-        .from(integrations)
-        .where(and(
-          eq(integrations.userId, userId),
-          eq(integrations.provider, 'square')
-        ));
-      
-      if (!integration || !integration.locationId) {
-        throw new Error('No Square location found for this user');
-      }
-      
-      // Convert amount to cents and handle as a BigInt for the Square API
-      const amountInCents = BigInt(Math.round(amount * 100));
-      
-      // Create the payment
-      const response = await client.paymentsApi.createPayment({
-        sourceId,
-        idempotencyKey: randomUUID(),
-        amountMoney: {
-          amount: amountInCents,
-          currency,
-        },
-        locationId: integration.locationId,
-        note: note || `Payment for order #${orderId}`,
-      });
-      
-      if (!response.result.payment) {
-        throw new Error('Payment failed');
-      }
-      
-      // Convert the payment amount back to a number for storage
-      const paymentAmount = Number(response.result.payment.amountMoney?.amount || 0) / 100;
-      
-      // Record the payment in our database
-      const [paymentRecord] = await db
-        .insert(payments)
-        .values({
-          orderId: orderId,
-          userId: userId,
-          amount: paymentAmount.toString(),
-          currency,
-          provider: 'square',
-          paymentId: response.result.payment.id,
-          status: 'completed',
-          paymentMethod: 'card', // Square payments are typically card payments
-          notes: note,
-        })
-        .returning();
-      
-      // Update the order status to 'Paid'
-      // This would depend on your order workflow, so implement as needed
-      
-      return {
-        success: true,
-        payment: response.result.payment,
-        paymentRecord,
-      };
-    } catch (error) {
-      console.error('Error processing Square payment:', error);
-      throw error;
-    }
-  }
-
   /**
    * Check if a user has connected their Square account
    */
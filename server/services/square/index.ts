@@ -1 +0,0 @@
-export * from './service';
\ No newline at end of file
@@ -0,0 +1,434 @@
+import PDFDocument from "pdfkit";
+import { db } from "../db";
+import { contacts, expenses, orderItems, orders, payments, refunds, settings } from "@shared/schema";
+import { settledPaymentStatuses } from "@shared/payment-ledger";
+import { calculateOrderPricing, roundMoney, summariseTax } from "@shared/pricing";
+import {
+  taxReturnBasisLabels,
+  taxReturnSchemeLabels,
+  type TaxReturn,
+  type TaxReturnFormat,
+  type TaxReturnQuery,
+  type TaxReturnRecord,
+  type TaxReturnScheme,
+  type TaxReturnTotals,
+} from "@shared/tax-return";
+import { eq, and, gte, lt, lte, inArray, notInArray } from "drizzle-orm";
+import { stringify } from "csv-stringify/sync";
+import { addDays, format } from "date-fns";
+
+type PdfDocument = InstanceType<typeof PDFDocument>;
+
+// What an order was charged, split into tax and the part at a 0% rate
+interface OrderTax {
+  gross: number;
+  tax: number;
+  zeroRatedNet: number;
+}
+
+const PAGE_MARGIN = 50;
+
+const toNumber = (value: string | null | undefined) => parseFloat(value || "0") || 0;
+
+/**
+ * Service for working out VAT/GST returns: tax charged on sales less tax paid
+ * on expenses for a period. Other income is left out because it isn't
+ * recorded with any tax.
+ */
+export class TaxReturnService {
+  /**
+   * Work out the return for a period. On the accrual basis sales count when
+   * the order is placed; on the cash basis they count as they are paid, with
+   * each payment carrying its share of the order's tax. Refunds reduce sales
+   * when they are issued and expenses count on their date on both bases.
+   */
+  async getReturn(userId: number, query: TaxReturnQuery): Promise<TaxReturn> {
+    const [userSettings] = await db.select().from(settings).where(eq(settings.userId, userId));
+
+    const sales = query.basis === "cash"
+      ? await this.getPaymentRecords(userId, query)
+      : await this.getOrderRecords(userId, query);
+
+    const records = [
+      ...sales,
+      ...(await this.getRefundRecords(userId, query)),
+      ...(await this.getExpenseRecords(userId, query)),
+    ].sort((a, b) => a.date.localeCompare(b.date) || a.reference.localeCompare(b.reference));
+
+    const salesRecords = records.filter((record) => record.type !== "purchase");
+    const purchaseRecords = records.filter((record) => record.type === "purchase");
+
+    const salesTotals = sumRecords(salesRecords);
+    const purchaseTotals = sumRecords(purchaseRecords);
+    const zeroRatedSales = roundMoney(salesRecords.reduce((sum, record) => sum + record.zeroRatedNet, 0));
+    const netPayable = roundMoney(salesTotals.tax - purchaseTotals.tax);
+
+    return {
+      from: query.from,
+      to: query.to,
+      basis: query.basis,
+      currency: userSettings?.currency || "USD",
+      sales: salesTotals,
+      purchases: purchaseTotals,
+      outputTax: salesTotals.tax,
+      inputTax: purchaseTotals.tax,
+      netPayable,
+      boxes: {
+        "uk-vat": [
+          { box: "1", label: "VAT due on sales and other outputs", amount: salesTotals.tax, records: "sales" },
+          { box: "2", label: "VAT due on acquisitions of goods from EU member states", amount: 0, records: null },
+          { box: "3", label: "Total VAT due", amount: salesTotals.tax, records: "sales" },
+          { box: "4", label: "VAT reclaimed on purchases and other inputs", amount: purchaseTotals.tax, records: "purchases" },
+          { box: "5", label: "Net VAT to pay (to reclaim if negative)", amount: netPayable, records: "all" },
+          { box: "6", label: "Total value of sales and all other outputs excluding VAT", amount: salesTotals.net, records: "sales" },
+          { box: "7", label: "Total value of purchases and all other inputs excluding VAT", amount: purchaseTotals.net, records: "purchases" },
+          { box: "8", label: "Total value of goods supplied to EU member states excluding VAT", amount: 0, records: null },
+          { box: "9", label: "Total value of goods acquired from EU member states excluding VAT", amount: 0, records: null },
+        ],
+        "au-bas": [
+          { box: "G1", label: "Total sales (including any GST)", amount: salesTotals.gross, records: "sales" },
+          { box: "G2", label: "Export sales", amount: 0, records: null },
+          { box: "G3", label: "Other GST-free sales", amount: zeroRatedSales, records: "zero-rated" },
+          { box: "G10", label: "Capital purchases", amount: 0, records: null },
+          { box: "G11", label: "Non-capital purchases", amount: purchaseTotals.gross, records: "purchases" },
+          { box: "1A", label: "GST on sales", amount: salesTotals.tax, records: "sales" },
+          { box: "1B", label: "GST on purchases", amount: purchaseTotals.tax, records: "purchases" },
+          { box: "Net", label: "GST to pay (refund due if negative)", amount: netPayable, records: "all" },
+        ],
+      },
+      records,
+    };
+  }
+
+  /**
+   * Download a return with the records behind it as a CSV or PDF file
+   */
+  async export(
+    userId: number,
+    query: TaxReturnQuery,
+    exportFormat: TaxReturnFormat
+  ): Promise<{ content: string | Buffer; filename: string; contentType: string }> {
+    const taxReturn = await this.getReturn(userId, query);
+    const filename = `bakegenie-${query.scheme}-${query.basis}-${query.from}-to-${query.to}.${exportFormat}`;
+
+    if (exportFormat === "pdf") {
+      const [userSettings] = await db.select().from(settings).where(eq(settings.userId, userId));
+      const pdf = await this.toPdf(taxReturn, query.scheme, userSettings?.businessName || "Bake Diary");
+      return { content: pdf, filename, contentType: "application/pdf" };
+    }
+
+    return { content: this.toCsv(taxReturn, query.scheme), filename, contentType: "text/csv; charset=utf-8" };
+  }
+
+  private async getOrderRecords(userId: number, query: TaxReturnQuery): Promise<TaxReturnRecord[]> {
+    const orderRows = await db
+      .select({ order: orders, contact: contacts })
+      .from(orders)
+      .leftJoin(contacts, eq(orders.contactId, contacts.id))
+      .where(
+        and(
+          eq(orders.userId, userId),
+          notInArray(orders.status, ["Quote", "Draft", "Cancelled"]),
+          ...createdInPeriod(orders.createdAt, query)
+        )
+      );
+
+    const orderTax = await this.getOrderTax(orderRows.map(({ order }) => order.id));
+
+    return orderRows.map(({ order, contact }) => {
+      const charged = orderTax.get(order.id)!;
+
+      return {
+        type: "sale",
+        source: "order",
+        id: order.id,
+        date: format(order.createdAt, "yyyy-MM-dd"),
+        reference: order.orderNumber,
+        party: customerName(contact),
+        description: `${order.eventType} order ${order.orderNumber}`,
+        net: roundMoney(charged.gross - charged.tax),
+        tax: charged.tax,
+        gross: charged.gross,
+        zeroRatedNet: charged.zeroRatedNet,
+      };
+    });
+  }
+
+  private async getPaymentRecords(userId: number, query: TaxReturnQuery): Promise<TaxReturnRecord[]> {
+    const paymentRows = await db
+      .select({ payment: payments, order: orders, contact: contacts })
+      .from(payments)
+      .innerJoin(orders, eq(payments.orderId, orders.id))
+      .leftJoin(contacts, eq(orders.contactId, contacts.id))
+      .where(
+        and(
+          eq(payments.userId, userId),
+          inArray(payments.status, settledPaymentStatuses),
+          ...createdInPeriod(payments.createdAt, query)
+        )
+      );
+
+    const orderTax = await this.getOrderTax(paymentRows.map(({ order }) => order.id));
+
+    // Tips aren't part of the order, so only the payment itself is taxed
+    return paymentRows.map(({ payment, order, contact }) => ({
+      type: "sale",
+      source: "payment",
+      id: payment.id,
+      date: format(payment.createdAt, "yyyy-MM-dd"),
+      reference: order.orderNumber,
+      party: customerName(contact),
+      description: `${payment.paymentMethod || payment.provider} payment for ${order.orderNumber}`,
+      ...shareOf(orderTax.get(order.id)!, toNumber(payment.amount)),
+    }));
+  }
+
+  private async getRefundRecords(userId: number, query: TaxReturnQuery): Promise<TaxReturnRecord[]> {
+    const refundRows = await db
+      .select({ refund: refunds, order: orders, contact: contacts })
+      .from(refunds)
+      .innerJoin(orders, eq(refunds.orderId, orders.id))
+      .leftJoin(contacts, eq(orders.contactId, contacts.id))
+      .where(
+        and(
+          eq(refunds.userId, userId),
+          inArray(refunds.status, ["pending", "completed"]),
+          ...createdInPeriod(refunds.createdAt, query)
+        )
+      );
+
+    const orderTax = await this.getOrderTax(refundRows.map(({ order }) => order.id));
+
+    return refundRows.map(({ refund, order, contact }) => ({
+      type: "refund",
+      source: "refund",
+      id: refund.id,
+      date: format(refund.createdAt, "yyyy-MM-dd"),
+      reference: refund.creditNoteNumber,
+      party: customerName(contact),
+      description: `Refund for ${order.orderNumber}`,
+      ...shareOf(orderTax.get(order.id)!, -toNumber(refund.amount)),
+    }));
+  }
+
+  private async getExpenseRecords(userId: number, query: TaxReturnQuery): Promise<TaxReturnRecord[]> {
+    const expenseRows = await db
+      .select()
+      .from(expenses)
+      .where(and(eq(expenses.userId, userId), gte(expenses.date, query.from), lte(expenses.date, query.to)));
+
+    return expenseRows.map((expense) => {
+      const net = toNumber(expense.amount);
+      const tax = toNumber(expense.vat);
+
+      return {
+        type: "purchase",
+        source: "expense",
+        id: expense.id,
+        date: expense.date,
+        reference: expense.category,
+        party: expense.supplier || "",
+        description: expense.description || expense.category,
+        net,
+        tax,
+        gross: toNumber(expense.totalIncTax) || roundMoney(net + tax),
+        zeroRatedNet: tax === 0 ? net : 0,
+      };
+    });
+  }
+
+  /**
+   * What each order was charged, from its items. Older orders can have a
+   * stored total that no longer matches their items; the stored total is
+   * what the customer was charged and the difference is treated as untaxed.
+   */
+  private async getOrderTax(orderIds: number[]): Promise<Map<number, OrderTax>> {
+    const ids = Array.from(new Set(orderIds));
+    const result = new Map<number, OrderTax>();
+
+    if (ids.length === 0) {
+      return result;
+    }
+
+    const orderRows = await db.select().from(orders).where(inArray(orders.id, ids));
+    const items = await db.select().from(orderItems).where(inArray(orderItems.orderId, ids));
+
+    for (const order of orderRows) {
+      const pricing = calculateOrderPricing({
+        items: items.filter((item) => item.orderId === order.id),
+        discount: order.discount,
+        discountType: order.discountType,
+        setupFee: order.setupFee,
+        taxRate: order.taxRate,
+        pricesIncludeTax: order.pricesIncludeTax,
+      });
+
+      const zeroRated = summariseTax(pricing).find((line) => line.rate === 0);
+
+      result.set(order.id, {
+        gross: toNumber(order.total),
+        tax: pricing.taxTotal,
+        zeroRatedNet: zeroRated ? zeroRated.netAmount : 0,
+      });
+    }
+
+    return result;
+  }
+
+  private toCsv(taxReturn: TaxReturn, scheme: TaxReturnScheme): string {
+    const boxes = stringify(
+      taxReturn.boxes[scheme].map((line) => ({ Box: line.box, Description: line.label, Amount: line.amount.toFixed(2) })),
+      { header: true, columns: ["Box", "Description", "Amount"] }
+    );
+
+    const records = stringify(
+      taxReturn.records.map((record) => ({
+        Date: record.date,
+        Type: record.type,
+        Reference: record.reference,
+        Party: record.party,
+        Description: record.description,
+        Net: record.net.toFixed(2),
+        Tax: record.tax.toFixed(2),
+        Gross: record.gross.toFixed(2),
+      })),
+      { header: true, columns: ["Date", "Type", "Reference", "Party", "Description", "Net", "Tax", "Gross"] }
+    );
+
+    return `${boxes}\n${records}`;
+  }
+
+  private toPdf(taxReturn: TaxReturn, scheme: TaxReturnScheme, businessName: string): Promise<Buffer> {
+    return new Promise((resolve, reject) => {
+      const doc = new PDFDocument({ size: "A4", margin: PAGE_MARGIN });
+      const chunks: Buffer[] = [];
+
+      doc.on("data", (chunk: Buffer) => chunks.push(chunk));
+      doc.on("end", () => resolve(Buffer.concat(chunks)));
+      doc.on("error", reject);
+
+      try {
+        this.renderReturn(doc, taxReturn, scheme, businessName);
+        doc.end();
+      } catch (error) {
+        reject(error);
+      }
+    });
+  }
+
+  private renderReturn(doc: PdfDocument, taxReturn: TaxReturn, scheme: TaxReturnScheme, businessName: string): void {
+    const width = doc.page.width - PAGE_MARGIN * 2;
+    const money = (amount: number) => formatMoney(amount, taxReturn.currency);
+
+    doc.fontSize(18).fillColor("#111827").text(taxReturnSchemeLabels[scheme]);
+    doc
+      .fontSize(10)
+      .fillColor("#4b5563")
+      .text(businessName)
+      .text(`${taxReturn.from} to ${taxReturn.to}`)
+      .text(`${taxReturnBasisLabels[taxReturn.basis]} basis`)
+      .moveDown();
+
+    for (const line of taxReturn.boxes[scheme]) {
+      const y = doc.y;
+      doc
+        .fontSize(10)
+        .fillColor("#111827")
+        .text(line.box, PAGE_MARGIN, y, { width: 40 })
+        .text(line.label, PAGE_MARGIN + 40, y, { width: width - 140 })
+        .text(money(line.amount), PAGE_MARGIN + width - 100, y, { width: 100, align: "right" });
+      doc.y = Math.max(doc.y, y + 14) + 4;
+    }
+
+    doc.moveDown();
+    doc.fontSize(13).fillColor("#111827").text("Records", PAGE_MARGIN).moveDown(0.5);
+
+    if (taxReturn.records.length === 0) {
+      doc.fontSize(10).fillColor("#4b5563").text("Nothing was sold, refunded or spent in this period.");
+      return;
+    }
+
+    const columns: { label: string; width: number; align?: "right"; value: (record: TaxReturnRecord) => string }[] = [
+      { label: "Date", width: 62, value: (record) => record.date },
+      { label: "Type", width: 50, value: (record) => record.type },
+      { label: "Reference", width: 70, value: (record) => record.reference },
+      { label: "Party", width: width - 392, value: (record) => record.party },
+      { label: "Net", width: 70, align: "right", value: (record) => money(record.net) },
+      { label: "Tax", width: 70, align: "right", value: (record) => money(record.tax) },
+      { label: "Gross", width: 70, align: "right", value: (record) => money(record.gross) },
+    ];
+
+    const drawRow = (cells: string[], bold: boolean) => {
+      if (doc.y + 16 > doc.page.height - PAGE_MARGIN) {
+        doc.addPage();
+      }
+
+      const y = doc.y;
+      let x = PAGE_MARGIN;
+      doc.fontSize(8).font(bold ? "Helvetica-Bold" : "Helvetica").fillColor("#111827");
+
+      columns.forEach((column, index) => {
+        doc.text(cells[index], x, y, { width: column.width - 4, height: 10, align: column.align, ellipsis: true });
+        x += column.width;
+      });
+
+      doc.y = y + 14;
+    };
+
+    drawRow(columns.map((column) => column.label), true);
+    taxReturn.records.forEach((record) => drawRow(columns.map((column) => column.value(record)), false));
+
+    const totals = (label: string, values: TaxReturnTotals) =>
+      drawRow([label, "", "", "", money(values.net), money(values.tax), money(values.gross)], true);
+
+    doc.moveDown(0.5);
+    totals("Sales", taxReturn.sales);
+    totals("Purchases", taxReturn.purchases);
+  }
+}
+
+function sumRecords(records: TaxReturnRecord[]): TaxReturnTotals {
+  return {
+    net: roundMoney(records.reduce((sum, record) => sum + record.net, 0)),
+    tax: roundMoney(records.reduce((sum, record) => sum + record.tax, 0)),
+    gross: roundMoney(records.reduce((sum, record) => sum + record.gross, 0)),
+  };
+}
+
+/**
+ * The part of an order's net, tax and 0% sales carried by a payment or refund
+ * of `amount`, in proportion to the order total
+ */
+function shareOf(order: OrderTax, amount: number): Pick<TaxReturnRecord, "net" | "tax" | "gross" | "zeroRatedNet"> {
+  const share = order.gross > 0 ? amount / order.gross : 0;
+  const tax = roundMoney(order.tax * share);
+
+  return {
+    net: roundMoney(amount - tax),
+    tax,
+    gross: roundMoney(amount),
+    zeroRatedNet: roundMoney(order.zeroRatedNet * share),
+  };
+}
+
+// Timestamps are compared against the start of the day after `to`
+function createdInPeriod(column: typeof orders.createdAt | typeof payments.createdAt | typeof refunds.createdAt, query: TaxReturnQuery) {
+  return [
+    gte(column, new Date(`${query.from}T00:00:00`)),
+    lt(column, addDays(new Date(`${query.to}T00:00:00`), 1)),
+  ];
+}
+
+function customerName(contact: typeof contacts.$inferSelect | null): string {
+  return contact ? contact.businessName || `${contact.firstName} ${contact.lastName}` : "Customer";
+}
+
+function formatMoney(amount: number, currency: string): string {
+  try {
+    return new Intl.NumberFormat("en-US", { style: "currency", currency }).format(amount);
+  } catch {
+    return amount.toFixed(2);
+  }
+}
+
+export const taxReturnService = new TaxReturnService();
@@ -0,0 +1,77 @@
+import { db, type DbExecutor } from "../db";
+import { settings } from "@shared/schema";
+import {
+  calculateTip,
+  defaultTipPercentages,
+  getTipError,
+  type TippingSettings,
+  type TipSelection,
+} from "@shared/tipping";
+import { eq } from "drizzle-orm";
+import { HttpError } from "../utils/http-error";
+
+/**
+ * Service for a business's tipping settings and the tips added to payments
+ */
+export class TippingService {
+  /**
+   * Get a user's tipping settings, with the defaults for anything not set
+   */
+  async getSettings(userId: number, executor: DbExecutor = db): Promise<TippingSettings> {
+    const [userSettings] = await executor
+      .select({
+        tippingEnabled: settings.tippingEnabled,
+        tipPercentages: settings.tipPercentages,
+        allowCustomTip: settings.allowCustomTip,
+      })
+      .from(settings)
+      .where(eq(settings.userId, userId));
+
+    return {
+      enabled: userSettings?.tippingEnabled ?? false,
+      defaultPercentages: userSettings?.tipPercentages ?? defaultTipPercentages,
+      allowCustomTip: userSettings?.allowCustomTip ?? true,
+    };
+  }
+
+  /**
+   * Save a user's tipping settings
+   */
+  async updateSettings(userId: number, input: TippingSettings): Promise<TippingSettings> {
+    const [updated] = await db
+      .update(settings)
+      .set({
+        tippingEnabled: input.enabled,
+        tipPercentages: input.defaultPercentages,
+        allowCustomTip: input.allowCustomTip,
+        updatedAt: new Date(),
+      })
+      .where(eq(settings.userId, userId))
+      .returning({ id: settings.id });
+
+    if (!updated) {
+      throw new HttpError(404, "Settings not found");
+    }
+
+    return await this.getSettings(userId);
+  }
+
+  /**
+   * Work out the tip a customer chose on a payment, checking it is allowed
+   * by the business's tipping settings
+   */
+  async resolveTip(userId: number, amount: number, tip: TipSelection | null | undefined): Promise<number> {
+    if (!tip) {
+      return 0;
+    }
+
+    const error = getTipError(amount, tip, await this.getSettings(userId));
+    if (error) {
+      throw new HttpError(400, error);
+    }
+
+    return calculateTip(amount, tip);
+  }
+}
+
+export const tippingService = new TippingService();
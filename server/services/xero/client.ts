@@ -1,7 +1,7 @@
 import { XeroClient } from 'xero-node';
 
 // Initialize Xero client with configuration
-export const createXeroClient = (accessToken?: string): XeroClient => {
+export const createXeroClient = (accessToken?: string, refreshToken?: string): XeroClient => {
   const client = new XeroClient({
     clientId: process.env.XERO_CLIENT_ID || '',
     clientSecret: process.env.XERO_CLIENT_SECRET || '',
@@ -23,7 +23,7 @@ export const createXeroClient = (accessToken?: string): XeroClient => {
       access_token: accessToken,
       token_type: 'Bearer',
       expires_in: 1800,
-      refresh_token: '', // Will be refreshed if needed
+      refresh_token: refreshToken || '', // Used to refresh the access token when it expires
       scope: ''
     });
   }
@@ -1,4 +1,5 @@
 import { createXeroClient } from './client';
 import { xeroService } from './service';
+import { XeroSync } from './sync';
 
-export { createXeroClient, xeroService };
\ No newline at end of file
+export { createXeroClient, xeroService, XeroSync };
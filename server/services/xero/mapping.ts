@@ -0,0 +1,200 @@
+import crypto from 'crypto';
+import {
+  Address,
+  Contact as XeroContact,
+  CreditNote as XeroCreditNote,
+  CurrencyCode,
+  Invoice as XeroInvoice,
+  LineAmountTypes,
+  LineItem,
+  Payment as XeroPayment,
+  Phone,
+} from 'xero-node';
+import type { Contact, Order, OrderItem, Payment, Refund } from '@shared/schema';
+import { calculateOrderPricing, roundMoney } from '@shared/pricing';
+
+// Mapping between BakeGenie records and the Xero accounting API. Everything
+// here is a pure function of its inputs so it can be checked without Xero.
+
+export interface XeroAccountCodes {
+  // Revenue account invoice lines are posted to
+  sales: string;
+  // Bank account payments are received into
+  payments: string;
+}
+
+/**
+ * Looks up the Xero tax type for a tax rate percentage
+ */
+export type TaxTypeResolver = (rate: number) => string;
+
+/**
+ * The name a contact is given in Xero. Xero needs contact names to be unique,
+ * so the business name is used when there is one.
+ */
+export function getXeroContactName(contact: Contact): string {
+  return contact.businessName?.trim() || `${contact.firstName} ${contact.lastName}`.trim();
+}
+
+export function toXeroContact(contact: Contact): XeroContact {
+  return {
+    name: getXeroContactName(contact),
+    firstName: contact.firstName,
+    lastName: contact.lastName,
+    emailAddress: contact.email || undefined,
+    isCustomer: true,
+    phones: contact.phone
+      ? [{ phoneType: Phone.PhoneTypeEnum.DEFAULT, phoneNumber: contact.phone }]
+      : [],
+    addresses: contact.address
+      ? [{ addressType: Address.AddressTypeEnum.STREET, addressLine1: contact.address }]
+      : [],
+  };
+}
+
+/**
+ * Xero status for an order's invoice. Orders that are still quotes are kept
+ * as drafts and cancelled orders void their invoice.
+ */
+export function getXeroInvoiceStatus(order: Order): XeroInvoice.StatusEnum {
+  if (order.status === 'Cancelled') {
+    return XeroInvoice.StatusEnum.VOIDED;
+  }
+
+  if (order.status === 'Quote' || order.status === 'Draft') {
+    return XeroInvoice.StatusEnum.DRAFT;
+  }
+
+  return XeroInvoice.StatusEnum.AUTHORISED;
+}
+
+/**
+ * Map an order to an ACCREC (sales) invoice. Lines carry their own tax rate,
+ * the discount is spread across the item lines and the setup fee is its own
+ * line, the same way the order total is worked out.
+ */
+export function toXeroInvoice(
+  order: Order,
+  items: OrderItem[],
+  contactId: string,
+  currency: string,
+  accounts: XeroAccountCodes,
+  getTaxType: TaxTypeResolver
+): XeroInvoice {
+  const pricing = calculateOrderPricing({
+    items,
+    discount: order.discount,
+    discountType: order.discountType,
+    setupFee: order.setupFee,
+    taxRate: order.taxRate,
+    pricesIncludeTax: order.pricesIncludeTax,
+  });
+
+  const lineItems: LineItem[] = items.map((item, index) => {
+    const line = pricing.lines[index];
+    return {
+      description: item.description ? `${item.name} - ${item.description}` : item.name,
+      quantity: line.quantity,
+      unitAmount: line.unitPrice,
+      ...(line.discountAmount > 0 && { discountAmount: line.discountAmount }),
+      accountCode: accounts.sales,
+      taxType: getTaxType(line.taxRate),
+    };
+  });
+
+  if (pricing.setupFee > 0) {
+    lineItems.push({
+      description: 'Setup fee',
+      quantity: 1,
+      unitAmount: pricing.setupFee,
+      accountCode: accounts.sales,
+      taxType: getTaxType(pricing.setupFeeTaxRate),
+    });
+  }
+
+  return {
+    type: XeroInvoice.TypeEnum.ACCREC,
+    contact: { contactID: contactId },
+    invoiceNumber: order.orderNumber,
+    reference: order.eventType,
+    date: toXeroDate(order.createdAt),
+    dueDate: order.dueDate || order.eventDate,
+    currencyCode: CurrencyCode[currency.toUpperCase() as keyof typeof CurrencyCode],
+    lineAmountTypes: pricing.pricesIncludeTax ? LineAmountTypes.Inclusive : LineAmountTypes.Exclusive,
+    lineItems,
+    status: getXeroInvoiceStatus(order),
+  };
+}
+
+/**
+ * Map a recorded payment to a payment against its Xero invoice. Tips are not
+ * part of the invoice, so only the amount paid towards the order is sent.
+ */
+export function toXeroPayment(payment: Payment, invoiceId: string, accounts: XeroAccountCodes): XeroPayment {
+  return {
+    invoice: { invoiceID: invoiceId },
+    account: { code: accounts.payments },
+    date: toXeroDate(payment.createdAt),
+    amount: roundMoney(parseFloat(payment.amount)),
+    reference: [payment.paymentMethod || payment.provider, payment.paymentId].filter(Boolean).join(' '),
+  };
+}
+
+/**
+ * Map a refund to an ACCREC credit note for the refunded amount, so the sale
+ * is reversed in Xero. The amount refunded includes tax at the order's rate.
+ */
+export function toXeroCreditNote(
+  refund: Refund,
+  order: Order,
+  contactId: string,
+  currency: string,
+  accounts: XeroAccountCodes,
+  getTaxType: TaxTypeResolver
+): XeroCreditNote {
+  return {
+    type: XeroCreditNote.TypeEnum.ACCRECCREDIT,
+    contact: { contactID: contactId },
+    creditNoteNumber: refund.creditNoteNumber,
+    reference: order.orderNumber,
+    date: toXeroDate(refund.createdAt),
+    currencyCode: CurrencyCode[(refund.currency || currency).toUpperCase() as keyof typeof CurrencyCode],
+    lineAmountTypes: LineAmountTypes.Inclusive,
+    lineItems: [
+      {
+        description: refund.reason ? `Refund for order ${order.orderNumber} - ${refund.reason}` : `Refund for order ${order.orderNumber}`,
+        quantity: 1,
+        unitAmount: roundMoney(parseFloat(refund.amount)),
+        accountCode: accounts.sales,
+        taxType: getTaxType(parseFloat(order.taxRate || '0') || 0),
+      },
+    ],
+    status: XeroCreditNote.StatusEnum.AUTHORISED,
+  };
+}
+
+/**
+ * Map a refund to the payment paying out its Xero credit note, from the
+ * account payments are received into
+ */
+export function toXeroRefundPayment(refund: Refund, creditNoteId: string, accounts: XeroAccountCodes): XeroPayment {
+  return {
+    creditNote: { creditNoteID: creditNoteId },
+    account: { code: accounts.payments },
+    date: toXeroDate(refund.createdAt),
+    amount: roundMoney(parseFloat(refund.amount)),
+    reference: [refund.provider, refund.providerRefundId].filter(Boolean).join(' '),
+  };
+}
+
+/**
+ * A hash of what would be sent to Xero, so records that haven't changed since
+ * the last sync can be skipped
+ */
+export function getFingerprint(payload: unknown): string {
+  return crypto.createHash('sha256').update(JSON.stringify(payload)).digest('hex');
+}
+
+function toXeroDate(date: Date | string): string {
+  return new Date(date).toISOString().split('T')[0];
+}
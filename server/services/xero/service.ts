@@ -2,8 +2,18 @@ import { XeroClient } from 'xero-node';
 import crypto from 'crypto';
 import { createXeroClient } from './client';
 import { db } from '../../db';
-import { integrations } from '../../../shared/schema';
-import { eq, and } from 'drizzle-orm';
+import { integrations, accountingSyncRecords, type AccountingSyncRecord } from '../../../shared/schema';
+import { eq, and, desc } from 'drizzle-orm';
+import { XeroSync, type SyncSummary, type XeroEntityType } from './sync';
+
+export type XeroOrderSyncResult = Awaited<ReturnType<XeroSync['syncOrders']>>;
+
+export interface XeroSyncStatus {
+  lastSyncedAt: Date | null;
+  counts: Record<XeroEntityType, { synced: number; failed: number }>;
+  // Records whose last sync failed, with the error from Xero
+  failures: AccountingSyncRecord[];
+}
 
 /**
  * Service for handling Xero integration
@@ -82,10 +92,11 @@ export class XeroService {
       }
 
       // Create client with access token
-      const client = createXeroClient(integration.accessToken);
+      const client = createXeroClient(integration.accessToken, integration.refreshToken || undefined);
+      await client.initialize();
       
       // If token is expired, refresh it
-      if (this.isTokenExpired(integration.updatedAt, integration.expiresIn)) {
+      if (this.isTokenExpired(integration.expiresAt)) {
         const newTokenSet = await client.refreshToken();
         
         // Save new token
@@ -138,49 +149,95 @@ export class XeroService {
   }
 
   /**
-   * Sync orders to Xero as invoices
+   * Sync orders to Xero as invoices, along with their customers, payments and refunds
+   * @returns What was synced, or null if Xero isn't connected
    */
-  async syncOrdersToXero(userId: number): Promise<boolean> {
-    try {
-      const client = await this.getClientForUser(userId);
-      if (!client) {
-        return false;
-      }
-
-      // Logic to sync orders to Xero as invoices
-      // This would include:
-      // 1. Fetching orders from our DB
-      // 2. Converting them to Xero invoice format
-      // 3. Creating or updating invoices in Xero
-
-      return true;
-    } catch (error) {
-      console.error('Error syncing orders to Xero:', error);
-      return false;
-    }
+  async syncOrdersToXero(userId: number): Promise<XeroOrderSyncResult | null> {
+    const sync = await this.createSync(userId);
+    return sync ? await sync.syncOrders() : null;
   }
 
   /**
    * Sync contacts to Xero
+   * @returns What was synced, or null if Xero isn't connected
    */
-  async syncContactsToXero(userId: number): Promise<boolean> {
-    try {
-      const client = await this.getClientForUser(userId);
-      if (!client) {
-        return false;
+  async syncContactsToXero(userId: number): Promise<SyncSummary | null> {
+    const sync = await this.createSync(userId);
+    return sync ? await sync.syncContacts() : null;
+  }
+
+  /**
+   * Get how many records of each type have synced or failed, the last sync
+   * time and the errors for records that failed
+   */
+  async getSyncStatus(userId: number): Promise<XeroSyncStatus> {
+    const records = await db
+      .select()
+      .from(accountingSyncRecords)
+      .where(
+        and(
+          eq(accountingSyncRecords.userId, userId),
+          eq(accountingSyncRecords.provider, 'xero')
+        )
+      )
+      .orderBy(desc(accountingSyncRecords.updatedAt));
+
+    const counts: XeroSyncStatus['counts'] = {
+      contact: { synced: 0, failed: 0 },
+      invoice: { synced: 0, failed: 0 },
+      payment: { synced: 0, failed: 0 },
+      creditNote: { synced: 0, failed: 0 },
+      refund: { synced: 0, failed: 0 },
+    };
+    let lastSyncedAt: Date | null = null;
+
+    for (const record of records) {
+      const entityCounts = counts[record.entityType as XeroEntityType];
+      if (entityCounts) {
+        entityCounts[record.status === 'synced' ? 'synced' : 'failed'] += 1;
       }
 
-      // Logic to sync contacts to Xero
-      // This would include:
-      // 1. Fetching contacts from our DB
-      // 2. Converting them to Xero contact format
-      // 3. Creating or updating contacts in Xero
+      if (record.syncedAt && (!lastSyncedAt || record.syncedAt > lastSyncedAt)) {
+        lastSyncedAt = record.syncedAt;
+      }
+    }
 
-      return true;
-    } catch (error) {
-      console.error('Error syncing contacts to Xero:', error);
-      return false;
+    return {
+      lastSyncedAt,
+      counts,
+      failures: records.filter((record) => record.status === 'failed'),
+    };
+  }
+
+  /**
+   * Set up a sync against the user's Xero organisation
+   */
+  private async createSync(userId: number): Promise<XeroSync | null> {
+    const client = await this.getClientForUser(userId);
+    const tenantId = await this.getTenantId(userId);
+
+    if (!client || !tenantId) {
+      return null;
     }
+
+    return new XeroSync(client.accountingApi, tenantId, userId);
+  }
+
+  /**
+   * Get the ID of the Xero organisation the user connected
+   */
+  private async getTenantId(userId: number): Promise<string | null> {
+    const [integration] = await db
+      .select({ merchantId: integrations.merchantId })
+      .from(integrations)
+      .where(
+        and(
+          eq(integrations.userId, userId),
+          eq(integrations.provider, 'xero')
+        )
+      );
+
+    return integration?.merchantId || null;
   }
 
   /**
@@ -214,6 +271,7 @@ export class XeroService {
    */
   private async saveTokenForUser(userId: number, tokenSet: any): Promise<void> {
     const { access_token, refresh_token, expires_in } = tokenSet;
+    const expiresAt = new Date(Date.now() + (expires_in || 1800) * 1000);
     
     // Check if integration exists
     const [existingIntegration] = await db
@@ -233,7 +291,8 @@ export class XeroService {
         .set({
           accessToken: access_token,
           refreshToken: refresh_token,
-          expiresIn: expires_in,
+          expiresAt,
+          isActive: true,
           updatedAt: new Date()
         })
         .where(eq(integrations.id, existingIntegration.id));
@@ -246,7 +305,8 @@ export class XeroService {
           provider: 'xero',
           accessToken: access_token,
           refreshToken: refresh_token,
-          expiresIn: expires_in
+          expiresAt,
+          isActive: true
         });
     }
   }
@@ -258,7 +318,7 @@ export class XeroService {
     await db
       .update(integrations)
       .set({
-        providerAccountId: tenantId
+        merchantId: tenantId // The Xero organisation is stored as the merchant
       })
       .where(
         and(
@@ -271,9 +331,8 @@ export class XeroService {
   /**
    * Check if a token is expired
    */
-  private isTokenExpired(updatedAt: Date, expiresIn: number): boolean {
-    const expirationTime = new Date(updatedAt).getTime() + (expiresIn * 1000);
-    return Date.now() >= expirationTime;
+  private isTokenExpired(expiresAt: Date | null): boolean {
+    return !expiresAt || Date.now() >= new Date(expiresAt).getTime();
   }
 }
 
@@ -0,0 +1,451 @@
+import { Invoice, TaxRate as XeroTaxRate, type XeroClient } from 'xero-node';
+import { db, type DbExecutor } from '../../db';
+import {
+  accountingSyncRecords,
+  contacts,
+  orders,
+  orderItems,
+  payments,
+  refunds,
+  settings,
+  taxRates,
+  type AccountingSyncRecord,
+  type Order,
+} from '@shared/schema';
+import { settledPaymentStatuses } from '@shared/payment-ledger';
+import { eq, and, inArray } from 'drizzle-orm';
+import {
+  getFingerprint,
+  getXeroInvoiceStatus,
+  toXeroContact,
+  toXeroCreditNote,
+  toXeroInvoice,
+  toXeroPayment,
+  toXeroRefundPayment,
+  type XeroAccountCodes,
+} from './mapping';
+
+/**
+ * The parts of the Xero accounting API the sync uses. Pass a stub with these
+ * methods to run the sync without Xero.
+ */
+export type XeroAccountingApi = Pick<
+  XeroClient['accountingApi'],
+  | 'createContacts'
+  | 'updateContact'
+  | 'createInvoices'
+  | 'updateInvoice'
+  | 'createCreditNotes'
+  | 'updateCreditNote'
+  | 'createPayment'
+  | 'getTaxRates'
+>;
+
+export type XeroEntityType = 'contact' | 'invoice' | 'payment' | 'creditNote' | 'refund';
+
+export interface SyncSummary {
+  created: number;
+  updated: number;
+  skipped: number;
+  failed: number;
+}
+
+type SyncOutcome = keyof SyncSummary;
+
+interface SyncHandlers<T> {
+  // Build what is sent to Xero. Throwing here fails the record, e.g. when a
+  // tax rate has no match in Xero.
+  build: () => Promise<T> | T;
+  create: (payload: T) => Promise<string | undefined>;
+  // Leave out for records Xero doesn't let us change once created
+  update?: (remoteId: string, payload: T) => Promise<void>;
+}
+
+const emptySummary = (): SyncSummary => ({ created: 0, updated: 0, skipped: 0, failed: 0 });
+
+/**
+ * Get a readable message from an error thrown by xero-node, which rejects
+ * with the HTTP response (sometimes as a JSON string) rather than an Error
+ */
+export function describeXeroError(error: any): string {
+  let detail = error;
+  if (typeof error === 'string') {
+    try {
+      detail = JSON.parse(error);
+    } catch {
+      return error;
+    }
+  }
+
+  const body = detail?.response?.body ?? detail?.body;
+  const messages: string[] = (body?.Elements || []).reduce(
+    (all: string[], element: any) => all.concat((element.ValidationErrors || []).map((e: any) => e.Message)),
+    []
+  );
+
+  if (messages.length) {
+    return messages.join('; ');
+  }
+
+  return body?.Message || body?.Detail || detail?.message || 'Unknown Xero error';
+}
+
+/**
+ * Pushes a user's contacts, orders, payments and refunds to a Xero organisation.
+ * Every record is tracked in accounting_sync_records with its Xero ID, so
+ * syncing again updates what changed and skips what didn't.
+ */
+export class XeroSync {
+  private taxTypes = new Map<number, string>();
+  private xeroTaxRates: XeroTaxRate[] | null = null;
+
+  constructor(
+    private readonly api: XeroAccountingApi,
+    private readonly tenantId: string,
+    private readonly userId: number,
+    private readonly executor: DbExecutor = db
+  ) {}
+
+  /**
+   * Sync contacts as Xero customers, all of the user's contacts if no IDs
+   * are given
+   */
+  async syncContacts(contactIds?: number[]): Promise<SyncSummary> {
+    const summary = emptySummary();
+    if (contactIds && contactIds.length === 0) {
+      return summary;
+    }
+
+    const rows = await this.executor
+      .select()
+      .from(contacts)
+      .where(
+        contactIds
+          ? and(eq(contacts.userId, this.userId), inArray(contacts.id, contactIds))
+          : eq(contacts.userId, this.userId)
+      );
+
+    for (const contact of rows) {
+      const outcome = await this.syncRecord('contact', contact.id, {
+        build: () => toXeroContact(contact),
+        create: async (payload) => {
+          const { body } = await this.api.createContacts(this.tenantId, { contacts: [payload] });
+          return body.contacts?.[0]?.contactID;
+        },
+        update: async (remoteId, payload) => {
+          await this.api.updateContact(this.tenantId, remoteId, { contacts: [{ ...payload, contactID: remoteId }] });
+        },
+      });
+      summary[outcome] += 1;
+    }
+
+    return summary;
+  }
+
+  /**
+   * Sync orders as Xero sales invoices, along with their customers and the
+   * payments and refunds recorded against them. Quotes are only synced once
+   * they've been sent to Xero before, e.g. to void them.
+   */
+  async syncOrders(): Promise<{
+    contacts: SyncSummary;
+    invoices: SyncSummary;
+    payments: SyncSummary;
+    creditNotes: SyncSummary;
+    refunds: SyncSummary;
+  }> {
+    const invoices = emptySummary();
+    const existing = await this.getRecords('invoice');
+
+    const rows = (await this.executor.select().from(orders).where(eq(orders.userId, this.userId))).filter(
+      (order) => existing.has(order.id) || !['Quote', 'Draft', 'Cancelled'].includes(order.status)
+    );
+
+    const contactSummary = await this.syncContacts(Array.from(new Set(rows.map((order) => order.contactId))));
+    const contactRecords = await this.getRecords('contact');
+
+    const items = rows.length
+      ? await this.executor.select().from(orderItems).where(inArray(orderItems.orderId, rows.map((order) => order.id)))
+      : [];
+
+    const [userSettings] = await this.executor.select().from(settings).where(eq(settings.userId, this.userId));
+    const currency = userSettings?.currency || 'USD';
+    const accounts: XeroAccountCodes = {
+      sales: userSettings?.xeroSalesAccountCode || '200',
+      payments: userSettings?.xeroPaymentAccountCode || '090',
+    };
+
+    const invoiced: Order[] = [];
+    for (const order of rows) {
+      const outcome = await this.syncRecord('invoice', order.id, {
+        build: async () => {
+          const contactId = contactRecords.get(order.contactId)?.remoteId;
+          if (!contactId) {
+            throw new Error(`Customer ${order.contactId} has not been synced to Xero`);
+          }
+
+          const orderLines = items.filter((item) => item.orderId === order.id);
+          // Lines without their own rate, and the setup fee, use the order's rate
+          const rates = [order.taxRate, ...orderLines.map((item) => item.taxRate ?? order.taxRate)];
+          const taxTypes = await this.getTaxTypes(Array.from(new Set(rates.map((rate) => parseFloat(rate || '0') || 0))));
+
+          return toXeroInvoice(order, orderLines, contactId, currency, accounts, (rate) => taxTypes.get(rate)!);
+        },
+        create: async (payload) => {
+          const { body } = await this.api.createInvoices(this.tenantId, { invoices: [payload] });
+          return body.invoices?.[0]?.invoiceID;
+        },
+        update: async (remoteId, payload) => {
+          await this.api.updateInvoice(this.tenantId, remoteId, { invoices: [{ ...payload, invoiceID: remoteId }] });
+        },
+      });
+      invoices[outcome] += 1;
+
+      if (outcome !== 'failed' && getXeroInvoiceStatus(order) === Invoice.StatusEnum.AUTHORISED) {
+        invoiced.push(order);
+      }
+    }
+
+    const paymentSummary = await this.syncPayments(invoiced, accounts);
+    const refundSummary = await this.syncRefunds(invoiced, contactRecords, currency, accounts);
+
+    return { contacts: contactSummary, invoices, payments: paymentSummary, ...refundSummary };
+  }
+
+  /**
+   * Sync the settled payments on orders whose invoices are in Xero, at the
+   * amount originally paid. Refunds are synced separately as credit notes.
+   * Xero payments can't be edited, so a payment is only ever sent once.
+   */
+  private async syncPayments(invoiced: Order[], accounts: XeroAccountCodes): Promise<SyncSummary> {
+    const summary = emptySummary();
+    if (invoiced.length === 0) {
+      return summary;
+    }
+
+    const invoiceRecords = await this.getRecords('invoice');
+    const rows = await this.executor
+      .select()
+      .from(payments)
+      .where(
+        and(
+          inArray(payments.orderId, invoiced.map((order) => order.id)),
+          inArray(payments.status, settledPaymentStatuses)
+        )
+      );
+
+    for (const payment of rows) {
+      const outcome = await this.syncRecord('payment', payment.id, {
+        build: () => toXeroPayment(payment, invoiceRecords.get(payment.orderId)!.remoteId!, accounts),
+        create: async (payload) => {
+          const { body } = await this.api.createPayment(this.tenantId, payload);
+          return body.payments?.[0]?.paymentID;
+        },
+      });
+      summary[outcome] += 1;
+    }
+
+    return summary;
+  }
+
+  /**
+   * Sync completed refunds on orders whose invoices are in Xero. Each refund
+   * is a credit note reversing the sale, paid out from the payments account
+   * so the money leaving is recorded too. A refund completed since the last
+   * sync is picked up the next time round.
+   */
+  private async syncRefunds(
+    invoiced: Order[],
+    contactRecords: Map<number, AccountingSyncRecord>,
+    currency: string,
+    accounts: XeroAccountCodes
+  ): Promise<{ creditNotes: SyncSummary; refunds: SyncSummary }> {
+    const creditNotes = emptySummary();
+    const refundSummary = emptySummary();
+    if (invoiced.length === 0) {
+      return { creditNotes, refunds: refundSummary };
+    }
+
+    const rows = await this.executor
+      .select()
+      .from(refunds)
+      .where(and(inArray(refunds.orderId, invoiced.map((order) => order.id)), eq(refunds.status, 'completed')));
+
+    for (const refund of rows) {
+      const order = invoiced.find((item) => item.id === refund.orderId)!;
+
+      const outcome = await this.syncRecord('creditNote', refund.id, {
+        build: async () => {
+          const contactId = contactRecords.get(order.contactId)?.remoteId;
+          if (!contactId) {
+            throw new Error(`Customer ${order.contactId} has not been synced to Xero`);
+          }
+
+          const rate = parseFloat(order.taxRate || '0') || 0;
+          const taxTypes = await this.getTaxTypes([rate]);
+
+          return toXeroCreditNote(refund, order, contactId, currency, accounts, (value) => taxTypes.get(value)!);
+        },
+        create: async (payload) => {
+          const { body } = await this.api.createCreditNotes(this.tenantId, { creditNotes: [payload] });
+          return body.creditNotes?.[0]?.creditNoteID;
+        },
+        update: async (remoteId, payload) => {
+          await this.api.updateCreditNote(this.tenantId, remoteId, { creditNotes: [{ ...payload, creditNoteID: remoteId }] });
+        },
+      });
+      creditNotes[outcome] += 1;
+
+      if (outcome === 'failed') {
+        continue;
+      }
+
+      const creditNoteId = (await this.getRecords('creditNote')).get(refund.id)!.remoteId!;
+      const refundOutcome = await this.syncRecord('refund', refund.id, {
+        build: () => toXeroRefundPayment(refund, creditNoteId, accounts),
+        create: async (payload) => {
+          const { body } = await this.api.createPayment(this.tenantId, payload);
+          return body.payments?.[0]?.paymentID;
+        },
+      });
+      refundSummary[refundOutcome] += 1;
+    }
+
+    return { creditNotes, refunds: refundSummary };
+  }
+
+  /**
+   * Create or update one record in Xero and save how it went
+   */
+  private async syncRecord<T>(entityType: XeroEntityType, localId: number, handlers: SyncHandlers<T>): Promise<SyncOutcome> {
+    const [record] = await this.executor
+      .select()
+      .from(accountingSyncRecords)
+      .where(
+        and(
+          eq(accountingSyncRecords.userId, this.userId),
+          eq(accountingSyncRecords.provider, 'xero'),
+          eq(accountingSyncRecords.entityType, entityType),
+          eq(accountingSyncRecords.localId, localId)
+        )
+      );
+
+    let fingerprint: string | null = null;
+    try {
+      const payload = await handlers.build();
+      fingerprint = getFingerprint(payload);
+
+      if (record?.remoteId && (record.fingerprint === fingerprint || !handlers.update)) {
+        if (record.status !== 'synced') {
+          await this.saveRecord(record, entityType, localId, { status: 'synced', error: null });
+        }
+        return 'skipped';
+      }
+
+      let remoteId: string | null | undefined = record?.remoteId;
+      if (remoteId) {
+        await handlers.update!(remoteId, payload);
+      } else {
+        remoteId = await handlers.create(payload);
+        if (!remoteId) {
+          throw new Error('Xero did not return an ID');
+        }
+      }
+
+      await this.saveRecord(record, entityType, localId, {
+        remoteId,
+        status: 'synced',
+        error: null,
+        fingerprint,
+        syncedAt: new Date(),
+      });
+
+      return record?.remoteId ? 'updated' : 'created';
+    } catch (error) {
+      const message = describeXeroError(error);
+      console.error(`Error syncing ${entityType} ${localId} to Xero:`, message);
+
+      await this.saveRecord(record, entityType, localId, { status: 'failed', error: message });
+      return 'failed';
+    }
+  }
+
+  private async saveRecord(
+    record: AccountingSyncRecord | undefined,
+    entityType: XeroEntityType,
+    localId: number,
+    values: Partial<Pick<AccountingSyncRecord, 'remoteId' | 'status' | 'error' | 'fingerprint' | 'syncedAt'>>
+  ): Promise<void> {
+    if (record) {
+      await this.executor
+        .update(accountingSyncRecords)
+        .set({ ...values, updatedAt: new Date() })
+        .where(eq(accountingSyncRecords.id, record.id));
+    } else {
+      await this.executor.insert(accountingSyncRecords).values({
+        userId: this.userId,
+        provider: 'xero',
+        entityType,
+        localId,
+        status: values.status || 'synced',
+        ...values,
+      });
+    }
+  }
+
+  /**
+   * Get the sync records for one type of record, by local ID
+   */
+  private async getRecords(entityType: XeroEntityType): Promise<Map<number, AccountingSyncRecord>> {
+    const rows = await this.executor
+      .select()
+      .from(accountingSyncRecords)
+      .where(
+        and(
+          eq(accountingSyncRecords.userId, this.userId),
+          eq(accountingSyncRecords.provider, 'xero'),
+          eq(accountingSyncRecords.entityType, entityType)
+        )
+      );
+
+    return new Map(rows.map((record) => [record.localId, record]));
+  }
+
+  /**
+   * Find the Xero tax type for each tax rate percentage. The user's tax rate
+   * with that percentage is matched to a Xero tax rate by name, falling back
+   * to any Xero sales tax rate with the same percentage.
+   */
+  private async getTaxTypes(rates: number[]): Promise<Map<number, string>> {
+    const missing = rates.filter((rate) => !this.taxTypes.has(rate));
+
+    if (missing.length) {
+      if (!this.xeroTaxRates) {
+        const { body } = await this.api.getTaxRates(this.tenantId);
+        this.xeroTaxRates = (body.taxRates || []).filter(
+          (rate) => rate.status === XeroTaxRate.StatusEnum.ACTIVE && rate.canApplyToRevenue !== false
+        );
+      }
+
+      const localRates = await this.executor
+        .select()
+        .from(taxRates)
+        .where(and(eq(taxRates.userId, this.userId), eq(taxRates.active, true)));
+
+      for (const rate of missing) {
+        const local = localRates.find((localRate) => parseFloat(localRate.rate) === rate);
+        const match =
+          (local && this.xeroTaxRates.find((xeroRate) => xeroRate.name?.toLowerCase() === local.name.toLowerCase())) ||
+          this.xeroTaxRates.find((xeroRate) => xeroRate.effectiveRate === rate);
+
+        if (!match?.taxType) {
+          throw new Error(`No Xero tax rate matches ${local ? `${local.name} (${rate}%)` : `${rate}%`}`);
+        }
+
+        this.taxTypes.set(rate, match.taxType);
+      }
+    }
+
+    return this.taxTypes;
+  }
+}
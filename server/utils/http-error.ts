@@ -0,0 +1,12 @@
+/**
+ * Error carrying the HTTP status a route should respond with
+ */
+export class HttpError extends Error {
+  status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.name = "HttpError";
+    this.status = status;
+  }
+}
@@ -0,0 +1,63 @@
+import { z } from "zod";
+
+// Accounting exports shared by the server (which builds the files) and the
+// export page (which picks the format and edits the account codes).
+
+export const accountingExportFormats = [
+  "quickbooks-iif",
+  "quickbooks-invoices-csv",
+  "quickbooks-bills-csv",
+  "sage-csv",
+  "journal-csv",
+] as const;
+
+export type AccountingExportFormat = typeof accountingExportFormats[number];
+
+export const accountingExportFormatLabels: Record<AccountingExportFormat, string> = {
+  "quickbooks-iif": "QuickBooks Desktop (IIF)",
+  "quickbooks-invoices-csv": "QuickBooks Online invoices (CSV)",
+  "quickbooks-bills-csv": "QuickBooks Online bills (CSV)",
+  "sage-csv": "Sage (CSV)",
+  "journal-csv": "General journal (CSV)",
+};
+
+const accountCode = z.string().trim().min(1, "Account code is required");
+
+/**
+ * The accounts each kind of transaction is posted to. Income and expense
+ * categories can each have their own account, falling back to the sales and
+ * expenses accounts.
+ */
+export const accountCodesSchema = z.object({
+  sales: accountCode,
+  tips: accountCode,
+  bank: accountCode,
+  accountsReceivable: accountCode,
+  accountsPayable: accountCode,
+  salesTax: accountCode,
+  purchaseTax: accountCode,
+  expenses: accountCode,
+  mileage: accountCode,
+  incomeCategories: z.record(accountCode),
+  expenseCategories: z.record(accountCode),
+  // Amount claimed per mile driven
+  mileageRate: z.coerce.number().min(0),
+});
+
+export type AccountCodes = z.infer<typeof accountCodesSchema>;
+
+// Sage 50 style nominal codes, which most accounting packages can map from
+export const defaultAccountCodes: AccountCodes = {
+  sales: "4000",
+  tips: "4010",
+  bank: "1200",
+  accountsReceivable: "1100",
+  accountsPayable: "2100",
+  salesTax: "2200",
+  purchaseTax: "2201",
+  expenses: "5000",
+  mileage: "7300",
+  incomeCategories: {},
+  expenseCategories: {},
+  mileageRate: 0.7,
+};
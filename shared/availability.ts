@@ -0,0 +1,58 @@
+// Availability shared by the server (which enforces it when orders and
+// enquiries are created) and the calendars (which show it).
+
+export const weekdayNames = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'] as const;
+export type WeekdayName = typeof weekdayNames[number];
+
+// Shape of `settings.businessHours`. Days that are missing are treated as open.
+export type BusinessHours = Partial<Record<WeekdayName, { open: boolean; start?: string; end?: string }>>;
+
+export type AvailabilityStatus = 'available' | 'blocked' | 'closed' | 'full';
+
+export interface DateAvailability {
+  date: string;
+  status: AvailabilityStatus;
+  blockReasons: string[];
+  orderCount: number;
+  laborHours: number;
+  maxOrders: number | null;
+  maxLaborHours: number | null;
+}
+
+/**
+ * Check whether a value is a real calendar date written as YYYY-MM-DD
+ */
+export function isDateString(value: unknown): value is string {
+  if (typeof value !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+    return false;
+  }
+
+  const parsed = new Date(`${value}T00:00:00Z`);
+  return !isNaN(parsed.getTime()) && parsed.toISOString().startsWith(value);
+}
+
+/**
+ * Check whether the business is open on a day of the week (0 = Sunday)
+ */
+export function isOpenOnWeekday(businessHours: BusinessHours | null | undefined, weekday: number): boolean {
+  const hours = businessHours?.[weekdayNames[weekday]];
+  return hours ? hours.open !== false : true;
+}
+
+/**
+ * Human readable explanation of why a date can't take more orders
+ */
+export function describeAvailability(availability: DateAvailability): string {
+  switch (availability.status) {
+    case 'blocked':
+      return availability.blockReasons.length > 0
+        ? `This date is blocked: ${availability.blockReasons.join(', ')}`
+        : 'This date is blocked';
+    case 'closed':
+      return 'The business is closed on this day';
+    case 'full':
+      return 'This date is fully booked';
+    default:
+      return 'This date is available';
+  }
+}
@@ -0,0 +1,126 @@
+import { z } from "zod";
+import { automationEmailTypes, validateEmailTemplate, type AutomationEmailType } from "./email-templates";
+
+// Customer automations shared by the server (which sends them) and the
+// automations page (which turns them on and writes their emails).
+
+export const customerAutomationTypes = automationEmailTypes;
+
+export type CustomerAutomationType = AutomationEmailType;
+
+export const customerAutomationLabels: Record<CustomerAutomationType, string> = {
+  orderConfirmation: "Order confirmation",
+  eventReminder: "Event reminder",
+  reviewRequest: "Thank you and review request",
+};
+
+export const customerAutomationDescriptions: Record<CustomerAutomationType, string> = {
+  orderConfirmation: "Sent when an order is confirmed.",
+  eventReminder: "Sent before the event with the delivery or collection details.",
+  reviewRequest: "Sent after an order is delivered, thanking the customer and asking for a review.",
+};
+
+// What `days` counts from, if the automation has a timing at all
+export const customerAutomationTiming: Record<CustomerAutomationType, "before" | "after" | null> = {
+  orderConfirmation: null,
+  eventReminder: "before",
+  reviewRequest: "after",
+};
+
+export const MAX_AUTOMATION_DAYS = 60;
+
+export interface CustomerAutomationSettings {
+  type: CustomerAutomationType;
+  enabled: boolean;
+  days: number;
+  subject: string;
+  body: string;
+}
+
+// Confirmations go out unless turned off, as they did before automations
+export const defaultCustomerAutomations: Record<CustomerAutomationType, Omit<CustomerAutomationSettings, "type">> = {
+  orderConfirmation: {
+    enabled: true,
+    days: 0,
+    subject: "Order #{{order.number}} confirmed",
+    body: `Hi {{contact.firstName}}
+
+Thank you for your order. Your {{order.eventType}} order {{order.number}} for {{order.eventDate}} is now confirmed.
+
+{{#if portal.link}}
+You can view your order at {{portal.link}}
+
+{{/if}}
+Kind regards
+{{business.name}}`,
+  },
+  eventReminder: {
+    enabled: false,
+    days: 2,
+    subject: "Your order #{{order.number}} is coming up",
+    body: `Hi {{contact.firstName}}
+
+Just a reminder that your {{order.eventType}} order {{order.number}} is booked in for {{order.eventDate}}.
+
+{{order.deliveryType}}{{#if order.deliveryTime}} at {{order.deliveryTime}}{{/if}}
+{{#if order.deliveryDetails}}
+{{order.deliveryDetails}}
+{{/if}}
+
+{{#if payments.balance}}
+There is {{payments.balance}} left to pay{{#if portal.link}}, which you can pay online at {{portal.link}}{{/if}}.
+
+{{/if}}
+If anything has changed, please let us know.
+
+Kind regards
+{{business.name}}`,
+  },
+  reviewRequest: {
+    enabled: false,
+    days: 2,
+    subject: "Thank you from {{business.name}}",
+    body: `Hi {{contact.firstName}}
+
+Thank you for choosing us for your {{order.eventType}}. We hope everyone enjoyed it!
+
+{{#if business.reviewLink}}
+If you have a moment, we'd love it if you left us a review at {{business.reviewLink}}
+
+{{/if}}
+Thanks again
+{{business.name}}`,
+  },
+};
+
+const customerAutomationSchema = z
+  .object({
+    type: z.enum(customerAutomationTypes),
+    enabled: z.boolean(),
+    days: z.number().int().min(0).max(MAX_AUTOMATION_DAYS),
+    subject: z.string().trim().min(1, "Subject is required").max(200),
+    body: z.string().trim().min(1, "Email is required"),
+  })
+  .superRefine((value, ctx) => {
+    for (const field of ["subject", "body"] as const) {
+      for (const message of validateEmailTemplate(value.type, value[field])) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: [field], message });
+      }
+    }
+  });
+
+/**
+ * The automations as the automations page saves them, with the review link
+ * the thank you email can use
+ */
+export const customerAutomationsSchema = z.object({
+  automations: z.array(customerAutomationSchema),
+  reviewUrl: z.string().trim().url("Enter a full link, starting https://").nullable().or(z.literal("")),
+});
+
+export type CustomerAutomationsInput = z.infer<typeof customerAutomationsSchema>;
+
+export interface CustomerAutomationsResponse {
+  automations: CustomerAutomationSettings[];
+  reviewUrl: string | null;
+}
@@ -0,0 +1,77 @@
+// The email outbox shared by the server (which queues and sends emails) and
+// the order and contact pages (which list the emails sent).
+
+export const emailOutboxStatuses = ["queued", "sending", "sent", "failed"] as const;
+
+export type EmailOutboxStatus = typeof emailOutboxStatuses[number];
+
+export const emailOutboxStatusLabels: Record<EmailOutboxStatus, string> = {
+  queued: "Queued",
+  sending: "Sending",
+  sent: "Sent",
+  failed: "Failed",
+};
+
+export const emailCategories = [
+  "invoice",
+  "quote",
+  "payment_reminder",
+  "order_update",
+  "report",
+  "account",
+  "other",
+] as const;
+
+export type EmailCategory = typeof emailCategories[number];
+
+export const emailCategoryLabels: Record<EmailCategory, string> = {
+  invoice: "Invoice",
+  quote: "Quote",
+  payment_reminder: "Payment reminder",
+  order_update: "Order update",
+  report: "Report",
+  account: "Account",
+  other: "Email",
+};
+
+/**
+ * A file sent with an email, stored with the queued email until it is sent
+ */
+export interface EmailAttachment {
+  filename: string;
+  type: string;
+  // Base64 encoded
+  content: string;
+}
+
+/**
+ * A queued or sent email as listed on an order or contact, without its body
+ * or attachment contents
+ */
+export interface EmailOutboxSummary {
+  id: number;
+  orderId: number | null;
+  contactId: number | null;
+  category: EmailCategory;
+  toAddress: string;
+  subject: string;
+  status: EmailOutboxStatus;
+  attempts: number;
+  lastError: string | null;
+  nextAttemptAt: string;
+  sentAt: string | null;
+  createdAt: string;
+  attachments: string[];
+}
+
+/**
+ * A single email with its body, for viewing what was sent
+ */
+export interface EmailOutboxDetail extends EmailOutboxSummary {
+  fromAddress: string;
+  fromName: string | null;
+  textBody: string | null;
+  htmlBody: string | null;
+  transport: string | null;
+  providerMessageId: string | null;
+}
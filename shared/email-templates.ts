@@ -0,0 +1,503 @@
+import { z } from "zod";
+
+// Email templates shared by the server (which fills them in and sends them)
+// and the template editor (which checks them as they are typed).
+//
+// Templates are plain text with {{placeholders}}. Sections can be shown
+// only when a value is set with {{#if name}}...{{else}}...{{/if}}, and the
+// order's items can be listed with {{#each order.items}}...{{/each}}, using
+// the {{item.*}} placeholders inside the loop.
+
+export const emailTemplateTypes = [
+  "quote",
+  "invoice",
+  "paymentReminder",
+  "paymentReceipt",
+  "enquiryMessage",
+] as const;
+
+export type EmailTemplateType = typeof emailTemplateTypes[number];
+
+// Emails sent by customer automations. Their templates are kept with each
+// automation (see shared/customer-automations) rather than in settings.
+export const automationEmailTypes = ["orderConfirmation", "eventReminder", "reviewRequest"] as const;
+
+export type AutomationEmailType = typeof automationEmailTypes[number];
+
+// Every kind of email a template can be written for
+export type AnyEmailTemplateType = EmailTemplateType | AutomationEmailType;
+
+export const emailTemplateLabels: Record<AnyEmailTemplateType, string> = {
+  quote: "Quote",
+  invoice: "Invoice",
+  paymentReminder: "Payment Reminder",
+  paymentReceipt: "Payment Receipt",
+  enquiryMessage: "Enquiry Message",
+  orderConfirmation: "Order Confirmation",
+  eventReminder: "Event Reminder",
+  reviewRequest: "Thank You",
+};
+
+// Where each template is stored in `settings`
+export const emailTemplateFields = {
+  quote: "quoteEmailTemplate",
+  invoice: "invoiceEmailTemplate",
+  paymentReminder: "paymentReminderTemplate",
+  paymentReceipt: "paymentReceiptTemplate",
+  enquiryMessage: "enquiryMessageTemplate",
+} as const satisfies Record<EmailTemplateType, string>;
+
+export type EmailTemplateField = typeof emailTemplateFields[EmailTemplateType];
+
+export const emailPlaceholderGroups = {
+  order: "Order",
+  contact: "Customer",
+  business: "Your business",
+  payments: "Payments",
+  portal: "Customer portal",
+  enquiry: "Enquiry",
+} as const;
+
+export type EmailPlaceholderGroup = keyof typeof emailPlaceholderGroups;
+
+// How a value is written out. Money is formatted in the user's currency.
+type PlaceholderKind = "text" | "date" | "money" | "number" | "list";
+
+interface PlaceholderDefinition {
+  group: EmailPlaceholderGroup;
+  kind: PlaceholderKind;
+  description: string;
+  // Template types the placeholder is limited to, when not every type that
+  // has its group can fill it in
+  only?: AnyEmailTemplateType[];
+}
+
+export const emailPlaceholders = {
+  "order.number": { group: "order", kind: "text", description: "Order or quote number" },
+  "order.eventType": { group: "order", kind: "text", description: "Event type" },
+  "order.eventDate": { group: "order", kind: "date", description: "Event date" },
+  "order.deliveryType": { group: "order", kind: "text", description: "Delivery or collection" },
+  "order.deliveryTime": { group: "order", kind: "text", description: "Delivery or collection time" },
+  "order.deliveryDetails": { group: "order", kind: "text", description: "Delivery address or collection details" },
+  "order.total": { group: "order", kind: "money", description: "Total" },
+  "order.dueDate": {
+    group: "order",
+    kind: "date",
+    description: "Payment due date",
+    only: ["invoice", "paymentReminder", "paymentReceipt", "orderConfirmation", "eventReminder"],
+  },
+  "order.validUntil": { group: "order", kind: "date", description: "Date the quote expires", only: ["quote"] },
+  "order.items": { group: "order", kind: "list", description: "Items, for {{#each order.items}}" },
+  "contact.name": { group: "contact", kind: "text", description: "Full name" },
+  "contact.firstName": { group: "contact", kind: "text", description: "First name" },
+  "contact.lastName": { group: "contact", kind: "text", description: "Last name" },
+  "contact.business": { group: "contact", kind: "text", description: "Business name" },
+  "contact.email": { group: "contact", kind: "text", description: "Email" },
+  "contact.phone": { group: "contact", kind: "text", description: "Phone" },
+  "business.name": { group: "business", kind: "text", description: "Your business name" },
+  "business.email": { group: "business", kind: "text", description: "Your business email" },
+  "business.phone": { group: "business", kind: "text", description: "Your business phone" },
+  "business.address": { group: "business", kind: "text", description: "Your business address" },
+  "business.reviewLink": {
+    group: "business",
+    kind: "text",
+    description: "Where customers can leave you a review",
+    only: ["reviewRequest"],
+  },
+  "payments.amountPaid": { group: "payments", kind: "money", description: "Paid so far, less refunds" },
+  "payments.balance": { group: "payments", kind: "money", description: "Still to pay" },
+  "payments.overdue": { group: "payments", kind: "money", description: "Overdue amount" },
+  "payments.nextAmount": { group: "payments", kind: "money", description: "Next instalment amount" },
+  "payments.nextDueDate": { group: "payments", kind: "date", description: "Next instalment due date" },
+  "payments.daysRemaining": { group: "payments", kind: "number", description: "Days until the payment due date" },
+  "payments.receivedAmount": {
+    group: "payments",
+    kind: "money",
+    description: "Amount of the payment being receipted",
+    only: ["paymentReceipt"],
+  },
+  "payments.receivedDate": {
+    group: "payments",
+    kind: "date",
+    description: "Date of the payment being receipted",
+    only: ["paymentReceipt"],
+  },
+  "payments.receivedMethod": {
+    group: "payments",
+    kind: "text",
+    description: "How the payment being receipted was made",
+    only: ["paymentReceipt"],
+  },
+  "portal.link": { group: "portal", kind: "text", description: "Link to view and pay online" },
+  "enquiry.eventType": { group: "enquiry", kind: "text", description: "Event type asked about" },
+  "enquiry.eventDate": { group: "enquiry", kind: "date", description: "Event date asked about" },
+} as const satisfies Record<string, PlaceholderDefinition>;
+
+// Filled in for each item inside {{#each order.items}}
+export const emailItemPlaceholders = {
+  "item.name": { kind: "text", description: "Item name" },
+  "item.description": { kind: "text", description: "Item description" },
+  "item.quantity": { kind: "number", description: "Quantity" },
+  "item.unitPrice": { kind: "money", description: "Price each" },
+  "item.total": { kind: "money", description: "Line total" },
+} as const satisfies Record<string, { kind: PlaceholderKind; description: string }>;
+
+export type EmailPlaceholder = keyof typeof emailPlaceholders;
+export type EmailItemPlaceholder = keyof typeof emailItemPlaceholders;
+
+// Placeholder groups each template type can use
+export const emailTemplateGroups: Record<AnyEmailTemplateType, EmailPlaceholderGroup[]> = {
+  quote: ["order", "contact", "business", "portal"],
+  invoice: ["order", "contact", "business", "payments", "portal"],
+  paymentReminder: ["order", "contact", "business", "payments", "portal"],
+  paymentReceipt: ["order", "contact", "business", "payments", "portal"],
+  enquiryMessage: ["contact", "business", "enquiry"],
+  orderConfirmation: ["order", "contact", "business", "payments", "portal"],
+  eventReminder: ["order", "contact", "business", "payments", "portal"],
+  reviewRequest: ["order", "contact", "business"],
+};
+
+/**
+ * The placeholders a template type can use
+ */
+export function getEmailPlaceholders(type: AnyEmailTemplateType): EmailPlaceholder[] {
+  return (Object.keys(emailPlaceholders) as EmailPlaceholder[]).filter((name) => {
+    const definition: PlaceholderDefinition = emailPlaceholders[name];
+    return emailTemplateGroups[type].includes(definition.group) && (!definition.only || definition.only.includes(type));
+  });
+}
+
+// Block tags on a line by themselves don't leave a blank line behind, so
+// each optional paragraph carries its own trailing blank line
+export const defaultEmailTemplates: Record<EmailTemplateType, string> = {
+  quote: `Hi {{contact.firstName}}
+
+Please find your quote {{order.number}} attached.
+
+{{#if portal.link}}
+You can view and accept it online at {{portal.link}}
+
+{{/if}}
+If you have any trouble viewing it, please contact us.
+
+Thanks again
+{{business.name}}`,
+
+  invoice: `Hi {{contact.firstName}}
+
+Please find your invoice for order {{order.number}} attached.
+
+{{#if payments.balance}}
+There is {{payments.balance}} left to pay{{#if order.dueDate}} by {{order.dueDate}}{{/if}}.
+
+{{/if}}
+{{#if portal.link}}
+To view your order and make an online payment, please click on the link below.
+{{portal.link}}
+
+{{/if}}
+If you have any trouble viewing it, please contact us.
+
+Thanks again
+{{business.name}}`,
+
+  paymentReminder: `Hi {{contact.firstName}}
+
+This is a friendly reminder that a payment of {{payments.balance}} is due{{#if order.dueDate}} on {{order.dueDate}}{{/if}} for your order {{order.number}}.
+
+{{#if portal.link}}
+You can pay online at {{portal.link}}
+
+{{/if}}
+I'd appreciate it if you could make the payment as soon as possible. If you have any questions or concerns please feel free to contact me.
+
+Thanks again
+{{business.name}}`,
+
+  paymentReceipt: `Hi {{contact.firstName}}
+
+Thank you for your payment of {{payments.receivedAmount}} for order {{order.number}}. Please find your receipt attached.
+
+{{#if payments.balance}}
+There is {{payments.balance}} left to pay.
+{{else}}
+Your order is now paid in full.
+{{/if}}
+
+If you have any questions or concerns please feel free to contact me.
+
+Thanks again
+{{business.name}}`,
+
+  enquiryMessage: `Hi {{contact.firstName}}
+
+Thank you for your {{enquiry.eventType}} enquiry. We're reviewing it, and we'll contact you as soon as possible.
+
+If you have any questions or concerns please feel free to contact me.
+
+Thanks again
+{{business.name}}`,
+};
+
+export const MAX_EMAIL_TEMPLATE_LENGTH = 10000;
+
+const TAG = /\{\{\s*([#\/]?)([\w.]+)(?:\s+([\w.]+))?\s*\}\}/g;
+
+type TemplateNode =
+  | { kind: "text"; text: string }
+  | { kind: "value"; name: string; line: number }
+  | { kind: "if"; name: string; line: number; then: TemplateNode[]; otherwise: TemplateNode[] }
+  | { kind: "each"; name: string; line: number; body: TemplateNode[] };
+
+type Block = Extract<TemplateNode, { kind: "if" | "each" }>;
+
+/**
+ * Split a template into text, placeholders and blocks. Mistakes in the
+ * block structure are returned as errors rather than thrown.
+ */
+function parseTemplate(template: string): { nodes: TemplateNode[]; errors: string[] } {
+  const root: TemplateNode[] = [];
+  const errors: string[] = [];
+  // Open blocks, innermost last, with the list new nodes are added to
+  const stack: { block: Block; nodes: TemplateNode[] }[] = [];
+  const current = () => (stack.length > 0 ? stack[stack.length - 1].nodes : root);
+  const lineAt = (index: number) => template.slice(0, index).split("\n").length;
+
+  let position = 0;
+  for (const match of Array.from(template.matchAll(TAG))) {
+    const index = match.index || 0;
+    const line = lineAt(index);
+    const [tag, prefix, keyword, argument] = match;
+
+    // A block tag on a line by itself takes the whole line with it, so
+    // blocks don't leave blank lines behind
+    let start = index;
+    let end = index + tag.length;
+    if (prefix || (keyword === "else" && !argument)) {
+      const lineStart = template.lastIndexOf("\n", index - 1) + 1;
+      const lineEnd = template.indexOf("\n", end);
+      const after = lineEnd === -1 ? template.length : lineEnd;
+
+      if (lineStart >= position && !template.slice(lineStart, index).trim() && !template.slice(end, after).trim()) {
+        start = lineStart;
+        end = lineEnd === -1 ? template.length : lineEnd + 1;
+      }
+    }
+
+    if (start > position) {
+      current().push({ kind: "text", text: template.slice(position, start) });
+    }
+    position = end;
+
+    if (prefix === "#") {
+      if ((keyword !== "if" && keyword !== "each") || !argument) {
+        errors.push(`Line ${line}: ${tag} should be {{#if name}} or {{#each name}}`);
+        continue;
+      }
+
+      const block: Block = keyword === "if"
+        ? { kind: "if", name: argument, line, then: [], otherwise: [] }
+        : { kind: "each", name: argument, line, body: [] };
+      current().push(block);
+      stack.push({ block, nodes: block.kind === "if" ? block.then : block.body });
+    } else if (prefix === "/") {
+      const open = stack.pop();
+      if (!open) {
+        errors.push(`Line ${line}: ${tag} has no matching {{#${keyword}}}`);
+      } else if (open.block.kind !== keyword) {
+        errors.push(`Line ${line}: ${tag} closes {{#${open.block.kind} ${open.block.name}}} from line ${open.block.line}`);
+      }
+    } else if (keyword === "else" && !argument) {
+      const open = stack[stack.length - 1];
+      if (!open || open.block.kind !== "if" || open.nodes === open.block.otherwise) {
+        errors.push(`Line ${line}: {{else}} must be inside an {{#if}} block, once`);
+      } else {
+        open.nodes = open.block.otherwise;
+      }
+    } else if (argument) {
+      errors.push(`Line ${line}: ${tag} should be a single placeholder`);
+    } else {
+      current().push({ kind: "value", name: keyword, line });
+    }
+  }
+
+  if (position < template.length) {
+    current().push({ kind: "text", text: template.slice(position) });
+  }
+
+  for (const open of stack) {
+    errors.push(`Line ${open.block.line}: {{#${open.block.kind} ${open.block.name}}} is never closed with {{/${open.block.kind}}}`);
+  }
+
+  // Braces left over once the tags are taken out
+  template.split("\n").forEach((text, index) => {
+    const rest = text.replace(TAG, "");
+    if (rest.includes("{{") || rest.includes("}}")) {
+      errors.push(`Line ${index + 1}: unmatched {{ or }}`);
+    }
+  });
+
+  return { nodes: root, errors };
+}
+
+/**
+ * Check a template for a template type. Every placeholder must be one the
+ * type can fill in, and blocks must be opened and closed in order.
+ * @returns What is wrong with the template, empty if it can be used
+ */
+export function validateEmailTemplate(type: AnyEmailTemplateType, template: string): string[] {
+  if (template.length > MAX_EMAIL_TEMPLATE_LENGTH) {
+    return [`Template must be at most ${MAX_EMAIL_TEMPLATE_LENGTH} characters`];
+  }
+
+  const { nodes, errors } = parseTemplate(template);
+  const allowed = new Set<string>(getEmailPlaceholders(type));
+
+  const check = (list: TemplateNode[], inItems: boolean) => {
+    for (const node of list) {
+      if (node.kind === "text") {
+        continue;
+      }
+
+      const isItem = node.name in emailItemPlaceholders;
+      const isList = node.name === "order.items";
+
+      if (isItem && !inItems) {
+        errors.push(`Line ${node.line}: {{${node.name}}} can only be used inside {{#each order.items}}`);
+      } else if (!isItem && !allowed.has(node.name)) {
+        errors.push(`Line ${node.line}: unknown placeholder {{${node.name}}} for ${emailTemplateLabels[type]} emails`);
+      } else if (node.kind === "value" && isList) {
+        errors.push(`Line ${node.line}: {{order.items}} is a list; use {{#each order.items}}`);
+      } else if (node.kind === "each" && !isList) {
+        errors.push(`Line ${node.line}: {{#each ${node.name}}} is not a list`);
+      }
+
+      if (node.kind === "if") {
+        check(node.then, inItems);
+        check(node.otherwise, inItems);
+      } else if (node.kind === "each") {
+        check(node.body, true);
+      }
+    }
+  };
+
+  check(nodes, false);
+  return errors;
+}
+
+export type EmailTemplateValue = string | number | null | undefined;
+
+/**
+ * Values a template is filled in with. Money and numbers are given as
+ * numbers and dates as already formatted text.
+ */
+export interface EmailTemplateData {
+  values: Partial<Record<EmailPlaceholder, EmailTemplateValue>>;
+  items: Partial<Record<EmailItemPlaceholder, EmailTemplateValue>>[];
+  formatMoney: (amount: number) => string;
+}
+
+/**
+ * Fill in a template. Conditions are true for any value other than empty
+ * text or zero, and for a list with anything in it. Unknown placeholders are
+ * left as they are.
+ */
+export function renderEmailTemplate(template: string, data: EmailTemplateData): string {
+  const { nodes } = parseTemplate(template);
+
+  const lookup = (name: string, item: EmailTemplateData["items"][number] | null): EmailTemplateValue | EmailTemplateData["items"] => {
+    if (name === "order.items") {
+      return data.items;
+    }
+    if (name in emailItemPlaceholders) {
+      return item ? item[name as EmailItemPlaceholder] : undefined;
+    }
+    return data.values[name as EmailPlaceholder];
+  };
+
+  const kindOf = (name: string): PlaceholderKind | null => {
+    if (name in emailItemPlaceholders) return emailItemPlaceholders[name as EmailItemPlaceholder].kind;
+    if (name in emailPlaceholders) return emailPlaceholders[name as EmailPlaceholder].kind;
+    return null;
+  };
+
+  const render = (list: TemplateNode[], item: EmailTemplateData["items"][number] | null): string =>
+    list
+      .map((node) => {
+        switch (node.kind) {
+          case "text":
+            return node.text;
+          case "value": {
+            if (!kindOf(node.name)) {
+              return `{{${node.name}}}`;
+            }
+            const value = lookup(node.name, item);
+            if (value === null || value === undefined || Array.isArray(value)) {
+              return "";
+            }
+            return typeof value === "number" && kindOf(node.name) === "money" ? data.formatMoney(value) : String(value);
+          }
+          case "if": {
+            const value = lookup(node.name, item);
+            const isSet = Array.isArray(value) ? value.length > 0 : value !== null && value !== undefined && value !== "" && value !== 0;
+            return render(isSet ? node.then : node.otherwise, item);
+          }
+          case "each":
+            return node.name === "order.items" ? data.items.map((entry) => render(node.body, entry)).join("") : "";
+        }
+      })
+      .join("");
+
+  return render(nodes, null);
+}
+
+// The bracket tokens payment reminder templates used before the template
+// engine, and what they are now written as
+const legacyPlaceholders: Record<string, string> = {
+  "[ORDER_NUMBER]": "{{order.number}}",
+  "[CUSTOMER_NAME]": "{{contact.name}}",
+  "[CUSTOMER_FIRST_NAME]": "{{contact.firstName}}",
+  "[AMOUNT_DUE]": "{{payments.balance}}",
+  "[DUE_DATE]": "{{order.dueDate}}",
+  "[DAYS_REMAINING]": "{{payments.daysRemaining}}",
+  "[BUSINESS_NAME]": "{{business.name}}",
+};
+
+/**
+ * Rewrite the old [BRACKET] tokens as placeholders
+ */
+export function upgradeLegacyPlaceholders(template: string): string {
+  return template.replace(/\[[A-Z_]+\]/g, (token) => legacyPlaceholders[token] || token);
+}
+
+/**
+ * The email templates, as the template editor saves them. Blank templates
+ * are stored as null, so the default is used.
+ */
+export const emailTemplatesSchema = z
+  .object(
+    Object.fromEntries(
+      emailTemplateTypes.map((type) => [emailTemplateFields[type], z.string().nullable().optional()])
+    ) as Record<EmailTemplateField, z.ZodOptional<z.ZodNullable<z.ZodString>>>
+  )
+  .superRefine((value, ctx) => {
+    for (const type of emailTemplateTypes) {
+      const field = emailTemplateFields[type];
+      for (const message of validateEmailTemplate(type, value[field] || "")) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: [field], message });
+      }
+    }
+  });
+
+export type EmailTemplates = z.infer<typeof emailTemplatesSchema>;
+
+/**
+ * A template rendered for the editor's preview
+ */
+export const emailTemplatePreviewSchema = z.object({
+  type: z.enum([...emailTemplateTypes, ...automationEmailTypes]),
+  template: z.string(),
+  orderId: z.number().int().positive().nullable().optional(),
+});
+
+export type EmailTemplatePreviewRequest = z.infer<typeof emailTemplatePreviewSchema>;
@@ -0,0 +1,164 @@
+import { z } from "zod";
+
+// Invoice and quote layouts, shared by the server (which renders the PDFs)
+// and the template editor (which checks a custom template as it is typed).
+
+export const invoiceLayouts = ["classic", "modern", "minimal", "compact", "custom"] as const;
+export type InvoiceLayout = typeof invoiceLayouts[number];
+
+export const invoiceLayoutLabels: Record<InvoiceLayout, string> = {
+  classic: "Classic",
+  modern: "Modern",
+  minimal: "Minimal",
+  compact: "Compact receipt",
+  custom: "Custom template",
+};
+
+/**
+ * The layout for a stored `settings.invoiceTemplate`, which defaulted to
+ * "default" before there was more than one layout
+ */
+export function toInvoiceLayout(value: string | null | undefined): InvoiceLayout {
+  return invoiceLayouts.includes(value as InvoiceLayout) ? (value as InvoiceLayout) : "classic";
+}
+
+// Placeholders replaced with a value wherever they appear in a line
+export const inlinePlaceholders = {
+  "document.title": "Invoice or quote title",
+  "document.number": "Invoice or quote number",
+  "document.date": "Date the document was issued",
+  "business.name": "Your business name",
+  "business.email": "Your business email",
+  "business.phone": "Your business phone",
+  "business.address": "Your business address",
+  "order.eventDate": "Event date",
+  "order.eventType": "Event type",
+  "order.dueDate": "Payment due date (invoices)",
+  "order.validUntil": "Quote expiry date (quotes)",
+  "order.total": "Total",
+  "order.balance": "Balance still to pay (invoices)",
+  "contact.name": "Customer name",
+  "contact.business": "Customer business name",
+  "contact.email": "Customer email",
+  "contact.phone": "Customer phone",
+  "contact.address": "Customer address",
+} as const;
+
+// Placeholders that draw a whole section, and must be on a line by themselves
+export const blockPlaceholders = {
+  logo: "Your logo",
+  items: "Table of items",
+  totals: "Subtotal, discount, setup fee, tax and total",
+  tax: "Tax summary by rate",
+  schedule: "Payment schedule (invoices)",
+  notes: "Order or quote notes",
+  footer: "Invoice or quote footer",
+} as const;
+
+export type InlinePlaceholder = keyof typeof inlinePlaceholders;
+export type BlockPlaceholder = keyof typeof blockPlaceholders;
+
+const PLACEHOLDER = /\{\{\s*([\w.]+)\s*\}\}/g;
+export const MAX_TEMPLATE_LENGTH = 10000;
+
+export const defaultCustomTemplate = `{{logo}}
+# {{business.name}}
+{{business.address}}
+{{business.email}}
+
+# {{document.title}} {{document.number}}
+Date: {{document.date}}
+Event: {{order.eventType}} on {{order.eventDate}}
+
+## Bill To
+{{contact.name}}
+{{contact.email}}
+{{contact.address}}
+
+{{items}}
+{{totals}}
+{{tax}}
+{{schedule}}
+{{notes}}
+{{footer}}`;
+
+/**
+ * Check a custom template. Lines starting with "# " or "## " are headings,
+ * "---" is a divider and every other line is text with its placeholders
+ * filled in.
+ * @returns What is wrong with the template, empty if it can be used
+ */
+export function validateInvoiceTemplate(template: string): string[] {
+  const errors: string[] = [];
+
+  if (!template.trim()) {
+    return ["Template is empty"];
+  }
+
+  if (template.length > MAX_TEMPLATE_LENGTH) {
+    errors.push(`Template must be at most ${MAX_TEMPLATE_LENGTH} characters`);
+  }
+
+  const used = new Set<string>();
+
+  template.split("\n").forEach((line, index) => {
+    const lineNumber = index + 1;
+    const withoutPlaceholders = line.replace(PLACEHOLDER, "");
+
+    if (withoutPlaceholders.includes("{{") || withoutPlaceholders.includes("}}")) {
+      errors.push(`Line ${lineNumber}: unmatched {{ or }}`);
+    }
+
+    for (const match of Array.from(line.matchAll(PLACEHOLDER))) {
+      const name = match[1];
+
+      if (name in blockPlaceholders) {
+        if (line.trim() !== match[0]) {
+          errors.push(`Line ${lineNumber}: {{${name}}} must be on a line by itself`);
+        }
+      } else if (!(name in inlinePlaceholders)) {
+        errors.push(`Line ${lineNumber}: unknown placeholder {{${name}}}`);
+      }
+
+      used.add(name);
+    }
+  });
+
+  for (const required of ["items", "totals"]) {
+    if (!used.has(required)) {
+      errors.push(`Template must include {{${required}}}`);
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Fill in the inline placeholders in a line of a custom template. Unknown
+ * placeholders are left as they are.
+ */
+export function fillPlaceholders(line: string, values: Partial<Record<InlinePlaceholder, string | null>>): string {
+  return line.replace(PLACEHOLDER, (match, name: string) =>
+    name in inlinePlaceholders ? values[name as InlinePlaceholder] ?? "" : match
+  );
+}
+
+/**
+ * The invoice layout settings, as the template editor reads and writes them
+ */
+export const invoiceTemplateSettingsSchema = z
+  .object({
+    layout: z.enum(invoiceLayouts),
+    customTemplate: z.string().nullable().default(null),
+  })
+  .superRefine((value, ctx) => {
+    if (value.layout !== "custom" && !value.customTemplate) {
+      return;
+    }
+
+    for (const message of validateInvoiceTemplate(value.customTemplate || "")) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["customTemplate"], message });
+    }
+  });
+
+export type InvoiceTemplateSettings = z.infer<typeof invoiceTemplateSettingsSchema>;
@@ -0,0 +1,71 @@
+import { orderStatusTypes, type OrderStatus } from "./schema";
+
+// Allowed order status changes. Orders move forward through the workflow
+// (Quote → Confirmed → Paid → Ready → Delivered), can be cancelled at any
+// point before delivery, and a cancelled order can be reopened.
+export const orderStatusTransitions: Record<OrderStatus, OrderStatus[]> = {
+  Quote: ["Confirmed", "Cancelled"],
+  Confirmed: ["Paid", "Ready", "Cancelled"],
+  Paid: ["Ready", "Delivered", "Cancelled"],
+  Ready: ["Delivered", "Cancelled"],
+  Delivered: [],
+  Cancelled: ["Quote", "Confirmed"],
+};
+
+/**
+ * Check whether a value is one of the known order statuses
+ */
+export function isOrderStatus(value: unknown): value is OrderStatus {
+  return typeof value === "string" && (orderStatusTypes as readonly string[]).includes(value);
+}
+
+/**
+ * Normalise a stored status to the workflow. Orders saved before the workflow
+ * existed may be "Draft" or blank, which are treated as quotes.
+ */
+export function normalizeOrderStatus(status: string | null | undefined): OrderStatus {
+  return isOrderStatus(status) ? status : "Quote";
+}
+
+/**
+ * Statuses an order can move to from its current status
+ */
+export function getNextOrderStatuses(status: string | null | undefined): OrderStatus[] {
+  return orderStatusTransitions[normalizeOrderStatus(status)];
+}
+
+/**
+ * Check whether an order may move from one status to another
+ */
+export function canTransitionOrderStatus(from: string | null | undefined, to: OrderStatus): boolean {
+  return getNextOrderStatuses(from).includes(to);
+}
+
+
+/**
+ * The allowed steps that take an order from one status to another, shortest
+ * first, e.g. Quote → Paid is [Confirmed, Paid]. Null when it can't get there.
+ */
+export function getOrderStatusPath(from: string | null | undefined, to: OrderStatus): OrderStatus[] | null {
+  const start = normalizeOrderStatus(from);
+  const paths = new Map<OrderStatus, OrderStatus[]>([[start, []]]);
+  const queue: OrderStatus[] = [start];
+
+  while (queue.length > 0) {
+    const status = queue.shift()!;
+    const path = paths.get(status)!;
+
+    if (status === to) {
+      return path;
+    }
+
+    for (const next of orderStatusTransitions[status]) {
+      if (!paths.has(next)) {
+        paths.set(next, [...path, next]);
+        queue.push(next);
+      }
+    }
+  }
+
+  return null;
+}
@@ -0,0 +1,133 @@
+import { roundMoney } from "./pricing";
+
+/**
+ * Payment state of an order, derived from what has been paid against its total
+ */
+export const paymentStates = ["unpaid", "deposit_paid", "paid", "overpaid"] as const;
+export type PaymentState = typeof paymentStates[number];
+
+export const paymentStateLabels: Record<PaymentState, string> = {
+  unpaid: "Unpaid",
+  deposit_paid: "Deposit Paid",
+  paid: "Paid in Full",
+  overpaid: "Overpaid",
+};
+
+// Payment statuses that count towards what has been paid on an order. A
+// refunded payment still counts, and its refunds are taken off separately.
+export const settledPaymentStatuses = ["completed", "succeeded", "partially_refunded", "refunded"];
+
+// Refund statuses that are taken off what has been paid
+export const activeRefundStatuses = ["pending", "completed"];
+
+export interface LedgerPayment {
+  amount: string | number;
+  status: string;
+}
+
+export interface LedgerRefund {
+  amount: string | number;
+  status: string;
+}
+
+export interface LedgerInstalment {
+  id: number;
+  amount: string | number;
+  dueDate: string;
+  description: string | null;
+  status: string | null;
+}
+
+export interface LedgerInstalmentStatus {
+  id: number;
+  amount: number;
+  dueDate: string;
+  description: string | null;
+  isPaid: boolean;
+  isOverdue: boolean;
+}
+
+export interface OrderLedger {
+  total: number;
+  // What has been paid, less refunds
+  amountPaid: number;
+  amountRefunded: number;
+  balance: number;
+  state: PaymentState;
+  instalments: LedgerInstalmentStatus[];
+  overdueAmount: number;
+  // The earliest instalment still to be paid
+  nextInstalment: LedgerInstalmentStatus | null;
+}
+
+const toNumber = (value: string | number | null | undefined) =>
+  typeof value === "number" ? value : parseFloat(value || "0") || 0;
+
+/**
+ * Work out an order's payment position from its total, the payments taken,
+ * the refunds given and its scheduled instalments. Payments are applied to instalments in due
+ * date order, so an instalment counts as paid once everything up to and
+ * including it has been covered (or it was explicitly marked as paid).
+ */
+export function calculateOrderLedger(
+  total: string | number,
+  payments: LedgerPayment[],
+  instalments: LedgerInstalment[],
+  refunds: LedgerRefund[] = [],
+  today: string = new Date().toISOString().split("T")[0]
+): OrderLedger {
+  const orderTotal = roundMoney(toNumber(total));
+  const amountRefunded = roundMoney(
+    refunds
+      .filter((refund) => activeRefundStatuses.includes(refund.status))
+      .reduce((sum, refund) => sum + toNumber(refund.amount), 0)
+  );
+  const amountPaid = roundMoney(
+    payments
+      .filter((payment) => settledPaymentStatuses.includes(payment.status))
+      .reduce((sum, payment) => sum + toNumber(payment.amount), 0) - amountRefunded
+  );
+  const balance = roundMoney(orderTotal - amountPaid);
+
+  let state: PaymentState;
+  if (balance < 0) {
+    state = "overpaid";
+  } else if (balance === 0) {
+    state = "paid";
+  } else {
+    state = amountPaid > 0 ? "deposit_paid" : "unpaid";
+  }
+
+  let covered = 0;
+  const schedule = [...instalments]
+    .sort((a, b) => a.dueDate.localeCompare(b.dueDate) || a.id - b.id)
+    .map((instalment) => {
+      const amount = roundMoney(toNumber(instalment.amount));
+      covered = roundMoney(covered + amount);
+      const isPaid = instalment.status === "Paid" || covered <= amountPaid;
+
+      return {
+        id: instalment.id,
+        amount,
+        dueDate: instalment.dueDate,
+        description: instalment.description,
+        isPaid,
+        isOverdue: !isPaid && instalment.dueDate < today,
+      };
+    });
+
+  const overdueAmount = roundMoney(
+    schedule.filter((instalment) => instalment.isOverdue).reduce((sum, instalment) => sum + instalment.amount, 0)
+  );
+
+  return {
+    total: orderTotal,
+    amountPaid,
+    amountRefunded,
+    balance,
+    state,
+    instalments: schedule,
+    overdueAmount,
+    nextInstalment: schedule.find((instalment) => !instalment.isPaid) || null,
+  };
+}
@@ -0,0 +1,120 @@
+import { z } from "zod";
+
+export const paymentPlanFrequencies = ["weekly", "fortnightly", "monthly"] as const;
+export type PaymentPlanFrequency = typeof paymentPlanFrequencies[number];
+
+const dateString = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be YYYY-MM-DD");
+
+/**
+ * How an order total is split into scheduled payments: a percentage deposit
+ * with the balance due a number of days before the event, or equal
+ * instalments at a set frequency. `startDate` is when the deposit or first
+ * instalment falls due, and is fixed when a plan is applied to an order so
+ * the plan regenerates the same dates later.
+ */
+export const paymentPlanSchema = z.discriminatedUnion("type", [
+  z.object({
+    type: z.literal("deposit"),
+    depositPercent: z.coerce.number().min(0).max(100),
+    balanceDaysBefore: z.coerce.number().int().min(0),
+    startDate: dateString.optional(),
+  }),
+  z.object({
+    type: z.literal("instalments"),
+    count: z.coerce.number().int().min(1).max(52),
+    frequency: z.enum(paymentPlanFrequencies),
+    startDate: dateString.optional(),
+  }),
+]);
+
+export type PaymentPlan = z.infer<typeof paymentPlanSchema>;
+
+export interface PlannedInstalment {
+  amount: number;
+  dueDate: string;
+  description: string;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function addDays(date: string, days: number): string {
+  return new Date(Date.parse(`${date}T00:00:00Z`) + days * DAY_MS).toISOString().split("T")[0];
+}
+
+function addMonths(date: string, months: number): string {
+  const start = new Date(`${date}T00:00:00Z`);
+  const target = new Date(Date.UTC(start.getUTCFullYear(), start.getUTCMonth() + months, 1));
+  // Keep the same day of the month, or the last day if the month is shorter
+  const daysInMonth = new Date(Date.UTC(target.getUTCFullYear(), target.getUTCMonth() + 1, 0)).getUTCDate();
+  target.setUTCDate(Math.min(start.getUTCDate(), daysInMonth));
+  return target.toISOString().split("T")[0];
+}
+
+/**
+ * Split an order total into scheduled payments. Amounts are worked out in
+ * cents so they always add up to the total exactly: a deposit's rounding goes
+ * into the balance, and any cents left over from equal instalments are added
+ * to the first one.
+ */
+export function generatePaymentPlan(
+  total: string | number,
+  eventDate: string,
+  plan: PaymentPlan,
+  today: string = new Date().toISOString().split("T")[0]
+): PlannedInstalment[] {
+  const totalCents = Math.round((typeof total === "number" ? total : parseFloat(total) || 0) * 100);
+  const startDate = plan.startDate || today;
+
+  if (totalCents <= 0) {
+    return [];
+  }
+
+  if (plan.type === "deposit") {
+    const depositCents = Math.round((totalCents * plan.depositPercent) / 100);
+    const balanceCents = totalCents - depositCents;
+    // The balance can't fall due before the deposit
+    const balanceDue = addDays(eventDate, -plan.balanceDaysBefore);
+    const instalments: PlannedInstalment[] = [];
+
+    if (depositCents > 0) {
+      instalments.push({
+        amount: depositCents / 100,
+        dueDate: startDate,
+        description: `Deposit (${plan.depositPercent}%)`,
+      });
+    }
+
+    if (balanceCents > 0) {
+      instalments.push({
+        amount: balanceCents / 100,
+        dueDate: balanceDue < startDate ? startDate : balanceDue,
+        description: depositCents > 0 ? "Balance" : "Payment in full",
+      });
+    }
+
+    return instalments;
+  }
+
+  const baseCents = Math.floor(totalCents / plan.count);
+  const remainderCents = totalCents - baseCents * plan.count;
+
+  return Array.from({ length: plan.count }, (_, index) => ({
+    amount: (baseCents + (index === 0 ? remainderCents : 0)) / 100,
+    dueDate:
+      plan.frequency === "monthly"
+        ? addMonths(startDate, index)
+        : addDays(startDate, index * (plan.frequency === "fortnightly" ? 14 : 7)),
+    description: `Instalment ${index + 1} of ${plan.count}`,
+  }));
+}
+
+/**
+ * Describe a payment plan in a few words, e.g. for a preset list
+ */
+export function describePaymentPlan(plan: PaymentPlan): string {
+  if (plan.type === "deposit") {
+    return `${plan.depositPercent}% deposit, balance ${plan.balanceDaysBefore} days before the event`;
+  }
+
+  return `${plan.count} ${plan.frequency} instalments`;
+}
@@ -0,0 +1,198 @@
+// Order pricing shared by the server (which stores the totals) and the order
+// form (which shows the same breakdown while the order is being edited).
+//
+// Line items carry a unit price and quantity; the stored `price` of an order
+// item is the line total (unit price x quantity). Discounts apply to the item
+// subtotal only, the setup fee is added afterwards, and tax is worked out per
+// line on the discounted amount.
+//
+// With tax-inclusive pricing the prices already contain tax: the tax is taken
+// out of each discounted line instead of being added on top, so the total is
+// what the customer sees on the price list.
+
+export type DiscountType = "%" | "$";
+
+export interface PricingLineInput {
+  quantity: number | string;
+  unitPrice?: number | string | null;
+  // Older order items only carry `price`, which held the unit price
+  price?: number | string | null;
+  // Tax rate for this line as a percentage; falls back to the order's tax rate
+  taxRate?: number | string | null;
+}
+
+export interface PricingInput {
+  items: PricingLineInput[];
+  discount?: number | string | null;
+  discountType?: string | null;
+  setupFee?: number | string | null;
+  // Default tax rate, used by the setup fee and lines without their own rate
+  taxRate?: number | string | null;
+  pricesIncludeTax?: boolean | null;
+}
+
+export interface PricingLine {
+  quantity: number;
+  unitPrice: number;
+  lineTotal: number;
+  discountAmount: number;
+  // Discounted line amount excluding tax
+  netAmount: number;
+  taxRate: number;
+  taxAmount: number;
+}
+
+export interface PricingBreakdown {
+  lines: PricingLine[];
+  subtotal: number;
+  discountType: DiscountType;
+  discountValue: number;
+  discountAmount: number;
+  setupFee: number;
+  setupFeeNet: number;
+  setupFeeTaxRate: number;
+  setupFeeTax: number;
+  pricesIncludeTax: boolean;
+  // Everything tax is charged on, excluding tax
+  taxableAmount: number;
+  taxTotal: number;
+  total: number;
+}
+
+/**
+ * Round a currency amount to 2 decimal places
+ */
+export function roundMoney(amount: number): number {
+  return Math.round((amount + Number.EPSILON) * 100) / 100;
+}
+
+function toNumber(value: number | string | null | undefined): number {
+  if (value === null || value === undefined || value === "") return 0;
+  const parsed = typeof value === "number" ? value : parseFloat(value);
+  return isNaN(parsed) ? 0 : parsed;
+}
+
+/**
+ * Split an amount across weights so the rounded parts add up exactly to the
+ * rounded amount, giving leftover cents to the largest remainders
+ */
+export function allocateAmount(amount: number, weights: number[]): number[] {
+  const totalCents = Math.round(amount * 100);
+  const totalWeight = weights.reduce((sum, weight) => sum + weight, 0);
+
+  if (weights.length === 0) return [];
+  if (totalWeight <= 0) return weights.map(() => 0);
+
+  const exact = weights.map((weight) => (totalCents * weight) / totalWeight);
+  const cents = exact.map(Math.floor);
+  let remaining = totalCents - cents.reduce((sum, value) => sum + value, 0);
+
+  const byRemainder = exact
+    .map((value, index) => ({ index, remainder: value - Math.floor(value) }))
+    .sort((a, b) => b.remainder - a.remainder);
+
+  for (const { index } of byRemainder) {
+    if (remaining <= 0) break;
+    cents[index] += 1;
+    remaining -= 1;
+  }
+
+  return cents.map((value) => value / 100);
+}
+
+export interface TaxSummaryLine {
+  rate: number;
+  // Amount the tax was charged on, after discount
+  netAmount: number;
+  taxAmount: number;
+}
+
+/**
+ * Group the taxed amounts in a pricing breakdown by tax rate, lowest rate
+ * first, for the tax summary on invoices
+ */
+export function summariseTax(pricing: PricingBreakdown): TaxSummaryLine[] {
+  const byRate = new Map<number, TaxSummaryLine>();
+  const add = (rate: number, netAmount: number, taxAmount: number) => {
+    const line = byRate.get(rate) || { rate, netAmount: 0, taxAmount: 0 };
+    line.netAmount = roundMoney(line.netAmount + netAmount);
+    line.taxAmount = roundMoney(line.taxAmount + taxAmount);
+    byRate.set(rate, line);
+  };
+
+  pricing.lines.forEach((line) => add(line.taxRate, line.netAmount, line.taxAmount));
+  if (pricing.setupFee > 0) {
+    add(pricing.setupFeeTaxRate, pricing.setupFeeNet, pricing.setupFeeTax);
+  }
+
+  return Array.from(byRate.values()).sort((a, b) => a.rate - b.rate);
+}
+
+/**
+ * Split an amount into the part before tax and the tax on it. Inclusive
+ * amounts already contain the tax; exclusive amounts have it added on top.
+ */
+function applyTax(amount: number, rate: number, inclusive: boolean): { netAmount: number; taxAmount: number } {
+  if (inclusive) {
+    const taxAmount = roundMoney(amount * rate / (100 + rate));
+    return { netAmount: roundMoney(amount - taxAmount), taxAmount };
+  }
+
+  return { netAmount: amount, taxAmount: roundMoney(amount * (rate / 100)) };
+}
+
+/**
+ * Calculate line totals, discount, setup fee, tax and grand total for an order
+ */
+export function calculateOrderPricing(input: PricingInput): PricingBreakdown {
+  const orderTaxRate = toNumber(input.taxRate);
+  const pricesIncludeTax = input.pricesIncludeTax === true;
+  const discountType: DiscountType = input.discountType === "$" ? "$" : "%";
+  const discountValue = Math.max(0, toNumber(input.discount));
+  const setupFee = roundMoney(Math.max(0, toNumber(input.setupFee)));
+
+  const baseLines = input.items.map((item) => {
+    const quantity = toNumber(item.quantity);
+    const unitPrice = toNumber(item.unitPrice ?? item.price);
+    const taxRate = item.taxRate === null || item.taxRate === undefined || item.taxRate === ""
+      ? orderTaxRate
+      : toNumber(item.taxRate);
+
+    return { quantity, unitPrice, lineTotal: roundMoney(quantity * unitPrice), taxRate };
+  });
+
+  const subtotal = roundMoney(baseLines.reduce((sum, line) => sum + line.lineTotal, 0));
+
+  const discountAmount = roundMoney(Math.min(
+    subtotal,
+    discountType === "%" ? subtotal * (discountValue / 100) : discountValue
+  ));
+
+  const lineDiscounts = allocateAmount(discountAmount, baseLines.map((line) => line.lineTotal));
+
+  const lines: PricingLine[] = baseLines.map((line, index) => ({
+    ...line,
+    discountAmount: lineDiscounts[index],
+    ...applyTax(roundMoney(line.lineTotal - lineDiscounts[index]), line.taxRate, pricesIncludeTax),
+  }));
+
+  const { netAmount: setupFeeNet, taxAmount: setupFeeTax } = applyTax(setupFee, orderTaxRate, pricesIncludeTax);
+  const taxableAmount = roundMoney(lines.reduce((sum, line) => sum + line.netAmount, 0) + setupFeeNet);
+  const taxTotal = roundMoney(lines.reduce((sum, line) => sum + line.taxAmount, 0) + setupFeeTax);
+
+  return {
+    lines,
+    subtotal,
+    discountType,
+    discountValue,
+    discountAmount,
+    setupFee,
+    setupFeeNet,
+    setupFeeTaxRate: orderTaxRate,
+    setupFeeTax,
+    pricesIncludeTax,
+    taxableAmount,
+    taxTotal,
+    total: roundMoney(taxableAmount + taxTotal),
+  };
+}
@@ -1,4 +1,4 @@
-import { pgTable, text, serial, integer, boolean, timestamp, varchar, decimal, date, jsonb } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, boolean, timestamp, varchar, decimal, date, jsonb, uniqueIndex } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 import { type InferSelectModel, relations } from "drizzle-orm";
@@ -62,6 +62,8 @@ export const userNotificationPreferences = pgTable("user_notification_preference
   marketingTips: boolean("marketing_tips").default(false),
   smsOrderConfirmations: boolean("sms_order_confirmations").default(false),
   smsDeliveryReminders: boolean("sms_delivery_reminders").default(false),
+  smsPaymentReminders: boolean("sms_payment_reminders").default(false),
+  smsCountryCode: text("sms_country_code"), // Calling code for customer numbers without one, e.g. "61"
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
@@ -89,6 +91,8 @@ export const contacts = pgTable("contacts", {
   businessName: text("business_name"),
   address: text("address"),
   notes: text("notes"),
+  smsOptIn: boolean("sms_opt_in").notNull().default(false), // The customer agreed to be sent text messages
+  smsOptInAt: timestamp("sms_opt_in_at"), // When they agreed, cleared if they opt out
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
@@ -110,13 +114,21 @@ export const orders = pgTable("orders", {
   discountType: text("discount_type").default("%"),
   setupFee: decimal("setup_fee", { precision: 10, scale: 2 }).default("0"),
   taxRate: decimal("tax_rate", { precision: 5, scale: 2 }).default("0"),
+  pricesIncludeTax: boolean("prices_include_tax").notNull().default(false), // Copied from settings when the order is created
   total: decimal("total", { precision: 10, scale: 2 }).notNull(),
   notes: text("notes"),
   jobSheetNotes: text("job_sheet_notes"),
   imageUrls: text("image_urls").array(),
+  quoteId: integer("quote_id"), // Quote this order was converted from, if any
+  recurringOrderId: integer("recurring_order_id"), // Recurring order this order was generated from, if any
+  termsAcceptedAt: timestamp("terms_accepted_at"), // When the customer accepted the terms in the portal
+  paymentPlan: jsonb("payment_plan"), // Payment plan the scheduled payments were generated from, if any
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
-});
+}, (table) => [
+  // A recurring order generates at most one order per date
+  uniqueIndex("orders_recurring_order_event_date_idx").on(table.recurringOrderId, table.eventDate),
+]);
 
 // Order Items table
 export const orderItems = pgTable("order_items", {
@@ -129,6 +141,7 @@ export const orderItems = pgTable("order_items", {
   quantity: integer("quantity").notNull(),
   unitPrice: decimal("unit_price", { precision: 10, scale: 2 }).notNull(),
   price: decimal("price", { precision: 10, scale: 2 }).notNull(),
+  taxRate: decimal("tax_rate", { precision: 5, scale: 2 }), // Null uses the order's tax rate
   notes: text("notes"),
 });
 
@@ -149,12 +162,15 @@ export const quotes = pgTable("quotes", {
   discountType: text("discount_type").default("%"),
   setupFee: decimal("setup_fee", { precision: 10, scale: 2 }).default("0"),
   taxRate: decimal("tax_rate", { precision: 5, scale: 2 }).default("0"),
+  pricesIncludeTax: boolean("prices_include_tax").notNull().default(false), // Copied from settings when the quote is created
   total: decimal("total", { precision: 10, scale: 2 }).notNull(),
   notes: text("notes"),
   imageUrls: text("image_urls").array(),
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
   expiryDate: date("expiry_date"),
+  orderId: integer("order_id"), // Order created when the quote was accepted
+  termsAcceptedAt: timestamp("terms_accepted_at"), // When the customer accepted the terms in the portal
 });
 
 // Quote Items table
@@ -168,6 +184,7 @@ export const quoteItems = pgTable("quote_items", {
   quantity: integer("quantity").notNull(),
   unitPrice: decimal("unit_price", { precision: 10, scale: 2 }).notNull(),
   price: decimal("price", { precision: 10, scale: 2 }).notNull(),
+  taxRate: decimal("tax_rate", { precision: 5, scale: 2 }), // Null uses the quote's tax rate
   notes: text("notes"),
 });
 
@@ -376,6 +393,7 @@ export const settings = pgTable("settings", {
   useTaxInvoice: boolean("use_tax_invoice").default(false), // Use "Tax Invoice" as title instead of "Invoice"
   taxTerminology: text("tax_terminology").default("Tax"),
   taxInvoiceTitle: text("tax_invoice_title").default("Tax Invoice"),
+  pricesIncludeTax: boolean("prices_include_tax").default(false), // Prices are entered including tax
   businessHours: jsonb("business_hours"),
   // Email notification settings
   emailAddress: text("email_address"),
@@ -397,6 +415,7 @@ export const settings = pgTable("settings", {
   businessPhone: text("business_phone"),
   businessAddress: text("business_address"),
   businessLogoUrl: text("business_logo_url"),
+  reviewUrl: text("review_url"), // Where customers can leave a review, for thank you emails
   // Footer text for invoices and quotes
   invoiceFooter: text("invoice_footer"),
   quoteFooter: text("quote_footer"),
@@ -404,10 +423,23 @@ export const settings = pgTable("settings", {
   orderNumberPrefix: text("order_number_prefix").default(""),
   quoteNumberPrefix: text("quote_number_prefix").default(""),
   // Invoice template settings
-  invoiceTemplate: text("invoice_template").default("default"),
+  invoiceTemplate: text("invoice_template").default("default"), // Layout, see invoiceLayouts in shared/invoice-templates
   invoiceColors: jsonb("invoice_colors"),
+  customInvoiceTemplate: text("custom_invoice_template"), // Used by the "custom" layout
   // Order settings
   nextOrderNumber: integer("next_order_number").default(1),
+  nextQuoteNumber: integer("next_quote_number").default(1),
+  creditNoteNumberPrefix: text("credit_note_number_prefix").default("CN-"),
+  nextCreditNoteNumber: integer("next_credit_note_number").default(1),
+  // Tipping settings
+  tippingEnabled: boolean("tipping_enabled").default(false),
+  tipPercentages: integer("tip_percentages").array(),
+  allowCustomTip: boolean("allow_custom_tip").default(true),
+  // Xero settings
+  xeroSalesAccountCode: text("xero_sales_account_code").default("200"), // Revenue account invoice lines are posted to
+  xeroPaymentAccountCode: text("xero_payment_account_code").default("090"), // Bank account payments are received into
+  // Accounting export settings
+  accountCodes: jsonb("account_codes"), // See accountCodesSchema in shared/accounting-export
   // Labor settings
   laborRate: decimal("labor_rate", { precision: 10, scale: 2 }).default("0"),
   createdAt: timestamp("created_at").defaultNow().notNull(),
@@ -477,7 +509,7 @@ export const userSubscriptions = pgTable("user_subscriptions", {
 
 // Define insert schemas using drizzle-zod
 export const insertUserSchema = createInsertSchema(users).omit({ id: true, createdAt: true });
-export const insertContactSchema = createInsertSchema(contacts).omit({ id: true, createdAt: true });
+export const insertContactSchema = createInsertSchema(contacts).omit({ id: true, createdAt: true, smsOptInAt: true });
 export const insertOrderSchema = createInsertSchema(orders).omit({ id: true, createdAt: true, updatedAt: true });
 export const insertOrderItemSchema = createInsertSchema(orderItems).omit({ id: true });
 export const insertQuoteSchema = createInsertSchema(quotes).omit({ id: true, createdAt: true, updatedAt: true });
@@ -579,12 +611,16 @@ export const payments = pgTable("payments", {
   currency: text("currency").default("USD"),
   provider: text("provider").notNull(), // 'square', 'stripe', 'manual', etc.
   paymentId: text("payment_id"), // External payment ID
-  status: text("status").notNull(), // 'pending', 'completed', 'failed', 'refunded'
+  status: text("status").notNull(), // 'pending', 'completed', 'failed', 'partially_refunded', 'refunded'
   paymentMethod: text("payment_method"), // 'card', 'cash', 'bank_transfer', etc.
+  tipAmount: decimal("tip_amount", { precision: 10, scale: 2 }).default("0"), // Paid on top of the amount, not towards the order
   notes: text("notes"),
   createdAt: timestamp("created_at").notNull().defaultNow(),
   updatedAt: timestamp("updated_at").notNull().defaultNow(),
-});
+}, (table) => [
+  // A provider's payment is recorded once, however many times it is reported
+  uniqueIndex("payments_provider_payment_id_idx").on(table.provider, table.paymentId),
+]);
 
 // Product Bundles table
 export const productBundles = pgTable("product_bundles", {
@@ -636,6 +672,7 @@ export const reminderSchedules = pgTable("reminder_schedules", {
   templateId: integer("template_id").references(() => reminderTemplates.id),
   daysBefore: integer("days_before"), // Days before due date (null for "overdue")
   isOverdue: boolean("is_overdue").default(false), // True for overdue reminders
+  repeatDays: integer("repeat_days"), // Overdue reminders are sent again every this many days until paid (null to send once)
   customSubject: text("custom_subject"), // Optional custom subject, otherwise use template
   customBody: text("custom_body"), // Optional custom body, otherwise use template
   isEnabled: boolean("is_enabled").default(true),
@@ -696,3 +733,257 @@ export type BundleItem = typeof bundleItems.$inferSelect;
 export type ReminderTemplate = typeof reminderTemplates.$inferSelect;
 export type ReminderSchedule = typeof reminderSchedules.$inferSelect;
 export type ReminderHistory = typeof reminderHistory.$inferSelect;
+
+// Recurring order frequencies
+export const recurringOrderFrequencies = ['weekly', 'fortnightly', 'monthly'] as const;
+export type RecurringOrderFrequency = typeof recurringOrderFrequencies[number];
+
+// Recurring Orders - standing orders that generate real orders ahead of time
+export const recurringOrders = pgTable("recurring_orders", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull(),
+  contactId: integer("contact_id").notNull(),
+  name: text("name").notNull(),
+  eventType: text("event_type").notNull().default("Other"),
+  deliveryType: text("delivery_type").notNull().default("Delivery"),
+  deliveryDetails: text("delivery_details"),
+  deliveryTime: text("delivery_time"),
+  discount: decimal("discount", { precision: 10, scale: 2 }).default("0"),
+  discountType: text("discount_type").default("%"),
+  setupFee: decimal("setup_fee", { precision: 10, scale: 2 }).default("0"),
+  taxRate: decimal("tax_rate", { precision: 5, scale: 2 }).default("0"),
+  pricesIncludeTax: boolean("prices_include_tax").notNull().default(false), // Copied from settings when the recurring order is created
+  notes: text("notes"),
+  frequency: text("frequency").notNull().default("weekly"), // weekly, fortnightly, monthly
+  weekdays: integer("weekdays").array(), // 0 (Sunday) to 6 (Saturday), for weekly and fortnightly orders
+  dayOfMonth: integer("day_of_month"), // For monthly orders; defaults to the start date's day
+  startDate: date("start_date").notNull(),
+  endDate: date("end_date"),
+  skipDates: date("skip_dates").array(), // Dates with no order, e.g. holidays
+  daysAhead: integer("days_ahead").notNull().default(14), // How far ahead orders are generated
+  isActive: boolean("is_active").default(true),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+// Recurring Order Items - product lines copied onto each generated order
+export const recurringOrderItems = pgTable("recurring_order_items", {
+  id: serial("id").primaryKey(),
+  recurringOrderId: integer("recurring_order_id").notNull().references(() => recurringOrders.id),
+  productId: integer("product_id"),
+  type: text("type").notNull().default("Product"),
+  name: text("name").notNull(),
+  description: text("description"),
+  quantity: integer("quantity").notNull(),
+  unitPrice: decimal("unit_price", { precision: 10, scale: 2 }).notNull(),
+  taxRate: decimal("tax_rate", { precision: 5, scale: 2 }), // Null uses the recurring order's tax rate
+});
+
+export const insertRecurringOrderSchema = createInsertSchema(recurringOrders).omit({ id: true, createdAt: true, updatedAt: true });
+export const insertRecurringOrderItemSchema = createInsertSchema(recurringOrderItems).omit({ id: true });
+
+export type InsertRecurringOrder = z.infer<typeof insertRecurringOrderSchema>;
+export type InsertRecurringOrderItem = z.infer<typeof insertRecurringOrderItemSchema>;
+
+export type RecurringOrder = typeof recurringOrders.$inferSelect;
+export type RecurringOrderItem = typeof recurringOrderItems.$inferSelect;
+
+// Blocked Dates - date ranges when no orders can be taken
+export const blockedDates = pgTable("blocked_dates", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull(),
+  startDate: date("start_date").notNull(),
+  endDate: date("end_date").notNull(),
+  reason: text("reason"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+// Daily Capacity - how much work can be taken on for each day of the week
+export const dailyCapacity = pgTable("daily_capacity", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull(),
+  weekday: integer("weekday").notNull(), // 0 (Sunday) to 6 (Saturday)
+  maxOrders: integer("max_orders"), // null for no limit
+  maxLaborHours: decimal("max_labor_hours", { precision: 6, scale: 2 }), // null for no limit
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+}, (table) => [
+  uniqueIndex("daily_capacity_user_weekday_idx").on(table.userId, table.weekday),
+]);
+
+export const insertBlockedDateSchema = createInsertSchema(blockedDates).omit({ id: true, createdAt: true });
+export const insertDailyCapacitySchema = createInsertSchema(dailyCapacity).omit({ id: true, updatedAt: true });
+
+export type InsertBlockedDate = z.infer<typeof insertBlockedDateSchema>;
+export type InsertDailyCapacity = z.infer<typeof insertDailyCapacitySchema>;
+
+export type BlockedDate = typeof blockedDates.$inferSelect;
+export type DailyCapacity = typeof dailyCapacity.$inferSelect;
+
+// Payment Plan Presets - named payment plans that can be applied to orders
+export const paymentPlanPresets = pgTable("payment_plan_presets", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull(),
+  name: text("name").notNull(),
+  plan: jsonb("plan").notNull(), // See paymentPlanSchema in shared/payment-plan
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export const insertPaymentPlanPresetSchema = createInsertSchema(paymentPlanPresets).omit({ id: true, createdAt: true });
+
+export type InsertPaymentPlanPreset = z.infer<typeof insertPaymentPlanPresetSchema>;
+
+export type PaymentPlanPreset = typeof paymentPlanPresets.$inferSelect;
+
+// Webhook Events - provider webhook events that have been received, so each is only processed once
+export const webhookEvents = pgTable("webhook_events", {
+  id: serial("id").primaryKey(),
+  provider: text("provider").notNull(), // 'stripe' or 'square'
+  eventId: text("event_id").notNull(), // The provider's event ID
+  eventType: text("event_type").notNull(),
+  paymentId: text("payment_id"), // External payment ID the event was about, if any
+  status: text("status").notNull().default("received"), // 'received', 'processed', 'ignored'
+  payload: jsonb("payload").notNull(),
+  receivedAt: timestamp("received_at").notNull().defaultNow(),
+  processedAt: timestamp("processed_at"),
+}, (table) => [
+  // Event IDs are only unique within a provider
+  uniqueIndex("webhook_events_provider_event_id_idx").on(table.provider, table.eventId),
+]);
+
+export type WebhookEvent = typeof webhookEvents.$inferSelect;
+
+// Refunds - money returned against a payment, each issued with a numbered credit note
+export const refunds = pgTable("refunds", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id),
+  orderId: integer("order_id").notNull().references(() => orders.id),
+  paymentId: integer("payment_id").notNull().references(() => payments.id),
+  creditNoteNumber: text("credit_note_number").notNull(),
+  amount: decimal("amount", { precision: 10, scale: 2 }).notNull(),
+  currency: text("currency").default("USD"),
+  provider: text("provider").notNull(), // Same as the payment's provider
+  providerRefundId: text("provider_refund_id").unique(), // External refund ID, for Stripe and Square refunds
+  status: text("status").notNull(), // 'pending', 'completed', 'failed'
+  reason: text("reason"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+export type Refund = typeof refunds.$inferSelect;
+
+// Records synced to an accounting provider, with the remote ID so a re-sync
+// updates the record instead of creating it again
+export const accountingSyncRecords = pgTable("accounting_sync_records", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id),
+  provider: text("provider").notNull(), // 'xero'
+  entityType: text("entity_type").notNull(), // 'contact', 'invoice', 'payment', 'creditNote', 'refund'
+  localId: integer("local_id").notNull(), // ID of the contact, order, payment or refund
+  remoteId: text("remote_id"), // The provider's ID, once the record has been created there
+  status: text("status").notNull(), // 'synced', 'failed'
+  error: text("error"), // Why the last sync failed
+  fingerprint: text("fingerprint"), // Hash of what was last sent, to skip unchanged records
+  syncedAt: timestamp("synced_at"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+export type AccountingSyncRecord = typeof accountingSyncRecords.$inferSelect;
+
+// Invoices and quotes as they were issued, so a sent document can be
+// downloaded again unchanged after the order or quote is edited
+export const issuedDocuments = pgTable("issued_documents", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id),
+  documentType: text("document_type").notNull(), // 'invoice', 'quote'
+  orderId: integer("order_id").references(() => orders.id), // For invoices
+  quoteId: integer("quote_id").references(() => quotes.id), // For quotes
+  documentNumber: text("document_number").notNull(), // Order or quote number at the time
+  total: decimal("total", { precision: 10, scale: 2 }).notNull(),
+  template: text("template").notNull(), // Layout the document was rendered with
+  pdfData: text("pdf_data").notNull(), // Base64 encoded PDF
+  sentTo: text("sent_to"), // Email address, if it was emailed
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export type IssuedDocument = typeof issuedDocuments.$inferSelect;
+
+// Outgoing emails. Every email is queued here and sent by the outbox worker,
+// so failed sends are retried and there is a record of what each customer was sent.
+export const emailOutbox = pgTable("email_outbox", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").references(() => users.id), // Null for emails from BakeGenie itself
+  orderId: integer("order_id").references(() => orders.id),
+  contactId: integer("contact_id").references(() => contacts.id),
+  category: text("category").notNull(), // See emailCategories in shared/email-outbox
+  toAddress: text("to_address").notNull(),
+  cc: text("cc"),
+  bcc: text("bcc"),
+  fromAddress: text("from_address").notNull(),
+  fromName: text("from_name"),
+  subject: text("subject").notNull(),
+  textBody: text("text_body"),
+  htmlBody: text("html_body"),
+  attachments: jsonb("attachments"), // See EmailAttachment in shared/email-outbox
+  status: text("status").notNull().default("queued"), // 'queued', 'sending', 'sent', 'failed'
+  attempts: integer("attempts").notNull().default(0),
+  nextAttemptAt: timestamp("next_attempt_at").notNull().defaultNow(),
+  lastError: text("last_error"), // Why the last attempt failed
+  transport: text("transport"), // 'sendgrid', 'smtp' or 'file', once sent
+  providerMessageId: text("provider_message_id"),
+  sentAt: timestamp("sent_at"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+export type EmailOutboxMessage = typeof emailOutbox.$inferSelect;
+
+// Text messages sent to customers, logged against the order they were about
+export const smsMessages = pgTable("sms_messages", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id),
+  orderId: integer("order_id").references(() => orders.id),
+  contactId: integer("contact_id").references(() => contacts.id),
+  category: text("category").notNull(), // See smsCategories in shared/sms
+  reference: text("reference"), // What the message was for, e.g. the due date, so it is only sent once
+  toNumber: text("to_number").notNull(), // E.164
+  body: text("body").notNull(),
+  status: text("status").notNull(), // 'sent', 'failed'
+  provider: text("provider").notNull(),
+  providerMessageId: text("provider_message_id"),
+  error: text("error"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export type SmsMessage = typeof smsMessages.$inferSelect;
+
+// Customer automations: emails sent to customers on order events and dates,
+// one row per user and automation. Users without a row get the defaults.
+export const customerAutomations = pgTable("customer_automations", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id),
+  type: text("type").notNull(), // See customerAutomationTypes in shared/customer-automations
+  enabled: boolean("enabled").notNull().default(false),
+  days: integer("days").notNull().default(0), // Days before the event, or after delivery
+  subject: text("subject").notNull(),
+  body: text("body").notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+}, (table) => [
+  uniqueIndex("customer_automations_user_type_idx").on(table.userId, table.type),
+]);
+
+export type CustomerAutomation = typeof customerAutomations.$inferSelect;
+
+// Every automation email sent, claimed before sending so it is only ever sent once
+export const customerAutomationSends = pgTable("customer_automation_sends", {
+  id: serial("id").primaryKey(),
+  key: text("key").notNull().unique(), // Automation, order and what it was for, e.g. "eventReminder:12:2024-06-01"
+  userId: integer("user_id").notNull().references(() => users.id),
+  orderId: integer("order_id").notNull().references(() => orders.id),
+  type: text("type").notNull(),
+  emailId: integer("email_id").references(() => emailOutbox.id), // The queued email
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export type CustomerAutomationSend = typeof customerAutomationSends.$inferSelect;
@@ -0,0 +1,72 @@
+// Text messages shared by the server (which sends them) and the account and
+// contact pages (which choose who gets them).
+
+export const smsCategories = ["order_confirmation", "delivery_reminder", "payment_reminder"] as const;
+
+export type SmsCategory = typeof smsCategories[number];
+
+export const smsCategoryLabels: Record<SmsCategory, string> = {
+  order_confirmation: "Order confirmation",
+  delivery_reminder: "Delivery reminder",
+  payment_reminder: "Payment reminder",
+};
+
+// Calling code for local numbers when the user hasn't chosen one, from the
+// currency they trade in
+const currencyCallingCodes: Record<string, string> = {
+  AUD: "61",
+  NZD: "64",
+  GBP: "44",
+  USD: "1",
+  CAD: "1",
+  ZAR: "27",
+  SGD: "65",
+  INR: "91",
+};
+
+/**
+ * The calling code local numbers are assumed to be in, without the +
+ */
+export function getSmsCountryCode(countryCode: string | null | undefined, currency: string | null | undefined): string | null {
+  const digits = countryCode?.replace(/\D/g, "");
+  return digits || currencyCallingCodes[currency || ""] || null;
+}
+
+/**
+ * Turn a phone number as typed into E.164 (+ then up to 15 digits). Numbers
+ * with a + or 00 prefix keep their own country; others are taken to be local
+ * to `countryCode`, dropping a leading trunk 0. Returns null for anything
+ * that can't be a phone number.
+ */
+export function normalisePhoneNumber(phone: string | null | undefined, countryCode: string | null): string | null {
+  if (!phone) {
+    return null;
+  }
+
+  const trimmed = phone.trim();
+  if (/[a-z]/i.test(trimmed.replace(/(ext|x)\.?\s*\d+$/i, ""))) {
+    return null;
+  }
+
+  // Drop extensions, which can't be texted
+  const digits = trimmed.replace(/(ext|x)\.?\s*\d+$/i, "").replace(/\D/g, "");
+
+  let international: string;
+  if (trimmed.startsWith("+")) {
+    international = digits;
+  } else if (digits.startsWith("00")) {
+    international = digits.slice(2);
+  } else if (countryCode) {
+    const local = digits.replace(/^0/, "");
+    // A local number that already starts with the calling code, e.g. 61412...
+    international = digits.startsWith(countryCode) && digits.length > 10 ? digits : `${countryCode}${local}`;
+  } else {
+    return null;
+  }
+
+  if (!/^[1-9]\d{7,14}$/.test(international)) {
+    return null;
+  }
+
+  return `+${international}`;
+}
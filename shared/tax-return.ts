@@ -0,0 +1,123 @@
+import { z } from "zod";
+
+// VAT/GST returns shared by the server (which works out the figures) and the
+// reports page (which picks the period and shows the boxes).
+
+export const taxReturnBases = ["accrual", "cash"] as const;
+export type TaxReturnBasis = typeof taxReturnBases[number];
+
+export const taxReturnBasisLabels: Record<TaxReturnBasis, string> = {
+  accrual: "Accrual (invoices raised)",
+  cash: "Cash (payments received)",
+};
+
+export const taxReturnSchemes = ["uk-vat", "au-bas"] as const;
+export type TaxReturnScheme = typeof taxReturnSchemes[number];
+
+export const taxReturnSchemeLabels: Record<TaxReturnScheme, string> = {
+  "uk-vat": "UK VAT return",
+  "au-bas": "Australian BAS",
+};
+
+export const taxReturnFormats = ["csv", "pdf"] as const;
+export type TaxReturnFormat = typeof taxReturnFormats[number];
+
+const isoDate = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Dates must be YYYY-MM-DD");
+
+/**
+ * The period and basis a return is worked out for. Both dates are inclusive.
+ */
+export const taxReturnQuerySchema = z
+  .object({
+    from: isoDate,
+    to: isoDate,
+    basis: z.enum(taxReturnBases).default("accrual"),
+    scheme: z.enum(taxReturnSchemes).default("uk-vat"),
+  })
+  .refine((value) => value.from <= value.to, { message: "The period must end after it starts", path: ["to"] });
+
+export type TaxReturnQuery = z.infer<typeof taxReturnQuerySchema>;
+
+/**
+ * A sale, refund or expense that counts towards a return. Refunds are
+ * negative so every column can be summed.
+ */
+export interface TaxReturnRecord {
+  type: "sale" | "refund" | "purchase";
+  source: "order" | "payment" | "refund" | "expense";
+  id: number;
+  // YYYY-MM-DD
+  date: string;
+  reference: string;
+  party: string;
+  description: string;
+  net: number;
+  tax: number;
+  gross: number;
+  // Part of `net` charged at a 0% rate
+  zeroRatedNet: number;
+}
+
+export interface TaxReturnTotals {
+  net: number;
+  tax: number;
+  gross: number;
+}
+
+// Which records make up a box, for drilling down into it
+export type TaxReturnBoxRecords = "sales" | "zero-rated" | "purchases" | "all";
+
+export interface TaxReturnBox {
+  box: string;
+  label: string;
+  amount: number;
+  // Null for boxes that are always zero, such as EU trade and exports
+  records: TaxReturnBoxRecords | null;
+}
+
+/**
+ * The records behind a box
+ */
+export function recordsForBox(records: TaxReturnRecord[], box: TaxReturnBox): TaxReturnRecord[] {
+  switch (box.records) {
+    case "sales":
+      return records.filter((record) => record.type !== "purchase");
+    case "zero-rated":
+      return records.filter((record) => record.type !== "purchase" && record.zeroRatedNet !== 0);
+    case "purchases":
+      return records.filter((record) => record.type === "purchase");
+    case "all":
+      return records;
+    default:
+      return [];
+  }
+}
+
+export interface TaxReturn {
+  from: string;
+  to: string;
+  basis: TaxReturnBasis;
+  currency: string;
+  sales: TaxReturnTotals;
+  purchases: TaxReturnTotals;
+  outputTax: number;
+  inputTax: number;
+  // Negative when more tax was paid on expenses than charged on sales
+  netPayable: number;
+  boxes: Record<TaxReturnScheme, TaxReturnBox[]>;
+  records: TaxReturnRecord[];
+}
+
+/**
+ * The first and last day of a calendar quarter (1-4), as YYYY-MM-DD
+ */
+export function quarterRange(year: number, quarter: number): { from: string; to: string } {
+  const firstMonth = (quarter - 1) * 3;
+  const lastDay = new Date(Date.UTC(year, firstMonth + 3, 0)).getUTCDate();
+  const month = (value: number) => String(value + 1).padStart(2, "0");
+
+  return {
+    from: `${year}-${month(firstMonth)}-01`,
+    to: `${year}-${month(firstMonth + 2)}-${String(lastDay).padStart(2, "0")}`,
+  };
+}
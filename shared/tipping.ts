@@ -0,0 +1,65 @@
+import { z } from "zod";
+import { roundMoney } from "./pricing";
+
+export const defaultTipPercentages = [10, 15, 20];
+
+/**
+ * A business's tipping settings, in the shape the tipping settings page
+ * reads and writes
+ */
+export const tippingSettingsSchema = z.object({
+  enabled: z.boolean(),
+  defaultPercentages: z.array(z.coerce.number().int().min(0).max(100)).max(6),
+  allowCustomTip: z.boolean(),
+});
+
+export type TippingSettings = z.infer<typeof tippingSettingsSchema>;
+
+/**
+ * The tip a customer chose at checkout: one of the preset percentages, or a
+ * custom amount
+ */
+export const tipSchema = z.union([
+  z.object({ percentage: z.coerce.number().min(0).max(100) }),
+  z.object({ amount: z.coerce.number().min(0) }),
+]);
+
+export type TipSelection = z.infer<typeof tipSchema>;
+
+/**
+ * Work out the tip on a payment amount
+ */
+export function calculateTip(amount: number, tip: TipSelection | null | undefined): number {
+  if (!tip) {
+    return 0;
+  }
+
+  return roundMoney("percentage" in tip ? (amount * tip.percentage) / 100 : tip.amount);
+}
+
+/**
+ * Check a tip is allowed by the business's settings. Custom tips can be up
+ * to the amount being paid.
+ * @returns Why the tip isn't allowed, or null if it is
+ */
+export function getTipError(amount: number, tip: TipSelection | null | undefined, settings: TippingSettings): string | null {
+  if (!tip || calculateTip(amount, tip) === 0) {
+    return null;
+  }
+
+  if (!settings.enabled) {
+    return "Tipping is not enabled";
+  }
+
+  if ("percentage" in tip) {
+    return settings.defaultPercentages.includes(tip.percentage) || settings.allowCustomTip
+      ? null
+      : `Tip must be one of ${settings.defaultPercentages.join("%, ")}%`;
+  }
+
+  if (!settings.allowCustomTip) {
+    return "Custom tips are not allowed";
+  }
+
+  return tip.amount > amount ? "Tip cannot be more than the amount being paid" : null;
+}